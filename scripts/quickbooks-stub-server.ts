@@ -0,0 +1,191 @@
+/**
+ * Local stand-in for the QuickBooks Online API (and the quickbooks-proxy token endpoint), used by the
+ * adapter tests and for manual testing without a QBO sandbox:
+ *
+ *   npx tsx scripts/quickbooks-stub-server.ts      # then set VITE_QBO_PROXY_URL=http://localhost:4010
+ *
+ * Data lives in memory and resets on restart. Only the calls the adapter makes are implemented.
+ */
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { pathToFileURL } from 'node:url'
+
+type StubEntity = Record<string, unknown> & { Id: string }
+
+export type QuickBooksStubState = {
+  customers: StubEntity[]
+  items: StubEntity[]
+  invoices: StubEntity[]
+  requests: Array<{ method: string; path: string }>
+  issuedAccessTokens: string[]
+}
+
+export type QuickBooksStubServer = {
+  url: string
+  state: QuickBooksStubState
+  close: () => Promise<void>
+}
+
+const ENTITY_KEYS: Record<string, keyof Pick<QuickBooksStubState, 'customers' | 'items' | 'invoices'>> = {
+  Customer: 'customers',
+  Item: 'items',
+  Invoice: 'invoices',
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  })
+  res.end(JSON.stringify(body))
+}
+
+const fault = (message: string) => ({ Fault: { Error: [{ Message: message, Detail: message }], type: 'ValidationFault' } })
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+// Supports the statements the adapter issues: select * from <Entity> [where <Field> = '<value>']
+function runQuery(state: QuickBooksStubState, statement: string): { entity: string; rows: StubEntity[] } | null {
+  const match = /^select \* from (\w+)(?: where (\w+) = '((?:[^'\\]|\\.)*)')?$/i.exec(statement.trim())
+  if (!match || !ENTITY_KEYS[match[1]]) return null
+  const [, entity, field, rawValue] = match
+  const rows = state[ENTITY_KEYS[entity]]
+  if (!field) return { entity, rows }
+  const value = rawValue.replace(/\\(.)/g, '$1')
+  return { entity, rows: rows.filter(row => String(row[field] ?? '') === value) }
+}
+
+export async function startQuickBooksStubServer(options: { port?: number; seed?: Partial<QuickBooksStubState> } = {}): Promise<QuickBooksStubServer> {
+  const state: QuickBooksStubState = {
+    customers: [...(options.seed?.customers ?? [])],
+    items: [...(options.seed?.items ?? [{ Id: '1', Name: 'Services', Type: 'Service' }])],
+    invoices: [...(options.seed?.invoices ?? [])],
+    requests: [],
+    issuedAccessTokens: [],
+  }
+  let nextId = 100
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    state.requests.push({ method: req.method || 'GET', path: url.pathname })
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept, X-QBO-Authorization, X-QBO-Environment',
+      })
+      res.end()
+      return
+    }
+
+    if (req.method === 'POST' && url.pathname === '/oauth2/v1/tokens/bearer') {
+      const form = new URLSearchParams(await readBody(req))
+      const grantType = form.get('grant_type')
+      const credential = grantType === 'authorization_code' ? form.get('code') : form.get('refresh_token')
+      if (!credential || credential.startsWith('invalid') || (grantType !== 'authorization_code' && grantType !== 'refresh_token')) {
+        send(res, 400, { error: 'invalid_grant' })
+        return
+      }
+      const accessToken = `stub-access-${state.issuedAccessTokens.length + 1}`
+      state.issuedAccessTokens.push(accessToken)
+      send(res, 200, {
+        token_type: 'bearer',
+        access_token: accessToken,
+        refresh_token: `stub-refresh-${state.issuedAccessTokens.length}`,
+        expires_in: 3600,
+        x_refresh_token_expires_in: 8_726_400,
+      })
+      return
+    }
+
+    const companyMatch = /^\/v3\/company\/([^/]+)\/(query|customer|invoice)$/.exec(url.pathname)
+    if (!companyMatch) {
+      send(res, 404, fault(`No stub route for ${req.method} ${url.pathname}`))
+      return
+    }
+
+    const token = String(req.headers['x-qbo-authorization'] || '').replace(/^Bearer\s+/i, '')
+    if (!state.issuedAccessTokens.includes(token)) {
+      send(res, 401, fault('AuthenticationFailed'))
+      return
+    }
+
+    const resource = companyMatch[2]
+    if (req.method === 'GET' && resource === 'query') {
+      const result = runQuery(state, url.searchParams.get('query') || '')
+      if (!result) {
+        send(res, 400, fault('QueryParserError'))
+        return
+      }
+      send(res, 200, { QueryResponse: result.rows.length > 0 ? { [result.entity]: result.rows } : {} })
+      return
+    }
+
+    if (req.method !== 'POST') {
+      send(res, 405, fault('Method not allowed'))
+      return
+    }
+
+    let payload: Record<string, unknown>
+    try {
+      payload = JSON.parse(await readBody(req)) as Record<string, unknown>
+    } catch {
+      send(res, 400, fault('Request has invalid or unsupported property'))
+      return
+    }
+
+    if (resource === 'customer') {
+      const displayName = String(payload.DisplayName || '').trim()
+      if (!displayName) {
+        send(res, 400, fault('DisplayName is required'))
+        return
+      }
+      if (state.customers.some(customer => customer.DisplayName === displayName)) {
+        send(res, 400, fault('Duplicate Name Exists Error'))
+        return
+      }
+      const customer = { Id: String(nextId++), DisplayName: displayName }
+      state.customers.push(customer)
+      send(res, 200, { Customer: customer })
+      return
+    }
+
+    const customerRef = payload.CustomerRef as { value?: string } | undefined
+    const lines = Array.isArray(payload.Line) ? (payload.Line as Array<{ Amount?: number }>) : []
+    if (!state.customers.some(customer => customer.Id === customerRef?.value)) {
+      send(res, 400, fault('Invalid Reference Id: CustomerRef'))
+      return
+    }
+    if (lines.length === 0) {
+      send(res, 400, fault('Line is required'))
+      return
+    }
+    const totalCents = lines.reduce((sum, line) => sum + Math.round((line.Amount || 0) * 100), 0)
+    const invoice = { ...payload, Id: String(nextId++), TotalAmt: totalCents / 100 }
+    state.invoices.push(invoice)
+    send(res, 200, { Invoice: invoice })
+  })
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    state,
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.QBO_STUB_PORT || 4010)
+  startQuickBooksStubServer({ port }).then(stub => {
+    console.log(`QuickBooks stub server listening on ${stub.url}`)
+  })
+}
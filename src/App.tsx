@@ -70,6 +70,8 @@ function App() {
             <Routes>
             <Route path="/auth/callback" element={withRouteSuspense(<AuthCallback />)} />
             <Route path="/invite/:token" element={withRouteSuspense(<InviteAccept />)} />
+            <Route path="/share/:token" element={withRouteSuspense(<SharedProjectPortal />)} />
+            <Route path="/approve/:token" element={withRouteSuspense(<ItemApprovalPortal />)} />
 
             <Route
               path="*"
@@ -80,6 +82,7 @@ function App() {
                       <Route path="/" element={withRouteSuspense(<Projects />)} />
                       <Route path="/projects" element={withRouteSuspense(<Projects />)} />
                       <Route path="/settings" element={withRouteSuspense(<Settings />)} />
+                      <Route path="/settings/quickbooks/callback" element={withRouteSuspense(<QuickBooksCallback />)} />
                       <Route path="/item/:id" element={withRouteSuspense(<ItemDetail />)} />
 
                       <Route path="/project/:projectId/*" element={withRouteSuspense(<ProjectLayout />)}>
@@ -90,6 +93,11 @@ function App() {
                       </Route>
 
                       <Route path="/project/:projectId/invoice" element={withRouteSuspense(<ProjectInvoice />)} />
+                      <Route
+                        path="/project/:projectId/invoices/:invoiceId"
+                        element={withRouteSuspense(<InvoiceRecord />)}
+                      />
+                      <Route path="/project/:projectId/payments" element={withRouteSuspense(<ProjectPayments />)} />
                       <Route
                         path="/project/:projectId/property-management-summary"
                         element={withRouteSuspense(<PropertyManagementSummary />)}
@@ -111,7 +119,15 @@ function App() {
                       />
                       <Route
                         path="/project/:projectId/transactions/import-wayfair"
-                        element={withRouteSuspense(<ImportWayfairInvoice />)}
+                        element={withRouteSuspense(<ImportVendorInvoice />)}
+                      />
+                      <Route
+                        path="/project/:projectId/transactions/import-invoice"
+                        element={withRouteSuspense(<ImportVendorInvoice />)}
+                      />
+                      <Route
+                        path="/project/:projectId/transactions/import-spreadsheet"
+                        element={withRouteSuspense(<ImportSpreadsheet />)}
                       />
                       <Route
                         path="/project/:projectId/transactions/:transactionId"
@@ -165,11 +181,27 @@ function App() {
                         )}
                       />
 
+                      <Route path="/qr-image/:qrKey" element={withRouteSuspense(<QrResolver />)} />
+                      <Route path="/labels" element={withRouteSuspense(<QrLabelSheet />)} />
+                      <Route path="/reports/dashboard" element={withRouteSuspense(<FinancialDashboard />)} />
+                      <Route path="/reports/ar-aging" element={withRouteSuspense(<ReceivablesAging />)} />
+                      <Route path="/reports/accounting-export" element={withRouteSuspense(<AccountingExport />)} />
+                      <Route path="/reports/profitability" element={withRouteSuspense(<ProfitabilityReport />)} />
+                      <Route path="/reports/sales-tax" element={withRouteSuspense(<SalesTaxReport />)} />
+                      <Route path="/reports/vendors" element={withRouteSuspense(<VendorSpendReport />)} />
                       <Route path="/business-inventory" element={withRouteSuspense(<BusinessInventory />)} />
                       <Route
                         path="/business-inventory/add"
                         element={withRouteSuspense(<AddBusinessInventoryItem />)}
                       />
+                      <Route
+                        path="/business-inventory/counts"
+                        element={withRouteSuspense(<InventoryCounts />)}
+                      />
+                      <Route
+                        path="/business-inventory/counts/:sessionId"
+                        element={withRouteSuspense(<InventoryCountSession />)}
+                      />
                       <Route
                         path="/business-inventory/:id"
                         element={withRouteSuspense(<BusinessInventoryItemDetail />)}
@@ -205,6 +237,8 @@ function App() {
 
 const AuthCallback = lazy(() => import('./pages/AuthCallback'))
 const InviteAccept = lazy(() => import('./pages/InviteAccept'))
+const SharedProjectPortal = lazy(() => import('./pages/SharedProjectPortal'))
+const ItemApprovalPortal = lazy(() => import('./pages/ItemApprovalPortal'))
 const Projects = lazy(() => import('./pages/Projects'))
 const ItemDetail = lazy(() => import('./pages/ItemDetail'))
 const ProjectLayout = lazy(() => import('./pages/ProjectLayout'))
@@ -214,12 +248,26 @@ const ProjectBudgetPage = lazy(() => import('./pages/ProjectBudgetPage'))
 const ProjectLegacyTabRedirect = lazy(() => import('./pages/ProjectLegacyTabRedirect'))
 const ProjectLegacyEntityRedirect = lazy(() => import('./pages/ProjectLegacyEntityRedirect'))
 const ProjectInvoice = lazy(() => import('./pages/ProjectInvoice'))
+const InvoiceRecord = lazy(() => import('./pages/InvoiceRecord'))
+const FinancialDashboard = lazy(() => import('./pages/FinancialDashboard'))
+const ReceivablesAging = lazy(() => import('./pages/ReceivablesAging'))
+const AccountingExport = lazy(() => import('./pages/AccountingExport'))
+const ProfitabilityReport = lazy(() => import('./pages/ProfitabilityReport'))
+const SalesTaxReport = lazy(() => import('./pages/SalesTaxReport'))
+const VendorSpendReport = lazy(() => import('./pages/VendorSpendReport'))
+const QrResolver = lazy(() => import('./pages/QrResolver'))
+const QrLabelSheet = lazy(() => import('./pages/QrLabelSheet'))
+const InventoryCounts = lazy(() => import('./pages/InventoryCounts'))
+const InventoryCountSession = lazy(() => import('./pages/InventoryCountSession'))
+const QuickBooksCallback = lazy(() => import('./pages/QuickBooksCallback'))
+const ProjectPayments = lazy(() => import('./pages/ProjectPayments'))
 const PropertyManagementSummary = lazy(() => import('./pages/PropertyManagementSummary'))
 const ClientSummary = lazy(() => import('./pages/ClientSummary'))
 const AddItem = lazy(() => import('./pages/AddItem'))
 const EditItem = lazy(() => import('./pages/EditItem'))
 const AddTransaction = lazy(() => import('./pages/AddTransaction'))
-const ImportWayfairInvoice = lazy(() => import('./pages/ImportWayfairInvoice'))
+const ImportVendorInvoice = lazy(() => import('./pages/ImportVendorInvoice'))
+const ImportSpreadsheet = lazy(() => import('./pages/ImportSpreadsheet'))
 const EditTransaction = lazy(() => import('./pages/EditTransaction'))
 const TransactionDetail = lazy(() => import('./pages/TransactionDetail'))
 const Settings = lazy(() => import('./pages/Settings'))
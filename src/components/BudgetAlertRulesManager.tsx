@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Bell, Trash2 } from 'lucide-react'
+import type { BudgetAlertRule } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCategories } from '@/components/CategorySelect'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/ToastContext'
+import { budgetAlertService } from '@/services/budgetAlertService'
+import { DEFAULT_BUDGET_ALERT_THRESHOLDS } from '@/utils/budgetAlerts'
+
+const inputClassName =
+  'mt-1 block px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+/**
+ * Per-project budget alert thresholds. Each threshold notifies the account once per category, the
+ * first time that category's spend reaches it.
+ */
+export default function BudgetAlertRulesManager({ projectId }: { projectId: string }) {
+  const { currentAccountId } = useAccount()
+  const { user } = useAuth()
+  const { showError } = useToast()
+  const { categories } = useCategories()
+  const [rules, setRules] = useState<BudgetAlertRule[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [categoryId, setCategoryId] = useState('')
+  const [thresholdPercent, setThresholdPercent] = useState('')
+
+  const loadRules = useCallback(async () => {
+    if (!currentAccountId) return
+    try {
+      setIsLoading(true)
+      setRules(await budgetAlertService.listRules(currentAccountId, projectId))
+    } catch (err) {
+      console.error('Error loading budget alert rules:', err)
+      showError('Failed to load budget alerts.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId, projectId, showError])
+
+  useEffect(() => {
+    void loadRules()
+  }, [loadRules])
+
+  // A new threshold may already be reached; check now instead of waiting for the next transaction.
+  const evaluateAlerts = () => {
+    if (!currentAccountId) return
+    budgetAlertService.evaluateProjectAlerts(currentAccountId, projectId).catch(err => {
+      console.warn('Failed to evaluate budget alerts:', err)
+    })
+  }
+
+  const handleAdd = async () => {
+    if (!currentAccountId) return
+    setIsSaving(true)
+    try {
+      const rule = await budgetAlertService.addRule(currentAccountId, projectId, {
+        categoryId: categoryId || null,
+        thresholdPercent: Number.parseFloat(thresholdPercent),
+        createdBy: user?.id,
+      })
+      setRules(current => [...current, rule].sort((a, b) => a.thresholdPercent - b.thresholdPercent))
+      setThresholdPercent('')
+      evaluateAlerts()
+    } catch (err) {
+      console.error('Error adding budget alert rule:', err)
+      showError(err instanceof Error ? err.message : 'Failed to add the alert.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (rule: BudgetAlertRule) => {
+    if (!currentAccountId) return
+    try {
+      await budgetAlertService.deleteRule(currentAccountId, rule.id)
+      setRules(current => current.filter(existing => existing.id !== rule.id))
+    } catch (err) {
+      console.error('Error deleting budget alert rule:', err)
+      showError(err instanceof Error ? err.message : 'Failed to remove the alert.')
+    }
+  }
+
+  const categoryName = (id?: string | null) =>
+    id ? categories.find(category => category.id === id)?.name || 'Archived category' : 'All categories'
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Budget Alerts</h2>
+        <p className="text-sm text-gray-500">
+          Get a notification the first time a category's spending reaches a percentage of its budget.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+        </div>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          Using the defaults: {DEFAULT_BUDGET_ALERT_THRESHOLDS.map(threshold => `${threshold}%`).join(' and ')} for all categories.
+          Adding an alert replaces the defaults.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-center justify-between px-4 py-2">
+              <div className="flex items-center gap-2 text-sm text-gray-900">
+                <Bell className="h-4 w-4 text-gray-400" />
+                <span className="font-medium">{rule.thresholdPercent}%</span>
+                <span className="text-gray-500">· {categoryName(rule.categoryId)}</span>
+              </div>
+              <button
+                type="button"
+                onClick={() => void handleDelete(rule)}
+                className="text-gray-400 hover:text-red-600"
+                title="Remove alert"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="block text-sm font-medium text-gray-700">
+          Category
+          <select value={categoryId} onChange={e => setCategoryId(e.target.value)} className={inputClassName} disabled={isSaving}>
+            <option value="">All categories</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Alert at (% of budget)
+          <input
+            type="number"
+            min="1"
+            max="1000"
+            step="1"
+            value={thresholdPercent}
+            onChange={e => setThresholdPercent(e.target.value)}
+            placeholder="80"
+            className={`${inputClassName} w-32`}
+            disabled={isSaving}
+          />
+        </label>
+        <Button onClick={() => void handleAdd()} disabled={isSaving || !thresholdPercent || !currentAccountId}>
+          {isSaving ? 'Adding...' : 'Add Alert'}
+        </Button>
+      </div>
+    </div>
+  )
+}
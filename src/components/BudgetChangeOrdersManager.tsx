@@ -0,0 +1,396 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AlertCircle, Check, FilePlus, X } from 'lucide-react'
+import type { BudgetChangeOrder, BudgetChangeOrderStatus, Project } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCategories } from '@/components/CategorySelect'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/ToastContext'
+import { budgetChangeOrderService } from '@/services/budgetChangeOrderService'
+import { buildBudgetRevisionTimeline } from '@/utils/budgetChangeOrders'
+import { formatCurrency, formatDate, getTodayDateString } from '@/utils/dateUtils'
+import { centsToMoney, toCents } from '@/utils/invoiceTextUtils'
+
+const STATUS_BADGES: Record<BudgetChangeOrderStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', className: 'bg-gray-100 text-gray-700' },
+}
+
+const signedCurrency = (amount: string): string => {
+  const value = Number.parseFloat(amount) || 0
+  return `${value < 0 ? '−' : '+'}${formatCurrency(Math.abs(value))}`
+}
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+interface BudgetChangeOrdersManagerProps {
+  project: Project
+  /** Called after an approval changes the project's category budgets. */
+  onBudgetChanged: () => Promise<void> | void
+}
+
+/**
+ * Record, approve and review budget change orders for a project. The revision timeline starts from
+ * the original budget and applies approved change orders in order.
+ */
+export default function BudgetChangeOrdersManager({ project, onBudgetChanged }: BudgetChangeOrdersManagerProps) {
+  const { currentAccountId } = useAccount()
+  const { user } = useAuth()
+  const { showError, showSuccess } = useToast()
+  const { categories } = useCategories()
+  const [changeOrders, setChangeOrders] = useState<BudgetChangeOrder[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [categoryId, setCategoryId] = useState('')
+  const [direction, setDirection] = useState<'increase' | 'decrease'>('increase')
+  const [amount, setAmount] = useState('')
+  const [reason, setReason] = useState('')
+  const [requestedOn, setRequestedOn] = useState(getTodayDateString)
+  const [approvedBy, setApprovedBy] = useState('')
+  const [approvingId, setApprovingId] = useState<string | null>(null)
+  const [approverName, setApproverName] = useState('')
+
+  // The design fee has its own field on the project, so it isn't adjusted through category change orders.
+  const budgetCategories = useMemo(
+    () => categories.filter(category => !(category.name.toLowerCase().includes('design') && category.name.toLowerCase().includes('fee'))),
+    [categories]
+  )
+  const categoryNames = useMemo(() => new Map(categories.map(category => [category.id, category.name])), [categories])
+
+  const loadChangeOrders = useCallback(async () => {
+    if (!currentAccountId) return
+    try {
+      setIsLoading(true)
+      setError(null)
+      setChangeOrders(await budgetChangeOrderService.listChangeOrders(currentAccountId, project.id))
+    } catch (err) {
+      console.error('Error loading budget change orders:', err)
+      setError('Failed to load budget change orders')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId, project.id])
+
+  useEffect(() => {
+    void loadChangeOrders()
+  }, [loadChangeOrders])
+
+  const timeline = useMemo(
+    () => buildBudgetRevisionTimeline(project.budgetCategories, changeOrders),
+    [project.budgetCategories, changeOrders]
+  )
+  const revisionsById = useMemo(
+    () => new Map(timeline.revisions.map(revision => [revision.changeOrder.id, revision])),
+    [timeline]
+  )
+  const pendingCents = changeOrders
+    .filter(changeOrder => changeOrder.status === 'pending')
+    .reduce((sum, changeOrder) => sum + toCents(changeOrder.amount), 0)
+
+  const resetForm = () => {
+    setCategoryId('')
+    setDirection('increase')
+    setAmount('')
+    setReason('')
+    setRequestedOn(getTodayDateString())
+    setApprovedBy('')
+  }
+
+  const applyUpdate = async (updated: BudgetChangeOrder) => {
+    // Refresh the project first; the timeline derives the original budget from its current categories.
+    if (updated.status === 'approved') {
+      await onBudgetChanged()
+    }
+    setChangeOrders(current =>
+      current.some(existing => existing.id === updated.id)
+        ? current.map(existing => (existing.id === updated.id ? updated : existing))
+        : [...current, updated]
+    )
+  }
+
+  const handleCreate = async () => {
+    if (!currentAccountId) return
+    if (!categoryId) {
+      showError('Choose the budget category to change.')
+      return
+    }
+    const cents = toCents(amount)
+    if (cents <= 0) {
+      showError('Enter an amount greater than zero.')
+      return
+    }
+    setIsSaving(true)
+    try {
+      const created = await budgetChangeOrderService.createChangeOrder(currentAccountId, project.id, {
+        categoryId,
+        amount: centsToMoney(direction === 'decrease' ? -cents : cents),
+        reason,
+        requestedOn,
+        approvedBy,
+        createdBy: user?.id,
+      })
+      await applyUpdate(created)
+      resetForm()
+      setIsFormOpen(false)
+      showSuccess(created.status === 'approved' ? 'Change order approved and applied.' : 'Change order recorded.')
+    } catch (err) {
+      console.error('Error creating budget change order:', err)
+      showError(err instanceof Error ? err.message : 'Failed to record the change order.')
+      // The insert may have succeeded even if the approval didn't.
+      void loadChangeOrders()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleApprove = async (changeOrder: BudgetChangeOrder) => {
+    if (!approverName.trim()) {
+      showError('Enter who approved the change order.')
+      return
+    }
+    setIsSaving(true)
+    try {
+      await applyUpdate(await budgetChangeOrderService.approveChangeOrder(changeOrder.id, approverName))
+      setApprovingId(null)
+    } catch (err) {
+      console.error('Error approving budget change order:', err)
+      showError(err instanceof Error ? err.message : 'Failed to approve the change order.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReject = async (changeOrder: BudgetChangeOrder) => {
+    if (!currentAccountId) return
+    if (!window.confirm('Reject this change order? The budget will not change.')) return
+    try {
+      await applyUpdate(await budgetChangeOrderService.rejectChangeOrder(currentAccountId, changeOrder.id))
+    } catch (err) {
+      console.error('Error rejecting budget change order:', err)
+      showError(err instanceof Error ? err.message : 'Failed to reject the change order.')
+    }
+  }
+
+  const newestFirst = [...changeOrders].reverse()
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Budget Change Orders</h2>
+          <p className="text-sm text-gray-500">
+            Category budgets change only through approved change orders, so the original budget and every revision stay on record.
+          </p>
+        </div>
+        {!isFormOpen && (
+          <Button onClick={() => setIsFormOpen(true)} disabled={!currentAccountId}>
+            <FilePlus className="h-4 w-4 mr-2" />
+            New Change Order
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <div className="ml-3 text-sm text-red-700">{error}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-sm font-medium text-gray-600 mb-0.5">Original Budget</div>
+          <div className="text-xl font-bold text-gray-900">{formatCurrency(timeline.originalTotal)}</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-sm font-medium text-gray-600 mb-0.5">Approved Changes</div>
+          <div className="text-xl font-bold text-gray-900">
+            {signedCurrency(centsToMoney(toCents(timeline.currentTotal) - toCents(timeline.originalTotal)))}
+          </div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-sm font-medium text-gray-600 mb-0.5">Current Budget</div>
+          <div className="text-xl font-bold text-primary-600">{formatCurrency(timeline.currentTotal)}</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-sm font-medium text-gray-600 mb-0.5">Pending</div>
+          <div className="text-xl font-bold text-gray-900">{pendingCents === 0 ? '—' : signedCurrency(centsToMoney(pendingCents))}</div>
+        </div>
+      </div>
+
+      {isFormOpen && (
+        <div className="rounded-lg border border-gray-200 p-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Category
+              <select value={categoryId} onChange={e => setCategoryId(e.target.value)} className={inputClassName} disabled={isSaving}>
+                <option value="">Select a category</option>
+                {budgetCategories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-sm font-medium text-gray-700">
+                Change
+                <select
+                  value={direction}
+                  onChange={e => setDirection(e.target.value as 'increase' | 'decrease')}
+                  className={inputClassName}
+                  disabled={isSaving}
+                >
+                  <option value="increase">Increase</option>
+                  <option value="decrease">Decrease</option>
+                </select>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Amount
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={e => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  className={inputClassName}
+                  disabled={isSaving}
+                />
+              </label>
+            </div>
+            <label className="block text-sm font-medium text-gray-700 sm:col-span-2">
+              Reason
+              <textarea
+                rows={2}
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+                placeholder="e.g., Client added a guest bedroom to the scope"
+                className={inputClassName}
+                disabled={isSaving}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Date
+              <input
+                type="date"
+                value={requestedOn}
+                onChange={e => setRequestedOn(e.target.value)}
+                className={inputClassName}
+                disabled={isSaving}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Approved by
+              <input
+                type="text"
+                value={approvedBy}
+                onChange={e => setApprovedBy(e.target.value)}
+                placeholder="Leave blank to approve later"
+                className={inputClassName}
+                disabled={isSaving}
+              />
+            </label>
+          </div>
+          <div className="flex justify-end gap-3">
+            <Button
+              variant="secondary"
+              onClick={() => {
+                resetForm()
+                setIsFormOpen(false)
+              }}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={() => void handleCreate()} disabled={isSaving}>
+              {isSaving ? 'Saving...' : approvedBy.trim() ? 'Record & Apply' : 'Record as Pending'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : changeOrders.length === 0 ? (
+        <p className="text-sm text-gray-500">No change orders yet. The budget is still the original plan.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+          {newestFirst.map(changeOrder => {
+            const badge = STATUS_BADGES[changeOrder.status]
+            const revision = revisionsById.get(changeOrder.id)
+            const categoryName = categoryNames.get(changeOrder.categoryId) || 'Archived category'
+            return (
+              <li key={changeOrder.id} className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300"></div>
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">
+                        {categoryName} {signedCurrency(changeOrder.amount)}
+                      </span>
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+                        {badge.label}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-700 whitespace-pre-line">{changeOrder.reason}</p>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      Requested {formatDate(changeOrder.requestedOn)}
+                      {changeOrder.status === 'approved' && ` · Approved by ${changeOrder.approvedBy} on ${formatDate(changeOrder.approvedOn)}`}
+                      {revision &&
+                        ` · ${categoryName} budget ${formatCurrency(revision.categoryBudgetAfter)}, total ${formatCurrency(revision.totalBudgetAfter)}`}
+                    </div>
+                  </div>
+                  {changeOrder.status === 'pending' && approvingId !== changeOrder.id && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => {
+                          setApprovingId(changeOrder.id)
+                          setApproverName(project.clientName || '')
+                        }}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button variant="secondary" size="sm" onClick={() => void handleReject(changeOrder)}>
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {approvingId === changeOrder.id && (
+                  <div className="mt-2 flex flex-wrap items-end gap-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Approved by
+                      <input
+                        type="text"
+                        value={approverName}
+                        onChange={e => setApproverName(e.target.value)}
+                        className={inputClassName}
+                        disabled={isSaving}
+                      />
+                    </label>
+                    <Button size="sm" onClick={() => void handleApprove(changeOrder)} disabled={isSaving}>
+                      {isSaving ? 'Applying...' : 'Approve & Apply'}
+                    </Button>
+                    <Button variant="secondary" size="sm" onClick={() => setApprovingId(null)} disabled={isSaving}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
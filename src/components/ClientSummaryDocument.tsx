@@ -0,0 +1,248 @@
+import type { ReactNode } from 'react'
+import type { Item } from '@/types'
+import type { ClientSummaryTotals } from '@/utils/clientSummary'
+import type { ClientBudgetRevisions } from '@/utils/budgetChangeOrders'
+import { formatDate } from '@/utils/dateUtils'
+import { formatPhysicalDetails } from '@/utils/itemPhysicalDetails'
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+
+function toNumber(value: string | number | null | undefined): number {
+  if (typeof value === 'number') return isNaN(value) ? 0 : value
+  if (typeof value === 'string') {
+    const n = parseFloat(value || '0')
+    return isNaN(n) ? 0 : n
+  }
+  return 0
+}
+
+export type ClientSummaryDocumentItem = Pick<Item, 'itemId' | 'description' | 'source' | 'space' | 'projectPrice' | 'dimensions' | 'weight' | 'condition'>
+
+interface ClientSummaryDocumentProps<T extends ClientSummaryDocumentItem> {
+  projectName: string
+  clientName?: string
+  dateLabel: string
+  businessName?: string
+  businessLogoUrl?: string | null
+  items: T[]
+  summary: ClientSummaryTotals
+  /** Approved budget change orders; the section is hidden when there are none. */
+  budgetRevisions?: ClientBudgetRevisions | null
+  /** Extra links after an item's source, e.g. "View Receipt". */
+  renderItemLinks?: (item: T) => ReactNode
+}
+
+/**
+ * Printable client summary body shared by the in-app summary and the client portal.
+ */
+export default function ClientSummaryDocument<T extends ClientSummaryDocumentItem>({
+  projectName,
+  clientName,
+  dateLabel,
+  businessName,
+  businessLogoUrl,
+  items,
+  summary,
+  budgetRevisions,
+  renderItemLinks,
+}: ClientSummaryDocumentProps<T>) {
+  return (
+    <>
+      {/* Header */}
+      <div className="border-b pb-4 mb-6">
+        <div className="flex items-start gap-4">
+          {businessLogoUrl && (
+            <img
+              src={businessLogoUrl}
+              alt={businessName}
+              className="h-24 w-auto object-contain"
+            />
+          )}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Client Summary</h1>
+            <div className="mt-1 text-sm text-gray-600">
+              <div className="font-medium text-gray-800">{projectName}</div>
+              {clientName && <div>Client: {clientName}</div>}
+              <div>Date: {dateLabel}</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {items.length === 0 && (
+        <div className="text-center py-12">
+          <div className="mx-auto h-12 w-12 text-gray-400">📦</div>
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No items found</h3>
+          <p className="mt-1 text-sm text-gray-500">There are no items associated with this project.</p>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="space-y-6">
+          {/* Summary Fields */}
+          <section>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* Total Spend Card */}
+              <div className="rounded-lg border border-gray-100 overflow-hidden">
+                <div className="px-4 py-3 bg-gray-50 border-b border-gray-100">
+                  <h2 className="text-lg font-semibold text-gray-900">Project Overview</h2>
+                </div>
+                <div className="px-4 py-4 space-y-4">
+                  {/* Total Spent Overall */}
+                  <div className="flex items-center justify-between">
+                    <span className="text-base font-medium text-gray-700">Total Spent Overall</span>
+                    <span className="text-base font-semibold text-gray-900">{usd.format(summary.totalSpent)}</span>
+                  </div>
+
+                  {/* Breakdown by Budget Categories */}
+                  {Object.keys(summary.categoryBreakdown).length > 0 && (
+                    <div className="pt-3 border-t border-gray-100">
+                      <div className="space-y-2">
+                        {Object.entries(summary.categoryBreakdown)
+                          .sort(([a], [b]) => a.localeCompare(b))
+                          .map(([category, amount]) => (
+                            <div key={category} className="flex items-center justify-between text-sm">
+                              <span className="text-gray-600">{category}</span>
+                              <span className="text-gray-900 font-medium">{usd.format(amount)}</span>
+                            </div>
+                          ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Savings Card */}
+              <div className="rounded-lg border border-gray-100 overflow-hidden">
+                <div className="px-4 py-3 bg-gray-50 border-b border-gray-100">
+                  <h2 className="text-lg font-semibold text-gray-900">Furnishing Savings</h2>
+                </div>
+                <div className="px-4 py-4 space-y-4">
+                  {/* Market Value */}
+                  <div className="flex items-center justify-between">
+                    <span className="text-base font-medium text-gray-700">Market Value</span>
+                    <span className="text-base font-semibold text-gray-900">{usd.format(summary.totalMarketValue)}</span>
+                  </div>
+
+                  {/* What They Spent */}
+                  <div className="pt-3 border-t border-gray-100">
+                    <div className="flex items-center justify-between">
+                      <span className="text-base font-medium text-gray-700">What You Spent</span>
+                      <span className="text-base font-semibold text-gray-900">{usd.format(summary.totalSpent)}</span>
+                    </div>
+                  </div>
+
+                  {/* What They Saved */}
+                  <div className="pt-3 border-t border-gray-100">
+                    <div className="flex items-center justify-between">
+                      <span className="text-base font-medium text-green-600">What You Saved</span>
+                      <span className="text-base font-semibold text-green-600">{usd.format(summary.totalSaved)}</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </section>
+
+          {/* Items List */}
+          <section>
+            <div className="flex items-baseline justify-between mb-3">
+              <h2 className="text-lg font-semibold text-gray-900">Furnishings</h2>
+            </div>
+
+            <div className="rounded-lg border border-gray-100 overflow-hidden">
+              <div className="divide-y">
+                {items.map((item) => {
+                  const projectPrice = toNumber(item.projectPrice)
+                  const links = renderItemLinks?.(item)
+
+                  return (
+                    <div key={item.itemId} className="py-2 px-4">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="text-sm text-gray-900 font-medium">
+                            {item.description || 'Item'}
+                          </div>
+                          <div className="flex items-center gap-2 flex-wrap mt-0.5">
+                            {item.source && (
+                              <span className="text-xs text-gray-500">Source: {item.source}</span>
+                            )}
+                            {links && (
+                              <>
+                                {item.source && <span className="text-xs text-gray-400">•</span>}
+                                {links}
+                              </>
+                            )}
+                          </div>
+                          {item.space && (
+                            <div className="text-xs text-gray-500 mt-0.5">Space: {item.space}</div>
+                          )}
+                          {formatPhysicalDetails(item) && (
+                            <div className="text-xs text-gray-500 mt-0.5">{formatPhysicalDetails(item)}</div>
+                          )}
+                        </div>
+                        <div className="text-right ml-4">
+                          <div className="text-sm text-gray-700 font-medium">
+                            {usd.format(projectPrice)}
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+              <div className="flex items-center justify-between px-4 py-2 bg-white border-t border-gray-100">
+                <span className="text-sm font-semibold text-gray-900">Furnishings Total</span>
+                <span className="text-sm font-semibold text-gray-900">{usd.format(summary.totalSpent)}</span>
+              </div>
+            </div>
+          </section>
+        </div>
+      )}
+
+      {budgetRevisions && (
+        <section className="mt-6">
+          <div className="flex items-baseline justify-between mb-3">
+            <h2 className="text-lg font-semibold text-gray-900">Budget Revisions</h2>
+          </div>
+
+          <div className="rounded-lg border border-gray-100 overflow-hidden">
+            <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b border-gray-100">
+              <span className="text-sm font-medium text-gray-700">Original Budget</span>
+              <span className="text-sm font-semibold text-gray-900">{usd.format(toNumber(budgetRevisions.originalTotal))}</span>
+            </div>
+            <div className="divide-y">
+              {budgetRevisions.revisions.map(revision => {
+                const amount = toNumber(revision.amount)
+                return (
+                  <div key={revision.id} className="py-2 px-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="text-sm text-gray-900 font-medium">{revision.categoryName}</div>
+                        <div className="text-xs text-gray-600 mt-0.5 whitespace-pre-line">{revision.reason}</div>
+                        <div className="text-xs text-gray-500 mt-0.5">
+                          {formatDate(revision.date)}
+                          {revision.approvedBy && ` · Approved by ${revision.approvedBy}`}
+                        </div>
+                      </div>
+                      <div className="text-right ml-4">
+                        <div className="text-sm text-gray-700 font-medium">
+                          {amount < 0 ? '-' : '+'}{usd.format(Math.abs(amount))}
+                        </div>
+                        <div className="text-xs text-gray-500">Budget {usd.format(toNumber(revision.totalBudgetAfter))}</div>
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+            <div className="flex items-center justify-between px-4 py-2 bg-white border-t border-gray-100">
+              <span className="text-sm font-semibold text-gray-900">Current Budget</span>
+              <span className="text-sm font-semibold text-gray-900">{usd.format(toNumber(budgetRevisions.currentTotal))}</span>
+            </div>
+          </div>
+        </section>
+      )}
+    </>
+  )
+}
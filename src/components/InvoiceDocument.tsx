@@ -0,0 +1,157 @@
+import type { InvoiceSnapshot, InvoiceSnapshotLine } from '@/types'
+import { formatDate } from '@/utils/dateUtils'
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+
+const formatMoney = (value: string) => {
+  const n = Number.parseFloat(value)
+  return usd.format(Number.isFinite(n) ? n : 0)
+}
+
+interface InvoiceDocumentProps {
+  snapshot: InvoiceSnapshot
+  businessName?: string
+  businessLogoUrl?: string | null
+  /** Header lines under the project name, e.g. invoice number and dates. */
+  details: string[]
+}
+
+function InvoiceSection({ title, totalLabel, lines, total }: {
+  title: string
+  totalLabel: string
+  lines: InvoiceSnapshotLine[]
+  total: string
+}) {
+  return (
+    <section>
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      </div>
+
+      <div className="rounded-lg border border-gray-100 overflow-hidden">
+        <div className="divide-y">
+          {lines.map(line => {
+            const formattedDate = formatDate(
+              line.transactionDate,
+              '',
+              {
+                year: undefined,
+                month: 'short',
+                day: 'numeric'
+              }
+            )
+
+            return (
+              <div key={line.transactionId} className="py-4 px-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-gray-900">
+                      <span className="font-medium">{line.title}</span>
+                      {formattedDate && <span className="text-xs font-normal text-gray-500">{formattedDate}</span>}
+                    </div>
+                    {line.notes && (
+                      <div className="text-sm text-gray-500">{line.notes}</div>
+                    )}
+                  </div>
+                  <div className="text-right text-gray-700">{formatMoney(line.amount)}</div>
+                </div>
+
+                {line.items.length > 0 && (
+                  <div className="mt-2 ml-4">
+                    <ul className="space-y-1">
+                      {line.items.map(item => (
+                        <li key={item.itemId} className="flex items-start justify-between text-sm">
+                          <div className="text-gray-700">
+                            {item.description}
+                            {item.missingPrice && (
+                              <span className="ml-2 text-yellow-700 bg-yellow-50 border border-yellow-200 rounded px-1">Missing project price</span>
+                            )}
+                            {item.physicalDetails && (
+                              <div className="text-xs text-gray-500">{item.physicalDetails}</div>
+                            )}
+                          </div>
+                          <div className="pr-4 text-right text-gray-600">{formatMoney(item.amount)}</div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+        <div className="flex items-center justify-between px-4 py-3 bg-white border-t border-gray-100">
+          <span className="text-base font-semibold text-gray-900">{totalLabel}</span>
+          <span className="text-base font-semibold text-gray-900">{formatMoney(total)}</span>
+        </div>
+      </div>
+    </section>
+  )
+}
+
+/**
+ * Printable invoice body shared by the live project invoice and saved invoice records.
+ */
+export default function InvoiceDocument({ snapshot, businessName, businessLogoUrl, details }: InvoiceDocumentProps) {
+  const hasAnyLines = snapshot.charges.length > 0 || snapshot.credits.length > 0
+
+  return (
+    <>
+      {/* Header */}
+      <div className="border-b pb-4 mb-6">
+        <div className="flex items-start gap-4">
+          {businessLogoUrl && (
+            <img
+              src={businessLogoUrl}
+              alt={businessName}
+              className="h-24 w-auto object-contain"
+            />
+          )}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Invoice</h1>
+            <div className="mt-1 text-sm text-gray-600">
+              <div className="font-medium text-gray-800">{snapshot.projectName}</div>
+              {snapshot.clientName && <div>Client: {snapshot.clientName}</div>}
+              {details.map(detail => (
+                <div key={detail}>{detail}</div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {!hasAnyLines && (
+        <div className="text-center py-12">
+          <div className="mx-auto h-12 w-12 text-gray-400">🧾</div>
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No invoiceable items</h3>
+          <p className="mt-1 text-sm text-gray-500">There are no qualifying transactions for this project.</p>
+        </div>
+      )}
+
+      {hasAnyLines && (
+        <div className="space-y-10">
+          <InvoiceSection
+            title="Project Charges"
+            totalLabel="Charges Total"
+            lines={snapshot.charges}
+            total={snapshot.chargesTotal}
+          />
+          <InvoiceSection
+            title="Project Credits"
+            totalLabel="Credits Total"
+            lines={snapshot.credits}
+            total={snapshot.creditsTotal}
+          />
+
+          {/* Net Due */}
+          <section className="border-t pt-4">
+            <div className="flex items-baseline justify-between">
+              <h2 className="text-xl font-semibold text-primary-600">Net Amount Due</h2>
+              <div className="text-xl font-bold text-primary-600">{formatMoney(snapshot.totalDue)}</div>
+            </div>
+          </section>
+        </div>
+      )}
+    </>
+  )
+}
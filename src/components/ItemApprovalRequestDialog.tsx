@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import { Copy } from 'lucide-react'
+import type { Item } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/ToastContext'
+import { itemApprovalService } from '@/services/itemApprovalService'
+import { SHARE_LINK_EXPIRY_OPTIONS } from '@/services/projectShareLinkService'
+
+interface ItemApprovalRequestDialogProps {
+  projectId: string
+  /** Selected items; only those still marked "to purchase" are sent. */
+  items: Item[]
+  onClose: () => void
+  onCreated: () => void
+}
+
+export default function ItemApprovalRequestDialog({ projectId, items, onClose, onCreated }: ItemApprovalRequestDialogProps) {
+  const { currentAccountId } = useAccount()
+  const { user } = useAuth()
+  const { showError, showSuccess } = useToast()
+  const [message, setMessage] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState<number>(SHARE_LINK_EXPIRY_OPTIONS[0].days)
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+
+  const proposedItems = items.filter(item => item.disposition === 'to purchase')
+  const skippedCount = items.length - proposedItems.length
+
+  const handleCreate = async () => {
+    if (!currentAccountId || proposedItems.length === 0) return
+    setIsProcessing(true)
+    try {
+      const { url } = await itemApprovalService.createApprovalRequest(
+        currentAccountId,
+        projectId,
+        proposedItems.map(item => item.itemId),
+        { expiresInDays, message, createdBy: user?.id }
+      )
+      setCreatedUrl(url)
+      onCreated()
+    } catch (error) {
+      console.error('Failed to create approval request:', error)
+      showError(error instanceof Error ? error.message : 'Failed to create the approval request.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      showSuccess('Link copied.')
+    } catch {
+      showError('Could not copy automatically. Select the link and copy it.')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">
+            Request Client Approval for {proposedItems.length} item{proposedItems.length !== 1 ? 's' : ''}
+          </h3>
+        </div>
+
+        {createdUrl ? (
+          <div className="px-6 py-4 space-y-3">
+            <p className="text-sm text-gray-700">
+              Send this link to your client. For security it can't be shown again.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={createdUrl}
+                onFocus={e => e.target.select()}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+              />
+              <Button variant="secondary" onClick={() => void handleCopy(createdUrl)}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="px-6 py-4 space-y-4">
+            {proposedItems.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                None of the selected items are marked "To Purchase". Only proposed items can be sent for approval.
+              </p>
+            ) : (
+              <>
+                <ul className="max-h-40 overflow-y-auto text-sm text-gray-700 list-disc pl-5">
+                  {proposedItems.map(item => (
+                    <li key={item.itemId} className="truncate">{item.description || 'Item'}</li>
+                  ))}
+                </ul>
+                {skippedCount > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {skippedCount} selected item{skippedCount !== 1 ? 's are' : ' is'} not marked "To Purchase" and will be skipped.
+                  </p>
+                )}
+              </>
+            )}
+            <div>
+              <label htmlFor="approval-message" className="block text-sm font-medium text-gray-700 mb-2">
+                Message to client
+              </label>
+              <textarea
+                id="approval-message"
+                rows={3}
+                value={message}
+                onChange={e => setMessage(e.target.value)}
+                placeholder="e.g., Here are the pieces for the living room. Let me know what you think!"
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                disabled={isProcessing}
+              />
+            </div>
+            <div>
+              <label htmlFor="approval-expiry" className="block text-sm font-medium text-gray-700 mb-2">
+                Link expires after
+              </label>
+              <select
+                id="approval-expiry"
+                value={expiresInDays}
+                onChange={e => setExpiresInDays(Number(e.target.value))}
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                disabled={isProcessing}
+              >
+                {SHARE_LINK_EXPIRY_OPTIONS.map(option => (
+                  <option key={option.days} value={option.days}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            disabled={isProcessing}
+          >
+            {createdUrl ? 'Done' : 'Cancel'}
+          </button>
+          {!createdUrl && (
+            <button
+              onClick={() => void handleCreate()}
+              disabled={proposedItems.length === 0 || isProcessing}
+              className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isProcessing ? 'Creating...' : 'Create Link'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,326 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import Webcam from 'react-webcam'
+import { CheckCircle, Clock, ScanLine, X, XCircle } from 'lucide-react'
+import type { Item } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { useNetworkState } from '@/hooks/useNetworkState'
+import { useStackedNavigate } from '@/hooks/useStackedNavigate'
+import { unifiedItemsService } from '@/services/inventoryService'
+import { offlineItemService } from '@/services/offlineItemService'
+import { createFallbackBarcodeDetector } from '@/utils/barcodeFallbackDecoder'
+import { createScanDebouncer, findItemsByBarcode, parseScannedCode } from '@/utils/scanCodes'
+import { businessInventoryItemDetail, projectItemDetail } from '@/utils/routes'
+
+// Minimal typing for the Shape Detection API, which TypeScript's DOM lib doesn't ship yet.
+// Browsers without it (iOS Safari, Firefox) decode frames with the ZXing fallback instead.
+interface DetectedBarcode {
+  rawValue: string
+}
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>
+}
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+
+const SCAN_FORMATS = ['qr_code', 'ean_13', 'ean_8', 'upc_a']
+const SCAN_INTERVAL_MS = 300
+
+type ScanAction = 'open' | 'receive' | 'space' | 'allocate'
+
+type ScanLogEntry = {
+  id: number
+  code: string
+  itemLabel?: string
+  status: 'done' | 'queued' | 'error'
+  message: string
+}
+
+interface ItemScannerProps {
+  /** Project the list belongs to; enables "Allocate to project". Omit for business inventory. */
+  projectId?: string
+  projectName?: string
+  /** Items on screen, used to match vendor barcodes against item SKUs. */
+  items: Item[]
+  onClose: () => void
+}
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+/**
+ * Continuous scanner for item QR labels and vendor UPC/EAN barcodes. Each accepted scan runs the
+ * selected action; edits go through the offline-aware services so they queue while offline.
+ */
+export default function ItemScanner({ projectId, projectName, items, onClose }: ItemScannerProps) {
+  const { currentAccountId } = useAccount()
+  const { isOnline } = useNetworkState()
+  const stackedNavigate = useStackedNavigate()
+  const webcamRef = useRef<Webcam>(null)
+  const [action, setAction] = useState<ScanAction>('open')
+  const [space, setSpace] = useState('')
+  const [manualCode, setManualCode] = useState('')
+  const [cameraReady, setCameraReady] = useState(false)
+  const [cameraError, setCameraError] = useState<string | null>(null)
+  const [log, setLog] = useState<ScanLogEntry[]>([])
+  const nextLogId = useRef(1)
+  const processingChain = useRef<Promise<void>>(Promise.resolve())
+  const shouldAccept = useMemo(() => createScanDebouncer(), [])
+  // Item lists are loaded once, so units received or allocated during this session are tracked here.
+  const receivedItemIds = useRef(new Set<string>())
+  const allocatedItemIds = useRef(new Set<string>())
+
+  const addLog = useCallback((entry: Omit<ScanLogEntry, 'id'>) => {
+    const id = nextLogId.current++
+    setLog(prev => [{ ...entry, id }, ...prev].slice(0, 50))
+  }, [])
+
+  const resolveItem = useCallback(async (code: string): Promise<Item | null> => {
+    if (!currentAccountId) return null
+    const parsed = parseScannedCode(code)
+    if (parsed.kind === 'qr') {
+      return await unifiedItemsService.getItemByQrKey(currentAccountId, parsed.qrKey)
+    }
+    if (parsed.kind === 'barcode') {
+      const matches = findItemsByBarcode(items, parsed.gtin)
+      // Several units of one product share a UPC; receive the next unit that isn't received yet.
+      if (action === 'receive') {
+        return matches.find(item => item.disposition !== 'purchased' && !receivedItemIds.current.has(item.itemId)) ?? matches[0] ?? null
+      }
+      return matches[0] ?? null
+    }
+    return null
+  }, [currentAccountId, items, action])
+
+  const processScan = useCallback(async (code: string) => {
+    if (!currentAccountId) return
+    const parsed = parseScannedCode(code)
+    if (parsed.kind === 'unknown') {
+      addLog({ code, status: 'error', message: 'Not an item label or product barcode.' })
+      return
+    }
+
+    let item: Item | null
+    try {
+      item = await resolveItem(code)
+    } catch (error) {
+      console.error('Failed to look up scanned code:', error)
+      addLog({ code, status: 'error', message: 'Lookup failed. Try again.' })
+      return
+    }
+    if (!item) {
+      addLog({ code, status: 'error', message: parsed.kind === 'qr' ? 'No item has this label.' : 'No item in this list has this barcode as its SKU.' })
+      return
+    }
+
+    const itemLabel = item.name || item.description || item.sku || 'Item'
+    const queuedStatus = isOnline ? 'done' : 'queued'
+    try {
+      switch (action) {
+        case 'open':
+          onClose()
+          stackedNavigate(item.projectId ? projectItemDetail(item.projectId, item.itemId) : businessInventoryItemDetail(item.itemId))
+          return
+        case 'receive':
+          if (item.disposition === 'purchased' || receivedItemIds.current.has(item.itemId)) {
+            addLog({ code, itemLabel, status: 'done', message: 'Already received.' })
+            return
+          }
+          await unifiedItemsService.updateItem(currentAccountId, item.itemId, { disposition: 'purchased' })
+          receivedItemIds.current.add(item.itemId)
+          addLog({ code, itemLabel, status: queuedStatus, message: 'Marked received.' })
+          return
+        case 'space':
+          await unifiedItemsService.updateItem(currentAccountId, item.itemId, { space: space.trim() })
+          addLog({ code, itemLabel, status: queuedStatus, message: `Space set to "${space.trim()}".` })
+          return
+        case 'allocate':
+          if (!projectId) return
+          if (item.projectId === projectId || allocatedItemIds.current.has(item.itemId)) {
+            addLog({ code, itemLabel, status: 'done', message: 'Already in this project.' })
+            return
+          }
+          if (isOnline) {
+            await unifiedItemsService.allocateItemToProject(currentAccountId, item.itemId, projectId)
+          } else {
+            const { alreadyQueued } = await offlineItemService.allocateItemToProject(currentAccountId, item.itemId, projectId)
+            if (alreadyQueued) {
+              allocatedItemIds.current.add(item.itemId)
+              addLog({ code, itemLabel, status: 'queued', message: 'Already allocated; waiting to sync.' })
+              return
+            }
+          }
+          allocatedItemIds.current.add(item.itemId)
+          addLog({ code, itemLabel, status: queuedStatus, message: `Allocated to ${projectName || 'project'}.` })
+          return
+      }
+    } catch (error) {
+      console.error('Failed to apply scan action:', error)
+      addLog({ code, itemLabel, status: 'error', message: error instanceof Error ? error.message : 'Update failed.' })
+    }
+  }, [currentAccountId, resolveItem, addLog, isOnline, action, space, projectId, projectName, onClose, stackedNavigate])
+
+  // Scans are applied one at a time, in the order they were read.
+  const processScanRef = useRef(processScan)
+  processScanRef.current = processScan
+  const enqueueScan = useCallback((code: string) => {
+    processingChain.current = processingChain.current.then(() => processScanRef.current(code))
+  }, [])
+
+  const actionReady = action !== 'space' || space.trim().length > 0
+
+  useEffect(() => {
+    if (!cameraReady || !actionReady) return
+
+    const Detector = getBarcodeDetector()
+    const detector = Detector ? new Detector({ formats: SCAN_FORMATS }) : createFallbackBarcodeDetector()
+    let cancelled = false
+    let timer: number | undefined
+
+    const tick = async () => {
+      const video = webcamRef.current?.video
+      if (video && video.readyState >= 2) {
+        try {
+          const codes = await detector.detect(video)
+          for (const { rawValue } of codes) {
+            if (rawValue && shouldAccept(rawValue)) enqueueScan(rawValue)
+          }
+        } catch (error) {
+          console.warn('Barcode detection failed for frame:', error)
+        }
+      }
+      if (!cancelled) timer = window.setTimeout(() => void tick(), SCAN_INTERVAL_MS)
+    }
+    void tick()
+
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [cameraReady, actionReady, shouldAccept, enqueueScan])
+
+  const handleManualSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    const code = manualCode.trim()
+    if (!code || !actionReady) return
+    enqueueScan(code)
+    setManualCode('')
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Scan Items</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close scanner">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="scan-action" className="block text-sm font-medium text-gray-700 mb-1">
+                On each scan
+              </label>
+              <select
+                id="scan-action"
+                value={action}
+                onChange={e => setAction(e.target.value as ScanAction)}
+                className={inputClassName}
+              >
+                <option value="open">Open item</option>
+                <option value="receive">Mark received</option>
+                <option value="space">Set space</option>
+                {projectId && <option value="allocate">Allocate to {projectName || 'this project'}</option>}
+              </select>
+            </div>
+            {action === 'space' && (
+              <div>
+                <label htmlFor="scan-space" className="block text-sm font-medium text-gray-700 mb-1">
+                  Space
+                </label>
+                <input
+                  id="scan-space"
+                  type="text"
+                  value={space}
+                  onChange={e => setSpace(e.target.value)}
+                  placeholder="e.g., Living Room"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+
+          {!isOnline && (
+            <p className="text-xs text-amber-700">
+              You're offline. Changes are saved on this device and sync when you reconnect.
+            </p>
+          )}
+
+          {!cameraError ? (
+            <div className="relative bg-black rounded-md overflow-hidden aspect-video">
+              <Webcam
+                ref={webcamRef}
+                audio={false}
+                videoConstraints={{ facingMode: 'environment' }}
+                onUserMedia={() => setCameraReady(true)}
+                onUserMediaError={() => setCameraError('Camera access was denied or no camera is available.')}
+                className="w-full h-full object-cover"
+              />
+              <div className="absolute inset-x-8 top-1/2 border-t-2 border-red-500/70 pointer-events-none" />
+              {!actionReady && (
+                <div className="absolute inset-0 flex items-center justify-center bg-black/60 text-sm text-white">
+                  Enter a space to start scanning.
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              {cameraError} Type a code below or use a
+              handheld scanner.
+            </p>
+          )}
+
+          <form onSubmit={handleManualSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={manualCode}
+              onChange={e => setManualCode(e.target.value)}
+              placeholder="QR key or UPC"
+              className={inputClassName}
+            />
+            <button
+              type="submit"
+              disabled={!manualCode.trim() || !actionReady}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ScanLine className="h-4 w-4 mr-1" />
+              Enter
+            </button>
+          </form>
+
+          {log.length > 0 && (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {log.map(entry => (
+                <li key={entry.id} className="flex items-start gap-2 px-3 py-2 text-sm">
+                  {entry.status === 'done' && <CheckCircle className="h-4 w-4 mt-0.5 text-green-600 flex-shrink-0" />}
+                  {entry.status === 'queued' && <Clock className="h-4 w-4 mt-0.5 text-amber-600 flex-shrink-0" />}
+                  {entry.status === 'error' && <XCircle className="h-4 w-4 mt-0.5 text-red-600 flex-shrink-0" />}
+                  <div className="min-w-0">
+                    <p className="text-gray-900 truncate">{entry.itemLabel || entry.code}</p>
+                    <p className="text-xs text-gray-500">
+                      {entry.message}
+                      {entry.status === 'queued' && ' Waiting to sync.'}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
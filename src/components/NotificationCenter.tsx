@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import { Bell } from 'lucide-react'
+import type { AppNotification } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { notificationService } from '@/services/notificationService'
+import { formatDateTime } from '@/utils/dateUtils'
+
+/**
+ * Header bell with the account's in-app notifications (budget alerts and the like).
+ */
+export default function NotificationCenter() {
+  const { currentAccountId } = useAccount()
+  const location = useLocation()
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+
+  const loadNotifications = useCallback(async () => {
+    if (!currentAccountId) return
+    try {
+      setNotifications(await notificationService.listNotifications(currentAccountId))
+    } catch (err) {
+      console.warn('NotificationCenter: failed to load notifications (non-fatal):', err)
+    }
+  }, [currentAccountId])
+
+  // Alerts are created as a side effect of saving, which is usually followed by navigation.
+  useEffect(() => {
+    void loadNotifications()
+  }, [loadNotifications, location.pathname])
+
+  const unreadCount = notifications.filter(notification => !notification.readAt).length
+
+  const handleToggle = () => {
+    if (!isOpen) void loadNotifications()
+    setIsOpen(open => !open)
+  }
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    setIsOpen(false)
+    if (!currentAccountId || notification.readAt) return
+    const readAt = new Date().toISOString()
+    setNotifications(current => current.map(existing => (existing.id === notification.id ? { ...existing, readAt } : existing)))
+    notificationService.markRead(notification.id).catch(err => {
+      console.warn('NotificationCenter: failed to mark notification read:', err)
+    })
+  }
+
+  const handleMarkAllRead = async () => {
+    if (!currentAccountId) return
+    const readAt = new Date().toISOString()
+    setNotifications(current => current.map(existing => ({ ...existing, readAt: existing.readAt || readAt })))
+    try {
+      await notificationService.markAllRead(currentAccountId)
+    } catch (err) {
+      console.warn('NotificationCenter: failed to mark notifications read:', err)
+      void loadNotifications()
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="relative flex items-center px-2 sm:px-3 py-2 text-gray-500 hover:text-gray-700 hover:bg-gray-50"
+        title="Notifications"
+      >
+        <Bell className="h-5 w-5 sm:h-4 sm:w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute top-0.5 right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold leading-4 text-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 z-50 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-lg border border-gray-200">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+              <span className="text-sm font-semibold text-gray-900">Notifications</span>
+              {unreadCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => void handleMarkAllRead()}
+                  className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                >
+                  Mark all read
+                </button>
+              )}
+            </div>
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500">You're all caught up.</p>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {notifications.map(notification => {
+                  const content = (
+                    <>
+                      <div className={`text-sm ${notification.readAt ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                        {notification.title}
+                      </div>
+                      {notification.body && <div className="text-xs text-gray-500 mt-0.5">{notification.body}</div>}
+                      <div className="text-xs text-gray-400 mt-0.5">{formatDateTime(notification.createdAt)}</div>
+                    </>
+                  )
+                  const className = `block px-4 py-3 hover:bg-gray-50 ${notification.readAt ? '' : 'bg-primary-50'}`
+                  return (
+                    <li key={notification.id}>
+                      {notification.link ? (
+                        <Link to={notification.link} onClick={() => handleOpenNotification(notification)} className={className}>
+                          {content}
+                        </Link>
+                      ) : (
+                        <button type="button" onClick={() => handleOpenNotification(notification)} className={`${className} w-full text-left`}>
+                          {content}
+                        </button>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
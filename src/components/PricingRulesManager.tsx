@@ -0,0 +1,264 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Save, AlertCircle, Plus, Trash2 } from 'lucide-react'
+import { getPricingRules, updatePricingRules } from '@/services/pricingRulesService'
+import { getAvailableVendors } from '@/services/vendorDefaultsService'
+import { budgetCategoriesService } from '@/services/budgetCategoriesService'
+import type { BudgetCategory, PricingRounding, PricingRule } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { PRICING_ROUNDING_LABELS, computeRulePrice } from '@/utils/pricingRules'
+
+const inputClassName =
+  'block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm'
+
+const EXAMPLE_PURCHASE_PRICE = '100.00'
+
+export default function PricingRulesManager() {
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const [rules, setRules] = useState<PricingRule[]>([])
+  const [vendors, setVendors] = useState<string[]>([])
+  const [categories, setCategories] = useState<BudgetCategory[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [successMessage, setSuccessMessage] = useState<string | null>(null)
+
+  const loadRules = useCallback(async () => {
+    if (!currentAccountId) return
+
+    try {
+      setIsLoading(true)
+      setError(null)
+      const [loadedRules, loadedVendors, loadedCategories] = await Promise.all([
+        getPricingRules(currentAccountId),
+        getAvailableVendors(currentAccountId),
+        budgetCategoriesService.getCategories(currentAccountId),
+      ])
+      setRules(loadedRules)
+      setVendors(loadedVendors)
+      setCategories(loadedCategories)
+    } catch (err) {
+      console.error('Error loading pricing rules:', err)
+      setError('Failed to load pricing rules')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId])
+
+  useEffect(() => {
+    // Wait for account to finish loading
+    if (accountLoading) {
+      return
+    }
+
+    if (currentAccountId) {
+      loadRules()
+    } else {
+      setIsLoading(false)
+      setError('No account found. Please ensure you are logged in and have an account.')
+    }
+  }, [currentAccountId, accountLoading, loadRules])
+
+  const handleRuleChange = <K extends keyof PricingRule>(index: number, field: K, value: PricingRule[K]) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, [field]: value } : rule)))
+    setError(null)
+    setSuccessMessage(null)
+  }
+
+  const handleAddRule = () => {
+    setRules(prev => [
+      ...prev,
+      { id: crypto.randomUUID(), vendor: null, categoryId: null, markupPercent: 0, tradeDiscountPercent: 0, rounding: 'none' },
+    ])
+    setSuccessMessage(null)
+  }
+
+  const handleRemoveRule = (index: number) => {
+    setRules(prev => prev.filter((_, i) => i !== index))
+    setSuccessMessage(null)
+  }
+
+  const handleSave = async () => {
+    if (!currentAccountId) {
+      setError('Account ID is required to save pricing rules')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setError(null)
+      setSuccessMessage(null)
+      const cleaned = rules.map(rule => ({ ...rule, vendor: rule.vendor?.trim() || null, categoryId: rule.categoryId || null }))
+      await updatePricingRules(currentAccountId, cleaned)
+      setRules(cleaned)
+      setSuccessMessage('Pricing rules updated successfully')
+
+      // Clear success message after 3 seconds
+      setTimeout(() => setSuccessMessage(null), 3000)
+    } catch (err) {
+      console.error('Error saving pricing rules:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save pricing rules')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-lg font-medium text-gray-900 mb-1">Pricing Rules</h4>
+        <p className="text-sm text-gray-500">
+          Suggest each item's project price from its purchase price. The most specific rule wins: vendor and category,
+          then vendor, then category, then a rule with neither. Leave vendor or category blank to match any.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error</h3>
+              <div className="mt-2 text-sm text-red-700">
+                <p>{error}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4">
+          <div className="text-sm text-green-800">
+            {successMessage}
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No pricing rules yet. Project prices are entered by hand.</p>
+      ) : (
+        <div className="overflow-x-auto shadow ring-1 ring-black ring-opacity-5 rounded-md">
+          <datalist id="pricing-rule-vendors">
+            {vendors.map(vendor => (
+              <option key={vendor} value={vendor} />
+            ))}
+          </datalist>
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">Vendor</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Category</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Markup (%)</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Trade Discount (%)</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Rounding</th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">$100 Cost Becomes</th>
+                <th scope="col" className="px-3 py-3.5"><span className="sr-only">Remove</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {rules.map((rule, index) => (
+                <tr key={rule.id}>
+                  <td className="py-4 pl-4 pr-3 text-sm sm:pl-6">
+                    <input
+                      type="text"
+                      list="pricing-rule-vendors"
+                      value={rule.vendor || ''}
+                      onChange={(e) => handleRuleChange(index, 'vendor', e.target.value)}
+                      className={inputClassName}
+                      placeholder="Any vendor"
+                    />
+                  </td>
+                  <td className="px-3 py-4 text-sm">
+                    <select
+                      value={rule.categoryId || ''}
+                      onChange={(e) => handleRuleChange(index, 'categoryId', e.target.value || null)}
+                      className={inputClassName}
+                    >
+                      <option value="">Any category</option>
+                      {categories.map(category => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-4 text-sm">
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={rule.markupPercent}
+                      onChange={(e) => handleRuleChange(index, 'markupPercent', parseFloat(e.target.value) || 0)}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-3 py-4 text-sm">
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      max="99"
+                      value={rule.tradeDiscountPercent}
+                      onChange={(e) => handleRuleChange(index, 'tradeDiscountPercent', parseFloat(e.target.value) || 0)}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-3 py-4 text-sm">
+                    <select
+                      value={rule.rounding}
+                      onChange={(e) => handleRuleChange(index, 'rounding', e.target.value as PricingRounding)}
+                      className={inputClassName}
+                    >
+                      {(Object.keys(PRICING_ROUNDING_LABELS) as PricingRounding[]).map(rounding => (
+                        <option key={rounding} value={rounding}>{PRICING_ROUNDING_LABELS[rounding]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-700">
+                    ${computeRulePrice(EXAMPLE_PURCHASE_PRICE, rule) ?? '—'}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveRule(index)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove rule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <button
+          type="button"
+          onClick={handleAddRule}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {isSaving ? 'Saving...' : 'Save Rules'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -22,10 +22,16 @@ interface ProjectFormProps {
   onCancel: () => void;
   isLoading?: boolean;
   initialData?: Partial<ProjectFormData & { id?: string }>;
+  /**
+   * Why category budgets can't be edited here: they have approved change orders, or whether they do
+   * couldn't be checked yet (offline, still loading or the check failed).
+   */
+  budgetCategoriesLock?: 'change_orders' | 'unverified';
 }
 
-export default function ProjectForm({ onSubmit, onCancel, isLoading = false, initialData }: ProjectFormProps) {
+export default function ProjectForm({ onSubmit, onCancel, isLoading = false, initialData, budgetCategoriesLock }: ProjectFormProps) {
   const { currentAccountId } = useAccount()
+  const budgetCategoriesLocked = Boolean(budgetCategoriesLock)
   const isEditing = Boolean(initialData?.name)
 
   const [availableCategories, setAvailableCategories] = useState<BudgetCategory[]>([])
@@ -251,6 +257,7 @@ export default function ProjectForm({ onSubmit, onCancel, isLoading = false, ini
 
       const cleanedData = cleanObject({
         ...formData,
+        budgetCategories: budgetCategoriesLocked ? undefined : formData.budgetCategories,
         mainImageUrl: imageUrl
       }) as ProjectFormData
       console.debug('ProjectForm: calling onSubmit with', { cleanedData })
@@ -413,6 +420,16 @@ export default function ProjectForm({ onSubmit, onCancel, isLoading = false, ini
               <div className="mb-6">
                 <h4 className="text-xl font-bold text-gray-900 mb-2">Budget Categories</h4>
                 <p className="text-sm text-gray-600">Set specific budgets for different project categories. These will be used to track spending by category.</p>
+                {budgetCategoriesLock === 'change_orders' && (
+                  <p className="mt-2 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">
+                    This budget has approved change orders. Adjust category budgets with a change order in the project's Budget section so the revision history stays complete.
+                  </p>
+                )}
+                {budgetCategoriesLock === 'unverified' && (
+                  <p className="mt-2 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">
+                    Category budgets can be edited once we've confirmed this project has no approved change orders. This needs a connection.
+                  </p>
+                )}
               </div>
 
               {/* Total Budget (Read-only) - Prominent Display */}
@@ -480,10 +497,11 @@ export default function ProjectForm({ onSubmit, onCancel, isLoading = false, ini
                               }
                               handleChange('budgetCategories', newBudgetCategories)
                             }}
-                            className="w-full pl-10 pr-4 py-2.5 rounded-lg border-2 border-gray-200 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 transition-all"
+                            className="w-full pl-10 pr-4 py-2.5 rounded-lg border-2 border-gray-200 focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 transition-all disabled:bg-gray-50 disabled:cursor-not-allowed"
                             placeholder="0.00"
                             min="0"
                             step="0.01"
+                            disabled={budgetCategoriesLocked}
                           />
                         </div>
                       </div>
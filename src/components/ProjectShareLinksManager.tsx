@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useState } from 'react'
+import { AlertCircle, Copy, Link2 } from 'lucide-react'
+import type { ProjectShareLink, ProjectShareLinkAccess } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/ToastContext'
+import {
+  isShareLinkActive,
+  projectShareLinkService,
+  SHARE_LINK_EXPIRY_OPTIONS,
+} from '@/services/projectShareLinkService'
+import { formatDate, formatDateTime } from '@/utils/dateUtils'
+
+const linkStatus = (link: ProjectShareLink): { label: string; className: string } => {
+  if (link.revokedAt) return { label: 'Revoked', className: 'bg-red-100 text-red-700' }
+  if (!isShareLinkActive(link)) return { label: 'Expired', className: 'bg-gray-100 text-gray-700' }
+  return { label: 'Active', className: 'bg-green-100 text-green-800' }
+}
+
+/**
+ * Create, revoke and audit client portal links for a project.
+ */
+export default function ProjectShareLinksManager({ projectId }: { projectId: string }) {
+  const { currentAccountId } = useAccount()
+  const { user } = useAuth()
+  const { showError, showSuccess } = useToast()
+  const [links, setLinks] = useState<ProjectShareLink[]>([])
+  const [label, setLabel] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState<number>(SHARE_LINK_EXPIRY_OPTIONS[1].days)
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [openLogLinkId, setOpenLogLinkId] = useState<string | null>(null)
+  const [accessLog, setAccessLog] = useState<ProjectShareLinkAccess[]>([])
+
+  const loadLinks = useCallback(async () => {
+    if (!currentAccountId) return
+    try {
+      setIsLoading(true)
+      setError(null)
+      setLinks(await projectShareLinkService.listShareLinks(currentAccountId, projectId))
+    } catch (err) {
+      console.error('Error loading share links:', err)
+      setError('Failed to load client portal links')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId, projectId])
+
+  useEffect(() => {
+    void loadLinks()
+  }, [loadLinks])
+
+  const handleCreate = async () => {
+    if (!currentAccountId) return
+    setIsSaving(true)
+    try {
+      const { link, url } = await projectShareLinkService.createShareLink(currentAccountId, projectId, {
+        expiresInDays,
+        label,
+        createdBy: user?.id,
+      })
+      setLinks(current => [link, ...current])
+      setCreatedUrl(url)
+      setLabel('')
+    } catch (err) {
+      console.error('Error creating share link:', err)
+      showError(err instanceof Error ? err.message : 'Failed to create the link.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      showSuccess('Link copied.')
+    } catch {
+      showError('Could not copy automatically. Select the link and copy it.')
+    }
+  }
+
+  const handleRevoke = async (link: ProjectShareLink) => {
+    if (!currentAccountId) return
+    if (!window.confirm('Revoke this link? Anyone using it will lose access immediately.')) return
+    try {
+      const revoked = await projectShareLinkService.revokeShareLink(currentAccountId, link.id)
+      setLinks(current => current.map(existing => (existing.id === revoked.id ? revoked : existing)))
+    } catch (err) {
+      console.error('Error revoking share link:', err)
+      showError(err instanceof Error ? err.message : 'Failed to revoke the link.')
+    }
+  }
+
+  const handleToggleLog = async (link: ProjectShareLink) => {
+    if (!currentAccountId) return
+    if (openLogLinkId === link.id) {
+      setOpenLogLinkId(null)
+      return
+    }
+    setOpenLogLinkId(link.id)
+    setAccessLog([])
+    try {
+      setAccessLog(await projectShareLinkService.listAccessLog(currentAccountId, link.id))
+    } catch (err) {
+      console.error('Error loading share link access log:', err)
+      showError('Failed to load the access log.')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Share a read-only view of the client summary, sent invoices and item photos. No login is needed to open the link.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <div className="ml-3 text-sm text-red-700">{error}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="block text-sm font-medium text-gray-700">
+          Shared with
+          <input
+            type="text"
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            placeholder="e.g. Jane (client)"
+            className="mt-1 block w-56 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Expires after
+          <select
+            value={expiresInDays}
+            onChange={e => setExpiresInDays(Number(e.target.value))}
+            className="mt-1 block px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+          >
+            {SHARE_LINK_EXPIRY_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <Button onClick={() => void handleCreate()} disabled={isSaving || !currentAccountId}>
+          <Link2 className="h-4 w-4 mr-2" />
+          {isSaving ? 'Creating...' : 'Create Link'}
+        </Button>
+      </div>
+
+      {createdUrl && (
+        <div className="rounded-md border border-green-200 bg-green-50 p-3 space-y-2">
+          <p className="text-sm text-green-800">Copy this link now. For security it can't be shown again.</p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={createdUrl}
+              onFocus={e => e.target.select()}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+            />
+            <Button variant="secondary" onClick={() => void handleCopy(createdUrl)}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : links.length > 0 && (
+        <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100">
+          {links.map(link => {
+            const status = linkStatus(link)
+            return (
+              <li key={link.id} className="px-4 py-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">{link.label || 'Untitled link'}</span>
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      Created {formatDate(link.createdAt)} · {link.revokedAt ? `Revoked ${formatDate(link.revokedAt)}` : `Expires ${formatDate(link.expiresAt)}`}
+                      {' · '}
+                      {link.accessCount === 0
+                        ? 'Not opened yet'
+                        : `Opened ${link.accessCount} ${link.accessCount === 1 ? 'time' : 'times'}, last ${formatDateTime(link.lastAccessedAt)}`}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {link.accessCount > 0 && (
+                      <Button variant="secondary" size="sm" onClick={() => void handleToggleLog(link)}>
+                        {openLogLinkId === link.id ? 'Hide Log' : 'Access Log'}
+                      </Button>
+                    )}
+                    {isShareLinkActive(link) && (
+                      <Button variant="danger" size="sm" onClick={() => void handleRevoke(link)}>Revoke</Button>
+                    )}
+                  </div>
+                </div>
+                {openLogLinkId === link.id && (
+                  <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                    {accessLog.map(entry => (
+                      <li key={entry.id} className="flex gap-3">
+                        <span className="whitespace-nowrap">{formatDateTime(entry.accessedAt)}</span>
+                        <span className="truncate text-gray-400">{entry.userAgent || 'Unknown browser'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
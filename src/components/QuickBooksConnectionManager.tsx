@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from 'react'
+import { AlertCircle, Link2 } from 'lucide-react'
+import type { QuickBooksConnection } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { Button } from '@/components/ui/Button'
+import { buildQuickBooksAuthorizeUrl, quickbooksService } from '@/services/quickbooksService'
+import { formatDate } from '@/utils/dateUtils'
+import { quickbooksCallback } from '@/utils/routes'
+
+export const QBO_OAUTH_STATE_KEY = 'qbo_oauth_state'
+
+export default function QuickBooksConnectionManager() {
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const [connection, setConnection] = useState<QuickBooksConnection | null>(null)
+  const [defaultItemId, setDefaultItemId] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const clientId = import.meta.env.VITE_QBO_CLIENT_ID
+
+  const loadConnection = useCallback(async () => {
+    if (!currentAccountId) return
+    try {
+      setIsLoading(true)
+      setError(null)
+      const loaded = await quickbooksService.getConnection(currentAccountId)
+      setConnection(loaded)
+      setDefaultItemId(loaded?.defaultItemId || '')
+    } catch (err) {
+      console.error('Error loading QuickBooks connection:', err)
+      setError('Failed to load QuickBooks connection')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId])
+
+  useEffect(() => {
+    if (accountLoading) return
+    if (currentAccountId) {
+      void loadConnection()
+    } else {
+      setIsLoading(false)
+    }
+  }, [currentAccountId, accountLoading, loadConnection])
+
+  const handleConnect = () => {
+    if (!clientId || !currentAccountId) return
+    const state = `${currentAccountId}:${crypto.randomUUID()}`
+    sessionStorage.setItem(QBO_OAUTH_STATE_KEY, state)
+    window.location.assign(
+      buildQuickBooksAuthorizeUrl({
+        clientId,
+        redirectUri: `${window.location.origin}${quickbooksCallback()}`,
+        state,
+      })
+    )
+  }
+
+  const handleDisconnect = async () => {
+    if (!currentAccountId) return
+    if (!window.confirm('Disconnect QuickBooks? Invoices already created there stay linked.')) return
+    setIsSaving(true)
+    try {
+      await quickbooksService.disconnect(currentAccountId)
+      setConnection(null)
+      setDefaultItemId('')
+    } catch (err) {
+      console.error('Error disconnecting QuickBooks:', err)
+      setError('Failed to disconnect QuickBooks')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSaveDefaultItem = async () => {
+    if (!currentAccountId) return
+    setIsSaving(true)
+    try {
+      await quickbooksService.setDefaultItem(currentAccountId, defaultItemId.trim() || null)
+      await loadConnection()
+    } catch (err) {
+      console.error('Error saving QuickBooks default item:', err)
+      setError('Failed to save the default item')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-lg font-medium text-gray-900 mb-1">QuickBooks Online</h4>
+        <p className="text-sm text-gray-500">
+          Connect QuickBooks to create invoice drafts there from saved invoices. Drafts are never emailed or printed.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-600" />
+            <div className="ml-3 text-sm text-red-700">{error}</div>
+          </div>
+        </div>
+      )}
+
+      {connection ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            <Link2 className="inline h-4 w-4 mr-1 text-green-600" />
+            Connected to company {connection.realmId}
+            {connection.environment === 'sandbox' ? ' (sandbox)' : ''} since {formatDate(connection.createdAt)}.
+          </p>
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Default item ID
+              <input
+                type="text"
+                value={defaultItemId}
+                onChange={e => setDefaultItemId(e.target.value)}
+                placeholder="First service item"
+                className="mt-1 block w-48 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              />
+            </label>
+            <Button variant="secondary" onClick={() => void handleSaveDefaultItem()} disabled={isSaving}>
+              Save
+            </Button>
+            <Button variant="danger" onClick={() => void handleDisconnect()} disabled={isSaving}>
+              Disconnect
+            </Button>
+          </div>
+        </div>
+      ) : clientId ? (
+        <Button onClick={handleConnect} disabled={!currentAccountId}>Connect QuickBooks</Button>
+      ) : (
+        <p className="text-sm text-gray-500">Set VITE_QBO_CLIENT_ID to enable the QuickBooks connection.</p>
+      )}
+    </div>
+  )
+}
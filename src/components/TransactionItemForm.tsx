@@ -1,8 +1,13 @@
 import { useState, useEffect, useMemo } from 'react'
 import { X, Camera } from 'lucide-react'
-import { TransactionItemFormData, TransactionItemValidationErrors, ItemImage } from '@/types'
+import { TransactionItemFormData, TransactionItemValidationErrors, ItemImage, PricingRule } from '@/types'
 import { ImageUploadService } from '@/services/imageService'
+import { getPricingRules } from '@/services/pricingRulesService'
+import { useAccount } from '@/contexts/AccountContext'
+import { PricingContext, describePricingRule, isProjectPriceOverridden, suggestProjectPrice } from '@/utils/pricingRules'
 import ImagePreview from './ui/ImagePreview'
+import ItemPhysicalDetailsFields from './items/ItemPhysicalDetailsFields'
+import { parsePhysicalDetailsFormValues, toPhysicalDetailsFormValues } from '@/utils/itemPhysicalDetails'
 import { useToast } from '@/components/ui/ToastContext'
 import { RetrySyncButton } from '@/components/ui/RetrySyncButton'
 import { OfflinePrerequisiteBanner, useOfflinePrerequisiteGate } from './ui/OfflinePrerequisiteBanner'
@@ -15,9 +20,11 @@ interface TransactionItemFormProps {
   projectId?: string
   projectName?: string
   onImageFilesChange?: (itemId: string, imageFiles: File[]) => void
+  // Vendor and budget category of the parent transaction; enables pricing rule suggestions
+  pricingContext?: PricingContext
 }
 
-export default function TransactionItemForm({ item, onSave, onCancel, isEditing = false, onImageFilesChange }: TransactionItemFormProps) {
+export default function TransactionItemForm({ item, onSave, onCancel, isEditing = false, onImageFilesChange, pricingContext }: TransactionItemFormProps) {
   // Check offline prerequisites
   const { isReady, isBlocked, blockingReason } = useOfflinePrerequisiteGate()
   
@@ -37,10 +44,16 @@ export default function TransactionItemForm({ item, onSave, onCancel, isEditing
     space: source?.space ?? '',
     notes: source?.notes ?? '',
     taxAmountPurchasePrice: source?.taxAmountPurchasePrice ?? '',
-    taxAmountProjectPrice: source?.taxAmountProjectPrice ?? ''
+    taxAmountProjectPrice: source?.taxAmountProjectPrice ?? '',
+    pricingRuleId: source?.pricingRuleId ?? null,
+    projectPriceOverridden: source?.projectPriceOverridden ?? false,
+    dimensions: source?.dimensions ?? null,
+    weight: source?.weight ?? null,
+    condition: source?.condition ?? null
   })
 
   const [formData, setFormData] = useState<TransactionItemFormData>(() => buildFormData(item))
+  const [physicalDetails, setPhysicalDetails] = useState(() => toPhysicalDetailsFormValues(item))
 
   const [itemImages, setItemImages] = useState<ItemImage[]>(item?.images || [])
   const [imageFiles, setImageFiles] = useState<File[]>(item?.imageFiles || [])
@@ -49,6 +62,29 @@ export default function TransactionItemForm({ item, onSave, onCancel, isEditing
   const [errors, setErrors] = useState<TransactionItemValidationErrors>({})
   const { showError } = useToast()
 
+  const { currentAccountId } = useAccount()
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([])
+  const usesPricingRules = Boolean(pricingContext)
+
+  useEffect(() => {
+    if (!usesPricingRules || !currentAccountId) return
+    let cancelled = false
+    getPricingRules(currentAccountId).then(rules => {
+      if (!cancelled) setPricingRules(rules)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [currentAccountId, usesPricingRules])
+
+  const pricingVendor = pricingContext?.vendor
+  const pricingCategoryId = pricingContext?.categoryId
+  const priceSuggestion = useMemo(
+    () => suggestProjectPrice(formData.purchasePrice, pricingRules, { vendor: pricingVendor, categoryId: pricingCategoryId }),
+    [formData.purchasePrice, pricingRules, pricingVendor, pricingCategoryId]
+  )
+  const suggestedRule = priceSuggestion ? pricingRules.find(rule => rule.id === priceSuggestion.ruleId) : undefined
+
   // Update state when item prop changes (for editing existing items)
   useEffect(() => {
     if (item) {
@@ -56,6 +92,7 @@ export default function TransactionItemForm({ item, onSave, onCancel, isEditing
       setItemImages(item.images || [])
       setImageFiles(item.imageFiles || [])
       setFormData(buildFormData(item))
+      setPhysicalDetails(toPhysicalDetailsFormValues(item))
     }
   }, [item])
 
@@ -140,6 +177,7 @@ export default function TransactionItemForm({ item, onSave, onCancel, isEditing
     if (formData.projectPrice && (isNaN(Number(formData.projectPrice)) || Number(formData.projectPrice) <= 0)) {
       newErrors.projectPrice = 'Project price must be a positive number'
     }
+    Object.assign(newErrors, parsePhysicalDetailsFormValues(physicalDetails).errors)
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -157,6 +195,7 @@ export default function TransactionItemForm({ item, onSave, onCancel, isEditing
     // Include images and files in the form data
     const itemWithImages = {
       ...formData,
+      ...parsePhysicalDetailsFormValues(physicalDetails).details,
       images: itemImages,
       imageFiles: imageFiles // Include the actual files for upload
     }
@@ -176,7 +215,30 @@ export default function TransactionItemForm({ item, onSave, onCancel, isEditing
         return // Don't update if invalid
       }
     }
-    setFormData(prev => ({ ...prev, [field]: value }))
+    if (field === 'purchasePrice') {
+      // Keep following the rule until someone types their own project price.
+      const suggestion = suggestProjectPrice(value, pricingRules, { vendor: pricingVendor, categoryId: pricingCategoryId })
+      setFormData(prev => {
+        const followsRule = !prev.projectPriceOverridden && (!prev.projectPrice || Boolean(prev.pricingRuleId))
+        if (!followsRule) return { ...prev, purchasePrice: value }
+        return {
+          ...prev,
+          purchasePrice: value,
+          projectPrice: suggestion?.projectPrice ?? (prev.pricingRuleId ? '' : prev.projectPrice),
+          pricingRuleId: suggestion?.ruleId ?? null,
+          projectPriceOverridden: false
+        }
+      })
+    } else if (field === 'projectPrice') {
+      setFormData(prev => ({
+        ...prev,
+        projectPrice: value,
+        pricingRuleId: value && priceSuggestion ? priceSuggestion.ruleId : null,
+        projectPriceOverridden: isProjectPriceOverridden(value, priceSuggestion)
+      }))
+    } else {
+      setFormData(prev => ({ ...prev, [field]: value }))
+    }
 
     // Clear error when user starts typing
     if (errors[field as keyof TransactionItemValidationErrors]) {
@@ -326,6 +388,27 @@ export default function TransactionItemForm({ item, onSave, onCancel, isEditing
           {errors.projectPrice && (
             <p className="mt-1 text-sm text-red-600">{errors.projectPrice}</p>
           )}
+          {priceSuggestion && suggestedRule && (
+            !formData.projectPrice || isProjectPriceOverridden(formData.projectPrice, priceSuggestion) ? (
+              <p className="mt-1 text-xs text-amber-700">
+                Pricing rule suggests ${priceSuggestion.projectPrice}.{' '}
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({
+                    ...prev,
+                    projectPrice: priceSuggestion.projectPrice,
+                    pricingRuleId: priceSuggestion.ruleId,
+                    projectPriceOverridden: false
+                  }))}
+                  className="font-medium text-primary-600 hover:text-primary-700 underline"
+                >
+                  Use rule price
+                </button>
+              </p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">From pricing rule: {describePricingRule(suggestedRule)}</p>
+            )
+          )}
         </div>
 
         {/* Market Value */}
@@ -353,6 +436,12 @@ export default function TransactionItemForm({ item, onSave, onCancel, isEditing
           )}
         </div>
 
+        <ItemPhysicalDetailsFields
+          value={physicalDetails}
+          onChange={setPhysicalDetails}
+          errors={errors}
+        />
+
         {/* Space */}
         <div>
           <label htmlFor="space" className="block text-sm font-medium text-gray-700">
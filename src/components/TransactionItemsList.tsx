@@ -16,6 +16,7 @@ import { useProjectRealtime } from '@/contexts/ProjectRealtimeContext'
 import ContextLink from './ContextLink'
 import type { ItemDisposition } from '@/types'
 import ItemPreviewCard, { type ItemPreviewData } from './items/ItemPreviewCard'
+import type { PricingContext } from '@/utils/pricingRules'
 
 interface TransactionItemsListProps {
   items: TransactionItemFormData[]
@@ -30,6 +31,7 @@ interface TransactionItemsListProps {
   onDeleteItem?: (itemId: string, item: TransactionItemFormData) => Promise<boolean | void> | boolean | void
   enablePersistedItemFeatures?: boolean // Whether to enable bookmark/disposition features that require persisted items
   containerId?: string // ID of the container element to track for sticky behavior
+  pricingContext?: PricingContext // Transaction vendor/category used to suggest project prices
 }
 
 export default function TransactionItemsList({
@@ -44,7 +46,8 @@ export default function TransactionItemsList({
   showSelectionControls = true,
   onDeleteItem,
   enablePersistedItemFeatures = true,
-  containerId
+  containerId,
+  pricingContext
 }: TransactionItemsListProps) {
   const [isAddingItem, setIsAddingItem] = useState(false)
   const [editingItemId, setEditingItemId] = useState<string | null>(null)
@@ -769,6 +772,7 @@ export default function TransactionItemsList({
         projectId={projectId}
         projectName={projectName}
         onImageFilesChange={onImageFilesChange}
+        pricingContext={pricingContext}
       />
     )
   }
@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Plus } from 'lucide-react'
+import type { WarehouseLocation, WarehouseLocationKind } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { warehouseLocationService } from '@/services/warehouseLocationService'
+import {
+  WAREHOUSE_LOCATION_KINDS,
+  WAREHOUSE_LOCATION_LABELS,
+  formatLocationPath,
+  getChildLocations,
+  getLocationPath,
+} from '@/utils/warehouseLocations'
+
+const NEW_OPTION = '__new__'
+
+const selectClassName =
+  'block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-50 disabled:text-gray-400'
+
+interface WarehouseLocationPickerProps {
+  value: string | null
+  /** Called with the chosen location (null when cleared) and its display path. */
+  onChange: (locationId: string | null, path: string) => void
+  disabled?: boolean
+}
+
+/**
+ * Cascading warehouse → zone → shelf → bin selects. Picking a level clears the levels below it,
+ * and each level can add a new location in place.
+ */
+export default function WarehouseLocationPicker({ value, onChange, disabled }: WarehouseLocationPickerProps) {
+  const { currentAccountId } = useAccount()
+  const [locations, setLocations] = useState<WarehouseLocation[]>([])
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [addingKind, setAddingKind] = useState<WarehouseLocationKind | null>(null)
+  const [newName, setNewName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [createError, setCreateError] = useState<string | null>(null)
+
+  const loadLocations = useCallback(async () => {
+    if (!currentAccountId) return
+    try {
+      setLocations(await warehouseLocationService.listLocations(currentAccountId))
+      setLoadError(null)
+    } catch (error) {
+      console.error('Error loading warehouse locations:', error)
+      setLoadError('Could not load warehouse locations. Check your connection and try again.')
+    }
+  }, [currentAccountId])
+
+  useEffect(() => {
+    void loadLocations()
+  }, [loadLocations])
+
+  const path = getLocationPath(locations, value)
+
+  const select = (nextLocations: WarehouseLocation[], locationId: string | null) => {
+    onChange(locationId, formatLocationPath(getLocationPath(nextLocations, locationId)))
+  }
+
+  const handleLevelChange = (level: number, selected: string) => {
+    setCreateError(null)
+    if (selected === NEW_OPTION) {
+      setAddingKind(WAREHOUSE_LOCATION_KINDS[level])
+      setNewName('')
+      return
+    }
+    setAddingKind(null)
+    select(locations, selected || (level > 0 ? path[level - 1].id : null))
+  }
+
+  const handleCreate = async () => {
+    if (!currentAccountId || !addingKind) return
+    const level = WAREHOUSE_LOCATION_KINDS.indexOf(addingKind)
+    setIsCreating(true)
+    setCreateError(null)
+    try {
+      const created = await warehouseLocationService.createLocation(currentAccountId, {
+        parentId: level > 0 ? path[level - 1].id : null,
+        kind: addingKind,
+        name: newName,
+      })
+      const nextLocations = [...locations, created]
+      setLocations(nextLocations)
+      setAddingKind(null)
+      select(nextLocations, created.id)
+    } catch (error) {
+      setCreateError(error instanceof Error ? error.message : 'Failed to add location')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  if (loadError) {
+    return (
+      <p className="text-sm text-red-600">
+        {loadError}{' '}
+        <button type="button" onClick={() => void loadLocations()} className="underline">
+          Retry
+        </button>
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {WAREHOUSE_LOCATION_KINDS.map((kind, level) => {
+          const parent = level > 0 ? path[level - 1] : null
+          const available = level === 0 || Boolean(parent)
+          const options = available ? getChildLocations(locations, parent?.id ?? null) : []
+          return (
+            <label key={kind} className="block text-xs font-medium text-gray-500">
+              {WAREHOUSE_LOCATION_LABELS[kind]}
+              <select
+                value={addingKind === kind ? NEW_OPTION : path[level]?.id ?? ''}
+                onChange={e => handleLevelChange(level, e.target.value)}
+                disabled={disabled || !available}
+                className={`mt-1 ${selectClassName}`}
+              >
+                <option value="">{level === 0 ? 'None' : 'Any'}</option>
+                {options.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+                <option value={NEW_OPTION}>+ New {WAREHOUSE_LOCATION_LABELS[kind].toLowerCase()}…</option>
+              </select>
+            </label>
+          )
+        })}
+      </div>
+
+      {addingKind && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                void handleCreate()
+              }
+            }}
+            placeholder={`New ${WAREHOUSE_LOCATION_LABELS[addingKind].toLowerCase()} name`}
+            className={selectClassName}
+            autoFocus
+          />
+          <button
+            type="button"
+            onClick={() => void handleCreate()}
+            disabled={isCreating || !newName.trim()}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {isCreating ? 'Adding...' : 'Add'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setAddingKind(null)}
+            className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+      {createError && <p className="text-sm text-red-600">{createError}</p>}
+    </div>
+  )
+}
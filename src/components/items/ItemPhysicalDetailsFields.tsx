@@ -0,0 +1,112 @@
+import type { Dimensions, ItemCondition, ItemWeight } from '@/types'
+import {
+  DIMENSION_UNIT_OPTIONS,
+  ITEM_CONDITION_OPTIONS,
+  WEIGHT_UNIT_OPTIONS,
+  type ItemPhysicalDetailsFormValues,
+} from '@/utils/itemPhysicalDetails'
+
+interface ItemPhysicalDetailsFieldsProps {
+  value: ItemPhysicalDetailsFormValues
+  onChange: (value: ItemPhysicalDetailsFormValues) => void
+  errors?: Partial<Record<'dimensions' | 'weight', string>>
+}
+
+const inputClassName =
+  'block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+const unitSelectClassName =
+  'px-2 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+export default function ItemPhysicalDetailsFields({ value, onChange, errors = {} }: ItemPhysicalDetailsFieldsProps) {
+  const update = <K extends keyof ItemPhysicalDetailsFormValues>(field: K, fieldValue: ItemPhysicalDetailsFormValues[K]) => {
+    onChange({ ...value, [field]: fieldValue })
+  }
+
+  const measurementInput = (field: 'width' | 'height' | 'depth' | 'weight', placeholder: string, hasError: boolean) => (
+    <input
+      type="number"
+      step="any"
+      min="0"
+      id={`item-${field}`}
+      value={value[field]}
+      onChange={(e) => update(field, e.target.value)}
+      placeholder={placeholder}
+      className={`${inputClassName} ${hasError ? 'border-red-300' : 'border-gray-300'}`}
+    />
+  )
+
+  return (
+    <>
+      {/* Dimensions */}
+      <div>
+        <label htmlFor="item-width" className="block text-sm font-medium text-gray-700">
+          Dimensions
+        </label>
+        <p className="text-xs text-gray-500 mt-1 mb-2">Width x height, plus depth for furniture</p>
+        <div className="flex items-center gap-2">
+          {measurementInput('width', 'W', Boolean(errors.dimensions))}
+          <span className="text-gray-400">x</span>
+          {measurementInput('height', 'H', Boolean(errors.dimensions))}
+          <span className="text-gray-400">x</span>
+          {measurementInput('depth', 'D', Boolean(errors.dimensions))}
+          <select
+            aria-label="Dimension unit"
+            value={value.dimensionUnit}
+            onChange={(e) => update('dimensionUnit', e.target.value as Dimensions['unit'])}
+            className={unitSelectClassName}
+          >
+            {DIMENSION_UNIT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {errors.dimensions && (
+          <p className="mt-1 text-sm text-red-600">{errors.dimensions}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {/* Weight */}
+        <div>
+          <label htmlFor="item-weight" className="block text-sm font-medium text-gray-700">
+            Weight
+          </label>
+          <div className="mt-1 flex items-center gap-2">
+            {measurementInput('weight', '0', Boolean(errors.weight))}
+            <select
+              aria-label="Weight unit"
+              value={value.weightUnit}
+              onChange={(e) => update('weightUnit', e.target.value as ItemWeight['unit'])}
+              className={unitSelectClassName}
+            >
+              {WEIGHT_UNIT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          {errors.weight && (
+            <p className="mt-1 text-sm text-red-600">{errors.weight}</p>
+          )}
+        </div>
+
+        {/* Condition */}
+        <div>
+          <label htmlFor="item-condition" className="block text-sm font-medium text-gray-700">
+            Condition
+          </label>
+          <select
+            id="item-condition"
+            value={value.condition}
+            onChange={(e) => update('condition', e.target.value as ItemCondition | '')}
+            className={`mt-1 ${inputClassName} border-gray-300`}
+          >
+            <option value="">Not specified</option>
+            {ITEM_CONDITION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -2,7 +2,9 @@ import { Link, useLocation } from 'react-router-dom'
 import { useAuth } from '../../contexts/AuthContext'
 import { useBusinessProfile } from '../../contexts/BusinessProfileContext'
 import { Button } from '../ui/Button'
-import { LogOut, Settings, Package, FolderOpen } from 'lucide-react'
+import { LogOut, Settings, Package, FolderOpen, BarChart3 } from 'lucide-react'
+import { financialDashboard } from '../../utils/routes'
+import NotificationCenter from '../NotificationCenter'
 
 export default function Header() {
   const { user, signOut, loading } = useAuth()
@@ -11,6 +13,7 @@ export default function Header() {
 
   const isProjectsActive = location.pathname.startsWith('/projects') || location.pathname.startsWith('/project') || location.pathname === '/'
   const isBusinessInventoryActive = location.pathname.startsWith('/business-inventory')
+  const isReportsActive = location.pathname.startsWith('/reports')
   const isSettingsActive = location.pathname.startsWith('/settings')
 
   return (
@@ -54,8 +57,22 @@ export default function Header() {
                     <Package className="h-5 w-5 sm:h-4 sm:w-4 sm:mr-2" />
                     <span className="hidden sm:inline">Inventory</span>
                   </Link>
+                  <Link
+                    to={financialDashboard()}
+                    className={`inline-flex items-center px-2 sm:px-3 py-2 text-xs sm:text-sm font-medium transition-all duration-200 border-b-2 ${
+                      isReportsActive
+                        ? 'border-primary-500 text-gray-700'
+                        : 'border-transparent text-gray-500 hover:text-gray-700 hover:bg-gray-50'
+                    }`}
+                    title="Reports"
+                  >
+                    <BarChart3 className="h-5 w-5 sm:h-4 sm:w-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Reports</span>
+                  </Link>
                 </nav>
 
+                <NotificationCenter />
+
                 {/* Settings */}
                 <Link
                   to="/settings"
@@ -12,8 +12,8 @@ export default function Layout({ children }: LayoutProps) {
       <div className="flex flex-col">
         <Header />
 
-        <main className="flex-1 py-6">
-          <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+        <main className="flex-1 py-6 print:py-0">
+          <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 print:max-w-none print:px-0">
             {children || <Outlet />}
           </div>
         </main>
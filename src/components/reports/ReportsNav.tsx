@@ -0,0 +1,31 @@
+import { NavLink } from 'react-router-dom'
+import { accountingExport, financialDashboard, profitabilityReport, receivablesAging, salesTaxReport, vendorSpendReport } from '@/utils/routes'
+
+const REPORT_LINKS = [
+  { to: financialDashboard(), label: 'Dashboard' },
+  { to: receivablesAging(), label: 'Receivables Aging' },
+  { to: profitabilityReport(), label: 'Profitability' },
+  { to: salesTaxReport(), label: 'Sales Tax' },
+  { to: vendorSpendReport(), label: 'Vendors' },
+  { to: accountingExport(), label: 'Accounting Export' },
+]
+
+export default function ReportsNav() {
+  return (
+    <nav className="flex flex-wrap gap-x-6 border-b border-gray-200 print:hidden" aria-label="Reports">
+      {REPORT_LINKS.map(link => (
+        <NavLink
+          key={link.to}
+          to={link.to}
+          className={({ isActive }) =>
+            `py-3 px-1 border-b-2 text-sm font-medium ${
+              isActive ? 'border-primary-500 text-gray-700' : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`
+          }
+        >
+          {link.label}
+        </NavLink>
+      ))}
+    </nav>
+  )
+}
@@ -1,14 +1,16 @@
 import { useState, useEffect } from 'react'
-import { Transaction, ProjectBudgetCategories } from '@/types'
-import { ChevronDown, ChevronUp } from 'lucide-react'
+import { Item, Transaction, ProjectBudgetCategories } from '@/types'
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react'
 import { useCategories } from '@/components/CategorySelect'
 import { useAccount } from '@/contexts/AccountContext'
+import { buildBudgetForecast, UNCATEGORIZED_FORECAST_KEY } from '@/utils/budgetForecast'
 
 interface BudgetProgressProps {
   budget?: number
   designFee?: number
   budgetCategories?: ProjectBudgetCategories
   transactions: Transaction[]
+  items?: Item[] // 'to purchase' and 'to return' items are projected as commitments
   previewMode?: boolean // If true, only show primary budget (furnishings or overall) without toggle
 }
 
@@ -17,12 +19,16 @@ interface CategoryBudgetData {
   categoryName: string
   budget: number
   spent: number
+  committed: number // pending transactions and open item commitments; always 0 for design fee
   percentage: number
+  projectedPercentage: number // (spent + committed) / budget, uncapped
   isDesignFee: boolean
 }
 
+const EMPTY_ITEMS: Item[] = []
 
-export default function BudgetProgress({ budget, designFee, budgetCategories, transactions, previewMode = false }: BudgetProgressProps) {
+
+export default function BudgetProgress({ budget, designFee, budgetCategories, transactions, items = EMPTY_ITEMS, previewMode = false }: BudgetProgressProps) {
   const { currentAccountId } = useAccount()
   const { categories: accountCategories, isLoading: categoriesLoading } = useCategories(false)
   const [showAllCategories, setShowAllCategories] = useState(false)
@@ -38,59 +44,44 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
     return categoryName.toLowerCase().includes('design') && categoryName.toLowerCase().includes('fee')
   }
 
-  // Calculate total spent for overall budget (exclude Design Fee transactions)
-  const calculateSpent = (): number => {
-    // Sum all transactions (purchases add, returns subtract), excluding canceled and design fee transactions
-    let totalAmount = 0
+  // Completed spending plus commitments per category. Items not on a transaction are furnishings.
+  const buildForecast = () => {
+    const furnishingsCategory = accountCategories.find(cat => cat.name.toLowerCase().includes('furnish'))
+    return buildBudgetForecast(transactions, items, furnishingsCategory?.id)
+  }
 
-    const activeTransactions = transactions.filter(t => {
-      if ((t.status || '').toLowerCase() === 'canceled') return false
-      if (!t.categoryId) return true // Include uncategorized transactions in overall
-      const categoryName = categoryMap.get(t.categoryId)
-      return categoryName && !isDesignFeeCategory(categoryName)
-    })
+  // Calculate total spent and committed for overall budget (exclude Design Fee transactions)
+  const calculateSpent = (forecast: ReturnType<typeof buildForecast>): { spent: number; committed: number } => {
+    let spentAmount = 0
+    let committedAmount = 0
 
-    for (const transaction of activeTransactions) {
-      const transactionAmount = parseFloat(transaction.amount || '0')
-      const multiplier = transaction.transactionType === 'Return' ? -1 : 1
-      const finalAmount = transactionAmount * multiplier
-      totalAmount += finalAmount
-    }
+    forecast.forEach((amounts, categoryId) => {
+      // Include uncategorized amounts in overall
+      if (categoryId !== UNCATEGORIZED_FORECAST_KEY) {
+        const categoryName = categoryMap.get(categoryId)
+        if (!categoryName || isDesignFeeCategory(categoryName)) return
+      }
+      spentAmount += amounts.spent
+      committedAmount += amounts.committed
+    })
 
-    return totalAmount
+    return { spent: spentAmount, committed: committedAmount }
   }
 
   // Calculate spending for each budget category using categoryId
-  const calculateCategoryBudgetData = (): CategoryBudgetData[] => {
+  const calculateCategoryBudgetData = (forecast: ReturnType<typeof buildForecast>): CategoryBudgetData[] => {
     const categoryData: CategoryBudgetData[] = []
 
-    // Group transactions by categoryId
-    const transactionsByCategoryId = new Map<string, Transaction[]>()
-    transactions.forEach(transaction => {
-      if ((transaction.status || '').toLowerCase() === 'canceled') return
-      if (!transaction.categoryId) return // Skip uncategorized transactions for category breakdown
-      
-      if (!transactionsByCategoryId.has(transaction.categoryId)) {
-        transactionsByCategoryId.set(transaction.categoryId, [])
-      }
-      transactionsByCategoryId.get(transaction.categoryId)!.push(transaction)
-    })
-
-    // Process each category that has transactions or a budget set
-    transactionsByCategoryId.forEach((categoryTransactions, categoryId) => {
+    // Process each category that has spending, commitments or a budget set
+    forecast.forEach((amounts, categoryId) => {
+      if (categoryId === UNCATEGORIZED_FORECAST_KEY) return // Skip uncategorized amounts for category breakdown
       const categoryName = categoryMap.get(categoryId)
       if (!categoryName) return // Skip if category not found
 
       const isDesignFee = isDesignFeeCategory(categoryName)
-      
-      // Calculate spent for this category
-      let categorySpent = 0
-      for (const transaction of categoryTransactions) {
-        const transactionAmount = parseFloat(transaction.amount || '0')
-        const multiplier = transaction.transactionType === 'Return' ? -1 : 1
-        const finalAmount = transactionAmount * multiplier
-        categorySpent += finalAmount
-      }
+      const categorySpent = amounts.spent
+      // Design fee tracks money received, so there is nothing to forecast
+      const categoryCommitted = isDesignFee ? 0 : amounts.committed
 
       // Determine budget for this category
       let categoryBudget = 0
@@ -104,18 +95,21 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
         }
       }
 
-      // Show category if it has a budget set or has transactions
-      const shouldShowCategory = categoryBudget > 0 || categorySpent !== 0
+      // Show category if it has a budget set, spending or commitments
+      const shouldShowCategory = categoryBudget > 0 || categorySpent !== 0 || categoryCommitted !== 0
 
       if (shouldShowCategory) {
         const percentage = categoryBudget > 0 ? (categorySpent / categoryBudget) * 100 : 0
+        const projectedPercentage = categoryBudget > 0 ? ((categorySpent + categoryCommitted) / categoryBudget) * 100 : 0
 
         categoryData.push({
           categoryId,
           categoryName,
           budget: categoryBudget,
           spent: Math.round(categorySpent),
+          committed: Math.round(categoryCommitted),
           percentage: Math.min(percentage, 100), // Cap at 100%
+          projectedPercentage,
           isDesignFee
         })
       }
@@ -138,7 +132,9 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
             categoryName: accountCat.name,
             budget: budgetAmount,
             spent: 0,
+            committed: 0,
             percentage: 0,
+            projectedPercentage: 0,
             isDesignFee
           })
         }
@@ -156,7 +152,9 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
   }
 
   const [spent, setSpent] = useState(0)
+  const [committed, setCommitted] = useState(0)
   const [percentage, setPercentage] = useState(0)
+  const [projectedPercentage, setProjectedPercentage] = useState(0)
   const [allCategoryData, setAllCategoryData] = useState<CategoryBudgetData[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [computedOverallBudget, setComputedOverallBudget] = useState<number>(budget || 0)
@@ -172,8 +170,9 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
       setIsLoading(true)
 
       try {
-        const spentAmount = calculateSpent()
-        const categoryData = calculateCategoryBudgetData()
+        const forecast = buildForecast()
+        const { spent: spentAmount, committed: committedAmount } = calculateSpent(forecast)
+        const categoryData = calculateCategoryBudgetData(forecast)
 
         // Compute overall budget as the sum of category budgets (exclude design fee)
         const overallFromCategories = categoryData
@@ -181,16 +180,22 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
           .reduce((sum, cat) => sum + cat.budget, 0)
 
         const spentRounded = Math.round(spentAmount)
+        const committedRounded = Math.round(committedAmount)
         const percentageValue = overallFromCategories > 0 ? (spentRounded / overallFromCategories) * 100 : 0
+        const projectedValue = overallFromCategories > 0 ? ((spentRounded + committedRounded) / overallFromCategories) * 100 : 0
 
         setSpent(spentRounded)
+        setCommitted(committedRounded)
         setPercentage(percentageValue)
+        setProjectedPercentage(projectedValue)
         setAllCategoryData(categoryData)
         setComputedOverallBudget(overallFromCategories)
       } catch (error) {
         console.error('Error calculating budget data:', error)
         setSpent(0)
+        setCommitted(0)
         setPercentage(0)
+        setProjectedPercentage(0)
         setAllCategoryData([])
       } finally {
         setIsLoading(false)
@@ -198,7 +203,7 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
     }
 
     calculateBudgetData()
-  }, [budget, designFee, budgetCategories, transactions, accountCategories, categoriesLoading, currentAccountId])
+  }, [budget, designFee, budgetCategories, transactions, items, accountCategories, categoriesLoading, currentAccountId])
 
   // In preview mode, determine what to show: furnishings budget if it exists, otherwise overall furnishings-only budget
   let categoryData = allCategoryData
@@ -219,7 +224,9 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
         categoryName: 'Overall Budget',
         budget: computedOverallBudget,
         spent: spent,
+        committed: committed,
         percentage: percentage,
+        projectedPercentage: projectedPercentage,
         isDesignFee: false
       }
     }
@@ -245,7 +252,9 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
       categoryName: 'Overall Budget',
       budget: computedOverallBudget,
       spent: spent,
+      committed: committed,
       percentage: percentage,
+      projectedPercentage: projectedPercentage,
       isDesignFee: false
     } : null
   }
@@ -304,6 +313,60 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
     return `${categoryName} Budget`
   }
 
+  const formatDollars = (amount: number) => `$${Math.round(amount).toLocaleString('en-US')}`
+
+  const renderCategory = (category: CategoryBudgetData) => {
+    // Remaining and colors reflect the forecast (spent + committed); the solid bar is what's spent
+    const remaining = (category.budget || 0) - category.spent - category.committed
+    const projectedOverrun = !category.isDesignFee && category.budget > 0 && remaining < 0 ? -remaining : 0
+    const committedWidth = Math.max(Math.min(category.projectedPercentage, 100) - category.percentage, 0)
+
+    return (
+      <div key={category.categoryId}>
+        <div className="mb-2">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-base font-medium text-gray-900">{formatCategoryName(category.categoryName)}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-500">
+              {formatDollars(category.spent)} {category.isDesignFee ? 'received' : 'spent'}
+              {category.committed !== 0 && ` · ${formatDollars(category.committed)} committed`}
+            </span>
+            <span className={`text-sm ${category.isDesignFee ? getDesignFeeRemainingColor(category.percentage) : getRemainingColor(category.projectedPercentage)}`}>
+              <span className="font-bold">{formatDollars(remaining)}</span> remaining
+            </span>
+          </div>
+        </div>
+
+        {/* Progress Bar */}
+        <div className="relative">
+          <div className="w-full bg-gray-200 rounded-full h-2 mb-1 flex overflow-hidden">
+            <div
+              className={`h-2 rounded-full transition-all duration-300 ${
+                category.isDesignFee ? getDesignFeeProgressColor(category.percentage) : getProgressColor(category.projectedPercentage)
+              }`}
+              style={{ width: `${Math.min(category.percentage, 100)}%` }}
+            />
+            {committedWidth > 0 && (
+              <div
+                className={`h-2 opacity-40 transition-all duration-300 ${getProgressColor(category.projectedPercentage)}`}
+                style={{ width: `${committedWidth}%` }}
+                title={`${formatDollars(category.committed)} committed`}
+              />
+            )}
+          </div>
+
+          {projectedOverrun > 0 && (
+            <p className="flex items-center text-xs text-red-600">
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              Projected to exceed budget by {formatDollars(projectedOverrun)}
+            </p>
+          )}
+        </div>
+      </div>
+    )
+  }
+
   // If no budget or categories are set, don't show anything
   const hasOverallBudget = computedOverallBudget > 0
   const hasDesignFee = designFee !== null && designFee !== undefined && designFee > 0
@@ -334,38 +397,7 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
           <div>
 
             <div className="space-y-4">
-              {[...categoryData, ...(overallBudgetCategory ? [overallBudgetCategory] : [])].map((category) => {
-                return (
-                  <div key={category.categoryId}>
-                    <div className="mb-2">
-                      <div className="flex items-center justify-between mb-1">
-                        <span className="text-base font-medium text-gray-900">{formatCategoryName(category.categoryName)}</span>
-                      </div>
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm text-gray-500">
-                          ${Math.round(category.spent).toLocaleString('en-US')} {category.isDesignFee ? 'received' : 'spent'}
-                        </span>
-                        <span className={`text-sm ${category.isDesignFee ? getDesignFeeRemainingColor(category.percentage) : getRemainingColor(category.percentage)}`}>
-                          <span className="font-bold">${Math.round((category.budget || 0) - category.spent).toLocaleString('en-US')}</span> remaining
-                        </span>
-                      </div>
-                    </div>
-
-                    {/* Progress Bar */}
-                    <div className="relative">
-                      <div className="w-full bg-gray-200 rounded-full h-2 mb-1">
-                        <div
-                          className={`h-2 rounded-full transition-all duration-300 ${
-                            category.isDesignFee ? getDesignFeeProgressColor(category.percentage) : getProgressColor(category.percentage)
-                          }`}
-                          style={{ width: `${Math.min(category.percentage, 100)}%` }}
-                        />
-                      </div>
-
-                    </div>
-                  </div>
-                )
-              })}
+              {[...categoryData, ...(overallBudgetCategory ? [overallBudgetCategory] : [])].map(renderCategory)}
             </div>
 
           </div>
@@ -389,38 +421,7 @@ export default function BudgetProgress({ budget, designFee, budgetCategories, tr
         <div>
 
           <div className="space-y-4">
-            {renderCategories.map((category) => {
-              return (
-                <div key={category.categoryId}>
-                  <div className="mb-2">
-                    <div className="flex items-center justify-between mb-1">
-                      <span className="text-base font-medium text-gray-900">{formatCategoryName(category.categoryName)}</span>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-gray-500">
-                        ${Math.round(category.spent).toLocaleString('en-US')} {category.isDesignFee ? 'received' : 'spent'}
-                      </span>
-                      <span className={`text-sm ${category.isDesignFee ? getDesignFeeRemainingColor(category.percentage) : getRemainingColor(category.percentage)}`}>
-                        <span className="font-bold">${Math.round((category.budget || 0) - category.spent).toLocaleString('en-US')}</span> remaining
-                      </span>
-                    </div>
-                  </div>
-
-                  {/* Progress Bar */}
-                  <div className="relative">
-                    <div className="w-full bg-gray-200 rounded-full h-2 mb-1">
-                      <div
-                        className={`h-2 rounded-full transition-all duration-300 ${
-                          category.isDesignFee ? getDesignFeeProgressColor(category.percentage) : getProgressColor(category.percentage)
-                        }`}
-                        style={{ width: `${Math.min(category.percentage, 100)}%` }}
-                      />
-                    </div>
-
-                  </div>
-                </div>
-              )
-            })}
+            {renderCategories.map(renderCategory)}
           </div>
 
           {/* Show All Categories Toggle - positioned at bottom */}
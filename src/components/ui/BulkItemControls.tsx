@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { Receipt, MapPin, Tag, Trash2, X } from 'lucide-react'
+import { Receipt, MapPin, QrCode, Send, Tag, Trash2, X } from 'lucide-react'
 import { Transaction } from '@/types'
 import { transactionService } from '@/services/inventoryService'
 import { DISPOSITION_OPTIONS, displayDispositionLabel } from '@/utils/dispositionUtils'
@@ -16,6 +16,10 @@ interface BulkItemControlsProps {
   onSetSku: (sku: string) => Promise<void>
   onDelete: () => Promise<void>
   onClearSelection: () => void
+  /** Shown when the selection can be sent to the client for sign-off. */
+  onRequestApproval?: () => void
+  /** Shown when QR labels are enabled; opens a printable label sheet for the selection. */
+  onPrintLabels?: () => void
   itemListContainerWidth?: number
 }
 
@@ -28,6 +32,8 @@ export default function BulkItemControls({
   onSetSku,
   onDelete,
   onClearSelection,
+  onRequestApproval,
+  onPrintLabels,
   itemListContainerWidth
 }: BulkItemControlsProps) {
   const { currentAccountId } = useAccount()
@@ -212,6 +218,28 @@ export default function BulkItemControls({
               Set SKU
             </button>
 
+            {/* Request Client Approval */}
+            {onRequestApproval && (
+              <button
+                onClick={onRequestApproval}
+                className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                <Send className="h-4 w-4" />
+                Request Approval
+              </button>
+            )}
+
+            {/* Print QR Labels */}
+            {onPrintLabels && (
+              <button
+                onClick={onPrintLabels}
+                className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                <QrCode className="h-4 w-4" />
+                Print Labels
+              </button>
+            )}
+
             {/* Delete */}
             <button
               onClick={() => setShowDeleteConfirm(true)}
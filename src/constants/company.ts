@@ -8,6 +8,8 @@ export const COMPANY_OWES_CLIENT = 'Design Business Owes Client'
 export const COMPANY_INVENTORY = 'Design Business Inventory'
 export const COMPANY_INVENTORY_SALE = 'Design Business Inventory Sale'
 export const COMPANY_INVENTORY_PURCHASE = 'Design Business Inventory Purchase'
+// Canonical transactions for inventory allocations, sales and transfers are internal moves, not vendor spend
+export const INTERNAL_INVENTORY_TRANSACTION_PREFIXES = ['INV_PURCHASE_', 'INV_SALE_', 'INV_TRANSFER_']
 export const COMPANY_DOMAIN_PLACEHOLDER = '<design-business-domain>'
 export const COMPANY_INVENTORY_DOMAIN = `inventory.${COMPANY_DOMAIN_PLACEHOLDER}`
 export const COMPANY_INVENTORY_URL = `https://inventory.${COMPANY_DOMAIN_PLACEHOLDER}`
@@ -0,0 +1,353 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { Download } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/ToastContext'
+import ReportsNav from '@/components/reports/ReportsNav'
+import type { BudgetCategory, Project, Transaction } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { projectService, transactionService } from '@/services/inventoryService'
+import { budgetCategoriesService } from '@/services/budgetCategoriesService'
+import {
+  buildJournalEntries,
+  JOURNAL_CSV_COLUMNS,
+  journalEntriesToCsvRows,
+  journalEntriesToIif,
+  loadAccountingExportConfig,
+  saveAccountingExportConfig,
+  selectTransactionsForExport,
+} from '@/utils/accountingExport'
+import type { AccountingExportConfig, JournalCsvColumn } from '@/utils/accountingExport'
+import { downloadTextFile, toCsv } from '@/utils/csvExport'
+import { centsToMoney } from '@/utils/invoiceTextUtils'
+
+type ExportFormat = 'iif' | 'csv'
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+// Month-end close usually covers the month that just ended.
+function getPreviousMonthRange(): { startDate: string; endDate: string } {
+  const now = new Date()
+  return {
+    startDate: toIsoDate(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+    endDate: toIsoDate(new Date(now.getFullYear(), now.getMonth(), 0)),
+  }
+}
+
+export default function AccountingExport() {
+  const [searchParams] = useSearchParams()
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const { showSuccess } = useToast()
+  const [projects, setProjects] = useState<Project[]>([])
+  const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [categories, setCategories] = useState<BudgetCategory[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [range, setRange] = useState(getPreviousMonthRange)
+  const [projectFilter, setProjectFilter] = useState(searchParams.get('projectId') || '')
+  const [format, setFormat] = useState<ExportFormat>('iif')
+  const [config, setConfig] = useState<AccountingExportConfig | null>(null)
+
+  const loadData = useCallback(async () => {
+    if (!currentAccountId) {
+      setIsLoading(false)
+      return
+    }
+    setIsLoading(true)
+    try {
+      const loadedProjects = await projectService.getProjects(currentAccountId)
+      const [loadedTransactions, loadedCategories] = await Promise.all([
+        transactionService.getTransactionsForProjects(
+          currentAccountId,
+          loadedProjects.map(project => project.id),
+          loadedProjects
+        ),
+        budgetCategoriesService.getCategories(currentAccountId, true),
+      ])
+      setProjects(loadedProjects)
+      setTransactions(loadedTransactions)
+      setCategories(loadedCategories)
+      setConfig(loadAccountingExportConfig(currentAccountId))
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load transactions for export:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load transactions.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId])
+
+  useEffect(() => {
+    if (accountLoading) return
+    void loadData()
+  }, [accountLoading, loadData])
+
+  const selected = useMemo(
+    () =>
+      selectTransactionsForExport(
+        projectFilter ? transactions.filter(t => t.projectId === projectFilter) : transactions,
+        range
+      ),
+    [transactions, projectFilter, range]
+  )
+
+  const entries = useMemo(() => {
+    if (!config) return []
+    const categoryNames = new Map(categories.map(category => [category.id, category.name]))
+    const projectNames = new Map(projects.map(project => [project.id, project.name]))
+    return buildJournalEntries(selected, config, {
+      categoryName: t => (t.categoryId && categoryNames.get(t.categoryId)) || t.budgetCategory || '',
+      projectName: t => t.projectName || (t.projectId ? projectNames.get(t.projectId) : '') || '',
+    })
+  }, [selected, config, categories, projects])
+
+  const paymentMethods = useMemo(
+    () => Array.from(new Set(selected.map(t => t.paymentMethod).filter(Boolean))).sort(),
+    [selected]
+  )
+
+  const debitCents = entries.reduce(
+    (sum, entry) => sum + entry.lines.reduce((lineSum, line) => lineSum + Math.max(line.cents, 0), 0),
+    0
+  )
+
+  const updateConfig = (updates: Partial<AccountingExportConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...updates } : prev))
+  }
+
+  const toggleColumn = (column: JournalCsvColumn) => {
+    if (!config) return
+    const enabled = new Set(config.journalColumns)
+    if (enabled.has(column)) {
+      enabled.delete(column)
+    } else {
+      enabled.add(column)
+    }
+    // Keep the canonical column order regardless of click order.
+    updateConfig({ journalColumns: (Object.keys(JOURNAL_CSV_COLUMNS) as JournalCsvColumn[]).filter(c => enabled.has(c)) })
+  }
+
+  const handleSaveMapping = () => {
+    if (!currentAccountId || !config) return
+    saveAccountingExportConfig(currentAccountId, config)
+    showSuccess('Account mapping saved.')
+  }
+
+  const handleDownload = () => {
+    if (!config || entries.length === 0) return
+    const baseName = `transactions-${range.startDate || 'start'}-to-${range.endDate || 'today'}`
+    if (format === 'iif') {
+      downloadTextFile(`${baseName}.iif`, journalEntriesToIif(entries), 'text/plain;charset=utf-8')
+    } else {
+      downloadTextFile(`${baseName}.csv`, toCsv(journalEntriesToCsvRows(entries, config)))
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading transactions...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !config) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Error</h3>
+        <p className="mt-1 text-sm text-gray-500">{error || 'No account selected.'}</p>
+        <div className="mt-6">
+          <Button onClick={() => void loadData()}>Retry</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const categoryNamesInUse = Array.from(new Set(entries.map(entry => entry.category).filter(Boolean))).sort()
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <ReportsNav />
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Accounting Export</h1>
+        <p className="text-sm text-gray-500">
+          Export transactions as journal entries for QuickBooks Desktop (IIF) or any ledger that imports CSV.
+          Business inventory allocations and sales are internal moves and are not exported.
+        </p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <label className="block text-sm font-medium text-gray-700">
+            From
+            <input
+              type="date"
+              value={range.startDate}
+              onChange={e => setRange(prev => ({ ...prev, startDate: e.target.value }))}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            To
+            <input
+              type="date"
+              value={range.endDate}
+              onChange={e => setRange(prev => ({ ...prev, endDate: e.target.value }))}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Project
+            <select value={projectFilter} onChange={e => setProjectFilter(e.target.value)} className={inputClassName}>
+              <option value="">All projects</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Format
+            <select value={format} onChange={e => setFormat(e.target.value as ExportFormat)} className={inputClassName}>
+              <option value="iif">QuickBooks Desktop (IIF)</option>
+              <option value="csv">Journal entry CSV</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 border-t border-gray-100 pt-4">
+          <p className="text-sm text-gray-600">
+            {entries.length} {entries.length === 1 ? 'entry' : 'entries'} from {selected.length} transactions ·{' '}
+            {usd.format(Number.parseFloat(centsToMoney(debitCents)))} in debits
+          </p>
+          <Button onClick={handleDownload} disabled={entries.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Download {format === 'iif' ? 'IIF' : 'CSV'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Account Mapping</h2>
+          <p className="text-sm text-gray-500">Names must match accounts in your bookkeeper's chart of accounts.</p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Default expense account
+            <input
+              type="text"
+              value={config.defaultExpenseAccount}
+              onChange={e => updateConfig({ defaultExpenseAccount: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Sales tax account
+            <input
+              type="text"
+              value={config.salesTaxAccount}
+              onChange={e => updateConfig({ salesTaxAccount: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Default payment account
+            <input
+              type="text"
+              value={config.defaultPaymentAccount}
+              onChange={e => updateConfig({ defaultPaymentAccount: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+
+        {categoryNamesInUse.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Budget categories</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {categoryNamesInUse.map(name => (
+                <label key={name} className="block text-sm text-gray-700">
+                  {name}
+                  <input
+                    type="text"
+                    value={config.categoryAccounts[name] || ''}
+                    placeholder={config.defaultExpenseAccount}
+                    onChange={e => updateConfig({ categoryAccounts: { ...config.categoryAccounts, [name]: e.target.value } })}
+                    className={inputClassName}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {paymentMethods.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Payment methods</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {paymentMethods.map(method => (
+                <label key={method} className="block text-sm text-gray-700">
+                  {method}
+                  <input
+                    type="text"
+                    value={config.paymentMethodAccounts[method] || ''}
+                    placeholder={config.defaultPaymentAccount}
+                    onChange={e =>
+                      updateConfig({ paymentMethodAccounts: { ...config.paymentMethodAccounts, [method]: e.target.value } })
+                    }
+                    className={inputClassName}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {format === 'csv' && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-900">CSV columns</h3>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {(Object.keys(JOURNAL_CSV_COLUMNS) as JournalCsvColumn[]).map(column => (
+                <label key={column} className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={config.journalColumns.includes(column)}
+                    onChange={() => toggleColumn(column)}
+                    className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                  />
+                  {JOURNAL_CSV_COLUMNS[column]}
+                </label>
+              ))}
+            </div>
+            <label className="block text-sm font-medium text-gray-700 sm:w-48">
+              Date format
+              <select
+                value={config.dateFormat}
+                onChange={e => updateConfig({ dateFormat: e.target.value as AccountingExportConfig['dateFormat'] })}
+                className={inputClassName}
+              >
+                <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+              </select>
+            </label>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="secondary" onClick={handleSaveMapping}>Save Mapping</Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -11,6 +11,8 @@ import { TransactionSource } from '@/constants/transactionSources'
 import { Combobox } from '@/components/ui/Combobox'
 import ImagePreview from '@/components/ui/ImagePreview'
 import { RetrySyncButton } from '@/components/ui/RetrySyncButton'
+import WarehouseLocationPicker from '@/components/WarehouseLocationPicker'
+import ItemPhysicalDetailsFields from '@/components/items/ItemPhysicalDetailsFields'
 import { useAuth } from '../contexts/AuthContext'
 import { useAccount } from '../contexts/AccountContext'
 import { UserRole } from '../types'
@@ -18,6 +20,7 @@ import { getUserFriendlyErrorMessage, getErrorAction } from '@/utils/imageUtils'
 import { useToast } from '@/components/ui/ToastContext'
 import { useOfflineFeedback } from '@/utils/offlineUxFeedback'
 import { hydrateOptimisticItem } from '@/utils/hydrationHelpers'
+import { EMPTY_PHYSICAL_DETAILS_FORM_VALUES, parsePhysicalDetailsFormValues, type ItemPhysicalDetailsFormValues } from '@/utils/itemPhysicalDetails'
 import { OfflineQueueUnavailableError } from '@/services/offlineItemService'
 import { OfflineContextError } from '@/services/operationQueue'
 
@@ -88,7 +91,9 @@ export default function AddBusinessInventoryItem() {
     disposition: string
     notes: string
     businessInventoryLocation: string
+    warehouseLocationId: string | null
     selectedTransactionId: string
+    physicalDetails: ItemPhysicalDetailsFormValues
   }>({
     description: '',
     source: '',
@@ -99,7 +104,9 @@ export default function AddBusinessInventoryItem() {
     disposition: 'inventory',
     notes: '',
     businessInventoryLocation: '',
-    selectedTransactionId: ''
+    warehouseLocationId: null,
+    selectedTransactionId: '',
+    physicalDetails: EMPTY_PHYSICAL_DETAILS_FORM_VALUES
   })
 
   const [isCustomSource, setIsCustomSource] = useState(false)
@@ -179,6 +186,7 @@ export default function AddBusinessInventoryItem() {
     if (!formData.description.trim()) {
       newErrors.description = 'Description is required'
     }
+    Object.assign(newErrors, parsePhysicalDetailsFormValues(formData.physicalDetails).errors)
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -203,6 +211,7 @@ export default function AddBusinessInventoryItem() {
           disposition: formData.disposition || 'inventory',
         notes: formData.notes,
         businessInventoryLocation: formData.businessInventoryLocation,
+        warehouseLocationId: formData.warehouseLocationId,
         qrKey: `qr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         bookmark: false,
         transactionId: formData.selectedTransactionId || '', // Use selected transaction or empty string
@@ -210,6 +219,7 @@ export default function AddBusinessInventoryItem() {
         paymentMethod: 'Cash', // Default payment method for business inventory
         dateCreated: new Date().toISOString(),
         lastUpdated: new Date().toISOString(),
+        ...parsePhysicalDetailsFormValues(formData.physicalDetails).details,
         ...(images.length > 0 && { images }) // Only include images field if there are images
       }
 
@@ -657,24 +667,25 @@ export default function AddBusinessInventoryItem() {
             )}
           </div>
 
+          <ItemPhysicalDetailsFields
+            value={formData.physicalDetails}
+            onChange={(physicalDetails) => setFormData(prev => ({ ...prev, physicalDetails }))}
+            errors={errors}
+          />
+
           {/* Storage Location */}
                 <div>
-                  <label htmlFor="businessInventoryLocation" className="block text-sm font-medium text-gray-700">
+                  <span className="block text-sm font-medium text-gray-700">
                     Storage Location
-                  </label>
-                  <input
-                    type="text"
-                    id="businessInventoryLocation"
-                    value={formData.businessInventoryLocation}
-                    onChange={(e) => handleInputChange('businessInventoryLocation', e.target.value)}
-                    placeholder="e.g., Warehouse A - Section 3 - Shelf 5"
-              className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 ${
-                errors.businessInventoryLocation ? 'border-red-300' : 'border-gray-300'
-              }`}
-            />
-            {errors.businessInventoryLocation && (
-              <p className="mt-1 text-sm text-red-600">{errors.businessInventoryLocation}</p>
-                  )}
+                  </span>
+                  <div className="mt-1">
+                    <WarehouseLocationPicker
+                      value={formData.warehouseLocationId}
+                      onChange={(locationId, path) => {
+                        setFormData(prev => ({ ...prev, warehouseLocationId: locationId, businessInventoryLocation: path }))
+                      }}
+                    />
+                  </div>
                 </div>
 
           {/* Disposition */}
@@ -25,6 +25,8 @@ import { hydrateOptimisticItem } from '@/utils/hydrationHelpers'
 
 import { COMPANY_INVENTORY_SALE, COMPANY_INVENTORY_PURCHASE, COMPANY_NAME } from '@/constants/company'
 import { projectItems } from '@/utils/routes'
+import ItemPhysicalDetailsFields from '@/components/items/ItemPhysicalDetailsFields'
+import { EMPTY_PHYSICAL_DETAILS_FORM_VALUES, parsePhysicalDetailsFormValues, type ItemPhysicalDetailsFormValues } from '@/utils/itemPhysicalDetails'
 import { navigateToReturnToOrFallback } from '@/utils/navigationReturnTo'
 
 // Get canonical transaction title for display
@@ -52,6 +54,7 @@ type AddItemFormData = {
   notes: string
   disposition: ItemDisposition
   selectedTransactionId: string
+  physicalDetails: ItemPhysicalDetailsFormValues
 }
 
 export default function AddItem() {
@@ -103,7 +106,8 @@ export default function AddItem() {
     space: '',
     notes: '',
     disposition: 'purchased',
-    selectedTransactionId: ''
+    selectedTransactionId: '',
+    physicalDetails: EMPTY_PHYSICAL_DETAILS_FORM_VALUES
   })
 
   const [isCustomSource, setIsCustomSource] = useState(false)
@@ -184,6 +188,7 @@ export default function AddItem() {
     if (!formData.description.trim()) {
       newErrors.description = 'Description is required'
     }
+    Object.assign(newErrors, parsePhysicalDetailsFormValues(formData.physicalDetails).errors)
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -197,8 +202,9 @@ export default function AddItem() {
     setIsSubmitting(true)
 
     try {
+      const { physicalDetails, ...itemFields } = formData
       const itemData = {
-        ...formData,
+        ...itemFields,
         projectId: projectId,
         qrKey: `qr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         bookmark: false,
@@ -208,6 +214,7 @@ export default function AddItem() {
         dateCreated: new Date().toISOString(),
         lastUpdated: new Date().toISOString(),
         disposition: formData.disposition || 'purchased',
+        ...parsePhysicalDetailsFormValues(physicalDetails).details,
         ...(images.length > 0 && { images }) // Only include images field if there are images
       }
 
@@ -699,6 +706,12 @@ export default function AddItem() {
 
 
 
+          <ItemPhysicalDetailsFields
+            value={formData.physicalDetails}
+            onChange={(physicalDetails) => setFormData(prev => ({ ...prev, physicalDetails }))}
+            errors={errors}
+          />
+
           {/* Space */}
           <div>
             <label htmlFor="space" className="block text-sm font-medium text-gray-700">
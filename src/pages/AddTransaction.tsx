@@ -990,6 +990,7 @@ export default function AddTransaction() {
               projectId={projectId}
               projectName={projectName}
               onImageFilesChange={handleImageFilesChange}
+              pricingContext={{ vendor: formData.source, categoryId: formData.categoryId }}
             />
             {errors.items && (
               <p className="mt-1 text-sm text-red-600">{errors.items}</p>
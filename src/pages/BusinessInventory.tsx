@@ -1,9 +1,9 @@
-import { Plus, Search, Package, Receipt, Filter, QrCode, Trash2, Camera, DollarSign, ArrowUpDown } from 'lucide-react'
+import { Plus, Search, Package, Receipt, Filter, QrCode, Trash2, Camera, DollarSign, ArrowUpDown, ScanLine, MapPin, ClipboardCheck } from 'lucide-react'
 import { useMemo } from 'react'
 import { useState, useEffect, useCallback } from 'react'
 import { Link } from 'react-router-dom'
 import ContextLink from '@/components/ContextLink'
-import { Item, Transaction, ItemImage, Project, ItemDisposition } from '@/types'
+import { Item, Transaction, ItemImage, Project, ItemDisposition, WarehouseLocation } from '@/types'
 import type { Transaction as TransactionType } from '@/types'
 import { unifiedItemsService, transactionService, projectService, integrationService } from '@/services/inventoryService'
 import { normalizeDisposition, displayDispositionLabel, DISPOSITION_OPTIONS } from '@/utils/dispositionUtils'
@@ -23,6 +23,10 @@ import CollapsedDuplicateGroup from '@/components/ui/CollapsedDuplicateGroup'
 import InventoryItemRow from '@/components/items/InventoryItemRow'
 import { getTransactionDisplayInfo, getTransactionRoute } from '@/utils/transactionDisplayUtils'
 import { useStackedNavigate } from '@/hooks/useStackedNavigate'
+import { inventoryCounts, qrLabelSheet } from '@/utils/routes'
+import ItemScanner from '@/components/ItemScanner'
+import { warehouseLocationService } from '@/services/warehouseLocationService'
+import { buildLocationTree, getDescendantIds, getLocationPath } from '@/utils/warehouseLocations'
 
 interface FilterOptions {
   status?: string
@@ -67,6 +71,9 @@ export default function BusinessInventory() {
   const [showSortMenu, setShowSortMenu] = useState(false)
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set())
   const [openDispositionMenu, setOpenDispositionMenu] = useState<string | null>(null)
+  const [warehouseLocations, setWarehouseLocations] = useState<WarehouseLocation[]>([])
+  // '' shows every item, 'unassigned' those without a structured location, otherwise a location id
+  const [locationFilter, setLocationFilter] = useState<string>('')
   const { showSuccess, showError } = useToast()
   const { showOfflineSaved } = useOfflineFeedback()
   const { isOnline } = useNetworkState()
@@ -74,6 +81,7 @@ export default function BusinessInventory() {
   // Batch allocation state
   const [projects, setProjects] = useState<Project[]>([])
   const [showBatchAllocationModal, setShowBatchAllocationModal] = useState(false)
+  const [showScanner, setShowScanner] = useState(false)
   const [showProjectDropdown, setShowProjectDropdown] = useState(false)
   const [batchAllocationForm, setBatchAllocationForm] = useState({
     projectId: '',
@@ -158,6 +166,25 @@ export default function BusinessInventory() {
     }
   }
 
+  // Locations only refine browsing, so the list still works if they can't be loaded (e.g. offline).
+  useEffect(() => {
+    if (!currentAccountId) return
+    warehouseLocationService.listLocations(currentAccountId)
+      .then(setWarehouseLocations)
+      .catch(error => console.warn('Failed to load warehouse locations:', error))
+  }, [currentAccountId])
+
+  const locationTree = useMemo(() => buildLocationTree(warehouseLocations, items), [warehouseLocations, items])
+  const locationFilterIds = useMemo(
+    () => (locationFilter && locationFilter !== 'unassigned' ? getDescendantIds(warehouseLocations, locationFilter) : null),
+    [warehouseLocations, locationFilter]
+  )
+  const locationFilterPath = useMemo(() => getLocationPath(warehouseLocations, locationFilter), [warehouseLocations, locationFilter])
+  const locationFilterChildren = useMemo(
+    () => (locationFilterIds ? locationTree.filter(row => row.location.parentId === locationFilter) : []),
+    [locationTree, locationFilterIds, locationFilter]
+  )
+
   // Compute filtered items (matching InventoryList.tsx)
   const filteredItems = useMemo(() => {
     let filtered = items.filter(item => {
@@ -173,7 +200,13 @@ export default function BusinessInventory() {
       // Apply bookmark filter
       const matchesFilter = filterMode === 'all' || (filterMode === 'bookmarked' && item.bookmark)
 
-      return matchesSearch && matchesStatus && matchesFilter
+      // Apply location filter (a location includes everything stored beneath it)
+      const matchesLocation = !locationFilter ||
+        (locationFilter === 'unassigned'
+          ? !item.warehouseLocationId
+          : Boolean(item.warehouseLocationId && locationFilterIds?.has(item.warehouseLocationId)))
+
+      return matchesSearch && matchesStatus && matchesFilter && matchesLocation
     })
 
     // Apply sorting
@@ -191,7 +224,7 @@ export default function BusinessInventory() {
     })
 
     return filtered
-  }, [items, inventorySearchQuery, filters.status, filterMode, sortMode])
+  }, [items, inventorySearchQuery, filters.status, filterMode, sortMode, locationFilter, locationFilterIds])
 
   // Group filtered items by their grouping key
   const groupedItems = useMemo(() => {
@@ -735,7 +768,7 @@ export default function BusinessInventory() {
         <div className="px-6 py-6">
           {activeTab === 'inventory' && (
             <>
-              {/* Header - Just Add Item button */}
+              {/* Header - Add Item and Inventory Counts */}
               <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-2">
                 <ContextLink
                   to={buildContextUrl('/business-inventory/add')}
@@ -744,6 +777,13 @@ export default function BusinessInventory() {
                   <Plus className="h-4 w-4 mr-2" />
                   Add Item
                 </ContextLink>
+                <ContextLink
+                  to={inventoryCounts()}
+                  className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200 w-full sm:w-auto"
+                >
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  Inventory Counts
+                </ContextLink>
               </div>
 
               {/* Search and Controls - Sticky Container */}
@@ -763,6 +803,46 @@ export default function BusinessInventory() {
                     />
                   </div>
 
+                  {/* Location Browser */}
+                  {warehouseLocations.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2 pt-2 text-sm">
+                      <MapPin className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                      <select
+                        value={locationFilter}
+                        onChange={(e) => setLocationFilter(e.target.value)}
+                        className="px-3 py-1.5 border border-gray-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                        aria-label="Filter by location"
+                      >
+                        <option value="">All locations</option>
+                        <option value="unassigned">No location ({items.filter(item => !item.warehouseLocationId).length})</option>
+                        {locationTree.map(row => (
+                          <option key={row.location.id} value={row.location.id}>
+                            {'\u00A0\u00A0'.repeat(row.depth)}{row.location.name} ({row.itemCount})
+                          </option>
+                        ))}
+                      </select>
+                      {locationFilterPath.length > 1 && locationFilterPath.slice(0, -1).map(ancestor => (
+                        <button
+                          key={ancestor.id}
+                          onClick={() => setLocationFilter(ancestor.id)}
+                          className="text-primary-600 hover:text-primary-700"
+                          title="Show this location"
+                        >
+                          {ancestor.name} ›
+                        </button>
+                      ))}
+                      {locationFilterChildren.map(row => (
+                        <button
+                          key={row.location.id}
+                          onClick={() => setLocationFilter(row.location.id)}
+                          className="px-2 py-0.5 rounded-full border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          {row.location.name} <span className="text-gray-400">{row.itemCount}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
           {/* Select All and Bulk Actions */}
           <div className="flex items-center justify-between gap-4 p-3 rounded-lg">
             {/* Select All */}
@@ -887,12 +967,21 @@ export default function BusinessInventory() {
                   <button
                     className="inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 transition-colors duration-200"
                     disabled={selectedItems.size === 0}
+                    onClick={() => stackedNavigate(qrLabelSheet(Array.from(selectedItems)))}
                     title="Generate QR Codes"
                   >
                     <QrCode className="h-4 w-4" />
                   </button>
                 )}
 
+                <button
+                  className="inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200"
+                  onClick={() => setShowScanner(true)}
+                  title="Scan item labels and barcodes"
+                >
+                  <ScanLine className="h-4 w-4" />
+                </button>
+
                 <button
                   onClick={handleDeleteSelectedItems}
                   className="inline-flex items-center justify-center px-3 py-2 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-red-50 hover:bg-red-100 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors duration-200"
@@ -915,7 +1004,7 @@ export default function BusinessInventory() {
                     No items found
                   </h3>
                   <p className="text-sm text-gray-500 mb-4">
-                    {inventorySearchQuery || filters.status || filterMode === 'bookmarked'
+                    {inventorySearchQuery || filters.status || filterMode === 'bookmarked' || locationFilter
                       ? 'Try adjusting your search or filter criteria.'
                       : 'No items found.'
                     }
@@ -1387,6 +1476,10 @@ export default function BusinessInventory() {
           </div>
         </div>
       )}
+
+      {showScanner && (
+        <ItemScanner items={items} onClose={() => setShowScanner(false)} />
+      )}
     </div>
   )
 }
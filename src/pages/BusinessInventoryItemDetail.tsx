@@ -15,6 +15,7 @@ import ItemLineageBreadcrumb from '@/components/ui/ItemLineageBreadcrumb'
 import { lineageService } from '@/services/lineageService'
 import { useNavigationContext } from '@/hooks/useNavigationContext'
 import { projectItemDetail, projectItems, projectTransactionDetail } from '@/utils/routes'
+import { formatDimensions, formatItemCondition, formatWeight } from '@/utils/itemPhysicalDetails'
 
 export default function BusinessInventoryItemDetail() {
   const { id } = useParams<{ id: string }>()
@@ -462,6 +463,27 @@ export default function BusinessInventoryItemDetail() {
                 </div>
               )}
 
+              {item.dimensions && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Dimensions</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{formatDimensions(item.dimensions)}</dd>
+                </div>
+              )}
+
+              {item.weight && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Weight</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{formatWeight(item.weight)}</dd>
+                </div>
+              )}
+
+              {item.condition && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Condition</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{formatItemCondition(item.condition)}</dd>
+                </div>
+              )}
+
               {item.purchasePrice && (
                 <div>
                   <dt className="text-sm font-medium text-gray-500">Purchase Price</dt>
@@ -1,26 +1,25 @@
-import { useEffect, useMemo } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useParams } from 'react-router-dom'
 import { useNavigationContext } from '@/hooks/useNavigationContext'
 import ContextLink from '@/components/ContextLink'
 import { useStackedNavigate } from '@/hooks/useStackedNavigate'
 import { Button } from '@/components/ui/Button'
-import type { Item, Transaction } from '@/types'
+import { useToast } from '@/components/ui/ToastContext'
+import type { BudgetChangeOrder, Item } from '@/types'
+import ClientSummaryDocument from '@/components/ClientSummaryDocument'
 import { useProjectRealtime } from '@/contexts/ProjectRealtimeContext'
 import { useBusinessProfile } from '@/contexts/BusinessProfileContext'
+import { useAccount } from '@/contexts/AccountContext'
+import { budgetChangeOrderService } from '@/services/budgetChangeOrderService'
 import { CLIENT_OWES_COMPANY, COMPANY_OWES_CLIENT } from '@/constants/company'
 import { useCategories } from '@/components/CategorySelect'
 import { projectItems, projectInvoice, projectsRoot } from '@/utils/routes'
-
-const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
-
-function toNumber(value: string | number | null | undefined): number {
-  if (typeof value === 'number') return isNaN(value) ? 0 : value
-  if (typeof value === 'string') {
-    const n = parseFloat(value || '0')
-    return isNaN(n) ? 0 : n
-  }
-  return 0
-}
+import { buildClientBudgetRevisions } from '@/utils/budgetChangeOrders'
+import { buildClientSummaryTotals } from '@/utils/clientSummary'
+import { downloadFile } from '@/utils/csvExport'
+import { renderPdfReport } from '@/utils/pdfReport'
+import { buildClientSummaryPdfDocument, getItemThumbnailUrl, toPdfFileName } from '@/utils/pdfReportDocuments'
+import { loadPdfReportBranding } from '@/utils/pdfImages'
 
 export default function ClientSummary() {
   const { id, projectId } = useParams<{ id?: string; projectId?: string }>()
@@ -30,6 +29,10 @@ export default function ClientSummary() {
   const { categories: accountCategories } = useCategories(false)
   const { buildContextUrl, getBackDestination } = useNavigationContext()
   const { project, items, transactions, isLoading, error } = useProjectRealtime(resolvedProjectId)
+  const { showError } = useToast()
+  const { currentAccountId } = useAccount()
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false)
+  const [changeOrders, setChangeOrders] = useState<BudgetChangeOrder[]>([])
 
   const today = useMemo(() => new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }), [])
 
@@ -48,64 +51,50 @@ export default function ClientSummary() {
     return map
   }, [accountCategories])
 
-  // Calculate summary values
-  const summary = useMemo(() => {
-    // Total spent overall (sum of projectPrice for all items)
-    const totalSpent = items.reduce((sum, item) => {
-      const projectPrice = toNumber(item.projectPrice)
-      return sum + projectPrice
-    }, 0)
-
-    // Breakdown by budget categories (sum of item project prices by categoryId from their transactions)
-    const categoryBreakdown: Record<string, number> = {}
-    // Create a map of transactionId -> categoryName for quick lookup
-    const transactionCategoryMap = new Map<string, string>()
-    transactions.forEach(transaction => {
-      if (transaction.categoryId && transaction.transactionId) {
-        const categoryName = categoryMap.get(transaction.categoryId)
-        if (categoryName) {
-          transactionCategoryMap.set(transaction.transactionId, categoryName)
-        }
-      }
-    })
-    // Sum item project prices by their transaction's budget category
-    items.forEach(item => {
-      if (item.transactionId) {
-        const categoryName = transactionCategoryMap.get(item.transactionId)
-        if (categoryName) {
-          const projectPrice = toNumber(item.projectPrice)
-          categoryBreakdown[categoryName] = (categoryBreakdown[categoryName] || 0) + projectPrice
-        }
-      }
-    })
-
-    // Value of furnishings in home (sum of marketValue for all items)
-    const totalMarketValue = items.reduce((sum, item) => {
-      const marketValue = toNumber(item.marketValue)
-      return sum + marketValue
-    }, 0)
-
-    // What they saved (sum of differences between marketValue and projectPrice for each item)
-    // If marketValue is not set, difference is zero
-    const totalSaved = items.reduce((sum, item) => {
-      const marketValue = toNumber(item.marketValue)
-      const projectPrice = toNumber(item.projectPrice)
-      // Only count savings if marketValue is set (greater than 0)
-      if (marketValue > 0) {
-        return sum + (marketValue - projectPrice)
-      }
-      return sum
-    }, 0)
+  const summary = useMemo(
+    () => buildClientSummaryTotals(items, transactions, categoryMap),
+    [items, transactions, categoryMap]
+  )
 
-    return {
-      totalSpent,
-      categoryBreakdown,
-      totalMarketValue,
-      totalSaved
+  useEffect(() => {
+    if (!resolvedProjectId || !currentAccountId) return
+    let cancelled = false
+    budgetChangeOrderService
+      .listChangeOrders(currentAccountId, resolvedProjectId)
+      .then(result => {
+        if (!cancelled) setChangeOrders(result)
+      })
+      .catch(changeOrderError => {
+        console.warn('ClientSummary: failed to load budget change orders (non-fatal):', changeOrderError)
+      })
+    return () => {
+      cancelled = true
     }
-  }, [items, transactions, categoryMap])
+  }, [resolvedProjectId, currentAccountId])
+
+  const budgetRevisions = useMemo(
+    () => buildClientBudgetRevisions(project?.budgetCategories, changeOrders, categoryMap),
+    [project?.budgetCategories, changeOrders, categoryMap]
+  )
 
   const handlePrint = () => window.print()
+  const handleDownloadPdf = async () => {
+    setIsGeneratingPdf(true)
+    try {
+      const branding = await loadPdfReportBranding({
+        businessName,
+        businessLogoUrl,
+        thumbnailUrls: items.map(getItemThumbnailUrl),
+      })
+      const pdf = await renderPdfReport(buildClientSummaryPdfDocument(project, items, summary, today, branding, budgetRevisions))
+      downloadFile(toPdfFileName('Client Summary', project?.name, today), pdf, 'application/pdf')
+    } catch (err) {
+      console.error('Failed to create client summary PDF:', err)
+      showError(err instanceof Error ? err.message : 'Failed to create the PDF.')
+    } finally {
+      setIsGeneratingPdf(false)
+    }
+  }
   const handleBack = () => {
     const fallback = resolvedProjectId ? projectItems(resolvedProjectId) : projectsRoot()
     stackedNavigate(getBackDestination(fallback))
@@ -182,176 +171,50 @@ export default function ClientSummary() {
       {/* Action bar */}
       <div className="flex justify-end space-x-3 mb-6 print:hidden">
         <Button variant="secondary" onClick={handleBack}>Back</Button>
-        <Button onClick={handlePrint}>Print</Button>
-      </div>
-
-      {/* Header */}
-      <div className="border-b pb-4 mb-6">
-        <div className="flex items-start gap-4">
-          {businessLogoUrl && (
-            <img
-              src={businessLogoUrl}
-              alt={businessName}
-              className="h-24 w-auto object-contain"
-            />
-          )}
-          <div>
-            <h1 className="text-2xl font-bold text-gray-900">Client Summary</h1>
-            <div className="mt-1 text-sm text-gray-600">
-              <div className="font-medium text-gray-800">{project?.name || 'Project'}</div>
-              {project?.clientName && <div>Client: {project.clientName}</div>}
-              <div>Date: {today}</div>
-            </div>
-          </div>
-        </div>
+        <Button variant="secondary" onClick={handlePrint}>Print</Button>
+        <Button onClick={() => void handleDownloadPdf()} disabled={isGeneratingPdf}>
+          {isGeneratingPdf ? 'Preparing PDF...' : 'Download PDF'}
+        </Button>
       </div>
 
-      {items.length === 0 && (
-        <div className="text-center py-12">
-          <div className="mx-auto h-12 w-12 text-gray-400">📦</div>
-          <h3 className="mt-2 text-sm font-medium text-gray-900">No items found</h3>
-          <p className="mt-1 text-sm text-gray-500">There are no items associated with this project.</p>
-        </div>
-      )}
-
-      {items.length > 0 && (
-        <div className="space-y-6">
-          {/* Summary Fields */}
-          <section>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {/* Total Spend Card */}
-              <div className="rounded-lg border border-gray-100 overflow-hidden">
-                <div className="px-4 py-3 bg-gray-50 border-b border-gray-100">
-                  <h2 className="text-lg font-semibold text-gray-900">Project Overview</h2>
-                </div>
-                <div className="px-4 py-4 space-y-4">
-                  {/* Total Spent Overall */}
-                  <div className="flex items-center justify-between">
-                    <span className="text-base font-medium text-gray-700">Total Spent Overall</span>
-                    <span className="text-base font-semibold text-gray-900">{usd.format(summary.totalSpent)}</span>
-                  </div>
-
-                  {/* Breakdown by Budget Categories */}
-                  {Object.keys(summary.categoryBreakdown).length > 0 && (
-                    <div className="pt-3 border-t border-gray-100">
-                      <div className="space-y-2">
-                        {Object.entries(summary.categoryBreakdown)
-                          .sort(([a], [b]) => a.localeCompare(b))
-                          .map(([category, amount]) => (
-                            <div key={category} className="flex items-center justify-between text-sm">
-                              <span className="text-gray-600">{category}</span>
-                              <span className="text-gray-900 font-medium">{usd.format(amount)}</span>
-                            </div>
-                          ))}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </div>
-
-              {/* Savings Card */}
-              <div className="rounded-lg border border-gray-100 overflow-hidden">
-                <div className="px-4 py-3 bg-gray-50 border-b border-gray-100">
-                  <h2 className="text-lg font-semibold text-gray-900">Furnishing Savings</h2>
-                </div>
-                <div className="px-4 py-4 space-y-4">
-                  {/* Market Value */}
-                  <div className="flex items-center justify-between">
-                    <span className="text-base font-medium text-gray-700">Market Value</span>
-                    <span className="text-base font-semibold text-gray-900">{usd.format(summary.totalMarketValue)}</span>
-                  </div>
-
-                  {/* What They Spent */}
-                  <div className="pt-3 border-t border-gray-100">
-                    <div className="flex items-center justify-between">
-                      <span className="text-base font-medium text-gray-700">What You Spent</span>
-                      <span className="text-base font-semibold text-gray-900">{usd.format(summary.totalSpent)}</span>
-                    </div>
-                  </div>
-
-                  {/* What They Saved */}
-                  <div className="pt-3 border-t border-gray-100">
-                    <div className="flex items-center justify-between">
-                      <span className="text-base font-medium text-green-600">What You Saved</span>
-                      <span className="text-base font-semibold text-green-600">{usd.format(summary.totalSaved)}</span>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </div>
-          </section>
-
-          {/* Items List */}
-          <section>
-            <div className="flex items-baseline justify-between mb-3">
-              <h2 className="text-lg font-semibold text-gray-900">Furnishings</h2>
-            </div>
-
-            <div className="rounded-lg border border-gray-100 overflow-hidden">
-              <div className="divide-y">
-                {items.map((item) => {
-                  const projectPrice = toNumber(item.projectPrice)
-                  const receiptLink = getReceiptLink(item)
-                  
-                  return (
-                    <div key={item.itemId} className="py-2 px-4">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="text-sm text-gray-900 font-medium">
-                            {item.description || 'Item'}
-                          </div>
-                          <div className="flex items-center gap-2 flex-wrap mt-0.5">
-                            {item.source && (
-                              <span className="text-xs text-gray-500">Source: {item.source}</span>
-                            )}
-                            {receiptLink && (
-                              <>
-                                {item.source && <span className="text-xs text-gray-400">•</span>}
-                                {receiptLink.isInternal ? (
-                                  <ContextLink
-                                    to={buildContextUrl(receiptLink.href)}
-                                    className="text-xs text-primary-600 hover:text-primary-700 underline print:hidden"
-                                  >
-                                    View Receipt
-                                  </ContextLink>
-                                ) : (
-                                  <a
-                                    href={receiptLink.href}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="text-xs text-primary-600 hover:text-primary-700 underline print:hidden"
-                                  >
-                                    View Receipt
-                                  </a>
-                                )}
-                                <span className="text-xs text-primary-600 print:inline hidden">
-                                  Receipt available
-                                </span>
-                              </>
-                            )}
-                          </div>
-                          {item.space && (
-                            <div className="text-xs text-gray-500 mt-0.5">Space: {item.space}</div>
-                          )}
-                        </div>
-                        <div className="text-right ml-4">
-                          <div className="text-sm text-gray-700 font-medium">
-                            {usd.format(projectPrice)}
-                          </div>
-                        </div>
-                      </div>
-                    </div>
-                  )
-                })}
-              </div>
-              <div className="flex items-center justify-between px-4 py-2 bg-white border-t border-gray-100">
-                <span className="text-sm font-semibold text-gray-900">Furnishings Total</span>
-                <span className="text-sm font-semibold text-gray-900">{usd.format(summary.totalSpent)}</span>
-              </div>
-            </div>
-          </section>
-        </div>
-      )}
+      <ClientSummaryDocument
+        projectName={project?.name || 'Project'}
+        clientName={project?.clientName}
+        dateLabel={today}
+        businessName={businessName}
+        businessLogoUrl={businessLogoUrl}
+        items={items}
+        summary={summary}
+        budgetRevisions={budgetRevisions}
+        renderItemLinks={item => {
+          const receiptLink = getReceiptLink(item)
+          if (!receiptLink) return null
+          return (
+            <>
+              {receiptLink.isInternal ? (
+                <ContextLink
+                  to={buildContextUrl(receiptLink.href)}
+                  className="text-xs text-primary-600 hover:text-primary-700 underline print:hidden"
+                >
+                  View Receipt
+                </ContextLink>
+              ) : (
+                <a
+                  href={receiptLink.href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-primary-600 hover:text-primary-700 underline print:hidden"
+                >
+                  View Receipt
+                </a>
+              )}
+              <span className="text-xs text-primary-600 print:inline hidden">
+                Receipt available
+              </span>
+            </>
+          )
+        }}
+      />
     </div>
   )
 }
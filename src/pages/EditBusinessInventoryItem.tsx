@@ -8,6 +8,9 @@ import { unifiedItemsService } from '@/services/inventoryService'
 import { useAccount } from '@/contexts/AccountContext'
 import { Combobox } from '@/components/ui/Combobox'
 import { RetrySyncButton } from '@/components/ui/RetrySyncButton'
+import WarehouseLocationPicker from '@/components/WarehouseLocationPicker'
+import ItemPhysicalDetailsFields from '@/components/items/ItemPhysicalDetailsFields'
+import { EMPTY_PHYSICAL_DETAILS_FORM_VALUES, parsePhysicalDetailsFormValues, toPhysicalDetailsFormValues } from '@/utils/itemPhysicalDetails'
 
 export default function EditBusinessInventoryItem() {
   const { id } = useParams<{ id: string }>()
@@ -32,6 +35,7 @@ export default function EditBusinessInventoryItem() {
     notes: string;
     bookmark: boolean;
     businessInventoryLocation: string;
+    warehouseLocationId: string | null;
     inventoryStatus: 'available' | 'allocated' | 'sold' | undefined;
   }>({
     description: '',
@@ -44,8 +48,10 @@ export default function EditBusinessInventoryItem() {
     notes: '',
     bookmark: false,
     businessInventoryLocation: '',
+    warehouseLocationId: null,
     inventoryStatus: 'available' as 'available' | 'allocated' | 'sold' | undefined
   })
+  const [physicalDetails, setPhysicalDetails] = useState(EMPTY_PHYSICAL_DETAILS_FORM_VALUES)
   const [formErrors, setFormErrors] = useState<Record<string, string>>({})
 
   // Navigation context logic
@@ -86,8 +92,10 @@ export default function EditBusinessInventoryItem() {
           notes: itemData.notes || '',
           bookmark: itemData.bookmark,
           businessInventoryLocation: itemData.businessInventoryLocation || '',
+          warehouseLocationId: itemData.warehouseLocationId ?? null,
           inventoryStatus: itemData.inventoryStatus
         })
+        setPhysicalDetails(toPhysicalDetailsFormValues(itemData))
       }
     } catch (error) {
       console.error('Error loading item:', error)
@@ -116,6 +124,7 @@ export default function EditBusinessInventoryItem() {
     if (!formData.description.trim()) {
       errors.description = 'Description is required'
     }
+    Object.assign(errors, parsePhysicalDetailsFormValues(physicalDetails).errors)
 
     setFormErrors(errors)
     return Object.keys(errors).length === 0
@@ -133,7 +142,7 @@ export default function EditBusinessInventoryItem() {
     try {
       // Default projectPrice to purchasePrice only at save time when projectPrice
       // was left blank by the user.
-      const payload = { ...formData }
+      const payload = { ...formData, ...parsePhysicalDetailsFormValues(physicalDetails).details }
       if (!payload.projectPrice && payload.purchasePrice) {
         payload.projectPrice = payload.purchasePrice
       }
@@ -331,23 +340,33 @@ export default function EditBusinessInventoryItem() {
               </div>
             </div>
 
+            <ItemPhysicalDetailsFields
+              value={physicalDetails}
+              onChange={setPhysicalDetails}
+              errors={formErrors}
+            />
+
             {/* Storage Location */}
             <div>
-              <label htmlFor="businessInventoryLocation" className="block text-sm font-medium text-gray-700">
+              <span className="block text-sm font-medium text-gray-700">
                 Storage Location
-              </label>
-              <input
-                type="text"
-                id="businessInventoryLocation"
-                value={formData.businessInventoryLocation}
-                onChange={(e) => handleInputChange('businessInventoryLocation', e.target.value)}
-                placeholder="e.g., Warehouse A - Section 3 - Shelf 5"
-                className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 ${
-                  formErrors.businessInventoryLocation ? 'border-red-300' : 'border-gray-300'
-                }`}
-              />
-              {formErrors.businessInventoryLocation && (
-                <p className="mt-1 text-sm text-red-600">{formErrors.businessInventoryLocation}</p>
+              </span>
+              <div className="mt-1">
+                <WarehouseLocationPicker
+                  value={formData.warehouseLocationId}
+                  onChange={(locationId, path) => {
+                    setFormData(prev => ({
+                      ...prev,
+                      warehouseLocationId: locationId,
+                      businessInventoryLocation: locationId ? path : ''
+                    }))
+                  }}
+                />
+              </div>
+              {!formData.warehouseLocationId && item.businessInventoryLocation && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Previously recorded as "{item.businessInventoryLocation}". Pick a location to replace it.
+                </p>
               )}
             </div>
  
@@ -16,6 +16,8 @@ import { getGlobalQueryClient } from '@/utils/queryClient'
 
 import { COMPANY_INVENTORY_SALE, COMPANY_INVENTORY_PURCHASE, COMPANY_NAME } from '@/constants/company'
 import { projectItemDetail, projectItems } from '@/utils/routes'
+import ItemPhysicalDetailsFields from '@/components/items/ItemPhysicalDetailsFields'
+import { EMPTY_PHYSICAL_DETAILS_FORM_VALUES, parsePhysicalDetailsFormValues, toPhysicalDetailsFormValues } from '@/utils/itemPhysicalDetails'
 import { getReturnToFromLocation, navigateToReturnToOrFallback } from '@/utils/navigationReturnTo'
 
 // Get canonical transaction title for display
@@ -85,7 +87,8 @@ export default function EditItem() {
     paymentMethod: '',
     space: '',
     notes: '',
-    selectedTransactionId: ''
+    selectedTransactionId: '',
+    physicalDetails: EMPTY_PHYSICAL_DETAILS_FORM_VALUES
   })
 
   const [isCustomSource, setIsCustomSource] = useState(false)
@@ -148,7 +151,8 @@ export default function EditItem() {
               paymentMethod: String(fetchedItem.paymentMethod || ''),
               space: String(fetchedItem.space || ''),
               notes: String(fetchedItem.notes || ''),
-              selectedTransactionId: String(fetchedItem.transactionId || '')
+              selectedTransactionId: String(fetchedItem.transactionId || ''),
+              physicalDetails: toPhysicalDetailsFormValues(fetchedItem)
             })
             console.log('Form data set:', {
               description: String(fetchedItem.description || ''),
@@ -213,6 +217,7 @@ export default function EditItem() {
     if (!formData.description.trim()) {
       newErrors.description = 'Description is required'
     }
+    Object.assign(newErrors, parsePhysicalDetailsFormValues(formData.physicalDetails).errors)
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -237,6 +242,7 @@ export default function EditItem() {
       space: formData.space,
       notes: formData.notes,
       transactionId: formData.selectedTransactionId || undefined,
+      ...parsePhysicalDetailsFormValues(formData.physicalDetails).details,
       lastUpdated: new Date().toISOString()
     }
 
@@ -589,6 +595,12 @@ export default function EditItem() {
 
 
 
+              <ItemPhysicalDetailsFields
+                value={formData.physicalDetails}
+                onChange={(physicalDetails) => setFormData(prev => ({ ...prev, physicalDetails }))}
+                errors={errors}
+              />
+
               {/* Space */}
               <div>
                 <label htmlFor="space" className="block text-sm font-medium text-gray-700">
@@ -268,9 +268,15 @@ export default function EditTransaction() {
                   id: item.itemId,
                   description: item?.description || '',
                   purchasePrice: item?.purchasePrice?.toString() || '',
+                  projectPrice: item?.projectPrice?.toString() || '',
+                  pricingRuleId: item?.pricingRuleId ?? null,
+                  projectPriceOverridden: item?.projectPriceOverridden ?? false,
                   sku: item?.sku || '',
                   marketValue: item?.marketValue?.toString() || '',
                   notes: item?.notes || '',
+                  dimensions: item?.dimensions ?? null,
+                  weight: item?.weight ?? null,
+                  condition: item?.condition ?? null,
                   imageFiles: [],
                   images: item?.images || []
                 }
@@ -288,9 +294,15 @@ export default function EditTransaction() {
                 id: i.id,
                 description: i.description,
                 purchasePrice: i.purchasePrice,
+                projectPrice: i.projectPrice,
+                pricingRuleId: i.pricingRuleId,
+                projectPriceOverridden: i.projectPriceOverridden,
                 sku: i.sku,
                 marketValue: i.marketValue,
-                notes: i.notes
+                notes: i.notes,
+                dimensions: i.dimensions,
+                weight: i.weight,
+                condition: i.condition
               } as TransactionItemFormData))
             } catch (e) {
               // Non-fatal
@@ -405,9 +417,17 @@ export default function EditTransaction() {
           if (!orig || orig.description !== item.description) updates.description = item.description
           // Normalize undefined/empty string comparisons for numeric fields stored as strings
           if (!orig || String(orig.purchasePrice || '') !== String(item.purchasePrice || '')) updates.purchasePrice = item.purchasePrice
+          if (!orig || String(orig.projectPrice || '') !== String(item.projectPrice || '')) {
+            updates.projectPrice = item.projectPrice
+            updates.pricingRuleId = item.pricingRuleId ?? null
+            updates.projectPriceOverridden = item.projectPriceOverridden ?? false
+          }
           if (!orig || String(orig.marketValue || '') !== String(item.marketValue || '')) updates.marketValue = item.marketValue
           if (!orig || (orig.sku || '') !== (item.sku || '')) updates.sku = item.sku
           if (!orig || (orig.notes || '') !== (item.notes || '')) updates.notes = item.notes
+          if (!orig || JSON.stringify(orig.dimensions ?? null) !== JSON.stringify(item.dimensions ?? null)) updates.dimensions = item.dimensions ?? null
+          if (!orig || JSON.stringify(orig.weight ?? null) !== JSON.stringify(item.weight ?? null)) updates.weight = item.weight ?? null
+          if (!orig || (orig.condition ?? null) !== (item.condition ?? null)) updates.condition = item.condition ?? null
           // Ensure transaction linkage is present
           updates.transactionId = transactionId
 
@@ -1055,6 +1075,7 @@ export default function EditTransaction() {
               }}
               projectId={projectId}
               projectName={projectName}
+              pricingContext={{ vendor: formData.source, categoryId: formData.categoryId }}
             />
             {errors.items && (
               <p className="mt-1 text-sm text-red-600">{errors.items}</p>
@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useStackedNavigate } from '@/hooks/useStackedNavigate'
+import { Button } from '@/components/ui/Button'
+import ReportsNav from '@/components/reports/ReportsNav'
+import type { FinancialDashboardSource } from '@/utils/financialDashboard'
+import { useAccount } from '@/contexts/AccountContext'
+import { projectService, transactionService, unifiedItemsService } from '@/services/inventoryService'
+import { budgetCategoriesService } from '@/services/budgetCategoriesService'
+import { paymentService } from '@/services/paymentService'
+import { buildFinancialDashboard } from '@/utils/financialDashboard'
+import { projectBudget } from '@/utils/routes'
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+const formatMoney = (value: string) => usd.format(Number.parseFloat(value) || 0)
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+function SummaryCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <div className="text-sm text-gray-500">{label}</div>
+      <div className="mt-1 text-xl font-semibold text-gray-900">{value}</div>
+      {detail && <div className="mt-0.5 text-xs text-gray-500">{detail}</div>}
+    </div>
+  )
+}
+
+export default function FinancialDashboard() {
+  const stackedNavigate = useStackedNavigate()
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const [source, setSource] = useState<FinancialDashboardSource | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [range, setRange] = useState({ from: '', to: '' })
+
+  const loadSource = useCallback(async () => {
+    if (!currentAccountId) {
+      setIsLoading(false)
+      return
+    }
+    setIsLoading(true)
+    try {
+      const projects = await projectService.getProjects(currentAccountId)
+      const projectIds = projects.map(project => project.id)
+      const [transactions, payments, items, businessInventoryItems, categories] = await Promise.all([
+        transactionService.getTransactionsForProjects(currentAccountId, projectIds, projects),
+        paymentService.listPayments(currentAccountId, projectIds),
+        unifiedItemsService.getItemsForProjects(currentAccountId, projectIds),
+        unifiedItemsService.getBusinessInventoryItems(currentAccountId),
+        budgetCategoriesService.getCategories(currentAccountId, true),
+      ])
+      setSource({ projects, transactions, payments, items, businessInventoryItems, categories })
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load dashboard:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load dashboard.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId])
+
+  useEffect(() => {
+    if (accountLoading) return
+    void loadSource()
+  }, [accountLoading, loadSource])
+
+  const dashboard = useMemo(
+    () => (source ? buildFinancialDashboard(source, { from: range.from || undefined, to: range.to || undefined }) : null),
+    [source, range]
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading dashboard...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !dashboard) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Error</h3>
+        <p className="mt-1 text-sm text-gray-500">{error || 'No account selected.'}</p>
+        <div className="mt-6">
+          <Button onClick={() => void loadSource()}>Retry</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const { totals } = dashboard
+  const hasRange = Boolean(range.from || range.to)
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <ReportsNav />
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Financial Dashboard</h1>
+          <p className="text-sm text-gray-500">
+            {hasRange
+              ? 'Spending, design fees and reimbursements from transactions and payments in the selected dates, for every project with activity in them. Budgets, returns and inventory are current.'
+              : 'Every project in the account, including finished ones, across all dates. Reimbursements are net of recorded payments.'}
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          <label className="block text-sm font-medium text-gray-700">
+            From
+            <input
+              type="date"
+              value={range.from}
+              onChange={e => setRange(prev => ({ ...prev, from: e.target.value }))}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            To
+            <input
+              type="date"
+              value={range.to}
+              onChange={e => setRange(prev => ({ ...prev, to: e.target.value }))}
+              className={inputClassName}
+            />
+          </label>
+          {hasRange && (
+            <Button variant="secondary" onClick={() => setRange({ from: '', to: '' })}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+        <SummaryCard label="Spent" value={formatMoney(totals.spent)} detail={`of ${formatMoney(totals.budget)} budgeted`} />
+        <SummaryCard label="Design Fee Earned" value={formatMoney(totals.designFeeEarned)} detail={`of ${formatMoney(totals.designFee)}`} />
+        <SummaryCard label="Owed to Design Business" value={formatMoney(totals.owedToCompany)} />
+        <SummaryCard label="Owed to Clients" value={formatMoney(totals.owedToClient)} />
+        <SummaryCard
+          label="Business Inventory"
+          value={formatMoney(dashboard.businessInventory.value)}
+          detail={`${dashboard.businessInventory.itemCount} items at purchase price`}
+        />
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {dashboard.projects.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">
+            {hasRange ? 'No project activity in the selected dates.' : 'No projects yet.'}
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Client / Project</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Budget</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Spent</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Design Fee Earned</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Owed to Us</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Owed to Client</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Awaiting Return</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {dashboard.projects.map(row => {
+                const isOverBudget = Number.parseFloat(row.budget) > 0 && Number.parseFloat(row.spent) > Number.parseFloat(row.budget)
+                return (
+                  <tr key={row.projectId} className="hover:bg-gray-50">
+                    <td className="px-4 py-2">
+                      <div className="font-medium text-gray-900">{row.clientName || 'No client'}</div>
+                      <button
+                        type="button"
+                        onClick={() => stackedNavigate(projectBudget(row.projectId))}
+                        className="text-primary-600 hover:text-primary-700"
+                      >
+                        {row.projectName}
+                      </button>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatMoney(row.budget)}</td>
+                    <td className={`px-4 py-2 text-right ${isOverBudget ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                      {formatMoney(row.spent)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">
+                      {formatMoney(row.designFeeEarned)}
+                      <span className="text-xs text-gray-500"> / {formatMoney(row.designFee)}</span>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatMoney(row.owedToCompany)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatMoney(row.owedToClient)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">
+                      {row.itemsToReturnCount > 0 ? `${row.itemsToReturnCount} · ${formatMoney(row.itemsToReturnValue)}` : '—'}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+            <tfoot className="bg-gray-50 font-semibold">
+              <tr>
+                <td className="px-4 py-2 text-gray-900">Total</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.budget)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.spent)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.designFeeEarned)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.owedToCompany)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.owedToClient)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">
+                  {totals.itemsToReturnCount > 0 ? `${totals.itemsToReturnCount} · ${formatMoney(totals.itemsToReturnValue)}` : '—'}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,415 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useParams, useNavigate, useLocation } from 'react-router-dom'
+import { ArrowLeft, FileSpreadsheet, Save, Shield, Trash2 } from 'lucide-react'
+import ContextBackLink from '@/components/ContextBackLink'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { useToast } from '@/components/ui/ToastContext'
+import { useNavigationContext } from '@/hooks/useNavigationContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { useAccount } from '@/contexts/AccountContext'
+import { projectService, transactionService, unifiedItemsService } from '@/services/inventoryService'
+import { budgetCategoriesService } from '@/services/budgetCategoriesService'
+import type { BudgetCategory } from '@/types'
+import {
+  SPREADSHEET_IMPORT_FIELDS,
+  guessColumnMapping,
+  parseCsv,
+  planSpreadsheetImport,
+  toTransactionItemFormData,
+  type SpreadsheetColumnMapping,
+  type SpreadsheetImportField,
+} from '@/utils/spreadsheetImport'
+import { projectTransactions } from '@/utils/routes'
+import { navigateToReturnToOrFallback } from '@/utils/navigationReturnTo'
+
+function formatCurrencyFromString(amount: string | undefined): string {
+  const n = Number.parseFloat(amount || '')
+  if (!Number.isFinite(n)) return '—'
+  return `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+type ImportProgress = { done: number; total: number; failed: number }
+
+export default function ImportSpreadsheet() {
+  const { id, projectId: routeProjectId } = useParams<{ id?: string; projectId?: string }>()
+  const resolvedProjectId = routeProjectId || id
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { user, isOwner } = useAuth()
+  const { currentAccountId } = useAccount()
+  const { getBackDestination } = useNavigationContext()
+  const { showError, showInfo, showSuccess, showWarning } = useToast()
+  const fallbackPath = useMemo(
+    () => (resolvedProjectId ? projectTransactions(resolvedProjectId) : '/projects'),
+    [resolvedProjectId]
+  )
+
+  const [projectName, setProjectName] = useState<string>('')
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<SpreadsheetColumnMapping>({})
+  const [paymentMethodDefault, setPaymentMethodDefault] = useState<string>('Client Card')
+  const [categories, setCategories] = useState<BudgetCategory[]>([])
+  const [existingLegacyTransactionIds, setExistingLegacyTransactionIds] = useState<string[]>([])
+  const [existingSkus, setExistingSkus] = useState<string[]>([])
+  const [isLoadingExisting, setIsLoadingExisting] = useState(false)
+  const [progress, setProgress] = useState<ImportProgress | null>(null)
+  // First row number of each transaction already created, so a retry after a partial failure skips them.
+  const [importedKeys, setImportedKeys] = useState<Set<number>>(new Set())
+
+  useEffect(() => {
+    if (!resolvedProjectId || !currentAccountId) return
+    let cancelled = false
+
+    const loadContext = async () => {
+      setIsLoadingExisting(true)
+      try {
+        const [project, transactions, items, accountCategories] = await Promise.all([
+          projectService.getProject(currentAccountId, resolvedProjectId),
+          transactionService.getTransactions(currentAccountId, resolvedProjectId),
+          unifiedItemsService.getItemsByProject(currentAccountId, resolvedProjectId),
+          budgetCategoriesService.getCategories(currentAccountId),
+        ])
+        if (cancelled) return
+        setProjectName(project?.name || '')
+        setExistingLegacyTransactionIds(
+          transactions.map(t => t.legacyTransactionId).filter((id): id is string => Boolean(id))
+        )
+        setExistingSkus(items.map(item => item.sku).filter((sku): sku is string => Boolean(sku)))
+        setCategories(accountCategories)
+      } catch (error) {
+        console.error('Failed to load existing project data for spreadsheet import:', error)
+        if (!cancelled) showWarning('Could not load existing transactions; duplicate detection may be incomplete.')
+      } finally {
+        if (!cancelled) setIsLoadingExisting(false)
+      }
+    }
+
+    void loadContext()
+    return () => {
+      cancelled = true
+    }
+  }, [currentAccountId, resolvedProjectId, showWarning])
+
+  const plan = useMemo(() => {
+    if (dataRows.length === 0) return null
+    return planSpreadsheetImport(dataRows, mapping, {
+      existingLegacyTransactionIds,
+      existingSkus,
+      categories,
+    })
+  }, [categories, dataRows, existingLegacyTransactionIds, existingSkus, mapping])
+
+  const missingRequiredFields = SPREADSHEET_IMPORT_FIELDS.filter(
+    def => def.required && mapping[def.field] === undefined && def.field !== 'amount'
+  )
+
+  if (!currentAccountId && !isOwner()) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="max-w-md w-full space-y-8 text-center">
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-red-100">
+            <Shield className="h-6 w-6 text-red-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">Access Denied</h2>
+          <p className="text-gray-600">
+            You don&apos;t have permission to import transactions. Please contact an administrator if you need access.
+          </p>
+          <ContextBackLink
+            fallback={getBackDestination(fallbackPath)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+          >
+            Back to Project
+          </ContextBackLink>
+        </div>
+      </div>
+    )
+  }
+
+  const handleReset = () => {
+    setFileName(null)
+    setHeaders([])
+    setDataRows([])
+    setMapping({})
+    setProgress(null)
+    setImportedKeys(new Set())
+  }
+
+  const onFileSelected = async (file: File | null) => {
+    if (!file) return
+    if (!/\.(csv|tsv|txt)$/i.test(file.name) && !file.type.includes('csv')) {
+      showError('Please select a CSV file. Save spreadsheets (including .xlsx) as CSV first.')
+      return
+    }
+    try {
+      const rows = parseCsv(await file.text())
+      if (rows.length < 2) {
+        showError('The file needs a header row and at least one data row.')
+        return
+      }
+      const [headerRow, ...rest] = rows
+      setFileName(file.name)
+      setHeaders(headerRow.map(h => h.trim()))
+      setDataRows(rest)
+      setMapping(guessColumnMapping(headerRow))
+      setProgress(null)
+      setImportedKeys(new Set())
+    } catch (err) {
+      console.error('Failed to read CSV:', err)
+      showError('Failed to read the CSV file.')
+    }
+  }
+
+  const handleMappingChange = (field: SpreadsheetImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (value === '') {
+        delete next[field]
+      } else {
+        next[field] = Number(value)
+      }
+      return next
+    })
+  }
+
+  const handleImport = async () => {
+    if (!plan || !resolvedProjectId || !currentAccountId || !user?.id) return
+    const ready = plan.transactions.filter(t => t.importStatus === 'ready' && !importedKeys.has(t.rowNumbers[0]))
+    if (ready.length === 0) {
+      showError('There are no valid, non-duplicate transactions to import.')
+      return
+    }
+
+    setProgress({ done: 0, total: ready.length, failed: 0 })
+    let failed = 0
+    for (const [index, draft] of ready.entries()) {
+      const legacyNote = draft.legacyTransactionId ? `Imported from spreadsheet (original ID ${draft.legacyTransactionId})` : undefined
+      try {
+        await transactionService.createTransaction(
+          currentAccountId,
+          resolvedProjectId,
+          {
+            projectId: resolvedProjectId,
+            projectName,
+            transactionDate: draft.transactionDate!,
+            source: draft.source!,
+            transactionType: draft.transactionType,
+            paymentMethod: draft.paymentMethod || paymentMethodDefault,
+            amount: draft.amount!,
+            categoryId: draft.categoryId,
+            notes: [draft.notes, legacyNote].filter(Boolean).join('\n') || undefined,
+            legacyTransactionId: draft.legacyTransactionId ?? null,
+            receiptEmailed: false,
+            createdBy: user.id,
+            status: 'completed',
+            triggerEvent: 'Manual',
+          },
+          toTransactionItemFormData(draft)
+        )
+        setImportedKeys(prev => new Set(prev).add(draft.rowNumbers[0]))
+      } catch (err) {
+        failed += 1
+        console.error(`Failed to import spreadsheet rows ${draft.rowNumbers.join(', ')}:`, err)
+      }
+      setProgress({ done: index + 1, total: ready.length, failed })
+    }
+
+    if (failed > 0) {
+      showWarning(`Imported ${ready.length - failed} of ${ready.length} transactions. ${failed} failed; see the console for details.`)
+      return
+    }
+    showSuccess(`Imported ${ready.length} transaction${ready.length === 1 ? '' : 's'}.`)
+    navigateToReturnToOrFallback(navigate, location, projectTransactions(resolvedProjectId))
+  }
+
+  const isImporting = progress !== null && progress.done < progress.total
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <ContextBackLink
+            fallback={getBackDestination(fallbackPath)}
+            className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </ContextBackLink>
+
+          <button
+            type="button"
+            onClick={() => {
+              handleReset()
+              showInfo('Importer reset.')
+            }}
+            disabled={isImporting}
+            className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            title="Reset importer"
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Reset
+          </button>
+        </div>
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h1 className="text-2xl font-bold text-gray-900">Import Spreadsheet</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              {projectName ? `Project: ${projectName}` : 'Project transaction import'}
+            </p>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {/* Step 1: Upload */}
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">1. Spreadsheet CSV</label>
+              <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 bg-gray-50">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <div className="flex items-center gap-3">
+                    <div className="h-10 w-10 rounded-full bg-primary-100 flex items-center justify-center">
+                      <FileSpreadsheet className="h-5 w-5 text-primary-700" />
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {fileName ? `${fileName} (${dataRows.length} rows)` : 'Choose a CSV export'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Export .xlsx or Google Sheets files as CSV. One row per item; repeat or leave blank the transaction columns for extra items.
+                      </p>
+                    </div>
+                  </div>
+                  <input
+                    type="file"
+                    accept=".csv,.tsv,.txt,text/csv"
+                    onChange={(e) => void onFileSelected(e.target.files?.[0] || null)}
+                    className="block w-full sm:w-auto text-sm text-gray-700"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Step 2: Column mapping */}
+            {headers.length > 0 && (
+              <div className="space-y-3">
+                <h2 className="text-sm font-medium text-gray-700">2. Map columns</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                  {SPREADSHEET_IMPORT_FIELDS.map(def => (
+                    <div key={def.field}>
+                      <label htmlFor={`map-${def.field}`} className="block text-xs font-medium text-gray-600">
+                        {def.label}
+                        {def.required && <span className="text-red-600"> *</span>}
+                      </label>
+                      <select
+                        id={`map-${def.field}`}
+                        value={mapping[def.field] ?? ''}
+                        onChange={(e) => handleMappingChange(def.field, e.target.value)}
+                        disabled={isImporting}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        <option value="">Not mapped</option>
+                        {headers.map((header, idx) => (
+                          <option key={`${header}-${idx}`} value={idx}>{header || `Column ${idx + 1}`}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  <div>
+                    <label htmlFor="defaultPaymentMethod" className="block text-xs font-medium text-gray-600">
+                      Payment method when blank
+                    </label>
+                    <input
+                      id="defaultPaymentMethod"
+                      type="text"
+                      value={paymentMethodDefault}
+                      onChange={(e) => setPaymentMethodDefault(e.target.value)}
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    />
+                  </div>
+                </div>
+                {missingRequiredFields.length > 0 && (
+                  <p className="text-sm text-red-600">
+                    Map a column for: {missingRequiredFields.map(def => def.label).join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Step 3: Dry run */}
+            {plan && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-4">
+                  <h2 className="text-sm font-medium text-gray-700">3. Review (dry run)</h2>
+                  <span className="text-sm text-green-700">{plan.readyCount} ready</span>
+                  <span className="text-sm text-gray-600">{plan.duplicateCount} duplicate</span>
+                  <span className="text-sm text-red-600">{plan.invalidCount} invalid</span>
+                  {isLoadingExisting && <LoadingSpinner size="sm" />}
+                </div>
+
+                {plan.issues.length > 0 && (
+                  <ul className="max-h-48 overflow-y-auto text-sm border border-gray-200 rounded-md divide-y divide-gray-100">
+                    {plan.issues.map((issue, idx) => (
+                      <li
+                        key={`${issue.rowNumber}-${idx}`}
+                        className={`px-3 py-1.5 ${issue.severity === 'error' ? 'text-red-700 bg-red-50' : 'text-yellow-800 bg-yellow-50'}`}
+                      >
+                        Row {issue.rowNumber}: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="overflow-x-auto border border-gray-200 rounded-md">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">Rows</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">Date</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">Source</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-600">Amount</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-600">Items</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {plan.transactions.map(draft => (
+                        <tr key={draft.rowNumbers[0]} className={draft.importStatus === 'ready' ? '' : 'text-gray-400'}>
+                          <td className="px-3 py-2">{draft.rowNumbers.join(', ')}</td>
+                          <td className="px-3 py-2">{draft.transactionDate || '—'}</td>
+                          <td className="px-3 py-2">{draft.source || '—'}</td>
+                          <td className="px-3 py-2 text-right">{formatCurrencyFromString(draft.amount)}</td>
+                          <td className="px-3 py-2 text-right">{draft.items.length}</td>
+                          <td className="px-3 py-2 capitalize">
+                            {importedKeys.has(draft.rowNumbers[0]) ? 'imported' : draft.importStatus}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex items-center justify-end gap-3">
+                  {progress && (
+                    <p className="text-sm text-gray-600">
+                      Imported {progress.done - progress.failed} of {progress.total}
+                      {progress.failed > 0 ? ` (${progress.failed} failed)` : ''}
+                    </p>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => void handleImport()}
+                    disabled={isImporting || plan.readyCount === 0 || missingRequiredFields.length > 0}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {isImporting ? 'Importing…' : `Import ${plan.readyCount} transaction${plan.readyCount === 1 ? '' : 's'}`}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
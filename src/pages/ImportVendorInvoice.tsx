@@ -9,14 +9,24 @@ import { useNavigationContext } from '@/hooks/useNavigationContext'
 import { useAuth } from '@/contexts/AuthContext'
 import { useAccount } from '@/contexts/AccountContext'
 import { extractPdfText } from '@/utils/pdfTextExtraction'
-import { parseWayfairInvoiceText, WayfairInvoiceLineItem, WayfairInvoiceParseResult } from '@/utils/wayfairInvoiceParser'
+import {
+  detectInvoiceVendor,
+  getVendorInvoiceParser,
+  getVendorInvoiceParsers,
+  type VendorInvoiceLineItem,
+  type VendorInvoiceParseResult,
+  type VendorInvoiceParser,
+} from '@/utils/vendorInvoiceParsers'
 import { normalizeMoneyToTwoDecimalString, parseMoneyToNumber } from '@/utils/money'
 import { projectService, transactionService, unifiedItemsService } from '@/services/inventoryService'
 import { ImageUploadService } from '@/services/imageService'
+import { budgetCategoriesService } from '@/services/budgetCategoriesService'
+import { getPricingRules } from '@/services/pricingRulesService'
+import { applyPricingRules } from '@/utils/pricingRules'
 import CategorySelect from '@/components/CategorySelect'
 import { extractPdfEmbeddedImages, type PdfEmbeddedImagePlacement } from '@/utils/pdfEmbeddedImageExtraction'
 import { COMPANY_NAME } from '@/constants/company'
-import type { ItemImage, TransactionItemFormData } from '@/types'
+import type { ItemImage, Transaction, TransactionItemFormData } from '@/types'
 import { projectTransactionDetail, projectTransactions } from '@/utils/routes'
 import { navigateToReturnToOrFallback } from '@/utils/navigationReturnTo'
 
@@ -31,12 +41,12 @@ function formatCurrencyFromString(amount: string): string {
   return `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
 }
 
-function sumLineTotals(lineItems: WayfairInvoiceLineItem[]): string {
+function sumLineTotals(lineItems: VendorInvoiceLineItem[]): string {
   const sum = lineItems.reduce((acc, li) => acc + (parseMoneyToNumber(li.total) || 0), 0)
   return sum.toFixed(2)
 }
 
-const WAYFAIR_ASSET_UPLOAD_CONCURRENCY = 4
+const INVOICE_ASSET_UPLOAD_CONCURRENCY = 4
 const DEFAULT_RAW_TEXT_LINE_LIMIT = 400
 const RAW_TEXT_PREVIEW_OPTIONS: Array<{ label: string; value: number }> = [
   { label: '200', value: 200 },
@@ -47,17 +57,17 @@ const RAW_TEXT_PREVIEW_OPTIONS: Array<{ label: string; value: number }> = [
 ]
 const PARSE_REPORT_FIRST_LINE_LIMIT = 600
 
-type WayfairAssetItemPayload = {
+type InvoiceAssetItemPayload = {
   description: string
   files: File[]
 }
 
-type WayfairAssetFinalizePayload = {
+type InvoiceAssetFinalizePayload = {
   accountId: string
   projectId: string
   transactionId: string
   projectName: string
-  items: WayfairAssetItemPayload[]
+  items: InvoiceAssetItemPayload[]
   receiptFile: File | null
   totalUploads: number
 }
@@ -97,13 +107,13 @@ function createConcurrencyLimiter(maxConcurrent: number) {
   }
 }
 
-type WayfairItemDraft = {
+type InvoiceItemDraft = {
   qty: number
   sourceIndex: number
   template: Omit<TransactionItemFormData, 'id'>
 }
 
-type WayfairThumbnailDebugInfo = {
+type InvoiceThumbnailDebugInfo = {
   extractedCount: number
   headerDropCount: number
   extraDropCount: number
@@ -118,8 +128,11 @@ type WayfairThumbnailDebugInfo = {
   }>
 }
 
-function buildWayfairItemDrafts(lineItemsWithIndex: Array<{ li: WayfairInvoiceLineItem; sourceIndex: number }>): WayfairItemDraft[] {
-  const drafts: WayfairItemDraft[] = []
+function buildInvoiceItemDrafts(
+  vendor: string,
+  lineItemsWithIndex: Array<{ li: VendorInvoiceLineItem; sourceIndex: number }>
+): InvoiceItemDraft[] {
+  const drafts: InvoiceItemDraft[] = []
 
   for (const { li, sourceIndex } of lineItemsWithIndex) {
     const qty = Math.max(1, Math.floor(li.qty || 1))
@@ -140,20 +153,11 @@ function buildWayfairItemDrafts(lineItemsWithIndex: Array<{ li: WayfairInvoiceLi
     const perUnitPurchaseMoney = normalizeMoneyToTwoDecimalString(String(perUnitPurchasePrice)) || '0.00'
     const perUnitTaxMoney = normalizeMoneyToTwoDecimalString(String(taxPerUnit)) || undefined
 
-    const baseNotesParts: string[] = []
-    if (li.shippedOn) baseNotesParts.push(`Wayfair shipped on ${li.shippedOn}`)
-    if (li.section === 'to_be_shipped') baseNotesParts.push('Wayfair: items to be shipped')
-    const attributeNoteParts: string[] = []
-    if (li.attributeLines && li.attributeLines.length > 0) {
-      attributeNoteParts.push(...li.attributeLines)
-    } else {
-      if (li.attributes?.color) attributeNoteParts.push(`Color: ${li.attributes.color}`)
-      if (li.attributes?.size) attributeNoteParts.push(`Size: ${li.attributes.size}`)
-    }
-    for (const p of Array.from(new Set(attributeNoteParts.map(x => x.trim()).filter(Boolean)))) {
+    const baseNotesParts: string[] = [...(li.noteLines || [])]
+    for (const p of Array.from(new Set((li.attributeLines || []).map(x => x.trim()).filter(Boolean)))) {
       baseNotesParts.push(p)
     }
-    const baseNotes = baseNotesParts.length > 0 ? baseNotesParts.join(' • ') : 'Wayfair import'
+    const baseNotes = baseNotesParts.length > 0 ? baseNotesParts.join(' • ') : `${vendor} import`
 
     drafts.push({
       qty,
@@ -165,6 +169,7 @@ function buildWayfairItemDrafts(lineItemsWithIndex: Array<{ li: WayfairInvoiceLi
         price: perUnitPurchaseMoney,
         taxAmountPurchasePrice: perUnitTaxMoney,
         notes: baseNotes,
+        dimensions: li.dimensions,
       },
     })
   }
@@ -172,7 +177,7 @@ function buildWayfairItemDrafts(lineItemsWithIndex: Array<{ li: WayfairInvoiceLi
   return drafts
 }
 
-function expandWayfairItemDrafts(drafts: WayfairItemDraft[]): {
+function expandInvoiceItemDrafts(drafts: InvoiceItemDraft[]): {
   items: TransactionItemFormData[]
   imageFilesMap: Map<string, File[]>
 } {
@@ -304,10 +309,10 @@ function normalizeEmbeddedImagesForLineItems(
 }
 
 function applyThumbnailsToDrafts(
-  drafts: WayfairItemDraft[],
+  drafts: InvoiceItemDraft[],
   embeddedImages: PdfEmbeddedImagePlacement[],
-  sourceLineItems: WayfairInvoiceLineItem[]
-): { drafts: WayfairItemDraft[]; warning: string | null; debug: WayfairThumbnailDebugInfo } {
+  sourceLineItems: VendorInvoiceLineItem[]
+): { drafts: InvoiceItemDraft[]; warning: string | null; debug: InvoiceThumbnailDebugInfo } {
   const warningParts: string[] = []
   const { filteredPlacements, droppedCount: headerDrops } = filterPageAnchoredDecorativeImages(embeddedImages)
   const { normalizedImages, droppedCount } = normalizeEmbeddedImagesForLineItems(filteredPlacements, sourceLineItems.length)
@@ -378,7 +383,7 @@ function createPreviewItemImageFromFile(file: File, isPrimary: boolean): ItemIma
   }
 }
 
-export default function ImportWayfairInvoice() {
+export default function ImportVendorInvoice() {
   const { id, projectId: routeProjectId } = useParams<{ id?: string; projectId?: string }>()
   const resolvedProjectId = routeProjectId || id
   const navigate = useNavigate()
@@ -394,32 +399,11 @@ export default function ImportWayfairInvoice() {
     [resolvedProjectId]
   )
 
-  if (!currentAccountId && !isOwner()) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="max-w-md w-full space-y-8 text-center">
-          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-red-100">
-            <Shield className="h-6 w-6 text-red-600" />
-          </div>
-          <h2 className="text-2xl font-bold text-gray-900">Access Denied</h2>
-          <p className="text-gray-600">
-            You don&apos;t have permission to import transactions. Please contact an administrator if you need access.
-          </p>
-          <ContextBackLink
-            fallback={getBackDestination(fallbackPath)}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
-          >
-            Back to Project
-          </ContextBackLink>
-        </div>
-      </div>
-    )
-  }
-
   const [projectName, setProjectName] = useState<string>('')
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [isParsing, setIsParsing] = useState(false)
-  const [parseResult, setParseResult] = useState<WayfairInvoiceParseResult | null>(null)
+  const [parseResult, setParseResult] = useState<VendorInvoiceParseResult | null>(null)
+  const [vendorOverride, setVendorOverride] = useState<string>('')
   const [transactionDate, setTransactionDate] = useState(getTodayIsoDate())
   const [paymentMethod, setPaymentMethod] = useState<string>('Client Card')
   const [amount, setAmount] = useState<string>('')
@@ -434,7 +418,7 @@ export default function ImportWayfairInvoice() {
   const [embeddedImagePlacements, setEmbeddedImagePlacements] = useState<PdfEmbeddedImagePlacement[]>([])
   const [thumbnailWarning, setThumbnailWarning] = useState<string | null>(null)
   const [imageFilesMap, setImageFilesMap] = useState<Map<string, File[]>>(new Map())
-  const [thumbnailDebugInfo, setThumbnailDebugInfo] = useState<WayfairThumbnailDebugInfo | null>(null)
+  const [thumbnailDebugInfo, setThumbnailDebugInfo] = useState<InvoiceThumbnailDebugInfo | null>(null)
   const [extractedPdfText, setExtractedPdfText] = useState<string | null>(null)
   const [extractedPdfPages, setExtractedPdfPages] = useState<string[] | null>(null)
   const [rawTextLineLimit, setRawTextLineLimit] = useState<number>(DEFAULT_RAW_TEXT_LINE_LIMIT)
@@ -471,13 +455,7 @@ export default function ImportWayfairInvoice() {
     return parseResult.lineItems
   }, [parseResult])
 
-  const parseStats = useMemo(() => {
-    if (!parseResult) return null
-    const shipped = parseResult.lineItems.filter(li => li.section === 'shipped').length
-    const toBeShipped = parseResult.lineItems.filter(li => li.section === 'to_be_shipped').length
-    const unknown = parseResult.lineItems.filter(li => li.section === 'unknown').length
-    return { shipped, toBeShipped, unknown, total: parseResult.lineItems.length }
-  }, [parseResult])
+  const vendorParsers = useMemo(() => getVendorInvoiceParsers(), [])
 
   const normalizedRawTextLines = useMemo(() => {
     if (!extractedPdfText) return []
@@ -511,6 +489,7 @@ export default function ImportWayfairInvoice() {
       invoiceFileInputRef.current.value = ''
     }
     setParseResult(null)
+    setVendorOverride('')
     setExtractedPdfText(null)
     setExtractedPdfPages(null)
     setTransactionDate(getTodayIsoDate())
@@ -531,8 +510,9 @@ export default function ImportWayfairInvoice() {
   }
 
   const applyParsedInvoiceToDraft = (
-    result: WayfairInvoiceParseResult,
-    thumbnailsOverride?: PdfEmbeddedImagePlacement[]
+    result: VendorInvoiceParseResult,
+    thumbnails: PdfEmbeddedImagePlacement[],
+    extractsThumbnails: boolean
   ) => {
     const today = getTodayIsoDate()
     setTransactionDate(result.orderDate || today)
@@ -554,24 +534,23 @@ export default function ImportWayfairInvoice() {
     }
 
     const notesParts: string[] = []
-    notesParts.push('Wayfair import')
+    notesParts.push(`${result.vendor} import`)
     if (result.invoiceNumber) notesParts.push(`Invoice # ${result.invoiceNumber}`)
     if (result.orderDate) notesParts.push(`Order date: ${result.orderDate}`)
     setNotes(notesParts.join(' • '))
 
-    let drafts = buildWayfairItemDrafts(lineItemsWithIndex)
+    let drafts = buildInvoiceItemDrafts(result.vendor, lineItemsWithIndex)
     let warning: string | null = null
-    const thumbnailsToUse = thumbnailsOverride ?? embeddedImagePlacements
 
-    if (thumbnailsToUse.length > 0) {
-      const applied = applyThumbnailsToDrafts(drafts, thumbnailsToUse, result.lineItems)
+    if (thumbnails.length > 0) {
+      const applied = applyThumbnailsToDrafts(drafts, thumbnails, result.lineItems)
       drafts = applied.drafts
       warning = applied.warning
       setThumbnailDebugInfo(applied.debug)
-    } else if (thumbnailsOverride) {
+    } else if (extractsThumbnails) {
       warning = 'No embedded item thumbnails detected in this PDF.'
       setThumbnailDebugInfo({
-        extractedCount: thumbnailsOverride.length,
+        extractedCount: 0,
         headerDropCount: 0,
         extraDropCount: 0,
         finalMatchCount: 0,
@@ -581,15 +560,15 @@ export default function ImportWayfairInvoice() {
       setThumbnailDebugInfo(null)
     }
 
-    const expanded = expandWayfairItemDrafts(drafts)
+    const expanded = expandInvoiceItemDrafts(drafts)
     setItems(expanded.items)
     setImageFilesMap(expanded.imageFilesMap)
-    if (thumbnailsToUse.length > 0 || thumbnailsOverride !== undefined) {
+    if (extractsThumbnails) {
       setThumbnailWarning(warning)
     }
   }
 
-  const parsePdf = async (file: File) => {
+  const parsePdf = async (file: File, vendor?: string) => {
     if (!file) return
     const parseRunId = activeParseRunRef.current + 1
     activeParseRunRef.current = parseRunId
@@ -597,52 +576,60 @@ export default function ImportWayfairInvoice() {
 
     setGeneralError(null)
     setThumbnailWarning(null)
+    setEmbeddedImagePlacements([])
     setIsParsing(true)
 
     const parseStartedAt = performance.now()
     try {
-      const [{ fullText, pages }, embeddedImages] = await Promise.all([
-        extractPdfText(file),
-        (async () => {
-          if (isLatestRun()) {
-            setIsExtractingThumbnails(true)
-          }
-          try {
-            try {
-              return await extractPdfEmbeddedImages(file, {
-                // tuned for Wayfair invoice thumbnails (small, left side)
-                pdfBoxSizeFilter: { min: 15, max: 180 },
-                xMinMax: 220,
-              })
-            } catch (e) {
-              console.warn('Thumbnail extraction failed; continuing without thumbnails.', e)
-              if (isLatestRun()) {
-                setThumbnailWarning('Thumbnail extraction failed for this PDF. Continuing without thumbnails.')
-              }
-              return [] as PdfEmbeddedImagePlacement[]
-            }
-          } finally {
-            if (isLatestRun()) {
-              setIsExtractingThumbnails(false)
-            }
-          }
-        })(),
-      ])
-
+      const { fullText, pages } = await extractPdfText(file)
       if (!isLatestRun()) return
 
       setExtractedPdfText(fullText)
       setExtractedPdfPages(pages)
 
-      const result = parseWayfairInvoiceText(fullText)
+      const parser: VendorInvoiceParser | undefined = vendor
+        ? getVendorInvoiceParser(vendor)
+        : detectInvoiceVendor(fullText)
+
+      if (!parser) {
+        setParseResult(null)
+        setItems([])
+        setGeneralError('Could not recognize the vendor for this invoice. Choose a vendor below to parse it.')
+        showWarning('Unrecognized invoice vendor.')
+        return
+      }
+
+      // Only vendors whose PDFs embed item images pay for the (slow) thumbnail extraction pass.
+      let embeddedImages: PdfEmbeddedImagePlacement[] = []
+      if (parser.thumbnailExtraction) {
+        setIsExtractingThumbnails(true)
+        try {
+          embeddedImages = await extractPdfEmbeddedImages(file, parser.thumbnailExtraction)
+        } catch (e) {
+          console.warn('Thumbnail extraction failed; continuing without thumbnails.', e)
+          if (isLatestRun()) {
+            setThumbnailWarning('Thumbnail extraction failed for this PDF. Continuing without thumbnails.')
+          }
+        } finally {
+          if (isLatestRun()) {
+            setIsExtractingThumbnails(false)
+          }
+        }
+        if (!isLatestRun()) return
+      }
+
+      const result = parser.parse(fullText)
       setParseResult(result)
+      setVendorOverride(result.vendor)
       setEmbeddedImagePlacements(embeddedImages)
-      applyParsedInvoiceToDraft(result, embeddedImages)
+      // Always pass this run's thumbnails (empty for vendors without extraction) so a previous PDF's images never carry over.
+      applyParsedInvoiceToDraft(result, embeddedImages, Boolean(parser.thumbnailExtraction))
+      void preselectDefaultCategory(parser)
 
       if (result.warnings.length > 0) {
-        showWarning(`Parsed with ${result.warnings.length} warning(s). Review before creating.`)
+        showWarning(`Parsed ${result.vendor} invoice with ${result.warnings.length} warning(s). Review before creating.`)
       } else {
-        showSuccess('Parsed successfully. Review and create when ready.')
+        showSuccess(`Parsed ${result.vendor} invoice successfully. Review and create when ready.`)
       }
     } catch (err) {
       if (!isLatestRun()) return
@@ -657,11 +644,37 @@ export default function ImportWayfairInvoice() {
       if (isLatestRun()) {
         setIsParsing(false)
         const parseDurationMs = Math.round(performance.now() - parseStartedAt)
-        console.log(`[Wayfair importer] PDF parse flow finished in ${parseDurationMs}ms.`)
+        console.log(`[Invoice importer] PDF parse flow finished in ${parseDurationMs}ms.`)
       }
     }
   }
 
+  const preselectDefaultCategory = async (parser: VendorInvoiceParser) => {
+    const categoryName = parser.defaultBudgetCategoryName?.trim().toLowerCase()
+    if (!categoryName || !currentAccountId) return
+    try {
+      const categories = await budgetCategoriesService.getCategories(currentAccountId)
+      const match = categories.find(c => c.name.trim().toLowerCase() === categoryName || c.slug === categoryName)
+      if (match) {
+        // Never override a category the user already picked.
+        setCategoryId(prev => prev || match.id)
+      }
+    } catch (e) {
+      console.warn(`Failed to preselect ${parser.defaultBudgetCategoryName} budget category:`, e)
+    }
+  }
+
+  const handleVendorOverrideChange = (vendor: string) => {
+    setVendorOverride(vendor)
+    if (selectedFile && vendor) {
+      setParseResult(null)
+      setItems([])
+      setEmbeddedImagePlacements([])
+      setImageFilesMap(new Map())
+      void parsePdf(selectedFile, vendor)
+    }
+  }
+
   const buildParseReport = (): Record<string, unknown> | null => {
     if (!parseResult) return null
     const rawText = extractedPdfText || ''
@@ -704,7 +717,7 @@ export default function ImportWayfairInvoice() {
     const blob = new Blob([text], { type: 'application/json' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
-    const base = selectedFile?.name?.replace(/\.pdf$/i, '') || 'wayfair-invoice'
+    const base = selectedFile?.name?.replace(/\.pdf$/i, '') || 'vendor-invoice'
     a.href = url
     a.download = `${base}-parse-report.json`
     document.body.appendChild(a)
@@ -713,7 +726,7 @@ export default function ImportWayfairInvoice() {
     URL.revokeObjectURL(url)
   }
 
-  const finalizeWayfairImportAssets = useCallback(async (payload: WayfairAssetFinalizePayload) => {
+  const finalizeInvoiceImportAssets = useCallback(async (payload: InvoiceAssetFinalizePayload) => {
     const {
       accountId,
       projectId: workerProjectId,
@@ -729,7 +742,7 @@ export default function ImportWayfairInvoice() {
 
     const jobStartedAt = performance.now()
     const assetLabel = totalUploads === 1 ? 'asset' : 'assets'
-    console.log(`[Wayfair importer] Queued ${totalUploads} ${assetLabel} for background upload on transaction ${transactionId}.`)
+    console.log(`[Invoice importer] Queued ${totalUploads} ${assetLabel} for background upload on transaction ${transactionId}.`)
     showInfo(`Uploading ${totalUploads} ${assetLabel} in the background. We'll notify you when done.`)
 
     try {
@@ -743,7 +756,7 @@ export default function ImportWayfairInvoice() {
         itemsByDescription.get(key)!.push(created.itemId)
       }
 
-      const limit = createConcurrencyLimiter(WAYFAIR_ASSET_UPLOAD_CONCURRENCY)
+      const limit = createConcurrencyLimiter(INVOICE_ASSET_UPLOAD_CONCURRENCY)
       const uploadCache = new Map<string, Promise<{ url: string; fileName: string; size: number; mimeType: string }>>()
 
       const imageUploadPromises = itemsForUpload.map(item =>
@@ -788,7 +801,7 @@ export default function ImportWayfairInvoice() {
       const failedUploads: Array<{ description: string; reason: string }> = []
 
       settledImageUploads.forEach((result, index) => {
-        const description = itemsForUpload[index]?.description ?? 'Unknown Wayfair item'
+        const description = itemsForUpload[index]?.description ?? 'Unknown invoice item'
         if (result.status === 'fulfilled') {
           if (result.value.images.length > 0) {
             successfulUpdates.push({ itemId: result.value.itemId, images: result.value.images })
@@ -822,27 +835,27 @@ export default function ImportWayfairInvoice() {
           })
         } catch (err) {
           receiptError = err instanceof Error ? err : new Error('Receipt upload failed')
-          console.warn('Wayfair import: receipt attachment upload failed (background):', err)
+          console.warn('Invoice import: receipt attachment upload failed (background):', err)
         }
       }
 
       const durationMs = Math.round(performance.now() - jobStartedAt)
       if (failedUploads.length === 0 && !receiptError) {
-        showSuccess(`Wayfair uploads finished in ${durationMs}ms.`)
+        showSuccess(`Invoice uploads finished in ${durationMs}ms.`)
       } else {
         const issueCount = failedUploads.length + (receiptError ? 1 : 0)
-        showWarning(`Wayfair uploads finished with ${issueCount} issue${issueCount === 1 ? '' : 's'}. Open the transaction to retry.`)
+        showWarning(`Invoice uploads finished with ${issueCount} issue${issueCount === 1 ? '' : 's'}. Open the transaction to retry.`)
         if (failedUploads.length > 0) {
-          console.warn('Wayfair import: failed thumbnail uploads:', failedUploads)
+          console.warn('Invoice import: failed thumbnail uploads:', failedUploads)
         }
       }
 
-      console.log(`[Wayfair importer] Asset worker completed in ${durationMs}ms (success:${successfulUpdates.length}, failed:${failedUploads.length + (receiptError ? 1 : 0)}).`)
+      console.log(`[Invoice importer] Asset worker completed in ${durationMs}ms (success:${successfulUpdates.length}, failed:${failedUploads.length + (receiptError ? 1 : 0)}).`)
     } catch (err) {
       const durationMs = Math.round(performance.now() - jobStartedAt)
-      console.error('Wayfair import: asset worker failed unexpectedly:', err)
-      console.log(`[Wayfair importer] Asset worker aborted after ${durationMs}ms due to error.`)
-      showError('Wayfair assets failed to upload. Please retry from the transaction detail page.')
+      console.error('Invoice import: asset worker failed unexpectedly:', err)
+      console.log(`[Invoice importer] Asset worker aborted after ${durationMs}ms due to error.`)
+      showError('Invoice assets failed to upload. Please retry from the transaction detail page.')
     }
   }, [showError, showInfo, showSuccess, showWarning])
 
@@ -878,7 +891,7 @@ export default function ImportWayfairInvoice() {
     }
     if (!resolvedProjectId || !currentAccountId || !user?.id) return
 
-    const assetItemsForUpload: WayfairAssetItemPayload[] = items
+    const assetItemsForUpload: InvoiceAssetItemPayload[] = items
       .map(item => {
         const files = imageFilesMap.get(item.id) || item.imageFiles || []
         if (!files || files.length === 0) return null
@@ -887,7 +900,7 @@ export default function ImportWayfairInvoice() {
           files: [...files],
         }
       })
-      .filter((payload): payload is WayfairAssetItemPayload => Boolean(payload))
+      .filter((payload): payload is InvoiceAssetItemPayload => Boolean(payload))
 
     const receiptFile = selectedFile
     const totalUploads = assetItemsForUpload.reduce((sum, payload) => sum + payload.files.length, 0) + (receiptFile ? 1 : 0)
@@ -897,11 +910,11 @@ export default function ImportWayfairInvoice() {
     setIsCreating(true)
     const createStartedAt = performance.now()
     try {
-      const transactionData = {
+      const transactionData: Omit<Transaction, 'transactionId' | 'createdAt'> = {
         projectId: resolvedProjectId,
         projectName,
         transactionDate,
-        source: 'Wayfair',
+        source: parseResult?.vendor || vendorOverride,
         transactionType: 'Purchase',
         paymentMethod,
         amount: normalizeMoneyToTwoDecimalString(amount) || amount,
@@ -915,17 +928,21 @@ export default function ImportWayfairInvoice() {
         subtotal: taxRatePreset === 'Other' ? (normalizeMoneyToTwoDecimalString(subtotal) || subtotal) : undefined,
       }
 
+      // Imported lines only carry a purchase price; fill project prices from the account's pricing rules.
+      const pricingRules = await getPricingRules(currentAccountId)
+      const pricedItems = applyPricingRules(items, pricingRules, { vendor: transactionData.source, categoryId })
+
       const transactionId = await transactionService.createTransaction(
         currentAccountId,
         resolvedProjectId,
-        transactionData as any,
-        items
+        transactionData,
+        pricedItems
       )
       const creationDurationMs = Math.round(performance.now() - createStartedAt)
-      console.log(`[Wayfair importer] Transaction ${transactionId} created in ${creationDurationMs}ms with ${items.length} item(s).`)
+      console.log(`[Invoice importer] Transaction ${transactionId} created in ${creationDurationMs}ms with ${items.length} item(s).`)
 
       if (hasBackgroundAssets && currentAccountId) {
-        void finalizeWayfairImportAssets({
+        void finalizeInvoiceImportAssets({
           accountId: currentAccountId,
           projectId: resolvedProjectId,
           transactionId,
@@ -943,7 +960,7 @@ export default function ImportWayfairInvoice() {
         projectTransactionDetail(resolvedProjectId, transactionId)
       )
     } catch (err) {
-      console.error('Failed to create transaction from Wayfair invoice:', err)
+      console.error('Failed to create transaction from vendor invoice:', err)
       const message = err instanceof Error ? err.message : 'Failed to create transaction. Please try again.'
       setGeneralError(message)
       showError(message)
@@ -960,6 +977,7 @@ export default function ImportWayfairInvoice() {
     }
     setSelectedFile(file)
     setParseResult(null)
+    setVendorOverride('')
     setItems([])
     setEmbeddedImagePlacements([])
     setThumbnailWarning(null)
@@ -976,6 +994,28 @@ export default function ImportWayfairInvoice() {
     setItems(prevItems => prevItems.map(it => (it.id === itemId ? { ...it, imageFiles } : it)))
   }
 
+  if (!currentAccountId && !isOwner()) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="max-w-md w-full space-y-8 text-center">
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-red-100">
+            <Shield className="h-6 w-6 text-red-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">Access Denied</h2>
+          <p className="text-gray-600">
+            You don&apos;t have permission to import transactions. Please contact an administrator if you need access.
+          </p>
+          <ContextBackLink
+            fallback={getBackDestination(fallbackPath)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+          >
+            Back to Project
+          </ContextBackLink>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-6">
       <div className="space-y-4">
@@ -1004,7 +1044,7 @@ export default function ImportWayfairInvoice() {
 
         <div className="bg-white shadow rounded-lg">
           <div className="px-6 py-4 border-b border-gray-200">
-            <h1 className="text-2xl font-bold text-gray-900">Import Wayfair Invoice</h1>
+            <h1 className="text-2xl font-bold text-gray-900">Import Vendor Invoice</h1>
             <p className="text-sm text-gray-600 mt-1">
               {projectName ? `Project: ${projectName}` : 'Project transaction import'}
             </p>
@@ -1034,7 +1074,7 @@ export default function ImportWayfairInvoice() {
                     </div>
                     <div>
                       <p className="text-sm font-medium text-gray-900">
-                        {selectedFile ? selectedFile.name : 'Drag and drop a Wayfair invoice PDF here'}
+                        {selectedFile ? selectedFile.name : 'Drag and drop a vendor invoice PDF here'}
                       </p>
                       <p className="text-xs text-gray-500">
                         Or use the file picker. Parsing happens locally in your browser.
@@ -1053,19 +1093,46 @@ export default function ImportWayfairInvoice() {
                   </div>
                 </div>
 
-                {isParsing && (
+                {isParsing && !isExtractingThumbnails && (
                   <div className="mt-4">
                     <LoadingSpinner size="sm" />
                     <p className="mt-2 text-xs text-gray-500 text-center">Parsing PDF…</p>
                   </div>
                 )}
-                {!isParsing && isExtractingThumbnails && (
+                {isExtractingThumbnails && (
                   <div className="mt-4">
                     <LoadingSpinner size="sm" />
                     <p className="mt-2 text-xs text-gray-500 text-center">Extracting embedded item thumbnails…</p>
                   </div>
                 )}
               </div>
+
+              {selectedFile && extractedPdfText !== null && (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2 pt-2">
+                  <label htmlFor="invoiceVendor" className="text-sm font-medium text-gray-700">Vendor</label>
+                  <select
+                    id="invoiceVendor"
+                    value={vendorOverride}
+                    onChange={(e) => handleVendorOverrideChange(e.target.value)}
+                    disabled={isParsing}
+                    className="block w-full sm:w-64 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="">Select a vendor…</option>
+                    {vendorParsers.map(parser => (
+                      <option key={parser.vendor} value={parser.vendor}>{parser.vendor}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500">
+                    Detected automatically from the PDF text. Change it to re-parse with a different vendor&apos;s parser.
+                  </p>
+                </div>
+              )}
+
+              {!parseResult && generalError && !isParsing && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                  <p className="text-sm text-red-700">{generalError}</p>
+                </div>
+              )}
             </div>
 
             {/* Parse Summary */}
@@ -1073,7 +1140,7 @@ export default function ImportWayfairInvoice() {
               <div className="bg-white border border-gray-200 rounded-lg p-4">
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
-                    <p className="text-xs text-gray-500">Invoice</p>
+                    <p className="text-xs text-gray-500">{parseResult.vendor} invoice</p>
                     <p className="text-sm font-medium text-gray-900">
                       {parseResult.invoiceNumber ? `#${parseResult.invoiceNumber}` : 'Unknown'}
                     </p>
@@ -1092,7 +1159,7 @@ export default function ImportWayfairInvoice() {
                   <div>
                     <p className="text-xs text-gray-500">Detected line items</p>
                     <p className="text-sm font-medium text-gray-900">
-                      {parseStats ? `${parseStats.total} (shipped ${parseStats.shipped}, to-be-shipped ${parseStats.toBeShipped})` : `${parseResult.lineItems.length}`}
+                      {parseResult.lineItems.length}
                     </p>
                     {debugStats && (
                       <p className="mt-1 text-xs text-gray-500">
@@ -1336,6 +1403,7 @@ export default function ImportWayfairInvoice() {
                   onImageFilesChange={handleImageFilesChange}
                   totalAmount={amount}
                   enablePersistedItemFeatures={false}
+                  pricingContext={{ vendor: parseResult?.vendor || vendorOverride, categoryId }}
                 />
 
                 <div className="flex justify-end">
@@ -0,0 +1,429 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { ArrowLeft, ScanLine } from 'lucide-react'
+import ContextBackLink from '@/components/ContextBackLink'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/ToastContext'
+import { useAccount } from '@/contexts/AccountContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { useStackedNavigate } from '@/hooks/useStackedNavigate'
+import { unifiedItemsService } from '@/services/inventoryService'
+import { inventoryCountService } from '@/services/inventoryCountService'
+import { warehouseLocationService } from '@/services/warehouseLocationService'
+import type {
+  InventoryCountAdjustment,
+  InventoryCountEntry,
+  InventoryCountResolution,
+  InventoryCountSession as CountSession,
+  Item,
+  WarehouseLocation,
+} from '@/types'
+import { formatDateTime } from '@/utils/dateUtils'
+import { COUNT_DISCREPANCY_LABELS, COUNT_RESOLUTION_LABELS, reconcileCount } from '@/utils/inventoryCount'
+import { inventoryCounts } from '@/utils/routes'
+import { findItemsByBarcode, parseScannedCode } from '@/utils/scanCodes'
+import { buildLocationTree, formatLocationPath, getDescendantIds, getLocationPath } from '@/utils/warehouseLocations'
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+const itemLabel = (item: Item) => item.name || item.description || item.sku || 'Item'
+
+export default function InventoryCountSession() {
+  const { sessionId } = useParams<{ sessionId: string }>()
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const { user } = useAuth()
+  const { showError, showSuccess } = useToast()
+  const stackedNavigate = useStackedNavigate()
+  const [session, setSession] = useState<CountSession | null>(null)
+  const [entries, setEntries] = useState<InventoryCountEntry[]>([])
+  const [adjustments, setAdjustments] = useState<InventoryCountAdjustment[]>([])
+  const [items, setItems] = useState<Item[]>([])
+  const [locations, setLocations] = useState<WarehouseLocation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [countingLocationId, setCountingLocationId] = useState('')
+  const [code, setCode] = useState('')
+  const [resolutions, setResolutions] = useState<Record<string, InventoryCountResolution>>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadSession = useCallback(async () => {
+    if (!currentAccountId || !sessionId) {
+      setIsLoading(false)
+      return
+    }
+    setIsLoading(true)
+    try {
+      const loadedSession = await inventoryCountService.getSession(currentAccountId, sessionId)
+      if (!loadedSession) {
+        setError('This count does not exist or was discarded.')
+        return
+      }
+      const [entryData, locationData, inventoryItems, adjustmentData] = await Promise.all([
+        inventoryCountService.listEntries(sessionId),
+        warehouseLocationService.listLocations(currentAccountId),
+        unifiedItemsService.getBusinessInventoryItems(currentAccountId),
+        loadedSession.status === 'closed' ? inventoryCountService.listAdjustments(sessionId) : Promise.resolve([]),
+      ])
+      // Counted items may have been allocated to a project since; load them so they can be reported.
+      const knownIds = new Set(inventoryItems.map(item => item.itemId))
+      const extraItems = await Promise.all(
+        entryData
+          .filter(entry => !knownIds.has(entry.itemId))
+          .map(entry => unifiedItemsService.getItemById(currentAccountId, entry.itemId))
+      )
+      setSession(loadedSession)
+      setEntries(entryData)
+      setLocations(locationData)
+      setItems([...inventoryItems, ...extraItems.filter((item): item is Item => Boolean(item))])
+      setAdjustments(adjustmentData)
+      setCountingLocationId(current => current || loadedSession.locationId || '')
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load inventory count:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load inventory count.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId, sessionId])
+
+  useEffect(() => {
+    if (accountLoading) return
+    void loadSession()
+  }, [accountLoading, loadSession])
+
+  const reconciliation = useMemo(
+    () => reconcileCount(items, entries, locations, session?.locationId ?? null),
+    [items, entries, locations, session?.locationId]
+  )
+  const countingLocationRows = useMemo(() => {
+    const scopeIds = session?.locationId ? getDescendantIds(locations, session.locationId) : null
+    return buildLocationTree(locations, []).filter(row => !scopeIds || scopeIds.has(row.location.id))
+  }, [locations, session?.locationId])
+  const entriesByItemId = useMemo(() => new Map(entries.map(entry => [entry.itemId, entry])), [entries])
+  const pathFor = useCallback(
+    (locationId: string | null | undefined) => formatLocationPath(getLocationPath(locations, locationId)) || '—',
+    [locations]
+  )
+
+  const saveEntry = async (item: Item, countedLocationId: string | null) => {
+    if (!currentAccountId || !session) return
+    const entry = await inventoryCountService.recordEntry(currentAccountId, session.id, {
+      itemId: item.itemId,
+      countedLocationId,
+      countedBy: user?.id,
+    })
+    setEntries(prev => [...prev.filter(existing => existing.itemId !== entry.itemId), entry])
+    setItems(prev => (prev.some(existing => existing.itemId === item.itemId) ? prev : [...prev, item]))
+  }
+
+  const handleScan = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const value = code.trim()
+    if (!value || !currentAccountId) return
+    setCode('')
+
+    const parsed = parseScannedCode(value)
+    try {
+      let item: Item | null = null
+      if (parsed.kind === 'qr') {
+        item = await unifiedItemsService.getItemByQrKey(currentAccountId, parsed.qrKey)
+      } else if (parsed.kind === 'barcode') {
+        const matches = findItemsByBarcode(items, parsed.gtin)
+        // Identical products share a barcode; each scan counts the next unit not yet counted.
+        item = matches.find(match => !entriesByItemId.has(match.itemId)) ?? matches[0] ?? null
+      }
+      if (!item) {
+        showError(parsed.kind === 'unknown' ? `"${value}" is not an item label or product barcode.` : 'No item matches this code.')
+        return
+      }
+      await saveEntry(item, countingLocationId || null)
+      showSuccess(`Counted ${itemLabel(item)}`)
+    } catch (err) {
+      console.error('Failed to record count:', err)
+      showError(err instanceof Error ? err.message : 'Failed to record count.')
+    }
+  }
+
+  const handleToggle = async (item: Item, counted: boolean) => {
+    try {
+      if (counted) {
+        // Ticking an item off the list confirms it is where inventory says it is.
+        await saveEntry(item, item.warehouseLocationId ?? null)
+      } else {
+        const entry = entriesByItemId.get(item.itemId)
+        if (!entry) return
+        await inventoryCountService.removeEntry(entry.id)
+        setEntries(prev => prev.filter(existing => existing.id !== entry.id))
+      }
+    } catch (err) {
+      console.error('Failed to update count:', err)
+      showError(err instanceof Error ? err.message : 'Failed to update count.')
+    }
+  }
+
+  const handleClose = async () => {
+    if (!session) return
+    const { discrepancies } = reconciliation
+    if (!window.confirm(`Close this count and record ${discrepancies.length} adjustment${discrepancies.length === 1 ? '' : 's'}? Closed counts can't be edited.`)) {
+      return
+    }
+    setIsSaving(true)
+    try {
+      await inventoryCountService.closeSession(
+        session.id,
+        discrepancies.map(row => ({
+          itemId: row.item.itemId,
+          itemDescription: itemLabel(row.item),
+          discrepancy: row.discrepancy,
+          resolution: resolutions[row.item.itemId] ?? row.resolutions[0],
+          expectedLocationId: row.expectedLocationId,
+          countedLocationId: row.countedLocationId,
+        }))
+      )
+      showSuccess('Count closed')
+      await loadSession()
+    } catch (err) {
+      console.error('Failed to close count:', err)
+      showError(err instanceof Error ? err.message : 'Failed to close count.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!session || !window.confirm('Discard this count and everything counted so far?')) return
+    setIsSaving(true)
+    try {
+      await inventoryCountService.deleteSession(session.id)
+      stackedNavigate(inventoryCounts(), { replace: true })
+    } catch (err) {
+      console.error('Failed to discard count:', err)
+      showError(err instanceof Error ? err.message : 'Failed to discard count.')
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading count...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !session) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Error</h3>
+        <p className="mt-1 text-sm text-gray-500">{error || 'Count not found.'}</p>
+        <div className="mt-6">
+          <Button onClick={() => void loadSession()}>Retry</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const isOpen = session.status === 'open'
+  const discrepancyCounts = reconciliation.discrepancies.reduce<Record<string, number>>((counts, row) => {
+    counts[row.discrepancy] = (counts[row.discrepancy] ?? 0) + 1
+    return counts
+  }, {})
+  const summary = [
+    { label: 'Expected', value: reconciliation.expected.length },
+    { label: 'Counted', value: entries.length },
+    { label: 'Matched', value: reconciliation.matched.length },
+    { label: COUNT_DISCREPANCY_LABELS.missing, value: discrepancyCounts.missing ?? 0 },
+    { label: COUNT_DISCREPANCY_LABELS.unexpected, value: discrepancyCounts.unexpected ?? 0 },
+    { label: COUNT_DISCREPANCY_LABELS.mislocated, value: discrepancyCounts.mislocated ?? 0 },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <ContextBackLink fallback={inventoryCounts()} className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </ContextBackLink>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{session.name}</h1>
+            <p className="text-sm text-gray-500">
+              {session.locationPath || 'Whole account'} · Started {formatDateTime(session.startedAt)}
+              {session.closedAt && ` · Closed ${formatDateTime(session.closedAt)}`}
+            </p>
+          </div>
+          {isOpen && (
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={() => void handleDiscard()} disabled={isSaving}>
+                Discard
+              </Button>
+              <Button onClick={() => void handleClose()} disabled={isSaving}>
+                {isSaving ? 'Closing...' : 'Close Count'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {isOpen && (
+        <>
+          <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+            {summary.map(stat => (
+              <div key={stat.label} className="bg-white shadow rounded-lg p-3 text-center">
+                <p className="text-xl font-semibold text-gray-900">{stat.value}</p>
+                <p className="text-xs text-gray-500">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleScan} className="bg-white shadow rounded-lg p-4 space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="block text-sm font-medium text-gray-700">
+                Counting at
+                <select value={countingLocationId} onChange={e => setCountingLocationId(e.target.value)} className={`mt-1 ${inputClassName}`}>
+                  <option value="">Not specified</option>
+                  {countingLocationRows.map(row => (
+                    <option key={row.location.id} value={row.location.id}>
+                      {'\u00A0\u00A0'.repeat(row.depth)}{row.location.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Scan or type a code
+                <div className="mt-1 flex gap-2">
+                  <input
+                    type="text"
+                    value={code}
+                    onChange={e => setCode(e.target.value)}
+                    placeholder="QR label or UPC"
+                    className={inputClassName}
+                    autoFocus
+                  />
+                  <Button type="submit" disabled={!code.trim()}>
+                    <ScanLine className="h-4 w-4" />
+                  </Button>
+                </div>
+              </label>
+            </div>
+            <p className="text-xs text-gray-500">
+              Scanned items are recorded at the "Counting at" location. Handheld scanners that type and press Enter work here.
+            </p>
+          </form>
+
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <h2 className="px-4 py-3 text-lg font-medium text-gray-900 border-b border-gray-200">Expected Items</h2>
+            {reconciliation.expected.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">Business inventory has no items in this scope.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {reconciliation.expected.map(item => {
+                  const entry = entriesByItemId.get(item.itemId)
+                  return (
+                    <li key={item.itemId} className="flex items-center gap-3 px-4 py-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(entry)}
+                        onChange={e => void handleToggle(item, e.target.checked)}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500 h-4 w-4"
+                      />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-gray-900 truncate">{itemLabel(item)}</p>
+                        <p className="text-xs text-gray-500 truncate">{pathFor(item.warehouseLocationId)}</p>
+                      </div>
+                      {entry?.countedLocationId && entry.countedLocationId !== item.warehouseLocationId && (
+                        <span className="text-xs text-amber-700">Found at {pathFor(entry.countedLocationId)}</span>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <h2 className="px-4 py-3 text-lg font-medium text-gray-900 border-b border-gray-200">
+          {isOpen ? 'Discrepancies' : 'Adjustments'}
+        </h2>
+        {isOpen ? (
+          reconciliation.discrepancies.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">Everything counted so far matches business inventory.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Item</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Issue</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Recorded Location</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Counted At</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">On Close</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {reconciliation.discrepancies.map(row => (
+                    <tr key={row.item.itemId}>
+                      <td className="px-4 py-2 text-gray-900">{itemLabel(row.item)}</td>
+                      <td className="px-4 py-2 text-gray-700">
+                        {COUNT_DISCREPANCY_LABELS[row.discrepancy]}
+                        {row.item.projectId && <span className="block text-xs text-gray-500">Allocated to a project</span>}
+                      </td>
+                      <td className="px-4 py-2 text-gray-700">{pathFor(row.expectedLocationId)}</td>
+                      <td className="px-4 py-2 text-gray-700">{row.discrepancy === 'missing' ? '—' : pathFor(row.countedLocationId)}</td>
+                      <td className="px-4 py-2">
+                        <select
+                          value={resolutions[row.item.itemId] ?? row.resolutions[0]}
+                          onChange={e => setResolutions(prev => ({ ...prev, [row.item.itemId]: e.target.value as InventoryCountResolution }))}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          disabled={row.resolutions.length === 1}
+                        >
+                          {row.resolutions.map(resolution => (
+                            <option key={resolution} value={resolution}>{COUNT_RESOLUTION_LABELS[resolution]}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        ) : adjustments.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">The count matched business inventory; no adjustments were needed.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Item</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Issue</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Recorded Location</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Counted At</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Adjustment</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {adjustments.map(adjustment => (
+                  <tr key={adjustment.id}>
+                    <td className="px-4 py-2 text-gray-900">{adjustment.itemDescription || adjustment.itemId}</td>
+                    <td className="px-4 py-2 text-gray-700">{COUNT_DISCREPANCY_LABELS[adjustment.discrepancy]}</td>
+                    <td className="px-4 py-2 text-gray-700">{adjustment.expectedLocationPath || '—'}</td>
+                    <td className="px-4 py-2 text-gray-700">{adjustment.countedLocationPath || '—'}</td>
+                    <td className="px-4 py-2 text-gray-700">{COUNT_RESOLUTION_LABELS[adjustment.resolution]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
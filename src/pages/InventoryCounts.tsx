@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { ArrowLeft, ClipboardCheck } from 'lucide-react'
+import ContextBackLink from '@/components/ContextBackLink'
+import ContextLink from '@/components/ContextLink'
+import { Button } from '@/components/ui/Button'
+import { useAccount } from '@/contexts/AccountContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { useStackedNavigate } from '@/hooks/useStackedNavigate'
+import { inventoryCountService } from '@/services/inventoryCountService'
+import { warehouseLocationService } from '@/services/warehouseLocationService'
+import type { InventoryCountSession, WarehouseLocation } from '@/types'
+import { formatDate } from '@/utils/dateUtils'
+import { inventoryCountSession } from '@/utils/routes'
+import { buildLocationTree, formatLocationPath, getLocationPath } from '@/utils/warehouseLocations'
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+export default function InventoryCounts() {
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const { user } = useAuth()
+  const stackedNavigate = useStackedNavigate()
+  const [sessions, setSessions] = useState<InventoryCountSession[]>([])
+  const [locations, setLocations] = useState<WarehouseLocation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [locationId, setLocationId] = useState('')
+  const [isStarting, setIsStarting] = useState(false)
+  const [startError, setStartError] = useState<string | null>(null)
+
+  const loadSessions = useCallback(async () => {
+    if (!currentAccountId) {
+      setIsLoading(false)
+      return
+    }
+    setIsLoading(true)
+    try {
+      const [sessionData, locationData] = await Promise.all([
+        inventoryCountService.listSessions(currentAccountId),
+        warehouseLocationService.listLocations(currentAccountId),
+      ])
+      setSessions(sessionData)
+      setLocations(locationData)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load inventory counts:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load inventory counts.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId])
+
+  useEffect(() => {
+    if (accountLoading) return
+    void loadSessions()
+  }, [accountLoading, loadSessions])
+
+  const locationRows = useMemo(() => buildLocationTree(locations, []), [locations])
+
+  const handleStart = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!currentAccountId) return
+    setIsStarting(true)
+    setStartError(null)
+    try {
+      const scope = locationId || null
+      const session = await inventoryCountService.createSession(currentAccountId, {
+        name,
+        locationId: scope,
+        locationPath: scope ? formatLocationPath(getLocationPath(locations, scope)) : null,
+        startedBy: user?.id,
+      })
+      stackedNavigate(inventoryCountSession(session.id))
+    } catch (err) {
+      setStartError(err instanceof Error ? err.message : 'Failed to start count.')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading inventory counts...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Error</h3>
+        <p className="mt-1 text-sm text-gray-500">{error}</p>
+        <div className="mt-6">
+          <Button onClick={() => void loadSessions()}>Retry</Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <ContextBackLink fallback="/business-inventory" className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </ContextBackLink>
+        <h1 className="text-2xl font-bold text-gray-900">Inventory Counts</h1>
+        <p className="text-sm text-gray-500">
+          Count what is physically on the shelves and reconcile it with business inventory.
+        </p>
+      </div>
+
+      <form onSubmit={handleStart} className="bg-white shadow rounded-lg p-4 space-y-4">
+        <h2 className="text-lg font-medium text-gray-900">Start a Count</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Name
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="e.g., Q1 cycle count – Zone B"
+              className={inputClassName}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Scope
+            <select value={locationId} onChange={e => setLocationId(e.target.value)} className={inputClassName}>
+              <option value="">Whole account</option>
+              {locationRows.map(row => (
+                <option key={row.location.id} value={row.location.id}>
+                  {'\u00A0\u00A0'.repeat(row.depth)}{row.location.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {startError && <p className="text-sm text-red-600">{startError}</p>}
+        <Button type="submit" disabled={isStarting || !name.trim()}>
+          <ClipboardCheck className="h-4 w-4 mr-2" />
+          {isStarting ? 'Starting...' : 'Start Count'}
+        </Button>
+      </form>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {sessions.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">No counts yet.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Count</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Scope</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Started</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {sessions.map(session => (
+                <tr key={session.id}>
+                  <td className="px-4 py-2">
+                    <ContextLink to={inventoryCountSession(session.id)} className="text-primary-600 hover:text-primary-700 font-medium">
+                      {session.name}
+                    </ContextLink>
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">{session.locationPath || 'Whole account'}</td>
+                  <td className="px-4 py-2 text-gray-700">{formatDate(session.startedAt)}</td>
+                  <td className="px-4 py-2">
+                    {session.status === 'open' ? (
+                      <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">In progress</span>
+                    ) : (
+                      <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        Closed {session.closedAt ? formatDate(session.closedAt) : ''}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
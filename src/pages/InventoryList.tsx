@@ -1,9 +1,10 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react'
-import { Plus, Search, RotateCcw, Camera, Trash2, QrCode, Filter, ArrowUpDown, Receipt } from 'lucide-react'
+import { Plus, Search, RotateCcw, Camera, Trash2, QrCode, Filter, ArrowUpDown, Receipt, ScanLine } from 'lucide-react'
 import ContextLink from '@/components/ContextLink'
 import { unifiedItemsService, integrationService, transactionService } from '@/services/inventoryService'
 import { supabase } from '@/services/supabase'
 import { lineageService } from '@/services/lineageService'
+import { itemApprovalService } from '@/services/itemApprovalService'
 import { ImageUploadService } from '@/services/imageService'
 import { Item, ItemImage } from '@/types'
 import { normalizeDisposition } from '@/utils/dispositionUtils'
@@ -13,7 +14,7 @@ import { useBookmark } from '@/hooks/useBookmark'
 import { useDuplication } from '@/hooks/useDuplication'
 import { useNavigationContext } from '@/hooks/useNavigationContext'
 import { useAccount } from '@/contexts/AccountContext'
-import { projectItemNew } from '@/utils/routes'
+import { projectItemNew, qrLabelSheet } from '@/utils/routes'
 import { getInventoryListGroupKey } from '@/utils/itemGrouping'
 import CollapsedDuplicateGroup from '@/components/ui/CollapsedDuplicateGroup'
 import InventoryItemRow from '@/components/items/InventoryItemRow'
@@ -22,6 +23,8 @@ import { useTransactionDisplayInfo } from '@/hooks/useTransactionDisplayInfo'
 import { useProjectRealtime } from '@/contexts/ProjectRealtimeContext'
 import { useStackedNavigate } from '@/hooks/useStackedNavigate'
 import { ConflictResolutionView } from '@/components/ConflictResolutionView'
+import ItemApprovalRequestDialog from '@/components/ItemApprovalRequestDialog'
+import ItemScanner from '@/components/ItemScanner'
 
 interface InventoryListProps {
   projectId: string
@@ -43,7 +46,10 @@ export default function InventoryList({ projectId, projectName, items: propItems
   const isLoading = accountLoading
   const [uploadingImages, setUploadingImages] = useState<Set<string>>(new Set())
   const [openDispositionMenu, setOpenDispositionMenu] = useState<string | null>(null)
-  const [filterMode, setFilterMode] = useState<'all' | 'bookmarked' | 'to-inventory' | 'from-inventory' | 'to-return' | 'returned'>('all')
+  const [filterMode, setFilterMode] = useState<'all' | 'bookmarked' | 'to-inventory' | 'from-inventory' | 'to-return' | 'returned' | 'pending-approval'>('all')
+  const [pendingApprovalItemIds, setPendingApprovalItemIds] = useState<Set<string>>(new Set())
+  const [showApprovalDialog, setShowApprovalDialog] = useState(false)
+  const [showScanner, setShowScanner] = useState(false)
   const [showFilterMenu, setShowFilterMenu] = useState(false)
   const [sortMode, setSortMode] = useState<'alphabetical' | 'creationDate'>('alphabetical')
   const [showSortMenu, setShowSortMenu] = useState(false)
@@ -110,6 +116,20 @@ export default function InventoryList({ projectId, projectName, items: propItems
     setItems(propItems || [])
   }, [propItems])
 
+  const loadPendingApprovals = useCallback(async () => {
+    if (!currentAccountId) return
+    try {
+      setPendingApprovalItemIds(await itemApprovalService.getPendingItemIds(currentAccountId, projectId))
+    } catch (err) {
+      console.debug('InventoryList - failed to load pending approvals', err)
+    }
+  }, [currentAccountId, projectId])
+
+  // Client decisions arrive as item updates, so refresh the pending set whenever the items change
+  useEffect(() => {
+    loadPendingApprovals()
+  }, [loadPendingApprovals, propItems])
+
   // Per-visible-item lineage subscriptions: when an item has a lineage edge, refetch that item and update/remove as needed
   useEffect(() => {
     if (!currentAccountId || items.length === 0) return
@@ -612,6 +632,9 @@ export default function InventoryList({ projectId, projectName, items: propItems
       case 'returned':
         matchesFilter = item.disposition === 'returned'
         break
+      case 'pending-approval':
+        matchesFilter = pendingApprovalItemIds.has(item.itemId)
+        break
       default:
         matchesFilter = true
     }
@@ -810,6 +833,17 @@ export default function InventoryList({ projectId, projectName, items: propItems
                   >
                     Returned
                   </button>
+                  <button
+                    onClick={() => {
+                      setFilterMode('pending-approval')
+                      setShowFilterMenu(false)
+                    }}
+                    className={`block w-full text-left px-3 py-2 text-sm hover:bg-gray-50 ${
+                      filterMode === 'pending-approval' ? 'bg-primary-50 text-primary-600' : 'text-gray-700'
+                    }`}
+                  >
+                    Pending Approval
+                  </button>
                 </div>
               </div>
             )}
@@ -820,12 +854,21 @@ export default function InventoryList({ projectId, projectName, items: propItems
             <button
               className="inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 transition-colors duration-200 flex-shrink-0"
               disabled={selectedItems.size === 0}
+              onClick={() => stackedNavigate(qrLabelSheet(Array.from(selectedItems)))}
               title="Generate QR Codes"
             >
               <QrCode className="h-4 w-4" />
             </button>
           )}
 
+          <button
+            className="inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200 flex-shrink-0"
+            onClick={() => setShowScanner(true)}
+            title="Scan item labels and barcodes"
+          >
+            <ScanLine className="h-4 w-4" />
+          </button>
+
           {/* Search Bar - wraps onto its own line on mobile */}
           <div className="relative flex-1 min-w-[200px] w-full sm:w-auto">
             <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -1077,8 +1120,31 @@ export default function InventoryList({ projectId, projectName, items: propItems
         onSetSku={handleBulkSetSku}
         onDelete={handleBulkDelete}
         onClearSelection={() => setSelectedItems(new Set())}
+        onRequestApproval={() => setShowApprovalDialog(true)}
+        onPrintLabels={ENABLE_QR ? () => stackedNavigate(qrLabelSheet(Array.from(selectedItems))) : undefined}
         itemListContainerWidth={itemListContainerWidth}
       />
+
+      {showApprovalDialog && (
+        <ItemApprovalRequestDialog
+          projectId={projectId}
+          items={items.filter(item => selectedItems.has(item.itemId))}
+          onClose={() => {
+            setShowApprovalDialog(false)
+            setSelectedItems(new Set())
+          }}
+          onCreated={loadPendingApprovals}
+        />
+      )}
+
+      {showScanner && (
+        <ItemScanner
+          projectId={projectId}
+          projectName={projectName}
+          items={items}
+          onClose={() => setShowScanner(false)}
+        />
+      )}
     </div>
   )
 }
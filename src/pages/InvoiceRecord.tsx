@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { useStackedNavigate } from '@/hooks/useStackedNavigate'
+import { useNavigationContext } from '@/hooks/useNavigationContext'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/ToastContext'
+import InvoiceDocument from '@/components/InvoiceDocument'
+import type { Invoice, InvoiceStatus, QuickBooksConnection } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { useBusinessProfile } from '@/contexts/BusinessProfileContext'
+import { canTransitionInvoiceStatus, invoiceService, INVOICE_STATUS_LABELS } from '@/services/invoiceService'
+import { getQuickBooksInvoiceUrl, quickbooksService } from '@/services/quickbooksService'
+import { formatInvoiceNumber } from '@/utils/invoiceSnapshot'
+import { formatDate } from '@/utils/dateUtils'
+import { downloadFile } from '@/utils/csvExport'
+import { renderPdfReport } from '@/utils/pdfReport'
+import { buildInvoicePdfDocument, toPdfFileName } from '@/utils/pdfReportDocuments'
+import { loadPdfReportBranding } from '@/utils/pdfImages'
+import { projectInvoice, projectPayments, projectsRoot } from '@/utils/routes'
+
+const STATUS_BADGE_CLASSES: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_paid: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  void: 'bg-red-100 text-red-700',
+}
+
+const getInvoiceDetails = (invoice: Invoice): string[] => [
+  `Invoice #: ${formatInvoiceNumber(invoice.invoiceNumber)}`,
+  `Date: ${formatDate(invoice.issueDate)}`,
+  ...(invoice.dueDate ? [`Due: ${formatDate(invoice.dueDate)}`] : []),
+  ...(Number.parseFloat(invoice.amountPaid) > 0 ? [`Paid: $${invoice.amountPaid} of $${invoice.totalDue}`] : []),
+]
+
+const getInvoicePdfFileName = (invoice: Invoice) =>
+  toPdfFileName('Invoice', formatInvoiceNumber(invoice.invoiceNumber), invoice.snapshot.projectName)
+
+export default function InvoiceRecord() {
+  const { projectId, invoiceId } = useParams<{ projectId?: string; invoiceId?: string }>()
+  const stackedNavigate = useStackedNavigate()
+  const { getBackDestination } = useNavigationContext()
+  const { currentAccountId } = useAccount()
+  const { businessName, businessLogoUrl } = useBusinessProfile()
+  const { showError, showSuccess } = useToast()
+  const [invoice, setInvoice] = useState<Invoice | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const [qboConnection, setQboConnection] = useState<QuickBooksConnection | null>(null)
+  const [isPushingToQbo, setIsPushingToQbo] = useState(false)
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false)
+
+  const loadInvoice = useCallback(async () => {
+    if (!currentAccountId || !invoiceId) return
+    setIsLoading(true)
+    try {
+      const result = await invoiceService.getInvoice(currentAccountId, invoiceId)
+      setInvoice(result)
+      setError(result ? null : 'Invoice not found.')
+    } catch (err) {
+      console.error('Failed to load invoice:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load invoice.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId, invoiceId])
+
+  useEffect(() => {
+    void loadInvoice()
+  }, [loadInvoice])
+
+  // Only account admins can read the connection; everyone else simply doesn't see the QuickBooks action.
+  useEffect(() => {
+    if (!currentAccountId) return
+    let cancelled = false
+    quickbooksService
+      .getConnection(currentAccountId)
+      .then(connection => {
+        if (!cancelled) setQboConnection(connection)
+      })
+      .catch(err => {
+        console.warn('QuickBooks connection unavailable:', err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [currentAccountId])
+
+  const defaultBackTarget = projectId ? projectInvoice(projectId) : projectsRoot()
+  const handleBack = () => {
+    stackedNavigate(getBackDestination(defaultBackTarget))
+  }
+
+  const renderInvoicePdf = async (target: Invoice): Promise<Uint8Array<ArrayBuffer>> => {
+    const branding = await loadPdfReportBranding({
+      businessName,
+      businessLogoUrl,
+      thumbnailUrls: [...target.snapshot.charges, ...target.snapshot.credits].flatMap(line => line.items.map(item => item.imageUrl)),
+      generatedAt: new Date(target.sentAt || target.createdAt),
+    })
+    return renderPdfReport(buildInvoicePdfDocument(target.snapshot, getInvoiceDetails(target), branding))
+  }
+
+  // Keeps a copy of exactly what the client was sent next to the invoice record. Returns false when
+  // the archive failed so callers can tell the user; the invoice itself is unaffected.
+  const archivePdf = async (target: Invoice, pdf?: Uint8Array<ArrayBuffer>): Promise<boolean> => {
+    if (!currentAccountId) return false
+    try {
+      const archived = await invoiceService.archiveInvoicePdf(currentAccountId, target, pdf ?? (await renderInvoicePdf(target)))
+      setInvoice(archived)
+      return true
+    } catch (err) {
+      console.error('Failed to archive invoice PDF:', err)
+      return false
+    }
+  }
+
+  const handleDownloadPdf = async () => {
+    if (!invoice) return
+    setIsGeneratingPdf(true)
+    try {
+      if (invoice.pdfPath) {
+        downloadFile(getInvoicePdfFileName(invoice), await invoiceService.downloadInvoicePdf(invoice.pdfPath), 'application/pdf')
+        return
+      }
+      const pdf = await renderInvoicePdf(invoice)
+      downloadFile(getInvoicePdfFileName(invoice), pdf, 'application/pdf')
+      // Anything that has been sent should have an archived copy; this also retries a failed archive.
+      const wasSent = Boolean(invoice.sentAt) || (invoice.status !== 'draft' && invoice.status !== 'void')
+      if (wasSent && !(await archivePdf(invoice, pdf))) {
+        showError('The PDF downloaded, but it could not be archived with the invoice. Try again later.')
+      }
+    } catch (err) {
+      console.error('Failed to create invoice PDF:', err)
+      showError(err instanceof Error ? err.message : 'Failed to create the invoice PDF.')
+    } finally {
+      setIsGeneratingPdf(false)
+    }
+  }
+
+  const handleCopyPdfLink = async () => {
+    if (!invoice?.pdfPath) return
+    try {
+      const url = await invoiceService.getInvoicePdfUrl(invoice.pdfPath)
+      await navigator.clipboard.writeText(url)
+      showSuccess('PDF link copied. It expires in 7 days.')
+    } catch (err) {
+      console.error('Failed to copy invoice PDF link:', err)
+      showError(err instanceof Error ? err.message : 'Failed to copy the PDF link.')
+    }
+  }
+
+  const handleStatusChange = async (status: InvoiceStatus) => {
+    if (!currentAccountId || !invoice) return
+    if (status === 'void' && !window.confirm('Void this invoice? Voided invoices keep their number but can no longer be paid.')) {
+      return
+    }
+    setIsUpdating(true)
+    try {
+      const updated = await invoiceService.updateInvoiceStatus(currentAccountId, invoice.id, status)
+      setInvoice(updated)
+      if (status === 'sent' && !updated.pdfPath && !(await archivePdf(updated))) {
+        showError('Invoice marked sent, but its PDF could not be archived. Use Download PDF to try again.')
+        return
+      }
+      showSuccess(`Invoice marked ${INVOICE_STATUS_LABELS[status].toLowerCase()}.`)
+    } catch (err) {
+      console.error('Failed to update invoice status:', err)
+      showError(err instanceof Error ? err.message : 'Failed to update invoice.')
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const handleCreateInQuickBooks = async () => {
+    if (!currentAccountId || !invoice) return
+    setIsPushingToQbo(true)
+    try {
+      const { alreadyLinked } = await quickbooksService.createInvoiceDraft(currentAccountId, invoice.id)
+      showSuccess(alreadyLinked ? 'Invoice is already in QuickBooks.' : 'Invoice draft created in QuickBooks.')
+      await loadInvoice()
+    } catch (err) {
+      console.error('Failed to create QuickBooks invoice:', err)
+      showError(err instanceof Error ? err.message : 'Failed to create the invoice in QuickBooks.')
+    } finally {
+      setIsPushingToQbo(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading invoice...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !invoice) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Error</h3>
+        <p className="mt-1 text-sm text-gray-500">{error || 'Invoice not found.'}</p>
+        <div className="mt-6">
+          <Button onClick={handleBack}>Back</Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white shadow rounded-lg p-8 print:shadow-none print:p-0">
+      {/* Action bar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6 print:hidden">
+        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[invoice.status]}`}>
+          {INVOICE_STATUS_LABELS[invoice.status]}
+        </span>
+        <div className="flex flex-wrap justify-end gap-3">
+          <Button variant="secondary" onClick={handleBack}>Back</Button>
+          <Button variant="secondary" onClick={() => window.print()}>Print</Button>
+          <Button variant="secondary" onClick={() => void handleDownloadPdf()} disabled={isGeneratingPdf}>
+            {isGeneratingPdf ? 'Preparing PDF...' : 'Download PDF'}
+          </Button>
+          {invoice.pdfPath && (
+            <Button variant="secondary" onClick={() => void handleCopyPdfLink()}>Copy PDF Link</Button>
+          )}
+          {canTransitionInvoiceStatus(invoice.status, 'sent') && (
+            <Button onClick={() => void handleStatusChange('sent')} disabled={isUpdating}>Mark Sent</Button>
+          )}
+          {projectId && canTransitionInvoiceStatus(invoice.status, 'paid') && (
+            <Button onClick={() => stackedNavigate(`${projectPayments(projectId)}?invoiceId=${invoice.id}`)}>
+              Record Payment
+            </Button>
+          )}
+          {qboConnection && invoice.qboInvoiceId && (
+            <a
+              href={getQuickBooksInvoiceUrl(qboConnection.environment, invoice.qboInvoiceId)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+            >
+              View in QuickBooks
+            </a>
+          )}
+          {qboConnection && !invoice.qboInvoiceId && invoice.status !== 'void' && (
+            <Button variant="secondary" onClick={() => void handleCreateInQuickBooks()} disabled={isPushingToQbo}>
+              {isPushingToQbo ? 'Creating...' : 'Create in QuickBooks'}
+            </Button>
+          )}
+          {canTransitionInvoiceStatus(invoice.status, 'void') && (
+            <Button variant="danger" onClick={() => void handleStatusChange('void')} disabled={isUpdating}>Void</Button>
+          )}
+        </div>
+      </div>
+
+      {invoice.status === 'void' && (
+        <div className="mb-6 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          This invoice was voided{invoice.voidedAt ? ` on ${formatDate(invoice.voidedAt)}` : ''}.
+        </div>
+      )}
+
+      <InvoiceDocument
+        snapshot={invoice.snapshot}
+        businessName={businessName}
+        businessLogoUrl={businessLogoUrl}
+        details={getInvoiceDetails(invoice)}
+      />
+    </div>
+  )
+}
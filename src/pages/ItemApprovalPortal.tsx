@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { Check, X } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import type { ItemApprovalDecision, ItemApprovalPortal as ItemApprovalPortalData, ItemApprovalPortalItem } from '@/types'
+import { COMPANY_PROJECT_PORTAL_LOGO_ALT } from '@/constants/company'
+import { itemApprovalService } from '@/services/itemApprovalService'
+import { formatDate } from '@/utils/dateUtils'
+import { getItemThumbnailUrl } from '@/utils/pdfReportDocuments'
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+
+const DECISION_BADGES: Record<Exclude<ItemApprovalDecision, 'pending'>, { label: string; className: string }> = {
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Declined', className: 'bg-red-100 text-red-700' },
+}
+
+/**
+ * Client-facing page for approving or declining proposed items, opened from an approval link
+ * without signing in.
+ */
+export default function ItemApprovalPortal() {
+  const { token } = useParams<{ token: string }>()
+  const [portal, setPortal] = useState<ItemApprovalPortalData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [comments, setComments] = useState<Record<string, string>>({})
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({})
+  const [savingItemId, setSavingItemId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!token) {
+      setError('This link is not valid.')
+      setIsLoading(false)
+      return
+    }
+    let cancelled = false
+    itemApprovalService
+      .getApprovalPortal(token)
+      .then(result => {
+        if (cancelled) return
+        setPortal(result)
+        setError(result ? null : 'This link has expired or is no longer available. Please ask for a new one.')
+      })
+      .catch(err => {
+        console.error('Failed to load approval request:', err)
+        if (!cancelled) setError('Failed to load this request. Please try again later.')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  const handleDecision = async (item: ItemApprovalPortalItem, decision: Exclude<ItemApprovalDecision, 'pending'>) => {
+    if (!token) return
+    setSavingItemId(item.itemId)
+    setItemErrors(current => ({ ...current, [item.itemId]: '' }))
+    try {
+      const result = await itemApprovalService.respondToItem(token, item.itemId, decision, comments[item.itemId])
+      setPortal(current => current && {
+        ...current,
+        items: current.items.map(existing => (existing.itemId === item.itemId ? { ...existing, ...result } : existing)),
+      })
+    } catch (err) {
+      console.error('Failed to record decision:', err)
+      setItemErrors(current => ({
+        ...current,
+        [item.itemId]: err instanceof Error ? err.message : 'Failed to record your decision. Please try again.',
+      }))
+    } finally {
+      setSavingItemId(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading items...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !portal) {
+    return (
+      <div className="text-center py-12 px-4">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Link unavailable</h3>
+        <p className="mt-1 text-sm text-gray-500">{error || 'This link is not valid.'}</p>
+      </div>
+    )
+  }
+
+  const reviewedCount = portal.items.filter(item => item.decision !== 'pending').length
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-6 px-4">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div className="flex items-center gap-3">
+          {portal.businessLogoUrl && (
+            <img src={portal.businessLogoUrl} alt={COMPANY_PROJECT_PORTAL_LOGO_ALT} className="h-10 w-auto object-contain" />
+          )}
+          <div>
+            <div className="text-sm font-medium text-gray-900">{portal.businessName}</div>
+            <div className="text-xs text-gray-500">{portal.projectName}</div>
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h1 className="text-xl font-bold text-gray-900">Items for Your Approval</h1>
+          {portal.clientName && <p className="mt-1 text-sm text-gray-600">Prepared for {portal.clientName}</p>}
+          {portal.message && <p className="mt-3 text-sm text-gray-700 whitespace-pre-line">{portal.message}</p>}
+          <p className="mt-3 text-sm text-gray-500">
+            {reviewedCount} of {portal.items.length} item{portal.items.length !== 1 ? 's' : ''} reviewed
+          </p>
+        </div>
+
+        {portal.items.length === 0 && (
+          <div className="text-center py-12">
+            <div className="mx-auto h-12 w-12 text-gray-400">📦</div>
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No items to review</h3>
+            <p className="mt-1 text-sm text-gray-500">These items are no longer part of the project.</p>
+          </div>
+        )}
+
+        {portal.items.map(item => {
+          const imageUrl = getItemThumbnailUrl(item)
+          const isSaving = savingItemId === item.itemId
+          const badge = item.decision !== 'pending' ? DECISION_BADGES[item.decision] : null
+
+          return (
+            <div key={item.itemId} className="bg-white shadow rounded-lg p-4 flex flex-col sm:flex-row gap-4">
+              <div className="flex-shrink-0">
+                {imageUrl ? (
+                  <img src={imageUrl} alt={item.description || 'Item'} className="h-32 w-32 rounded-md object-cover border border-gray-200" />
+                ) : (
+                  <div className="h-32 w-32 rounded-md border border-dashed border-gray-300 flex items-center justify-center text-gray-400 text-xs">
+                    No photo
+                  </div>
+                )}
+              </div>
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{item.description || 'Item'}</div>
+                    {item.source && <div className="text-xs text-gray-500">Source: {item.source}</div>}
+                    {item.space && <div className="text-xs text-gray-500">Space: {item.space}</div>}
+                  </div>
+                  {item.projectPrice && (
+                    <div className="text-sm font-medium text-gray-700">{usd.format(Number.parseFloat(item.projectPrice) || 0)}</div>
+                  )}
+                </div>
+
+                {badge ? (
+                  <div className="space-y-1">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+                      {badge.label}{item.decidedAt ? ` ${formatDate(item.decidedAt)}` : ''}
+                    </span>
+                    {item.comment && <p className="text-sm text-gray-600 whitespace-pre-line">{item.comment}</p>}
+                  </div>
+                ) : (
+                  <>
+                    <textarea
+                      rows={2}
+                      value={comments[item.itemId] || ''}
+                      onChange={e => setComments(current => ({ ...current, [item.itemId]: e.target.value }))}
+                      placeholder="Add a comment (optional)"
+                      className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                      disabled={isSaving}
+                    />
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => void handleDecision(item, 'approved')} disabled={isSaving}>
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button variant="secondary" size="sm" onClick={() => void handleDecision(item, 'rejected')} disabled={isSaving}>
+                        <X className="h-4 w-4 mr-1" />
+                        Decline
+                      </Button>
+                    </div>
+                  </>
+                )}
+
+                {itemErrors[item.itemId] && <p className="text-sm text-red-600">{itemErrors[item.itemId]}</p>}
+              </div>
+            </div>
+          )
+        })}
+
+        <p className="text-center text-xs text-gray-400">
+          Sent by {portal.businessName || 'your designer'} · This link expires {formatDate(portal.expiresAt)}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -17,12 +17,13 @@ import { useDuplication } from '@/hooks/useDuplication'
 import { useNavigationContext } from '@/hooks/useNavigationContext'
 import { useAccount } from '@/contexts/AccountContext'
 import { useStackedNavigate } from '@/hooks/useStackedNavigate'
-import { projectItemEdit, projectItems, projectTransactionDetail } from '@/utils/routes'
+import { projectItemEdit, projectItems, projectTransactionDetail, qrLabelSheet } from '@/utils/routes'
 import { Combobox } from '@/components/ui/Combobox'
 import { supabase } from '@/services/supabase'
 import { useProjectRealtime } from '@/contexts/ProjectRealtimeContext'
 import { getGlobalQueryClient } from '@/utils/queryClient'
 import { hydrateItemCache, hydrateProjectCache } from '@/utils/hydrationHelpers'
+import { formatDimensions, formatItemCondition, formatWeight } from '@/utils/itemPhysicalDetails'
 
 export default function ItemDetail({ itemId: propItemId, projectId: propProjectId, onClose }: { itemId?: string; projectId?: string; onClose?: () => void } = {}) {
   const { id, projectId: routeProjectId, itemId } = useParams<{ id?: string; projectId?: string; itemId?: string }>()
@@ -873,6 +874,27 @@ export default function ItemDetail({ itemId: propItemId, projectId: propProjectI
               </div>
             )}
 
+            {item.dimensions && (
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Dimensions</dt>
+                <dd className="mt-1 text-sm text-gray-900">{formatDimensions(item.dimensions)}</dd>
+              </div>
+            )}
+
+            {item.weight && (
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Weight</dt>
+                <dd className="mt-1 text-sm text-gray-900">{formatWeight(item.weight)}</dd>
+              </div>
+            )}
+
+            {item.condition && (
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Condition</dt>
+                <dd className="mt-1 text-sm text-gray-900">{formatItemCondition(item.condition)}</dd>
+              </div>
+            )}
+
             {item.purchasePrice && (
               <div>
                 <dt className="text-sm font-medium text-gray-500">Purchase Price</dt>
@@ -1106,8 +1128,8 @@ export default function ItemDetail({ itemId: propItemId, projectId: propProjectI
               {ENABLE_QR && (
                 <button
                   className="inline-flex items-center justify-center p-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
-                  onClick={() => window.open(`/qr-image/${item.qrKey}`, '_blank')}
-                  title="View QR Code"
+                  onClick={() => window.open(qrLabelSheet([item.itemId]), '_blank')}
+                  title="Print QR Label"
                 >
                   <QrCode className="h-4 w-4" />
                 </button>
@@ -1223,8 +1245,8 @@ export default function ItemDetail({ itemId: propItemId, projectId: propProjectI
                 {ENABLE_QR && (
                   <button
                     className="inline-flex items-center justify-center p-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
-                    onClick={() => window.open(`/qr-image/${item.qrKey}`, '_blank')}
-                    title="View QR Code"
+                    onClick={() => window.open(qrLabelSheet([item.itemId]), '_blank')}
+                    title="Print QR Label"
                   >
                     <QrCode className="h-4 w-4" />
                   </button>
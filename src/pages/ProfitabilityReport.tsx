@@ -0,0 +1,196 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
+import { Download, Printer } from 'lucide-react'
+import { useStackedNavigate } from '@/hooks/useStackedNavigate'
+import { Button } from '@/components/ui/Button'
+import ReportsNav from '@/components/reports/ReportsNav'
+import type { ProfitabilitySource } from '@/utils/profitabilityReport'
+import { useAccount } from '@/contexts/AccountContext'
+import { projectService, transactionService, unifiedItemsService } from '@/services/inventoryService'
+import { budgetCategoriesService } from '@/services/budgetCategoriesService'
+import { downloadTextFile, toCsv } from '@/utils/csvExport'
+import { formatDate, getTodayDateString } from '@/utils/dateUtils'
+import { buildProfitabilityReport, profitabilityReportToCsvRows } from '@/utils/profitabilityReport'
+import { projectBudget } from '@/utils/routes'
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+const formatMoney = (value: string) => usd.format(Number.parseFloat(value) || 0)
+const formatMarkup = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`)
+
+export default function ProfitabilityReport() {
+  const stackedNavigate = useStackedNavigate()
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const [source, setSource] = useState<ProfitabilitySource | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const asOf = useMemo(() => getTodayDateString(), [])
+
+  const loadSource = useCallback(async () => {
+    if (!currentAccountId) {
+      setIsLoading(false)
+      return
+    }
+    setIsLoading(true)
+    try {
+      const projects = await projectService.getProjects(currentAccountId)
+      const projectIds = projects.map(project => project.id)
+      const [transactions, itemsByProject, businessInventoryItems, categories] = await Promise.all([
+        transactionService.getTransactionsForProjects(currentAccountId, projectIds, projects),
+        Promise.all(projectIds.map(id => unifiedItemsService.getItemsByProject(currentAccountId, id))),
+        unifiedItemsService.getBusinessInventoryItems(currentAccountId),
+        budgetCategoriesService.getCategories(currentAccountId, true),
+      ])
+      setSource({ projects, transactions, items: [...itemsByProject.flat(), ...businessInventoryItems], categories })
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load profitability:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load profitability.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId])
+
+  useEffect(() => {
+    if (accountLoading) return
+    void loadSource()
+  }, [accountLoading, loadSource])
+
+  const report = useMemo(() => (source ? buildProfitabilityReport(source) : null), [source])
+
+  const handleExport = () => {
+    if (!report) return
+    downloadTextFile(`profitability-${asOf}.csv`, toCsv(profitabilityReportToCsvRows(report)))
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading profitability...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !report) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Error</h3>
+        <p className="mt-1 text-sm text-gray-500">{error || 'No account selected.'}</p>
+        <div className="mt-6">
+          <Button onClick={() => void loadSource()}>Retry</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const { totals } = report
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <ReportsNav />
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Project Profitability</h1>
+          <p className="text-sm text-gray-500">
+            As of {formatDate(asOf)}. Items are costed at purchase price and billed at project price, both before tax.
+          </p>
+        </div>
+        <div className="flex gap-2 print:hidden">
+          <Button variant="secondary" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button variant="secondary" onClick={handleExport} disabled={report.projects.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto print:shadow-none">
+        {report.projects.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No projects yet.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Client / Project</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Cost</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Billed</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Markup</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Tax Paid</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Tax Billed</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Item Margin</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Design Fee</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Inventory Sales Margin</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Total Margin</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.projects.map(row => (
+                <Fragment key={row.projectId}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="px-4 py-2">
+                      <div className="font-medium text-gray-900">{row.clientName || 'No client'}</div>
+                      <button
+                        type="button"
+                        onClick={() => stackedNavigate(projectBudget(row.projectId))}
+                        className="text-primary-600 hover:text-primary-700"
+                      >
+                        {row.projectName}
+                      </button>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatMoney(row.cost)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatMoney(row.billed)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatMarkup(row.markupPercent)}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{formatMoney(row.taxPaid)}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{formatMoney(row.taxBilled)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatMoney(row.itemMargin)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatMoney(row.designFee)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900" title={`${formatMoney(row.inventorySales.amount)} sold, ${formatMoney(row.inventorySales.cost)} cost`}>
+                      {formatMoney(row.inventorySales.margin)}
+                    </td>
+                    <td className="px-4 py-2 text-right font-semibold text-gray-900">{formatMoney(row.totalMargin)}</td>
+                  </tr>
+                  {row.categories.map(category => (
+                    <tr key={`${row.projectId}-${category.categoryId}`} className="bg-gray-50">
+                      <td className="pl-8 pr-4 py-1.5 text-gray-600">
+                        {category.categoryName}
+                        <span className="ml-2 text-xs text-gray-500">{category.itemCount} items</span>
+                      </td>
+                      <td className="px-4 py-1.5 text-right text-gray-600">{formatMoney(category.cost)}</td>
+                      <td className="px-4 py-1.5 text-right text-gray-600">{formatMoney(category.billed)}</td>
+                      <td className="px-4 py-1.5 text-right text-gray-600">{formatMarkup(category.markupPercent)}</td>
+                      <td className="px-4 py-1.5 text-right text-gray-600">{formatMoney(category.taxPaid)}</td>
+                      <td className="px-4 py-1.5 text-right text-gray-600">{formatMoney(category.taxBilled)}</td>
+                      <td className="px-4 py-1.5 text-right text-gray-600">{formatMoney(category.itemMargin)}</td>
+                      <td className="px-4 py-1.5" />
+                      <td className="px-4 py-1.5" />
+                      <td className="px-4 py-1.5" />
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50 font-semibold">
+              <tr>
+                <td className="px-4 py-2 text-gray-900">Total</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.cost)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.billed)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMarkup(totals.markupPercent)}</td>
+                <td className="px-4 py-2 text-right text-gray-600">{formatMoney(totals.taxPaid)}</td>
+                <td className="px-4 py-2 text-right text-gray-600">{formatMoney(totals.taxBilled)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.itemMargin)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.designFee)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.inventorySales.margin)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.totalMargin)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
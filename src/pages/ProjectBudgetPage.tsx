@@ -1,17 +1,16 @@
+import BudgetAlertRulesManager from '@/components/BudgetAlertRulesManager'
+import BudgetChangeOrdersManager from '@/components/BudgetChangeOrdersManager'
 import { useProjectLayoutContext } from './ProjectLayout'
 
 export default function ProjectBudgetPage() {
-  const { project } = useProjectLayoutContext()
+  const { project, refreshProject } = useProjectLayoutContext()
 
   return (
-    <div className="space-y-4 text-sm text-gray-600">
-      <p>
-        The budget and accounting tabs above remain visible for project <strong>{project.name}</strong>,
-        so you can toggle between budget health and accounting insights without leaving this section.
-      </p>
-      <p>
-        Use the Budget tab to monitor allocation progress, or switch to Accounting to access quick reports.
-      </p>
+    <div className="space-y-8">
+      <BudgetChangeOrdersManager project={project} onBudgetChanged={refreshProject} />
+      <div className="border-t border-gray-200 pt-6">
+        <BudgetAlertRulesManager projectId={project.id} />
+      </div>
     </div>
   )
 }
@@ -1,48 +1,28 @@
-import { useEffect, useMemo } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useParams } from 'react-router-dom'
 import { useStackedNavigate } from '@/hooks/useStackedNavigate'
 import { useNavigationContext } from '@/hooks/useNavigationContext'
 import { Button } from '@/components/ui/Button'
-import type { Item, Transaction } from '@/types'
-import { formatDate } from '@/utils/dateUtils'
+import { useToast } from '@/components/ui/ToastContext'
+import InvoiceDocument from '@/components/InvoiceDocument'
+import type { Invoice } from '@/types'
 import { useProjectRealtime } from '@/contexts/ProjectRealtimeContext'
 import { useBusinessProfile } from '@/contexts/BusinessProfileContext'
-import {
-  COMPANY_INVENTORY_SALE,
-  COMPANY_INVENTORY_PURCHASE,
-  CLIENT_OWES_COMPANY,
-  COMPANY_OWES_CLIENT,
-} from '@/constants/company'
-import { projectTransactions, projectsRoot } from '@/utils/routes'
-
-type InvoiceItemLine = {
-  item: Item
-  amount: number
-  missingPrice: boolean
-}
-
-type InvoiceTransactionLine = {
-  transaction: Transaction
-  items: InvoiceItemLine[]
-  hasItems: boolean
-  lineTotal: number
-}
+import { useAccount } from '@/contexts/AccountContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { invoiceService, INVOICE_STATUS_LABELS } from '@/services/invoiceService'
+import { buildInvoiceSnapshot, formatInvoiceNumber } from '@/utils/invoiceSnapshot'
+import { downloadFile } from '@/utils/csvExport'
+import { renderPdfReport } from '@/utils/pdfReport'
+import { buildInvoicePdfDocument, getItemThumbnailUrl, toPdfFileName } from '@/utils/pdfReportDocuments'
+import { loadPdfReportBranding } from '@/utils/pdfImages'
+import { projectInvoiceRecord, projectTransactions, projectsRoot } from '@/utils/routes'
 
 const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
 
-const getCanonicalTransactionTitle = (transaction: Transaction): string => {
-  if (transaction.transactionId?.startsWith('INV_SALE_')) return COMPANY_INVENTORY_SALE
-  if (transaction.transactionId?.startsWith('INV_PURCHASE_')) return COMPANY_INVENTORY_PURCHASE
-  return transaction.source
-}
-
-function toNumber(value: string | number | null | undefined): number {
-  if (typeof value === 'number') return isNaN(value) ? 0 : value
-  if (typeof value === 'string') {
-    const n = parseFloat(value || '0')
-    return isNaN(n) ? 0 : n
-  }
-  return 0
+function getTodayIsoDate(): string {
+  const today = new Date()
+  return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`
 }
 
 export default function ProjectInvoice() {
@@ -51,7 +31,13 @@ export default function ProjectInvoice() {
   const stackedNavigate = useStackedNavigate()
   const { businessName, businessLogoUrl } = useBusinessProfile()
   const { getBackDestination } = useNavigationContext()
+  const { currentAccountId } = useAccount()
+  const { user } = useAuth()
+  const { showError, showSuccess } = useToast()
   const { project, transactions, items, isLoading, error } = useProjectRealtime(resolvedProjectId)
+  const [savedInvoices, setSavedInvoices] = useState<Invoice[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false)
 
   const today = useMemo(() => new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }), [])
 
@@ -61,55 +47,69 @@ export default function ProjectInvoice() {
     }
   }, [resolvedProjectId, stackedNavigate])
 
-  const invoiceableTransactions = useMemo(() => {
-    return transactions
-      .filter(t => t.status !== 'canceled')
-      .filter(t => t.reimbursementType === CLIENT_OWES_COMPANY || t.reimbursementType === COMPANY_OWES_CLIENT)
-  }, [transactions])
-
-  const invoiceLines = useMemo<InvoiceTransactionLine[]>(() => {
-    if (!resolvedProjectId) return []
-    return invoiceableTransactions.map(tx => {
-      const txItems: Item[] = items.filter(item => item.transactionId === tx.transactionId)
-      const itemLines: InvoiceItemLine[] = txItems.map(it => {
-        const projectPriceValue = it.projectPrice
-        const hasPrice = !!projectPriceValue && String(projectPriceValue).trim() !== ''
-        const amount = hasPrice ? toNumber(projectPriceValue || '0') : 0
-        return { item: it, amount, missingPrice: !hasPrice }
+  useEffect(() => {
+    if (!currentAccountId || !resolvedProjectId) return
+    let cancelled = false
+    invoiceService
+      .listInvoices(currentAccountId, resolvedProjectId)
+      .then(invoices => {
+        if (!cancelled) setSavedInvoices(invoices)
       })
+      .catch(err => {
+        console.error('Failed to load saved invoices:', err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [currentAccountId, resolvedProjectId])
 
-      const hasItems = itemLines.length > 0
-      const lineTotal = hasItems ? itemLines.reduce((sum, l) => sum + l.amount, 0) : toNumber(tx.amount)
-      return { transaction: tx, items: itemLines, hasItems, lineTotal }
-    })
-  }, [invoiceableTransactions, items, resolvedProjectId])
-
-  const clientOwesLines = useMemo(
-    () =>
-      invoiceLines
-        .filter(line => line.transaction.reimbursementType === CLIENT_OWES_COMPANY)
-        .sort((a, b) => (a.transaction.transactionDate || '').localeCompare(b.transaction.transactionDate || '')),
-    [invoiceLines]
-  )
-
-  const creditLines = useMemo(
-    () =>
-      invoiceLines
-        .filter(line => line.transaction.reimbursementType === COMPANY_OWES_CLIENT)
-        .sort((a, b) => (a.transaction.transactionDate || '').localeCompare(b.transaction.transactionDate || '')),
-    [invoiceLines]
+  const snapshot = useMemo(
+    () => buildInvoiceSnapshot(project, transactions, items),
+    [project, transactions, items]
   )
 
-  const clientOwesSubtotal = useMemo(() => clientOwesLines.reduce((sum, l) => sum + l.lineTotal, 0), [clientOwesLines])
-  const creditsSubtotal = useMemo(() => creditLines.reduce((sum, l) => sum + l.lineTotal, 0), [creditLines])
-  const netDue = useMemo(() => clientOwesSubtotal - creditsSubtotal, [clientOwesSubtotal, creditsSubtotal])
-
   const handlePrint = () => window.print()
   const defaultBackTarget = resolvedProjectId ? projectTransactions(resolvedProjectId) : projectsRoot()
   const handleBack = () => {
     stackedNavigate(getBackDestination(defaultBackTarget))
   }
 
+  const handleDownloadPdf = async () => {
+    setIsGeneratingPdf(true)
+    try {
+      const branding = await loadPdfReportBranding({
+        businessName,
+        businessLogoUrl,
+        thumbnailUrls: items.map(getItemThumbnailUrl),
+      })
+      const pdf = await renderPdfReport(buildInvoicePdfDocument(snapshot, [`Date: ${today}`], branding))
+      downloadFile(toPdfFileName('Invoice', snapshot.projectName, today), pdf, 'application/pdf')
+    } catch (err) {
+      console.error('Failed to create invoice PDF:', err)
+      showError(err instanceof Error ? err.message : 'Failed to create the invoice PDF.')
+    } finally {
+      setIsGeneratingPdf(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!currentAccountId || !resolvedProjectId) return
+    setIsSaving(true)
+    try {
+      const invoice = await invoiceService.createInvoice(currentAccountId, resolvedProjectId, snapshot, {
+        issueDate: getTodayIsoDate(),
+        createdBy: user?.id,
+      })
+      showSuccess(`Saved invoice ${formatInvoiceNumber(invoice.invoiceNumber)} as a draft.`)
+      stackedNavigate(projectInvoiceRecord(resolvedProjectId, invoice.id))
+    } catch (err) {
+      console.error('Failed to save invoice:', err)
+      showError(err instanceof Error ? err.message : 'Failed to save invoice.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
   if (!resolvedProjectId) {
     return null
   }
@@ -138,184 +138,52 @@ export default function ProjectInvoice() {
     )
   }
 
-  const hasAnyLines = clientOwesLines.length > 0 || creditLines.length > 0
+  const hasAnyLines = snapshot.charges.length > 0 || snapshot.credits.length > 0
 
   return (
-    <div className="max-w-4xl mx-auto bg-white shadow rounded-lg p-8 print:shadow-none print:p-0">
-      {/* Action bar */}
-      <div className="flex justify-end space-x-3 mb-6 print:hidden">
-        <Button variant="secondary" onClick={handleBack}>Back</Button>
-        <Button onClick={handlePrint}>Print</Button>
-      </div>
-
-      {/* Header */}
-      <div className="border-b pb-4 mb-6">
-        <div className="flex items-start gap-4">
-          {businessLogoUrl && (
-            <img
-              src={businessLogoUrl}
-              alt={businessName}
-              className="h-24 w-auto object-contain"
-            />
-          )}
-          <div>
-            <h1 className="text-2xl font-bold text-gray-900">Invoice</h1>
-            <div className="mt-1 text-sm text-gray-600">
-              <div className="font-medium text-gray-800">{project?.name || 'Project'}</div>
-              {project?.clientName && <div>Client: {project.clientName}</div>}
-              <div>Date: {today}</div>
-            </div>
-          </div>
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="bg-white shadow rounded-lg p-8 print:shadow-none print:p-0">
+        {/* Action bar */}
+        <div className="flex justify-end space-x-3 mb-6 print:hidden">
+          <Button variant="secondary" onClick={handleBack}>Back</Button>
+          <Button variant="secondary" onClick={handlePrint}>Print</Button>
+          <Button variant="secondary" onClick={() => void handleDownloadPdf()} disabled={isGeneratingPdf}>
+            {isGeneratingPdf ? 'Preparing PDF...' : 'Download PDF'}
+          </Button>
+          <Button onClick={() => void handleSave()} disabled={!hasAnyLines || isSaving || !currentAccountId}>
+            {isSaving ? 'Saving...' : 'Save Invoice'}
+          </Button>
         </div>
-      </div>
-
-      {!hasAnyLines && (
-        <div className="text-center py-12">
-          <div className="mx-auto h-12 w-12 text-gray-400">🧾</div>
-          <h3 className="mt-2 text-sm font-medium text-gray-900">No invoiceable items</h3>
-          <p className="mt-1 text-sm text-gray-500">There are no qualifying transactions for this project.</p>
-        </div>
-      )}
-
-      {hasAnyLines && (
-        <div className="space-y-10">
-          {/* Client Owes section */}
-          <section>
-            <div className="flex items-baseline justify-between mb-3">
-              <h2 className="text-lg font-semibold text-gray-900">Project Charges</h2>
-            </div>
 
-            <div className="rounded-lg border border-gray-100 overflow-hidden">
-              <div className="divide-y">
-                {clientOwesLines.map(line => {
-                const transactionTitle = getCanonicalTransactionTitle(line.transaction)
-                const formattedDate = formatDate(
-                  line.transaction.transactionDate,
-                  '',
-                  {
-                    year: undefined,
-                    month: 'short',
-                    day: 'numeric'
-                  }
-                )
-
-                return (
-                  <div key={line.transaction.transactionId} className="py-4 px-4">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-gray-900">
-                          <span className="font-medium">{transactionTitle}</span>
-                          {formattedDate && <span className="text-xs font-normal text-gray-500">{formattedDate}</span>}
-                        </div>
-                        {line.transaction.notes && (
-                          <div className="text-sm text-gray-500">{line.transaction.notes}</div>
-                        )}
-                      </div>
-                      <div className="text-right text-gray-700">{usd.format(line.lineTotal)}</div>
-                    </div>
-
-                    {line.hasItems && (
-                      <div className="mt-2 ml-4">
-                        <ul className="space-y-1">
-                          {line.items.map((it) => (
-                            <li key={it.item.itemId} className="flex items-start justify-between text-sm">
-                              <div className="text-gray-700">
-                                {it.item.description || 'Item'}
-                                {it.missingPrice && (
-                                  <span className="ml-2 text-yellow-700 bg-yellow-50 border border-yellow-200 rounded px-1">Missing project price</span>
-                                )}
-                              </div>
-                              <div className="pr-4 text-right text-gray-600">{usd.format(it.amount)}</div>
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-                  </div>
-                )
-              })}
-              </div>
-              <div className="flex items-center justify-between px-4 py-3 bg-white border-t border-gray-100">
-                <span className="text-base font-semibold text-gray-900">Charges Total</span>
-                <span className="text-base font-semibold text-gray-900">{usd.format(clientOwesSubtotal)}</span>
-              </div>
-            </div>
-          </section>
-
-          {/* Credits section */}
-          <section>
-            <div className="flex items-baseline justify-between mb-3">
-              <h2 className="text-lg font-semibold text-gray-900">Project Credits</h2>
-            </div>
-
-            <div className="rounded-lg border border-gray-100 overflow-hidden">
-              <div className="divide-y">
-                {creditLines.map(line => {
-                const transactionTitle = getCanonicalTransactionTitle(line.transaction)
-                const formattedDate = formatDate(
-                  line.transaction.transactionDate,
-                  '',
-                  {
-                    year: undefined,
-                    month: 'short',
-                    day: 'numeric'
-                  }
-                )
-
-                return (
-                  <div key={line.transaction.transactionId} className="py-4 px-4">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-gray-900">
-                          <span className="font-medium">{transactionTitle}</span>
-                          {formattedDate && <span className="text-xs font-normal text-gray-500">{formattedDate}</span>}
-                        </div>
-                        {line.transaction.notes && (
-                          <div className="text-sm text-gray-500">{line.transaction.notes}</div>
-                        )}
-                      </div>
-                      <div className="text-right text-gray-700">{usd.format(line.lineTotal)}</div>
-                    </div>
-
-                    {line.hasItems && (
-                      <div className="mt-2 ml-4">
-                        <ul className="space-y-1">
-                          {line.items.map((it) => (
-                            <li key={it.item.itemId} className="flex items-start justify-between text-sm">
-                              <div className="text-gray-700">
-                                {it.item.description || 'Item'}
-                                {it.missingPrice && (
-                                  <span className="ml-2 text-yellow-700 bg-yellow-50 border border-yellow-200 rounded px-1">Missing project price</span>
-                                )}
-                              </div>
-                              <div className="pr-4 text-right text-gray-600">{usd.format(it.amount)}</div>
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-                  </div>
-                )
-              })}
-              </div>
-              <div className="flex items-center justify-between px-4 py-3 bg-white border-t border-gray-100">
-                <span className="text-base font-semibold text-gray-900">Credits Total</span>
-                <span className="text-base font-semibold text-gray-900">{usd.format(creditsSubtotal)}</span>
-              </div>
-            </div>
-          </section>
+        <InvoiceDocument
+          snapshot={snapshot}
+          businessName={businessName}
+          businessLogoUrl={businessLogoUrl}
+          details={[`Date: ${today}`]}
+        />
+      </div>
 
-          {/* Net Due */}
-          <section className="border-t pt-4">
-            <div className="flex items-baseline justify-between">
-          <h2 className="text-xl font-semibold text-primary-600">Net Amount Due</h2>
-          <div className="text-xl font-bold text-primary-600">{usd.format(netDue)}</div>
-            </div>
-          </section>
+      {savedInvoices.length > 0 && (
+        <div className="bg-white shadow rounded-lg p-6 print:hidden">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">Saved Invoices</h2>
+          <ul className="divide-y divide-gray-100">
+            {savedInvoices.map(invoice => (
+              <li key={invoice.id}>
+                <button
+                  type="button"
+                  onClick={() => stackedNavigate(projectInvoiceRecord(resolvedProjectId, invoice.id))}
+                  className="w-full flex items-center justify-between py-3 text-left hover:bg-gray-50"
+                >
+                  <span className="font-medium text-gray-900">{formatInvoiceNumber(invoice.invoiceNumber)}</span>
+                  <span className="text-sm text-gray-500">{invoice.issueDate}</span>
+                  <span className="text-sm text-gray-600">{INVOICE_STATUS_LABELS[invoice.status]}</span>
+                  <span className="text-sm text-gray-900">{usd.format(Number.parseFloat(invoice.totalDue))}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
         </div>
       )}
     </div>
   )
 }
-
-
@@ -16,21 +16,25 @@ import {
   Receipt,
   Trash2,
   User,
+  Wallet,
 } from 'lucide-react'
 import ContextBackLink from '@/components/ContextBackLink'
 import { useStackedNavigate } from '@/hooks/useStackedNavigate'
-import { Project, Transaction, Item } from '@/types'
+import { Project, Transaction, Item, Payment, Invoice } from '@/types'
 import { projectService } from '@/services/inventoryService'
+import { paymentService } from '@/services/paymentService'
+import { invoiceService } from '@/services/invoiceService'
+import { budgetChangeOrderService } from '@/services/budgetChangeOrderService'
 import { useAccount } from '@/contexts/AccountContext'
 import { useProjectRealtime } from '@/contexts/ProjectRealtimeContext'
 import ProjectForm from '@/components/ProjectForm'
+import ProjectShareLinksManager from '@/components/ProjectShareLinksManager'
 import { hydrateProjectCache } from '@/utils/hydrationHelpers'
 import { getGlobalQueryClient } from '@/utils/queryClient'
 import BudgetProgress from '@/components/ui/BudgetProgress'
 import { useToast } from '@/components/ui/ToastContext'
 import { Button } from '@/components/ui/Button'
 import { RetrySyncButton } from '@/components/ui/RetrySyncButton'
-import { CLIENT_OWES_COMPANY, COMPANY_OWES_CLIENT } from '@/constants/company'
 import { useNavigationContext } from '@/hooks/useNavigationContext'
 import { isNetworkOnline } from '@/services/networkStatusService'
 import {
@@ -38,17 +42,21 @@ import {
   projectClientSummary,
   projectInvoice,
   projectItems,
+  projectPayments,
   projectPropertyManagementSummary,
   projectTransactions,
   projectsRoot,
   ProjectSection,
 } from '@/utils/routes'
 import { storeProjectSection } from '@/utils/projectSectionStorage'
+import { computeInvoiceBalanceDue, computeProjectBalance, formatBalance } from '@/utils/projectBalance'
+import { formatCurrency } from '@/utils/dateUtils'
 
 interface ProjectLayoutContextValue {
   project: Project
   transactions: Transaction[]
   items: Item[]
+  refreshProject: () => Promise<void>
 }
 
 export function useProjectLayoutContext() {
@@ -141,19 +149,53 @@ export default function ProjectLayout() {
     }
   }, [projectId])
 
-  const owedTo1584 = useMemo(() => {
-    return transactions
-      .filter(t => t.status !== 'canceled')
-      .filter(t => t.reimbursementType === CLIENT_OWES_COMPANY)
-      .reduce((sum, t) => sum + parseFloat(t.amount || '0'), 0)
-  }, [transactions])
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [invoices, setInvoices] = useState<Invoice[]>([])
 
-  const owedToClient = useMemo(() => {
-    return transactions
-      .filter(t => t.status !== 'canceled')
-      .filter(t => t.reimbursementType === COMPANY_OWES_CLIENT)
-      .reduce((sum, t) => sum + parseFloat(t.amount || '0'), 0)
-  }, [transactions])
+  useEffect(() => {
+    if (!projectId || !currentAccountId || !isNetworkOnline()) return
+    let cancelled = false
+    Promise.all([
+      paymentService.listPayments(currentAccountId, projectId),
+      invoiceService.listInvoices(currentAccountId, projectId),
+    ])
+      .then(([loadedPayments, loadedInvoices]) => {
+        if (cancelled) return
+        setPayments(loadedPayments)
+        setInvoices(loadedInvoices)
+      })
+      .catch(paymentError => {
+        console.warn('ProjectLayout: failed to load payments and invoices (non-fatal):', paymentError)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [projectId, currentAccountId])
+
+  // Once a change order has been approved, category budgets only move through change orders. They stay
+  // locked until the check succeeds; the database enforces the same rule.
+  const [budgetCategoriesLock, setBudgetCategoriesLock] = useState<'change_orders' | 'unverified' | undefined>('unverified')
+
+  useEffect(() => {
+    setBudgetCategoriesLock('unverified')
+    if (!isEditing || !projectId || !currentAccountId || !isNetworkOnline()) return
+    let cancelled = false
+    budgetChangeOrderService
+      .listChangeOrders(currentAccountId, projectId)
+      .then(changeOrders => {
+        if (cancelled) return
+        setBudgetCategoriesLock(changeOrders.some(changeOrder => changeOrder.status === 'approved') ? 'change_orders' : undefined)
+      })
+      .catch(changeOrderError => {
+        console.warn('ProjectLayout: failed to load budget change orders (non-fatal):', changeOrderError)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [isEditing, projectId, currentAccountId])
+
+  const balance = useMemo(() => computeProjectBalance(transactions, payments), [transactions, payments])
+  const invoiceBalanceDue = useMemo(() => computeInvoiceBalanceDue(invoices), [invoices])
 
   useEffect(() => {
     const resolved = resolveSectionFromPath(location.pathname, projectId)
@@ -289,6 +331,7 @@ export default function ProjectLayout() {
     project,
     transactions,
     items,
+    refreshProject: refreshProjectSnapshot,
   }
 
   return (
@@ -364,6 +407,7 @@ export default function ProjectLayout() {
                   designFee={project.designFee}
                   budgetCategories={project.budgetCategories}
                   transactions={transactions}
+                  items={items}
                 />
               )}
               {activeBudgetTab === 'accounting' && (
@@ -372,13 +416,38 @@ export default function ProjectLayout() {
                     <div className="grid grid-cols-2 gap-3">
                       <div className="bg-gray-50 rounded-lg p-3">
                         <div className="text-sm font-medium text-gray-600 mb-0.5">Owed to Design Business</div>
-                        <div className="text-xl font-bold text-gray-900">${owedTo1584.toFixed(2)}</div>
+                        <div className="text-xl font-bold text-gray-900">{formatCurrency(balance.owedToCompany)}</div>
                       </div>
                       <div className="bg-gray-50 rounded-lg p-3">
                         <div className="text-sm font-medium text-gray-600 mb-0.5">Owed to Client</div>
-                        <div className="text-xl font-bold text-gray-900">${owedToClient.toFixed(2)}</div>
+                        <div className="text-xl font-bold text-gray-900">{formatCurrency(balance.owedToClient)}</div>
+                      </div>
+                      <div className="bg-gray-50 rounded-lg p-3">
+                        <div className="text-sm font-medium text-gray-600 mb-0.5">Payments Received</div>
+                        <div className="text-xl font-bold text-gray-900">{formatCurrency(balance.paymentsReceived)}</div>
+                      </div>
+                      <div className="bg-gray-50 rounded-lg p-3">
+                        <div className="text-sm font-medium text-gray-600 mb-0.5">Outstanding Balance</div>
+                        <div className="text-xl font-bold text-primary-600">{formatBalance(balance.outstandingBalance)}</div>
+                      </div>
+                      <div className="bg-gray-50 rounded-lg p-3">
+                        <div className="text-sm font-medium text-gray-600 mb-0.5">Invoice Balance Due</div>
+                        <div className="text-xl font-bold text-gray-900">{formatBalance(invoiceBalanceDue)}</div>
                       </div>
                     </div>
+                    <p className="mt-2 text-xs text-gray-500">
+                      Outstanding balance nets reimbursable transactions against payments. Invoice balance due is what
+                      sent invoices, billed at project prices, still show as unpaid.
+                    </p>
+                    <div className="mt-3">
+                      <Button
+                        variant="secondary"
+                        onClick={() => stackedNavigate(buildContextUrl(projectPayments(project.id)))}
+                      >
+                        <Wallet className="h-4 w-4 mr-2" />
+                        Payments &amp; Ledger
+                      </Button>
+                    </div>
                   </section>
 
                   <section>
@@ -415,6 +484,11 @@ export default function ProjectLayout() {
                       </Button>
                     </div>
                   </section>
+
+                  <section>
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4">Client Portal</h2>
+                    <ProjectShareLinksManager projectId={project.id} />
+                  </section>
                 </div>
               )}
             </div>
@@ -471,6 +545,7 @@ export default function ProjectLayout() {
           }}
           onSubmit={handleEditProject}
           onCancel={() => setIsEditing(false)}
+          budgetCategoriesLock={budgetCategoriesLock}
         />
       )}
 
@@ -0,0 +1,345 @@
+import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react'
+import { useParams, useSearchParams } from 'react-router-dom'
+import { Trash2 } from 'lucide-react'
+import { useStackedNavigate } from '@/hooks/useStackedNavigate'
+import { useNavigationContext } from '@/hooks/useNavigationContext'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/ToastContext'
+import type { Invoice, Payment, PaymentDirection } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { useProjectRealtime } from '@/contexts/ProjectRealtimeContext'
+import { invoiceService } from '@/services/invoiceService'
+import { paymentService, PAYMENT_METHODS } from '@/services/paymentService'
+import { computeInvoiceBalanceDue, computeProjectBalance, formatBalance } from '@/utils/projectBalance'
+import { formatInvoiceNumber } from '@/utils/invoiceSnapshot'
+import { formatDate } from '@/utils/dateUtils'
+import { projectBudget, projectsRoot } from '@/utils/routes'
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+const formatMoney = (value: string) => usd.format(Number.parseFloat(value) || 0)
+
+function getTodayIsoDate(): string {
+  const today = new Date()
+  return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`
+}
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+export default function ProjectPayments() {
+  const { projectId } = useParams<{ projectId?: string }>()
+  const [searchParams] = useSearchParams()
+  const stackedNavigate = useStackedNavigate()
+  const { getBackDestination } = useNavigationContext()
+  const { currentAccountId } = useAccount()
+  const { user } = useAuth()
+  const { showError, showSuccess } = useToast()
+  const { project, transactions, isLoading, error } = useProjectRealtime(projectId)
+
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [direction, setDirection] = useState<PaymentDirection>('client_to_company')
+  const [paymentDate, setPaymentDate] = useState(getTodayIsoDate())
+  const [amount, setAmount] = useState('')
+  const [method, setMethod] = useState<string>(PAYMENT_METHODS[0])
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+  const [invoiceId, setInvoiceId] = useState(searchParams.get('invoiceId') || '')
+
+  const loadPaymentsAndInvoices = useCallback(async () => {
+    if (!currentAccountId || !projectId) return
+    try {
+      const [loadedPayments, loadedInvoices] = await Promise.all([
+        paymentService.listPayments(currentAccountId, projectId),
+        invoiceService.listInvoices(currentAccountId, projectId),
+      ])
+      setPayments(loadedPayments)
+      setInvoices(loadedInvoices)
+    } catch (err) {
+      console.error('Failed to load payments:', err)
+      showError('Failed to load payments.')
+    }
+  }, [currentAccountId, projectId, showError])
+
+  useEffect(() => {
+    void loadPaymentsAndInvoices()
+  }, [loadPaymentsAndInvoices])
+
+  const balance = useMemo(() => computeProjectBalance(transactions, payments), [transactions, payments])
+  const invoiceBalanceDue = useMemo(() => computeInvoiceBalanceDue(invoices), [invoices])
+  const payableInvoices = useMemo(
+    () => invoices.filter(invoice => invoice.status === 'sent' || invoice.status === 'partially_paid'),
+    [invoices]
+  )
+
+  const defaultBackTarget = projectId ? `${projectBudget(projectId)}?budgetTab=accounting` : projectsRoot()
+  const handleBack = () => {
+    stackedNavigate(getBackDestination(defaultBackTarget))
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!currentAccountId || !projectId) return
+    setIsSaving(true)
+    try {
+      await paymentService.recordPayment(currentAccountId, {
+        projectId,
+        direction,
+        paymentDate,
+        amount,
+        method,
+        reference,
+        notes,
+        invoiceId: direction === 'client_to_company' ? invoiceId || null : null,
+        createdBy: user?.id,
+      })
+      showSuccess('Payment recorded.')
+      setAmount('')
+      setReference('')
+      setNotes('')
+      setInvoiceId('')
+      await loadPaymentsAndInvoices()
+    } catch (err) {
+      console.error('Failed to record payment:', err)
+      showError(err instanceof Error ? err.message : 'Failed to record payment.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (payment: Payment) => {
+    if (!currentAccountId) return
+    if (!window.confirm('Delete this payment? Any invoice it was applied to will be updated.')) return
+    try {
+      await paymentService.deletePayment(currentAccountId, payment.id)
+      showSuccess('Payment deleted.')
+      await loadPaymentsAndInvoices()
+    } catch (err) {
+      console.error('Failed to delete payment:', err)
+      showError(err instanceof Error ? err.message : 'Failed to delete payment.')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading ledger...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Error</h3>
+        <p className="mt-1 text-sm text-gray-500">{error}</p>
+        <div className="mt-6">
+          <Button onClick={handleBack}>Back</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const invoiceNumberById = new Map(invoices.map(invoice => [invoice.id, formatInvoiceNumber(invoice.invoiceNumber)]))
+  const paymentsById = new Map(payments.map(payment => [payment.id, payment]))
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Payments &amp; Balance</h1>
+          <p className="text-sm text-gray-600">{project?.name}</p>
+        </div>
+        <Button variant="secondary" onClick={handleBack}>Back</Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="bg-white shadow rounded-lg p-4">
+          <div className="text-sm font-medium text-gray-600">Owed to Design Business</div>
+          <div className="text-xl font-bold text-gray-900">{formatMoney(balance.owedToCompany)}</div>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <div className="text-sm font-medium text-gray-600">Owed to Client</div>
+          <div className="text-xl font-bold text-gray-900">{formatMoney(balance.owedToClient)}</div>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <div className="text-sm font-medium text-gray-600">Net Payments</div>
+          <div className="text-xl font-bold text-gray-900">
+            {formatMoney(String(Number.parseFloat(balance.paymentsReceived) - Number.parseFloat(balance.paymentsIssued)))}
+          </div>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <div className="text-sm font-medium text-gray-600">Outstanding Balance</div>
+          <div className="text-xl font-bold text-primary-600">{formatBalance(balance.outstandingBalance)}</div>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <div className="text-sm font-medium text-gray-600">Invoice Balance Due</div>
+          <div className="text-xl font-bold text-gray-900">{formatBalance(invoiceBalanceDue)}</div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        The ledger below tracks reimbursable transactions at their transaction amounts. Invoices bill item project
+        prices, so their unpaid total is shown separately as invoice balance due.
+      </p>
+
+      {/* Record payment */}
+      <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">Record Payment</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="paymentDirection" className="block text-sm font-medium text-gray-700">Direction</label>
+            <select
+              id="paymentDirection"
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as PaymentDirection)}
+              className={inputClassName}
+            >
+              <option value="client_to_company">Received from client</option>
+              <option value="company_to_client">Paid to client</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="paymentDate" className="block text-sm font-medium text-gray-700">Date</label>
+            <input
+              id="paymentDate"
+              type="date"
+              required
+              value={paymentDate}
+              onChange={(e) => setPaymentDate(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="paymentAmount" className="block text-sm font-medium text-gray-700">Amount</label>
+            <input
+              id="paymentAmount"
+              type="text"
+              inputMode="decimal"
+              required
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="paymentMethod" className="block text-sm font-medium text-gray-700">Method</label>
+            <select
+              id="paymentMethod"
+              value={method}
+              onChange={(e) => setMethod(e.target.value)}
+              className={inputClassName}
+            >
+              {PAYMENT_METHODS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="paymentReference" className="block text-sm font-medium text-gray-700">Reference</label>
+            <input
+              id="paymentReference"
+              type="text"
+              placeholder="Check #, confirmation code"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          {direction === 'client_to_company' && (
+            <div>
+              <label htmlFor="paymentInvoice" className="block text-sm font-medium text-gray-700">Apply to invoice</label>
+              <select
+                id="paymentInvoice"
+                value={invoiceId}
+                onChange={(e) => setInvoiceId(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">Not applied</option>
+                {payableInvoices.map(invoice => (
+                  <option key={invoice.id} value={invoice.id}>
+                    {formatInvoiceNumber(invoice.invoiceNumber)} — {formatMoney(
+                      String(Number.parseFloat(invoice.totalDue) - Number.parseFloat(invoice.amountPaid))
+                    )} due
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+        <div>
+          <label htmlFor="paymentNotes" className="block text-sm font-medium text-gray-700">Notes</label>
+          <textarea
+            id="paymentNotes"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSaving || !currentAccountId}>
+            {isSaving ? 'Saving...' : 'Record Payment'}
+          </Button>
+        </div>
+      </form>
+
+      {/* Ledger */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Ledger</h2>
+        </div>
+        {balance.entries.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-gray-500 text-center">No reimbursable transactions or payments yet.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Date</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Description</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Amount</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Balance</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {balance.entries.map(entry => {
+                const payment = entry.kind === 'payment' ? paymentsById.get(entry.id) : undefined
+                const appliedTo = payment?.invoiceId ? invoiceNumberById.get(payment.invoiceId) : undefined
+                return (
+                  <tr key={`${entry.kind}-${entry.id}`}>
+                    <td className="px-4 py-2 text-gray-600">{formatDate(entry.date, '')}</td>
+                    <td className="px-4 py-2 text-gray-900">
+                      {entry.description}
+                      {appliedTo && <span className="ml-2 text-xs text-gray-500">Applied to {appliedTo}</span>}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-700">{formatMoney(entry.amount)}</td>
+                    <td className="px-4 py-2 text-right font-medium text-gray-900">{formatMoney(entry.balance)}</td>
+                    <td className="px-4 py-2 text-right">
+                      {payment && (
+                        <button
+                          type="button"
+                          onClick={() => void handleDelete(payment)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Delete payment"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,12 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Plus, FolderOpen } from 'lucide-react'
 import { Link } from 'react-router-dom'
 import { useNavigationContext } from '@/hooks/useNavigationContext'
-import { Project, Transaction } from '@/types'
+import { Invoice, Payment, Project, Transaction } from '@/types'
 import { projectService, transactionService } from '@/services/inventoryService'
+import { paymentService } from '@/services/paymentService'
+import { invoiceService } from '@/services/invoiceService'
+import { isNetworkOnline } from '@/services/networkStatusService'
 import { useAuth } from '@/contexts/AuthContext'
 import { useAccount } from '@/contexts/AccountContext'
 import ProjectForm from '@/components/ProjectForm'
@@ -12,6 +15,7 @@ import ContextLink from '@/components/ContextLink'
 import { projectItems } from '@/utils/routes'
 import { hydrateProjectsListCache } from '@/utils/hydrationHelpers'
 import { getGlobalQueryClient } from '@/utils/queryClient'
+import { computeInvoiceBalanceDue, computeProjectBalance, formatBalance } from '@/utils/projectBalance'
 
 export default function Projects() {
   const { buildContextUrl } = useNavigationContext()
@@ -19,12 +23,25 @@ export default function Projects() {
   const { currentAccountId, loading: accountLoading } = useAccount()
   const [projects, setProjects] = useState<Project[]>([])
   const [transactions, setTransactions] = useState<Record<string, Transaction[]>>({})
+  const [payments, setPayments] = useState<Record<string, Payment[]>>({})
+  const [invoices, setInvoices] = useState<Record<string, Invoice[]>>({})
   const [isLoadingData, setIsLoadingData] = useState(false)
   const [showCreateForm, setShowCreateForm] = useState(false)
   
   // Combined loading state - show loading if account is loading OR data is loading
   const isLoading = accountLoading || isLoadingData
 
+  const balancesByProject = useMemo(() => {
+    const balances: Record<string, { outstanding: string; invoiceDue: string }> = {}
+    projects.forEach(project => {
+      balances[project.id] = {
+        outstanding: computeProjectBalance(transactions[project.id] || [], payments[project.id] || []).outstandingBalance,
+        invoiceDue: computeInvoiceBalanceDue(invoices[project.id] || []),
+      }
+    })
+    return balances
+  }, [projects, transactions, payments, invoices])
+
   useEffect(() => {
     console.log('🔍 Projects - useEffect triggered. accountLoading:', accountLoading, 'currentAccountId:', currentAccountId, 'isLoading:', isLoading)
     
@@ -65,6 +82,33 @@ export default function Projects() {
         console.error('Error loading transactions for projects:', error)
         setTransactions({})
       }
+
+      // Payments and invoices only feed the balances, so failures (or being offline) are non-fatal.
+      if (!isNetworkOnline()) return
+      try {
+        const [allPayments, allInvoices] = await Promise.all([
+          paymentService.listPayments(currentAccountId, projectsToLoad.map(p => p.id)),
+          invoiceService.listInvoices(currentAccountId),
+        ])
+        const paymentsByProject: Record<string, Payment[]> = {}
+        allPayments.forEach(p => {
+          if (!paymentsByProject[p.projectId]) {
+            paymentsByProject[p.projectId] = []
+          }
+          paymentsByProject[p.projectId].push(p)
+        })
+        const invoicesByProject: Record<string, Invoice[]> = {}
+        allInvoices.forEach(invoice => {
+          if (!invoicesByProject[invoice.projectId]) {
+            invoicesByProject[invoice.projectId] = []
+          }
+          invoicesByProject[invoice.projectId].push(invoice)
+        })
+        setPayments(paymentsByProject)
+        setInvoices(invoicesByProject)
+      } catch (error) {
+        console.warn('Error loading payments and invoices for projects (non-fatal):', error)
+      }
     }
 
     const loadInitialData = async () => {
@@ -276,6 +320,18 @@ export default function Projects() {
                   <div className="text-sm font-normal text-gray-900 ml-11">
                     {project.clientName}
                   </div>
+                  {balancesByProject[project.id] && balancesByProject[project.id].outstanding !== '0.00' && (
+                    <div className="text-sm text-gray-600 ml-11">
+                      Outstanding balance:{' '}
+                      <span className="font-medium text-gray-900">{formatBalance(balancesByProject[project.id].outstanding)}</span>
+                    </div>
+                  )}
+                  {balancesByProject[project.id] && balancesByProject[project.id].invoiceDue !== '0.00' && (
+                    <div className="text-sm text-gray-600 ml-11">
+                      Invoice balance due:{' '}
+                      <span className="font-medium text-gray-900">{formatBalance(balancesByProject[project.id].invoiceDue)}</span>
+                    </div>
+                  )}
                 </div>
 
                 {/* Budget Progress */}
@@ -1,11 +1,17 @@
-import { useEffect, useMemo } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useParams } from 'react-router-dom'
 import { useStackedNavigate } from '@/hooks/useStackedNavigate'
 import { useNavigationContext } from '@/hooks/useNavigationContext'
 import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/ToastContext'
 import { useProjectRealtime } from '@/contexts/ProjectRealtimeContext'
 import { useBusinessProfile } from '@/contexts/BusinessProfileContext'
 import { projectItems, projectsRoot } from '@/utils/routes'
+import { downloadFile } from '@/utils/csvExport'
+import { formatPhysicalDetails } from '@/utils/itemPhysicalDetails'
+import { renderPdfReport } from '@/utils/pdfReport'
+import { buildPropertyManagementSummaryPdfDocument, getItemThumbnailUrl, toPdfFileName } from '@/utils/pdfReportDocuments'
+import { loadPdfReportBranding } from '@/utils/pdfImages'
 
 const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
 
@@ -25,6 +31,8 @@ export default function PropertyManagementSummary() {
   const { getBackDestination } = useNavigationContext()
   const { businessName, businessLogoUrl } = useBusinessProfile()
   const { project, items, isLoading, error } = useProjectRealtime(resolvedProjectId)
+  const { showError } = useToast()
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false)
 
   const today = useMemo(() => new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }), [])
 
@@ -42,6 +50,23 @@ export default function PropertyManagementSummary() {
   }, [items])
 
   const handlePrint = () => window.print()
+  const handleDownloadPdf = async () => {
+    setIsGeneratingPdf(true)
+    try {
+      const branding = await loadPdfReportBranding({
+        businessName,
+        businessLogoUrl,
+        thumbnailUrls: items.map(getItemThumbnailUrl),
+      })
+      const pdf = await renderPdfReport(buildPropertyManagementSummaryPdfDocument(project, items, today, branding))
+      downloadFile(toPdfFileName('Property Management Summary', project?.name, today), pdf, 'application/pdf')
+    } catch (err) {
+      console.error('Failed to create property management summary PDF:', err)
+      showError(err instanceof Error ? err.message : 'Failed to create the PDF.')
+    } finally {
+      setIsGeneratingPdf(false)
+    }
+  }
   const handleBack = () => {
     const fallback = resolvedProjectId ? projectItems(resolvedProjectId) : projectsRoot()
     stackedNavigate(getBackDestination(fallback))
@@ -80,7 +105,10 @@ export default function PropertyManagementSummary() {
       {/* Action bar */}
       <div className="flex justify-end space-x-3 mb-6 print:hidden">
         <Button variant="secondary" onClick={handleBack}>Back</Button>
-        <Button onClick={handlePrint}>Print</Button>
+        <Button variant="secondary" onClick={handlePrint}>Print</Button>
+        <Button onClick={() => void handleDownloadPdf()} disabled={isGeneratingPdf}>
+          {isGeneratingPdf ? 'Preparing PDF...' : 'Download PDF'}
+        </Button>
       </div>
 
       {/* Header */}
@@ -167,6 +195,9 @@ export default function PropertyManagementSummary() {
                           {item.space && (
                             <div className="text-xs text-gray-500 mt-0.5">Space: {item.space}</div>
                           )}
+                          {formatPhysicalDetails(item) && (
+                            <div className="text-xs text-gray-500 mt-0.5">{formatPhysicalDetails(item)}</div>
+                          )}
                         </div>
                         <div className="text-right ml-4">
                           <div className="text-sm text-gray-700 font-medium">
@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { ArrowLeft, Printer } from 'lucide-react'
+import { toDataURL } from 'qrcode'
+import ContextBackLink from '@/components/ContextBackLink'
+import { Button } from '@/components/ui/Button'
+import { useAccount } from '@/contexts/AccountContext'
+import { unifiedItemsService } from '@/services/inventoryService'
+import type { Item } from '@/types'
+import { LABEL_TEMPLATES, buildQrLabel, paginateLabels } from '@/utils/qrLabels'
+import type { LabelTemplateId, QrLabel } from '@/utils/qrLabels'
+import { projectsRoot } from '@/utils/routes'
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+// Sheets are laid out in real inches, so the page itself must not add margins.
+const PRINT_PAGE_STYLE = '@page { size: letter; margin: 0; }'
+
+const LABEL_PADDING_IN = 0.08
+
+export default function QrLabelSheet() {
+  const [searchParams] = useSearchParams()
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const [items, setItems] = useState<Item[]>([])
+  const [qrImages, setQrImages] = useState<Map<string, string>>(new Map())
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [templateId, setTemplateId] = useState<LabelTemplateId>('avery-5160')
+  const [skip, setSkip] = useState(0)
+
+  const itemIds = useMemo(
+    () => (searchParams.get('items') || '').split(',').map(id => id.trim()).filter(Boolean),
+    [searchParams]
+  )
+
+  const loadItems = useCallback(async () => {
+    if (!currentAccountId) {
+      setIsLoading(false)
+      return
+    }
+    setIsLoading(true)
+    try {
+      const loaded = await Promise.all(itemIds.map(id => unifiedItemsService.getItemById(currentAccountId, id)))
+      const found = loaded.filter((item): item is Item => Boolean(item?.qrKey))
+      const labels = found.map(item => buildQrLabel(item, window.location.origin))
+      const images = await Promise.all(labels.map(label => toDataURL(label.url, { margin: 0, width: 256 })))
+      setItems(found)
+      setQrImages(new Map(labels.map((label, index) => [label.itemId, images[index]])))
+      setError(null)
+    } catch (err) {
+      console.error('Failed to build QR labels:', err)
+      setError(err instanceof Error ? err.message : 'Failed to build QR labels.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId, itemIds])
+
+  useEffect(() => {
+    if (accountLoading) return
+    void loadItems()
+  }, [accountLoading, loadItems])
+
+  const template = LABEL_TEMPLATES[templateId]
+  const sheets = useMemo(() => {
+    const labels = items.map(item => buildQrLabel(item, window.location.origin))
+    return paginateLabels<QrLabel>(labels, template, skip)
+  }, [items, template, skip])
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Generating labels...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Error</h3>
+        <p className="mt-1 text-sm text-gray-500">{error}</p>
+        <div className="mt-6">
+          <Button onClick={() => void loadItems()}>Retry</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const qrSize = template.labelHeight - LABEL_PADDING_IN * 2
+
+  return (
+    <div className="space-y-6">
+      <style>{`@media print { ${PRINT_PAGE_STYLE} }`}</style>
+      <div className="print:hidden space-y-4">
+        <ContextBackLink fallback={projectsRoot()} className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </ContextBackLink>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">QR Labels</h1>
+            <p className="text-sm text-gray-500">
+              {items.length} label{items.length === 1 ? '' : 's'} on {sheets.length} sheet{sheets.length === 1 ? '' : 's'}.
+              Scanning a label opens the item. Print at 100% scale with no margins.
+            </p>
+            {items.length < itemIds.length && (
+              <p className="text-sm text-amber-700">
+                {itemIds.length - items.length} selected item{itemIds.length - items.length === 1 ? ' was' : 's were'} not found and skipped.
+              </p>
+            )}
+          </div>
+          <Button onClick={() => window.print()} disabled={items.length === 0}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Label sheet
+            <select value={templateId} onChange={e => setTemplateId(e.target.value as LabelTemplateId)} className={inputClassName}>
+              {Object.values(LABEL_TEMPLATES).map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Skip used labels
+            <input
+              type="number"
+              min={0}
+              max={template.columns * template.rows - 1}
+              value={skip}
+              onChange={e => setSkip(Math.max(0, Number.parseInt(e.target.value, 10) || 0))}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500 print:hidden">No items with QR codes were selected.</p>
+      ) : (
+        <div className="overflow-x-auto space-y-6 print:space-y-0 print:overflow-visible">
+          {sheets.map((sheet, sheetIndex) => (
+            <div
+              key={sheetIndex}
+              className="relative bg-white shadow mx-auto print:shadow-none print:break-after-page"
+              style={{ width: '8.5in', height: '11in' }}
+            >
+              {sheet.map((label, position) => {
+                if (!label) return null
+                const column = position % template.columns
+                const row = Math.floor(position / template.columns)
+                return (
+                  <div
+                    key={label.itemId}
+                    className="absolute flex items-center gap-2 overflow-hidden"
+                    style={{
+                      left: `${template.marginLeft + column * (template.labelWidth + template.columnGap)}in`,
+                      top: `${template.marginTop + row * (template.labelHeight + template.rowGap)}in`,
+                      width: `${template.labelWidth}in`,
+                      height: `${template.labelHeight}in`,
+                      padding: `${LABEL_PADDING_IN}in`,
+                    }}
+                  >
+                    <img src={qrImages.get(label.itemId)} alt="" style={{ width: `${qrSize}in`, height: `${qrSize}in` }} />
+                    <div className="min-w-0 leading-tight">
+                      <p className="text-[9pt] font-semibold text-gray-900 line-clamp-2">{label.title}</p>
+                      {label.subtitle && <p className="text-[7pt] text-gray-600 truncate">{label.subtitle}</p>}
+                      <p className="text-[6pt] text-gray-500 font-mono truncate">{label.qrKey}</p>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
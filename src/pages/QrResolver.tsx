@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { QrCode } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useAccount } from '@/contexts/AccountContext'
+import { unifiedItemsService } from '@/services/inventoryService'
+import { businessInventoryItemDetail, projectItemDetail } from '@/utils/routes'
+
+/**
+ * Landing page for scanned item labels. Looks the QR key up (falling back to the offline cache)
+ * and replaces itself with the item's project or business inventory page.
+ */
+export default function QrResolver() {
+  const { qrKey } = useParams<{ qrKey: string }>()
+  const navigate = useNavigate()
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const [error, setError] = useState<string | null>(null)
+
+  const resolve = useCallback(async () => {
+    if (!qrKey || !currentAccountId) {
+      setError('No account selected.')
+      return
+    }
+    setError(null)
+    try {
+      const item = await unifiedItemsService.getItemByQrKey(currentAccountId, qrKey)
+      if (!item) {
+        setError('No item in this account matches this label. It may have been deleted or belong to another account.')
+        return
+      }
+      const target = item.projectId ? projectItemDetail(item.projectId, item.itemId) : businessInventoryItemDetail(item.itemId)
+      navigate(target, { replace: true })
+    } catch (err) {
+      console.error('Failed to resolve QR code:', err)
+      setError(err instanceof Error ? err.message : 'Failed to look up this label.')
+    }
+  }, [qrKey, currentAccountId, navigate])
+
+  useEffect(() => {
+    if (accountLoading) return
+    void resolve()
+  }, [accountLoading, resolve])
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <QrCode className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Label not found</h3>
+        <p className="mt-1 text-sm text-gray-500">{error}</p>
+        <p className="mt-1 text-xs text-gray-400 font-mono">{qrKey}</p>
+        <div className="mt-6">
+          <Button onClick={() => void resolve()}>Retry</Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex justify-center items-center h-64">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+        <p className="mt-2 text-sm text-gray-600">Finding item...</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/ToastContext'
+import { QBO_OAUTH_STATE_KEY } from '@/components/QuickBooksConnectionManager'
+import { useAccount } from '@/contexts/AccountContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { quickbooksService } from '@/services/quickbooksService'
+import { quickbooksCallback } from '@/utils/routes'
+
+export default function QuickBooksCallback() {
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const { user } = useAuth()
+  const { showSuccess } = useToast()
+  const [error, setError] = useState<string | null>(null)
+  const startedRef = useRef(false)
+
+  useEffect(() => {
+    if (accountLoading || !currentAccountId || startedRef.current) return
+    startedRef.current = true
+
+    const code = searchParams.get('code')
+    const realmId = searchParams.get('realmId')
+    const state = searchParams.get('state')
+    const expectedState = sessionStorage.getItem(QBO_OAUTH_STATE_KEY)
+    sessionStorage.removeItem(QBO_OAUTH_STATE_KEY)
+
+    if (searchParams.get('error')) {
+      setError(`QuickBooks did not authorize the connection (${searchParams.get('error')}).`)
+      return
+    }
+    if (!code || !realmId) {
+      setError('QuickBooks did not return an authorization code.')
+      return
+    }
+    if (!state || state !== expectedState || !state.startsWith(`${currentAccountId}:`)) {
+      setError('This QuickBooks authorization was not started from this account. Please try connecting again.')
+      return
+    }
+
+    quickbooksService
+      .connect(currentAccountId, {
+        code,
+        realmId,
+        redirectUri: `${window.location.origin}${quickbooksCallback()}`,
+        environment: import.meta.env.VITE_QBO_ENVIRONMENT === 'sandbox' ? 'sandbox' : 'production',
+        connectedBy: user?.id,
+      })
+      .then(() => {
+        showSuccess('QuickBooks connected.')
+        navigate('/settings', { replace: true })
+      })
+      .catch(err => {
+        console.error('Failed to connect QuickBooks:', err)
+        setError(err instanceof Error ? err.message : 'Failed to connect QuickBooks.')
+      })
+  }, [accountLoading, currentAccountId, searchParams, showSuccess, navigate, user?.id])
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">QuickBooks connection failed</h3>
+        <p className="mt-1 text-sm text-gray-500">{error}</p>
+        <div className="mt-6">
+          <Button onClick={() => navigate('/settings', { replace: true })}>Back to Settings</Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex justify-center items-center h-64">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+        <p className="mt-2 text-sm text-gray-600">Connecting QuickBooks...</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, Download } from 'lucide-react'
+import { useStackedNavigate } from '@/hooks/useStackedNavigate'
+import { Button } from '@/components/ui/Button'
+import ReportsNav from '@/components/reports/ReportsNav'
+import type { Invoice, Item, Payment, Project, Transaction } from '@/types'
+import { useAccount } from '@/contexts/AccountContext'
+import { projectService, transactionService, unifiedItemsService } from '@/services/inventoryService'
+import { invoiceService } from '@/services/invoiceService'
+import { paymentService } from '@/services/paymentService'
+import { AGING_BUCKETS, agingReportToCsvRows, buildAgingReport, buildProjectAging } from '@/utils/arAging'
+import { buildInvoiceSnapshot } from '@/utils/invoiceSnapshot'
+import { downloadTextFile, toCsv } from '@/utils/csvExport'
+import { formatDate, getTodayDateString } from '@/utils/dateUtils'
+import { projectInvoice, projectInvoiceRecord, projectTransactionDetail } from '@/utils/routes'
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+const formatMoney = (value: string) => usd.format(Number.parseFloat(value) || 0)
+
+type AgingSource = {
+  projects: Project[]
+  transactions: Transaction[]
+  items: Item[]
+  invoices: Invoice[]
+  payments: Payment[]
+}
+
+export default function ReceivablesAging() {
+  const stackedNavigate = useStackedNavigate()
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const [source, setSource] = useState<AgingSource | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedProjectIds, setExpandedProjectIds] = useState<Set<string>>(new Set())
+  const asOf = useMemo(() => getTodayDateString(), [])
+
+  const loadSource = useCallback(async () => {
+    if (!currentAccountId) {
+      setIsLoading(false)
+      return
+    }
+    setIsLoading(true)
+    try {
+      const projects = await projectService.getProjects(currentAccountId)
+      const projectIds = projects.map(project => project.id)
+      const [transactions, itemsByProject, invoices, payments] = await Promise.all([
+        transactionService.getTransactionsForProjects(currentAccountId, projectIds, projects),
+        Promise.all(projectIds.map(id => unifiedItemsService.getItemsByProject(currentAccountId, id))),
+        invoiceService.listInvoices(currentAccountId),
+        paymentService.listPayments(currentAccountId, projectIds),
+      ])
+      setSource({ projects, transactions, items: itemsByProject.flat(), invoices, payments })
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load receivables:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load receivables.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId])
+
+  useEffect(() => {
+    if (accountLoading) return
+    void loadSource()
+  }, [accountLoading, loadSource])
+
+  const report = useMemo(() => {
+    if (!source) return null
+    const projectAgings = source.projects.map(project =>
+      buildProjectAging({
+        projectId: project.id,
+        snapshot: buildInvoiceSnapshot(
+          project,
+          source.transactions.filter(t => t.projectId === project.id),
+          source.items.filter(item => item.projectId === project.id)
+        ),
+        invoices: source.invoices.filter(invoice => invoice.projectId === project.id),
+        payments: source.payments.filter(payment => payment.projectId === project.id),
+        asOf,
+      })
+    )
+    return buildAgingReport(projectAgings, asOf)
+  }, [source, asOf])
+
+  const toggleProject = (projectId: string) => {
+    setExpandedProjectIds(prev => {
+      const next = new Set(prev)
+      if (next.has(projectId)) {
+        next.delete(projectId)
+      } else {
+        next.add(projectId)
+      }
+      return next
+    })
+  }
+
+  const handleExport = () => {
+    if (!report) return
+    downloadTextFile(`ar-aging-${report.asOf}.csv`, toCsv(agingReportToCsvRows(report)))
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading receivables...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !report) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Error</h3>
+        <p className="mt-1 text-sm text-gray-500">{error || 'No account selected.'}</p>
+        <div className="mt-6">
+          <Button onClick={() => void loadSource()}>Retry</Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <ReportsNav />
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Accounts Receivable Aging</h1>
+          <p className="text-sm text-gray-500">As of {formatDate(report.asOf)}. Days are counted from the invoice date, or the transaction date for charges not yet invoiced.</p>
+        </div>
+        <Button variant="secondary" onClick={handleExport} disabled={report.projects.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {report.projects.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">Nothing outstanding. Every client is paid up.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Client / Project</th>
+                {AGING_BUCKETS.map(bucket => (
+                  <th key={bucket.key} className="px-4 py-2 text-right font-medium text-gray-600">{bucket.label} days</th>
+                ))}
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Unapplied Credits</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.projects.map(row => {
+                const isExpanded = expandedProjectIds.has(row.projectId)
+                return (
+                  <Fragment key={row.projectId}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-4 py-2">
+                        <div className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            onClick={() => toggleProject(row.projectId)}
+                            className="text-gray-400 hover:text-gray-600"
+                            title={isExpanded ? 'Hide details' : 'Show details'}
+                          >
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </button>
+                          <div>
+                            <div className="font-medium text-gray-900">{row.clientName || 'No client'}</div>
+                            <button
+                              type="button"
+                              onClick={() => stackedNavigate(projectInvoice(row.projectId))}
+                              className="text-primary-600 hover:text-primary-700"
+                            >
+                              {row.projectName}
+                            </button>
+                          </div>
+                        </div>
+                      </td>
+                      {AGING_BUCKETS.map(bucket => (
+                        <td key={bucket.key} className="px-4 py-2 text-right text-gray-900">{formatMoney(row.buckets[bucket.key])}</td>
+                      ))}
+                      <td className="px-4 py-2 text-right text-gray-600">{formatMoney(row.unappliedCredits)}</td>
+                      <td className="px-4 py-2 text-right font-semibold text-gray-900">{formatMoney(row.total)}</td>
+                    </tr>
+                    {isExpanded && row.entries.map(entry => (
+                      <tr key={`${row.projectId}-${entry.kind}-${entry.id}`} className="bg-gray-50">
+                        <td className="pl-14 pr-4 py-1.5">
+                          <button
+                            type="button"
+                            onClick={() =>
+                              stackedNavigate(
+                                entry.kind === 'invoice'
+                                  ? projectInvoiceRecord(row.projectId, entry.id)
+                                  : projectTransactionDetail(row.projectId, entry.id)
+                              )
+                            }
+                            className="text-primary-600 hover:text-primary-700"
+                          >
+                            {entry.description}
+                          </button>
+                          <span className="ml-2 text-xs text-gray-500">
+                            {formatDate(entry.date, '')} · {entry.ageDays} days
+                          </span>
+                        </td>
+                        {AGING_BUCKETS.map(bucket => (
+                          <td key={bucket.key} className="px-4 py-1.5 text-right text-gray-600">
+                            {entry.bucket === bucket.key ? formatMoney(entry.openAmount) : ''}
+                          </td>
+                        ))}
+                        <td className="px-4 py-1.5" />
+                        <td className="px-4 py-1.5" />
+                      </tr>
+                    ))}
+                  </Fragment>
+                )
+              })}
+            </tbody>
+            <tfoot className="bg-gray-50 font-semibold">
+              <tr>
+                <td className="px-4 py-2 text-gray-900">Total</td>
+                {AGING_BUCKETS.map(bucket => (
+                  <td key={bucket.key} className="px-4 py-2 text-right text-gray-900">{formatMoney(report.totals[bucket.key])}</td>
+                ))}
+                <td className="px-4 py-2 text-right text-gray-600">{formatMoney(report.unappliedCredits)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(report.total)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Download, Printer } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import ReportsNav from '@/components/reports/ReportsNav'
+import type { SalesTaxSource, TaxPeriodGranularity } from '@/utils/salesTaxReport'
+import { useAccount } from '@/contexts/AccountContext'
+import { projectService, transactionService, unifiedItemsService } from '@/services/inventoryService'
+import { getTaxPresets } from '@/services/taxPresetsService'
+import { downloadTextFile, toCsv } from '@/utils/csvExport'
+import { buildSalesTaxReport, salesTaxReportToCsvRows } from '@/utils/salesTaxReport'
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+const formatMoney = (value: string) => usd.format(Number.parseFloat(value) || 0)
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+// Quarterly filings usually cover the quarter that just ended.
+function getPreviousQuarterRange(): { startDate: string; endDate: string } {
+  const now = new Date()
+  const quarterStartMonth = Math.floor(now.getMonth() / 3) * 3
+  return {
+    startDate: toIsoDate(new Date(now.getFullYear(), quarterStartMonth - 3, 1)),
+    endDate: toIsoDate(new Date(now.getFullYear(), quarterStartMonth, 0)),
+  }
+}
+
+export default function SalesTaxReport() {
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const [source, setSource] = useState<SalesTaxSource | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [range, setRange] = useState(getPreviousQuarterRange)
+  const [granularity, setGranularity] = useState<TaxPeriodGranularity>('quarter')
+
+  const loadSource = useCallback(async () => {
+    if (!currentAccountId) {
+      setIsLoading(false)
+      return
+    }
+    setIsLoading(true)
+    try {
+      const projects = await projectService.getProjects(currentAccountId)
+      const projectIds = projects.map(project => project.id)
+      const [transactions, itemsByProject, presets] = await Promise.all([
+        transactionService.getTransactionsForProjects(currentAccountId, projectIds, projects),
+        Promise.all(projectIds.map(id => unifiedItemsService.getItemsByProject(currentAccountId, id))),
+        getTaxPresets(currentAccountId),
+      ])
+      setSource({ transactions, items: itemsByProject.flat(), presets })
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load sales tax:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load sales tax.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId])
+
+  useEffect(() => {
+    if (accountLoading) return
+    void loadSource()
+  }, [accountLoading, loadSource])
+
+  const report = useMemo(
+    () => (source ? buildSalesTaxReport(source, { ...range, granularity }) : null),
+    [source, range, granularity]
+  )
+
+  const handleExport = () => {
+    if (!report) return
+    downloadTextFile(`sales-tax-${range.startDate || 'start'}-to-${range.endDate || 'today'}.csv`, toCsv(salesTaxReportToCsvRows(report)))
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading sales tax...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !report) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Error</h3>
+        <p className="mt-1 text-sm text-gray-500">{error || 'No account selected.'}</p>
+        <div className="mt-6">
+          <Button onClick={() => void loadSource()}>Retry</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const { totals } = report
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <ReportsNav />
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Sales Tax</h1>
+          <p className="text-sm text-gray-500">
+            Tax paid on purchases and charged on resale, by tax preset. Untaxed transactions are left out.
+          </p>
+        </div>
+        <div className="flex gap-2 print:hidden">
+          <Button variant="secondary" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button variant="secondary" onClick={handleExport} disabled={report.rows.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 print:hidden">
+        <label className="block text-sm font-medium text-gray-700">
+          From
+          <input
+            type="date"
+            value={range.startDate}
+            onChange={e => setRange(prev => ({ ...prev, startDate: e.target.value }))}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          To
+          <input
+            type="date"
+            value={range.endDate}
+            onChange={e => setRange(prev => ({ ...prev, endDate: e.target.value }))}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Group by
+          <select
+            value={granularity}
+            onChange={e => setGranularity(e.target.value as TaxPeriodGranularity)}
+            className={inputClassName}
+          >
+            <option value="quarter">Quarter</option>
+            <option value="month">Month</option>
+          </select>
+        </label>
+      </div>
+      <p className="hidden print:block text-sm text-gray-600">
+        {range.startDate || 'Start'} to {range.endDate || 'today'}
+      </p>
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto print:shadow-none">
+        {report.rows.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No taxed transactions in the selected dates.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Period</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Jurisdiction</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Purchases (Pre-Tax)</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Tax Paid</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Resale (Pre-Tax)</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Tax Charged</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.rows.map(row => (
+                <tr key={`${row.period}-${row.jurisdictionKey}`} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-gray-900">{row.period}</td>
+                  <td className="px-4 py-2 font-medium text-gray-900">{row.jurisdiction}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{formatMoney(row.purchaseBase)}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{formatMoney(row.taxPaid)}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{formatMoney(row.resaleBase)}</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{formatMoney(row.taxCharged)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50 font-semibold">
+              <tr>
+                <td className="px-4 py-2 text-gray-900">Total</td>
+                <td className="px-4 py-2" />
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.purchaseBase)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.taxPaid)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.resaleBase)}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{formatMoney(totals.taxCharged)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -9,7 +9,9 @@ import UserManagement from '../components/auth/UserManagement'
 import AccountManagement from '../components/auth/AccountManagement'
 import TaxPresetsManager from '../components/TaxPresetsManager'
 import VendorDefaultsManager from '../components/VendorDefaultsManager'
+import PricingRulesManager from '../components/PricingRulesManager'
 import BudgetCategoriesManager from '../components/BudgetCategoriesManager'
+import QuickBooksConnectionManager from '../components/QuickBooksConnectionManager'
 import { Button } from '../components/ui/Button'
 
 export default function Settings() {
@@ -271,6 +273,14 @@ export default function Settings() {
                 </div>
               </div>
             )}
+
+            {isAdmin && (
+              <div className="bg-white overflow-hidden shadow rounded-lg">
+                <div className="p-6">
+                  <QuickBooksConnectionManager />
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -292,6 +302,12 @@ export default function Settings() {
                   </div>
                 </div>
 
+                <div className="bg-white overflow-hidden shadow rounded-lg">
+                  <div className="p-6">
+                    <PricingRulesManager />
+                  </div>
+                </div>
+
                 <div className="bg-white overflow-hidden shadow rounded-lg">
                   <div className="p-6">
                     {/* Section header removed — manager renders its own title/description */}
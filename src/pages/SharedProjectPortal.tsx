@@ -0,0 +1,277 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { FileText, Image as ImageIcon, User } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import ClientSummaryDocument from '@/components/ClientSummaryDocument'
+import InvoiceDocument from '@/components/InvoiceDocument'
+import type { SharedProject, SharedProjectInvoice } from '@/types'
+import { COMPANY_PROJECT_PORTAL_LOGO_ALT } from '@/constants/company'
+import { INVOICE_STATUS_LABELS } from '@/services/invoiceService'
+import { projectShareLinkService } from '@/services/projectShareLinkService'
+import { buildClientBudgetRevisions } from '@/utils/budgetChangeOrders'
+import { buildClientSummaryTotals } from '@/utils/clientSummary'
+import { downloadFile } from '@/utils/csvExport'
+import { formatDate } from '@/utils/dateUtils'
+import { formatInvoiceNumber } from '@/utils/invoiceSnapshot'
+import { renderPdfReport } from '@/utils/pdfReport'
+import { buildInvoicePdfDocument, getItemThumbnailUrl, toPdfFileName } from '@/utils/pdfReportDocuments'
+import { loadPdfReportBranding } from '@/utils/pdfImages'
+
+type PortalTab = 'summary' | 'invoices' | 'gallery'
+
+const getInvoiceDetails = (invoice: SharedProjectInvoice): string[] => [
+  `Invoice #: ${formatInvoiceNumber(invoice.invoiceNumber)}`,
+  `Date: ${formatDate(invoice.issueDate)}`,
+  ...(invoice.dueDate ? [`Due: ${formatDate(invoice.dueDate)}`] : []),
+  ...(Number.parseFloat(invoice.amountPaid) > 0 ? [`Paid: $${invoice.amountPaid} of $${invoice.totalDue}`] : []),
+]
+
+/**
+ * Read-only client view of one project, opened from a share link without signing in.
+ */
+export default function SharedProjectPortal() {
+  const { token } = useParams<{ token: string }>()
+  const [shared, setShared] = useState<SharedProject | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [activeTab, setActiveTab] = useState<PortalTab>('summary')
+  const [selectedInvoiceNumber, setSelectedInvoiceNumber] = useState<number | null>(null)
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false)
+
+  useEffect(() => {
+    if (!token) {
+      setError('This link is not valid.')
+      setIsLoading(false)
+      return
+    }
+    let cancelled = false
+    projectShareLinkService
+      .getSharedProject(token)
+      .then(result => {
+        if (cancelled) return
+        setShared(result)
+        setError(result ? null : 'This link has expired or is no longer available. Please ask for a new one.')
+      })
+      .catch(err => {
+        console.error('Failed to load shared project:', err)
+        if (!cancelled) setError('Failed to load this project. Please try again later.')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  const today = useMemo(() => new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }), [])
+
+  const categoryNames = useMemo(
+    () => new Map((shared?.categories || []).map(category => [category.id, category.name])),
+    [shared]
+  )
+
+  const summary = useMemo(
+    () => (shared ? buildClientSummaryTotals(shared.items, shared.transactions, categoryNames) : null),
+    [shared, categoryNames]
+  )
+
+  const budgetRevisions = useMemo(
+    () => (shared ? buildClientBudgetRevisions(shared.budgetCategories, shared.budgetChangeOrders, categoryNames) : null),
+    [shared, categoryNames]
+  )
+
+  const selectedInvoice = useMemo(() => {
+    if (!shared || shared.invoices.length === 0) return null
+    return shared.invoices.find(invoice => invoice.invoiceNumber === selectedInvoiceNumber) ?? shared.invoices[0]
+  }, [shared, selectedInvoiceNumber])
+
+  const galleryItems = useMemo(
+    () =>
+      (shared?.items || []).flatMap(item => {
+        const imageUrl = getItemThumbnailUrl(item)
+        return imageUrl ? [{ item, imageUrl }] : []
+      }),
+    [shared]
+  )
+
+  const handleDownloadInvoicePdf = async () => {
+    if (!shared || !selectedInvoice) return
+    setIsGeneratingPdf(true)
+    try {
+      const { snapshot } = selectedInvoice
+      const branding = await loadPdfReportBranding({
+        businessName: shared.businessName,
+        businessLogoUrl: shared.businessLogoUrl,
+        thumbnailUrls: [...snapshot.charges, ...snapshot.credits].flatMap(line => line.items.map(item => item.imageUrl)),
+        generatedAt: new Date(`${selectedInvoice.issueDate}T00:00:00`),
+      })
+      const pdf = await renderPdfReport(buildInvoicePdfDocument(snapshot, getInvoiceDetails(selectedInvoice), branding))
+      downloadFile(
+        toPdfFileName('Invoice', formatInvoiceNumber(selectedInvoice.invoiceNumber), snapshot.projectName),
+        pdf,
+        'application/pdf'
+      )
+    } catch (err) {
+      console.error('Failed to create invoice PDF:', err)
+    } finally {
+      setIsGeneratingPdf(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading project...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !shared || !summary) {
+    return (
+      <div className="text-center py-12 px-4">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Link unavailable</h3>
+        <p className="mt-1 text-sm text-gray-500">{error || 'This link is not valid.'}</p>
+      </div>
+    )
+  }
+
+  const tabs: Array<{ id: PortalTab; name: string; icon: typeof User }> = [
+    { id: 'summary', name: 'Summary', icon: User },
+    { id: 'invoices', name: 'Invoices', icon: FileText },
+    { id: 'gallery', name: 'Gallery', icon: ImageIcon },
+  ]
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-6 px-4 print:bg-white print:p-0">
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="flex items-center gap-3 print:hidden">
+          {shared.businessLogoUrl && (
+            <img src={shared.businessLogoUrl} alt={COMPANY_PROJECT_PORTAL_LOGO_ALT} className="h-10 w-auto object-contain" />
+          )}
+          <div>
+            <div className="text-sm font-medium text-gray-900">{shared.businessName}</div>
+            <div className="text-xs text-gray-500">{shared.projectName}</div>
+          </div>
+        </div>
+
+        <div className="border-b border-gray-200 print:hidden">
+          <nav className="-mb-px flex space-x-8">
+            {tabs.map(tab => {
+              const Icon = tab.icon
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`py-3 px-1 border-b-2 font-medium text-sm flex items-center ${
+                    activeTab === tab.id
+                      ? 'border-primary-500 text-primary-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <Icon className="h-4 w-4 mr-2" />
+                  {tab.name}
+                </button>
+              )
+            })}
+          </nav>
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-8 print:shadow-none print:p-0">
+          {activeTab === 'summary' && (
+            <ClientSummaryDocument
+              projectName={shared.projectName}
+              clientName={shared.clientName}
+              dateLabel={today}
+              businessName={shared.businessName}
+              businessLogoUrl={shared.businessLogoUrl}
+              items={shared.items}
+              summary={summary}
+              budgetRevisions={budgetRevisions}
+            />
+          )}
+
+          {activeTab === 'invoices' && !selectedInvoice && (
+            <div className="text-center py-12">
+              <div className="mx-auto h-12 w-12 text-gray-400">🧾</div>
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No invoices yet</h3>
+              <p className="mt-1 text-sm text-gray-500">Invoices appear here once they have been sent.</p>
+            </div>
+          )}
+
+          {activeTab === 'invoices' && selectedInvoice && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-6 print:hidden">
+                {shared.invoices.length > 1 ? (
+                  <select
+                    value={selectedInvoice.invoiceNumber}
+                    onChange={e => setSelectedInvoiceNumber(Number(e.target.value))}
+                    className="block px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    {shared.invoices.map(invoice => (
+                      <option key={invoice.invoiceNumber} value={invoice.invoiceNumber}>
+                        {formatInvoiceNumber(invoice.invoiceNumber)} · {formatDate(invoice.issueDate)} · {INVOICE_STATUS_LABELS[invoice.status]}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-sm text-gray-600">{INVOICE_STATUS_LABELS[selectedInvoice.status]}</span>
+                )}
+                <div className="flex gap-3">
+                  <Button variant="secondary" onClick={() => window.print()}>Print</Button>
+                  <Button onClick={() => void handleDownloadInvoicePdf()} disabled={isGeneratingPdf}>
+                    {isGeneratingPdf ? 'Preparing PDF...' : 'Download PDF'}
+                  </Button>
+                </div>
+              </div>
+              <InvoiceDocument
+                snapshot={selectedInvoice.snapshot}
+                businessName={shared.businessName}
+                businessLogoUrl={shared.businessLogoUrl}
+                details={getInvoiceDetails(selectedInvoice)}
+              />
+            </>
+          )}
+
+          {activeTab === 'gallery' && galleryItems.length === 0 && (
+            <div className="text-center py-12">
+              <div className="mx-auto h-12 w-12 text-gray-400">🖼️</div>
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No photos yet</h3>
+              <p className="mt-1 text-sm text-gray-500">Item photos will appear here as they are added.</p>
+            </div>
+          )}
+
+          {activeTab === 'gallery' && galleryItems.length > 0 && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {galleryItems.map(({ item, imageUrl }) => (
+                <a
+                  key={item.itemId}
+                  href={imageUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block rounded-lg border border-gray-100 overflow-hidden hover:shadow"
+                >
+                  <div className="aspect-square bg-gray-100">
+                    <img src={imageUrl} alt={item.description || 'Item'} className="w-full h-full object-cover" loading="lazy" />
+                  </div>
+                  <div className="px-3 py-2">
+                    <div className="text-sm font-medium text-gray-900 truncate">{item.description || 'Item'}</div>
+                    {item.space && <div className="text-xs text-gray-500 truncate">{item.space}</div>}
+                  </div>
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <p className="text-center text-xs text-gray-400 print:hidden">
+          Shared by {shared.businessName || 'your designer'} · This link expires {formatDate(shared.expiresAt)}
+        </p>
+      </div>
+    </div>
+  )
+}
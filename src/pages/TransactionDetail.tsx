@@ -59,9 +59,15 @@ const buildDisplayItems = (items: Item[], movedOutItemIds: Set<string>): Display
     id: item.itemId,
     description: item.description || '',
     purchasePrice: item.purchasePrice?.toString() || '',
+    projectPrice: item.projectPrice?.toString() || '',
+    pricingRuleId: item.pricingRuleId ?? null,
+    projectPriceOverridden: item.projectPriceOverridden ?? false,
     sku: item.sku || '',
     marketValue: item.marketValue?.toString() || '',
     notes: item.notes || '',
+    dimensions: item.dimensions ?? null,
+    weight: item.weight ?? null,
+    condition: item.condition ?? null,
     disposition: item.disposition,
     imageFiles: [],
     images: item.images || [],
@@ -881,7 +887,12 @@ export default function TransactionDetail() {
         notes: item.notes || '',
         space: item.space || '',
         taxAmountPurchasePrice: item.taxAmountPurchasePrice,
-        taxAmountProjectPrice: item.taxAmountProjectPrice
+        taxAmountProjectPrice: item.taxAmountProjectPrice,
+        pricingRuleId: item.pricingRuleId ?? null,
+        projectPriceOverridden: item.projectPriceOverridden ?? false,
+        dimensions: item.dimensions ?? null,
+        weight: item.weight ?? null,
+        condition: item.condition ?? null
       }
 
       const wasOffline = !isOnline
@@ -1293,6 +1304,7 @@ export default function TransactionDetail() {
                     onImageFilesChange={handleImageFilesChange}
                     onDeleteItem={handleDeletePersistedItem}
                     containerId="transaction-items-container"
+                    pricingContext={{ vendor: transaction.source, categoryId: transaction.categoryId }}
                   />
                 </div>
               )}
@@ -1317,6 +1329,7 @@ export default function TransactionDetail() {
                       onImageFilesChange={handleImageFilesChange}
                       onDeleteItem={handleDeletePersistedItem}
                       showSelectionControls={false}
+                      pricingContext={{ vendor: transaction.source, categoryId: transaction.categoryId }}
                     />
                   </div>
                 </div>
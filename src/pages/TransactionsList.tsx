@@ -1,4 +1,4 @@
-import { Plus, Search, Filter, FileUp } from 'lucide-react'
+import { Plus, Search, Filter, FileUp, FileSpreadsheet, FileDown } from 'lucide-react'
 import { useParams } from 'react-router-dom'
 import ContextLink from '@/components/ContextLink'
 import { useNavigationContext } from '@/hooks/useNavigationContext'
@@ -8,7 +8,13 @@ import { transactionService } from '@/services/inventoryService'
 import type { Transaction as TransactionType } from '@/types'
 import { COMPANY_INVENTORY_SALE, COMPANY_INVENTORY_PURCHASE, CLIENT_OWES_COMPANY, COMPANY_OWES_CLIENT } from '@/constants/company'
 import { useAccount } from '@/contexts/AccountContext'
-import { projectTransactionDetail, projectTransactionImport, projectTransactionNew } from '@/utils/routes'
+import {
+  projectTransactionDetail,
+  projectTransactionImportInvoice,
+  projectTransactionImportSpreadsheet,
+  accountingExport,
+  projectTransactionNew,
+} from '@/utils/routes'
 import { budgetCategoriesService } from '@/services/budgetCategoriesService'
 import { hydrateProjectTransactionsCache } from '@/utils/hydrationHelpers'
 import { getGlobalQueryClient } from '@/utils/queryClient'
@@ -271,14 +277,34 @@ export default function TransactionsList({ projectId: propProjectId, transaction
             Add
           </ContextLink>
 
-          {/* Import Wayfair Invoice Button */}
+          {/* Import Vendor Invoice Button */}
           <ContextLink
-            to={buildContextUrl(projectTransactionImport(projectId), { project: projectId })}
+            to={buildContextUrl(projectTransactionImportInvoice(projectId), { project: projectId })}
             className="inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200 flex-shrink-0"
-            title="Import a Wayfair invoice PDF"
+            title="Import a vendor invoice PDF"
           >
             <FileUp className="h-4 w-4 mr-2" />
-            Import Wayfair Invoice
+            Import Invoice
+          </ContextLink>
+
+          {/* Import Spreadsheet Button */}
+          <ContextLink
+            to={buildContextUrl(projectTransactionImportSpreadsheet(projectId), { project: projectId })}
+            className="inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200 flex-shrink-0"
+            title="Import transactions and items from a CSV spreadsheet"
+          >
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Import CSV
+          </ContextLink>
+
+          {/* Accounting Export Button */}
+          <ContextLink
+            to={`${accountingExport()}?projectId=${encodeURIComponent(projectId)}`}
+            className="inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors duration-200 flex-shrink-0"
+            title="Export transactions to IIF or a journal-entry CSV"
+          >
+            <FileDown className="h-4 w-4 mr-2" />
+            Export
           </ContextLink>
 
           {/* Filter Button */}
@@ -0,0 +1,249 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, Download } from 'lucide-react'
+import { useStackedNavigate } from '@/hooks/useStackedNavigate'
+import { Button } from '@/components/ui/Button'
+import ReportsNav from '@/components/reports/ReportsNav'
+import type { VendorSpendSource } from '@/utils/vendorSpend'
+import { useAccount } from '@/contexts/AccountContext'
+import { projectService, transactionService, unifiedItemsService } from '@/services/inventoryService'
+import { getAvailableVendors } from '@/services/vendorDefaultsService'
+import { downloadTextFile, toCsv } from '@/utils/csvExport'
+import { projectTransactions } from '@/utils/routes'
+import { buildVendorSpend, vendorSpendToCsvRows } from '@/utils/vendorSpend'
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+const formatMoney = (value: string) => usd.format(Number.parseFloat(value) || 0)
+
+const inputClassName =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500'
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number)
+  return new Date(year, monthNumber - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+}
+
+export default function VendorSpendReport() {
+  const stackedNavigate = useStackedNavigate()
+  const { currentAccountId, loading: accountLoading } = useAccount()
+  const [source, setSource] = useState<VendorSpendSource | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [range, setRange] = useState({ startDate: '', endDate: '' })
+  const [expandedVendors, setExpandedVendors] = useState<Set<string>>(new Set())
+
+  const loadSource = useCallback(async () => {
+    if (!currentAccountId) {
+      setIsLoading(false)
+      return
+    }
+    setIsLoading(true)
+    try {
+      const projects = await projectService.getProjects(currentAccountId)
+      const projectIds = projects.map(project => project.id)
+      const [projectTransactionsList, inventoryTransactions, itemsByProject, inventoryItems, vendorDefaults] = await Promise.all([
+        transactionService.getTransactionsForProjects(currentAccountId, projectIds, projects),
+        transactionService.getBusinessInventoryTransactions(currentAccountId),
+        Promise.all(projectIds.map(id => unifiedItemsService.getItemsByProject(currentAccountId, id))),
+        unifiedItemsService.getBusinessInventoryItems(currentAccountId),
+        getAvailableVendors(currentAccountId),
+      ])
+      setSource({
+        projects,
+        transactions: [...projectTransactionsList, ...inventoryTransactions],
+        items: [...itemsByProject.flat(), ...inventoryItems],
+        vendorDefaults,
+      })
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load vendor spend:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load vendor spend.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentAccountId])
+
+  useEffect(() => {
+    if (accountLoading) return
+    void loadSource()
+  }, [accountLoading, loadSource])
+
+  const vendors = useMemo(() => (source ? buildVendorSpend(source, range) : null), [source, range])
+
+  const toggleVendor = (vendor: string) => {
+    setExpandedVendors(prev => {
+      const next = new Set(prev)
+      if (next.has(vendor)) {
+        next.delete(vendor)
+      } else {
+        next.add(vendor)
+      }
+      return next
+    })
+  }
+
+  const handleExport = () => {
+    if (!vendors) return
+    downloadTextFile(`vendor-spend-${range.startDate || 'start'}-to-${range.endDate || 'today'}.csv`, toCsv(vendorSpendToCsvRows(vendors)))
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          <p className="mt-2 text-sm text-gray-600">Loading vendor spend...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !vendors) {
+    return (
+      <div className="text-center py-12">
+        <div className="mx-auto h-12 w-12 text-red-400">⚠️</div>
+        <h3 className="mt-2 text-sm font-medium text-gray-900">Error</h3>
+        <p className="mt-1 text-sm text-gray-500">{error || 'No account selected.'}</p>
+        <div className="mt-6">
+          <Button onClick={() => void loadSource()}>Retry</Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <ReportsNav />
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Vendor Spend</h1>
+          <p className="text-sm text-gray-500">
+            Purchases and returns by vendor, across projects and business inventory. Return rate compares returned dollars to purchased dollars.
+          </p>
+        </div>
+        <Button variant="secondary" onClick={handleExport} disabled={vendors.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          From
+          <input
+            type="date"
+            value={range.startDate}
+            onChange={e => setRange(prev => ({ ...prev, startDate: e.target.value }))}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          To
+          <input
+            type="date"
+            value={range.endDate}
+            onChange={e => setRange(prev => ({ ...prev, endDate: e.target.value }))}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        {vendors.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No vendor transactions in the selected dates.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-600">Vendor</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Orders</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Net Spend</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Average Order</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Returns</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Return Rate</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Items Returned</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-600">Projects</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {vendors.map(vendor => {
+                const isExpanded = expandedVendors.has(vendor.vendor)
+                return (
+                  <Fragment key={vendor.vendor}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-4 py-2">
+                        <div className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            onClick={() => toggleVendor(vendor.vendor)}
+                            className="text-gray-400 hover:text-gray-600"
+                            title={isExpanded ? 'Hide details' : 'Show details'}
+                          >
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </button>
+                          <span className="font-medium text-gray-900">{vendor.vendor}</span>
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-900">{vendor.purchaseCount}</td>
+                      <td className="px-4 py-2 text-right font-semibold text-gray-900">{formatMoney(vendor.netSpend)}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatMoney(vendor.averageOrder)}</td>
+                      <td className="px-4 py-2 text-right text-gray-600">
+                        {vendor.returnCount} · {formatMoney(vendor.returnTotal)}
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-900">
+                        {vendor.returnRate === null ? '—' : `${vendor.returnRate.toFixed(1)}%`}
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-600">
+                        {vendor.returnedItemCount} of {vendor.itemCount}
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-900">{vendor.projects.length}</td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={8} className="pl-10 pr-4 py-3">
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div>
+                              <h4 className="text-xs font-semibold uppercase text-gray-500 mb-1">Spend by Month</h4>
+                              <ul className="space-y-0.5">
+                                {vendor.monthly.map(entry => (
+                                  <li key={entry.month} className="flex justify-between text-gray-700">
+                                    <span>{formatMonth(entry.month)}</span>
+                                    <span>{formatMoney(entry.netSpend)}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                            <div>
+                              <h4 className="text-xs font-semibold uppercase text-gray-500 mb-1">Projects</h4>
+                              {vendor.projects.length === 0 ? (
+                                <p className="text-gray-500">Business inventory only.</p>
+                              ) : (
+                                <ul className="space-y-0.5">
+                                  {vendor.projects.map(project => (
+                                    <li key={project.projectId} className="flex justify-between">
+                                      <button
+                                        type="button"
+                                        onClick={() => stackedNavigate(projectTransactions(project.projectId))}
+                                        className="text-primary-600 hover:text-primary-700"
+                                      >
+                                        {project.projectName}
+                                      </button>
+                                      <span className="text-gray-700">{formatMoney(project.netSpend)}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
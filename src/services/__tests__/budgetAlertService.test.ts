@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockQueryBuilder } from './test-utils'
+
+vi.mock('../supabase', async () => {
+  const { createMockSupabaseClient } = await import('./test-utils')
+  return {
+    supabase: createMockSupabaseClient()
+  }
+})
+
+vi.mock('../databaseService', () => ({
+  handleSupabaseError: vi.fn((error, options) => {
+    if (error && !options?.returnNullOnNotFound) {
+      throw error
+    }
+    return error
+  }),
+  ensureAuthenticatedForDatabase: vi.fn().mockResolvedValue(undefined)
+}))
+
+import { budgetAlertService } from '../budgetAlertService'
+import * as supabaseModule from '../supabase'
+
+describe('budgetAlertService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('evaluateProjectAlerts', () => {
+    it('records one deduped notification per reached threshold', async () => {
+      const projectBuilder = createMockQueryBuilder({ id: 'project-1', name: 'Lake House', budget_categories: { 'cat-1': 1000, 'cat-2': 500 } })
+      const transactionsBuilder = createMockQueryBuilder([
+        { transaction_id: 'T-1', category_id: 'cat-1', amount: '900.00', status: 'completed', transaction_type: 'Purchase' },
+        { transaction_id: 'T-2', category_id: 'cat-1', amount: '150.00', status: 'completed', transaction_type: 'Purchase' },
+        { transaction_id: 'T-3', category_id: 'cat-1', amount: '100.00', status: 'completed', transaction_type: 'Return' },
+        { transaction_id: 'T-4', category_id: 'cat-2', amount: '500.00', status: 'pending', transaction_type: 'Purchase' },
+      ])
+      const rulesBuilder = createMockQueryBuilder([])
+      const categoriesBuilder = createMockQueryBuilder([{ id: 'cat-1', name: 'Furnishings' }])
+      const notificationsBuilder = createMockQueryBuilder([])
+      vi.mocked(supabaseModule.supabase.from)
+        .mockReturnValueOnce(projectBuilder)
+        .mockReturnValueOnce(transactionsBuilder)
+        .mockReturnValueOnce(rulesBuilder)
+        .mockReturnValueOnce(categoriesBuilder)
+        .mockReturnValueOnce(notificationsBuilder)
+
+      await budgetAlertService.evaluateProjectAlerts('test-account-id', 'project-1')
+
+      // 950 of 1000 spent reaches 80% but not 100%; the pending cat-2 spend doesn't count yet
+      const [rows, options] = notificationsBuilder.upsert.mock.calls[0]
+      expect(rows).toEqual([
+        expect.objectContaining({
+          account_id: 'test-account-id',
+          project_id: 'project-1',
+          type: 'budget_threshold',
+          title: 'Lake House: Furnishings reached 80% of budget',
+          body: '$950.00 spent of $1,000.00 budgeted.',
+          link: '/project/project-1/budget',
+          dedupe_key: 'budget-threshold:project-1:cat-1:80',
+        }),
+      ])
+      expect(options).toEqual({ onConflict: 'account_id,dedupe_key', ignoreDuplicates: true })
+    })
+
+    it('does nothing for a project without category budgets', async () => {
+      vi.mocked(supabaseModule.supabase.from)
+        .mockReturnValueOnce(createMockQueryBuilder({ id: 'project-1', name: 'Lake House', budget_categories: {} }))
+
+      await expect(budgetAlertService.evaluateProjectAlerts('test-account-id', 'project-1')).resolves.toEqual([])
+      expect(supabaseModule.supabase.from).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockQueryBuilder } from './test-utils'
+
+vi.mock('../supabase', async () => {
+  const { createMockSupabaseClient } = await import('./test-utils')
+  return {
+    supabase: { ...createMockSupabaseClient(), rpc: vi.fn() }
+  }
+})
+
+vi.mock('../databaseService', () => ({
+  handleSupabaseError: vi.fn((error, options) => {
+    if (error && !options?.returnNullOnNotFound) {
+      throw error
+    }
+    return error
+  }),
+  ensureAuthenticatedForDatabase: vi.fn().mockResolvedValue(undefined)
+}))
+
+import { budgetChangeOrderService } from '../budgetChangeOrderService'
+import * as supabaseModule from '../supabase'
+
+const createMockChangeOrderRow = (overrides?: Record<string, unknown>) => ({
+  id: 'change-order-1',
+  account_id: 'test-account-id',
+  project_id: 'project-1',
+  category_id: 'category-1',
+  amount: 1500,
+  reason: 'Client added a reading nook',
+  status: 'pending',
+  requested_on: '2025-02-01',
+  approved_by: null,
+  approved_on: null,
+  created_by: 'user-1',
+  created_at: '2025-02-01T00:00:00Z',
+  ...overrides
+})
+
+describe('budgetChangeOrderService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('createChangeOrder', () => {
+    it('creates and approves the change order in one call when an approver is given', async () => {
+      vi.mocked(supabaseModule.supabase.rpc).mockResolvedValueOnce({
+        data: createMockChangeOrderRow({ status: 'approved', approved_by: 'Jane Client', approved_on: '2025-02-01' }),
+        error: null,
+      } as never)
+
+      const changeOrder = await budgetChangeOrderService.createChangeOrder('test-account-id', 'project-1', {
+        categoryId: 'category-1',
+        amount: '1,500',
+        reason: ' Client added a reading nook ',
+        approvedBy: ' Jane Client ',
+        createdBy: 'user-1',
+      })
+
+      expect(supabaseModule.supabase.from).not.toHaveBeenCalled()
+      expect(supabaseModule.supabase.rpc).toHaveBeenCalledWith('create_approved_budget_change_order', {
+        p_account_id: 'test-account-id',
+        p_project_id: 'project-1',
+        p_category_id: 'category-1',
+        p_amount: '1500.00',
+        p_reason: 'Client added a reading nook',
+        p_approved_by: 'Jane Client',
+        p_requested_on: undefined,
+      })
+      expect(changeOrder).toMatchObject({
+        status: 'approved',
+        amount: '1500.00',
+        approvedBy: 'Jane Client',
+        approvedOn: '2025-02-01',
+      })
+    })
+
+    it('inserts a pending change order without an approver', async () => {
+      const insertBuilder = createMockQueryBuilder(createMockChangeOrderRow())
+      vi.mocked(supabaseModule.supabase.from).mockReturnValueOnce(insertBuilder)
+
+      const changeOrder = await budgetChangeOrderService.createChangeOrder('test-account-id', 'project-1', {
+        categoryId: 'category-1',
+        amount: '-250',
+        reason: 'Dropped the rug',
+      })
+
+      expect(insertBuilder.insert.mock.calls[0][0]).toMatchObject({ amount: '-250.00', reason: 'Dropped the rug' })
+      expect(insertBuilder.insert.mock.calls[0][0]).not.toHaveProperty('status')
+      expect(supabaseModule.supabase.rpc).not.toHaveBeenCalled()
+      expect(changeOrder.status).toBe('pending')
+    })
+  })
+
+  describe('approveChangeOrder', () => {
+    it('applies the change order through the approval function', async () => {
+      vi.mocked(supabaseModule.supabase.rpc).mockResolvedValueOnce({
+        data: createMockChangeOrderRow({ status: 'approved', approved_by: 'Jane Client', approved_on: '2025-02-03' }),
+        error: null,
+      } as never)
+
+      await budgetChangeOrderService.approveChangeOrder('change-order-1', ' Jane Client ', '2025-02-03')
+
+      expect(supabaseModule.supabase.rpc).toHaveBeenCalledWith('approve_budget_change_order', {
+        p_change_order_id: 'change-order-1',
+        p_approved_by: 'Jane Client',
+        p_approved_on: '2025-02-03',
+      })
+    })
+
+    it('surfaces the database error message', async () => {
+      vi.mocked(supabaseModule.supabase.rpc).mockResolvedValueOnce({
+        data: null,
+        error: { message: 'This change would make the category budget negative' },
+      } as never)
+
+      await expect(
+        budgetChangeOrderService.approveChangeOrder('change-order-1', 'Jane Client')
+      ).rejects.toThrow('This change would make the category budget negative')
+    })
+  })
+})
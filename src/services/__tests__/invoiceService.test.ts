@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockQueryBuilder } from './test-utils'
+
+vi.mock('../supabase', async () => {
+  const { createMockSupabaseClient } = await import('./test-utils')
+  return {
+    supabase: createMockSupabaseClient()
+  }
+})
+
+vi.mock('../databaseService', () => ({
+  handleSupabaseError: vi.fn((error, options) => {
+    if (error && !options?.returnNullOnNotFound) {
+      throw error
+    }
+    return error
+  }),
+  ensureAuthenticatedForDatabase: vi.fn().mockResolvedValue(undefined)
+}))
+
+import { canTransitionInvoiceStatus, invoiceService } from '../invoiceService'
+import * as supabaseModule from '../supabase'
+import type { Invoice, InvoiceSnapshot } from '@/types'
+
+const snapshot: InvoiceSnapshot = {
+  projectName: 'Lake House',
+  charges: [{ transactionId: 'T-1', title: 'Wayfair', transactionDate: '2024-12-01', amount: '100.00', items: [] }],
+  credits: [],
+  chargesTotal: '100.00',
+  creditsTotal: '0.00',
+  totalDue: '100.00',
+}
+
+const createMockInvoiceRow = (overrides?: Record<string, unknown>) => ({
+  id: 'invoice-1',
+  account_id: 'test-account-id',
+  project_id: 'project-1',
+  invoice_number: 3,
+  status: 'draft',
+  issue_date: '2024-12-10',
+  due_date: null,
+  total_due: 100,
+  amount_paid: 0,
+  snapshot,
+  notes: null,
+  created_by: 'user-1',
+  created_at: '2024-12-10T00:00:00Z',
+  updated_at: '2024-12-10T00:00:00Z',
+  ...overrides
+})
+
+describe('invoiceService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('canTransitionInvoiceStatus', () => {
+    it('follows draft -> sent -> partially paid -> paid and allows voiding unpaid invoices', () => {
+      expect(canTransitionInvoiceStatus('draft', 'sent')).toBe(true)
+      expect(canTransitionInvoiceStatus('sent', 'partially_paid')).toBe(true)
+      expect(canTransitionInvoiceStatus('partially_paid', 'paid')).toBe(true)
+      expect(canTransitionInvoiceStatus('sent', 'void')).toBe(true)
+
+      expect(canTransitionInvoiceStatus('draft', 'paid')).toBe(false)
+      expect(canTransitionInvoiceStatus('paid', 'void')).toBe(false)
+      expect(canTransitionInvoiceStatus('void', 'draft')).toBe(false)
+    })
+  })
+
+  describe('createInvoice', () => {
+    it('inserts a draft with the snapshot and leaves numbering to the database', async () => {
+      const builder = createMockQueryBuilder(createMockInvoiceRow())
+      vi.mocked(supabaseModule.supabase.from).mockReturnValue(builder)
+
+      const invoice = await invoiceService.createInvoice('test-account-id', 'project-1', snapshot, {
+        issueDate: '2024-12-10',
+        createdBy: 'user-1',
+      })
+
+      const payload = builder.insert.mock.calls[0][0]
+      expect(payload).toMatchObject({
+        account_id: 'test-account-id',
+        project_id: 'project-1',
+        status: 'draft',
+        total_due: '100.00',
+        snapshot,
+      })
+      expect(payload).not.toHaveProperty('invoice_number')
+      expect(invoice).toMatchObject({ invoiceNumber: 3, status: 'draft', totalDue: '100.00', amountPaid: '0.00' })
+    })
+
+    it('rejects empty snapshots', async () => {
+      await expect(
+        invoiceService.createInvoice('test-account-id', 'project-1', { ...snapshot, charges: [] }, { issueDate: '2024-12-10' })
+      ).rejects.toThrow('no charges or credits')
+    })
+  })
+
+  describe('updateInvoiceStatus', () => {
+    it('stamps sent_at when sending a draft', async () => {
+      const builder = createMockQueryBuilder(createMockInvoiceRow())
+      vi.mocked(supabaseModule.supabase.from).mockReturnValue(builder)
+
+      await invoiceService.updateInvoiceStatus('test-account-id', 'invoice-1', 'sent')
+
+      const updates = builder.update.mock.calls[0][0]
+      expect(updates.status).toBe('sent')
+      expect(typeof updates.sent_at).toBe('string')
+    })
+
+    it('refuses transitions the lifecycle does not allow', async () => {
+      vi.mocked(supabaseModule.supabase.from).mockReturnValue(
+        createMockQueryBuilder(createMockInvoiceRow({ status: 'void' }))
+      )
+
+      await expect(invoiceService.updateInvoiceStatus('test-account-id', 'invoice-1', 'sent'))
+        .rejects.toThrow('Cannot change invoice from Void to Sent')
+    })
+  })
+
+  describe('archiveInvoicePdf', () => {
+    const pdf = new Uint8Array([37, 80, 68, 70])
+    const sentInvoice: Invoice = {
+      id: 'invoice-1',
+      accountId: 'test-account-id',
+      projectId: 'project-1',
+      invoiceNumber: 3,
+      status: 'sent',
+      issueDate: '2024-12-10',
+      totalDue: '100.00',
+      amountPaid: '0.00',
+      snapshot,
+      createdAt: '2024-12-10T00:00:00Z',
+      updatedAt: '2024-12-10T00:00:00Z',
+      pdfPath: null,
+    }
+    const mockUpload = (result: { data: unknown; error: unknown }) => {
+      const upload = vi.fn().mockResolvedValue(result)
+      vi.mocked(supabaseModule.supabase.storage.from).mockReturnValue(
+        { upload } as unknown as ReturnType<typeof supabaseModule.supabase.storage.from>
+      )
+      return upload
+    }
+
+    it('uploads without overwriting and records the path', async () => {
+      const upload = mockUpload({ data: { path: 'stored' }, error: null })
+      const builder = createMockQueryBuilder(createMockInvoiceRow({ status: 'sent', pdf_path: 'stored' }))
+      vi.mocked(supabaseModule.supabase.from).mockReturnValue(builder)
+
+      const archived = await invoiceService.archiveInvoicePdf('test-account-id', sentInvoice, pdf)
+
+      expect(upload.mock.calls[0][0]).toBe('accounts/test-account-id/invoices/invoice-1/INV-0003.pdf')
+      expect(upload.mock.calls[0][2]).toMatchObject({ upsert: false })
+      expect(builder.update.mock.calls[0][0].pdf_path).toBe('accounts/test-account-id/invoices/invoice-1/INV-0003.pdf')
+      expect(archived.pdfPath).toBe('stored')
+    })
+
+    it('keeps an existing archive instead of uploading again', async () => {
+      const upload = mockUpload({ data: null, error: null })
+      const invoice = { ...sentInvoice, pdfPath: 'stored' }
+
+      await expect(invoiceService.archiveInvoicePdf('test-account-id', invoice, pdf)).resolves.toBe(invoice)
+      expect(upload).not.toHaveBeenCalled()
+    })
+
+    it('links a file left by an earlier attempt', async () => {
+      mockUpload({ data: null, error: { message: 'The resource already exists', statusCode: '409' } })
+      const builder = createMockQueryBuilder(createMockInvoiceRow({ status: 'sent', pdf_path: 'stored' }))
+      vi.mocked(supabaseModule.supabase.from).mockReturnValue(builder)
+
+      const archived = await invoiceService.archiveInvoicePdf('test-account-id', sentInvoice, pdf)
+
+      expect(archived.pdfPath).toBe('stored')
+    })
+
+    it('reports other upload failures', async () => {
+      mockUpload({ data: null, error: { message: 'new row violates row-level security policy', statusCode: '403' } })
+
+      await expect(invoiceService.archiveInvoicePdf('test-account-id', sentInvoice, pdf)).rejects.toThrow('Failed to archive invoice PDF: new row violates row-level security policy')
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockQueryBuilder } from './test-utils'
+
+vi.mock('../supabase', async () => {
+  const { createMockSupabaseClient } = await import('./test-utils')
+  return {
+    supabase: createMockSupabaseClient()
+  }
+})
+
+vi.mock('../databaseService', () => ({
+  handleSupabaseError: vi.fn((error, options) => {
+    if (error && !options?.returnNullOnNotFound) {
+      throw error
+    }
+    return error
+  }),
+  ensureAuthenticatedForDatabase: vi.fn().mockResolvedValue(undefined)
+}))
+
+import { convertItemApprovalPortalFromDb, itemApprovalService } from '../itemApprovalService'
+import { hashShareToken } from '../projectShareLinkService'
+import * as supabaseModule from '../supabase'
+
+const createMockRequestRow = (overrides?: Record<string, unknown>) => ({
+  id: 'request-1',
+  account_id: 'test-account-id',
+  project_id: 'project-1',
+  message: 'Living room picks',
+  expires_at: '2030-01-01T00:00:00Z',
+  revoked_at: null,
+  created_by: 'user-1',
+  created_at: '2024-12-10T00:00:00Z',
+  ...overrides
+})
+
+describe('itemApprovalService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('createApprovalRequest', () => {
+    it('stores the token hash and one pending row per distinct item', async () => {
+      const requestBuilder = createMockQueryBuilder(createMockRequestRow())
+      const itemsBuilder = createMockQueryBuilder(null)
+      vi.mocked(supabaseModule.supabase.from)
+        .mockReturnValueOnce(requestBuilder)
+        .mockReturnValueOnce(itemsBuilder)
+
+      const { request, url } = await itemApprovalService.createApprovalRequest(
+        'test-account-id',
+        'project-1',
+        ['I-1', 'I-2', 'I-1'],
+        { expiresInDays: 7, message: ' Living room picks ' }
+      )
+
+      const token = url.split('/approve/')[1]
+      expect(requestBuilder.insert.mock.calls[0][0]).toMatchObject({
+        project_id: 'project-1',
+        message: 'Living room picks',
+        token_hash: await hashShareToken(token),
+      })
+      expect(itemsBuilder.insert.mock.calls[0][0]).toEqual([
+        { request_id: 'request-1', account_id: 'test-account-id', item_id: 'I-1' },
+        { request_id: 'request-1', account_id: 'test-account-id', item_id: 'I-2' },
+      ])
+      expect(request).toMatchObject({ id: 'request-1', projectId: 'project-1' })
+    })
+
+    it('rejects an empty selection', async () => {
+      await expect(
+        itemApprovalService.createApprovalRequest('test-account-id', 'project-1', [], { expiresInDays: 7 })
+      ).rejects.toThrow('Select at least one item')
+    })
+  })
+
+  describe('getPendingItemIds', () => {
+    it('returns pending items from open requests only', async () => {
+      const requestsBuilder = createMockQueryBuilder([{ id: 'request-1' }])
+      const itemsBuilder = createMockQueryBuilder([{ item_id: 'I-1' }, { item_id: 'I-2' }])
+      vi.mocked(supabaseModule.supabase.from)
+        .mockReturnValueOnce(requestsBuilder)
+        .mockReturnValueOnce(itemsBuilder)
+
+      const pending = await itemApprovalService.getPendingItemIds('test-account-id', 'project-1')
+
+      expect(requestsBuilder.is).toHaveBeenCalledWith('revoked_at', null)
+      expect(itemsBuilder.eq).toHaveBeenCalledWith('decision', 'pending')
+      expect(itemsBuilder.in).toHaveBeenCalledWith('request_id', ['request-1'])
+      expect(Array.from(pending)).toEqual(['I-1', 'I-2'])
+    })
+  })
+
+  describe('convertItemApprovalPortalFromDb', () => {
+    it('maps items with their decisions', () => {
+      const portal = convertItemApprovalPortalFromDb({
+        project: { name: 'Lake House', client_name: 'Jane' },
+        business: null,
+        message: null,
+        expires_at: '2030-01-01T00:00:00Z',
+        items: [{
+          item_id: 'I-1',
+          description: 'Sofa',
+          source: null,
+          sku: null,
+          space: 'Living Room',
+          project_price: '1200.00',
+          images: null,
+          decision: 'approved',
+          comment: 'Love it',
+          decided_at: '2024-12-11T00:00:00Z',
+        }],
+      })
+
+      expect(portal).toMatchObject({ projectName: 'Lake House', clientName: 'Jane', businessName: '' })
+      expect(portal.items[0]).toMatchObject({ itemId: 'I-1', source: '', images: [], decision: 'approved', comment: 'Love it' })
+    })
+  })
+})
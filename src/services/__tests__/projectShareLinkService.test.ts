@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMockQueryBuilder } from './test-utils'
+
+vi.mock('../supabase', async () => {
+  const { createMockSupabaseClient } = await import('./test-utils')
+  return {
+    supabase: createMockSupabaseClient()
+  }
+})
+
+vi.mock('../databaseService', () => ({
+  handleSupabaseError: vi.fn((error, options) => {
+    if (error && !options?.returnNullOnNotFound) {
+      throw error
+    }
+    return error
+  }),
+  ensureAuthenticatedForDatabase: vi.fn().mockResolvedValue(undefined)
+}))
+
+import {
+  convertSharedProjectFromDb,
+  hashShareToken,
+  isShareLinkActive,
+  projectShareLinkService,
+} from '../projectShareLinkService'
+import * as supabaseModule from '../supabase'
+
+const createMockLinkRow = (overrides?: Record<string, unknown>) => ({
+  id: 'link-1',
+  account_id: 'test-account-id',
+  project_id: 'project-1',
+  label: 'Jane',
+  expires_at: '2030-01-01T00:00:00Z',
+  revoked_at: null,
+  created_by: 'user-1',
+  created_at: '2024-12-10T00:00:00Z',
+  last_accessed_at: null,
+  access_count: 0,
+  ...overrides
+})
+
+describe('projectShareLinkService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('createShareLink', () => {
+    it('stores only the token hash and returns the token in the portal URL', async () => {
+      const builder = createMockQueryBuilder(createMockLinkRow())
+      vi.mocked(supabaseModule.supabase.from).mockReturnValue(builder)
+
+      const { link, url } = await projectShareLinkService.createShareLink('test-account-id', 'project-1', {
+        expiresInDays: 30,
+        label: '  Jane  ',
+        createdBy: 'user-1',
+      })
+
+      const token = url.split('/share/')[1]
+      expect(token).toMatch(/^[0-9a-f]{64}$/)
+
+      const payload = builder.insert.mock.calls[0][0]
+      expect(payload).toMatchObject({ account_id: 'test-account-id', project_id: 'project-1', label: 'Jane' })
+      expect(payload.token_hash).toBe(await hashShareToken(token))
+      expect(JSON.stringify(payload)).not.toContain(token)
+      expect(link).toMatchObject({ id: 'link-1', accessCount: 0, revokedAt: null })
+    })
+  })
+
+  describe('isShareLinkActive', () => {
+    const now = new Date('2025-01-01T00:00:00Z')
+
+    it('rejects revoked and expired links', () => {
+      expect(isShareLinkActive({ revokedAt: null, expiresAt: '2025-02-01T00:00:00Z' }, now)).toBe(true)
+      expect(isShareLinkActive({ revokedAt: '2024-12-31T00:00:00Z', expiresAt: '2025-02-01T00:00:00Z' }, now)).toBe(false)
+      expect(isShareLinkActive({ revokedAt: null, expiresAt: '2024-12-31T00:00:00Z' }, now)).toBe(false)
+    })
+  })
+
+  describe('convertSharedProjectFromDb', () => {
+    it('maps the portal payload and normalizes invoice amounts', () => {
+      const shared = convertSharedProjectFromDb({
+        project: { name: 'Lake House', client_name: null },
+        business: { name: '1584 Design', logo_url: null },
+        expires_at: '2030-01-01T00:00:00Z',
+        items: [{
+          item_id: 'I-1',
+          description: 'Sofa',
+          source: 'Wayfair',
+          sku: null,
+          space: null,
+          project_price: '1200.00',
+          market_value: null,
+          transaction_id: 'T-1',
+          images: null,
+        }],
+        transactions: [{ transaction_id: 'T-1', category_id: null }],
+        categories: [],
+        invoices: [{
+          invoice_number: 2,
+          status: 'sent',
+          issue_date: '2024-12-10',
+          due_date: null,
+          total_due: 100,
+          amount_paid: '25.5',
+          snapshot: { projectName: 'Lake House', charges: [], credits: [], chargesTotal: '100.00', creditsTotal: '0.00', totalDue: '100.00' },
+        }],
+      })
+
+      expect(shared.clientName).toBeUndefined()
+      expect(shared.items[0]).toMatchObject({ itemId: 'I-1', sku: '', images: [], marketValue: undefined })
+      expect(shared.transactions[0]).toEqual({ transactionId: 'T-1', categoryId: undefined })
+      expect(shared.invoices[0]).toMatchObject({ invoiceNumber: 2, totalDue: '100.00', amountPaid: '25.50' })
+    })
+  })
+})
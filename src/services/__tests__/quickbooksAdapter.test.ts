@@ -0,0 +1,143 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { Invoice } from '@/types'
+import {
+  buildQuickBooksInvoicePayload,
+  createQuickBooksAdapter,
+  pushInvoiceToQuickBooks,
+  QuickBooksApiError,
+  QuickBooksInvoiceConflictError,
+  requestQuickBooksTokens,
+} from '../quickbooksAdapter'
+import { startQuickBooksStubServer, type QuickBooksStubServer } from '../../../scripts/quickbooks-stub-server'
+
+const makeInvoice = (overrides: Partial<Invoice> = {}): Invoice => ({
+  id: 'invoice-1',
+  accountId: 'account-1',
+  projectId: 'project-1',
+  invoiceNumber: 7,
+  status: 'sent',
+  issueDate: '2025-04-01',
+  dueDate: '2025-05-01',
+  totalDue: '215.50',
+  amountPaid: '0.00',
+  snapshot: {
+    projectName: 'Lake House',
+    clientName: "O'Brien",
+    charges: [
+      { transactionId: 'T-1', title: 'Wayfair', transactionDate: '2025-03-10', amount: '250.00', items: [] },
+    ],
+    credits: [
+      { transactionId: 'T-2', title: 'Return', transactionDate: '2025-03-12', notes: 'Lamp', amount: '34.50', items: [] },
+    ],
+    chargesTotal: '250.00',
+    creditsTotal: '34.50',
+    totalDue: '215.50',
+  },
+  createdAt: '2025-04-01T00:00:00Z',
+  updatedAt: '2025-04-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('QuickBooks adapter against the stub server', () => {
+  let stub: QuickBooksStubServer
+  let accessToken: string
+
+  beforeEach(async () => {
+    stub = await startQuickBooksStubServer()
+    const tokens = await requestQuickBooksTokens(stub.url, {
+      grantType: 'authorization_code',
+      code: 'auth-code',
+      redirectUri: 'http://localhost/settings/quickbooks/callback',
+    })
+    accessToken = tokens.access_token
+  })
+
+  afterEach(async () => {
+    await stub.close()
+  })
+
+  it('maps charges and credits to signed lines and leaves the invoice unsent', () => {
+    const payload = buildQuickBooksInvoicePayload(makeInvoice(), { customer: { value: '5' }, item: { value: '1' } })
+
+    expect(payload).toMatchObject({
+      CustomerRef: { value: '5' },
+      DocNumber: 'INV-0007',
+      TxnDate: '2025-04-01',
+      DueDate: '2025-05-01',
+      EmailStatus: 'NotSet',
+      PrintStatus: 'NotSet',
+    })
+    expect(payload.Line.map(line => [line.Amount, line.Description, line.SalesItemLineDetail.ServiceDate])).toEqual([
+      [250, 'Wayfair', '2025-03-10'],
+      [-34.5, 'Return - Lamp', '2025-03-12'],
+    ])
+  })
+
+  it('creates the customer from the client name, then the invoice', async () => {
+    const adapter = createQuickBooksAdapter({ baseUrl: stub.url, realmId: 'realm-1', accessToken })
+
+    const { qboInvoice, reused } = await pushInvoiceToQuickBooks(adapter, makeInvoice(), { customerName: "O'Brien" })
+
+    expect(reused).toBe(false)
+    expect(qboInvoice.TotalAmt).toBe(215.5)
+    expect(stub.state.customers).toEqual([{ Id: expect.any(String), DisplayName: "O'Brien" }])
+    expect(stub.state.invoices).toHaveLength(1)
+    expect(stub.state.invoices[0]).toMatchObject({ CustomerRef: { value: stub.state.customers[0].Id } })
+  })
+
+  it('reuses an existing customer and an invoice already created with the same number', async () => {
+    stub.state.customers.push({ Id: '42', DisplayName: "O'Brien" })
+    const adapter = createQuickBooksAdapter({ baseUrl: stub.url, realmId: 'realm-1', accessToken })
+
+    const first = await pushInvoiceToQuickBooks(adapter, makeInvoice(), { customerName: "O'Brien", defaultItemId: '1' })
+    const second = await pushInvoiceToQuickBooks(adapter, makeInvoice(), { customerName: "O'Brien", defaultItemId: '1' })
+
+    expect(first.qboInvoice.CustomerRef).toEqual({ value: '42', name: "O'Brien" })
+    expect(second).toEqual({ qboInvoice: expect.objectContaining({ Id: first.qboInvoice.Id }), reused: true })
+    expect(stub.state.invoices).toHaveLength(1)
+  })
+
+  it('does not adopt an invoice entered in QBO with our number, customer and total', async () => {
+    stub.state.customers.push({ Id: '42', DisplayName: "O'Brien" })
+    stub.state.invoices.push({ Id: '900', DocNumber: 'INV-0007', CustomerRef: { value: '42' }, TotalAmt: 215.5 })
+    const adapter = createQuickBooksAdapter({ baseUrl: stub.url, realmId: 'realm-1', accessToken })
+
+    await expect(
+      pushInvoiceToQuickBooks(adapter, makeInvoice(), { customerName: "O'Brien", defaultItemId: '1' })
+    ).rejects.toMatchObject({ name: 'QuickBooksInvoiceConflictError', qboInvoiceId: '900' })
+  })
+
+  it('reports a conflict when an unrelated QBO invoice has our number', async () => {
+    stub.state.customers.push({ Id: '42', DisplayName: "O'Brien" })
+    stub.state.invoices.push({ Id: '901', DocNumber: 'INV-0007', CustomerRef: { value: '77' }, TotalAmt: 1000 })
+    const adapter = createQuickBooksAdapter({ baseUrl: stub.url, realmId: 'realm-1', accessToken })
+
+    await expect(
+      pushInvoiceToQuickBooks(adapter, makeInvoice(), { customerName: "O'Brien", defaultItemId: '1' })
+    ).rejects.toMatchObject({ name: 'QuickBooksInvoiceConflictError', qboInvoiceId: '901' })
+    await expect(
+      pushInvoiceToQuickBooks(adapter, makeInvoice(), { customerName: "O'Brien", defaultItemId: '1' })
+    ).rejects.toBeInstanceOf(QuickBooksInvoiceConflictError)
+    expect(stub.state.invoices).toHaveLength(1)
+  })
+
+  it('requires a client name', async () => {
+    const adapter = createQuickBooksAdapter({ baseUrl: stub.url, realmId: 'realm-1', accessToken })
+
+    await expect(pushInvoiceToQuickBooks(adapter, makeInvoice(), { customerName: '  ' })).rejects.toThrow('client name')
+    expect(stub.state.requests.filter(request => request.path.startsWith('/v3/'))).toHaveLength(0)
+  })
+
+  it('surfaces QBO faults and rejected tokens as QuickBooksApiError', async () => {
+    const adapter = createQuickBooksAdapter({ baseUrl: stub.url, realmId: 'realm-1', accessToken: 'expired' })
+
+    await expect(adapter.findCustomerByDisplayName('Smith')).rejects.toMatchObject({
+      name: 'QuickBooksApiError',
+      status: 401,
+    })
+    await expect(
+      requestQuickBooksTokens(stub.url, { grantType: 'refresh_token', refreshToken: 'invalid-refresh' })
+    ).rejects.toBeInstanceOf(QuickBooksApiError)
+  })
+})
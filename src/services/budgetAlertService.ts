@@ -0,0 +1,179 @@
+import { supabase } from './supabase'
+import { ensureAuthenticatedForDatabase, handleSupabaseError } from './databaseService'
+import { notificationService } from './notificationService'
+import type { AppNotification, BudgetAlertRule, ProjectBudgetCategories, Transaction } from '@/types'
+import { budgetAlertDedupeKey, findBudgetThresholdCrossings } from '@/utils/budgetAlerts'
+import { buildBudgetForecast } from '@/utils/budgetForecast'
+import { formatCurrency } from '@/utils/dateUtils'
+import { projectBudget } from '@/utils/routes'
+
+type BudgetAlertRuleRow = {
+  id: string
+  account_id: string
+  project_id: string
+  category_id: string | null
+  threshold_percent: number | string
+  created_by: string | null
+  created_at: string
+}
+
+type SpendTransactionRow = {
+  transaction_id: string
+  category_id: string | null
+  amount: string | null
+  status: Transaction['status'] | null
+  transaction_type: string | null
+}
+
+const RULE_COLUMNS = 'id, account_id, project_id, category_id, threshold_percent, created_by, created_at'
+
+export const convertBudgetAlertRuleFromDb = (row: BudgetAlertRuleRow): BudgetAlertRule => ({
+  id: row.id,
+  accountId: row.account_id,
+  projectId: row.project_id,
+  categoryId: row.category_id ?? null,
+  thresholdPercent: Number(row.threshold_percent),
+  createdBy: row.created_by ?? null,
+  createdAt: row.created_at,
+})
+
+export const budgetAlertService = {
+  async listRules(accountId: string, projectId: string): Promise<BudgetAlertRule[]> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('budget_alert_rules')
+      .select(RULE_COLUMNS)
+      .eq('account_id', accountId)
+      .eq('project_id', projectId)
+      .order('threshold_percent', { ascending: true })
+
+    handleSupabaseError(error)
+    return (data || []).map(row => convertBudgetAlertRuleFromDb(row as BudgetAlertRuleRow))
+  },
+
+  async addRule(
+    accountId: string,
+    projectId: string,
+    rule: { categoryId?: string | null; thresholdPercent: number; createdBy?: string | null }
+  ): Promise<BudgetAlertRule> {
+    if (!Number.isFinite(rule.thresholdPercent) || rule.thresholdPercent <= 0 || rule.thresholdPercent > 1000) {
+      throw new Error('Enter a threshold between 1% and 1000%')
+    }
+
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('budget_alert_rules')
+      .insert({
+        account_id: accountId,
+        project_id: projectId,
+        category_id: rule.categoryId || null,
+        threshold_percent: rule.thresholdPercent,
+        created_by: rule.createdBy || null,
+      })
+      .select(RULE_COLUMNS)
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to create alert rule: no data returned')
+    }
+    return convertBudgetAlertRuleFromDb(data as BudgetAlertRuleRow)
+  },
+
+  async deleteRule(accountId: string, ruleId: string): Promise<void> {
+    await ensureAuthenticatedForDatabase()
+
+    const { error } = await supabase
+      .from('budget_alert_rules')
+      .delete()
+      .eq('account_id', accountId)
+      .eq('id', ruleId)
+
+    handleSupabaseError(error)
+  },
+
+  /**
+   * Compare each budgeted category's completed spend with the project's thresholds and notify about
+   * any threshold reached for the first time. Returns the notifications that were created.
+   */
+  async evaluateProjectAlerts(accountId: string, projectId: string): Promise<AppNotification[]> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id, name, budget_categories')
+      .eq('account_id', accountId)
+      .eq('id', projectId)
+      .single()
+
+    handleSupabaseError(projectError)
+    const budgetCategories = (project?.budget_categories || {}) as ProjectBudgetCategories
+    if (!project || Object.keys(budgetCategories).length === 0) return []
+
+    const { data: transactions, error: transactionsError } = await supabase
+      .from('transactions')
+      .select('transaction_id, category_id, amount, status, transaction_type')
+      .eq('account_id', accountId)
+      .eq('project_id', projectId)
+
+    handleSupabaseError(transactionsError)
+    const forecast = buildBudgetForecast(
+      ((transactions || []) as SpendTransactionRow[]).map(row => ({
+        transactionId: row.transaction_id,
+        categoryId: row.category_id || undefined,
+        amount: row.amount || '0',
+        status: row.status || undefined,
+        transactionType: row.transaction_type || '',
+      })),
+      []
+    )
+    const spentByCategory = new Map(Array.from(forecast, ([categoryId, entry]) => [categoryId, entry.spent]))
+
+    const rules = await this.listRules(accountId, projectId)
+    const crossings = findBudgetThresholdCrossings(budgetCategories, spentByCategory, rules)
+    if (crossings.length === 0) return []
+
+    const { data: categories, error: categoriesError } = await supabase
+      .from('vw_budget_categories')
+      .select('id, name')
+      .eq('account_id', accountId)
+
+    handleSupabaseError(categoriesError)
+    const categoryNames = new Map((categories || []).map((category: { id: string; name: string }) => [category.id, category.name]))
+
+    return notificationService.createNotifications(
+      accountId,
+      crossings.map(crossing => {
+        const categoryName = categoryNames.get(crossing.categoryId) || 'A budget category'
+        return {
+          projectId,
+          type: 'budget_threshold' as const,
+          title: `${project.name}: ${categoryName} reached ${crossing.thresholdPercent}% of budget`,
+          body: `${formatCurrency(crossing.spent)} spent of ${formatCurrency(crossing.budget)} budgeted.`,
+          link: projectBudget(projectId),
+          dedupeKey: budgetAlertDedupeKey(projectId, crossing.categoryId, crossing.thresholdPercent),
+        }
+      })
+    )
+  },
+
+  /**
+   * Evaluate alerts for the project a transaction currently belongs to (if any).
+   */
+  async evaluateTransactionAlerts(accountId: string, transactionId: string): Promise<AppNotification[]> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('project_id')
+      .eq('account_id', accountId)
+      .eq('transaction_id', transactionId)
+      .single()
+
+    handleSupabaseError(error, { returnNullOnNotFound: true })
+    const projectId = (data as { project_id: string | null } | null)?.project_id
+    return projectId ? this.evaluateProjectAlerts(accountId, projectId) : []
+  },
+}
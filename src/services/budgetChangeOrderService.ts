@@ -0,0 +1,157 @@
+import { supabase } from './supabase'
+import { ensureAuthenticatedForDatabase, handleSupabaseError } from './databaseService'
+import type { BudgetChangeOrder, BudgetChangeOrderStatus } from '@/types'
+import { normalizeMoneyToTwoDecimalString } from '@/utils/money'
+
+type BudgetChangeOrderRow = {
+  id: string
+  account_id: string
+  project_id: string
+  category_id: string
+  amount: number | string
+  reason: string
+  status: BudgetChangeOrderStatus
+  requested_on: string
+  approved_by: string | null
+  approved_on: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export type BudgetChangeOrderInput = {
+  categoryId: string
+  /** Signed; negative reduces the category budget. */
+  amount: string
+  reason: string
+  requestedOn?: string
+  /** When set, the change order is created approved (and applied to the budget) in one transaction. */
+  approvedBy?: string | null
+  createdBy?: string | null
+}
+
+const CHANGE_ORDER_COLUMNS =
+  'id, account_id, project_id, category_id, amount, reason, status, requested_on, approved_by, approved_on, created_by, created_at'
+
+export const convertBudgetChangeOrderFromDb = (row: BudgetChangeOrderRow): BudgetChangeOrder => ({
+  id: row.id,
+  accountId: row.account_id,
+  projectId: row.project_id,
+  categoryId: row.category_id,
+  amount: normalizeMoneyToTwoDecimalString(String(row.amount ?? '')) || '0.00',
+  reason: row.reason,
+  status: row.status,
+  requestedOn: row.requested_on,
+  approvedBy: row.approved_by ?? null,
+  approvedOn: row.approved_on ?? null,
+  createdBy: row.created_by ?? null,
+  createdAt: row.created_at,
+})
+
+export const budgetChangeOrderService = {
+  /**
+   * All change orders for a project, oldest first.
+   */
+  async listChangeOrders(accountId: string, projectId: string): Promise<BudgetChangeOrder[]> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('budget_change_orders')
+      .select(CHANGE_ORDER_COLUMNS)
+      .eq('account_id', accountId)
+      .eq('project_id', projectId)
+      .order('requested_on', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    handleSupabaseError(error)
+    return (data || []).map(row => convertBudgetChangeOrderFromDb(row as BudgetChangeOrderRow))
+  },
+
+  async createChangeOrder(accountId: string, projectId: string, input: BudgetChangeOrderInput): Promise<BudgetChangeOrder> {
+    const amount = normalizeMoneyToTwoDecimalString(input.amount)
+    if (!amount || Number.parseFloat(amount) === 0) {
+      throw new Error('Enter a non-zero amount for the change order')
+    }
+    const reason = input.reason.trim()
+    if (!reason) {
+      throw new Error('Enter a reason for the change order')
+    }
+
+    await ensureAuthenticatedForDatabase()
+
+    const approvedBy = input.approvedBy?.trim()
+    if (approvedBy) {
+      const { data, error } = await supabase.rpc('create_approved_budget_change_order', {
+        p_account_id: accountId,
+        p_project_id: projectId,
+        p_category_id: input.categoryId,
+        p_amount: amount,
+        p_reason: reason,
+        p_approved_by: approvedBy,
+        p_requested_on: input.requestedOn || undefined,
+      })
+
+      if (error) {
+        throw new Error(error.message || 'Failed to create change order')
+      }
+      return convertBudgetChangeOrderFromDb(data as BudgetChangeOrderRow)
+    }
+
+    const { data, error } = await supabase
+      .from('budget_change_orders')
+      .insert({
+        account_id: accountId,
+        project_id: projectId,
+        category_id: input.categoryId,
+        amount,
+        reason,
+        requested_on: input.requestedOn || undefined,
+        created_by: input.createdBy || null,
+      })
+      .select(CHANGE_ORDER_COLUMNS)
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to create change order: no data returned')
+    }
+    return convertBudgetChangeOrderFromDb(data as BudgetChangeOrderRow)
+  },
+
+  /**
+   * Approve a pending change order. The database adds its amount to the project's category budget in
+   * the same transaction, so callers should refresh the project afterwards.
+   */
+  async approveChangeOrder(changeOrderId: string, approvedBy: string, approvedOn?: string): Promise<BudgetChangeOrder> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase.rpc('approve_budget_change_order', {
+      p_change_order_id: changeOrderId,
+      p_approved_by: approvedBy.trim(),
+      p_approved_on: approvedOn || undefined,
+    })
+
+    if (error) {
+      throw new Error(error.message || 'Failed to approve change order')
+    }
+    return convertBudgetChangeOrderFromDb(data as BudgetChangeOrderRow)
+  },
+
+  async rejectChangeOrder(accountId: string, changeOrderId: string): Promise<BudgetChangeOrder> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('budget_change_orders')
+      .update({ status: 'rejected' })
+      .eq('account_id', accountId)
+      .eq('id', changeOrderId)
+      .eq('status', 'pending')
+      .select(CHANGE_ORDER_COLUMNS)
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to reject change order: no data returned')
+    }
+    return convertBudgetChangeOrderFromDb(data as BudgetChangeOrderRow)
+  },
+}
@@ -1,4 +1,5 @@
 import { ConflictItem } from '../types/conflicts'
+import type { Dimensions, ItemCondition, ItemWeight } from '../types'
 import { offlineStore, type DBItem, type DBTransaction, type DBProject } from './offlineStore'
 import { supabase } from './supabase'
 
@@ -21,7 +22,10 @@ const MUTABLE_ITEM_FIELDS = [
   'tax_amount_project_price',
   'bookmark',
   'inventory_status',
-  'business_inventory_location'
+  'business_inventory_location',
+  'dimensions',
+  'weight',
+  'condition'
 ] as const
 
 // Read-only fields that should be ignored during conflict detection
@@ -732,6 +736,9 @@ export class ConflictDetector {
       createdBy: serverItem.created_by as string,
       inventoryStatus: serverItem.inventory_status as string,
       businessInventoryLocation: serverItem.business_inventory_location as string,
+      dimensions: serverItem.dimensions as Dimensions | null,
+      weight: serverItem.weight as ItemWeight | null,
+      condition: serverItem.condition as ItemCondition | null,
       originTransactionId: serverItem.origin_transaction_id as string | null,
       latestTransactionId: serverItem.latest_transaction_id as string | null,
       version: (serverItem.version as number) || 1
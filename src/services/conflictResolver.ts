@@ -1,4 +1,5 @@
 import { ConflictItem, Resolution, ConflictResolution } from '../types/conflicts'
+import type { Dimensions, ItemCondition, ItemWeight } from '../types'
 import { offlineStore, type DBItem } from './offlineStore'
 import { supabase } from './supabase'
 
@@ -162,6 +163,10 @@ export class ConflictResolver {
     if (localData.bookmark !== undefined) dbData.bookmark = localData.bookmark
     if (localData.inventoryStatus !== undefined) dbData.inventory_status = localData.inventoryStatus
     if (localData.businessInventoryLocation !== undefined) dbData.business_inventory_location = localData.businessInventoryLocation
+    if (localData.warehouseLocationId !== undefined) dbData.warehouse_location_id = localData.warehouseLocationId
+    if (localData.dimensions !== undefined) dbData.dimensions = localData.dimensions
+    if (localData.weight !== undefined) dbData.weight = localData.weight
+    if (localData.condition !== undefined) dbData.condition = localData.condition
     if (localData.originTransactionId !== undefined) dbData.origin_transaction_id = localData.originTransactionId
     if (localData.latestTransactionId !== undefined) dbData.latest_transaction_id = localData.latestTransactionId
 
@@ -216,6 +221,10 @@ export class ConflictResolver {
       createdBy: serverItem.created_by as string | undefined,
       inventoryStatus: serverItem.inventory_status as 'available' | 'allocated' | 'sold' | undefined,
       businessInventoryLocation: serverItem.business_inventory_location as string | undefined,
+      warehouseLocationId: serverItem.warehouse_location_id as string | null ?? null,
+      dimensions: serverItem.dimensions as Dimensions | null ?? null,
+      weight: serverItem.weight as ItemWeight | null ?? null,
+      condition: serverItem.condition as ItemCondition | null ?? null,
       originTransactionId: serverItem.origin_transaction_id as string | null ?? null,
       latestTransactionId: serverItem.latest_transaction_id as string | null ?? null,
       version: (serverItem.version as number) || 1,
@@ -287,6 +296,10 @@ export class ConflictResolver {
       createdBy: pickValue('createdBy'),
       inventoryStatus: pickValue('inventoryStatus'),
       businessInventoryLocation: pickValue('businessInventoryLocation'),
+      warehouseLocationId: pickValue('warehouseLocationId') ?? null,
+      dimensions: pickValue('dimensions') ?? null,
+      weight: pickValue('weight') ?? null,
+      condition: pickValue('condition') ?? null,
       originTransactionId: pickValue('originTransactionId') ?? null,
       latestTransactionId: pickValue('latestTransactionId') ?? null,
       version: (pickValue('version') as number) || conflict.local.version || conflict.server.version || 1,
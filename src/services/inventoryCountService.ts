@@ -0,0 +1,273 @@
+import { supabase } from './supabase'
+import { ensureAuthenticatedForDatabase, handleSupabaseError } from './databaseService'
+import type {
+  InventoryCountAdjustment,
+  InventoryCountDiscrepancy,
+  InventoryCountEntry,
+  InventoryCountResolution,
+  InventoryCountSession,
+  InventoryCountStatus,
+} from '@/types'
+
+type InventoryCountSessionRow = {
+  id: string
+  account_id: string
+  name: string
+  location_id: string | null
+  location_path: string | null
+  status: InventoryCountStatus
+  started_by: string | null
+  started_at: string
+  closed_by: string | null
+  closed_at: string | null
+}
+
+type InventoryCountEntryRow = {
+  id: string
+  session_id: string
+  item_id: string
+  counted_location_id: string | null
+  counted_by: string | null
+  counted_at: string
+}
+
+type InventoryCountAdjustmentRow = {
+  id: string
+  session_id: string
+  item_id: string
+  item_description: string | null
+  discrepancy: InventoryCountDiscrepancy
+  resolution: InventoryCountResolution
+  expected_location_path: string | null
+  counted_location_path: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export type InventoryCountAdjustmentInput = {
+  itemId: string
+  itemDescription?: string | null
+  discrepancy: InventoryCountDiscrepancy
+  resolution: InventoryCountResolution
+  expectedLocationId: string | null
+  countedLocationId: string | null
+}
+
+const SESSION_COLUMNS = 'id, account_id, name, location_id, location_path, status, started_by, started_at, closed_by, closed_at'
+const ENTRY_COLUMNS = 'id, session_id, item_id, counted_location_id, counted_by, counted_at'
+const ADJUSTMENT_COLUMNS =
+  'id, session_id, item_id, item_description, discrepancy, resolution, expected_location_path, counted_location_path, created_by, created_at'
+
+export const convertInventoryCountSessionFromDb = (row: InventoryCountSessionRow): InventoryCountSession => ({
+  id: row.id,
+  accountId: row.account_id,
+  name: row.name,
+  locationId: row.location_id ?? null,
+  locationPath: row.location_path ?? null,
+  status: row.status,
+  startedBy: row.started_by ?? null,
+  startedAt: row.started_at,
+  closedBy: row.closed_by ?? null,
+  closedAt: row.closed_at ?? null,
+})
+
+const convertEntryFromDb = (row: InventoryCountEntryRow): InventoryCountEntry => ({
+  id: row.id,
+  sessionId: row.session_id,
+  itemId: row.item_id,
+  countedLocationId: row.counted_location_id ?? null,
+  countedBy: row.counted_by ?? null,
+  countedAt: row.counted_at,
+})
+
+const convertAdjustmentFromDb = (row: InventoryCountAdjustmentRow): InventoryCountAdjustment => ({
+  id: row.id,
+  sessionId: row.session_id,
+  itemId: row.item_id,
+  itemDescription: row.item_description ?? null,
+  discrepancy: row.discrepancy,
+  resolution: row.resolution,
+  expectedLocationPath: row.expected_location_path ?? null,
+  countedLocationPath: row.counted_location_path ?? null,
+  createdBy: row.created_by ?? null,
+  createdAt: row.created_at,
+})
+
+export const inventoryCountService = {
+  /**
+   * Count sessions for the account, newest first.
+   */
+  async listSessions(accountId: string): Promise<InventoryCountSession[]> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('inventory_count_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('account_id', accountId)
+      .order('started_at', { ascending: false })
+
+    handleSupabaseError(error)
+    return (data || []).map(row => convertInventoryCountSessionFromDb(row as InventoryCountSessionRow))
+  },
+
+  async getSession(accountId: string, sessionId: string): Promise<InventoryCountSession | null> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('inventory_count_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('account_id', accountId)
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    handleSupabaseError(error)
+    return data ? convertInventoryCountSessionFromDb(data as InventoryCountSessionRow) : null
+  },
+
+  async createSession(
+    accountId: string,
+    input: { name: string; locationId: string | null; locationPath?: string | null; startedBy?: string | null }
+  ): Promise<InventoryCountSession> {
+    const name = input.name.trim()
+    if (!name) {
+      throw new Error('Enter a name for the count')
+    }
+
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('inventory_count_sessions')
+      .insert({
+        account_id: accountId,
+        name,
+        location_id: input.locationId,
+        location_path: input.locationPath || null,
+        started_by: input.startedBy || null,
+      })
+      .select(SESSION_COLUMNS)
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to start count: no data returned')
+    }
+    return convertInventoryCountSessionFromDb(data as InventoryCountSessionRow)
+  },
+
+  /**
+   * Delete an open session and its entries. Closed sessions are part of the audit trail and are kept.
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await ensureAuthenticatedForDatabase()
+
+    const { error } = await supabase
+      .from('inventory_count_sessions')
+      .delete()
+      .eq('id', sessionId)
+      .eq('status', 'open')
+
+    handleSupabaseError(error)
+  },
+
+  async listEntries(sessionId: string): Promise<InventoryCountEntry[]> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('inventory_count_entries')
+      .select(ENTRY_COLUMNS)
+      .eq('session_id', sessionId)
+      .order('counted_at', { ascending: true })
+
+    handleSupabaseError(error)
+    return (data || []).map(row => convertEntryFromDb(row as InventoryCountEntryRow))
+  },
+
+  /**
+   * Record that an item was found. Counting the same item again updates where and when it was found.
+   */
+  async recordEntry(
+    accountId: string,
+    sessionId: string,
+    input: { itemId: string; countedLocationId: string | null; countedBy?: string | null }
+  ): Promise<InventoryCountEntry> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('inventory_count_entries')
+      .upsert(
+        {
+          account_id: accountId,
+          session_id: sessionId,
+          item_id: input.itemId,
+          counted_location_id: input.countedLocationId,
+          counted_by: input.countedBy || null,
+          counted_at: new Date().toISOString(),
+        },
+        { onConflict: 'session_id,item_id' }
+      )
+      .select(ENTRY_COLUMNS)
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to record count: no data returned')
+    }
+    return convertEntryFromDb(data as InventoryCountEntryRow)
+  },
+
+  async removeEntry(entryId: string): Promise<void> {
+    await ensureAuthenticatedForDatabase()
+
+    const { error } = await supabase
+      .from('inventory_count_entries')
+      .delete()
+      .eq('id', entryId)
+
+    handleSupabaseError(error)
+  },
+
+  /**
+   * Close the session. The database records every adjustment, applies the location fixes to the items
+   * and logs them in the item audit trail in one transaction, so callers should reload items afterwards.
+   * The signed-in user is recorded as the one who closed it.
+   */
+  async closeSession(
+    sessionId: string,
+    adjustments: InventoryCountAdjustmentInput[]
+  ): Promise<InventoryCountSession> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase.rpc('close_inventory_count_session', {
+      p_session_id: sessionId,
+      p_adjustments: adjustments.map(adjustment => ({
+        item_id: adjustment.itemId,
+        item_description: adjustment.itemDescription || null,
+        discrepancy: adjustment.discrepancy,
+        resolution: adjustment.resolution,
+        expected_location_id: adjustment.expectedLocationId,
+        counted_location_id: adjustment.countedLocationId,
+      })),
+    })
+
+    if (error) {
+      throw new Error(error.message || 'Failed to close count')
+    }
+    if (!data) {
+      throw new Error('Failed to close count: no data returned')
+    }
+    return convertInventoryCountSessionFromDb(data as InventoryCountSessionRow)
+  },
+
+  async listAdjustments(sessionId: string): Promise<InventoryCountAdjustment[]> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('inventory_count_adjustments')
+      .select(ADJUSTMENT_COLUMNS)
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true })
+
+    handleSupabaseError(error)
+    return (data || []).map(row => convertAdjustmentFromDb(row as InventoryCountAdjustmentRow))
+  },
+}
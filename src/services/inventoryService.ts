@@ -123,9 +123,15 @@ function mapSupabaseItemToOfflineRecord(row: any): DBItem {
     taxRatePct: converted.tax_rate_pct != null ? Number(converted.tax_rate_pct) : undefined,
     taxAmountPurchasePrice: converted.tax_amount_purchase_price ?? undefined,
     taxAmountProjectPrice: converted.tax_amount_project_price ?? undefined,
+    pricingRuleId: converted.pricing_rule_id ?? null,
+    projectPriceOverridden: converted.project_price_overridden ?? false,
     createdBy: converted.created_by ?? undefined,
     inventoryStatus: converted.inventory_status ?? undefined,
     businessInventoryLocation: converted.business_inventory_location ?? undefined,
+    warehouseLocationId: converted.warehouse_location_id ?? null,
+    dimensions: converted.dimensions ?? null,
+    weight: converted.weight ?? null,
+    condition: converted.condition ?? null,
     originTransactionId: converted.origin_transaction_id ?? null,
     latestTransactionId: converted.latest_transaction_id ?? null,
     version: converted.version ?? 1,
@@ -162,9 +168,15 @@ function mapOfflineItemToSupabaseShape(item: DBItem) {
     tax_rate_pct: item.taxRatePct ?? null,
     tax_amount_purchase_price: item.taxAmountPurchasePrice ?? null,
     tax_amount_project_price: item.taxAmountProjectPrice ?? null,
+    pricing_rule_id: item.pricingRuleId ?? null,
+    project_price_overridden: item.projectPriceOverridden ?? false,
     created_by: item.createdBy ?? null,
     inventory_status: item.inventoryStatus ?? null,
     business_inventory_location: item.businessInventoryLocation ?? null,
+    warehouse_location_id: item.warehouseLocationId ?? null,
+    dimensions: item.dimensions ?? null,
+    weight: item.weight ?? null,
+    condition: item.condition ?? null,
     origin_transaction_id: item.originTransactionId ?? null,
     latest_transaction_id: item.latestTransactionId ?? null,
     version: item.version ?? 1
@@ -196,6 +208,7 @@ function mapSupabaseTransactionToOfflineRecord(row: any): DBTransaction {
     subtotal: converted.subtotal || undefined,
     needsReview: converted.needs_review ?? undefined,
     sumItemPurchasePrices: converted.sum_item_purchase_prices !== undefined ? String(converted.sum_item_purchase_prices) : undefined,
+    legacyTransactionId: converted.legacy_transaction_id ?? null,
     itemIds: Array.isArray(converted.item_ids) ? converted.item_ids : [],
     version: converted.version ?? 1,
     last_synced_at: new Date().toISOString()
@@ -290,6 +303,7 @@ function mapOfflineTransactionToSupabaseShape(tx: DBTransaction) {
     subtotal: tx.subtotal ?? null,
     needs_review: tx.needsReview ?? null,
     sum_item_purchase_prices: tx.sumItemPurchasePrices ?? null,
+    legacy_transaction_id: tx.legacyTransactionId ?? null,
     item_ids: tx.itemIds ?? [],
     version: tx.version ?? 1
   }
@@ -908,7 +922,8 @@ function _convertTransactionFromDb(dbTransaction: any): Transaction {
     // Map DB snake_case needs_review -> camelCase needsReview for the client
     needsReview: converted.needs_review === true,
     // Map persisted derived sum of item purchase prices (numeric stored as string/number in DB)
-    sumItemPurchasePrices: converted.sum_item_purchase_prices !== undefined ? String(converted.sum_item_purchase_prices) : '0.00'
+    sumItemPurchasePrices: converted.sum_item_purchase_prices !== undefined ? String(converted.sum_item_purchase_prices) : '0.00',
+    legacyTransactionId: converted.legacy_transaction_id || undefined
   } as Transaction
 }
 
@@ -1008,6 +1023,7 @@ function _convertTransactionToDb(transaction: Partial<Transaction>): any {
   if (transaction.subtotal !== undefined) dbTransaction.subtotal = transaction.subtotal
   if (transaction.needsReview !== undefined) dbTransaction.needs_review = transaction.needsReview
   if (transaction.sumItemPurchasePrices !== undefined) dbTransaction.sum_item_purchase_prices = transaction.sumItemPurchasePrices
+  if (transaction.legacyTransactionId !== undefined) dbTransaction.legacy_transaction_id = transaction.legacyTransactionId
   
   return dbTransaction
 }
@@ -1110,6 +1126,9 @@ async function _updateTransactionItemIds(
   }
 }
 
+// Changing any of these can move a category's spend across a budget alert threshold.
+const BUDGET_SPEND_FIELDS: Array<keyof Transaction> = ['amount', 'status', 'categoryId', 'transactionType', 'projectId']
+
 // Transaction Services
 export const transactionService = {
   async adjustSumItemPurchasePrices(accountId: string, transactionId: string, delta: number | string): Promise<string> {
@@ -1642,6 +1661,15 @@ export const transactionService = {
     return p
   },
 
+  // Fire-and-forget: a failed evaluation is retried by the next change to the project's spend.
+  _evaluateBudgetAlerts(accountId: string, transactionId: string): void {
+    import('./budgetAlertService')
+      .then(({ budgetAlertService }) => budgetAlertService.evaluateTransactionAlerts(accountId, transactionId))
+      .catch((e: unknown) => {
+        console.warn('Failed to evaluate budget alerts:', e)
+      })
+  },
+
   _convertOfflineTransaction(dbTransaction: DBTransaction): Transaction {
     return _convertTransactionFromDb(mapOfflineTransactionToSupabaseShape(dbTransaction))
   },
@@ -1913,6 +1941,9 @@ export const transactionService = {
       } catch (e) {
         console.warn('Failed to set needs_review after transaction creation:', e)
       }
+      if (projectId && dbTransaction.category_id) {
+        this._evaluateBudgetAlerts(accountId, transactionId)
+      }
 
       return transactionId
     } catch (error) {
@@ -2060,6 +2091,9 @@ export const transactionService = {
         console.warn('Failed to recompute needs_review after transaction update:', e)
       })
       }
+      if (BUDGET_SPEND_FIELDS.some(field => finalUpdates[field] !== undefined)) {
+        this._evaluateBudgetAlerts(accountId, transactionId)
+      }
 
       // Invalidate transaction display info cache so UI updates immediately
       try {
@@ -2548,9 +2582,15 @@ export const unifiedItemsService = {
       images: Array.isArray(converted.images) ? converted.images : [],
       inventoryStatus: converted.inventory_status || undefined,
       businessInventoryLocation: converted.business_inventory_location || undefined,
+      warehouseLocationId: converted.warehouse_location_id ?? null,
+      dimensions: converted.dimensions ?? null,
+      weight: converted.weight ?? null,
+      condition: converted.condition ?? null,
       taxRatePct: converted.tax_rate_pct ? parseFloat(converted.tax_rate_pct) : undefined,
       taxAmountPurchasePrice: converted.tax_amount_purchase_price || undefined,
       taxAmountProjectPrice: converted.tax_amount_project_price || undefined,
+      pricingRuleId: converted.pricing_rule_id ?? null,
+      projectPriceOverridden: converted.project_price_overridden ?? false,
       createdBy: converted.created_by || undefined,
       createdAt: converted.created_at,
       originTransactionId: converted.origin_transaction_id ?? null,
@@ -2586,9 +2626,15 @@ export const unifiedItemsService = {
     if (item.images !== undefined) dbItem.images = item.images
     if (item.inventoryStatus !== undefined) dbItem.inventory_status = item.inventoryStatus
     if (item.businessInventoryLocation !== undefined) dbItem.business_inventory_location = item.businessInventoryLocation
+    if (item.warehouseLocationId !== undefined) dbItem.warehouse_location_id = item.warehouseLocationId ?? null
+    if (item.dimensions !== undefined) dbItem.dimensions = item.dimensions ?? null
+    if (item.weight !== undefined) dbItem.weight = item.weight ?? null
+    if (item.condition !== undefined) dbItem.condition = item.condition ?? null
     if (item.taxRatePct !== undefined) dbItem.tax_rate_pct = item.taxRatePct
     if (item.taxAmountPurchasePrice !== undefined) dbItem.tax_amount_purchase_price = item.taxAmountPurchasePrice
     if (item.taxAmountProjectPrice !== undefined) dbItem.tax_amount_project_price = item.taxAmountProjectPrice
+    if (item.pricingRuleId !== undefined) dbItem.pricing_rule_id = item.pricingRuleId ?? null
+    if (item.projectPriceOverridden !== undefined) dbItem.project_price_overridden = item.projectPriceOverridden
     if (item.createdBy !== undefined) dbItem.created_by = item.createdBy
     if (item.createdAt !== undefined) dbItem.created_at = item.createdAt
     if (item.originTransactionId !== undefined) dbItem.origin_transaction_id = item.originTransactionId ?? null
@@ -2776,6 +2822,45 @@ export const unifiedItemsService = {
     return await this._getProjectItemsOffline(accountId, projectId, filters, pagination)
   },
 
+  // Get items allocated to any of the given projects in one query (account-scoped)
+  async getItemsForProjects(accountId: string, projectIds: string[]): Promise<Item[]> {
+    if (projectIds.length === 0) {
+      return []
+    }
+
+    const online = isNetworkOnline()
+    if (online) {
+      try {
+        await ensureAuthenticatedForDatabase()
+
+        const { data, error } = await supabase
+          .from('items')
+          .select('*')
+          .eq('account_id', accountId)
+          .in('project_id', projectIds)
+
+        if (error) throw error
+
+        void cacheItemsOffline(data || [])
+        return (data || []).map(item => this._convertItemFromDb(item))
+      } catch (error) {
+        console.warn('Failed to fetch multi-project items, using offline cache:', error)
+      }
+    }
+
+    try {
+      await offlineStore.init()
+      const wanted = new Set(projectIds)
+      const cached = await offlineStore.getAllItems()
+      return cached
+        .filter(item => item.projectId && wanted.has(item.projectId) && (!item.accountId || item.accountId === accountId))
+        .map(item => this._convertOfflineItem(item))
+    } catch (error) {
+      console.warn('Failed to read offline items for projects:', error)
+      return []
+    }
+  },
+
   // Subscribe to items for a project with real-time updates
   subscribeToProjectItems(
     accountId: string,
@@ -4764,6 +4849,43 @@ export const unifiedItemsService = {
     return await this._getItemByIdOffline(accountId, itemId)
   },
 
+  // Look up the item a printed QR label points at (account-scoped)
+  async getItemByQrKey(accountId: string, qrKey: string): Promise<Item | null> {
+    const online = isNetworkOnline()
+    if (online) {
+      try {
+        await ensureAuthenticatedForDatabase()
+
+        const { data, error } = await supabase
+          .from('items')
+          .select('*')
+          .eq('account_id', accountId)
+          .eq('qr_key', qrKey)
+          .limit(1)
+
+        if (error) throw error
+
+        const row = data?.[0]
+        if (!row) return null
+        void cacheItemsOffline([row])
+        return this._convertItemFromDb(row)
+      } catch (error) {
+        console.warn('Failed to fetch item by QR key from network, using offline cache:', error)
+      }
+    }
+
+    try {
+      await offlineStore.init()
+      const cached = (await offlineStore.getAllItems()).find(
+        item => item.qrKey === qrKey && (!item.accountId || item.accountId === accountId)
+      )
+      return cached ? this._convertOfflineItem(cached) : null
+    } catch (error) {
+      console.warn('[getItemByQrKey] Failed to read offline items:', error)
+      return null
+    }
+  },
+
   // Duplicate an existing item (unified collection version) (account-scoped)
   async duplicateItem(accountId: string, projectId: string, originalItemId: string): Promise<string> {
     await ensureAuthenticatedForDatabase()
@@ -4798,6 +4920,10 @@ export const unifiedItemsService = {
       project_id: projectId,
       inventory_status: originalItem.inventoryStatus || 'available',
       business_inventory_location: originalItem.businessInventoryLocation || null,
+      warehouse_location_id: originalItem.warehouseLocationId ?? null,
+      dimensions: originalItem.dimensions ?? null,
+      weight: originalItem.weight ?? null,
+      condition: originalItem.condition ?? null,
       date_created: originalItem.dateCreated || toDateOnlyString(now),
       last_updated: now.toISOString(),
       images: originalItem.images || [], // Copy images from original item
@@ -4899,6 +5025,11 @@ export const unifiedItemsService = {
         sku: itemData.sku ?? null,
         purchase_price: itemData.purchasePrice ?? null,
         project_price: itemData.projectPrice ?? null,
+        pricing_rule_id: itemData.pricingRuleId ?? null,
+        project_price_overridden: itemData.projectPriceOverridden ?? false,
+        dimensions: itemData.dimensions ?? null,
+        weight: itemData.weight ?? null,
+        condition: itemData.condition ?? null,
         market_value: itemData.marketValue ?? null,
         payment_method: null, // No default - should come from transaction or item data
         disposition: 'purchased',
@@ -0,0 +1,262 @@
+import { supabase } from './supabase'
+import { ensureAuthenticatedForDatabase, handleSupabaseError } from './databaseService'
+import type { Invoice, InvoiceSnapshot, InvoiceStatus } from '@/types'
+import { formatInvoiceNumber } from '@/utils/invoiceSnapshot'
+import { normalizeMoneyToTwoDecimalString } from '@/utils/money'
+
+/**
+ * Allowed status moves. Payments drive sent -> partially_paid -> paid; anything not yet paid in
+ * full can be voided. Paid and void are terminal here, though removing a payment lets the
+ * database move a paid invoice back (see sync_invoice_amount_paid). The database enforces the
+ * same moves (enforce_invoice_immutability), so this table is the UI's copy of those rules.
+ */
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['sent', 'void'],
+  sent: ['partially_paid', 'paid', 'void'],
+  partially_paid: ['paid', 'void'],
+  paid: [],
+  void: [],
+}
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  void: 'Void',
+}
+
+export const canTransitionInvoiceStatus = (from: InvoiceStatus, to: InvoiceStatus): boolean =>
+  INVOICE_STATUS_TRANSITIONS[from].includes(to)
+
+const toMoneyString = (value: unknown): string =>
+  normalizeMoneyToTwoDecimalString(value === null || value === undefined ? '' : String(value)) || '0.00'
+
+type InvoiceRow = {
+  id: string
+  account_id: string
+  project_id: string
+  invoice_number: number
+  status: InvoiceStatus
+  issue_date: string
+  due_date: string | null
+  total_due: number | string
+  amount_paid: number | string
+  snapshot: InvoiceSnapshot
+  notes: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  sent_at: string | null
+  paid_at: string | null
+  voided_at: string | null
+  qbo_invoice_id?: string | null
+  qbo_synced_at?: string | null
+  pdf_path?: string | null
+  pdf_generated_at?: string | null
+}
+
+export const convertInvoiceFromDb = (row: InvoiceRow): Invoice => ({
+  id: row.id,
+  accountId: row.account_id,
+  projectId: row.project_id,
+  invoiceNumber: row.invoice_number,
+  status: row.status,
+  issueDate: row.issue_date,
+  dueDate: row.due_date ?? null,
+  totalDue: toMoneyString(row.total_due),
+  amountPaid: toMoneyString(row.amount_paid),
+  snapshot: row.snapshot,
+  notes: row.notes ?? null,
+  createdBy: row.created_by ?? null,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  sentAt: row.sent_at ?? null,
+  paidAt: row.paid_at ?? null,
+  voidedAt: row.voided_at ?? null,
+  qboInvoiceId: row.qbo_invoice_id ?? null,
+  qboSyncedAt: row.qbo_synced_at ?? null,
+  pdfPath: row.pdf_path ?? null,
+  pdfGeneratedAt: row.pdf_generated_at ?? null,
+})
+
+const INVOICE_PDF_BUCKET = 'invoice-pdfs'
+
+export const invoiceService = {
+  /**
+   * List invoices for an account, newest number first.
+   * @param projectId - Optional project filter
+   */
+  async listInvoices(accountId: string, projectId?: string): Promise<Invoice[]> {
+    await ensureAuthenticatedForDatabase()
+
+    let query = supabase
+      .from('invoices')
+      .select('*')
+      .eq('account_id', accountId)
+
+    if (projectId) {
+      query = query.eq('project_id', projectId)
+    }
+
+    const { data, error } = await query.order('invoice_number', { ascending: false })
+    handleSupabaseError(error)
+
+    return (data || []).map(convertInvoiceFromDb)
+  },
+
+  async getInvoice(accountId: string, invoiceId: string): Promise<Invoice | null> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('account_id', accountId)
+      .eq('id', invoiceId)
+      .single()
+
+    handleSupabaseError(error, { returnNullOnNotFound: true })
+    return data ? convertInvoiceFromDb(data) : null
+  },
+
+  /**
+   * Save a draft invoice. The invoice number is assigned by the database on insert.
+   * @param snapshot - Frozen invoice contents (see `buildInvoiceSnapshot`)
+   */
+  async createInvoice(
+    accountId: string,
+    projectId: string,
+    snapshot: InvoiceSnapshot,
+    options: { issueDate: string; dueDate?: string | null; notes?: string | null; createdBy?: string | null }
+  ): Promise<Invoice> {
+    await ensureAuthenticatedForDatabase()
+
+    if (snapshot.charges.length === 0 && snapshot.credits.length === 0) {
+      throw new Error('Cannot save an invoice with no charges or credits')
+    }
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .insert({
+        account_id: accountId,
+        project_id: projectId,
+        status: 'draft',
+        issue_date: options.issueDate,
+        due_date: options.dueDate || null,
+        total_due: snapshot.totalDue,
+        amount_paid: '0.00',
+        snapshot,
+        notes: options.notes || null,
+        created_by: options.createdBy || null,
+      })
+      .select('*')
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to create invoice: no data returned')
+    }
+
+    return convertInvoiceFromDb(data)
+  },
+
+  /**
+   * Move an invoice to a new status, stamping sent/paid/voided times.
+   * Throws if the move is not allowed from the current status.
+   */
+  async updateInvoiceStatus(accountId: string, invoiceId: string, status: InvoiceStatus): Promise<Invoice> {
+    await ensureAuthenticatedForDatabase()
+
+    const existing = await this.getInvoice(accountId, invoiceId)
+    if (!existing) {
+      throw new Error('Invoice not found or does not belong to this account')
+    }
+    if (!canTransitionInvoiceStatus(existing.status, status)) {
+      throw new Error(
+        `Cannot change invoice from ${INVOICE_STATUS_LABELS[existing.status]} to ${INVOICE_STATUS_LABELS[status]}`
+      )
+    }
+
+    const now = new Date().toISOString()
+    const updates: Record<string, unknown> = { status }
+    if (status === 'sent') updates.sent_at = now
+    if (status === 'paid') updates.paid_at = now
+    if (status === 'void') updates.voided_at = now
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .update(updates)
+      .eq('account_id', accountId)
+      .eq('id', invoiceId)
+      .select('*')
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to update invoice: no data returned')
+    }
+
+    return convertInvoiceFromDb(data)
+  },
+
+  /**
+   * Store the PDF for an invoice and point the invoice at it. Archives are write-once: an invoice
+   * that already has a PDF is returned unchanged, and a file left by an earlier attempt is kept.
+   */
+  async archiveInvoicePdf(accountId: string, invoice: Invoice, pdf: Uint8Array<ArrayBuffer>): Promise<Invoice> {
+    if (invoice.pdfPath) return invoice
+
+    await ensureAuthenticatedForDatabase()
+
+    const path = `accounts/${accountId}/invoices/${invoice.id}/${formatInvoiceNumber(invoice.invoiceNumber)}.pdf`
+    const { error: uploadError } = await supabase.storage
+      .from(INVOICE_PDF_BUCKET)
+      .upload(path, new Blob([pdf], { type: 'application/pdf' }), {
+        contentType: 'application/pdf',
+        upsert: false,
+      })
+    // 409 means the upload succeeded before but the invoice update did not; link the stored copy.
+    if (uploadError && (uploadError as { statusCode?: string }).statusCode !== '409') {
+      throw new Error(`Failed to archive invoice PDF: ${uploadError.message}`)
+    }
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .update({ pdf_path: path, pdf_generated_at: new Date().toISOString() })
+      .eq('account_id', accountId)
+      .eq('id', invoice.id)
+      .select('*')
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to update invoice: no data returned')
+    }
+
+    return convertInvoiceFromDb(data)
+  },
+
+  async downloadInvoicePdf(pdfPath: string): Promise<Blob> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase.storage.from(INVOICE_PDF_BUCKET).download(pdfPath)
+    if (error || !data) {
+      throw new Error(`Failed to download invoice PDF: ${error?.message || 'no data returned'}`)
+    }
+    return data
+  },
+
+  /**
+   * Time-limited link to an archived PDF, for emailing to a client.
+   * @param expiresInSeconds - Defaults to seven days
+   */
+  async getInvoicePdfUrl(pdfPath: string, expiresInSeconds = 7 * 24 * 60 * 60): Promise<string> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase.storage.from(INVOICE_PDF_BUCKET).createSignedUrl(pdfPath, expiresInSeconds)
+    if (error || !data?.signedUrl) {
+      throw new Error(`Failed to create invoice PDF link: ${error?.message || 'no URL returned'}`)
+    }
+    return data.signedUrl
+  },
+}
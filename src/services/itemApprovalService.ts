@@ -0,0 +1,195 @@
+import { supabase } from './supabase'
+import { ensureAuthenticatedForDatabase, handleSupabaseError } from './databaseService'
+import { generateShareToken, hashShareToken } from './projectShareLinkService'
+import type {
+  ItemApprovalDecision,
+  ItemApprovalPortal,
+  ItemApprovalRequest,
+  ItemImage,
+} from '@/types'
+import { itemApproval } from '@/utils/routes'
+
+type ItemApprovalRequestRow = {
+  id: string
+  account_id: string
+  project_id: string
+  message: string | null
+  expires_at: string
+  revoked_at: string | null
+  created_by: string | null
+  created_at: string
+}
+
+type ItemApprovalPortalRow = {
+  project: { name: string; client_name: string | null } | null
+  business: { name: string | null; logo_url: string | null } | null
+  message: string | null
+  expires_at: string
+  items: Array<{
+    item_id: string
+    description: string | null
+    source: string | null
+    sku: string | null
+    space: string | null
+    project_price: string | null
+    images: ItemImage[] | null
+    decision: ItemApprovalDecision
+    comment: string | null
+    decided_at: string | null
+  }>
+}
+
+const APPROVAL_REQUEST_COLUMNS = 'id, account_id, project_id, message, expires_at, revoked_at, created_by, created_at'
+
+export const convertItemApprovalRequestFromDb = (row: ItemApprovalRequestRow): ItemApprovalRequest => ({
+  id: row.id,
+  accountId: row.account_id,
+  projectId: row.project_id,
+  message: row.message ?? null,
+  expiresAt: row.expires_at,
+  revokedAt: row.revoked_at ?? null,
+  createdBy: row.created_by ?? null,
+  createdAt: row.created_at,
+})
+
+export const convertItemApprovalPortalFromDb = (row: ItemApprovalPortalRow): ItemApprovalPortal => ({
+  projectName: row.project?.name || 'Project',
+  clientName: row.project?.client_name || undefined,
+  businessName: row.business?.name || '',
+  businessLogoUrl: row.business?.logo_url ?? null,
+  message: row.message ?? null,
+  expiresAt: row.expires_at,
+  items: (row.items || []).map(item => ({
+    itemId: item.item_id,
+    description: item.description || '',
+    source: item.source || '',
+    sku: item.sku || '',
+    space: item.space || undefined,
+    projectPrice: item.project_price || undefined,
+    images: Array.isArray(item.images) ? item.images : [],
+    decision: item.decision,
+    comment: item.comment ?? null,
+    decidedAt: item.decided_at ?? null,
+  })),
+})
+
+export const itemApprovalService = {
+  /**
+   * Send items to the client for sign-off. As with share links, the returned URL carries the only
+   * copy of the token.
+   */
+  async createApprovalRequest(
+    accountId: string,
+    projectId: string,
+    itemIds: string[],
+    options: { expiresInDays: number; message?: string | null; createdBy?: string | null }
+  ): Promise<{ request: ItemApprovalRequest; url: string }> {
+    if (itemIds.length === 0) {
+      throw new Error('Select at least one item to send for approval')
+    }
+
+    await ensureAuthenticatedForDatabase()
+
+    const token = generateShareToken()
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + options.expiresInDays)
+
+    const { data, error } = await supabase
+      .from('item_approval_requests')
+      .insert({
+        account_id: accountId,
+        project_id: projectId,
+        token_hash: await hashShareToken(token),
+        message: options.message?.trim() || null,
+        expires_at: expiresAt.toISOString(),
+        created_by: options.createdBy || null,
+      })
+      .select(APPROVAL_REQUEST_COLUMNS)
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to create approval request: no data returned')
+    }
+
+    const { error: itemsError } = await supabase
+      .from('item_approval_request_items')
+      .insert(Array.from(new Set(itemIds), itemId => ({ request_id: data.id, account_id: accountId, item_id: itemId })))
+
+    if (itemsError) {
+      // Nobody has the token yet, so an empty request is harmless; revoke it so it never shows up.
+      await supabase.from('item_approval_requests').update({ revoked_at: new Date().toISOString() }).eq('id', data.id)
+      handleSupabaseError(itemsError)
+    }
+
+    return { request: convertItemApprovalRequestFromDb(data), url: `${window.location.origin}${itemApproval(token)}` }
+  },
+
+  /**
+   * Ids of project items that are waiting on the client in a request that is still open.
+   */
+  async getPendingItemIds(accountId: string, projectId: string): Promise<Set<string>> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data: requests, error } = await supabase
+      .from('item_approval_requests')
+      .select('id')
+      .eq('account_id', accountId)
+      .eq('project_id', projectId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+
+    handleSupabaseError(error)
+    const requestIds = (requests || []).map((request: { id: string }) => request.id)
+    if (requestIds.length === 0) return new Set()
+
+    const { data: items, error: itemsError } = await supabase
+      .from('item_approval_request_items')
+      .select('item_id')
+      .eq('account_id', accountId)
+      .eq('decision', 'pending')
+      .in('request_id', requestIds)
+
+    handleSupabaseError(itemsError)
+    return new Set((items || []).map((item: { item_id: string }) => item.item_id))
+  },
+
+  /**
+   * Approval page data for a token. Works without a session; returns null when the link is unknown,
+   * expired or revoked.
+   */
+  async getApprovalPortal(token: string): Promise<ItemApprovalPortal | null> {
+    const { data, error } = await supabase.rpc('get_item_approval_request', { p_token: token })
+
+    if (error) {
+      throw new Error(`Failed to load approval request: ${error.message}`)
+    }
+    return data ? convertItemApprovalPortalFromDb(data as ItemApprovalPortalRow) : null
+  },
+
+  /**
+   * Record the client's decision. The database applies it to the item (disposition, notes and audit
+   * log) in the same transaction; a decision can't be changed once recorded. Approved items become
+   * 'purchased' and rejected ones stay 'to purchase'; items no longer 'to purchase' are refused.
+   */
+  async respondToItem(
+    token: string,
+    itemId: string,
+    decision: Exclude<ItemApprovalDecision, 'pending'>,
+    comment?: string | null
+  ): Promise<{ decision: ItemApprovalDecision; comment: string | null; decidedAt: string }> {
+    const { data, error } = await supabase.rpc('respond_to_item_approval', {
+      p_token: token,
+      p_item_id: itemId,
+      p_decision: decision,
+      p_comment: comment?.trim() || null,
+    })
+
+    if (error) {
+      throw new Error(error.message || 'Failed to record your decision')
+    }
+
+    const row = data as { decision: ItemApprovalDecision; comment: string | null; decided_at: string }
+    return { decision: row.decision, comment: row.comment ?? null, decidedAt: row.decided_at }
+  },
+}
@@ -0,0 +1,114 @@
+import { supabase } from './supabase'
+import { ensureAuthenticatedForDatabase, handleSupabaseError } from './databaseService'
+import type { AppNotification, AppNotificationType } from '@/types'
+
+type NotificationRow = {
+  id: string
+  account_id: string
+  project_id: string | null
+  type: AppNotificationType
+  title: string
+  body: string | null
+  link: string | null
+  created_at: string
+  // RLS only returns the signed-in user's own read marker, so this has at most one entry.
+  notification_reads?: Array<{ read_at: string }> | null
+}
+
+export type NewNotification = {
+  projectId?: string | null
+  type: AppNotificationType
+  title: string
+  body?: string | null
+  link?: string | null
+  /** Notifications with a key that already exists in the account are skipped. */
+  dedupeKey?: string | null
+}
+
+const NOTIFICATION_COLUMNS = 'id, account_id, project_id, type, title, body, link, created_at, notification_reads(read_at)'
+
+export const convertNotificationFromDb = (row: NotificationRow): AppNotification => ({
+  id: row.id,
+  accountId: row.account_id,
+  projectId: row.project_id ?? null,
+  type: row.type,
+  title: row.title,
+  body: row.body ?? null,
+  link: row.link ?? null,
+  createdAt: row.created_at,
+  readAt: row.notification_reads?.[0]?.read_at ?? null,
+})
+
+export const notificationService = {
+  /**
+   * Most recent notifications for the account, newest first. `readAt` is the signed-in user's own.
+   */
+  async listNotifications(accountId: string, limit = 50): Promise<AppNotification[]> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .select(NOTIFICATION_COLUMNS)
+      .eq('account_id', accountId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    handleSupabaseError(error)
+    return (data || []).map(row => convertNotificationFromDb(row as NotificationRow))
+  },
+
+  /**
+   * Record notifications, skipping any whose dedupe key has been used before. Returns only the ones
+   * that were actually created.
+   */
+  async createNotifications(accountId: string, notifications: NewNotification[]): Promise<AppNotification[]> {
+    if (notifications.length === 0) return []
+
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .upsert(
+        notifications.map(notification => ({
+          account_id: accountId,
+          project_id: notification.projectId || null,
+          type: notification.type,
+          title: notification.title,
+          body: notification.body || null,
+          link: notification.link || null,
+          dedupe_key: notification.dedupeKey || null,
+        })),
+        { onConflict: 'account_id,dedupe_key', ignoreDuplicates: true }
+      )
+      .select(NOTIFICATION_COLUMNS)
+
+    handleSupabaseError(error)
+    return (data || []).map(row => convertNotificationFromDb(row as NotificationRow))
+  },
+
+  /**
+   * Mark one notification read for the signed-in user only.
+   */
+  async markRead(notificationId: string): Promise<void> {
+    await ensureAuthenticatedForDatabase()
+
+    const { error } = await supabase
+      .from('notification_reads')
+      .upsert({ notification_id: notificationId }, { onConflict: 'notification_id,user_id', ignoreDuplicates: true })
+
+    handleSupabaseError(error)
+  },
+
+  /**
+   * Mark every notification in the account read for the signed-in user only.
+   */
+  async markAllRead(accountId: string): Promise<void> {
+    await ensureAuthenticatedForDatabase()
+
+    const { error } = await supabase.rpc('mark_notifications_read', { p_account_id: accountId })
+
+    if (error) {
+      throw new Error(error.message || 'Failed to mark notifications read')
+    }
+  },
+}
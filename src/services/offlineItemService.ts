@@ -10,6 +10,8 @@ export interface OfflineOperationResult {
   operationId: string
   wasQueued: boolean
   itemId?: string
+  /** True when an identical operation was already waiting in the queue and nothing new was queued. */
+  alreadyQueued?: boolean
 }
 
 export class OfflineStorageError extends Error {
@@ -75,9 +77,15 @@ export class OfflineItemService {
           taxRatePct: item.tax_rate_pct,
           taxAmountPurchasePrice: item.tax_amount_purchase_price,
           taxAmountProjectPrice: item.tax_amount_project_price,
+          pricingRuleId: item.pricing_rule_id ?? null,
+          projectPriceOverridden: item.project_price_overridden ?? false,
           createdBy: item.created_by,
           inventoryStatus: item.inventory_status,
           businessInventoryLocation: item.business_inventory_location,
+          warehouseLocationId: item.warehouse_location_id ?? null,
+          dimensions: item.dimensions ?? null,
+          weight: item.weight ?? null,
+          condition: item.condition ?? null,
           originTransactionId: item.origin_transaction_id,
           latestTransactionId: item.latest_transaction_id,
           version: item.version || 1,
@@ -147,9 +155,15 @@ export class OfflineItemService {
       taxRatePct: itemData.taxRatePct,
       taxAmountPurchasePrice: itemData.taxAmountPurchasePrice,
       taxAmountProjectPrice: itemData.taxAmountProjectPrice,
+      pricingRuleId: itemData.pricingRuleId ?? null,
+      projectPriceOverridden: itemData.projectPriceOverridden ?? false,
       createdBy: itemData.createdBy,
       inventoryStatus: itemData.inventoryStatus,
       businessInventoryLocation: itemData.businessInventoryLocation,
+      warehouseLocationId: itemData.warehouseLocationId ?? null,
+      dimensions: itemData.dimensions ?? null,
+      weight: itemData.weight ?? null,
+      condition: itemData.condition ?? null,
       originTransactionId: itemData.originTransactionId ?? null,
       latestTransactionId: itemData.latestTransactionId ?? null,
       version: 1,
@@ -289,8 +303,14 @@ export class OfflineItemService {
       ...(updates.taxRatePct !== undefined && { taxRatePct: updates.taxRatePct }),
       ...(updates.taxAmountPurchasePrice !== undefined && { taxAmountPurchasePrice: updates.taxAmountPurchasePrice }),
       ...(updates.taxAmountProjectPrice !== undefined && { taxAmountProjectPrice: updates.taxAmountProjectPrice }),
+      ...(updates.pricingRuleId !== undefined && { pricingRuleId: updates.pricingRuleId ?? null }),
+      ...(updates.projectPriceOverridden !== undefined && { projectPriceOverridden: updates.projectPriceOverridden }),
       ...(updates.inventoryStatus !== undefined && { inventoryStatus: updates.inventoryStatus }),
       ...(updates.businessInventoryLocation !== undefined && { businessInventoryLocation: updates.businessInventoryLocation }),
+      ...(updates.warehouseLocationId !== undefined && { warehouseLocationId: updates.warehouseLocationId ?? null }),
+      ...(updates.dimensions !== undefined && { dimensions: updates.dimensions ?? null }),
+      ...(updates.weight !== undefined && { weight: updates.weight ?? null }),
+      ...(updates.condition !== undefined && { condition: updates.condition ?? null }),
       ...(updates.createdAt !== undefined && { createdAt: typeof updates.createdAt === 'string' ? updates.createdAt : updates.createdAt.toISOString() }),
       lastUpdated: timestamp,
       version: nextVersion
@@ -312,6 +332,52 @@ export class OfflineItemService {
     return { operationId, wasQueued: true, itemId }
   }
 
+  /**
+   * Queue an item allocation to a project for when the connection returns.
+   * Allocation creates and updates canonical transactions on the server, so unlike other
+   * item edits it is not applied optimistically; the item moves once the queue syncs. A second
+   * allocation of the same item to the same project reuses the queued operation.
+   */
+  async allocateItemToProject(
+    accountId: string,
+    itemId: string,
+    projectId: string,
+    space?: string
+  ): Promise<OfflineOperationResult> {
+    await offlineStore.init().catch(() => {})
+
+    const existingItem = await offlineStore.getItemById(itemId).catch(() => null as DBItem | null)
+
+    if (!existingItem) {
+      throw new Error(`Item ${itemId} not found in offline store`)
+    }
+
+    const pendingAllocation = operationQueue
+      .getPendingOperations()
+      .find(op => op.type === 'ALLOCATE_ITEM' && op.data.id === itemId && op.data.projectId === projectId)
+    if (pendingAllocation) {
+      return { operationId: pendingAllocation.id, wasQueued: true, itemId, alreadyQueued: true }
+    }
+
+    const operation: Omit<Operation, 'id' | 'timestamp' | 'retryCount' | 'accountId' | 'updatedBy' | 'version'> = {
+      type: 'ALLOCATE_ITEM',
+      data: { id: itemId, accountId, projectId, space }
+    }
+
+    const operationId = await operationQueue.add(operation, {
+      accountId,
+      version: existingItem.version ?? 1,
+      timestamp: new Date().toISOString()
+    })
+
+    // Trigger immediate processing if online
+    if (isNetworkOnline()) {
+      operationQueue.processQueue()
+    }
+
+    return { operationId, wasQueued: true, itemId }
+  }
+
   /**
    * Delete an item offline by queuing it for sync
    * Returns the operation ID for tracking/retry purposes
@@ -385,9 +451,15 @@ export class OfflineItemService {
       taxRatePct: dbItem.taxRatePct,
       taxAmountPurchasePrice: dbItem.taxAmountPurchasePrice,
       taxAmountProjectPrice: dbItem.taxAmountProjectPrice,
+      pricingRuleId: dbItem.pricingRuleId,
+      projectPriceOverridden: dbItem.projectPriceOverridden,
       createdBy: dbItem.createdBy,
       inventoryStatus: dbItem.inventoryStatus,
       businessInventoryLocation: dbItem.businessInventoryLocation,
+      warehouseLocationId: dbItem.warehouseLocationId ?? null,
+      dimensions: dbItem.dimensions ?? null,
+      weight: dbItem.weight ?? null,
+      condition: dbItem.condition ?? null,
       originTransactionId: dbItem.originTransactionId,
       latestTransactionId: dbItem.latestTransactionId
     }
@@ -1,4 +1,4 @@
-import type { ItemImage } from '@/types'
+import type { Dimensions, ItemCondition, ItemImage, ItemWeight } from '@/types'
 
 interface DBItem {
   itemId: string
@@ -28,9 +28,15 @@ interface DBItem {
   taxRatePct?: number
   taxAmountPurchasePrice?: string
   taxAmountProjectPrice?: string
+  pricingRuleId?: string | null
+  projectPriceOverridden?: boolean
   createdBy?: string
   inventoryStatus?: 'available' | 'allocated' | 'sold'
   businessInventoryLocation?: string
+  warehouseLocationId?: string | null
+  dimensions?: Dimensions | null
+  weight?: ItemWeight | null
+  condition?: ItemCondition | null
   originTransactionId?: string | null
   latestTransactionId?: string | null
   version: number // For conflict resolution
@@ -60,6 +66,7 @@ interface DBTransaction {
   subtotal?: string
   needsReview?: boolean
   sumItemPurchasePrices?: string
+  legacyTransactionId?: string | null
   itemIds?: string[]
   version: number
   last_synced_at?: string
@@ -110,6 +110,7 @@ export class OfflineTransactionService {
       subtotal: transactionData.subtotal,
       needsReview: transactionData.needsReview ?? false,
       sumItemPurchasePrices: transactionData.sumItemPurchasePrices,
+      legacyTransactionId: transactionData.legacyTransactionId ?? null,
       itemIds: transactionData.itemIds || [],
       version: 1,
       last_synced_at: null // Not synced yet
@@ -152,6 +153,11 @@ export class OfflineTransactionService {
             taxRatePct: transactionData.taxRatePct,
             taxAmountPurchasePrice: itemData.taxAmountPurchasePrice,
             taxAmountProjectPrice: itemData.taxAmountProjectPrice,
+            pricingRuleId: itemData.pricingRuleId ?? null,
+            projectPriceOverridden: itemData.projectPriceOverridden ?? false,
+            dimensions: itemData.dimensions ?? null,
+            weight: itemData.weight ?? null,
+            condition: itemData.condition ?? null,
             images: itemData.images || [],
             inventoryStatus: 'available',
             createdBy: transactionData.createdBy || ''
@@ -3,6 +3,7 @@ import {
   CreateItemOperation, 
   UpdateItemOperation, 
   DeleteItemOperation,
+  AllocateItemOperation,
   CreateTransactionOperation,
   UpdateTransactionOperation,
   DeleteTransactionOperation,
@@ -247,6 +248,8 @@ class OperationQueue {
           return (operation as UpdateItemOperation).data.accountId
         case 'DELETE_ITEM':
           return (operation as DeleteItemOperation).data.accountId
+        case 'ALLOCATE_ITEM':
+          return (operation as AllocateItemOperation).data.accountId
         case 'CREATE_TRANSACTION':
           return (operation as CreateTransactionOperation).data.accountId
         case 'UPDATE_TRANSACTION':
@@ -544,6 +547,8 @@ class OperationQueue {
           return await this.executeUpdateItem(operation)
         case 'DELETE_ITEM':
           return await this.executeDeleteItem(operation)
+        case 'ALLOCATE_ITEM':
+          return await this.executeAllocateItem(operation)
         case 'CREATE_TRANSACTION':
           return await this.executeCreateTransaction(operation)
         case 'UPDATE_TRANSACTION':
@@ -660,8 +665,14 @@ class OperationQueue {
           tax_rate_pct: localItem.taxRatePct ?? undefined,
           tax_amount_purchase_price: localItem.taxAmountPurchasePrice ?? undefined,
           tax_amount_project_price: localItem.taxAmountProjectPrice ?? undefined,
+          pricing_rule_id: localItem.pricingRuleId ?? null,
+          project_price_overridden: localItem.projectPriceOverridden ?? false,
           inventory_status: localItem.inventoryStatus ?? undefined,
           business_inventory_location: localItem.businessInventoryLocation ?? undefined,
+          warehouse_location_id: localItem.warehouseLocationId ?? null,
+          dimensions: localItem.dimensions ?? null,
+          weight: localItem.weight ?? null,
+          condition: localItem.condition ?? null,
           origin_transaction_id: localItem.originTransactionId ?? null,
           latest_transaction_id: localItem.latestTransactionId ?? null,
           images: localItem.images ?? [],
@@ -703,8 +714,14 @@ class OperationQueue {
         taxRatePct: serverItem.tax_rate_pct ?? localItem.taxRatePct ?? undefined,
         taxAmountPurchasePrice: serverItem.tax_amount_purchase_price ?? localItem.taxAmountPurchasePrice ?? undefined,
         taxAmountProjectPrice: serverItem.tax_amount_project_price ?? localItem.taxAmountProjectPrice ?? undefined,
+        pricingRuleId: serverItem.pricing_rule_id ?? localItem.pricingRuleId ?? null,
+        projectPriceOverridden: serverItem.project_price_overridden ?? localItem.projectPriceOverridden ?? false,
         inventoryStatus: serverItem.inventory_status ?? localItem.inventoryStatus ?? undefined,
         businessInventoryLocation: serverItem.business_inventory_location ?? localItem.businessInventoryLocation ?? undefined,
+        warehouseLocationId: serverItem.warehouse_location_id ?? localItem.warehouseLocationId ?? null,
+        dimensions: serverItem.dimensions ?? localItem.dimensions ?? null,
+        weight: serverItem.weight ?? localItem.weight ?? null,
+        condition: serverItem.condition ?? localItem.condition ?? null,
         originTransactionId: serverItem.origin_transaction_id ?? localItem.originTransactionId ?? null,
         latestTransactionId: serverItem.latest_transaction_id ?? localItem.latestTransactionId ?? null,
         dateCreated: serverItem.date_created ?? localItem.dateCreated ?? cachedAt,
@@ -729,6 +746,7 @@ class OperationQueue {
       case 'CREATE_ITEM':
       case 'UPDATE_ITEM':
       case 'DELETE_ITEM':
+      case 'ALLOCATE_ITEM':
         return operation.data.id
       default:
         return null
@@ -855,8 +873,14 @@ class OperationQueue {
           tax_rate_pct: updatedLocalItem.taxRatePct ?? undefined,
           tax_amount_purchase_price: updatedLocalItem.taxAmountPurchasePrice ?? undefined,
           tax_amount_project_price: updatedLocalItem.taxAmountProjectPrice ?? undefined,
+          pricing_rule_id: updatedLocalItem.pricingRuleId ?? null,
+          project_price_overridden: updatedLocalItem.projectPriceOverridden ?? false,
           inventory_status: updatedLocalItem.inventoryStatus ?? undefined,
           business_inventory_location: updatedLocalItem.businessInventoryLocation ?? undefined,
+          warehouse_location_id: updatedLocalItem.warehouseLocationId ?? null,
+          dimensions: updatedLocalItem.dimensions ?? null,
+          weight: updatedLocalItem.weight ?? null,
+          condition: updatedLocalItem.condition ?? null,
           origin_transaction_id: updatedLocalItem.originTransactionId ?? null,
           latest_transaction_id: updatedLocalItem.latestTransactionId ?? null,
           images: updatedLocalItem.images ?? [],
@@ -896,8 +920,14 @@ class OperationQueue {
         taxRatePct: serverItem.tax_rate_pct ?? updatedLocalItem.taxRatePct ?? undefined,
         taxAmountPurchasePrice: serverItem.tax_amount_purchase_price ?? updatedLocalItem.taxAmountPurchasePrice ?? undefined,
         taxAmountProjectPrice: serverItem.tax_amount_project_price ?? updatedLocalItem.taxAmountProjectPrice ?? undefined,
+        pricingRuleId: serverItem.pricing_rule_id ?? updatedLocalItem.pricingRuleId ?? null,
+        projectPriceOverridden: serverItem.project_price_overridden ?? updatedLocalItem.projectPriceOverridden ?? false,
         inventoryStatus: serverItem.inventory_status ?? updatedLocalItem.inventoryStatus ?? undefined,
         businessInventoryLocation: serverItem.business_inventory_location ?? updatedLocalItem.businessInventoryLocation ?? undefined,
+        warehouseLocationId: serverItem.warehouse_location_id ?? updatedLocalItem.warehouseLocationId ?? null,
+        dimensions: serverItem.dimensions ?? updatedLocalItem.dimensions ?? null,
+        weight: serverItem.weight ?? updatedLocalItem.weight ?? null,
+        condition: serverItem.condition ?? updatedLocalItem.condition ?? null,
         originTransactionId: serverItem.origin_transaction_id ?? updatedLocalItem.originTransactionId ?? null,
         latestTransactionId: serverItem.latest_transaction_id ?? updatedLocalItem.latestTransactionId ?? null,
         lastUpdated: serverItem.last_updated ?? updatedLocalItem.lastUpdated ?? cachedAt,
@@ -954,6 +984,36 @@ class OperationQueue {
     }
   }
 
+  private async executeAllocateItem(operation: AllocateItemOperation): Promise<boolean> {
+    const { data, accountId } = operation
+
+    try {
+      // Allocating an item to the project it is already in moves it back to inventory, so a retry
+      // after a partly applied replay (or a duplicate scan) must not run the allocation again.
+      const { data: serverItem, error } = await supabase
+        .from('items')
+        .select('project_id')
+        .eq('account_id', accountId)
+        .eq('item_id', data.id)
+        .single()
+
+      if (error) throw error
+      if (serverItem?.project_id === data.projectId) {
+        return true
+      }
+
+      // Replay through the online allocation flow so the canonical INV_SALE/INV_PURCHASE
+      // transactions are created exactly as if the user had been connected.
+      // Imported lazily because inventoryService depends on this module.
+      const { unifiedItemsService } = await import('./inventoryService')
+      await unifiedItemsService.allocateItemToProject(accountId, data.id, data.projectId, undefined, undefined, data.space)
+      return true
+    } catch (error) {
+      console.error('Failed to allocate item:', error)
+      return false
+    }
+  }
+
   private async executeCreateTransaction(operation: CreateTransactionOperation): Promise<boolean> {
     const { data, accountId, updatedBy, version } = operation
 
@@ -990,6 +1050,7 @@ class OperationQueue {
           subtotal: localTransaction.subtotal ?? null,
           needs_review: localTransaction.needsReview ?? null,
           sum_item_purchase_prices: localTransaction.sumItemPurchasePrices ?? null,
+          legacy_transaction_id: localTransaction.legacyTransactionId ?? null,
           item_ids: localTransaction.itemIds ?? null,
           created_at: localTransaction.createdAt || new Date().toISOString(),
           created_by: localTransaction.createdBy || updatedBy,
@@ -1025,6 +1086,7 @@ class OperationQueue {
         subtotal: serverTransaction.subtotal ?? localTransaction.subtotal,
         needsReview: serverTransaction.needs_review ?? localTransaction.needsReview,
         sumItemPurchasePrices: serverTransaction.sum_item_purchase_prices ?? localTransaction.sumItemPurchasePrices,
+        legacyTransactionId: serverTransaction.legacy_transaction_id ?? localTransaction.legacyTransactionId,
         itemIds: serverTransaction.item_ids ?? localTransaction.itemIds,
         version: version,
         last_synced_at: cachedAt
@@ -0,0 +1,136 @@
+import { supabase } from './supabase'
+import { ensureAuthenticatedForDatabase, handleSupabaseError } from './databaseService'
+import { invoiceService } from './invoiceService'
+import type { Payment, PaymentDirection } from '@/types'
+import { normalizeMoneyToTwoDecimalString } from '@/utils/money'
+
+export const PAYMENT_METHODS = ['Check', 'ACH', 'Wire', 'Credit Card', 'Cash', 'Other'] as const
+
+export type RecordPaymentInput = {
+  projectId: string
+  direction: PaymentDirection
+  paymentDate: string
+  amount: string
+  method: string
+  reference?: string | null
+  notes?: string | null
+  invoiceId?: string | null
+  createdBy?: string | null
+}
+
+type PaymentRow = {
+  id: string
+  account_id: string
+  project_id: string
+  invoice_id: string | null
+  direction: PaymentDirection
+  payment_date: string
+  amount: number | string
+  method: string
+  reference: string | null
+  notes: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export const convertPaymentFromDb = (row: PaymentRow): Payment => ({
+  id: row.id,
+  accountId: row.account_id,
+  projectId: row.project_id,
+  invoiceId: row.invoice_id ?? null,
+  direction: row.direction,
+  paymentDate: row.payment_date,
+  amount: normalizeMoneyToTwoDecimalString(String(row.amount)) || '0.00',
+  method: row.method,
+  reference: row.reference ?? null,
+  notes: row.notes ?? null,
+  createdBy: row.created_by ?? null,
+  createdAt: row.created_at,
+})
+
+export const paymentService = {
+  /**
+   * List payments for one or more projects, oldest first.
+   */
+  async listPayments(accountId: string, projectIds: string | string[]): Promise<Payment[]> {
+    const ids = Array.isArray(projectIds) ? projectIds : [projectIds]
+    if (ids.length === 0) return []
+
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('account_id', accountId)
+      .in('project_id', ids)
+      .order('payment_date', { ascending: true })
+
+    handleSupabaseError(error)
+    return (data || []).map(convertPaymentFromDb)
+  },
+
+  /**
+   * Record a payment. When applied to an invoice, the database updates the invoice's
+   * amount paid and moves it to partially paid / paid.
+   */
+  async recordPayment(accountId: string, input: RecordPaymentInput): Promise<Payment> {
+    await ensureAuthenticatedForDatabase()
+
+    const amount = normalizeMoneyToTwoDecimalString(input.amount)
+    if (!amount || Number.parseFloat(amount) <= 0) {
+      throw new Error('Payment amount must be greater than zero')
+    }
+    if (!input.method.trim()) {
+      throw new Error('Payment method is required')
+    }
+
+    if (input.invoiceId) {
+      if (input.direction !== 'client_to_company') {
+        throw new Error('Only payments received from the client can be applied to an invoice')
+      }
+      const invoice = await invoiceService.getInvoice(accountId, input.invoiceId)
+      if (!invoice || invoice.projectId !== input.projectId) {
+        throw new Error('Invoice not found for this project')
+      }
+      if (invoice.status !== 'sent' && invoice.status !== 'partially_paid') {
+        throw new Error('Payments can only be applied to sent or partially paid invoices')
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('payments')
+      .insert({
+        account_id: accountId,
+        project_id: input.projectId,
+        invoice_id: input.invoiceId || null,
+        direction: input.direction,
+        payment_date: input.paymentDate,
+        amount,
+        method: input.method.trim(),
+        reference: input.reference?.trim() || null,
+        notes: input.notes?.trim() || null,
+        created_by: input.createdBy || null,
+      })
+      .select('*')
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to record payment: no data returned')
+    }
+
+    return convertPaymentFromDb(data)
+  },
+
+  async deletePayment(accountId: string, paymentId: string): Promise<void> {
+    await ensureAuthenticatedForDatabase()
+
+    const { error } = await supabase
+      .from('payments')
+      .delete()
+      .eq('account_id', accountId)
+      .eq('id', paymentId)
+
+    handleSupabaseError(error)
+  },
+}
@@ -0,0 +1,63 @@
+import type { PricingRounding, PricingRule } from '@/types'
+import { getAccountPresets, upsertAccountPresets } from './accountPresetsService'
+
+const ROUNDING_VALUES: PricingRounding[] = ['none', 'nearest_dollar', 'up_dollar', 'up_five']
+
+type StoredPricingRule = { [K in keyof PricingRule]?: unknown }
+
+const normalizeRule = (raw: StoredPricingRule | null): PricingRule | null => {
+  if (!raw || typeof raw.id !== 'string') return null
+  const markupPercent = Number(raw.markupPercent)
+  const tradeDiscountPercent = Number(raw.tradeDiscountPercent ?? 0)
+  if (!Number.isFinite(markupPercent) || !Number.isFinite(tradeDiscountPercent)) return null
+  return {
+    id: raw.id,
+    vendor: typeof raw.vendor === 'string' && raw.vendor.trim() ? raw.vendor.trim() : null,
+    categoryId: typeof raw.categoryId === 'string' && raw.categoryId ? raw.categoryId : null,
+    markupPercent,
+    tradeDiscountPercent,
+    rounding: ROUNDING_VALUES.find(value => value === raw.rounding) ?? 'none',
+  }
+}
+
+/**
+ * Get the account's pricing rules from account_presets.
+ * Returns an empty list when none are configured; account presets are cached for offline use.
+ */
+export async function getPricingRules(accountId: string): Promise<PricingRule[]> {
+  try {
+    const ap = await getAccountPresets(accountId)
+    const stored: unknown = ap?.presets?.pricing_rules
+    if (!Array.isArray(stored)) return []
+    return stored.map(normalizeRule).filter((rule): rule is PricingRule => rule !== null)
+  } catch (error) {
+    console.error('Error fetching pricing rules:', error)
+    return []
+  }
+}
+
+/**
+ * Replace the account's pricing rules
+ * @param accountId Account ID
+ * @param rules Rules to save, in display order
+ */
+export async function updatePricingRules(accountId: string, rules: PricingRule[]): Promise<void> {
+  for (const rule of rules) {
+    if (!Number.isFinite(rule.markupPercent) || rule.markupPercent < 0 || rule.markupPercent > 1000) {
+      throw new Error('Markup must be between 0% and 1000%')
+    }
+    if (!Number.isFinite(rule.tradeDiscountPercent) || rule.tradeDiscountPercent < 0 || rule.tradeDiscountPercent >= 100) {
+      throw new Error('Trade discount must be at least 0% and less than 100%')
+    }
+  }
+
+  const scopes = rules.map(rule => `${(rule.vendor || '').toLowerCase()}|${rule.categoryId || ''}`)
+  if (new Set(scopes).size !== scopes.length) {
+    throw new Error('Each vendor and category combination can only have one rule')
+  }
+
+  // Merge so other preset keys (tax presets, vendor defaults, category order) are kept.
+  const ap = await getAccountPresets(accountId)
+  const currentPresets = ap?.presets || {}
+  await upsertAccountPresets(accountId, { presets: { ...currentPresets, pricing_rules: rules } })
+}
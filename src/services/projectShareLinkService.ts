@@ -0,0 +1,265 @@
+import { supabase } from './supabase'
+import { ensureAuthenticatedForDatabase, handleSupabaseError } from './databaseService'
+import type {
+  BudgetChangeOrderStatus,
+  InvoiceSnapshot,
+  InvoiceStatus,
+  ItemImage,
+  ProjectBudgetCategories,
+  ProjectShareLink,
+  ProjectShareLinkAccess,
+  SharedProject,
+} from '@/types'
+import { normalizeMoneyToTwoDecimalString } from '@/utils/money'
+import { sharedProject } from '@/utils/routes'
+
+export const SHARE_LINK_EXPIRY_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+] as const
+
+type ProjectShareLinkRow = {
+  id: string
+  account_id: string
+  project_id: string
+  label: string | null
+  expires_at: string
+  revoked_at: string | null
+  created_by: string | null
+  created_at: string
+  last_accessed_at: string | null
+  access_count: number
+}
+
+type ProjectShareLinkAccessRow = {
+  id: string
+  link_id: string
+  accessed_at: string
+  user_agent: string | null
+}
+
+type SharedProjectRow = {
+  project: { name: string; client_name: string | null; budget_categories?: ProjectBudgetCategories | null } | null
+  business: { name: string | null; logo_url: string | null } | null
+  expires_at: string
+  items: Array<{
+    item_id: string
+    description: string | null
+    source: string | null
+    sku: string | null
+    space: string | null
+    project_price: string | null
+    market_value: string | null
+    transaction_id: string | null
+    images: ItemImage[] | null
+  }>
+  transactions: Array<{ transaction_id: string; category_id: string | null }>
+  categories: Array<{ id: string; name: string }>
+  budget_change_orders?: Array<{
+    id: string
+    category_id: string
+    amount: number | string
+    reason: string
+    status: BudgetChangeOrderStatus
+    requested_on: string
+    approved_by: string | null
+    approved_on: string | null
+    created_at: string
+  }>
+  invoices: Array<{
+    invoice_number: number
+    status: InvoiceStatus
+    issue_date: string
+    due_date: string | null
+    total_due: number | string
+    amount_paid: number | string
+    snapshot: InvoiceSnapshot
+  }>
+}
+
+const SHARE_LINK_COLUMNS = 'id, account_id, project_id, label, expires_at, revoked_at, created_by, created_at, last_accessed_at, access_count'
+
+export const convertProjectShareLinkFromDb = (row: ProjectShareLinkRow): ProjectShareLink => ({
+  id: row.id,
+  accountId: row.account_id,
+  projectId: row.project_id,
+  label: row.label ?? null,
+  expiresAt: row.expires_at,
+  revokedAt: row.revoked_at ?? null,
+  createdBy: row.created_by ?? null,
+  createdAt: row.created_at,
+  lastAccessedAt: row.last_accessed_at ?? null,
+  accessCount: row.access_count ?? 0,
+})
+
+const toMoneyString = (value: number | string | null | undefined): string =>
+  normalizeMoneyToTwoDecimalString(value === null || value === undefined ? '' : String(value)) || '0.00'
+
+export const convertSharedProjectFromDb = (row: SharedProjectRow): SharedProject => ({
+  projectName: row.project?.name || 'Project',
+  clientName: row.project?.client_name || undefined,
+  businessName: row.business?.name || '',
+  businessLogoUrl: row.business?.logo_url ?? null,
+  expiresAt: row.expires_at,
+  items: (row.items || []).map(item => ({
+    itemId: item.item_id,
+    description: item.description || '',
+    source: item.source || '',
+    sku: item.sku || '',
+    space: item.space || undefined,
+    projectPrice: item.project_price || undefined,
+    marketValue: item.market_value || undefined,
+    transactionId: item.transaction_id,
+    images: Array.isArray(item.images) ? item.images : [],
+  })),
+  transactions: (row.transactions || []).map(transaction => ({
+    transactionId: transaction.transaction_id,
+    categoryId: transaction.category_id || undefined,
+  })),
+  categories: row.categories || [],
+  budgetCategories: row.project?.budget_categories || {},
+  budgetChangeOrders: (row.budget_change_orders || []).map(order => ({
+    id: order.id,
+    categoryId: order.category_id,
+    amount: toMoneyString(order.amount),
+    reason: order.reason,
+    status: order.status,
+    requestedOn: order.requested_on,
+    approvedBy: order.approved_by ?? null,
+    approvedOn: order.approved_on ?? null,
+    createdAt: order.created_at,
+  })),
+  invoices: (row.invoices || []).map(invoice => ({
+    invoiceNumber: invoice.invoice_number,
+    status: invoice.status,
+    issueDate: invoice.issue_date,
+    dueDate: invoice.due_date ?? null,
+    totalDue: toMoneyString(invoice.total_due),
+    amountPaid: toMoneyString(invoice.amount_paid),
+    snapshot: invoice.snapshot,
+  })),
+})
+
+export const isShareLinkActive = (link: Pick<ProjectShareLink, 'revokedAt' | 'expiresAt'>, now = new Date()): boolean =>
+  !link.revokedAt && new Date(link.expiresAt) > now
+
+export const generateShareToken = (): string => {
+  const array = new Uint8Array(32)
+  crypto.getRandomValues(array)
+  return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function hashShareToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export const projectShareLinkService = {
+  async listShareLinks(accountId: string, projectId: string): Promise<ProjectShareLink[]> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('project_share_links')
+      .select(SHARE_LINK_COLUMNS)
+      .eq('account_id', accountId)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+
+    handleSupabaseError(error)
+    return (data || []).map(convertProjectShareLinkFromDb)
+  },
+
+  /**
+   * Create a share link. The returned URL carries the only copy of the token (the database keeps a
+   * hash), so it has to be copied now; it can't be shown again later.
+   */
+  async createShareLink(
+    accountId: string,
+    projectId: string,
+    options: { expiresInDays: number; label?: string | null; createdBy?: string | null }
+  ): Promise<{ link: ProjectShareLink; url: string }> {
+    await ensureAuthenticatedForDatabase()
+
+    const token = generateShareToken()
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + options.expiresInDays)
+
+    const { data, error } = await supabase
+      .from('project_share_links')
+      .insert({
+        account_id: accountId,
+        project_id: projectId,
+        token_hash: await hashShareToken(token),
+        label: options.label?.trim() || null,
+        expires_at: expiresAt.toISOString(),
+        created_by: options.createdBy || null,
+      })
+      .select(SHARE_LINK_COLUMNS)
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to create share link: no data returned')
+    }
+
+    return { link: convertProjectShareLinkFromDb(data), url: `${window.location.origin}${sharedProject(token)}` }
+  },
+
+  async revokeShareLink(accountId: string, linkId: string): Promise<ProjectShareLink> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('project_share_links')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('account_id', accountId)
+      .eq('id', linkId)
+      .select(SHARE_LINK_COLUMNS)
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to revoke share link: no data returned')
+    }
+    return convertProjectShareLinkFromDb(data)
+  },
+
+  /**
+   * Most recent views of a link, newest first.
+   */
+  async listAccessLog(accountId: string, linkId: string, limit = 50): Promise<ProjectShareLinkAccess[]> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('project_share_link_access_logs')
+      .select('id, link_id, accessed_at, user_agent')
+      .eq('account_id', accountId)
+      .eq('link_id', linkId)
+      .order('accessed_at', { ascending: false })
+      .limit(limit)
+
+    handleSupabaseError(error)
+    return (data || []).map((row: ProjectShareLinkAccessRow) => ({
+      id: row.id,
+      linkId: row.link_id,
+      accessedAt: row.accessed_at,
+      userAgent: row.user_agent ?? null,
+    }))
+  },
+
+  /**
+   * Portal data for a share link token. Works without a session; returns null when the link is
+   * unknown, expired or revoked. Each successful call is recorded in the link's access log.
+   */
+  async getSharedProject(token: string): Promise<SharedProject | null> {
+    const { data, error } = await supabase.rpc('get_shared_project', {
+      p_token: token,
+      p_user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+    })
+
+    if (error) {
+      throw new Error(`Failed to load shared project: ${error.message}`)
+    }
+    return data ? convertSharedProjectFromDb(data as SharedProjectRow) : null
+  },
+}
@@ -0,0 +1,303 @@
+import type { Invoice, InvoiceSnapshotLine } from '@/types'
+import { formatInvoiceNumber } from '@/utils/invoiceSnapshot'
+import { toCents } from '@/utils/invoiceTextUtils'
+
+/**
+ * Thin client for the slice of the QuickBooks Online Accounting API we use to create invoice drafts.
+ * `baseUrl` is the quickbooks-proxy edge function in the app (Intuit's API does not allow browser
+ * CORS calls) and a local stub server in tests; both mirror Intuit's paths.
+ *
+ * The QBO access token travels in `X-QBO-Authorization`, because the proxy's own Authorization header
+ * carries the signed-in user's Supabase JWT.
+ */
+
+export const QBO_MINOR_VERSION = '75'
+export const QBO_AUTHORIZATION_HEADER = 'X-QBO-Authorization'
+
+export type QboRef = { value: string; name?: string }
+
+export interface QboCustomer {
+  Id: string
+  DisplayName: string
+}
+
+export interface QboItem {
+  Id: string
+  Name: string
+  Type?: string
+}
+
+export interface QboInvoiceLine {
+  DetailType: 'SalesItemLineDetail'
+  Amount: number
+  Description?: string
+  SalesItemLineDetail: {
+    ItemRef: QboRef
+    Qty: number
+    UnitPrice: number
+    ServiceDate?: string
+  }
+}
+
+export interface QboInvoicePayload {
+  CustomerRef: QboRef
+  DocNumber?: string
+  TxnDate: string
+  DueDate?: string
+  PrivateNote?: string
+  EmailStatus: 'NotSet'
+  PrintStatus: 'NotSet'
+  Line: QboInvoiceLine[]
+}
+
+export interface QboInvoice {
+  Id: string
+  DocNumber?: string
+  TotalAmt?: number
+  CustomerRef?: QboRef
+  PrivateNote?: string
+}
+
+export interface QuickBooksTokenResponse {
+  access_token: string
+  refresh_token: string
+  expires_in: number // seconds
+  x_refresh_token_expires_in?: number // seconds
+}
+
+export type QuickBooksTokenRequest =
+  | { grantType: 'authorization_code'; code: string; redirectUri: string }
+  | { grantType: 'refresh_token'; refreshToken: string }
+
+export class QuickBooksApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'QuickBooksApiError'
+  }
+}
+
+/** A QBO invoice already uses our invoice number but was not created by this app for this invoice. */
+export class QuickBooksInvoiceConflictError extends Error {
+  constructor(message: string, public readonly qboInvoiceId: string) {
+    super(message)
+    this.name = 'QuickBooksInvoiceConflictError'
+  }
+}
+
+type FetchLike = typeof fetch
+
+type QboFaultBody = {
+  Fault?: { Error?: Array<{ Message?: string; Detail?: string }> }
+  error?: string
+  error_description?: string
+}
+
+const stripTrailingSlash = (url: string) => url.replace(/\/+$/, '')
+
+// QBO query language escapes single quotes with a backslash.
+const quoteQboString = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+
+async function readJsonOrThrow<T>(response: Response, action: string): Promise<T> {
+  const text = await response.text()
+  let body: unknown = null
+  try {
+    body = text ? JSON.parse(text) : null
+  } catch {
+    body = null
+  }
+
+  if (!response.ok) {
+    const fault = (body || {}) as QboFaultBody
+    const detail =
+      fault.Fault?.Error?.map(err => err.Detail || err.Message).filter(Boolean).join('; ') ||
+      fault.error_description ||
+      fault.error ||
+      text ||
+      response.statusText
+    throw new QuickBooksApiError(`QuickBooks ${action} failed (${response.status}): ${detail}`, response.status)
+  }
+
+  return body as T
+}
+
+/**
+ * Exchanges an authorization code, or refreshes tokens. The proxy adds the client credentials.
+ */
+export async function requestQuickBooksTokens(
+  baseUrl: string,
+  request: QuickBooksTokenRequest,
+  fetchImpl: FetchLike = fetch,
+  headers: Record<string, string> = {}
+): Promise<QuickBooksTokenResponse> {
+  const form = new URLSearchParams(
+    request.grantType === 'authorization_code'
+      ? { grant_type: 'authorization_code', code: request.code, redirect_uri: request.redirectUri }
+      : { grant_type: 'refresh_token', refresh_token: request.refreshToken }
+  )
+
+  const response = await fetchImpl(`${stripTrailingSlash(baseUrl)}/oauth2/v1/tokens/bearer`, {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+    body: form.toString(),
+  })
+
+  return readJsonOrThrow<QuickBooksTokenResponse>(response, 'token request')
+}
+
+export type QuickBooksAdapter = ReturnType<typeof createQuickBooksAdapter>
+
+export function createQuickBooksAdapter(options: {
+  baseUrl: string
+  realmId: string
+  accessToken: string
+  headers?: Record<string, string>
+  fetchImpl?: FetchLike
+}) {
+  const fetchImpl = options.fetchImpl ?? fetch
+  const companyUrl = `${stripTrailingSlash(options.baseUrl)}/v3/company/${encodeURIComponent(options.realmId)}`
+  const headers = {
+    Accept: 'application/json',
+    [QBO_AUTHORIZATION_HEADER]: `Bearer ${options.accessToken}`,
+    ...options.headers,
+  }
+
+  const query = async <T>(entity: string, where?: string): Promise<T[]> => {
+    const statement = `select * from ${entity}${where ? ` where ${where}` : ''}`
+    const params = new URLSearchParams({ query: statement, minorversion: QBO_MINOR_VERSION })
+    const response = await fetchImpl(`${companyUrl}/query?${params.toString()}`, { headers })
+    const body = await readJsonOrThrow<{ QueryResponse?: Record<string, T[] | undefined> }>(response, `${entity} query`)
+    return body.QueryResponse?.[entity] ?? []
+  }
+
+  const create = async <T>(entity: string, payload: unknown): Promise<T> => {
+    const params = new URLSearchParams({ minorversion: QBO_MINOR_VERSION })
+    const response = await fetchImpl(`${companyUrl}/${entity.toLowerCase()}?${params.toString()}`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    })
+    const body = await readJsonOrThrow<Record<string, T | undefined>>(response, `${entity} create`)
+    const created = body[entity]
+    if (!created) {
+      throw new QuickBooksApiError(`QuickBooks ${entity} create returned no ${entity}`, response.status)
+    }
+    return created
+  }
+
+  return {
+    async findCustomerByDisplayName(displayName: string): Promise<QboCustomer | null> {
+      const [customer] = await query<QboCustomer>('Customer', `DisplayName = ${quoteQboString(displayName)}`)
+      return customer ?? null
+    },
+
+    createCustomer(displayName: string): Promise<QboCustomer> {
+      return create<QboCustomer>('Customer', { DisplayName: displayName })
+    },
+
+    async findInvoiceByDocNumber(docNumber: string): Promise<QboInvoice | null> {
+      const [invoice] = await query<QboInvoice>('Invoice', `DocNumber = ${quoteQboString(docNumber)}`)
+      return invoice ?? null
+    },
+
+    async findFirstServiceItem(): Promise<QboItem | null> {
+      const [item] = await query<QboItem>('Item', `Type = 'Service'`)
+      return item ?? null
+    },
+
+    createInvoice(payload: QboInvoicePayload): Promise<QboInvoice> {
+      return create<QboInvoice>('Invoice', payload)
+    },
+  }
+}
+
+const describeLine = (line: InvoiceSnapshotLine) => [line.title, line.notes].filter(Boolean).join(' - ')
+
+const toQboLine = (line: InvoiceSnapshotLine, itemRef: QboRef, sign: 1 | -1): QboInvoiceLine => {
+  const amount = (sign * toCents(line.amount)) / 100
+  return {
+    DetailType: 'SalesItemLineDetail',
+    Amount: amount,
+    Description: describeLine(line),
+    SalesItemLineDetail: {
+      ItemRef: itemRef,
+      Qty: 1,
+      UnitPrice: amount,
+      ...(line.transactionDate ? { ServiceDate: line.transactionDate } : {}),
+    },
+  }
+}
+
+// Our invoice id in the PrivateNote identifies QBO invoices this app created.
+const privateNoteMarker = (invoice: Invoice) => `(${invoice.id})`
+
+/**
+ * Maps a saved invoice onto a QBO invoice. Charges become positive lines and credits negative
+ * ones, so the QBO total matches ours. Email/print status stay unset so QBO treats it as a draft.
+ */
+export function buildQuickBooksInvoicePayload(invoice: Invoice, refs: { customer: QboRef; item: QboRef }): QboInvoicePayload {
+  const invoiceNumber = formatInvoiceNumber(invoice.invoiceNumber)
+  return {
+    CustomerRef: refs.customer,
+    DocNumber: invoiceNumber,
+    TxnDate: invoice.issueDate,
+    ...(invoice.dueDate ? { DueDate: invoice.dueDate } : {}),
+    PrivateNote: `Created from ${invoiceNumber} ${privateNoteMarker(invoice)}`,
+    EmailStatus: 'NotSet',
+    PrintStatus: 'NotSet',
+    Line: [
+      ...invoice.snapshot.charges.map(line => toQboLine(line, refs.item, 1)),
+      ...invoice.snapshot.credits.map(line => toQboLine(line, refs.item, -1)),
+    ],
+  }
+}
+
+/**
+ * Creates the QBO invoice for one of ours. An existing QBO invoice with the same DocNumber is reused
+ * (e.g. when a previous attempt created it but failed before we stored its Id) only if its PrivateNote
+ * carries our invoice id. Any other invoice with that number, even one a bookkeeper entered for the same
+ * customer and amount, is a QuickBooksInvoiceConflictError. The customer is matched on
+ * DisplayName = client name and created if missing.
+ */
+export async function pushInvoiceToQuickBooks(
+  adapter: QuickBooksAdapter,
+  invoice: Invoice,
+  options: { customerName: string; defaultItemId?: string | null }
+): Promise<{ qboInvoice: QboInvoice; reused: boolean }> {
+  const customerName = options.customerName.trim()
+  if (!customerName) {
+    throw new Error('Set a client name on the project before creating the invoice in QuickBooks')
+  }
+
+  const docNumber = formatInvoiceNumber(invoice.invoiceNumber)
+  const existing = await adapter.findInvoiceByDocNumber(docNumber)
+  const existingCustomer = await adapter.findCustomerByDisplayName(customerName)
+
+  if (existing) {
+    if (existing.PrivateNote?.includes(privateNoteMarker(invoice))) {
+      return { qboInvoice: existing, reused: true }
+    }
+    throw new QuickBooksInvoiceConflictError(
+      `QuickBooks already has an invoice numbered ${docNumber} that was not created from this invoice. ` +
+        'Renumber or remove it in QuickBooks, then try again.',
+      existing.Id
+    )
+  }
+
+  const customer = existingCustomer ?? (await adapter.createCustomer(customerName))
+
+  let itemId = options.defaultItemId || null
+  if (!itemId) {
+    const item = await adapter.findFirstServiceItem()
+    if (!item) {
+      throw new Error('No service item found in QuickBooks. Create one or pick a default item in Settings.')
+    }
+    itemId = item.Id
+  }
+
+  const payload = buildQuickBooksInvoicePayload(invoice, {
+    customer: { value: customer.Id, name: customer.DisplayName },
+    item: { value: itemId },
+  })
+  const qboInvoice = await adapter.createInvoice(payload)
+  return { qboInvoice, reused: false }
+}
@@ -0,0 +1,249 @@
+import { supabase } from './supabase'
+import { ensureAuthenticatedForDatabase, handleSupabaseError } from './databaseService'
+import { invoiceService } from './invoiceService'
+import { projectService } from './inventoryService'
+import { createQuickBooksAdapter, pushInvoiceToQuickBooks, requestQuickBooksTokens } from './quickbooksAdapter'
+import type { QuickBooksTokenResponse } from './quickbooksAdapter'
+import type { QuickBooksConnection, QuickBooksEnvironment } from '@/types'
+
+export const QBO_SCOPE = 'com.intuit.quickbooks.accounting'
+const QBO_AUTHORIZE_URL = 'https://appcenter.intuit.com/connect/oauth2'
+// Refresh a little early so a token never expires mid-request.
+const ACCESS_TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+type QuickBooksConnectionRow = {
+  account_id: string
+  realm_id: string
+  environment: QuickBooksEnvironment
+  access_token: string
+  refresh_token: string
+  access_token_expires_at: string
+  refresh_token_expires_at: string | null
+  default_item_id: string | null
+  connected_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+const convertConnectionFromDb = (row: QuickBooksConnectionRow): QuickBooksConnection => ({
+  accountId: row.account_id,
+  realmId: row.realm_id,
+  environment: row.environment,
+  accessToken: row.access_token,
+  refreshToken: row.refresh_token,
+  accessTokenExpiresAt: row.access_token_expires_at,
+  refreshTokenExpiresAt: row.refresh_token_expires_at ?? null,
+  defaultItemId: row.default_item_id ?? null,
+  connectedBy: row.connected_by ?? null,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+const tokenColumns = (tokens: QuickBooksTokenResponse, now = Date.now()) => ({
+  access_token: tokens.access_token,
+  refresh_token: tokens.refresh_token,
+  access_token_expires_at: new Date(now + tokens.expires_in * 1000).toISOString(),
+  refresh_token_expires_at: tokens.x_refresh_token_expires_in
+    ? new Date(now + tokens.x_refresh_token_expires_in * 1000).toISOString()
+    : null,
+})
+
+/**
+ * Base URL for QBO calls: `VITE_QBO_PROXY_URL` (e.g. the local stub server) or the quickbooks-proxy
+ * edge function.
+ */
+export const getQuickBooksBaseUrl = (): string =>
+  import.meta.env.VITE_QBO_PROXY_URL || `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/quickbooks-proxy`
+
+export const getQuickBooksInvoiceUrl = (environment: QuickBooksEnvironment, qboInvoiceId: string): string =>
+  `https://app.${environment === 'sandbox' ? 'sandbox.' : ''}qbo.intuit.com/app/invoice?txnId=${encodeURIComponent(qboInvoiceId)}`
+
+export const buildQuickBooksAuthorizeUrl = (options: { clientId: string; redirectUri: string; state: string }): string => {
+  const params = new URLSearchParams({
+    client_id: options.clientId,
+    response_type: 'code',
+    scope: QBO_SCOPE,
+    redirect_uri: options.redirectUri,
+    state: options.state,
+  })
+  return `${QBO_AUTHORIZE_URL}?${params.toString()}`
+}
+
+type QuickBooksCallOptions = { baseUrl?: string; fetchImpl?: typeof fetch }
+
+/** The proxy only serves signed-in users, so every call carries the user's Supabase JWT. */
+const getProxyHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) {
+    throw new Error('User must be authenticated to call QuickBooks')
+  }
+  return {
+    Authorization: `Bearer ${session.access_token}`,
+    apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+  }
+}
+
+export const quickbooksService = {
+  async getConnection(accountId: string): Promise<QuickBooksConnection | null> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('quickbooks_connections')
+      .select('*')
+      .eq('account_id', accountId)
+      .single()
+
+    handleSupabaseError(error, { returnNullOnNotFound: true })
+    return data ? convertConnectionFromDb(data) : null
+  },
+
+  /**
+   * Finish the OAuth flow: exchange the authorization code and store the tokens for the account.
+   */
+  async connect(
+    accountId: string,
+    input: { code: string; realmId: string; redirectUri: string; environment: QuickBooksEnvironment; connectedBy?: string | null },
+    options: QuickBooksCallOptions = {}
+  ): Promise<QuickBooksConnection> {
+    await ensureAuthenticatedForDatabase()
+
+    const tokens = await requestQuickBooksTokens(
+      options.baseUrl ?? getQuickBooksBaseUrl(),
+      { grantType: 'authorization_code', code: input.code, redirectUri: input.redirectUri },
+      options.fetchImpl,
+      await getProxyHeaders()
+    )
+
+    const { data, error } = await supabase
+      .from('quickbooks_connections')
+      .upsert({
+        account_id: accountId,
+        realm_id: input.realmId,
+        environment: input.environment,
+        connected_by: input.connectedBy || null,
+        ...tokenColumns(tokens),
+      })
+      .select('*')
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to save QuickBooks connection: no data returned')
+    }
+
+    return convertConnectionFromDb(data)
+  },
+
+  async disconnect(accountId: string): Promise<void> {
+    await ensureAuthenticatedForDatabase()
+
+    const { error } = await supabase
+      .from('quickbooks_connections')
+      .delete()
+      .eq('account_id', accountId)
+
+    handleSupabaseError(error)
+  },
+
+  async setDefaultItem(accountId: string, defaultItemId: string | null): Promise<void> {
+    await ensureAuthenticatedForDatabase()
+
+    const { error } = await supabase
+      .from('quickbooks_connections')
+      .update({ default_item_id: defaultItemId || null })
+      .eq('account_id', accountId)
+
+    handleSupabaseError(error)
+  },
+
+  /**
+   * Returns the account's connection, refreshing the access token first when it is about to expire.
+   */
+  async getActiveConnection(accountId: string, options: QuickBooksCallOptions = {}): Promise<QuickBooksConnection> {
+    const connection = await this.getConnection(accountId)
+    if (!connection) {
+      throw new Error('QuickBooks is not connected for this account')
+    }
+
+    if (new Date(connection.accessTokenExpiresAt).getTime() - Date.now() > ACCESS_TOKEN_REFRESH_MARGIN_MS) {
+      return connection
+    }
+
+    const tokens = await requestQuickBooksTokens(
+      options.baseUrl ?? getQuickBooksBaseUrl(),
+      { grantType: 'refresh_token', refreshToken: connection.refreshToken },
+      options.fetchImpl,
+      await getProxyHeaders()
+    )
+
+    const { data, error } = await supabase
+      .from('quickbooks_connections')
+      .update(tokenColumns(tokens))
+      .eq('account_id', accountId)
+      .select('*')
+      .single()
+
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to save refreshed QuickBooks tokens: no data returned')
+    }
+
+    return convertConnectionFromDb(data)
+  },
+
+  /**
+   * Create (unsent) the QBO invoice for one of our invoices and store its QBO Id.
+   * Invoices that already have a QBO Id are returned as-is, so repeat clicks never duplicate.
+   */
+  async createInvoiceDraft(
+    accountId: string,
+    invoiceId: string,
+    options: QuickBooksCallOptions = {}
+  ): Promise<{ qboInvoiceId: string; alreadyLinked: boolean }> {
+    const invoice = await invoiceService.getInvoice(accountId, invoiceId)
+    if (!invoice) {
+      throw new Error('Invoice not found or does not belong to this account')
+    }
+    if (invoice.qboInvoiceId) {
+      return { qboInvoiceId: invoice.qboInvoiceId, alreadyLinked: true }
+    }
+    if (invoice.status === 'void') {
+      throw new Error('Voided invoices cannot be sent to QuickBooks')
+    }
+
+    const project = await projectService.getProject(accountId, invoice.projectId)
+    const connection = await this.getActiveConnection(accountId, options)
+    const adapter = createQuickBooksAdapter({
+      baseUrl: options.baseUrl ?? getQuickBooksBaseUrl(),
+      realmId: connection.realmId,
+      accessToken: connection.accessToken,
+      headers: { ...(await getProxyHeaders()), 'X-QBO-Environment': connection.environment },
+      fetchImpl: options.fetchImpl,
+    })
+
+    const { qboInvoice } = await pushInvoiceToQuickBooks(adapter, invoice, {
+      customerName: project?.clientName || invoice.snapshot.clientName || '',
+      defaultItemId: connection.defaultItemId,
+    })
+
+    // Only claim the invoice if nobody linked it in the meantime.
+    const { data, error } = await supabase
+      .from('invoices')
+      .update({ qbo_invoice_id: qboInvoice.Id, qbo_synced_at: new Date().toISOString() })
+      .eq('account_id', accountId)
+      .eq('id', invoiceId)
+      .is('qbo_invoice_id', null)
+      .select('qbo_invoice_id')
+
+    handleSupabaseError(error)
+    if (!data || data.length === 0) {
+      const current = await invoiceService.getInvoice(accountId, invoiceId)
+      if (current?.qboInvoiceId) {
+        return { qboInvoiceId: current.qboInvoiceId, alreadyLinked: true }
+      }
+      throw new Error('Failed to store the QuickBooks invoice id')
+    }
+
+    return { qboInvoiceId: qboInvoice.Id, alreadyLinked: false }
+  },
+}
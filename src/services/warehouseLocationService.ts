@@ -0,0 +1,77 @@
+import { supabase } from './supabase'
+import { ensureAuthenticatedForDatabase, handleSupabaseError, isUniqueConstraintError } from './databaseService'
+import type { WarehouseLocation, WarehouseLocationKind } from '@/types'
+import { WAREHOUSE_LOCATION_LABELS } from '@/utils/warehouseLocations'
+
+type WarehouseLocationRow = {
+  id: string
+  account_id: string
+  parent_id: string | null
+  kind: WarehouseLocationKind
+  name: string
+  created_at: string
+}
+
+const LOCATION_COLUMNS = 'id, account_id, parent_id, kind, name, created_at'
+
+export const convertWarehouseLocationFromDb = (row: WarehouseLocationRow): WarehouseLocation => ({
+  id: row.id,
+  accountId: row.account_id,
+  parentId: row.parent_id ?? null,
+  kind: row.kind,
+  name: row.name,
+  createdAt: row.created_at,
+})
+
+export const warehouseLocationService = {
+  /**
+   * Every location in the account, unordered; use the warehouseLocations utils to build paths and trees.
+   */
+  async listLocations(accountId: string): Promise<WarehouseLocation[]> {
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('warehouse_locations')
+      .select(LOCATION_COLUMNS)
+      .eq('account_id', accountId)
+
+    handleSupabaseError(error)
+    return (data || []).map(row => convertWarehouseLocationFromDb(row as WarehouseLocationRow))
+  },
+
+  /**
+   * Create a location. The database checks that `kind` sits directly under the parent's kind
+   * (warehouses have no parent) and that sibling names are unique.
+   */
+  async createLocation(
+    accountId: string,
+    input: { parentId: string | null; kind: WarehouseLocationKind; name: string }
+  ): Promise<WarehouseLocation> {
+    const name = input.name.trim()
+    if (!name) {
+      throw new Error(`Enter a name for the ${WAREHOUSE_LOCATION_LABELS[input.kind].toLowerCase()}`)
+    }
+
+    await ensureAuthenticatedForDatabase()
+
+    const { data, error } = await supabase
+      .from('warehouse_locations')
+      .insert({
+        account_id: accountId,
+        parent_id: input.parentId,
+        kind: input.kind,
+        name,
+      })
+      .select(LOCATION_COLUMNS)
+      .single()
+
+    if (isUniqueConstraintError(error)) {
+      throw new Error(`"${name}" already exists here`)
+    }
+    handleSupabaseError(error)
+    if (!data) {
+      throw new Error('Failed to create location: no data returned')
+    }
+    return convertWarehouseLocationFromDb(data as WarehouseLocationRow)
+  },
+}
@@ -141,13 +141,22 @@ export interface Item {
   taxAmountProjectPrice?: string;  // Tax amount applied to `projectPrice` (stored as four-decimal string; display as 2-decimal)
   createdBy?: string;
   createdAt?: Date;
+  // Pricing rule bookkeeping
+  pricingRuleId?: string | null; // Rule that suggested `projectPrice`, if any
+  projectPriceOverridden?: boolean; // True when `projectPrice` was changed from the rule's price
 
   // Optional transaction selection for form UI
   selectedTransactionId?: string; // UI field for selecting transaction
 
   // Business Inventory fields (unified with Item)
   inventoryStatus?: 'available' | 'allocated' | 'sold';
-  businessInventoryLocation?: string; // Warehouse location details
+  businessInventoryLocation?: string; // Warehouse location details; mirrors the path of warehouseLocationId when set
+  warehouseLocationId?: string | null; // Structured location (usually a bin), see WarehouseLocation
+
+  // Physical attributes
+  dimensions?: Dimensions | null;
+  weight?: ItemWeight | null;
+  condition?: ItemCondition | null;
 
   // Lineage tracking fields
   originTransactionId?: string | null;  // Immutable: transaction id at creation/intake
@@ -184,10 +193,24 @@ export interface Dimensions {
   unit: 'inches' | 'cm' | 'mm';
 }
 
-export interface ItemLocation {
-  storage: string;
-  shelf: string;
-  position: string;
+export interface ItemWeight {
+  value: number;
+  unit: 'lb' | 'kg';
+}
+
+export type ItemCondition = 'new' | 'like_new' | 'good' | 'fair' | 'poor' | 'damaged';
+
+// Warehouse locations - per-account storage hierarchy for business inventory: warehouse → zone → shelf → bin.
+// Items may point at any level, though bins are the usual target.
+export type WarehouseLocationKind = 'warehouse' | 'zone' | 'shelf' | 'bin'
+
+export interface WarehouseLocation {
+  id: string;
+  accountId: string;
+  parentId: string | null; // null only for warehouses
+  kind: WarehouseLocationKind;
+  name: string;
+  createdAt: string;
 }
 
 export interface QRCodeData {
@@ -259,6 +282,7 @@ export interface Transaction {
   subtotal?: string; // pre-tax amount as string, e.g. '100.00' (used when tax_rate_preset is 'Other')
   needsReview?: boolean; // Denormalized flag from DB: true if transaction needs audit review
   sumItemPurchasePrices?: string; // Denormalized numeric string stored as two-decimal string, e.g. '123.45'
+  legacyTransactionId?: string | null; // Original spreadsheet ID for transactions created by the CSV import
 }
 
 export enum BudgetCategory {
@@ -318,6 +342,11 @@ export interface TransactionItemFormData {
   // Item-level tax amounts (stored as strings; persisted to `items.tax_amount_*` columns)
   taxAmountPurchasePrice?: string;
   taxAmountProjectPrice?: string;
+  pricingRuleId?: string | null;
+  projectPriceOverridden?: boolean;
+  dimensions?: Dimensions | null;
+  weight?: ItemWeight | null;
+  condition?: ItemCondition | null;
   images?: ItemImage[]; // Images associated with this item
   imageFiles?: File[]; // File objects for upload (not persisted)
   // UI-only field for grouping duplicate items (not persisted)
@@ -353,6 +382,8 @@ export interface TransactionItemValidationErrors {
   marketValue?: string;
   space?: string;
   notes?: string;
+  dimensions?: string;
+  weight?: string;
 }
 
 export interface TransactionFormProps {
@@ -412,3 +443,276 @@ export interface ItemLineageEdge {
   createdBy?: string | null;  // UUID of user who created the edge
   note?: string | null;  // Optional note about the move
 }
+
+// Invoices - persisted billing records with a frozen snapshot of what was billed
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'void'
+
+export interface InvoiceSnapshotItem {
+  itemId: string;
+  description: string;
+  sku?: string;
+  amount: string; // two-decimal string (item project price)
+  missingPrice: boolean;
+  imageUrl?: string; // primary image, used for PDF thumbnails
+  physicalDetails?: string; // formatted dimensions, weight and condition at the time of the snapshot
+}
+
+export interface InvoiceSnapshotLine {
+  transactionId: string;
+  title: string;
+  transactionDate: string;
+  notes?: string;
+  amount: string; // sum of item amounts, or the transaction amount when it has no items
+  items: InvoiceSnapshotItem[];
+}
+
+export interface InvoiceSnapshot {
+  projectName: string;
+  clientName?: string;
+  charges: InvoiceSnapshotLine[]; // Client Owes Company
+  credits: InvoiceSnapshotLine[]; // Company Owes Client
+  chargesTotal: string;
+  creditsTotal: string;
+  totalDue: string; // chargesTotal - creditsTotal
+}
+
+export interface Invoice {
+  id: string;
+  accountId: string;
+  projectId: string;
+  invoiceNumber: number; // sequential per account, assigned by the database
+  status: InvoiceStatus;
+  issueDate: string; // YYYY-MM-DD
+  dueDate?: string | null;
+  totalDue: string;
+  amountPaid: string;
+  snapshot: InvoiceSnapshot;
+  notes?: string | null;
+  createdBy?: string | null;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  sentAt?: string | null;
+  paidAt?: string | null;
+  voidedAt?: string | null;
+  qboInvoiceId?: string | null; // QuickBooks Online Invoice Id once pushed there
+  qboSyncedAt?: string | null;
+  pdfPath?: string | null; // archived PDF in the invoice-pdfs bucket, written once the invoice is sent
+  pdfGeneratedAt?: string | null;
+}
+
+// Payments - money received from (or returned to) a client, optionally applied to an invoice
+export type PaymentDirection = 'client_to_company' | 'company_to_client'
+
+export interface Payment {
+  id: string;
+  accountId: string;
+  projectId: string;
+  invoiceId?: string | null; // only client_to_company payments can be applied to an invoice
+  direction: PaymentDirection;
+  paymentDate: string; // YYYY-MM-DD
+  amount: string; // positive two-decimal string
+  method: string; // e.g. 'Check', 'ACH'
+  reference?: string | null; // check number, confirmation code, etc.
+  notes?: string | null;
+  createdBy?: string | null;
+  createdAt: string; // ISO timestamp
+}
+
+// QuickBooks Online connection (one per account)
+export type QuickBooksEnvironment = 'sandbox' | 'production'
+
+export interface QuickBooksConnection {
+  accountId: string;
+  realmId: string; // QBO company id
+  environment: QuickBooksEnvironment;
+  accessToken: string;
+  refreshToken: string;
+  accessTokenExpiresAt: string; // ISO timestamp
+  refreshTokenExpiresAt?: string | null;
+  defaultItemId?: string | null; // QBO Item used for invoice lines
+  connectedBy?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Client portal - tokenized, read-only links to one project. Only a hash of the token is stored.
+export interface ProjectShareLink {
+  id: string;
+  accountId: string;
+  projectId: string;
+  label?: string | null; // who the link was sent to, e.g. "Jane (client)"
+  expiresAt: string; // ISO timestamp
+  revokedAt?: string | null;
+  createdBy?: string | null;
+  createdAt: string;
+  lastAccessedAt?: string | null;
+  accessCount: number;
+}
+
+export interface ProjectShareLinkAccess {
+  id: string;
+  linkId: string;
+  accessedAt: string; // ISO timestamp
+  userAgent?: string | null;
+}
+
+// What the portal receives; only client-facing item fields are exposed.
+export type SharedProjectItem = Pick<
+  Item,
+  'itemId' | 'description' | 'source' | 'sku' | 'space' | 'projectPrice' | 'marketValue' | 'transactionId' | 'images'
+>;
+
+export interface SharedProjectInvoice {
+  invoiceNumber: number;
+  status: InvoiceStatus;
+  issueDate: string;
+  dueDate?: string | null;
+  totalDue: string;
+  amountPaid: string;
+  snapshot: InvoiceSnapshot;
+}
+
+export interface SharedProject {
+  projectName: string;
+  clientName?: string;
+  businessName: string;
+  businessLogoUrl?: string | null;
+  expiresAt: string;
+  items: SharedProjectItem[];
+  transactions: Array<Pick<Transaction, 'transactionId' | 'categoryId'>>;
+  categories: Array<{ id: string; name: string }>;
+  budgetCategories: ProjectBudgetCategories; // current budget, i.e. including approved change orders
+  budgetChangeOrders: Array<Omit<BudgetChangeOrder, 'accountId' | 'projectId' | 'createdBy'>>; // approved only, oldest first
+  invoices: SharedProjectInvoice[]; // issued invoices only (no drafts or voided ones), newest first
+}
+
+// Budget change orders - recorded adjustments to a project's category budgets.
+// Approved ones have already been applied to Project.budgetCategories.
+export type BudgetChangeOrderStatus = 'pending' | 'approved' | 'rejected'
+
+export interface BudgetChangeOrder {
+  id: string;
+  accountId: string;
+  projectId: string;
+  categoryId: string;
+  amount: string; // signed, 2 decimals; negative reduces the category budget
+  reason: string;
+  status: BudgetChangeOrderStatus;
+  requestedOn: string; // YYYY-MM-DD
+  approvedBy?: string | null;
+  approvedOn?: string | null; // YYYY-MM-DD
+  createdBy?: string | null;
+  createdAt: string;
+}
+
+// Budget threshold alerts - fire a notification once when a category's spend reaches a percentage of its budget
+export interface BudgetAlertRule {
+  id: string;
+  accountId: string;
+  projectId: string;
+  categoryId?: string | null; // null applies to every category
+  thresholdPercent: number;
+  createdBy?: string | null;
+  createdAt: string;
+}
+
+export type AppNotificationType = 'budget_threshold'
+
+// In-app notification feed, shared by everyone in the account
+export interface AppNotification {
+  id: string;
+  accountId: string;
+  projectId?: string | null;
+  type: AppNotificationType;
+  title: string;
+  body?: string | null;
+  link?: string | null; // in-app path to open
+  createdAt: string;
+  readAt?: string | null; // when the signed-in user read it; read state is per user
+}
+
+// Client approval of proposed ("to purchase") items via a tokenized link
+export type ItemApprovalDecision = 'pending' | 'approved' | 'rejected'
+
+export interface ItemApprovalRequest {
+  id: string;
+  accountId: string;
+  projectId: string;
+  message?: string | null; // shown to the client above the items
+  expiresAt: string; // ISO timestamp
+  revokedAt?: string | null;
+  createdBy?: string | null;
+  createdAt: string;
+}
+
+export interface ItemApprovalPortalItem extends Pick<Item, 'itemId' | 'description' | 'source' | 'sku' | 'space' | 'projectPrice' | 'images'> {
+  decision: ItemApprovalDecision;
+  comment?: string | null;
+  decidedAt?: string | null;
+}
+
+export interface ItemApprovalPortal {
+  projectName: string;
+  clientName?: string;
+  businessName: string;
+  businessLogoUrl?: string | null;
+  message?: string | null;
+  expiresAt: string;
+  items: ItemApprovalPortalItem[];
+}
+
+// Account pricing rules - suggest an item's project price from its purchase price
+export type PricingRounding = 'none' | 'nearest_dollar' | 'up_dollar' | 'up_five'
+
+export interface PricingRule {
+  id: string;
+  vendor?: string | null; // null applies to every vendor
+  categoryId?: string | null; // null applies to every budget category
+  markupPercent: number; // added on top of the list price
+  tradeDiscountPercent: number; // discount the purchase price already reflects; 0 when bought at list
+  rounding: PricingRounding;
+}
+
+// Physical inventory counts - reconcile what is on the shelves against business inventory.
+// A session covers a warehouse location and everything under it, or the whole account when locationId is null.
+export type InventoryCountStatus = 'open' | 'closed'
+
+export interface InventoryCountSession {
+  id: string;
+  accountId: string;
+  name: string;
+  locationId: string | null;
+  locationPath?: string | null; // display path when the session started
+  status: InventoryCountStatus;
+  startedBy?: string | null;
+  startedAt: string;
+  closedBy?: string | null;
+  closedAt?: string | null;
+}
+
+export interface InventoryCountEntry {
+  id: string;
+  sessionId: string;
+  itemId: string;
+  countedLocationId: string | null; // where the item was found; null when counted without a location
+  countedBy?: string | null;
+  countedAt: string;
+}
+
+export type InventoryCountDiscrepancy = 'missing' | 'unexpected' | 'mislocated'
+
+// 'relocate' moves the item to where it was counted; 'clear_location' removes its location for follow-up
+export type InventoryCountResolution = 'none' | 'relocate' | 'clear_location'
+
+export interface InventoryCountAdjustment {
+  id: string;
+  sessionId: string;
+  itemId: string;
+  itemDescription?: string | null;
+  discrepancy: InventoryCountDiscrepancy;
+  resolution: InventoryCountResolution;
+  expectedLocationPath?: string | null;
+  countedLocationPath?: string | null;
+  createdBy?: string | null;
+  createdAt: string;
+}
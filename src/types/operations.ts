@@ -2,6 +2,7 @@ export type OperationType =
   | 'CREATE_ITEM'
   | 'UPDATE_ITEM'
   | 'DELETE_ITEM'
+  | 'ALLOCATE_ITEM'
   | 'CREATE_TRANSACTION'
   | 'UPDATE_TRANSACTION'
   | 'DELETE_TRANSACTION'
@@ -54,6 +55,16 @@ export interface DeleteItemOperation extends BaseOperation {
   }
 }
 
+export interface AllocateItemOperation extends BaseOperation {
+  type: 'ALLOCATE_ITEM'
+  data: {
+    id: string // item_id
+    accountId?: string
+    projectId: string
+    space?: string
+  }
+}
+
 export interface CreateTransactionOperation extends BaseOperation {
   type: 'CREATE_TRANSACTION'
   data: {
@@ -128,6 +139,7 @@ export type Operation =
   | CreateItemOperation
   | UpdateItemOperation
   | DeleteItemOperation
+  | AllocateItemOperation
   | CreateTransactionOperation
   | UpdateTransactionOperation
   | DeleteTransactionOperation
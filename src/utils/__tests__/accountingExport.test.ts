@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import type { Transaction } from '@/types'
+import { CLIENT_OWES_COMPANY } from '@/constants/company'
+import {
+  buildJournalEntries,
+  DEFAULT_ACCOUNTING_EXPORT_CONFIG,
+  journalEntriesToCsvRows,
+  journalEntriesToIif,
+  selectTransactionsForExport,
+  splitTransactionTax,
+} from '@/utils/accountingExport'
+
+const makeTransaction = (overrides: Partial<Transaction>): Transaction => ({
+  transactionId: 'T-1',
+  projectId: 'project-1',
+  transactionDate: '2025-01-15',
+  source: 'Wayfair',
+  transactionType: 'Purchase',
+  paymentMethod: 'Client Card',
+  amount: '0.00',
+  receiptEmailed: false,
+  createdAt: '2025-01-15T00:00:00Z',
+  createdBy: 'user-1',
+  ...overrides,
+})
+
+const lookups = {
+  categoryName: (t: Transaction) => t.budgetCategory || '',
+  projectName: () => 'Lake House',
+}
+
+const config = {
+  ...DEFAULT_ACCOUNTING_EXPORT_CONFIG,
+  categoryAccounts: { Furnishings: 'Furniture COGS' },
+  paymentMethodAccounts: { 'Business Card': 'Amex' },
+}
+
+describe('splitTransactionTax', () => {
+  it('prefers an explicit subtotal, then backs tax out of the rate', () => {
+    expect(splitTransactionTax({ amount: '108.25', subtotal: '100.00', taxRatePct: 5 })).toEqual({
+      net: '100.00',
+      tax: '8.25',
+      total: '108.25',
+    })
+    expect(splitTransactionTax({ amount: '108.25', taxRatePct: 8.25 })).toEqual({ net: '100.00', tax: '8.25', total: '108.25' })
+    expect(splitTransactionTax({ amount: '50.00' })).toEqual({ net: '50.00', tax: '0.00', total: '50.00' })
+  })
+})
+
+describe('selectTransactionsForExport', () => {
+  it('keeps non-canceled transactions inside the inclusive range, oldest first', () => {
+    const selected = selectTransactionsForExport(
+      [
+        makeTransaction({ transactionId: 'late', transactionDate: '2025-02-01' }),
+        makeTransaction({ transactionId: 'end', transactionDate: '2025-01-31' }),
+        makeTransaction({ transactionId: 'start', transactionDate: '2025-01-01' }),
+        makeTransaction({ transactionId: 'canceled', status: 'canceled' }),
+      ],
+      { startDate: '2025-01-01', endDate: '2025-01-31' }
+    )
+
+    expect(selected.map(t => t.transactionId)).toEqual(['start', 'end'])
+  })
+
+  it('leaves out internal inventory allocation, sale and transfer transactions', () => {
+    const selected = selectTransactionsForExport(
+      [
+        makeTransaction({ transactionId: 'T-1' }),
+        makeTransaction({ transactionId: 'INV_PURCHASE_project-1' }),
+        makeTransaction({ transactionId: 'INV_SALE_project-1' }),
+        makeTransaction({ transactionId: 'INV_TRANSFER_abc' }),
+      ],
+      {}
+    )
+
+    expect(selected.map(t => t.transactionId)).toEqual(['T-1'])
+  })
+})
+
+describe('journal export', () => {
+  const transactions = [
+    makeTransaction({
+      amount: '108.25',
+      subtotal: '100.00',
+      budgetCategory: 'Furnishings',
+      paymentMethod: 'Business Card',
+      reimbursementType: CLIENT_OWES_COMPANY,
+      notes: 'Sofa',
+    }),
+    makeTransaction({ transactionId: 'T-2', transactionType: 'Return', amount: '20.00', transactionDate: '2025-01-20' }),
+  ]
+
+  it('builds balanced entries, reversing returns', () => {
+    const entries = buildJournalEntries(transactions, config, lookups)
+
+    expect(entries[0].lines).toEqual([
+      { account: 'Furniture COGS', cents: 10000 },
+      { account: 'Sales Tax Paid', cents: 825 },
+      { account: 'Amex', cents: -10825 },
+    ])
+    expect(entries[1].lines).toEqual([
+      { account: 'Job Materials', cents: -2000 },
+      { account: 'Accounts Payable', cents: 2000 },
+    ])
+    entries.forEach(entry => expect(entry.lines.reduce((sum, line) => sum + line.cents, 0)).toBe(0))
+  })
+
+  it('writes the configured CSV columns with debits and credits split', () => {
+    const rows = journalEntriesToCsvRows(buildJournalEntries(transactions, config, lookups), {
+      ...config,
+      journalColumns: ['date', 'account', 'debit', 'credit', 'reimbursementType'],
+      dateFormat: 'YYYY-MM-DD',
+    })
+
+    expect(rows.slice(0, 4)).toEqual([
+      ['Date', 'Account', 'Debit', 'Credit', 'Reimbursement Type'],
+      ['2025-01-15', 'Furniture COGS', '100.00', '', CLIENT_OWES_COMPANY],
+      ['2025-01-15', 'Sales Tax Paid', '8.25', '', CLIENT_OWES_COMPANY],
+      ['2025-01-15', 'Amex', '', '108.25', CLIENT_OWES_COMPANY],
+    ])
+  })
+
+  it('writes IIF general journal transactions with the credit on the TRNS line', () => {
+    const iif = journalEntriesToIif(buildJournalEntries(transactions.slice(0, 1), config, lookups))
+    const lines = iif.trimEnd().split('\r\n')
+
+    expect(lines[0].split('\t')[0]).toBe('!TRNS')
+    expect(lines.slice(3).map(line => line.split('\t'))).toEqual([
+      ['TRNS', '', 'GENERAL JOURNAL', '01/15/2025', 'Amex', 'Wayfair', 'Lake House', '-108.25', 'T-1', 'Purchase - Sofa'],
+      ['SPL', '', 'GENERAL JOURNAL', '01/15/2025', 'Sales Tax Paid', 'Wayfair', 'Lake House', '8.25', 'T-1', 'Purchase - Sofa'],
+      ['SPL', '', 'GENERAL JOURNAL', '01/15/2025', 'Furniture COGS', 'Wayfair', 'Lake House', '100.00', 'T-1', 'Purchase - Sofa'],
+      ['ENDTRNS'],
+    ])
+  })
+})
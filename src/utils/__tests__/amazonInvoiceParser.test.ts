@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest'
+import { parseAmazonInvoiceText } from '@/utils/amazonInvoiceParser'
+
+const fixtureText = `
+amazon.com
+Final Details for Order #112-4455667-8899001
+Print this page for your records.
+Order Placed: December 1, 2024
+Amazon.com order number: 112-4455667-8899001
+Order Total: $154.83
+
+Shipped on December 3, 2024
+Items Ordered Price
+2 of: Linen Throw Pillow Covers 20x20, Set of 2 $24.99
+Sold by: Amazon.com Services, Inc
+Condition: New
+1 of: Brass Table Lamp with Linen Shade $89.99
+Sold by: Home Lighting Co
+Condition: New
+Shipping Address:
+Jane Client
+123 Main St
+Salt Lake City, UT 84101
+Shipping Speed:
+FREE Prime Delivery
+
+Payment information
+Payment Method:
+Visa ending in 1234
+Item(s) Subtotal: $139.97
+Shipping & Handling: $5.99
+Free Shipping: -$5.99
+Your Coupon Savings: -$4.00
+Total before tax: $135.97
+Estimated tax to be collected: $18.86
+Grand Total: $154.83
+`
+
+describe('parseAmazonInvoiceText', () => {
+  it('extracts order header fields and order-level totals', () => {
+    const result = parseAmazonInvoiceText(fixtureText)
+
+    expect(result.orderNumber).toBe('112-4455667-8899001')
+    expect(result.orderDate).toBe('2024-12-01')
+    expect(result.orderTotal).toBe('154.83')
+    expect(result.itemsSubtotal).toBe('139.97')
+    expect(result.shippingTotal).toBe('5.99')
+    expect(result.promotionsTotal).toBe('-9.99')
+    expect(result.taxTotal).toBe('18.86')
+    expect(result.calculatedSubtotal).toBe('135.97')
+    expect(result.warnings).toEqual([])
+  })
+
+  it('extracts line items with quantity, unit price and attributes', () => {
+    const result = parseAmazonInvoiceText(fixtureText)
+
+    expect(result.lineItems).toHaveLength(2)
+    const [pillows, lamp] = result.lineItems
+
+    expect(pillows.description).toBe('Linen Throw Pillow Covers 20x20, Set of 2')
+    expect(pillows.qty).toBe(2)
+    expect(pillows.unitPrice).toBe('24.99')
+    expect(pillows.subtotal).toBe('49.98')
+    expect(pillows.attributeLines).toEqual(['Sold by: Amazon.com Services, Inc', 'Condition: New'])
+    expect(pillows.section).toBe('shipped')
+    expect(pillows.shippedOn).toBe('2024-12-03')
+
+    expect(lamp.description).toBe('Brass Table Lamp with Linen Shade')
+    expect(lamp.qty).toBe(1)
+    expect(lamp.unitPrice).toBe('89.99')
+  })
+
+  it('allocates shipping, promotions and tax across lines so totals reconcile to the order total', () => {
+    const result = parseAmazonInvoiceText(fixtureText)
+
+    const sumCents = (values: Array<string | undefined>) =>
+      values.reduce((sum, v) => sum + Math.round(Number.parseFloat(v || '0') * 100), 0)
+
+    expect(sumCents(result.lineItems.map(li => li.shipping))).toBe(599)
+    expect(sumCents(result.lineItems.map(li => li.adjustment))).toBe(999)
+    expect(sumCents(result.lineItems.map(li => li.tax))).toBe(1886)
+    expect(sumCents(result.lineItems.map(li => li.total))).toBe(15483)
+
+    // Shares follow each line's subtotal (49.98 vs 89.99 of 139.97).
+    expect(result.lineItems[0].tax).toBe('6.73')
+    expect(result.lineItems[1].tax).toBe('12.13')
+  })
+
+  it('joins wrapped descriptions printed before or after the price', () => {
+    const text = `
+Order Placed: 01/15/2025
+Amazon.com order number: 113-1111111-2222222
+Shipped on January 16, 2025
+1 of: Outdoor Patio Chair Cushions, Set of 4,
+Water Resistant $59.99
+1 of: Velvet Accent Chair $149.00
+Mid Century Modern, Emerald
+Sold by: Chair World
+Payment information
+Item(s) Subtotal: $208.99
+Shipping & Handling: $0.00
+Estimated tax to be collected: $0.00
+Grand Total: $208.99
+`
+    const result = parseAmazonInvoiceText(text)
+
+    expect(result.orderDate).toBe('2025-01-15')
+    expect(result.lineItems.map(li => li.description)).toEqual([
+      'Outdoor Patio Chair Cushions, Set of 4, Water Resistant',
+      'Velvet Accent Chair Mid Century Modern, Emerald',
+    ])
+    expect(result.lineItems[1].attributeLines).toEqual(['Sold by: Chair World'])
+    expect(result.lineItems.every(li => li.tax === undefined && li.shipping === undefined)).toBe(true)
+    expect(result.warnings).toEqual([])
+  })
+
+  it('uses the order-level payment block instead of per-shipment subtotals', () => {
+    const text = `
+Order Placed: March 2, 2025
+Amazon.com order number: 114-3333333-4444444
+Shipped on March 3, 2025
+1 of: Ceramic Vase $30.00
+Item(s) Subtotal: $30.00
+Total for This Shipment: $32.40
+Not Yet Shipped
+1 of: Woven Basket $20.00
+Payment information
+Item(s) Subtotal: $50.00
+Shipping & Handling: $0.00
+Sales Tax: $4.00
+Grand Total: $54.00
+`
+    const result = parseAmazonInvoiceText(text)
+
+    expect(result.itemsSubtotal).toBe('50.00')
+    expect(result.taxTotal).toBe('4.00')
+    expect(result.lineItems.map(li => li.section)).toEqual(['shipped', 'not_yet_shipped'])
+    expect(result.lineItems[1].shippedOn).toBeUndefined()
+    expect(result.warnings).toEqual([])
+  })
+
+  it('warns when prices are missing or totals do not reconcile', () => {
+    const text = `
+Amazon.com order number: 115-5555555-6666666
+1 of: Mystery item without a price
+Sold by: Someone
+1 of: Rug Pad $40.00
+Payment information
+Item(s) Subtotal: $75.00
+Grand Total: $75.00
+`
+    const result = parseAmazonInvoiceText(text)
+
+    expect(result.lineItems).toHaveLength(1)
+    expect(result.warnings).toEqual(expect.arrayContaining([
+      'Could not confidently find an order date; defaulting to today is recommended.',
+      'Skipped "Mystery item without a price" because no price was found for it.',
+      expect.stringContaining('do not match the Item(s) Subtotal'),
+      expect.stringContaining('do not match order total'),
+    ]))
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import type { Invoice, InvoiceSnapshot, InvoiceSnapshotLine, Payment } from '@/types'
+import { agingReportToCsvRows, buildAgingReport, buildProjectAging, getAgingBucket } from '@/utils/arAging'
+
+const line = (transactionId: string, transactionDate: string, amount: string): InvoiceSnapshotLine => ({
+  transactionId,
+  title: `Vendor ${transactionId}`,
+  transactionDate,
+  amount,
+  items: [],
+})
+
+const makeSnapshot = (overrides: Partial<InvoiceSnapshot>): InvoiceSnapshot => ({
+  projectName: 'Lake House',
+  clientName: 'Smith',
+  charges: [],
+  credits: [],
+  chargesTotal: '0.00',
+  creditsTotal: '0.00',
+  totalDue: '0.00',
+  ...overrides,
+})
+
+const makeInvoice = (overrides: Partial<Invoice>): Invoice => ({
+  id: 'inv-1',
+  accountId: 'account-1',
+  projectId: 'project-1',
+  invoiceNumber: 1,
+  status: 'sent',
+  issueDate: '2025-01-01',
+  totalDue: '0.00',
+  amountPaid: '0.00',
+  snapshot: makeSnapshot({}),
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+})
+
+const makePayment = (overrides: Partial<Payment>): Payment => ({
+  id: 'pay-1',
+  accountId: 'account-1',
+  projectId: 'project-1',
+  invoiceId: null,
+  direction: 'client_to_company',
+  paymentDate: '2025-03-01',
+  amount: '0.00',
+  method: 'Check',
+  createdAt: '2025-03-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('getAgingBucket', () => {
+  it('uses inclusive 30-day boundaries', () => {
+    expect(getAgingBucket(0)).toBe('days0to30')
+    expect(getAgingBucket(30)).toBe('days0to30')
+    expect(getAgingBucket(31)).toBe('days31to60')
+    expect(getAgingBucket(90)).toBe('days61to90')
+    expect(getAgingBucket(91)).toBe('days90plus')
+  })
+})
+
+describe('buildProjectAging', () => {
+  it('ages open invoices by issue date and uninvoiced charges by transaction date', () => {
+    const invoiced = line('T-1', '2024-11-01', '400.00')
+    const aging = buildProjectAging({
+      projectId: 'project-1',
+      asOf: '2025-03-31',
+      snapshot: makeSnapshot({ charges: [invoiced, line('T-2', '2025-03-15', '120.00')] }),
+      invoices: [
+        makeInvoice({
+          issueDate: '2025-01-15',
+          totalDue: '400.00',
+          amountPaid: '150.00',
+          status: 'partially_paid',
+          snapshot: makeSnapshot({ charges: [invoiced] }),
+        }),
+      ],
+      payments: [],
+    })
+
+    expect(aging.buckets).toEqual({ days0to30: '120.00', days31to60: '0.00', days61to90: '250.00', days90plus: '0.00' })
+    expect(aging.total).toBe('370.00')
+    expect(aging.entries.map(entry => [entry.kind, entry.description, entry.ageDays])).toEqual([
+      ['invoice', 'INV-0001', 75],
+      ['transaction', 'Vendor T-2', 16],
+    ])
+  })
+
+  it('ignores drafts and voided invoices and settles the oldest charges with credits and unapplied payments', () => {
+    const aging = buildProjectAging({
+      projectId: 'project-1',
+      asOf: '2025-03-31',
+      snapshot: makeSnapshot({
+        charges: [line('T-1', '2024-12-01', '100.00'), line('T-2', '2025-02-20', '300.00')],
+        credits: [line('T-3', '2025-03-01', '40.00')],
+      }),
+      invoices: [
+        makeInvoice({ status: 'draft', snapshot: makeSnapshot({ charges: [line('T-1', '2024-12-01', '100.00')] }) }),
+        makeInvoice({ id: 'inv-2', status: 'void', totalDue: '999.00' }),
+      ],
+      payments: [makePayment({ amount: '90.00' })],
+    })
+
+    expect(aging.buckets).toEqual({ days0to30: '0.00', days31to60: '270.00', days61to90: '0.00', days90plus: '0.00' })
+    expect(aging.unappliedCredits).toBe('0.00')
+    expect(aging.total).toBe('270.00')
+  })
+
+  it('reports leftover credit when payments exceed what is owed', () => {
+    const aging = buildProjectAging({
+      projectId: 'project-1',
+      asOf: '2025-03-31',
+      snapshot: makeSnapshot({ charges: [line('T-1', '2025-03-01', '50.00')] }),
+      invoices: [],
+      payments: [makePayment({ amount: '80.00' })],
+    })
+
+    expect(aging.entries).toEqual([])
+    expect(aging.unappliedCredits).toBe('30.00')
+    expect(aging.total).toBe('-30.00')
+  })
+})
+
+describe('buildAgingReport', () => {
+  it('drops settled projects, sorts by client and totals every bucket', () => {
+    const base = { asOf: '2025-03-31', invoices: [], payments: [] }
+    const report = buildAgingReport(
+      [
+        buildProjectAging({ ...base, projectId: 'p-1', snapshot: makeSnapshot({ clientName: 'Young', charges: [line('T-1', '2025-03-30', '10.00')] }) }),
+        buildProjectAging({ ...base, projectId: 'p-2', snapshot: makeSnapshot({ clientName: 'Adams', charges: [line('T-2', '2024-10-01', '25.50')] }) }),
+        buildProjectAging({ ...base, projectId: 'p-3', snapshot: makeSnapshot({ clientName: 'Baker' }) }),
+      ],
+      '2025-03-31'
+    )
+
+    expect(report.projects.map(project => project.projectId)).toEqual(['p-2', 'p-1'])
+    expect(report.totals).toEqual({ days0to30: '10.00', days31to60: '0.00', days61to90: '0.00', days90plus: '25.50' })
+    expect(report.total).toBe('35.50')
+    const csvRows = agingReportToCsvRows(report)
+    expect(csvRows[csvRows.length - 1]).toEqual(['Total', '', '10.00', '0.00', '0.00', '25.50', '0.00', '35.50'])
+  })
+})
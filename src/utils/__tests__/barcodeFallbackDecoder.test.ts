@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { BarcodeFormat, QRCodeWriter } from '@zxing/library'
+import { decodeBarcodeFrame, rgbaToLuminance, type RgbaFrame } from '@/utils/barcodeFallbackDecoder'
+
+const frameFromModules = (isDark: (x: number, y: number) => boolean, width: number, height: number): RgbaFrame => {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = isDark(x, y) ? 0 : 255
+      data.set([value, value, value, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+// EAN-13 module patterns: L (odd parity), G (even parity) and R; the first digit picks the L/G mix.
+const L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011']
+const R_CODES = L_CODES.map(code => code.replace(/./g, bit => (bit === '0' ? '1' : '0')))
+const G_CODES = R_CODES.map(code => code.split('').reverse().join(''))
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL']
+
+const ean13Frame = (code: string): RgbaFrame => {
+  const digits = code.split('').map(Number)
+  const left = digits.slice(1, 7).map((digit, i) => (PARITY[digits[0]][i] === 'L' ? L_CODES : G_CODES)[digit]).join('')
+  const right = digits.slice(7).map(digit => R_CODES[digit]).join('')
+  const modules = `${'0'.repeat(10)}101${left}01010${right}101${'0'.repeat(10)}`
+  const moduleWidth = 3
+  return frameFromModules(x => modules[Math.floor(x / moduleWidth)] === '1', modules.length * moduleWidth, 60)
+}
+
+describe('rgbaToLuminance', () => {
+  it('keeps one grayscale byte per pixel', () => {
+    expect(Array.from(rgbaToLuminance(new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255, 0, 255, 0, 255])))).toEqual([
+      255, 0, 149,
+    ])
+  })
+})
+
+describe('decodeBarcodeFrame', () => {
+  it('decodes item label QR codes', async () => {
+    const url = 'https://app.example.com/qr-image/QR-1700000000-ab12'
+    const matrix = new QRCodeWriter().encode(url, BarcodeFormat.QR_CODE, 200, 200, new Map())
+    const frame = frameFromModules((x, y) => matrix.get(x, y), matrix.getWidth(), matrix.getHeight())
+
+    await expect(decodeBarcodeFrame(frame)).resolves.toBe(url)
+  })
+
+  it('decodes EAN-13 product barcodes', async () => {
+    await expect(decodeBarcodeFrame(ean13Frame('4006381333931'))).resolves.toBe('4006381333931')
+  })
+
+  it('returns null for frames without a code', async () => {
+    await expect(decodeBarcodeFrame(frameFromModules(() => false, 120, 80))).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { budgetAlertDedupeKey, findBudgetThresholdCrossings } from '@/utils/budgetAlerts'
+
+describe('findBudgetThresholdCrossings', () => {
+  it('uses the default thresholds when a project has no rules', () => {
+    const crossings = findBudgetThresholdCrossings(
+      { furnishings: 1000, install: 500, storage: 0 },
+      new Map([['furnishings', 800], ['install', 399.99], ['storage', 50]]),
+      []
+    )
+
+    expect(crossings).toEqual([{ categoryId: 'furnishings', thresholdPercent: 80, budget: 1000, spent: 800 }])
+  })
+
+  it('combines category rules with rules for all categories', () => {
+    const crossings = findBudgetThresholdCrossings(
+      { furnishings: 1000, install: 500 },
+      new Map([['furnishings', 1100], ['install', 260]]),
+      [
+        { categoryId: null, thresholdPercent: 100 },
+        { categoryId: 'install', thresholdPercent: 50 },
+        { categoryId: 'furnishings', thresholdPercent: 100 },
+      ]
+    )
+
+    expect(crossings.map(crossing => [crossing.categoryId, crossing.thresholdPercent])).toEqual([
+      ['furnishings', 100],
+      ['install', 50],
+    ])
+  })
+})
+
+describe('budgetAlertDedupeKey', () => {
+  it('is stable per project, category and threshold', () => {
+    expect(budgetAlertDedupeKey('project-1', 'furnishings', 80)).toBe('budget-threshold:project-1:furnishings:80')
+  })
+})
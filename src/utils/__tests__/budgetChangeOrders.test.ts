@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import type { BudgetChangeOrder } from '@/types'
+import { buildBudgetRevisionTimeline, buildClientBudgetRevisions } from '@/utils/budgetChangeOrders'
+
+const makeChangeOrder = (overrides: Partial<BudgetChangeOrder>): BudgetChangeOrder => ({
+  id: 'co-1',
+  accountId: 'account-1',
+  projectId: 'project-1',
+  categoryId: 'furnishings',
+  amount: '0.00',
+  reason: 'Scope change',
+  status: 'approved',
+  requestedOn: '2025-02-01',
+  approvedBy: 'Jane',
+  approvedOn: '2025-02-01',
+  createdAt: '2025-02-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('buildBudgetRevisionTimeline', () => {
+  it('derives the original budget and replays approved change orders in approval order', () => {
+    const timeline = buildBudgetRevisionTimeline(
+      { furnishings: 12000, install: 1500.5 },
+      [
+        makeChangeOrder({ id: 'co-2', amount: '-500.00', approvedOn: '2025-03-01' }),
+        makeChangeOrder({ id: 'co-1', amount: '2000.00', approvedOn: '2025-02-01' }),
+        makeChangeOrder({ id: 'co-3', categoryId: 'install', amount: '500.50', approvedOn: '2025-03-01', createdAt: '2025-03-01T10:00:00Z' }),
+        makeChangeOrder({ id: 'co-4', amount: '9999.00', status: 'pending', approvedBy: null, approvedOn: null }),
+        makeChangeOrder({ id: 'co-5', amount: '100.00', status: 'rejected', approvedBy: null, approvedOn: null }),
+      ]
+    )
+
+    expect(timeline.originalBudgetCategories).toEqual({ furnishings: 10500, install: 1000 })
+    expect(timeline.originalTotal).toBe('11500.00')
+    expect(timeline.currentTotal).toBe('13500.50')
+    expect(timeline.revisions.map(revision => [revision.changeOrder.id, revision.categoryBudgetAfter, revision.totalBudgetAfter])).toEqual([
+      ['co-1', '12500.00', '13500.00'],
+      ['co-2', '12000.00', '13000.00'],
+      ['co-3', '1500.50', '13500.50'],
+    ])
+  })
+
+  it('starts categories that only exist through change orders at zero', () => {
+    const timeline = buildBudgetRevisionTimeline(
+      { storage: 300 },
+      [makeChangeOrder({ categoryId: 'storage', amount: '300.00' })]
+    )
+
+    expect(timeline.originalBudgetCategories).toEqual({ storage: 0 })
+    expect(timeline.originalTotal).toBe('0.00')
+  })
+})
+
+describe('buildClientBudgetRevisions', () => {
+  it('returns null while the budget is still the original plan', () => {
+    expect(buildClientBudgetRevisions({ furnishings: 1000 }, [makeChangeOrder({ status: 'pending' })], new Map())).toBeNull()
+  })
+
+  it('names categories for the client summary', () => {
+    const revisions = buildClientBudgetRevisions(
+      { furnishings: 1200 },
+      [makeChangeOrder({ amount: '200.00', reason: 'Added guest room' })],
+      new Map([['furnishings', 'Furnishings']])
+    )
+
+    expect(revisions).toEqual({
+      originalTotal: '1000.00',
+      currentTotal: '1200.00',
+      revisions: [{
+        id: 'co-1',
+        date: '2025-02-01',
+        categoryName: 'Furnishings',
+        amount: '200.00',
+        reason: 'Added guest room',
+        approvedBy: 'Jane',
+        totalBudgetAfter: '1200.00',
+      }],
+    })
+  })
+})
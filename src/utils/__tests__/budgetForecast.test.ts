@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { buildBudgetForecast, UNCATEGORIZED_FORECAST_KEY } from '@/utils/budgetForecast'
+import { makeItem, makeTransaction } from './test-utils'
+
+describe('buildBudgetForecast', () => {
+  it('separates completed spending from pending transactions', () => {
+    const forecast = buildBudgetForecast([
+      makeTransaction({ transactionId: 'T-1', categoryId: 'furnishings', amount: '500.00' }),
+      makeTransaction({ transactionId: 'T-2', categoryId: 'furnishings', amount: '200.00', status: 'pending' }),
+      makeTransaction({ transactionId: 'T-3', categoryId: 'furnishings', amount: '50.00', transactionType: 'Return' }),
+      makeTransaction({ transactionId: 'T-4', categoryId: 'furnishings', amount: '999.00', status: 'canceled' }),
+    ], [])
+
+    expect(forecast.get('furnishings')).toEqual({ spent: 450, committed: 200 })
+  })
+
+  it('commits proposed items and open returns that are not yet on a transaction', () => {
+    const forecast = buildBudgetForecast(
+      [
+        makeTransaction({ transactionId: 'T-1', categoryId: 'install', amount: '300.00' }),
+        makeTransaction({ transactionId: 'T-2', categoryId: 'install', amount: '80.00', transactionType: 'Return', status: 'pending' }),
+      ],
+      [
+        makeItem({ itemId: 'I-1', disposition: 'to purchase', projectPrice: '1200.00' }),
+        makeItem({ itemId: 'I-2', disposition: 'to purchase', projectPrice: '300.00', transactionId: 'T-1' }),
+        makeItem({ itemId: 'I-3', disposition: 'to return', purchasePrice: '100.00', transactionId: 'T-1' }),
+        makeItem({ itemId: 'I-4', disposition: 'to return', purchasePrice: '80.00', transactionId: 'T-2' }),
+        makeItem({ itemId: 'I-5', disposition: 'purchased', projectPrice: '500.00' }),
+      ],
+      'furnishings'
+    )
+
+    // I-2 is already on T-1 and I-4 is already on the pending return T-2
+    expect(forecast.get('furnishings')).toEqual({ spent: 0, committed: 1200 })
+    expect(forecast.get('install')).toEqual({ spent: 300, committed: -180 })
+  })
+
+  it('keeps amounts without a category under the uncategorized key', () => {
+    const forecast = buildBudgetForecast(
+      [makeTransaction({ amount: '40.00', status: 'pending' })],
+      [makeItem({ disposition: 'to purchase', projectPrice: '60.00' })]
+    )
+
+    expect(forecast.get(UNCATEGORIZED_FORECAST_KEY)).toEqual({ spent: 0, committed: 100 })
+  })
+})
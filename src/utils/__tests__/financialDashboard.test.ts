@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { CLIENT_OWES_COMPANY, COMPANY_OWES_CLIENT } from '@/constants/company'
+import { buildFinancialDashboard } from '@/utils/financialDashboard'
+import { makeItem, makePayment, makeProject, makeTransaction } from './test-utils'
+
+const categories = [
+  { id: 'furnishings', name: 'Furnishings' },
+  { id: 'design-fee', name: 'Design Fee' },
+]
+
+describe('buildFinancialDashboard', () => {
+  it('rolls up budget, spending, design fee, reimbursements and returns per project', () => {
+    const dashboard = buildFinancialDashboard({
+      projects: [
+        makeProject({ designFee: 5000, budgetCategories: { furnishings: 10000, 'design-fee': 5000 } }),
+        makeProject({ id: 'project-2', name: 'Condo', budgetCategories: { furnishings: 2000 } }),
+      ],
+      transactions: [
+        makeTransaction({ transactionId: 'T-1', categoryId: 'furnishings', amount: '1200.00' }),
+        makeTransaction({ transactionId: 'T-2', categoryId: 'furnishings', amount: '200.00', transactionType: 'Return' }),
+        makeTransaction({ transactionId: 'T-3', categoryId: 'design-fee', amount: '2500.00' }),
+        makeTransaction({ transactionId: 'T-4', categoryId: 'furnishings', amount: '300.00', status: 'pending', reimbursementType: CLIENT_OWES_COMPANY }),
+        makeTransaction({ transactionId: 'T-5', projectId: 'project-2', amount: '75.50', reimbursementType: COMPANY_OWES_CLIENT }),
+      ],
+      payments: [],
+      items: [
+        makeItem({ itemId: 'I-1', projectId: 'project-1', disposition: 'to return', purchasePrice: '150.00' }),
+        makeItem({ itemId: 'I-2', projectId: 'project-1', disposition: 'purchased', purchasePrice: '900.00' }),
+      ],
+      businessInventoryItems: [
+        makeItem({ itemId: 'I-3', projectId: null, inventoryStatus: 'available', purchasePrice: '400.00' }),
+        makeItem({ itemId: 'I-4', projectId: null, inventoryStatus: 'sold', purchasePrice: '999.00' }),
+      ],
+      categories,
+    })
+
+    expect(dashboard.projects[0]).toMatchObject({
+      budget: '10000.00',
+      spent: '1000.00',
+      designFee: '5000.00',
+      designFeeEarned: '2500.00',
+      owedToCompany: '300.00',
+      owedToClient: '0.00',
+      itemsToReturnCount: 1,
+      itemsToReturnValue: '150.00',
+    })
+    expect(dashboard.projects[1]).toMatchObject({ budget: '2000.00', spent: '75.50', owedToClient: '75.50' })
+    expect(dashboard.totals).toMatchObject({ budget: '12000.00', spent: '1075.50', itemsToReturnCount: 1 })
+    expect(dashboard.businessInventory).toEqual({ itemCount: 1, value: '400.00' })
+  })
+
+  it('limits transactions to the date range and lists only projects active in it', () => {
+    const dashboard = buildFinancialDashboard(
+      {
+        projects: [makeProject({}), makeProject({ id: 'project-2', name: 'Condo' })],
+        transactions: [
+          makeTransaction({ transactionId: 'T-1', transactionDate: '2025-01-15', amount: '100.00' }),
+          makeTransaction({ transactionId: 'T-2', transactionDate: '2025-02-15', amount: '40.00' }),
+          makeTransaction({ transactionId: 'T-3', projectId: 'project-2', transactionDate: '2024-12-31', amount: '60.00' }),
+        ],
+        payments: [],
+        items: [],
+        businessInventoryItems: [],
+        categories,
+      },
+      { from: '2025-01-01', to: '2025-01-31' }
+    )
+
+    expect(dashboard.projects.map(project => project.projectId)).toEqual(['project-1'])
+    expect(dashboard.totals.spent).toBe('100.00')
+  })
+
+  it('nets reimbursements against recorded payments like the project ledger', () => {
+    const dashboard = buildFinancialDashboard({
+      projects: [makeProject({}), makeProject({ id: 'project-2', name: 'Condo' })],
+      transactions: [
+        makeTransaction({ transactionId: 'T-1', amount: '500.00', reimbursementType: CLIENT_OWES_COMPANY }),
+        makeTransaction({ transactionId: 'T-2', projectId: 'project-2', amount: '80.00', reimbursementType: COMPANY_OWES_CLIENT }),
+      ],
+      payments: [
+        makePayment({ id: 'P-1', amount: '350.00' }),
+        makePayment({ id: 'P-2', projectId: 'project-2', direction: 'company_to_client', amount: '100.00' }),
+      ],
+      items: [],
+      businessInventoryItems: [],
+      categories,
+    })
+
+    expect(dashboard.projects[0]).toMatchObject({ owedToCompany: '150.00', owedToClient: '0.00' })
+    expect(dashboard.projects[1]).toMatchObject({ owedToCompany: '20.00', owedToClient: '0.00' })
+    expect(dashboard.totals).toMatchObject({ owedToCompany: '170.00', owedToClient: '0.00' })
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import { parseHomeImprovementReceiptText } from '@/utils/homeImprovementReceiptParser'
+
+const homeDepotOnlineFixture = `
+THE HOME DEPOT
+Order Number: WM12345678
+Order Date: 11/14/2024
+Item Description Qty Price Total
+Everbilt 1-1/2 in. Zinc Plated Corner Brace (4-Pack)
+Model # 13546 Store SKU # 1003456789
+2 $5.98 $11.96
+Tax $0.96
+Glacier Bay Single Handle Pull-Down Kitchen Faucet
+Model # FP4A4080 Store SKU # 1001234567
+1 $149.00 $149.00
+Pro Xtra Savings -$10.00
+Tax $12.08
+Subtotal $160.96
+Savings -$10.00
+Sales Tax $13.04
+Total $164.00
+`
+
+const lowesFixture = `
+LOWE'S HOME CENTERS, LLC
+Store #: 1234
+Receipt #: 5678-9012-3456
+Purchase Date: 03/02/25
+Item Qty Price Total
+Project Source 2-in x 4-in x 8-ft Stud
+Item #: 6005 Model #: 1001
+10 $3.98 $39.80
+Sakrete 80-lb Concrete Mix
+Item #: 10391 Model #: 65200390
+3 $6.48 $19.44
+SUBTOTAL $59.24
+TAX $4.74
+TOTAL $63.98
+`
+
+describe('parseHomeImprovementReceiptText', () => {
+  it('parses Home Depot online receipts with SKU/model numbers and per-line tax', () => {
+    const result = parseHomeImprovementReceiptText(homeDepotOnlineFixture, 'Home Depot')
+
+    expect(result.retailer).toBe('Home Depot')
+    expect(result.receiptNumber).toBe('WM12345678')
+    expect(result.orderDate).toBe('2024-11-14')
+    expect(result.subtotal).toBe('160.96')
+    expect(result.discountsTotal).toBe('-10.00')
+    expect(result.taxTotal).toBe('13.04')
+    expect(result.orderTotal).toBe('164.00')
+    expect(result.calculatedSubtotal).toBe('150.96')
+
+    expect(result.lineItems).toHaveLength(2)
+    const [brace, faucet] = result.lineItems
+
+    expect(brace.description).toBe('Everbilt 1-1/2 in. Zinc Plated Corner Brace (4-Pack)')
+    expect(brace.sku).toBe('1003456789')
+    expect(brace.modelNumber).toBe('13546')
+    expect(brace.qty).toBe(2)
+    expect(brace.unitPrice).toBe('5.98')
+    expect(brace.tax).toBe('0.96')
+    expect(brace.taxAllocated).toBeUndefined()
+    expect(brace.total).toBe('12.92')
+
+    expect(faucet.sku).toBe('1001234567')
+    expect(faucet.modelNumber).toBe('FP4A4080')
+    expect(faucet.adjustment).toBe('10.00')
+    expect(faucet.tax).toBe('12.08')
+    expect(faucet.total).toBe('151.08')
+
+    expect(result.warnings).toEqual([])
+  })
+
+  it('parses Lowe\'s receipts and allocates receipt tax when lines carry none', () => {
+    const result = parseHomeImprovementReceiptText(lowesFixture, 'Lowes')
+
+    expect(result.receiptNumber).toBe('5678-9012-3456')
+    expect(result.storeNumber).toBe('1234')
+    expect(result.orderDate).toBe('2025-03-02')
+    expect(result.lineItems.map(li => [li.sku, li.modelNumber, li.qty])).toEqual([
+      ['6005', '1001', 10],
+      ['10391', '65200390', 3],
+    ])
+    expect(result.lineItems.every(li => li.taxAllocated)).toBe(true)
+
+    const taxCents = result.lineItems.reduce((sum, li) => sum + Math.round(Number.parseFloat(li.tax || '0') * 100), 0)
+    expect(taxCents).toBe(474)
+    expect(result.warnings).toEqual([])
+  })
+
+  it('parses in-store receipts that lead with the SKU and print quantity pricing below', () => {
+    const text = `
+THE HOME DEPOT
+Store 4402
+11/20/24 08:15 AM
+Transaction # 4402-00012-3456
+1003456789 EVERBILT CORNER BRACE <A> 11.96
+2@5.98
+204567123 WD-40 12 OZ <A> 6.97
+SUBTOTAL 18.93
+SALES TAX 1.52
+TOTAL $20.45
+`
+    const result = parseHomeImprovementReceiptText(text, 'Home Depot')
+
+    expect(result.orderDate).toBe('2024-11-20')
+    expect(result.receiptNumber).toBe('4402-00012-3456')
+    expect(result.lineItems).toHaveLength(2)
+    expect(result.lineItems[0]).toMatchObject({
+      description: 'EVERBILT CORNER BRACE',
+      sku: '1003456789',
+      qty: 2,
+      unitPrice: '5.98',
+      subtotal: '11.96',
+    })
+    expect(result.lineItems[1]).toMatchObject({ description: 'WD-40 12 OZ', qty: 1, subtotal: '6.97' })
+    expect(result.warnings).toEqual([])
+  })
+
+  it('warns when line tax or totals do not reconcile with the receipt', () => {
+    const text = `
+Order Number: WM99999999
+Order Date: 01/05/2025
+Shop Vac 5 Gallon
+Model # 5985005 Store SKU # 1000012345
+1 $59.97 $59.97
+Tax $2.00
+SUBTOTAL $59.97
+TAX $4.80
+TOTAL $70.00
+`
+    const result = parseHomeImprovementReceiptText(text, 'Home Depot')
+
+    expect(result.warnings).toEqual(expect.arrayContaining([
+      expect.stringContaining('Per-line tax ($2.00) does not match receipt tax ($4.80)'),
+      expect.stringContaining('do not match receipt total'),
+    ]))
+  })
+})
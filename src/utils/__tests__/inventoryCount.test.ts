@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import type { InventoryCountEntry, WarehouseLocation, WarehouseLocationKind } from '@/types'
+import { reconcileCount } from '@/utils/inventoryCount'
+import { makeItem } from './test-utils'
+
+const makeLocation = (id: string, kind: WarehouseLocationKind, name: string, parentId: string | null): WarehouseLocation => ({
+  id,
+  accountId: 'account-1',
+  parentId,
+  kind,
+  name,
+  createdAt: '2026-01-01T00:00:00Z',
+})
+
+const makeEntry = (itemId: string, countedLocationId: string | null): InventoryCountEntry => ({
+  id: `E-${itemId}`,
+  sessionId: 'S-1',
+  itemId,
+  countedLocationId,
+  countedAt: '2026-01-02T00:00:00Z',
+})
+
+const locations = [
+  makeLocation('w1', 'warehouse', 'Main', null),
+  makeLocation('z1', 'zone', 'Zone A', 'w1'),
+  makeLocation('z2', 'zone', 'Zone B', 'w1'),
+  makeLocation('s1', 'shelf', 'Shelf 1', 'z1'),
+  makeLocation('w2', 'warehouse', 'Annex', null),
+]
+
+describe('reconcileCount', () => {
+  const items = [
+    makeItem({ itemId: 'found', warehouseLocationId: 's1' }),
+    makeItem({ itemId: 'lost', warehouseLocationId: 'z1' }),
+    makeItem({ itemId: 'moved', warehouseLocationId: 's1' }),
+    makeItem({ itemId: 'annex', warehouseLocationId: 'w2' }),
+    makeItem({ itemId: 'allocated', warehouseLocationId: 's1', projectId: 'P-1' }),
+  ]
+
+  it('reports missing, mislocated and unexpected items within a location scope', () => {
+    const result = reconcileCount(
+      items,
+      [makeEntry('found', 's1'), makeEntry('moved', 'z1'), makeEntry('annex', 's1'), makeEntry('allocated', 's1')],
+      locations,
+      'z1'
+    )
+
+    expect(result.expected.map(item => item.itemId)).toEqual(['found', 'lost', 'moved'])
+    expect(result.matched.map(item => item.itemId)).toEqual(['found'])
+    expect(result.discrepancies.map(row => [row.item.itemId, row.discrepancy, row.resolutions])).toEqual([
+      ['lost', 'missing', ['none', 'clear_location']],
+      ['moved', 'mislocated', ['relocate', 'none']],
+      ['annex', 'unexpected', ['relocate', 'none']],
+      ['allocated', 'unexpected', ['none']],
+    ])
+  })
+
+  it('expects all unallocated items when counting the whole account', () => {
+    const result = reconcileCount(items, [makeEntry('annex', null)], locations, null)
+
+    expect(result.expected.map(item => item.itemId)).toEqual(['found', 'lost', 'moved', 'annex'])
+    expect(result.matched.map(item => item.itemId)).toEqual(['annex'])
+    expect(result.discrepancies.every(row => row.discrepancy === 'missing')).toBe(true)
+  })
+})
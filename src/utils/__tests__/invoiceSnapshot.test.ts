@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { CLIENT_OWES_COMPANY, COMPANY_INVENTORY_SALE, COMPANY_OWES_CLIENT } from '@/constants/company'
+import { buildInvoiceSnapshot, formatInvoiceNumber } from '@/utils/invoiceSnapshot'
+import { makeItem, makeTransaction } from './test-utils'
+
+describe('buildInvoiceSnapshot', () => {
+  it('splits charges and credits, totals item project prices, and sorts by date', () => {
+    const transactions = [
+      makeTransaction({ transactionId: 'T-2', transactionDate: '2024-12-05', reimbursementType: CLIENT_OWES_COMPANY, amount: '50.00' }),
+      makeTransaction({ transactionId: 'INV_SALE_1', transactionDate: '2024-12-02', reimbursementType: CLIENT_OWES_COMPANY, amount: '999.00' }),
+      makeTransaction({ transactionId: 'T-3', reimbursementType: COMPANY_OWES_CLIENT, amount: '25.50', notes: 'Returned lamp' }),
+      makeTransaction({ transactionId: 'T-4', reimbursementType: CLIENT_OWES_COMPANY, amount: '10.00', status: 'canceled' }),
+      makeTransaction({ transactionId: 'T-5', amount: '10.00' }),
+    ]
+    const items = [
+      makeItem({ itemId: 'I-1', transactionId: 'INV_SALE_1', description: 'Sofa', projectPrice: '1,200.00' }),
+      makeItem({ itemId: 'I-2', transactionId: 'INV_SALE_1', description: 'Pillow' }),
+    ]
+
+    const snapshot = buildInvoiceSnapshot({ name: 'Lake House', clientName: 'Jane Client' }, transactions, items)
+
+    expect(snapshot.projectName).toBe('Lake House')
+    expect(snapshot.charges.map(line => line.transactionId)).toEqual(['INV_SALE_1', 'T-2'])
+    expect(snapshot.charges[0]).toMatchObject({ title: COMPANY_INVENTORY_SALE, amount: '1200.00' })
+    expect(snapshot.charges[0].items).toEqual([
+      { itemId: 'I-1', description: 'Sofa', sku: undefined, amount: '1200.00', missingPrice: false },
+      { itemId: 'I-2', description: 'Pillow', sku: undefined, amount: '0.00', missingPrice: true },
+    ])
+    expect(snapshot.charges[1]).toMatchObject({ title: 'Wayfair', amount: '50.00', items: [] })
+    expect(snapshot.credits).toEqual([
+      expect.objectContaining({ transactionId: 'T-3', amount: '25.50', notes: 'Returned lamp' }),
+    ])
+    expect(snapshot.chargesTotal).toBe('1250.00')
+    expect(snapshot.creditsTotal).toBe('25.50')
+    expect(snapshot.totalDue).toBe('1224.50')
+  })
+
+  it('is plain JSON so it can be stored and re-rendered unchanged', () => {
+    const snapshot = buildInvoiceSnapshot(null, [
+      makeTransaction({ reimbursementType: CLIENT_OWES_COMPANY, amount: '19.99' }),
+    ], [])
+
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot)
+    expect(snapshot.projectName).toBe('Project')
+  })
+})
+
+describe('formatInvoiceNumber', () => {
+  it('zero-pads to four digits', () => {
+    expect(formatInvoiceNumber(7)).toBe('INV-0007')
+    expect(formatInvoiceNumber(12345)).toBe('INV-12345')
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import {
+  EMPTY_PHYSICAL_DETAILS_FORM_VALUES,
+  dimensionsFromAttributeLines,
+  formatPhysicalDetails,
+  parseDimensions,
+  parsePhysicalDetailsFormValues,
+  toPhysicalDetailsFormValues,
+} from '@/utils/itemPhysicalDetails'
+
+describe('parseDimensions', () => {
+  it('maps labelled Wayfair sizes onto width, height and depth', () => {
+    expect(parseDimensions(`30'' H x 60'' W x 36'' D`)).toEqual({ width: 60, height: 30, depth: 36, unit: 'inches' })
+    expect(parseDimensions('138" L x 105.96" W')).toEqual({ width: 105.96, height: 138, unit: 'inches' })
+    expect(parseDimensions('72" L x 30" W x 29.5" H')).toEqual({ width: 30, height: 29.5, depth: 72, unit: 'inches' })
+  })
+
+  it('reads feet, metric units and unlabelled sizes', () => {
+    expect(parseDimensions("Rectangle 8' x 10'")).toEqual({ width: 96, height: 120, unit: 'inches' })
+    expect(parseDimensions(`5'3" x 7'6"`)).toEqual({ width: 63, height: 90, unit: 'inches' })
+    expect(parseDimensions('152 x 76 x 40 cm')).toEqual({ width: 152, height: 40, depth: 76, unit: 'cm' })
+  })
+
+  it('returns null for sizes that are not measurements', () => {
+    expect(parseDimensions('King')).toBeNull()
+    expect(parseDimensions('Set of 2')).toBeNull()
+    expect(parseDimensions('30 cm x 12"')).toBeNull()
+    expect(parseDimensions('30" H x 20" H')).toBeNull()
+  })
+
+  it('uses the first measurement-style Size attribute line', () => {
+    expect(dimensionsFromAttributeLines(['Color: Taupe', 'Size: Queen', 'Size: 24" W x 36" H'])).toEqual({
+      width: 24,
+      height: 36,
+      unit: 'inches',
+    })
+    expect(dimensionsFromAttributeLines(['Fabric: Linen'])).toBeUndefined()
+  })
+})
+
+describe('physical details form values', () => {
+  it('round-trips item fields and clears blank inputs', () => {
+    const item = {
+      dimensions: { width: 60, height: 30, depth: 36, unit: 'inches' as const },
+      weight: { value: 45, unit: 'lb' as const },
+      condition: 'good' as const,
+    }
+    expect(parsePhysicalDetailsFormValues(toPhysicalDetailsFormValues(item))).toEqual({ details: item, errors: {} })
+    expect(parsePhysicalDetailsFormValues(EMPTY_PHYSICAL_DETAILS_FORM_VALUES)).toEqual({
+      details: { dimensions: null, weight: null, condition: null },
+      errors: {},
+    })
+    expect(formatPhysicalDetails(item)).toBe('60" W x 30" H x 36" D · 45 lb · Good')
+  })
+
+  it('reports incomplete or invalid measurements', () => {
+    const { errors } = parsePhysicalDetailsFormValues({ ...EMPTY_PHYSICAL_DETAILS_FORM_VALUES, width: '20', weight: '-3' })
+    expect(errors).toEqual({ dimensions: 'Enter both width and height', weight: 'Weight must be a positive number' })
+  })
+})
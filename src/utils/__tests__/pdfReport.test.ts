@@ -0,0 +1,120 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import type { InvoiceSnapshot } from '@/types'
+import { renderPdfReport, toPdfSafeText, wrapText, type PdfReportDocument } from '@/utils/pdfReport'
+import { buildInvoicePdfDocument, toPdfFileName } from '@/utils/pdfReportDocuments'
+
+// 1x1 opaque PNG
+const PIXEL_PNG = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg=='),
+  c => c.charCodeAt(0)
+)
+
+const generatedAt = new Date('2026-01-15T12:00:00Z')
+
+const makeDocument = (rowCount: number): PdfReportDocument => ({
+  title: 'Invoice',
+  subject: 'Smith Residence',
+  businessName: 'Studio 1584',
+  logo: { bytes: PIXEL_PNG, format: 'png' },
+  headerLines: ['Smith Residence', 'Client: Jane Smith'],
+  footerText: 'Studio 1584',
+  generatedAt,
+  blocks: [
+    { type: 'heading', text: 'Project Charges' },
+    ...Array.from({ length: rowCount }, (_, index) => ({
+      type: 'row' as const,
+      title: `Line ${index + 1}`,
+      amount: '$10.00',
+      details: ['Jan 5'],
+      thumbnail: { bytes: PIXEL_PNG, format: 'png' as const },
+    })),
+    { type: 'total', label: 'Net Amount Due', value: '$100.00', emphasis: true },
+  ],
+})
+
+describe('renderPdfReport', () => {
+  it('produces identical bytes for identical input', async () => {
+    const first = await renderPdfReport(makeDocument(3))
+    const second = await renderPdfReport(makeDocument(3))
+
+    expect(new TextDecoder().decode(first.slice(0, 5))).toBe('%PDF-')
+    expect(Buffer.from(first).equals(Buffer.from(second))).toBe(true)
+
+    const loaded = await PDFDocument.load(first)
+    expect(loaded.getTitle()).toBe('Invoice - Smith Residence')
+    expect(loaded.getCreationDate()?.toISOString()).toBe(generatedAt.toISOString())
+  })
+
+  it('flows long reports onto additional pages', async () => {
+    const short = await PDFDocument.load(await renderPdfReport(makeDocument(3)))
+    const long = await PDFDocument.load(await renderPdfReport(makeDocument(60)))
+
+    expect(short.getPageCount()).toBe(1)
+    expect(long.getPageCount()).toBeGreaterThan(1)
+  })
+
+  it('renders text the standard fonts cannot encode', async () => {
+    const doc = makeDocument(1)
+    doc.blocks.push({ type: 'note', text: 'Café sofa 🛋️ 沙发' })
+
+    await expect(renderPdfReport(doc)).resolves.toBeInstanceOf(Uint8Array)
+    expect(toPdfSafeText('Café sofa 🛋️ – “déjà”')).toBe('Café sofa ?? – “déjà”')
+    expect(toPdfSafeText('Łódź')).toBe('?ódz')
+  })
+})
+
+describe('wrapText', () => {
+  const monospace = { widthOfTextAtSize: (text: string, size: number) => text.length * size }
+
+  it('wraps on word boundaries and breaks overlong words', () => {
+    expect(wrapText('one two three', monospace, 1, 7)).toEqual(['one two', 'three'])
+    expect(wrapText('abcdefghij', monospace, 1, 4)).toEqual(['abcd', 'efgh', 'ij'])
+  })
+})
+
+describe('buildInvoicePdfDocument', () => {
+  const snapshot: InvoiceSnapshot = {
+    projectName: 'Smith Residence',
+    clientName: 'Jane Smith',
+    charges: [
+      {
+        transactionId: 'tx-1',
+        title: 'Wayfair',
+        transactionDate: '2026-01-05',
+        amount: '150.00',
+        items: [
+          { itemId: 'i-1', description: 'Lamp', amount: '150.00', missingPrice: false, imageUrl: 'https://img/lamp.jpg' },
+          { itemId: 'i-2', description: 'Rug', amount: '0.00', missingPrice: true },
+        ],
+      },
+    ],
+    credits: [],
+    chargesTotal: '150.00',
+    creditsTotal: '0.00',
+    totalDue: '150.00',
+  }
+
+  it('mirrors the on-screen invoice with nested item rows and thumbnails', () => {
+    const thumbnail = { bytes: PIXEL_PNG, format: 'png' as const }
+    const doc = buildInvoicePdfDocument(snapshot, ['Invoice #: INV-0007'], {
+      businessName: 'Studio 1584',
+      thumbnails: new Map([['https://img/lamp.jpg', thumbnail]]),
+      generatedAt,
+    })
+
+    expect(doc.headerLines).toEqual(['Smith Residence', 'Client: Jane Smith', 'Invoice #: INV-0007'])
+    expect(doc.blocks).toEqual([
+      { type: 'heading', text: 'Project Charges' },
+      { type: 'row', title: 'Wayfair', amount: '$150.00', details: ['Jan 5'] },
+      expect.objectContaining({ type: 'row', nested: true, title: 'Lamp', thumbnail }),
+      expect.objectContaining({ type: 'row', nested: true, title: 'Rug', warning: 'Missing project price', thumbnail: null }),
+      { type: 'total', label: 'Charges Total', value: '$150.00' },
+      { type: 'heading', text: 'Project Credits' },
+      { type: 'total', label: 'Credits Total', value: '$0.00' },
+      { type: 'total', label: 'Net Amount Due', value: '$150.00', emphasis: true },
+    ])
+    expect(toPdfFileName('Invoice', 'INV-0007', 'Smith/Jones')).toBe('Invoice - INV-0007 - SmithJones.pdf')
+  })
+})
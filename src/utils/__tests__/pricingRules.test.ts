@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import type { PricingRule } from '@/types'
+import { applyPricingRules, computeRulePrice, findPricingRule, isProjectPriceOverridden, suggestProjectPrice } from '@/utils/pricingRules'
+
+const makeRule = (overrides: Partial<PricingRule>): PricingRule => ({
+  id: 'rule-1',
+  vendor: null,
+  categoryId: null,
+  markupPercent: 0,
+  tradeDiscountPercent: 0,
+  rounding: 'none',
+  ...overrides,
+})
+
+const rules: PricingRule[] = [
+  makeRule({ id: 'default', markupPercent: 20 }),
+  makeRule({ id: 'furnishings', categoryId: 'cat-furnishings', markupPercent: 30 }),
+  makeRule({ id: 'wayfair', vendor: 'Wayfair', markupPercent: 25 }),
+  makeRule({ id: 'wayfair-furnishings', vendor: 'wayfair', categoryId: 'cat-furnishings', markupPercent: 35 }),
+]
+
+describe('findPricingRule', () => {
+  it('prefers vendor and category over vendor over category over the catch-all', () => {
+    expect(findPricingRule(rules, { vendor: 'WAYFAIR ', categoryId: 'cat-furnishings' })?.id).toBe('wayfair-furnishings')
+    expect(findPricingRule(rules, { vendor: 'Wayfair', categoryId: 'cat-lighting' })?.id).toBe('wayfair')
+    expect(findPricingRule(rules, { vendor: 'Amazon', categoryId: 'cat-furnishings' })?.id).toBe('furnishings')
+    expect(findPricingRule(rules, { vendor: 'Amazon', categoryId: null })?.id).toBe('default')
+    expect(findPricingRule([], { vendor: 'Amazon' })).toBeNull()
+  })
+})
+
+describe('computeRulePrice', () => {
+  it('backs out the trade discount, applies markup, then rounds', () => {
+    expect(computeRulePrice('100.00', makeRule({ markupPercent: 25 }))).toBe('125.00')
+    expect(computeRulePrice('80.00', makeRule({ tradeDiscountPercent: 20, markupPercent: 10 }))).toBe('110.00')
+    expect(computeRulePrice('99.40', makeRule({ markupPercent: 10, rounding: 'nearest_dollar' }))).toBe('109.00')
+    expect(computeRulePrice('99.40', makeRule({ markupPercent: 10, rounding: 'up_dollar' }))).toBe('110.00')
+    expect(computeRulePrice('99.40', makeRule({ markupPercent: 10, rounding: 'up_five' }))).toBe('110.00')
+    expect(computeRulePrice('', makeRule({ markupPercent: 10 }))).toBeNull()
+  })
+})
+
+describe('applyPricingRules', () => {
+  it('fills missing project prices and leaves entered ones alone', () => {
+    const priced = applyPricingRules(
+      [
+        { purchasePrice: '100.00' },
+        { purchasePrice: '100.00', projectPrice: '150.00' },
+        { purchasePrice: '' },
+      ],
+      rules,
+      { vendor: 'Wayfair', categoryId: 'cat-furnishings' }
+    )
+
+    expect(priced).toEqual([
+      { purchasePrice: '100.00', projectPrice: '135.00', pricingRuleId: 'wayfair-furnishings', projectPriceOverridden: false },
+      { purchasePrice: '100.00', projectPrice: '150.00' },
+      { purchasePrice: '' },
+    ])
+  })
+
+  it('flags prices that differ from the suggestion as overridden', () => {
+    const suggestion = suggestProjectPrice('100', rules, { vendor: 'Amazon' })
+    expect(suggestion).toEqual({ ruleId: 'default', projectPrice: '120.00' })
+    expect(isProjectPriceOverridden('120', suggestion)).toBe(false)
+    expect(isProjectPriceOverridden('125.00', suggestion)).toBe(true)
+  })
+})
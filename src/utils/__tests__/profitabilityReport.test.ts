@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { buildProfitabilityReport, markupPercent, profitabilityReportToCsvRows } from '@/utils/profitabilityReport'
+import { makeItem, makeProject, makeTransaction } from './test-utils'
+
+const categories = [
+  { id: 'furnishings', name: 'Furnishings' },
+  { id: 'kitchen', name: 'Kitchen' },
+  { id: 'design-fee', name: 'Design Fee' },
+]
+
+describe('buildProfitabilityReport', () => {
+  it('splits cost, billed, tax and markup by category', () => {
+    const report = buildProfitabilityReport({
+      projects: [makeProject({})],
+      transactions: [
+        makeTransaction({ transactionId: 'T-1', categoryId: 'kitchen', amount: '300.00' }),
+        makeTransaction({ transactionId: 'T-2', categoryId: 'design-fee', amount: '1500.00' }),
+      ],
+      items: [
+        makeItem({ itemId: 'I-1', projectId: 'project-1', transactionId: 'T-1', disposition: 'purchased', purchasePrice: '200.00', projectPrice: '260.00', taxAmountPurchasePrice: '16.5000', taxAmountProjectPrice: '21.4500' }),
+        makeItem({ itemId: 'I-2', projectId: 'project-1', disposition: 'purchased', purchasePrice: '100.00', projectPrice: '150.00' }),
+        makeItem({ itemId: 'I-3', projectId: 'project-1', purchasePrice: '999.00', projectPrice: '999.00', disposition: 'returned' }),
+      ],
+      categories,
+    })
+
+    const [project] = report.projects
+    expect(project).toMatchObject({
+      cost: '300.00',
+      billed: '410.00',
+      markupPercent: 36.7,
+      taxPaid: '16.50',
+      taxBilled: '21.45',
+      itemMargin: '110.00',
+      designFee: '1500.00',
+      totalMargin: '1610.00',
+    })
+    expect(project.categories.map(category => [category.categoryName, category.itemMargin, category.markupPercent])).toEqual([
+      ['Furnishings', '50.00', 50],
+      ['Kitchen', '60.00', 30],
+    ])
+  })
+
+  it('reports margin on items sold back to inventory', () => {
+    const report = buildProfitabilityReport({
+      projects: [makeProject({})],
+      transactions: [
+        makeTransaction({ transactionId: 'INV_SALE_project-1', amount: '700.00', itemIds: ['I-1', 'I-2'], status: 'pending' }),
+      ],
+      items: [
+        makeItem({ itemId: 'I-1', projectId: null, transactionId: 'INV_SALE_project-1', purchasePrice: '400.00', disposition: 'inventory' }),
+        makeItem({ itemId: 'I-2', projectId: null, transactionId: 'INV_SALE_project-1', purchasePrice: '200.00', disposition: 'inventory' }),
+      ],
+      categories,
+    })
+
+    expect(report.projects[0].inventorySales).toEqual({ amount: '700.00', cost: '600.00', margin: '100.00' })
+    expect(report.totals.totalMargin).toBe('100.00')
+    const rows = profitabilityReportToCsvRows(report)
+    expect(rows[rows.length - 1]).toEqual([
+      'Total', '', '', '', '0.00', '0.00', '', '0.00', '0.00', '0.00', '0.00', '700.00', '600.00', '100.00', '100.00',
+    ])
+  })
+
+  it('leaves markup empty when nothing was paid', () => {
+    expect(markupPercent(0, 5000)).toBeNull()
+  })
+})
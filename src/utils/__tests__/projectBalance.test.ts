@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import type { Invoice } from '@/types'
+import { CLIENT_OWES_COMPANY, COMPANY_OWES_CLIENT } from '@/constants/company'
+import { computeInvoiceBalanceDue, computeProjectBalance, formatBalance } from '@/utils/projectBalance'
+import { makePayment, makeTransaction } from './test-utils'
+
+const makeInvoice = (overrides: Partial<Invoice>): Invoice => ({
+  id: 'I-1',
+  accountId: 'account-1',
+  projectId: 'project-1',
+  invoiceNumber: 1,
+  status: 'sent',
+  issueDate: '2025-01-01',
+  totalDue: '0.00',
+  amountPaid: '0.00',
+  snapshot: {} as Invoice['snapshot'],
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('computeProjectBalance', () => {
+  it('nets reimbursable transactions against payments and skips canceled ones', () => {
+    const balance = computeProjectBalance(
+      [
+        makeTransaction({ transactionId: 'T-1', reimbursementType: CLIENT_OWES_COMPANY, amount: '500.00' }),
+        makeTransaction({ transactionId: 'T-2', reimbursementType: COMPANY_OWES_CLIENT, amount: '75.25' }),
+        makeTransaction({ transactionId: 'T-3', reimbursementType: CLIENT_OWES_COMPANY, amount: '40.00', status: 'canceled' }),
+        makeTransaction({ transactionId: 'T-4', amount: '99.00' }),
+      ],
+      [
+        makePayment({ id: 'P-1', amount: '200.00' }),
+        makePayment({ id: 'P-2', direction: 'company_to_client', amount: '10.00' }),
+      ]
+    )
+
+    expect(balance.owedToCompany).toBe('500.00')
+    expect(balance.owedToClient).toBe('75.25')
+    expect(balance.paymentsReceived).toBe('200.00')
+    expect(balance.paymentsIssued).toBe('10.00')
+    expect(balance.outstandingBalance).toBe('234.75')
+    expect(balance.entries.map(entry => entry.id)).toEqual(['T-1', 'T-2', 'P-1', 'P-2'])
+  })
+
+  it('keeps a running balance in date order with transactions ahead of same-day payments', () => {
+    const balance = computeProjectBalance(
+      [
+        makeTransaction({ transactionId: 'T-2', transactionDate: '2025-02-10', reimbursementType: CLIENT_OWES_COMPANY, amount: '100.00' }),
+        makeTransaction({ transactionId: 'T-1', transactionDate: '2025-01-05', reimbursementType: CLIENT_OWES_COMPANY, amount: '300.00' }),
+      ],
+      [makePayment({ id: 'P-1', paymentDate: '2025-01-05', amount: '300.00', reference: '1042' })]
+    )
+
+    expect(balance.entries).toEqual([
+      expect.objectContaining({ id: 'T-1', amount: '300.00', balance: '300.00' }),
+      expect.objectContaining({ id: 'P-1', amount: '-300.00', balance: '0.00', description: 'Payment received (Check 1042)' }),
+      expect.objectContaining({ id: 'T-2', amount: '100.00', balance: '100.00' }),
+    ])
+    expect(balance.outstandingBalance).toBe('100.00')
+  })
+
+  it('reports a negative balance when the company owes the client', () => {
+    const balance = computeProjectBalance(
+      [makeTransaction({ reimbursementType: COMPANY_OWES_CLIENT, amount: '60.00' })],
+      []
+    )
+
+    expect(balance.outstandingBalance).toBe('-60.00')
+  })
+})
+
+describe('computeInvoiceBalanceDue', () => {
+  it('sums unpaid amounts on billed invoices and ignores drafts and voided invoices', () => {
+    const due = computeInvoiceBalanceDue([
+      makeInvoice({ id: 'I-1', status: 'sent', totalDue: '1200.00' }),
+      makeInvoice({ id: 'I-2', status: 'partially_paid', totalDue: '500.00', amountPaid: '150.50' }),
+      makeInvoice({ id: 'I-3', status: 'paid', totalDue: '300.00', amountPaid: '300.00' }),
+      makeInvoice({ id: 'I-4', status: 'draft', totalDue: '999.00' }),
+      makeInvoice({ id: 'I-5', status: 'void', totalDue: '80.00' }),
+    ])
+
+    expect(due).toBe('1549.50')
+  })
+})
+
+describe('formatBalance', () => {
+  it('formats balances as currency and labels credits', () => {
+    expect(formatBalance('1234.5')).toBe('$1,234.50')
+    expect(formatBalance('-120.00')).toBe('$120.00 credit')
+    expect(formatBalance('0.00')).toBe('$0.00')
+  })
+})
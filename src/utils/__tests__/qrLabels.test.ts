@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { LABEL_TEMPLATES, buildQrLabel, paginateLabels } from '@/utils/qrLabels'
+import { makeItem } from './test-utils'
+
+describe('buildQrLabel', () => {
+  it('encodes the resolver URL for the item QR key', () => {
+    expect(buildQrLabel(makeItem({ sku: 'SOFA-1', qrKey: 'QR-123 abc' }), 'https://app.example.com/')).toEqual({
+      itemId: 'I-1',
+      qrKey: 'QR-123 abc',
+      url: 'https://app.example.com/qr-image/QR-123%20abc',
+      title: 'Sofa',
+      subtitle: 'SOFA-1 · Wayfair',
+    })
+  })
+})
+
+describe('paginateLabels', () => {
+  it('skips used positions on the first sheet and pads the last sheet', () => {
+    const template = LABEL_TEMPLATES['avery-5163']
+    const labels = Array.from({ length: 12 }, (_, index) => index + 1)
+
+    const sheets = paginateLabels(labels, template, 3)
+
+    expect(sheets).toHaveLength(2)
+    expect(sheets[0]).toEqual([null, null, null, 1, 2, 3, 4, 5, 6, 7])
+    expect(sheets[1]).toEqual([8, 9, 10, 11, 12, null, null, null, null, null])
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_TAX_PRESETS } from '@/constants/taxPresets'
+import { buildSalesTaxReport, getTaxPeriod, salesTaxReportToCsvRows } from '@/utils/salesTaxReport'
+import { makeItem, makeTransaction } from './test-utils'
+
+describe('getTaxPeriod', () => {
+  it('buckets dates by quarter or month', () => {
+    expect(getTaxPeriod('2025-05-31', 'quarter')).toBe('2025-Q2')
+    expect(getTaxPeriod('2025-05-31', 'month')).toBe('2025-05')
+  })
+})
+
+describe('buildSalesTaxReport', () => {
+  it('groups tax paid and charged by period and preset', () => {
+    const report = buildSalesTaxReport(
+      {
+        transactions: [
+          makeTransaction({ transactionId: 'T-1', amount: '108.38', subtotal: '100.00', taxRatePreset: 'nv', taxRatePct: 8.375 }),
+          makeTransaction({ transactionId: 'T-2', amount: '10.84', subtotal: '10.00', taxRatePreset: 'nv', taxRatePct: 8.375, transactionType: 'Return' }),
+          makeTransaction({ transactionId: 'T-3', transactionDate: '2025-04-02', amount: '107.10', taxRatePreset: 'ut', taxRatePct: 7.1 }),
+          makeTransaction({ transactionId: 'T-4', amount: '50.00' }),
+          makeTransaction({ transactionId: 'T-5', amount: '108.38', taxRatePreset: 'nv', taxRatePct: 8.375, status: 'canceled' }),
+        ],
+        items: [
+          makeItem({ itemId: 'I-1', projectId: 'project-1', transactionId: 'T-1', projectPrice: '150.00', taxAmountProjectPrice: '12.5625' }),
+          makeItem({ itemId: 'I-2', transactionId: 'T-1', projectPrice: '80.00', taxAmountProjectPrice: '6.70', disposition: 'returned' }),
+        ],
+        presets: DEFAULT_TAX_PRESETS,
+      },
+      { startDate: '2025-01-01', endDate: '2025-06-30', granularity: 'quarter' }
+    )
+
+    expect(report.rows).toEqual([
+      { period: '2025-Q1', jurisdictionKey: 'nv', jurisdiction: 'NV', purchaseBase: '90.00', taxPaid: '7.54', resaleBase: '150.00', taxCharged: '12.56' },
+      { period: '2025-Q2', jurisdictionKey: 'ut', jurisdiction: 'UT', purchaseBase: '100.00', taxPaid: '7.10', resaleBase: '0.00', taxCharged: '0.00' },
+    ])
+    expect(salesTaxReportToCsvRows(report)[3]).toEqual(['Total', '', '190.00', '14.64', '150.00', '12.56'])
+  })
+
+  it('labels custom rates and respects the date range', () => {
+    const report = buildSalesTaxReport(
+      {
+        transactions: [
+          makeTransaction({ transactionId: 'T-1', amount: '105.00', taxRatePreset: 'Other', taxRatePct: 5 }),
+          makeTransaction({ transactionId: 'T-2', transactionDate: '2024-12-31', amount: '105.00', taxRatePreset: 'Other', taxRatePct: 5 }),
+        ],
+        items: [],
+        presets: DEFAULT_TAX_PRESETS,
+      },
+      { startDate: '2025-01-01', granularity: 'month' }
+    )
+
+    expect(report.rows).toEqual([
+      { period: '2025-01', jurisdictionKey: 'rate:5', jurisdiction: 'Custom 5%', purchaseBase: '100.00', taxPaid: '5.00', resaleBase: '0.00', taxCharged: '0.00' },
+    ])
+  })
+})
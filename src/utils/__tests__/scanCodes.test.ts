@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { createScanDebouncer, findItemsByBarcode, isValidGtin, parseScannedCode } from '@/utils/scanCodes'
+import { makeItem } from './test-utils'
+
+describe('parseScannedCode', () => {
+  it('reads the QR key from a printed label URL', () => {
+    expect(parseScannedCode('https://app.example.com/qr-image/QR-123%20abc')).toEqual({ kind: 'qr', qrKey: 'QR-123 abc' })
+    expect(parseScannedCode('QR-1700000000-ab12')).toEqual({ kind: 'qr', qrKey: 'QR-1700000000-ab12' })
+  })
+
+  it('accepts product barcodes only when the check digit is valid', () => {
+    expect(isValidGtin('036000291452')).toBe(true)
+    expect(parseScannedCode('036000291452')).toEqual({ kind: 'barcode', gtin: '00036000291452' })
+    expect(parseScannedCode('036000291453')).toEqual({ kind: 'unknown', raw: '036000291453' })
+  })
+})
+
+describe('findItemsByBarcode', () => {
+  it('matches UPC-A scans against EAN-13 and hyphenated SKUs', () => {
+    const items = [
+      makeItem({ itemId: 'a', sku: '0036000291452' }),
+      makeItem({ itemId: 'b', sku: '0-36000-29145-2' }),
+      makeItem({ itemId: 'c', sku: 'LAMP-1' }),
+    ]
+
+    expect(findItemsByBarcode(items, '00036000291452').map(item => item.itemId)).toEqual(['a', 'b'])
+  })
+})
+
+describe('createScanDebouncer', () => {
+  it('ignores repeat reads of the same code within the window', () => {
+    let now = 0
+    const accept = createScanDebouncer(1000, () => now)
+
+    expect(accept('A')).toBe(true)
+    now = 500
+    expect(accept('A')).toBe(false)
+    expect(accept('B')).toBe(true)
+    now = 1500
+    expect(accept('A')).toBe(true)
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import {
+  guessColumnMapping,
+  parseCsv,
+  planSpreadsheetImport,
+  toTransactionItemFormData,
+} from '@/utils/spreadsheetImport'
+
+const csv = [
+  'Transaction ID,Date,Vendor,Amount,Category,Description,SKU,Purchase Price,Space',
+  'T-1001,12/01/2024,Wayfair,"$1,250.00",Furnishings,Accent Chair,W100,$625.00,Living Room',
+  'T-1001,,,,,Accent Chair,W101,$625.00,Living Room',
+  'T-1002,2024-12-03,Home Depot,45.10,Install,"Corner Brace, 4-Pack",HD-9,45.10,Garage',
+].join('\r\n')
+
+const categories = [
+  { id: 'cat-furn', name: 'Furnishings', slug: 'furnishings' },
+  { id: 'cat-install', name: 'Install', slug: 'install' },
+]
+
+describe('spreadsheetImport', () => {
+  it('parses quoted CSV fields and guesses column mappings from headers', () => {
+    const rows = parseCsv(`\uFEFF${csv}\n`)
+
+    expect(rows).toHaveLength(4)
+    expect(rows[1][3]).toBe('$1,250.00')
+    expect(rows[3][5]).toBe('Corner Brace, 4-Pack')
+
+    expect(guessColumnMapping(rows[0])).toEqual({
+      transactionId: 0,
+      transactionDate: 1,
+      source: 2,
+      amount: 3,
+      budgetCategory: 4,
+      itemDescription: 5,
+      itemSku: 6,
+      itemPurchasePrice: 7,
+      itemSpace: 8,
+    })
+  })
+
+  it('handles tab-delimited exports and quotes containing newlines', () => {
+    const rows = parseCsv('Date\tNotes\n01/02/2025\t"line one\nline ""two"""\n')
+    expect(rows).toEqual([
+      ['Date', 'Notes'],
+      ['01/02/2025', 'line one\nline "two"'],
+    ])
+  })
+
+  it('groups rows into transactions and normalizes money, dates and categories', () => {
+    const [header, ...rows] = parseCsv(csv)
+    const plan = planSpreadsheetImport(rows, guessColumnMapping(header), { categories })
+
+    expect(plan.readyCount).toBe(2)
+    expect(plan.issues).toEqual([])
+
+    const [chairs, braces] = plan.transactions
+    expect(chairs).toMatchObject({
+      rowNumbers: [2, 3],
+      legacyTransactionId: 'T-1001',
+      transactionDate: '2024-12-01',
+      source: 'Wayfair',
+      amount: '1250.00',
+      categoryId: 'cat-furn',
+      transactionType: 'Purchase',
+    })
+    expect(chairs.items.map(item => item.sku)).toEqual(['W100', 'W101'])
+    expect(braces.transactionDate).toBe('2024-12-03')
+    expect(braces.categoryId).toBe('cat-install')
+
+    expect(toTransactionItemFormData(chairs)[0]).toMatchObject({
+      id: 'csv-2',
+      description: 'Accent Chair',
+      purchasePrice: '625.00',
+      price: '625.00',
+      space: 'Living Room',
+    })
+  })
+
+  it('flags previously imported legacy IDs and existing SKUs as duplicates', () => {
+    const [header, ...rows] = parseCsv(csv)
+    const plan = planSpreadsheetImport(rows, guessColumnMapping(header), {
+      existingLegacyTransactionIds: ['T-1002'],
+      existingSkus: ['w101'],
+      categories,
+    })
+
+    expect(plan.transactions.map(t => t.importStatus)).toEqual(['ready', 'duplicate'])
+    expect(plan.duplicateCount).toBe(1)
+    expect(plan.transactions[0].items.map(item => item.duplicate)).toEqual([false, true])
+    expect(toTransactionItemFormData(plan.transactions[0]).map(item => item.sku)).toEqual(['W100', 'W101'])
+    expect(plan.issues.map(i => i.message)).toEqual([
+      'SKU "W101" already exists; this item will be imported again.',
+      'Transaction T-1002 already exists and will be skipped.',
+    ])
+  })
+
+  it('reports invalid values without committing anything', () => {
+    const rows = [
+      ['13/45/2024', 'Target', 'abc', 'Lamp', ''],
+      ['', '', '', 'Shade', '12.00'],
+      ['01/10/2025', '', '', 'Rug', '80.00'],
+    ]
+    const plan = planSpreadsheetImport(rows, {
+      transactionDate: 0,
+      source: 1,
+      amount: 2,
+      itemDescription: 3,
+      itemPurchasePrice: 4,
+    })
+
+    expect(plan.transactions).toHaveLength(2)
+    expect(plan.transactions[0].rowNumbers).toEqual([2, 3])
+    expect(plan.invalidCount).toBe(2)
+    expect(plan.issues).toEqual([
+      { rowNumber: 2, severity: 'error', message: 'Date "13/45/2024" could not be parsed.' },
+      { rowNumber: 2, severity: 'error', message: 'Amount "abc" is not a valid amount.' },
+      { rowNumber: 4, severity: 'warning', message: 'No amount given; using the sum of item purchase prices ($80.00).' },
+      { rowNumber: 4, severity: 'error', message: 'Source / Vendor is required.' },
+    ])
+  })
+})
@@ -0,0 +1,61 @@
+import type { Item, Payment, Project, Transaction } from '@/types'
+
+/**
+ * Shared factories for util tests. Each returns a minimal valid record;
+ * pass overrides for the fields a test actually cares about.
+ */
+
+export const makeProject = (overrides: Partial<Project> = {}): Project => ({
+  id: 'project-1',
+  name: 'Lake House',
+  description: '',
+  clientName: 'Smith',
+  createdAt: new Date('2025-01-01'),
+  updatedAt: new Date('2025-01-01'),
+  createdBy: 'user-1',
+  ...overrides,
+})
+
+export const makeTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  transactionId: 'T-1',
+  projectId: 'project-1',
+  transactionDate: '2025-01-01',
+  source: 'Wayfair',
+  transactionType: 'Purchase',
+  paymentMethod: 'Client Card',
+  amount: '0.00',
+  receiptEmailed: false,
+  createdAt: '2025-01-01T00:00:00Z',
+  createdBy: 'user-1',
+  status: 'completed',
+  ...overrides,
+})
+
+export const makeItem = (overrides: Partial<Item> = {}): Item => ({
+  itemId: 'I-1',
+  description: 'Sofa',
+  source: 'Wayfair',
+  sku: '',
+  paymentMethod: 'Client Card',
+  qrKey: 'qr-1',
+  bookmark: false,
+  dateCreated: '2025-01-01',
+  lastUpdated: '2025-01-01',
+  ...overrides,
+})
+
+export const makePayment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: 'P-1',
+  accountId: 'account-1',
+  projectId: 'project-1',
+  invoiceId: null,
+  direction: 'client_to_company',
+  paymentDate: '2025-01-01',
+  amount: '0.00',
+  method: 'Check',
+  reference: null,
+  notes: null,
+  createdBy: null,
+  createdAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+})
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import {
+  detectInvoiceVendor,
+  getVendorInvoiceParser,
+  parseVendorInvoiceText,
+  registerVendorInvoiceParser,
+  unregisterVendorInvoiceParser,
+  type VendorInvoiceParser,
+} from '@/utils/vendorInvoiceParsers'
+
+const wayfairText = `
+Wayfair
+Invoice # 4386128736
+Order Date: 12/01/2024
+Order Total $399.99
+
+Shipped On Dec 10, 2024
+Accent Chair - Blue Velvet
+W100200300
+Color: Blue
+Size: 33'' H x 28'' W x 30'' D
+1 $399.99 $399.99
+`
+
+describe('vendorInvoiceParsers', () => {
+  it('detects Wayfair invoices and maps them into the shared result shape', () => {
+    expect(detectInvoiceVendor(wayfairText)?.vendor).toBe('Wayfair')
+
+    const result = parseVendorInvoiceText(wayfairText)
+    expect(result?.vendor).toBe('Wayfair')
+    expect(result?.invoiceNumber).toBe('4386128736')
+    expect(result?.orderDate).toBe('2024-12-01')
+    expect(result?.lineItems).toHaveLength(1)
+
+    const [chair] = result!.lineItems
+    expect(chair.description).toContain('Accent Chair')
+    expect(chair.total).toBe('399.99')
+    expect(chair.attributeLines).toContain('Color: Blue')
+    expect(chair.dimensions).toEqual({ width: 28, height: 33, depth: 30, unit: 'inches' })
+    expect(chair.noteLines).toEqual(['Wayfair shipped on 2024-12-10'])
+  })
+
+  it('routes Amazon order details to the Amazon parser', () => {
+    const text = `
+Final Details for Order #112-4455667-8899001
+Order Placed: December 1, 2024
+Amazon.com order number: 112-4455667-8899001
+Shipped on December 3, 2024
+1 of: Brass Table Lamp with Linen Shade $89.99
+Sold by: Home Lighting Co
+Payment information
+Item(s) Subtotal: $89.99
+Estimated tax to be collected: $7.20
+Grand Total: $97.19
+`
+    expect(detectInvoiceVendor(text)?.vendor).toBe('Amazon')
+
+    const result = parseVendorInvoiceText(text)
+    expect(result?.vendor).toBe('Amazon')
+    expect(result?.invoiceNumber).toBe('112-4455667-8899001')
+    expect(result?.calculatedSubtotal).toBe('89.99')
+    expect(result?.lineItems[0].tax).toBe('7.20')
+    expect(result?.lineItems[0].noteLines).toEqual(['Amazon shipped on 2024-12-03'])
+  })
+
+  it('routes Home Depot and Lowe\'s receipts to the install-materials parsers', () => {
+    const homeDepot = `
+THE HOME DEPOT
+Order Number: WM12345678
+Order Date: 11/14/2024
+Everbilt Corner Brace
+Model # 13546 Store SKU # 1003456789
+2 $5.98 $11.96
+SUBTOTAL $11.96
+TAX $0.96
+TOTAL $12.92
+`
+    const homeDepotParser = detectInvoiceVendor(homeDepot)
+    expect(homeDepotParser?.vendor).toBe('Home Depot')
+    expect(homeDepotParser?.defaultBudgetCategoryName).toBe('Install')
+
+    const result = parseVendorInvoiceText(homeDepot)
+    expect(result?.lineItems[0]).toMatchObject({
+      sku: '1003456789',
+      attributeLines: ['Model #: 13546'],
+      tax: '0.96',
+    })
+
+    expect(detectInvoiceVendor("LOWE'S HOME CENTERS, LLC\nStore #: 1234")?.vendor).toBe('Lowes')
+  })
+
+  it('returns undefined when no registered vendor recognizes the text', () => {
+    const text = 'Corner Hardware Store\nReceipt 42\nHammer 1 $12.00 $12.00'
+    expect(detectInvoiceVendor(text)).toBeUndefined()
+    expect(parseVendorInvoiceText(text)).toBeUndefined()
+  })
+
+  it('honors an explicit vendor over detection', () => {
+    const stub: VendorInvoiceParser = {
+      vendor: 'Target',
+      detect: () => 0,
+      parse: () => ({ vendor: 'Target', lineItems: [], warnings: ['stub'] }),
+    }
+    registerVendorInvoiceParser(stub)
+
+    try {
+      expect(getVendorInvoiceParser('target')).toBe(stub)
+      expect(parseVendorInvoiceText(wayfairText, 'Target')?.vendor).toBe('Target')
+      expect(parseVendorInvoiceText(wayfairText)?.vendor).toBe('Wayfair')
+    } finally {
+      unregisterVendorInvoiceParser('Target')
+    }
+    expect(getVendorInvoiceParser('target')).toBeUndefined()
+  })
+})
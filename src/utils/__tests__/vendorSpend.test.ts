@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { buildVendorSpend, createVendorNormalizer } from '@/utils/vendorSpend'
+import { makeItem, makeProject, makeTransaction } from './test-utils'
+
+describe('createVendorNormalizer', () => {
+  it('matches known vendors regardless of case, spacing and ampersands', () => {
+    const normalize = createVendorNormalizer(['RH Outdoor'])
+    expect(normalize(' west elm ')).toBe('West Elm')
+    expect(normalize('Crate and Barrel')).toBe('Crate & Barrel')
+    expect(normalize('rh outdoor')).toBe('RH Outdoor')
+    expect(normalize('Local Upholsterer')).toBe('Local Upholsterer')
+  })
+})
+
+describe('buildVendorSpend', () => {
+  it('totals purchases, returns and projects per vendor', () => {
+    const vendors = buildVendorSpend({
+      projects: [makeProject({}), makeProject({ id: 'project-2', name: 'Condo' })],
+      transactions: [
+        makeTransaction({ transactionId: 'T-1', source: 'wayfair', amount: '300.00' }),
+        makeTransaction({ transactionId: 'T-2', projectId: 'project-2', transactionDate: '2025-02-03', amount: '100.00' }),
+        makeTransaction({ transactionId: 'T-3', transactionDate: '2025-02-10', amount: '50.00', transactionType: 'Return' }),
+        makeTransaction({ transactionId: 'T-4', source: 'Amazon', amount: '20.00' }),
+        makeTransaction({ transactionId: 'T-5', amount: '999.00', status: 'canceled' }),
+        makeTransaction({ transactionId: 'INV_PURCHASE_project-1', source: 'Inventory', amount: '500.00' }),
+      ],
+      items: [
+        makeItem({ itemId: 'I-1', disposition: 'returned' }),
+        makeItem({ itemId: 'I-2', source: 'WAYFAIR', disposition: 'purchased' }),
+      ],
+      vendorDefaults: [],
+    })
+
+    expect(vendors.map(vendor => vendor.vendor)).toEqual(['Wayfair', 'Amazon'])
+    expect(vendors[0]).toMatchObject({
+      purchaseCount: 2,
+      purchaseTotal: '400.00',
+      returnCount: 1,
+      returnTotal: '50.00',
+      netSpend: '350.00',
+      averageOrder: '200.00',
+      returnRate: 12.5,
+      itemCount: 2,
+      returnedItemCount: 1,
+      monthly: [
+        { month: '2025-01', netSpend: '300.00' },
+        { month: '2025-02', netSpend: '50.00' },
+      ],
+      projects: [
+        { projectId: 'project-1', projectName: 'Lake House', netSpend: '250.00' },
+        { projectId: 'project-2', projectName: 'Condo', netSpend: '100.00' },
+      ],
+    })
+  })
+
+  it('only counts transactions in the date range', () => {
+    const vendors = buildVendorSpend(
+      {
+        projects: [makeProject({})],
+        transactions: [
+          makeTransaction({ transactionId: 'T-1', transactionDate: '2024-12-31', amount: '300.00' }),
+          makeTransaction({ transactionId: 'T-2', transactionDate: '2025-01-02', amount: '100.00' }),
+        ],
+        items: [],
+        vendorDefaults: [],
+      },
+      { startDate: '2025-01-01' }
+    )
+
+    expect(vendors).toHaveLength(1)
+    expect(vendors[0].netSpend).toBe('100.00')
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import type { WarehouseLocation, WarehouseLocationKind } from '@/types'
+import { buildLocationTree, formatLocationPath, getDescendantIds, getLocationPath } from '@/utils/warehouseLocations'
+import { makeItem } from './test-utils'
+
+const makeLocation = (id: string, kind: WarehouseLocationKind, name: string, parentId: string | null): WarehouseLocation => ({
+  id,
+  accountId: 'account-1',
+  parentId,
+  kind,
+  name,
+  createdAt: '2026-01-01T00:00:00Z',
+})
+
+const locations = [
+  makeLocation('w1', 'warehouse', 'Main', null),
+  makeLocation('z1', 'zone', 'Zone B', 'w1'),
+  makeLocation('s1', 'shelf', 'Shelf 3', 'z1'),
+  makeLocation('b10', 'bin', 'Bin 10', 's1'),
+  makeLocation('b2', 'bin', 'Bin 2', 's1'),
+  makeLocation('w2', 'warehouse', 'Annex', null),
+]
+
+describe('getLocationPath', () => {
+  it('walks from the warehouse down to the location', () => {
+    expect(formatLocationPath(getLocationPath(locations, 'b10'))).toBe('Main › Zone B › Shelf 3 › Bin 10')
+    expect(getLocationPath(locations, 'missing')).toEqual([])
+  })
+})
+
+describe('getDescendantIds', () => {
+  it('includes the location and everything beneath it', () => {
+    expect(getDescendantIds(locations, 'z1')).toEqual(new Set(['z1', 's1', 'b10', 'b2']))
+  })
+})
+
+describe('buildLocationTree', () => {
+  it('orders siblings naturally and rolls item counts up to ancestors', () => {
+    const items = [
+      makeItem({ itemId: 'a', warehouseLocationId: 'b2' }),
+      makeItem({ itemId: 'b', warehouseLocationId: 'b10' }),
+      makeItem({ itemId: 'c', warehouseLocationId: 's1' }),
+      makeItem({ itemId: 'd', warehouseLocationId: null }),
+    ]
+
+    const rows = buildLocationTree(locations, items).map(row => [row.location.name, row.depth, row.itemCount])
+
+    expect(rows).toEqual([
+      ['Annex', 0, 0],
+      ['Main', 0, 3],
+      ['Zone B', 1, 3],
+      ['Shelf 3', 2, 3],
+      ['Bin 2', 3, 1],
+      ['Bin 10', 3, 1],
+    ])
+  })
+})
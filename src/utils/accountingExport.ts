@@ -0,0 +1,252 @@
+import { INTERNAL_INVENTORY_TRANSACTION_PREFIXES } from '@/constants/company'
+import type { Transaction } from '@/types'
+import { centsToMoney, toCents } from '@/utils/invoiceTextUtils'
+
+/**
+ * Turns transactions into balanced journal entries for bookkeepers who import into QuickBooks
+ * Desktop (IIF) or another ledger (CSV). Each transaction debits its expense account for the pre-tax
+ * amount and the sales-tax account for the tax, and credits the account its payment method maps to.
+ * Returns post the same entry reversed.
+ */
+
+export type AccountingExportConfig = {
+  defaultExpenseAccount: string
+  /** Budget category name -> expense account. */
+  categoryAccounts: Record<string, string>
+  salesTaxAccount: string
+  defaultPaymentAccount: string
+  /** Payment method -> account credited (e.g. a card's liability account). */
+  paymentMethodAccounts: Record<string, string>
+  journalColumns: JournalCsvColumn[]
+  dateFormat: 'MM/DD/YYYY' | 'YYYY-MM-DD'
+}
+
+export const JOURNAL_CSV_COLUMNS = {
+  entryNumber: 'Entry No',
+  date: 'Date',
+  account: 'Account',
+  debit: 'Debit',
+  credit: 'Credit',
+  name: 'Name',
+  memo: 'Memo',
+  project: 'Project',
+  category: 'Budget Category',
+  paymentMethod: 'Payment Method',
+  reimbursementType: 'Reimbursement Type',
+  transactionId: 'Transaction ID',
+} as const
+
+export type JournalCsvColumn = keyof typeof JOURNAL_CSV_COLUMNS
+
+export const DEFAULT_ACCOUNTING_EXPORT_CONFIG: AccountingExportConfig = {
+  defaultExpenseAccount: 'Job Materials',
+  categoryAccounts: {},
+  salesTaxAccount: 'Sales Tax Paid',
+  defaultPaymentAccount: 'Accounts Payable',
+  paymentMethodAccounts: {},
+  journalColumns: ['entryNumber', 'date', 'account', 'debit', 'credit', 'name', 'memo', 'project', 'category'],
+  dateFormat: 'MM/DD/YYYY',
+}
+
+export type TaxSplit = { net: string; tax: string; total: string }
+
+export type JournalLine = {
+  account: string
+  /** Positive debits, negative credits. */
+  cents: number
+}
+
+export type JournalEntry = {
+  entryNumber: number
+  transactionId: string
+  date: string // YYYY-MM-DD
+  name: string
+  memo: string
+  project: string
+  category: string
+  paymentMethod: string
+  reimbursementType: string
+  lines: JournalLine[]
+}
+
+/**
+ * Pre-tax and tax portions of a transaction. An explicit subtotal wins; otherwise the tax is backed
+ * out of the amount using `taxRatePct`. Transactions with neither are treated as untaxed.
+ */
+export function splitTransactionTax(transaction: Pick<Transaction, 'amount' | 'subtotal' | 'taxRatePct'>): TaxSplit {
+  const totalCents = toCents(transaction.amount)
+  const subtotalCents = transaction.subtotal ? toCents(transaction.subtotal) : 0
+  let netCents = totalCents
+
+  if (subtotalCents > 0 && subtotalCents <= totalCents) {
+    netCents = subtotalCents
+  } else if (transaction.taxRatePct && transaction.taxRatePct > 0) {
+    netCents = Math.round(totalCents / (1 + transaction.taxRatePct / 100))
+  }
+
+  return { net: centsToMoney(netCents), tax: centsToMoney(totalCents - netCents), total: centsToMoney(totalCents) }
+}
+
+/**
+ * Completed and pending transactions dated within [startDate, endDate] (inclusive, YYYY-MM-DD),
+ * oldest first. Either bound may be empty. Inventory allocation, sale and transfer transactions
+ * (INV_PURCHASE_/INV_SALE_/INV_TRANSFER_) are left out: the items were expensed when first bought,
+ * so exporting the internal moves would book them twice.
+ */
+export function selectTransactionsForExport(
+  transactions: Transaction[],
+  range: { startDate?: string; endDate?: string }
+): Transaction[] {
+  return transactions
+    .filter(t => t.status !== 'canceled')
+    .filter(t => !INTERNAL_INVENTORY_TRANSACTION_PREFIXES.some(prefix => t.transactionId.startsWith(prefix)))
+    .filter(t => {
+      const date = (t.transactionDate || '').slice(0, 10)
+      if (range.startDate && date < range.startDate) return false
+      if (range.endDate && date > range.endDate) return false
+      return true
+    })
+    .sort((a, b) => (a.transactionDate || '').localeCompare(b.transactionDate || ''))
+}
+
+export function buildJournalEntries(
+  transactions: Transaction[],
+  config: AccountingExportConfig,
+  lookups: { categoryName: (transaction: Transaction) => string; projectName: (transaction: Transaction) => string }
+): JournalEntry[] {
+  const entries: JournalEntry[] = []
+
+  for (const transaction of transactions) {
+    const split = splitTransactionTax(transaction)
+    const totalCents = toCents(split.total)
+    if (totalCents === 0) continue
+
+    const sign = transaction.transactionType === 'Return' ? -1 : 1
+    const category = lookups.categoryName(transaction)
+    const expenseAccount = config.categoryAccounts[category] || config.defaultExpenseAccount
+    const paymentAccount = config.paymentMethodAccounts[transaction.paymentMethod] || config.defaultPaymentAccount
+    const taxCents = toCents(split.tax)
+
+    const lines: JournalLine[] = [{ account: expenseAccount, cents: sign * toCents(split.net) }]
+    if (taxCents !== 0) {
+      lines.push({ account: config.salesTaxAccount, cents: sign * taxCents })
+    }
+    lines.push({ account: paymentAccount, cents: -sign * totalCents })
+
+    entries.push({
+      entryNumber: entries.length + 1,
+      transactionId: transaction.transactionId,
+      date: (transaction.transactionDate || '').slice(0, 10),
+      name: transaction.source || '',
+      memo: [transaction.transactionType, transaction.notes].filter(Boolean).join(' - '),
+      project: lookups.projectName(transaction),
+      category,
+      paymentMethod: transaction.paymentMethod || '',
+      reimbursementType: transaction.reimbursementType || '',
+      lines,
+    })
+  }
+
+  return entries
+}
+
+const formatExportDate = (isoDate: string, format: AccountingExportConfig['dateFormat']) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate)
+  if (!match || format === 'YYYY-MM-DD') return isoDate
+  return `${match[2]}/${match[3]}/${match[1]}`
+}
+
+/**
+ * One row per journal line with the configured columns, ready for `toCsv`.
+ */
+export function journalEntriesToCsvRows(entries: JournalEntry[], config: AccountingExportConfig): string[][] {
+  const columns = config.journalColumns
+  const rows: string[][] = [columns.map(column => JOURNAL_CSV_COLUMNS[column])]
+
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      const values: Record<JournalCsvColumn, string> = {
+        entryNumber: String(entry.entryNumber),
+        date: formatExportDate(entry.date, config.dateFormat),
+        account: line.account,
+        debit: line.cents > 0 ? centsToMoney(line.cents) : '',
+        credit: line.cents < 0 ? centsToMoney(-line.cents) : '',
+        name: entry.name,
+        memo: entry.memo,
+        project: entry.project,
+        category: entry.category,
+        paymentMethod: entry.paymentMethod,
+        reimbursementType: entry.reimbursementType,
+        transactionId: entry.transactionId,
+      }
+      rows.push(columns.map(column => values[column]))
+    }
+  }
+
+  return rows
+}
+
+// IIF is tab-delimited with no quoting, so tabs and line breaks inside fields must go.
+const iifField = (value: string) => value.replace(/[\t\r\n]+/g, ' ').replace(/"/g, "'").trim()
+
+/**
+ * QuickBooks Desktop IIF general journal entries. The credit to the payment account is the TRNS
+ * line and the debits are SPL lines; project names go in CLASS. IIF dates are always MM/DD/YYYY.
+ */
+export function journalEntriesToIif(entries: JournalEntry[]): string {
+  const header = ['DATE', 'ACCNT', 'NAME', 'CLASS', 'AMOUNT', 'DOCNUM', 'MEMO']
+  const rows: string[][] = [
+    ['!TRNS', 'TRNSID', 'TRNSTYPE', ...header],
+    ['!SPL', 'SPLID', 'TRNSTYPE', ...header],
+    ['!ENDTRNS'],
+  ]
+
+  for (const entry of entries) {
+    const [first, ...rest] = [...entry.lines].sort((a, b) => a.cents - b.cents)
+    const toRow = (kind: 'TRNS' | 'SPL', line: JournalLine) => [
+      kind,
+      '',
+      'GENERAL JOURNAL',
+      formatExportDate(entry.date, 'MM/DD/YYYY'),
+      iifField(line.account),
+      iifField(entry.name),
+      iifField(entry.project),
+      centsToMoney(line.cents),
+      iifField(entry.transactionId),
+      iifField(entry.memo),
+    ]
+    rows.push(toRow('TRNS', first))
+    rest.forEach(line => rows.push(toRow('SPL', line)))
+    rows.push(['ENDTRNS'])
+  }
+
+  return rows.map(row => row.join('\t')).join('\r\n') + '\r\n'
+}
+
+const configStorageKey = (accountId: string) => `accountingExportConfig:${accountId}`
+
+export function loadAccountingExportConfig(accountId: string): AccountingExportConfig {
+  try {
+    const stored = localStorage.getItem(configStorageKey(accountId))
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<AccountingExportConfig>
+      const journalColumns = (parsed.journalColumns || []).filter(column => column in JOURNAL_CSV_COLUMNS)
+      return {
+        ...DEFAULT_ACCOUNTING_EXPORT_CONFIG,
+        ...parsed,
+        journalColumns: journalColumns.length > 0 ? journalColumns : DEFAULT_ACCOUNTING_EXPORT_CONFIG.journalColumns,
+      }
+    }
+  } catch {
+    // ignore unreadable or unavailable storage and fall back to defaults
+  }
+  return DEFAULT_ACCOUNTING_EXPORT_CONFIG
+}
+
+export function saveAccountingExportConfig(accountId: string, config: AccountingExportConfig) {
+  try {
+    localStorage.setItem(configStorageKey(accountId), JSON.stringify(config))
+  } catch {
+    // localStorage may be unavailable; the export still works with the in-memory config
+  }
+}
@@ -0,0 +1,260 @@
+import { normalizeMoneyToTwoDecimalString } from '@/utils/money'
+import {
+  allocateCents,
+  centsToMoney,
+  extractFirstMatch,
+  extractMoneyTokens,
+  normalizeLines,
+  parseDateToIso,
+  toCents,
+} from '@/utils/invoiceTextUtils'
+
+export type AmazonInvoiceLineItem = {
+  description: string
+  qty: number
+  unitPrice: string
+  subtotal: string // unitPrice * qty
+  /**
+   * Amazon only reports shipping, promotions and tax per order (or per shipment), so these are the
+   * line's proportional share of the order-level amounts (by subtotal), rounded to cents.
+   */
+  shipping?: string
+  adjustment?: string // promotions share, stored as a positive amount
+  tax?: string
+  total: string
+  /** Lines printed under the item, e.g. "Sold by: Amazon.com Services, Inc", "Condition: New". */
+  attributeLines?: string[]
+  shippedOn?: string // YYYY-MM-DD
+  section: 'shipped' | 'not_yet_shipped' | 'unknown'
+}
+
+export type AmazonInvoiceParseResult = {
+  orderNumber?: string
+  orderDate?: string // YYYY-MM-DD
+  orderTotal?: string
+  itemsSubtotal?: string
+  shippingTotal?: string
+  promotionsTotal?: string // negative, e.g. "-5.99"
+  taxTotal?: string
+  calculatedSubtotal?: string // order total - tax total
+  lineItems: AmazonInvoiceLineItem[]
+  warnings: string[]
+}
+
+const ITEM_START_REGEX = /^(\d{1,3})\s+of:\s*(.*)$/i
+const ITEM_ATTRIBUTE_REGEX = /^(Sold by|Supplied by|Condition|Business Price|Gift options?)\s*:\s*(.+)$/i
+const PROMOTION_LINE_REGEX = /^(?:Free Shipping|Promotions?(?:\s+Applied)?|Your Coupon Savings|Coupon Savings|Subscribe\s*(?:&|and)\s*Save|Lightning Deal|Discount|Business Discount)\b[^:]*:\s*(.+)$/i
+const TAX_LINE_REGEX = /^(?:Estimated tax to be collected|Tax Collected|Sales Tax|Estimated Tax|Tax)\s*:\s*(.+)$/i
+const SECTION_BREAK_REGEX = /^(?:Items Ordered|Price|Shipping Address|Shipping Speed|Billing Address|Payment (?:information|Method)|Item\(s\) Subtotal|Total before tax|Grand Total|Order Total|Total for This Shipment|Credit Card transactions)\b/i
+
+function firstMoney(value: string): string | undefined {
+  return extractMoneyTokens(value)[0]
+}
+
+/**
+ * Amazon repeats per-shipment totals above the order-level "Payment information" block.
+ * Prefer the order-level block so we don't pick up a single shipment's subtotal.
+ */
+function getOrderSummaryText(fullText: string): string {
+  const matches = Array.from(fullText.matchAll(/Payment information/gi))
+  const last = matches[matches.length - 1]
+  return last?.index !== undefined ? fullText.slice(last.index) : fullText
+}
+
+export function parseAmazonInvoiceText(fullText: string): AmazonInvoiceParseResult {
+  const warnings: string[] = []
+
+  const orderNumber =
+    extractFirstMatch(fullText, /\border\s*(?:number|#)\s*:?\s*#?\s*([A-Z0-9]\d{2}-\d{7}-\d{7})\b/i) ||
+    extractFirstMatch(fullText, /\b([A-Z0-9]\d{2}-\d{7}-\d{7})\b/)
+
+  const orderDateRaw =
+    extractFirstMatch(fullText, /\bOrder\s*Placed\s*:?\s*([^\n\r]+)/i) ||
+    extractFirstMatch(fullText, /\bOrder\s*Date\s*:?\s*([^\n\r]+)/i)
+  const orderDate = orderDateRaw ? parseDateToIso(orderDateRaw) : undefined
+
+  const summaryText = getOrderSummaryText(fullText)
+  const summaryLines = normalizeLines(summaryText)
+
+  const itemsSubtotalRaw = extractFirstMatch(summaryText, /\bItem\(s\)\s*Subtotal\s*:?\s*(\$?\s*[\d,]+\.\d{2})/i)
+  const shippingRaw = extractFirstMatch(summaryText, /\bShipping\s*(?:&|and)\s*Handling\s*:?\s*(\$?\s*[\d,]+\.\d{2})/i)
+  const orderTotalRaw =
+    extractFirstMatch(summaryText, /\bGrand\s*Total\s*:?\s*(\$?\s*[\d,]+\.\d{2})/i) ||
+    extractFirstMatch(fullText, /\bOrder\s*Total\s*:?\s*(\$?\s*[\d,]+\.\d{2})/i)
+
+  let promotionsCents = 0
+  let taxCents: number | undefined
+  for (const line of summaryLines) {
+    const promo = line.match(PROMOTION_LINE_REGEX)
+    if (promo) {
+      promotionsCents += Math.abs(toCents(firstMoney(promo[1])))
+      continue
+    }
+    const tax = line.match(TAX_LINE_REGEX)
+    if (tax && taxCents === undefined) {
+      const money = firstMoney(tax[1])
+      if (money) taxCents = toCents(money)
+    }
+  }
+
+  const itemsSubtotal = itemsSubtotalRaw ? normalizeMoneyToTwoDecimalString(itemsSubtotalRaw) : undefined
+  const shippingTotal = shippingRaw ? normalizeMoneyToTwoDecimalString(shippingRaw) : undefined
+  const orderTotal = orderTotalRaw ? normalizeMoneyToTwoDecimalString(orderTotalRaw) : undefined
+  const promotionsTotal = promotionsCents > 0 ? centsToMoney(-promotionsCents) : undefined
+  const taxTotal = taxCents !== undefined ? centsToMoney(taxCents) : undefined
+
+  let calculatedSubtotal: string | undefined
+  if (orderTotal && taxTotal) {
+    calculatedSubtotal = centsToMoney(toCents(orderTotal) - toCents(taxTotal))
+  }
+
+  if (!orderNumber) warnings.push('Could not confidently find an Amazon order number.')
+  if (!orderDate) warnings.push('Could not confidently find an order date; defaulting to today is recommended.')
+  if (!orderTotal) warnings.push('Could not confidently find an order total; totals reconciliation will be limited.')
+
+  type DraftLine = Omit<AmazonInvoiceLineItem, 'subtotal' | 'total'>
+  const drafts: DraftLine[] = []
+  let section: AmazonInvoiceLineItem['section'] = 'unknown'
+  let shippedOn: string | undefined
+  let pending: { qty: number; descriptionParts: string[] } | undefined
+  let lastItem: DraftLine | undefined
+  /**
+   * The price is printed top-aligned with the first description line, so wrapped description
+   * lines can arrive *after* the price. They keep attaching until the first attribute line.
+   */
+  let lastItemAcceptsDescription = false
+
+  const dropPending = () => {
+    if (pending) {
+      warnings.push(`Skipped "${pending.descriptionParts.join(' ').trim()}" because no price was found for it.`)
+      pending = undefined
+    }
+  }
+
+  const finishPending = (priceLine: string) => {
+    if (!pending) return
+    const money = extractMoneyTokens(priceLine)
+    const unitPrice = money[money.length - 1]
+    const descriptionTail = priceLine.replace(/\s*-?\$?\s*[\d,]+\.\d{2}\s*$/, '').trim()
+    if (descriptionTail) pending.descriptionParts.push(descriptionTail)
+    const item: DraftLine = {
+      description: pending.descriptionParts.join(' ').replace(/\s+/g, ' ').trim(),
+      qty: pending.qty,
+      unitPrice,
+      shippedOn,
+      section,
+    }
+    drafts.push(item)
+    lastItem = item
+    lastItemAcceptsDescription = true
+    pending = undefined
+  }
+
+  for (const line of normalizeLines(fullText)) {
+    const shippedMatch = line.match(/^Shipped\s+on\s+(.+)$/i)
+    if (shippedMatch) {
+      dropPending()
+      section = 'shipped'
+      shippedOn = parseDateToIso(shippedMatch[1])
+      lastItem = undefined
+      continue
+    }
+    if (/^(?:Not Yet Shipped|Preparing for Shipment|Items? not yet shipped)\b/i.test(line)) {
+      dropPending()
+      section = 'not_yet_shipped'
+      shippedOn = undefined
+      lastItem = undefined
+      continue
+    }
+
+    const itemStart = line.match(ITEM_START_REGEX)
+    if (itemStart) {
+      dropPending()
+      const qty = Number(itemStart[1])
+      pending = { qty: Number.isFinite(qty) && qty > 0 ? qty : 1, descriptionParts: [] }
+      const rest = itemStart[2].trim()
+      if (extractMoneyTokens(rest).length > 0 && /\d\.\d{2}\s*$/.test(rest)) {
+        finishPending(rest)
+      } else if (rest) {
+        pending.descriptionParts.push(rest)
+      }
+      continue
+    }
+
+    if (pending) {
+      if (SECTION_BREAK_REGEX.test(line) || ITEM_ATTRIBUTE_REGEX.test(line)) {
+        dropPending()
+      } else if (extractMoneyTokens(line).length > 0 && /\d\.\d{2}\s*$/.test(line)) {
+        finishPending(line)
+        continue
+      } else {
+        pending.descriptionParts.push(line)
+        continue
+      }
+    }
+
+    if (lastItem) {
+      const attribute = line.match(ITEM_ATTRIBUTE_REGEX)
+      if (attribute) {
+        lastItem.attributeLines = [...(lastItem.attributeLines || []), `${attribute[1]}: ${attribute[2].trim()}`]
+        lastItemAcceptsDescription = false
+        continue
+      }
+      if (SECTION_BREAK_REGEX.test(line)) {
+        lastItem = undefined
+        continue
+      }
+      if (lastItemAcceptsDescription && extractMoneyTokens(line).length === 0) {
+        lastItem.description = `${lastItem.description} ${line}`.trim()
+      }
+    }
+  }
+  dropPending()
+
+  const subtotalsCents = drafts.map(d => toCents(d.unitPrice) * d.qty)
+  const shippingShares = allocateCents(toCents(shippingTotal), subtotalsCents)
+  const promotionShares = allocateCents(promotionsCents, subtotalsCents)
+  const taxShares = allocateCents(taxCents ?? 0, subtotalsCents)
+
+  const lineItems: AmazonInvoiceLineItem[] = drafts.map((draft, idx) => {
+    const totalCents = subtotalsCents[idx] + shippingShares[idx] - promotionShares[idx] + taxShares[idx]
+    return {
+      ...draft,
+      subtotal: centsToMoney(subtotalsCents[idx]),
+      shipping: shippingShares[idx] ? centsToMoney(shippingShares[idx]) : undefined,
+      adjustment: promotionShares[idx] ? centsToMoney(promotionShares[idx]) : undefined,
+      tax: taxShares[idx] ? centsToMoney(taxShares[idx]) : undefined,
+      total: centsToMoney(totalCents),
+    }
+  })
+
+  if (lineItems.length === 0) {
+    warnings.push('No line items were detected. The PDF may be image-based or the template changed.')
+  }
+
+  const sumSubtotalsCents = subtotalsCents.reduce((sum, c) => sum + c, 0)
+  if (itemsSubtotal && lineItems.length > 0 && Math.abs(sumSubtotalsCents - toCents(itemsSubtotal)) > 5) {
+    warnings.push(`Item prices ($${centsToMoney(sumSubtotalsCents)}) do not match the Item(s) Subtotal ($${itemsSubtotal}). Some items may be missing.`)
+  }
+
+  const sumLineTotalsCents = lineItems.reduce((sum, li) => sum + toCents(li.total), 0)
+  if (orderTotal && lineItems.length > 0) {
+    const diffCents = Math.abs(sumLineTotalsCents - toCents(orderTotal))
+    if (diffCents > 5) {
+      warnings.push(`Line totals ($${centsToMoney(sumLineTotalsCents)}) do not match order total ($${orderTotal}). Difference: $${centsToMoney(diffCents)}.`)
+    }
+  }
+
+  return {
+    orderNumber,
+    orderDate,
+    orderTotal,
+    itemsSubtotal,
+    shippingTotal,
+    promotionsTotal,
+    taxTotal,
+    calculatedSubtotal,
+    lineItems,
+    warnings,
+  }
+}
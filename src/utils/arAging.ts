@@ -0,0 +1,208 @@
+import type { Invoice, InvoiceSnapshot, Payment } from '@/types'
+import { centsToMoney, toCents } from '@/utils/invoiceTextUtils'
+import { formatInvoiceNumber } from '@/utils/invoiceSnapshot'
+
+export type AgingBucket = 'days0to30' | 'days31to60' | 'days61to90' | 'days90plus'
+
+export const AGING_BUCKETS: Array<{ key: AgingBucket; label: string }> = [
+  { key: 'days0to30', label: '0-30' },
+  { key: 'days31to60', label: '31-60' },
+  { key: 'days61to90', label: '61-90' },
+  { key: 'days90plus', label: '90+' },
+]
+
+export type AgingEntry = {
+  kind: 'invoice' | 'transaction'
+  id: string // invoice id or transaction id
+  date: string // YYYY-MM-DD the age is measured from
+  description: string
+  openAmount: string
+  ageDays: number
+  bucket: AgingBucket
+}
+
+export type ProjectAging = {
+  projectId: string
+  projectName: string
+  clientName?: string
+  buckets: Record<AgingBucket, string>
+  /** Credits and unapplied payments left over after settling the oldest charges. */
+  unappliedCredits: string
+  total: string
+  entries: AgingEntry[]
+}
+
+export type AgingReport = {
+  asOf: string
+  projects: ProjectAging[]
+  totals: Record<AgingBucket, string>
+  unappliedCredits: string
+  total: string
+}
+
+const OPEN_INVOICE_STATUSES = new Set<Invoice['status']>(['sent', 'partially_paid'])
+const ISSUED_INVOICE_STATUSES = new Set<Invoice['status']>(['sent', 'partially_paid', 'paid'])
+
+const parseIsoDay = (value: string): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value || '')
+  if (!match) return null
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / 86_400_000
+}
+
+export function getAgingBucket(ageDays: number): AgingBucket {
+  if (ageDays <= 30) return 'days0to30'
+  if (ageDays <= 60) return 'days31to60'
+  if (ageDays <= 90) return 'days61to90'
+  return 'days90plus'
+}
+
+const emptyBucketCents = (): Record<AgingBucket, number> => ({
+  days0to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  days90plus: 0,
+})
+
+const bucketsToMoney = (cents: Record<AgingBucket, number>): Record<AgingBucket, string> => ({
+  days0to30: centsToMoney(cents.days0to30),
+  days31to60: centsToMoney(cents.days31to60),
+  days61to90: centsToMoney(cents.days61to90),
+  days90plus: centsToMoney(cents.days90plus),
+})
+
+/**
+ * Ages what a client owes on one project. Sent invoices age from their issue date by their unpaid
+ * balance; invoiceable charges not yet on a sent invoice age from their transaction date. Uninvoiced
+ * credits and payments not applied to an invoice settle the oldest charges first.
+ *
+ * @param snapshot - Live invoice for the project (see `buildInvoiceSnapshot`)
+ * @param invoices - Saved invoices for the project; drafts and voided invoices are ignored
+ * @param asOf - YYYY-MM-DD date ages are measured to
+ */
+export function buildProjectAging(input: {
+  projectId: string
+  snapshot: InvoiceSnapshot
+  invoices: Invoice[]
+  payments: Payment[]
+  asOf: string
+}): ProjectAging {
+  const { projectId, snapshot, invoices, payments, asOf } = input
+  const asOfDay = parseIsoDay(asOf) ?? 0
+
+  const invoicedTransactionIds = new Set<string>()
+  for (const invoice of invoices) {
+    if (!ISSUED_INVOICE_STATUSES.has(invoice.status)) continue
+    for (const line of [...invoice.snapshot.charges, ...invoice.snapshot.credits]) {
+      invoicedTransactionIds.add(line.transactionId)
+    }
+  }
+
+  const open: Array<Omit<AgingEntry, 'openAmount' | 'ageDays' | 'bucket'> & { cents: number }> = []
+  for (const invoice of invoices) {
+    if (!OPEN_INVOICE_STATUSES.has(invoice.status)) continue
+    const cents = toCents(invoice.totalDue) - toCents(invoice.amountPaid)
+    if (cents <= 0) continue
+    open.push({
+      kind: 'invoice',
+      id: invoice.id,
+      date: invoice.issueDate,
+      description: formatInvoiceNumber(invoice.invoiceNumber),
+      cents,
+    })
+  }
+  for (const line of snapshot.charges) {
+    if (invoicedTransactionIds.has(line.transactionId)) continue
+    const cents = toCents(line.amount)
+    if (cents <= 0) continue
+    open.push({ kind: 'transaction', id: line.transactionId, date: line.transactionDate, description: line.title, cents })
+  }
+
+  let creditCents = snapshot.credits
+    .filter(line => !invoicedTransactionIds.has(line.transactionId))
+    .reduce((sum, line) => sum + toCents(line.amount), 0)
+  for (const payment of payments) {
+    if (payment.invoiceId) continue
+    creditCents += payment.direction === 'client_to_company' ? toCents(payment.amount) : -toCents(payment.amount)
+  }
+
+  open.sort((a, b) => (a.date || '').localeCompare(b.date || ''))
+
+  const bucketCents = emptyBucketCents()
+  const entries: AgingEntry[] = []
+  for (const entry of open) {
+    const applied = creditCents > 0 ? Math.min(creditCents, entry.cents) : 0
+    creditCents -= applied
+    const remaining = entry.cents - applied
+    if (remaining <= 0) continue
+
+    const day = parseIsoDay(entry.date)
+    const ageDays = day === null ? 0 : Math.max(0, Math.round(asOfDay - day))
+    const bucket = getAgingBucket(ageDays)
+    bucketCents[bucket] += remaining
+    entries.push({
+      kind: entry.kind,
+      id: entry.id,
+      date: entry.date,
+      description: entry.description,
+      openAmount: centsToMoney(remaining),
+      ageDays,
+      bucket,
+    })
+  }
+
+  const agedCents = Object.values(bucketCents).reduce((sum, cents) => sum + cents, 0)
+
+  return {
+    projectId,
+    projectName: snapshot.projectName,
+    clientName: snapshot.clientName,
+    buckets: bucketsToMoney(bucketCents),
+    unappliedCredits: centsToMoney(creditCents),
+    total: centsToMoney(agedCents - creditCents),
+    entries,
+  }
+}
+
+/**
+ * Rolls project agings into an account-wide report, dropping projects with nothing outstanding.
+ * Projects are ordered by client, then project name.
+ */
+export function buildAgingReport(projects: ProjectAging[], asOf: string): AgingReport {
+  const totals = emptyBucketCents()
+  let creditCents = 0
+  const outstanding = projects
+    .filter(project => project.entries.length > 0 || toCents(project.unappliedCredits) !== 0)
+    .sort((a, b) =>
+      (a.clientName || '').localeCompare(b.clientName || '') || a.projectName.localeCompare(b.projectName)
+    )
+
+  for (const project of outstanding) {
+    for (const { key } of AGING_BUCKETS) {
+      totals[key] += toCents(project.buckets[key])
+    }
+    creditCents += toCents(project.unappliedCredits)
+  }
+
+  const agedCents = Object.values(totals).reduce((sum, cents) => sum + cents, 0)
+
+  return {
+    asOf,
+    projects: outstanding,
+    totals: bucketsToMoney(totals),
+    unappliedCredits: centsToMoney(creditCents),
+    total: centsToMoney(agedCents - creditCents),
+  }
+}
+
+export function agingReportToCsvRows(report: AgingReport): string[][] {
+  const header = ['Client', 'Project', ...AGING_BUCKETS.map(bucket => `${bucket.label} days`), 'Unapplied Credits', 'Total']
+  const rows = report.projects.map(project => [
+    project.clientName || '',
+    project.projectName,
+    ...AGING_BUCKETS.map(bucket => project.buckets[bucket.key]),
+    project.unappliedCredits,
+    project.total,
+  ])
+  const totals = ['Total', '', ...AGING_BUCKETS.map(bucket => report.totals[bucket.key]), report.unappliedCredits, report.total]
+  return [header, ...rows, totals]
+}
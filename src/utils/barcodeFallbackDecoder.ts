@@ -0,0 +1,84 @@
+// JavaScript barcode decoding for browsers without the Shape Detection API (iOS Safari, Firefox).
+// ZXing is loaded on first use so browsers with a native BarcodeDetector never download it.
+
+export type DecodedBarcode = { rawValue: string }
+
+/** RGBA pixels as returned by `CanvasRenderingContext2D.getImageData`. */
+export type RgbaFrame = { data: Uint8ClampedArray; width: number; height: number }
+
+type ZxingModule = typeof import('@zxing/library')
+type ZxingDecoder = {
+  zxing: ZxingModule
+  hints: Map<number, unknown>
+  readers: Array<InstanceType<ZxingModule['QRCodeReader']> | InstanceType<ZxingModule['MultiFormatOneDReader']>>
+}
+
+let decoderPromise: Promise<ZxingDecoder> | null = null
+
+// The QR and 1D readers are called directly: MultiFormatReader logs a warning for every frame without a code.
+const loadDecoder = () => {
+  if (!decoderPromise) {
+    decoderPromise = import('@zxing/library').then(zxing => {
+      const hints = new Map<number, unknown>([
+        [zxing.DecodeHintType.POSSIBLE_FORMATS, [zxing.BarcodeFormat.EAN_13, zxing.BarcodeFormat.EAN_8, zxing.BarcodeFormat.UPC_A]],
+      ])
+      return { zxing, hints, readers: [new zxing.QRCodeReader(), new zxing.MultiFormatOneDReader(hints)] }
+    })
+  }
+  return decoderPromise
+}
+
+/** Green-weighted grayscale of RGBA pixels, one byte per pixel, which is what ZXing binarizes. */
+export function rgbaToLuminance(rgba: Uint8ClampedArray): Uint8ClampedArray {
+  const luminance = new Uint8ClampedArray(rgba.length / 4)
+  for (let pixel = 0, offset = 0; pixel < luminance.length; pixel++, offset += 4) {
+    luminance[pixel] = (rgba[offset] * 77 + rgba[offset + 1] * 150 + rgba[offset + 2] * 29) >> 8
+  }
+  return luminance
+}
+
+/**
+ * Decodes a QR code, UPC-A, EAN-13 or EAN-8 from one frame. Returns null when the frame has no
+ * readable code (including partial reads that fail the checksum).
+ */
+export async function decodeBarcodeFrame(frame: RgbaFrame): Promise<string | null> {
+  const { zxing, hints, readers } = await loadDecoder()
+  const source = new zxing.RGBLuminanceSource(rgbaToLuminance(frame.data), frame.width, frame.height)
+  const bitmap = new zxing.BinaryBitmap(new zxing.HybridBinarizer(source))
+  for (const reader of readers) {
+    try {
+      return reader.decode(bitmap, hints).getText()
+    } catch (error) {
+      if (
+        !(error instanceof zxing.NotFoundException) &&
+        !(error instanceof zxing.ChecksumException) &&
+        !(error instanceof zxing.FormatException)
+      ) {
+        throw error
+      }
+    } finally {
+      reader.reset()
+    }
+  }
+  return null
+}
+
+/**
+ * Same shape as a native `BarcodeDetector`: grabs the current video frame onto a canvas and decodes it.
+ */
+export function createFallbackBarcodeDetector() {
+  const canvas = document.createElement('canvas')
+
+  return {
+    async detect(video: HTMLVideoElement): Promise<DecodedBarcode[]> {
+      if (!video.videoWidth || !video.videoHeight) return []
+      canvas.width = video.videoWidth
+      canvas.height = video.videoHeight
+      const context = canvas.getContext('2d', { willReadFrequently: true })
+      if (!context) return []
+      context.drawImage(video, 0, 0, canvas.width, canvas.height)
+      const rawValue = await decodeBarcodeFrame(context.getImageData(0, 0, canvas.width, canvas.height))
+      return rawValue ? [{ rawValue }] : []
+    },
+  }
+}
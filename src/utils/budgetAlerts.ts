@@ -0,0 +1,52 @@
+import type { BudgetAlertRule, ProjectBudgetCategories } from '@/types'
+
+/** Thresholds used for projects that haven't configured any rules. */
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS = [80, 100]
+
+export type BudgetThresholdCrossing = {
+  categoryId: string
+  thresholdPercent: number
+  budget: number
+  spent: number
+}
+
+type AlertRule = Pick<BudgetAlertRule, 'categoryId' | 'thresholdPercent'>
+
+/** Identifies one threshold of one category so its notification is only ever created once. */
+export const budgetAlertDedupeKey = (projectId: string, categoryId: string, thresholdPercent: number): string =>
+  `budget-threshold:${projectId}:${categoryId}:${thresholdPercent}`
+
+/**
+ * Thresholds each budgeted category has reached. Category-specific rules and rules for all categories
+ * both apply; with no rules at all, `DEFAULT_BUDGET_ALERT_THRESHOLDS` apply to every category.
+ * Returns every reached threshold — deduping against what has already fired is up to the caller.
+ */
+export function findBudgetThresholdCrossings(
+  budgetCategories: ProjectBudgetCategories | undefined,
+  spentByCategory: Map<string, number>,
+  rules: AlertRule[]
+): BudgetThresholdCrossing[] {
+  const effectiveRules: AlertRule[] = rules.length > 0
+    ? rules
+    : DEFAULT_BUDGET_ALERT_THRESHOLDS.map(thresholdPercent => ({ categoryId: null, thresholdPercent }))
+
+  const crossings: BudgetThresholdCrossing[] = []
+  for (const [categoryId, rawBudget] of Object.entries(budgetCategories || {})) {
+    const budgetCents = Math.round((Number(rawBudget) || 0) * 100)
+    if (budgetCents <= 0) continue
+    const spentCents = Math.round((spentByCategory.get(categoryId) || 0) * 100)
+
+    const thresholds = new Set(
+      effectiveRules
+        .filter(rule => !rule.categoryId || rule.categoryId === categoryId)
+        .map(rule => Number(rule.thresholdPercent))
+    )
+    for (const thresholdPercent of Array.from(thresholds).sort((a, b) => a - b)) {
+      // Compare in cents so e.g. exactly 80.00 of 100.00 counts as reaching 80%.
+      if (spentCents * 100 >= budgetCents * thresholdPercent) {
+        crossings.push({ categoryId, thresholdPercent, budget: budgetCents / 100, spent: spentCents / 100 })
+      }
+    }
+  }
+  return crossings
+}
@@ -0,0 +1,107 @@
+import type { BudgetChangeOrder, ProjectBudgetCategories } from '@/types'
+import { centsToMoney, toCents } from '@/utils/invoiceTextUtils'
+
+type ChangeOrderLike = Pick<BudgetChangeOrder, 'id' | 'categoryId' | 'amount' | 'status' | 'approvedOn' | 'createdAt'>
+
+type ClientChangeOrder = ChangeOrderLike & Pick<BudgetChangeOrder, 'reason' | 'approvedBy'>
+
+export type BudgetRevision<T extends ChangeOrderLike> = {
+  changeOrder: T
+  /** The change order's category budget right after it was applied. */
+  categoryBudgetAfter: string
+  /** Total of all category budgets right after it was applied. */
+  totalBudgetAfter: string
+}
+
+export type BudgetRevisionTimeline<T extends ChangeOrderLike> = {
+  originalBudgetCategories: ProjectBudgetCategories
+  originalTotal: string
+  currentTotal: string
+  /** Approved change orders in the order they were applied. */
+  revisions: BudgetRevision<T>[]
+}
+
+const byApproval = (a: ChangeOrderLike, b: ChangeOrderLike): number =>
+  (a.approvedOn || '').localeCompare(b.approvedOn || '') || a.createdAt.localeCompare(b.createdAt)
+
+/**
+ * Rebuilds a project's budget history from its current category budgets, which already include every
+ * approved change order. Pending and rejected change orders are ignored.
+ */
+export function buildBudgetRevisionTimeline<T extends ChangeOrderLike>(
+  currentBudgetCategories: ProjectBudgetCategories | undefined,
+  changeOrders: T[]
+): BudgetRevisionTimeline<T> {
+  const approved = changeOrders.filter(order => order.status === 'approved').sort(byApproval)
+
+  const categoryCents = new Map<string, number>()
+  for (const [categoryId, amount] of Object.entries(currentBudgetCategories || {})) {
+    categoryCents.set(categoryId, Math.round((Number(amount) || 0) * 100))
+  }
+  for (const order of approved) {
+    categoryCents.set(order.categoryId, (categoryCents.get(order.categoryId) || 0) - toCents(order.amount))
+  }
+
+  const originalBudgetCategories: ProjectBudgetCategories = {}
+  let totalCents = 0
+  for (const [categoryId, cents] of categoryCents) {
+    originalBudgetCategories[categoryId] = cents / 100
+    totalCents += cents
+  }
+  const originalTotal = centsToMoney(totalCents)
+
+  const revisions = approved.map(order => {
+    const deltaCents = toCents(order.amount)
+    const categoryAfter = (categoryCents.get(order.categoryId) || 0) + deltaCents
+    categoryCents.set(order.categoryId, categoryAfter)
+    totalCents += deltaCents
+    return {
+      changeOrder: order,
+      categoryBudgetAfter: centsToMoney(categoryAfter),
+      totalBudgetAfter: centsToMoney(totalCents),
+    }
+  })
+
+  return { originalBudgetCategories, originalTotal, currentTotal: centsToMoney(totalCents), revisions }
+}
+
+/** The revision history as shown to clients in the client summary. */
+export type ClientBudgetRevisions = {
+  originalTotal: string
+  currentTotal: string
+  revisions: Array<{
+    id: string
+    date: string
+    categoryName: string
+    amount: string
+    reason: string
+    approvedBy: string
+    totalBudgetAfter: string
+  }>
+}
+
+/**
+ * Client summary view of the budget history; null while the budget is still the original plan.
+ */
+export function buildClientBudgetRevisions(
+  currentBudgetCategories: ProjectBudgetCategories | undefined,
+  changeOrders: ClientChangeOrder[],
+  categoryNames: Map<string, string>
+): ClientBudgetRevisions | null {
+  const timeline = buildBudgetRevisionTimeline(currentBudgetCategories, changeOrders)
+  if (timeline.revisions.length === 0) return null
+
+  return {
+    originalTotal: timeline.originalTotal,
+    currentTotal: timeline.currentTotal,
+    revisions: timeline.revisions.map(({ changeOrder, totalBudgetAfter }) => ({
+      id: changeOrder.id,
+      date: changeOrder.approvedOn || '',
+      categoryName: categoryNames.get(changeOrder.categoryId) || 'Other',
+      amount: changeOrder.amount,
+      reason: changeOrder.reason,
+      approvedBy: changeOrder.approvedBy || '',
+      totalBudgetAfter,
+    })),
+  }
+}
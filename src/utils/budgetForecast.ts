@@ -0,0 +1,64 @@
+import type { Item, Transaction } from '@/types'
+
+export type CategoryForecast = {
+  /** Completed transactions (returns subtract). */
+  spent: number
+  /** Pending transactions, proposed items and open returns not yet on a transaction. */
+  committed: number
+}
+
+/** Key for amounts without a budget category; these only count toward the overall budget. */
+export const UNCATEGORIZED_FORECAST_KEY = ''
+
+const toAmount = (value?: string | null): number => {
+  const parsed = Number.parseFloat(value || '0')
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+type ForecastTransaction = Pick<Transaction, 'transactionId' | 'categoryId' | 'amount' | 'status' | 'transactionType'>
+
+const signedAmount = (transaction: ForecastTransaction): number =>
+  toAmount(transaction.amount) * (transaction.transactionType === 'Return' ? -1 : 1)
+
+/**
+ * Splits project spending per budget category into what has been spent and what is committed.
+ *
+ * Items only count while their cost isn't already on a transaction: `'to purchase'` items with no
+ * transaction add their project price, and `'to return'` items still on their purchase transaction
+ * subtract what was paid for them. Items without a categorized transaction fall back to
+ * `itemFallbackCategoryId` (the furnishings budget).
+ */
+export function buildBudgetForecast(
+  transactions: ForecastTransaction[],
+  items: Item[],
+  itemFallbackCategoryId?: string | null
+): Map<string, CategoryForecast> {
+  const forecast = new Map<string, CategoryForecast>()
+  const add = (categoryId: string | null | undefined, field: keyof CategoryForecast, amount: number) => {
+    if (amount === 0) return
+    const key = categoryId || UNCATEGORIZED_FORECAST_KEY
+    const entry = forecast.get(key) ?? { spent: 0, committed: 0 }
+    entry[field] += amount
+    forecast.set(key, entry)
+  }
+
+  const activeTransactions = new Map<string, ForecastTransaction>()
+  for (const transaction of transactions) {
+    if ((transaction.status || '').toLowerCase() === 'canceled') continue
+    activeTransactions.set(transaction.transactionId, transaction)
+    add(transaction.categoryId, transaction.status === 'pending' ? 'committed' : 'spent', signedAmount(transaction))
+  }
+
+  for (const item of items) {
+    const transaction = item.transactionId ? activeTransactions.get(item.transactionId) : undefined
+    const categoryId = transaction?.categoryId || itemFallbackCategoryId
+
+    if (item.disposition === 'to purchase' && !transaction) {
+      add(categoryId, 'committed', toAmount(item.projectPrice))
+    } else if (item.disposition === 'to return' && transaction && transaction.transactionType !== 'Return') {
+      add(categoryId, 'committed', -toAmount(item.purchasePrice || item.projectPrice))
+    }
+  }
+
+  return forecast
+}
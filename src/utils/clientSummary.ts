@@ -0,0 +1,61 @@
+import type { Item, Transaction } from '@/types'
+
+export type ClientSummaryTotals = {
+  /** Sum of item project prices. */
+  totalSpent: number
+  /** Project prices summed by the budget category of each item's transaction. */
+  categoryBreakdown: Record<string, number>
+  totalMarketValue: number
+  /** Market value minus project price, counted only for items with a market value. */
+  totalSaved: number
+}
+
+export type ClientSummaryItem = Pick<Item, 'projectPrice' | 'marketValue' | 'transactionId'>
+
+function toNumber(value: string | number | null | undefined): number {
+  if (typeof value === 'number') return isNaN(value) ? 0 : value
+  if (typeof value === 'string') {
+    const n = parseFloat(value || '0')
+    return isNaN(n) ? 0 : n
+  }
+  return 0
+}
+
+/**
+ * Totals shown on the client summary, shared by the summary page, its PDF and the client portal.
+ * @param categoryNames - Budget category id -> name
+ */
+export function buildClientSummaryTotals(
+  items: ClientSummaryItem[],
+  transactions: Array<Pick<Transaction, 'transactionId' | 'categoryId'>>,
+  categoryNames: Map<string, string>
+): ClientSummaryTotals {
+  const totalSpent = items.reduce((sum, item) => sum + toNumber(item.projectPrice), 0)
+
+  const transactionCategoryMap = new Map<string, string>()
+  transactions.forEach(transaction => {
+    if (transaction.categoryId && transaction.transactionId) {
+      const categoryName = categoryNames.get(transaction.categoryId)
+      if (categoryName) {
+        transactionCategoryMap.set(transaction.transactionId, categoryName)
+      }
+    }
+  })
+
+  const categoryBreakdown: Record<string, number> = {}
+  items.forEach(item => {
+    const categoryName = item.transactionId ? transactionCategoryMap.get(item.transactionId) : undefined
+    if (categoryName) {
+      categoryBreakdown[categoryName] = (categoryBreakdown[categoryName] || 0) + toNumber(item.projectPrice)
+    }
+  })
+
+  const totalMarketValue = items.reduce((sum, item) => sum + toNumber(item.marketValue), 0)
+
+  const totalSaved = items.reduce((sum, item) => {
+    const marketValue = toNumber(item.marketValue)
+    return marketValue > 0 ? sum + (marketValue - toNumber(item.projectPrice)) : sum
+  }, 0)
+
+  return { totalSpent, categoryBreakdown, totalMarketValue, totalSaved }
+}
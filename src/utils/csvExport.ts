@@ -0,0 +1,27 @@
+const escapeCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+/**
+ * Serializes rows to RFC 4180 CSV (CRLF line endings, quoted only where needed).
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows
+    .map(row => row.map(cell => escapeCsvCell(cell === null || cell === undefined ? '' : String(cell))).join(','))
+    .join('\r\n')
+}
+
+export function downloadTextFile(fileName: string, text: string, mimeType = 'text/csv;charset=utf-8'): void {
+  downloadFile(fileName, text, mimeType)
+}
+
+export function downloadFile(fileName: string, data: BlobPart, mimeType: string): void {
+  const blob = new Blob([data], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+}
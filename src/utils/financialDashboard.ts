@@ -0,0 +1,142 @@
+import type { Item, Payment, Project, Transaction } from '@/types'
+import { buildBudgetForecast, UNCATEGORIZED_FORECAST_KEY } from '@/utils/budgetForecast'
+import { dispositionsEqual } from '@/utils/dispositionUtils'
+import { centsToMoney, toCents } from '@/utils/invoiceTextUtils'
+import { computeProjectBalance } from '@/utils/projectBalance'
+
+/** Inclusive YYYY-MM-DD bounds; either side may be left open. */
+export type DashboardDateRange = { from?: string; to?: string }
+
+export type ProjectFinancialSummary = {
+  projectId: string
+  projectName: string
+  clientName?: string
+  /** Sum of the category budgets, excluding the design fee. */
+  budget: string
+  /** Completed spending in the range, excluding design fee payments. */
+  spent: string
+  designFee: string
+  designFeeEarned: string
+  /**
+   * What the client still owes the company on the project ledger: Client Owes Company transactions
+   * less Company Owes Client transactions and payments, when that balance is positive.
+   */
+  owedToCompany: string
+  /** What the company still owes the client on the project ledger, when the balance is negative. */
+  owedToClient: string
+  itemsToReturnCount: number
+  /** What was paid for the items still waiting to go back. */
+  itemsToReturnValue: string
+}
+
+export type FinancialDashboard = {
+  projects: ProjectFinancialSummary[]
+  totals: Omit<ProjectFinancialSummary, 'projectId' | 'projectName' | 'clientName'>
+  businessInventory: { itemCount: number; value: string }
+}
+
+export type FinancialDashboardSource = {
+  projects: Project[]
+  transactions: Transaction[]
+  /** Payments recorded against the projects, in either direction. */
+  payments: Payment[]
+  /** Items allocated to the projects. */
+  items: Item[]
+  /** Items not allocated to any project. */
+  businessInventoryItems: Item[]
+  categories: Array<{ id: string; name: string }>
+}
+
+const MONEY_FIELDS = ['budget', 'spent', 'designFee', 'designFeeEarned', 'owedToCompany', 'owedToClient', 'itemsToReturnValue'] as const
+
+export const isDesignFeeCategoryName = (name: string): boolean => {
+  const lower = name.toLowerCase()
+  return lower.includes('design') && lower.includes('fee')
+}
+
+const itemCostCents = (item: Item): number => toCents(item.purchasePrice || item.price || '0')
+
+export const isWithinDashboardRange = (date: string | undefined, range: DashboardDateRange): boolean => {
+  const day = (date || '').slice(0, 10)
+  if (range.from && (!day || day < range.from)) return false
+  if (range.to && (!day || day > range.to)) return false
+  return true
+}
+
+/**
+ * Rolls budgets, spending, reimbursements and returns up across projects.
+ *
+ * The date range applies to transactions (by transaction date) and payments (by payment date). When a
+ * range is set, only projects with a transaction in it are listed; budgets, pending returns and
+ * business inventory are current values either way. Reimbursements net transactions against payments
+ * exactly like the project ledger (`computeProjectBalance`).
+ */
+export function buildFinancialDashboard(source: FinancialDashboardSource, range: DashboardDateRange = {}): FinancialDashboard {
+  const designFeeCategoryIds = new Set(
+    source.categories.filter(category => isDesignFeeCategoryName(category.name)).map(category => category.id)
+  )
+  const hasRange = Boolean(range.from || range.to)
+
+  const projects: ProjectFinancialSummary[] = []
+  for (const project of source.projects) {
+    const transactions = source.transactions.filter(
+      t => t.projectId === project.id && isWithinDashboardRange(t.transactionDate, range)
+    )
+    if (hasRange && transactions.length === 0) continue
+
+    let budgetCents = 0
+    for (const [categoryId, amount] of Object.entries(project.budgetCategories || {})) {
+      if (!designFeeCategoryIds.has(categoryId)) budgetCents += toCents(String(amount || 0))
+    }
+
+    let spentCents = 0
+    let designFeeEarnedCents = 0
+    buildBudgetForecast(transactions, []).forEach((amounts, categoryId) => {
+      const cents = toCents(String(amounts.spent))
+      if (categoryId !== UNCATEGORIZED_FORECAST_KEY && designFeeCategoryIds.has(categoryId)) {
+        designFeeEarnedCents += cents
+      } else {
+        spentCents += cents
+      }
+    })
+
+    const payments = source.payments.filter(
+      p => p.projectId === project.id && isWithinDashboardRange(p.paymentDate, range)
+    )
+    const outstandingCents = toCents(computeProjectBalance(transactions, payments).outstandingBalance)
+    const itemsToReturn = source.items.filter(
+      item => item.projectId === project.id && dispositionsEqual(item.disposition, 'to return')
+    )
+
+    projects.push({
+      projectId: project.id,
+      projectName: project.name,
+      clientName: project.clientName,
+      budget: centsToMoney(budgetCents),
+      spent: centsToMoney(spentCents),
+      designFee: centsToMoney(toCents(String(project.designFee || 0))),
+      designFeeEarned: centsToMoney(designFeeEarnedCents),
+      owedToCompany: centsToMoney(Math.max(outstandingCents, 0)),
+      owedToClient: centsToMoney(Math.max(-outstandingCents, 0)),
+      itemsToReturnCount: itemsToReturn.length,
+      itemsToReturnValue: centsToMoney(itemsToReturn.reduce((sum, item) => sum + itemCostCents(item), 0)),
+    })
+  }
+
+  const totals = { itemsToReturnCount: 0 } as FinancialDashboard['totals']
+  for (const field of MONEY_FIELDS) {
+    totals[field] = centsToMoney(projects.reduce((sum, project) => sum + toCents(project[field]), 0))
+  }
+  totals.itemsToReturnCount = projects.reduce((sum, project) => sum + project.itemsToReturnCount, 0)
+
+  const inventory = source.businessInventoryItems.filter(item => !item.projectId && item.inventoryStatus !== 'sold')
+
+  return {
+    projects,
+    totals,
+    businessInventory: {
+      itemCount: inventory.length,
+      value: centsToMoney(inventory.reduce((sum, item) => sum + itemCostCents(item), 0)),
+    },
+  }
+}
@@ -0,0 +1,307 @@
+import { normalizeMoneyToTwoDecimalString } from '@/utils/money'
+import {
+  absMoneyString,
+  allocateCents,
+  centsToMoney,
+  extractFirstMatch,
+  extractMoneyTokens,
+  normalizeLines,
+  parseDateToIso,
+  toCents,
+} from '@/utils/invoiceTextUtils'
+
+export type HomeImprovementRetailer = 'Home Depot' | 'Lowes'
+
+export type HomeImprovementReceiptLineItem = {
+  description: string
+  sku?: string // Home Depot store SKU / Lowe's item number
+  modelNumber?: string
+  qty: number
+  unitPrice: string
+  subtotal: string // unitPrice * qty
+  adjustment?: string // line savings/markdowns, stored as a positive amount
+  tax?: string
+  /** True when `tax` is the line's share of the receipt tax rather than a printed per-line amount. */
+  taxAllocated?: boolean
+  total: string
+}
+
+export type HomeImprovementReceiptParseResult = {
+  retailer: HomeImprovementRetailer
+  receiptNumber?: string
+  storeNumber?: string
+  orderDate?: string // YYYY-MM-DD
+  subtotal?: string
+  discountsTotal?: string // negative, e.g. "-4.00"
+  taxTotal?: string
+  orderTotal?: string
+  calculatedSubtotal?: string // order total - tax total
+  lineItems: HomeImprovementReceiptLineItem[]
+  warnings: string[]
+}
+
+const DESCRIPTION_BUFFER_LIMIT = 3
+
+const MODEL_REGEX = /\bModel\s*(?:#|No\.?|Number)?\s*:?\s*([A-Z0-9][A-Z0-9\-./]{1,})/i
+const SKU_REGEX = /\b(?:(?:Store\s*)?SKU|Item)\s*(?:#|No\.?|Number)?\s*:?\s*(\d{4,12})\b/i
+const TABLE_HEADER_REGEX = /\b(?:Item|Description|Product)\b.*\b(?:Qty|Quantity)\b/i
+const ITEMS_END_REGEX = /^(?:SUB\s*-?\s*TOTAL|Merchandise\s+Subtotal|Order\s+Summary)\b/i
+const LINE_TAX_REGEX = /^(?:Sales\s+)?Tax\b[^$\d]*(\(?-?\$?\s*[\d,]+\.\d{2}\)?)$/i
+const LINE_SAVINGS_REGEX = /^(?:Savings|You\s+Saved|Discount|Instant\s+Savings|Markdown|Pro\s*Xtra[^$\d]*|MyLowe'?s[^$\d]*|Promo(?:tion)?)\b[^$\d]*(\(?-?\$?\s*[\d,]+\.\d{2}\)?)$/i
+const POS_LINE_REGEX = /^(\d{6,12})\s+(.+?)\s+(-?\$?[\d,]+\.\d{2})(?:\s+[A-Z<>]{1,3})?$/
+const POS_QTY_REGEX = /^(\d{1,4})\s*@\s*\$?([\d,]+\.\d{2})/
+const HEADER_LINE_REGEX = /\b(?:Order|Receipt|Invoice|Transaction)\s*(?:Number|No\.?|#|ID)\b|\bStore\s*(?:#|No\.?)|\bDate\b|\bPhone\b|\bCashier\b|\bRegister\b/i
+
+function parseQtyMoneyRow(line: string): { qty: number; unitPrice: string; tax?: string; total: string } | undefined {
+  const money = extractMoneyTokens(line)
+  if (money.length < 2) return undefined
+
+  const qtyMatch =
+    line.match(/\b(?:Qty|Quantity)\s*:?\s*(\d{1,4})\b/i) ||
+    line.match(/^(\d{1,4})\s*(?:@|x|ea\.?)?\s+\$?\s*[\d,]+\.\d{2}/i)
+  if (!qtyMatch) return undefined
+
+  const qty = Number(qtyMatch[1])
+  if (!Number.isFinite(qty) || qty <= 0) return undefined
+
+  const unitPrice = money[0]
+  const total = money[money.length - 1]
+
+  // Some e-receipts print a per-line tax column between price and total. Only trust it when the arithmetic agrees.
+  let tax: string | undefined
+  if (money.length >= 3) {
+    const candidateTax = money[money.length - 2]
+    const expected = toCents(unitPrice) * qty + toCents(candidateTax)
+    if (Math.abs(expected - toCents(total)) <= 1) {
+      tax = candidateTax
+    }
+  }
+
+  return { qty, unitPrice, tax, total }
+}
+
+/**
+ * Parses Home Depot and Lowe's e-receipts (online order receipts and emailed in-store receipts).
+ *
+ * Both retailers print a description, then SKU/model identifiers, then a quantity/price row, with
+ * optional per-line savings and tax rows beneath. In-store receipts instead lead each row with the SKU
+ * and put multi-quantity pricing ("2@5.98") on the following line.
+ */
+export function parseHomeImprovementReceiptText(
+  fullText: string,
+  retailer: HomeImprovementRetailer
+): HomeImprovementReceiptParseResult {
+  const warnings: string[] = []
+
+  const receiptNumber =
+    extractFirstMatch(fullText, /\b(?:Order|Receipt|Invoice)\s*(?:Number|No\.?|#)\s*:?\s*#?\s*([A-Z]{0,2}\d[\dA-Z-]{5,})\b/i) ||
+    extractFirstMatch(fullText, /\bTransaction\s*(?:Number|No\.?|#|ID)\s*:?\s*#?\s*([A-Z]{0,2}\d[\dA-Z-]{5,})\b/i)
+  const storeNumber = extractFirstMatch(fullText, /\bStore\s*(?:#|No\.?|Number)\s*:?\s*(\d{3,5})\b/i)
+
+  const orderDateRaw =
+    extractFirstMatch(fullText, /\b(?:Order|Purchase|Transaction)\s*Date\s*:?\s*([^\n\r]+)/i) ||
+    extractFirstMatch(fullText, /\b(\d{1,2}\/\d{1,2}\/\d{2,4})\b/)
+  const orderDate = orderDateRaw ? parseDateToIso(orderDateRaw) : undefined
+
+  const lines = normalizeLines(fullText)
+
+  const lineItems: HomeImprovementReceiptLineItem[] = []
+  let descriptionBuffer: string[] = []
+  let pendingSku: string | undefined
+  let pendingModel: string | undefined
+  let lastItem: HomeImprovementReceiptLineItem | undefined
+  let inItemsArea = true
+
+  let subtotalRaw: string | undefined
+  let taxTotalRaw: string | undefined
+  let orderTotalRaw: string | undefined
+  let lineSavingsCents = 0
+  let receiptSavingsCents = 0
+
+  const pushItem = (item: Omit<HomeImprovementReceiptLineItem, 'subtotal'>) => {
+    const created: HomeImprovementReceiptLineItem = {
+      ...item,
+      subtotal: centsToMoney(toCents(item.unitPrice) * item.qty),
+    }
+    lineItems.push(created)
+    lastItem = created
+    descriptionBuffer = []
+    pendingSku = undefined
+    pendingModel = undefined
+  }
+
+  for (const line of lines) {
+    if (!inItemsArea) {
+      const money = extractMoneyTokens(line)[0]
+      if (!money) continue
+      if (/^(?:Sales\s+)?Tax\b/i.test(line) && !taxTotalRaw) taxTotalRaw = money
+      else if (/^(?:Total\s+)?(?:Savings|You\s+Saved|Discounts?)\b/i.test(line)) receiptSavingsCents += Math.abs(toCents(money))
+      else if (/^(?:Order\s+|Grand\s+)?Total\b/i.test(line) && !orderTotalRaw) orderTotalRaw = money
+      continue
+    }
+
+    if (ITEMS_END_REGEX.test(line)) {
+      subtotalRaw = extractMoneyTokens(line)[0]
+      inItemsArea = false
+      continue
+    }
+
+    if (TABLE_HEADER_REGEX.test(line) && extractMoneyTokens(line).length === 0) {
+      descriptionBuffer = []
+      continue
+    }
+
+    const pos = line.match(POS_LINE_REGEX)
+    if (pos && !MODEL_REGEX.test(line)) {
+      const total = normalizeMoneyToTwoDecimalString(pos[3]) || '0.00'
+      const description = pos[2].replace(/<[A-Z]>/g, '').trim()
+      pushItem({ description, sku: pos[1], qty: 1, unitPrice: total, total })
+      continue
+    }
+
+    const posQty = line.match(POS_QTY_REGEX)
+    if (posQty && lastItem && extractMoneyTokens(line).length <= 1) {
+      lastItem.qty = Number(posQty[1])
+      lastItem.unitPrice = normalizeMoneyToTwoDecimalString(posQty[2]) || lastItem.unitPrice
+      lastItem.subtotal = centsToMoney(toCents(lastItem.unitPrice) * lastItem.qty)
+      continue
+    }
+
+    const lineTax = line.match(LINE_TAX_REGEX)
+    if (lineTax && lastItem && descriptionBuffer.length === 0) {
+      lastItem.tax = absMoneyString(normalizeMoneyToTwoDecimalString(lineTax[1]))
+      continue
+    }
+
+    const savings = line.match(LINE_SAVINGS_REGEX)
+    if (savings && lastItem && descriptionBuffer.length === 0) {
+      const amountCents = Math.abs(toCents(savings[1]))
+      lastItem.adjustment = centsToMoney(toCents(lastItem.adjustment) + amountCents)
+      lineSavingsCents += amountCents
+      continue
+    }
+
+    const model = line.match(MODEL_REGEX)?.[1]
+    const sku = line.match(SKU_REGEX)?.[1]
+    if (model || sku) {
+      const remainder = line
+        .replace(MODEL_REGEX, '')
+        .replace(SKU_REGEX, '')
+        .replace(/[|•]/g, ' ')
+        .trim()
+      const identifiersBelongToLastItem = descriptionBuffer.length === 0 && !!lastItem && !lastItem.sku && !lastItem.modelNumber
+      if (identifiersBelongToLastItem && lastItem) {
+        if (sku) lastItem.sku = sku
+        if (model) lastItem.modelNumber = model
+      } else {
+        if (sku) pendingSku = sku
+        if (model) pendingModel = model
+      }
+      if (remainder && extractMoneyTokens(remainder).length === 0) {
+        descriptionBuffer.push(remainder)
+      }
+      if (extractMoneyTokens(remainder).length === 0) continue
+    }
+
+    const row = parseQtyMoneyRow(line)
+    if (row) {
+      const inlineDescription = line
+        .replace(/\b(?:Qty|Quantity)\s*:?\s*\d{1,4}\b/i, '')
+        .replace(/(?:\(\s*\$?\s*[\d,]+\.\d{2}\s*\)|-?\$?\s*[\d,]+\.\d{2}).*$/, '')
+        .replace(/^\d{1,4}\s*(?:@|x|ea\.?)?\s*$/i, '')
+        .trim()
+      const description = [...descriptionBuffer, inlineDescription].filter(Boolean).join(' ').trim()
+      if (!description) {
+        warnings.push(`Found a price row without a description ("${line}"); it was skipped.`)
+        continue
+      }
+      pushItem({
+        description,
+        sku: pendingSku,
+        modelNumber: pendingModel,
+        qty: row.qty,
+        unitPrice: row.unitPrice,
+        tax: row.tax,
+        total: row.total,
+      })
+      continue
+    }
+
+    if (extractMoneyTokens(line).length > 0) continue
+
+    if (HEADER_LINE_REGEX.test(line)) {
+      descriptionBuffer = []
+      continue
+    }
+
+    descriptionBuffer.push(line)
+    if (descriptionBuffer.length > DESCRIPTION_BUFFER_LIMIT) descriptionBuffer.shift()
+    lastItem = undefined
+  }
+
+  const subtotal = subtotalRaw ? normalizeMoneyToTwoDecimalString(subtotalRaw) : undefined
+  const taxTotal = taxTotalRaw ? normalizeMoneyToTwoDecimalString(taxTotalRaw) : undefined
+  const orderTotal = orderTotalRaw ? normalizeMoneyToTwoDecimalString(orderTotalRaw) : undefined
+  // Receipts often repeat the per-line savings as a "Total Savings" summary; don't count them twice.
+  const discountsCents = lineSavingsCents > 0 ? lineSavingsCents : receiptSavingsCents
+  const discountsTotal = discountsCents > 0 ? centsToMoney(-discountsCents) : undefined
+
+  let calculatedSubtotal: string | undefined
+  if (orderTotal && taxTotal) {
+    calculatedSubtotal = centsToMoney(toCents(orderTotal) - toCents(taxTotal))
+  }
+
+  const hasPrintedLineTax = lineItems.some(li => li.tax !== undefined)
+  if (taxTotal && !hasPrintedLineTax && lineItems.length > 0) {
+    const netCents = lineItems.map(li => toCents(li.subtotal) - toCents(li.adjustment))
+    const shares = allocateCents(toCents(taxTotal), netCents)
+    lineItems.forEach((li, idx) => {
+      li.tax = centsToMoney(shares[idx])
+      li.taxAllocated = true
+    })
+  } else if (taxTotal && hasPrintedLineTax) {
+    const lineTaxCents = lineItems.reduce((sum, li) => sum + toCents(li.tax), 0)
+    if (Math.abs(lineTaxCents - toCents(taxTotal)) > 5) {
+      warnings.push(`Per-line tax ($${centsToMoney(lineTaxCents)}) does not match receipt tax ($${taxTotal}).`)
+    }
+  }
+
+  for (const li of lineItems) {
+    li.total = centsToMoney(toCents(li.subtotal) - toCents(li.adjustment) + toCents(li.tax))
+  }
+
+  if (!receiptNumber) warnings.push(`Could not confidently find a ${retailer} receipt or order number.`)
+  if (!orderDate) warnings.push('Could not confidently find a purchase date; defaulting to today is recommended.')
+  if (!orderTotal) warnings.push('Could not confidently find a receipt total; totals reconciliation will be limited.')
+
+  if (lineItems.length === 0) {
+    warnings.push('No line items were detected. The PDF may be image-based or the template changed.')
+  } else {
+    const missingSkuCount = lineItems.filter(li => !li.sku && !li.modelNumber).length
+    if (missingSkuCount > 0) {
+      warnings.push(`${missingSkuCount} line item(s) have no SKU or model number.`)
+    }
+  }
+
+  if (orderTotal && lineItems.length > 0) {
+    const sumLineTotalsCents = lineItems.reduce((sum, li) => sum + toCents(li.total), 0)
+    const diffCents = Math.abs(sumLineTotalsCents - toCents(orderTotal))
+    if (diffCents > 5) {
+      warnings.push(`Line totals ($${centsToMoney(sumLineTotalsCents)}) do not match receipt total ($${orderTotal}). Difference: $${centsToMoney(diffCents)}.`)
+    }
+  }
+
+  return {
+    retailer,
+    receiptNumber,
+    storeNumber,
+    orderDate,
+    subtotal,
+    discountsTotal,
+    taxTotal,
+    orderTotal,
+    calculatedSubtotal,
+    lineItems,
+    warnings,
+  }
+}
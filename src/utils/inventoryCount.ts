@@ -0,0 +1,92 @@
+import type {
+  InventoryCountDiscrepancy,
+  InventoryCountEntry,
+  InventoryCountResolution,
+  Item,
+  WarehouseLocation,
+} from '@/types'
+import { getDescendantIds } from '@/utils/warehouseLocations'
+
+export const COUNT_DISCREPANCY_LABELS: Record<InventoryCountDiscrepancy, string> = {
+  missing: 'Missing',
+  unexpected: 'Unexpected',
+  mislocated: 'Wrong location',
+}
+
+export const COUNT_RESOLUTION_LABELS: Record<InventoryCountResolution, string> = {
+  none: 'Record only',
+  relocate: 'Move to counted location',
+  clear_location: 'Clear location',
+}
+
+export type CountDiscrepancyRow = {
+  item: Item
+  discrepancy: InventoryCountDiscrepancy
+  expectedLocationId: string | null
+  countedLocationId: string | null
+  /** Resolutions that make sense for this row; the first is the suggested default. */
+  resolutions: InventoryCountResolution[]
+}
+
+export type CountReconciliation = {
+  /** Business inventory items the session's scope says should be on the shelves. */
+  expected: Item[]
+  /** Counted items that were expected and found where business inventory says they are. */
+  matched: Item[]
+  discrepancies: CountDiscrepancyRow[]
+}
+
+/**
+ * Compares a count session's entries with business inventory.
+ *
+ * - missing: expected in scope but never counted
+ * - unexpected: counted but not expected in scope (stored elsewhere, no location, or allocated to a project)
+ * - mislocated: expected and counted, but found at a different location than recorded
+ *
+ * `items` must include business inventory and every counted item, so allocated items that turn up on a
+ * shelf can still be reported.
+ */
+export function reconcileCount(
+  items: Item[],
+  entries: InventoryCountEntry[],
+  locations: WarehouseLocation[],
+  scopeLocationId: string | null
+): CountReconciliation {
+  const scopeIds = scopeLocationId ? getDescendantIds(locations, scopeLocationId) : null
+  const inScope = (item: Item) =>
+    !item.projectId && (!scopeIds || Boolean(item.warehouseLocationId && scopeIds.has(item.warehouseLocationId)))
+
+  const itemsById = new Map(items.map(item => [item.itemId, item]))
+  const entriesByItemId = new Map(entries.map(entry => [entry.itemId, entry]))
+  const expected = items.filter(inScope)
+  const matched: Item[] = []
+  const discrepancies: CountDiscrepancyRow[] = []
+
+  for (const item of expected) {
+    const entry = entriesByItemId.get(item.itemId)
+    const expectedLocationId = item.warehouseLocationId ?? null
+    if (!entry) {
+      discrepancies.push({ item, discrepancy: 'missing', expectedLocationId, countedLocationId: null, resolutions: ['none', 'clear_location'] })
+    } else if (entry.countedLocationId && entry.countedLocationId !== expectedLocationId) {
+      discrepancies.push({ item, discrepancy: 'mislocated', expectedLocationId, countedLocationId: entry.countedLocationId, resolutions: ['relocate', 'none'] })
+    } else {
+      matched.push(item)
+    }
+  }
+
+  for (const entry of entries) {
+    const item = itemsById.get(entry.itemId)
+    if (!item || inScope(item)) continue
+    // Allocated items belong to a project; moving them here would hide that, so only record them.
+    const resolutions: InventoryCountResolution[] = !item.projectId && entry.countedLocationId ? ['relocate', 'none'] : ['none']
+    discrepancies.push({
+      item,
+      discrepancy: 'unexpected',
+      expectedLocationId: item.warehouseLocationId ?? null,
+      countedLocationId: entry.countedLocationId,
+      resolutions,
+    })
+  }
+
+  return { expected, matched, discrepancies }
+}
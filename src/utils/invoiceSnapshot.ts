@@ -0,0 +1,82 @@
+import type { InvoiceSnapshot, InvoiceSnapshotLine, Item, Project, Transaction } from '@/types'
+import {
+  COMPANY_INVENTORY_SALE,
+  COMPANY_INVENTORY_PURCHASE,
+  CLIENT_OWES_COMPANY,
+  COMPANY_OWES_CLIENT,
+} from '@/constants/company'
+import { centsToMoney, toCents } from '@/utils/invoiceTextUtils'
+import { formatPhysicalDetails } from '@/utils/itemPhysicalDetails'
+
+export const getCanonicalTransactionTitle = (transaction: Pick<Transaction, 'transactionId' | 'source'>): string => {
+  if (transaction.transactionId?.startsWith('INV_SALE_')) return COMPANY_INVENTORY_SALE
+  if (transaction.transactionId?.startsWith('INV_PURCHASE_')) return COMPANY_INVENTORY_PURCHASE
+  return transaction.source
+}
+
+export const formatInvoiceNumber = (invoiceNumber: number): string => `INV-${String(invoiceNumber).padStart(4, '0')}`
+
+const byTransactionDate = (a: InvoiceSnapshotLine, b: InvoiceSnapshotLine) =>
+  (a.transactionDate || '').localeCompare(b.transactionDate || '')
+
+function buildLine(transaction: Transaction, items: Item[]): InvoiceSnapshotLine {
+  const txItems = items.filter(item => item.transactionId === transaction.transactionId)
+  const itemLines = txItems.map(item => {
+    const hasPrice = !!item.projectPrice && String(item.projectPrice).trim() !== ''
+    return {
+      itemId: item.itemId,
+      description: item.description || 'Item',
+      sku: item.sku || undefined,
+      amount: centsToMoney(hasPrice ? toCents(item.projectPrice) : 0),
+      missingPrice: !hasPrice,
+      imageUrl: item.images?.find(img => img.isPrimary)?.url || item.images?.[0]?.url || undefined,
+      physicalDetails: formatPhysicalDetails(item) || undefined,
+    }
+  })
+
+  const amountCents = itemLines.length > 0
+    ? itemLines.reduce((sum, line) => sum + toCents(line.amount), 0)
+    : toCents(transaction.amount)
+
+  return {
+    transactionId: transaction.transactionId,
+    title: getCanonicalTransactionTitle(transaction),
+    transactionDate: transaction.transactionDate,
+    notes: transaction.notes || undefined,
+    amount: centsToMoney(amountCents),
+    items: itemLines,
+  }
+}
+
+/**
+ * Builds the invoice for a project from its reimbursable transactions. The live invoice page renders
+ * this directly; saved invoices store it as-is so later edits to items/transactions don't change them.
+ */
+export function buildInvoiceSnapshot(
+  project: Pick<Project, 'name' | 'clientName'> | null | undefined,
+  transactions: Transaction[],
+  items: Item[]
+): InvoiceSnapshot {
+  const invoiceable = transactions.filter(t => t.status !== 'canceled')
+  const charges = invoiceable
+    .filter(t => t.reimbursementType === CLIENT_OWES_COMPANY)
+    .map(t => buildLine(t, items))
+    .sort(byTransactionDate)
+  const credits = invoiceable
+    .filter(t => t.reimbursementType === COMPANY_OWES_CLIENT)
+    .map(t => buildLine(t, items))
+    .sort(byTransactionDate)
+
+  const chargesCents = charges.reduce((sum, line) => sum + toCents(line.amount), 0)
+  const creditsCents = credits.reduce((sum, line) => sum + toCents(line.amount), 0)
+
+  return {
+    projectName: project?.name || 'Project',
+    clientName: project?.clientName || undefined,
+    charges,
+    credits,
+    chargesTotal: centsToMoney(chargesCents),
+    creditsTotal: centsToMoney(creditsCents),
+    totalDue: centsToMoney(chargesCents - creditsCents),
+  }
+}
@@ -0,0 +1,129 @@
+import { normalizeMoneyToTwoDecimalString, parseMoneyToNumber } from '@/utils/money'
+
+// Text helpers shared by the vendor invoice parsers (input is text produced by `extractPdfText`).
+
+function toIsoDate(date: Date): string {
+  const yyyy = date.getFullYear()
+  const mm = String(date.getMonth() + 1).padStart(2, '0')
+  const dd = String(date.getDate()).padStart(2, '0')
+  return `${yyyy}-${mm}-${dd}`
+}
+
+export function parseDateToIso(input: string): string | undefined {
+  const s = input.trim()
+  if (!s) return undefined
+
+  // 0) YYYY-MM-DD (spreadsheet exports). Date.parse would treat this as UTC and shift the day.
+  const iso = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/)
+  if (iso) {
+    const month = Number(iso[2])
+    const day = Number(iso[3])
+    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+      return toIsoDate(new Date(Number(iso[1]), month - 1, day))
+    }
+  }
+
+  // 1) MM/DD/YYYY
+  const mdy = s.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/)
+  if (mdy) {
+    const month = Number(mdy[1])
+    const day = Number(mdy[2])
+    const year = Number(mdy[3])
+    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+      const d = new Date(Date.UTC(year, month - 1, day))
+      return toIsoDate(new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()))
+    }
+  }
+
+  // 1b) MM/DD/YY (store receipts print two-digit years)
+  const mdyShort = s.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{2})\b/)
+  if (mdyShort) {
+    const month = Number(mdyShort[1])
+    const day = Number(mdyShort[2])
+    const year = 2000 + Number(mdyShort[3])
+    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+      return toIsoDate(new Date(year, month - 1, day))
+    }
+  }
+
+  // 2) Month DD, YYYY (e.g., Dec 1, 2024)
+  const monthName = s.match(/\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\s+(\d{1,2}),\s*(\d{4})\b/i)
+  if (monthName) {
+    const monthKey = monthName[1].toLowerCase().slice(0, 3)
+    const monthIndex: Record<string, number> = {
+      jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+      jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
+    }
+    const month = monthIndex[monthKey]
+    const day = Number(monthName[2])
+    const year = Number(monthName[3])
+    if (month !== undefined && day >= 1 && day <= 31) {
+      const d = new Date(year, month, day)
+      return toIsoDate(d)
+    }
+  }
+
+  // 3) Fallback to Date.parse
+  const parsed = Date.parse(s)
+  if (Number.isFinite(parsed)) {
+    return toIsoDate(new Date(parsed))
+  }
+
+  return undefined
+}
+
+export function extractFirstMatch(text: string, regex: RegExp): string | undefined {
+  const m = text.match(regex)
+  return m?.[1]?.trim() || undefined
+}
+
+export function normalizeLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(l => l.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+}
+
+export function extractMoneyTokens(line: string): string[] {
+  // Capture tokens like "$12.34", "-$12.34", "(12.34)", "($12.34)"
+  // Note: normalizeMoneyToTwoDecimalString will interpret parentheses as negative.
+  return (line.match(/(?:\(\s*\$?\s*[\d,]+\.\d{2}\s*\)|-?\$?\s*[\d,]+\.\d{2})/g) || [])
+    .map(t => normalizeMoneyToTwoDecimalString(t) || '')
+    .filter(Boolean)
+}
+
+export function absMoneyString(input: string | undefined): string | undefined {
+  if (!input) return undefined
+  const n = parseMoneyToNumber(input)
+  if (n === undefined) return undefined
+  return Math.abs(n).toFixed(2)
+}
+
+export function toCents(value: string | undefined): number {
+  return Math.round((parseMoneyToNumber(value) || 0) * 100)
+}
+
+export function centsToMoney(cents: number): string {
+  return (cents / 100).toFixed(2)
+}
+
+/**
+ * Splits an order-level amount (shipping, promotions, tax) across lines proportionally to their subtotals.
+ * The rounding remainder lands on the last line so the shares always sum to the order amount.
+ */
+export function allocateCents(totalCents: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0)
+  if (totalCents === 0 || weights.length === 0) return weights.map(() => 0)
+  if (weightSum <= 0) {
+    const even = Math.floor(totalCents / weights.length)
+    return weights.map((_, idx) => (idx === weights.length - 1 ? totalCents - even * (weights.length - 1) : even))
+  }
+
+  let allocated = 0
+  return weights.map((w, idx) => {
+    if (idx === weights.length - 1) return totalCents - allocated
+    const share = Math.round((totalCents * w) / weightSum)
+    allocated += share
+    return share
+  })
+}
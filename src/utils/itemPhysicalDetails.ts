@@ -0,0 +1,216 @@
+import type { Dimensions, Item, ItemCondition, ItemWeight } from '@/types'
+
+export const ITEM_CONDITION_OPTIONS: Array<{ value: ItemCondition; label: string }> = [
+  { value: 'new', label: 'New' },
+  { value: 'like_new', label: 'Like new' },
+  { value: 'good', label: 'Good' },
+  { value: 'fair', label: 'Fair' },
+  { value: 'poor', label: 'Poor' },
+  { value: 'damaged', label: 'Damaged' },
+]
+
+export const DIMENSION_UNIT_OPTIONS: Array<{ value: Dimensions['unit']; label: string }> = [
+  { value: 'inches', label: 'in' },
+  { value: 'cm', label: 'cm' },
+  { value: 'mm', label: 'mm' },
+]
+
+export const WEIGHT_UNIT_OPTIONS: Array<{ value: ItemWeight['unit']; label: string }> = [
+  { value: 'lb', label: 'lb' },
+  { value: 'kg', label: 'kg' },
+]
+
+export type ItemPhysicalDetails = Pick<Item, 'dimensions' | 'weight' | 'condition'>
+
+export const formatItemCondition = (condition: ItemCondition | null | undefined): string =>
+  ITEM_CONDITION_OPTIONS.find(option => option.value === condition)?.label ?? ''
+
+const formatMeasurement = (value: number) => String(Math.round(value * 100) / 100)
+
+/**
+ * Formats dimensions the way vendors list them, e.g. `60" W x 30" H x 36" D` or `152 cm W x 76 cm H`.
+ */
+export function formatDimensions(dimensions: Dimensions | null | undefined): string {
+  if (!dimensions) return ''
+  const suffix = dimensions.unit === 'inches' ? '"' : ` ${dimensions.unit}`
+  const parts = [`${formatMeasurement(dimensions.width)}${suffix} W`, `${formatMeasurement(dimensions.height)}${suffix} H`]
+  if (dimensions.depth) parts.push(`${formatMeasurement(dimensions.depth)}${suffix} D`)
+  return parts.join(' x ')
+}
+
+export function formatWeight(weight: ItemWeight | null | undefined): string {
+  if (!weight) return ''
+  return `${formatMeasurement(weight.value)} ${weight.unit}`
+}
+
+/**
+ * One-line summary of dimensions, weight and condition for invoices and summaries; empty when none are set.
+ */
+export function formatPhysicalDetails(item: ItemPhysicalDetails): string {
+  return [formatDimensions(item.dimensions), formatWeight(item.weight), formatItemCondition(item.condition)]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+const MEASUREMENT_PART_PATTERN =
+  /^(?:(\d+(?:\.\d+)?)\s*(?:'|ft\.?|feet)\s*)?(?:(\d+(?:\.\d+)?)\s*("|in\.?|inch(?:es)?|cm|mm)?)?\s*([lwhd])?\.?$/i
+
+type MeasurementPart = { value: number; unit?: Dimensions['unit']; label?: 'l' | 'w' | 'h' | 'd' }
+
+function parseMeasurementPart(part: string): MeasurementPart | null {
+  const match = part.trim().match(MEASUREMENT_PART_PATTERN)
+  if (!match || (!match[1] && !match[2])) return null
+
+  const feet = match[1] ? Number(match[1]) : 0
+  const amount = match[2] ? Number(match[2]) : 0
+  const unitToken = match[3]?.toLowerCase()
+  let unit: Dimensions['unit'] | undefined
+  if (unitToken === 'cm' || unitToken === 'mm') {
+    if (match[1]) return null
+    unit = unitToken
+  } else if (unitToken || match[1]) {
+    unit = 'inches'
+  }
+
+  return {
+    value: feet * 12 + amount,
+    unit,
+    label: match[4]?.toLowerCase() as MeasurementPart['label'],
+  }
+}
+
+/**
+ * Parses a vendor size string such as `30" H x 60" W x 36" D`, `138" L x 105.96" W`, `8' x 10'` or
+ * `60 x 30 x 36 cm` into dimensions. Feet are converted to inches.
+ *
+ * Labelled parts map W to width, H to height and D to depth. L is depth when a height is also given,
+ * otherwise height (flat goods such as rugs and art are listed L x W). Unlabelled parts are read as
+ * W x H or W x D x H. Returns null for sizes that are not measurements ("King", "Set of 2").
+ */
+export function parseDimensions(text: string): Dimensions | null {
+  const normalized = text
+    .replace(/''|[″”“]/g, '"')
+    .replace(/[′’‘]/g, "'")
+    .replace(/×/g, 'x')
+  const start = normalized.search(/\d/)
+  if (start < 0) return null
+  const measurement = normalized.slice(start).split(/[,;(]/)[0]
+
+  const parts = measurement.split(/\s*x\s*/i).map(parseMeasurementPart)
+  if (parts.length < 2 || parts.length > 3 || parts.some(part => !part || part.value <= 0)) return null
+  const measured = parts as MeasurementPart[]
+
+  const units = new Set(measured.map(part => part.unit).filter(Boolean))
+  if (units.size > 1) return null
+  const unit = measured.find(part => part.unit)?.unit ?? 'inches'
+
+  const round = (value: number) => Math.round(value * 100) / 100
+  const labels = measured.map(part => part.label)
+
+  if (labels.every(label => !label)) {
+    const [width, second, third] = measured.map(part => round(part.value))
+    return third === undefined ? { width, height: second, unit } : { width, height: third, depth: second, unit }
+  }
+  if (labels.some(label => !label) || new Set(labels).size !== labels.length) return null
+
+  const byLabel = new Map(measured.map(part => [part.label, round(part.value)]))
+  const length = byLabel.get('l')
+  const width = byLabel.get('w')
+  const height = byLabel.get('h') ?? (byLabel.has('d') ? undefined : length)
+  const depth = byLabel.get('d') ?? (byLabel.has('h') ? length : undefined)
+  if (width === undefined || height === undefined) return null
+
+  return depth === undefined ? { width, height, unit } : { width, height, depth, unit }
+}
+
+/**
+ * Reads dimensions from invoice attribute lines, using the first `Size:` line that is a measurement.
+ */
+export function dimensionsFromAttributeLines(lines: string[] | undefined): Dimensions | undefined {
+  for (const line of lines || []) {
+    const match = line.match(/^\s*Size\s*:\s*(.+)$/i)
+    if (!match) continue
+    const dimensions = parseDimensions(match[1])
+    if (dimensions) return dimensions
+  }
+  return undefined
+}
+
+/** String-valued form state for the dimensions, weight and condition inputs. */
+export type ItemPhysicalDetailsFormValues = {
+  width: string
+  height: string
+  depth: string
+  dimensionUnit: Dimensions['unit']
+  weight: string
+  weightUnit: ItemWeight['unit']
+  condition: ItemCondition | ''
+}
+
+export const EMPTY_PHYSICAL_DETAILS_FORM_VALUES: ItemPhysicalDetailsFormValues = {
+  width: '',
+  height: '',
+  depth: '',
+  dimensionUnit: 'inches',
+  weight: '',
+  weightUnit: 'lb',
+  condition: '',
+}
+
+export function toPhysicalDetailsFormValues(item: ItemPhysicalDetails | null | undefined): ItemPhysicalDetailsFormValues {
+  const { dimensions, weight, condition } = item ?? {}
+  return {
+    width: dimensions ? String(dimensions.width) : '',
+    height: dimensions ? String(dimensions.height) : '',
+    depth: dimensions?.depth ? String(dimensions.depth) : '',
+    dimensionUnit: dimensions?.unit ?? 'inches',
+    weight: weight ? String(weight.value) : '',
+    weightUnit: weight?.unit ?? 'lb',
+    condition: condition ?? '',
+  }
+}
+
+const parsePositive = (value: string): number | null | undefined => {
+  if (!value.trim()) return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+/**
+ * Converts form values back to item fields. Blank inputs clear the field; `errors` is keyed by
+ * `dimensions` and `weight` for inputs that cannot be saved.
+ */
+export function parsePhysicalDetailsFormValues(values: ItemPhysicalDetailsFormValues): {
+  details: ItemPhysicalDetails
+  errors: Partial<Record<'dimensions' | 'weight', string>>
+} {
+  const errors: Partial<Record<'dimensions' | 'weight', string>> = {}
+  const width = parsePositive(values.width)
+  const height = parsePositive(values.height)
+  const depth = parsePositive(values.depth)
+  const weight = parsePositive(values.weight)
+
+  let dimensions: Dimensions | null = null
+  if (width === null || height === null || depth === null) {
+    errors.dimensions = 'Dimensions must be positive numbers'
+  } else if (width !== undefined && height !== undefined) {
+    dimensions = depth === undefined
+      ? { width, height, unit: values.dimensionUnit }
+      : { width, height, depth, unit: values.dimensionUnit }
+  } else if (width !== undefined || height !== undefined || depth !== undefined) {
+    errors.dimensions = 'Enter both width and height'
+  }
+
+  if (weight === null) {
+    errors.weight = 'Weight must be a positive number'
+  }
+
+  return {
+    details: {
+      dimensions,
+      weight: weight ? { value: weight, unit: values.weightUnit } : null,
+      condition: values.condition || null,
+    },
+    errors,
+  }
+}
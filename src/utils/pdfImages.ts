@@ -0,0 +1,93 @@
+import type { PdfReportImage } from '@/utils/pdfReport'
+import type { PdfReportBranding } from '@/utils/pdfReportDocuments'
+
+export function sniffImageFormat(bytes: Uint8Array): PdfReportImage['format'] | null {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png'
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpg'
+  return null
+}
+
+async function rasterize(blob: Blob, maxSize: number, format: PdfReportImage['format']): Promise<PdfReportImage | null> {
+  const bitmap = await createImageBitmap(blob)
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+  const context = canvas.getContext('2d')
+  if (!context) return null
+  if (format === 'jpg') {
+    // JPEG has no alpha; transparent areas would otherwise turn black
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  const output = await new Promise<Blob | null>(resolve =>
+    canvas.toBlob(resolve, format === 'png' ? 'image/png' : 'image/jpeg', 0.85)
+  )
+  return output ? { bytes: new Uint8Array(await output.arrayBuffer()), format } : null
+}
+
+/**
+ * Fetches an image for embedding in a PDF report. In the browser it is downscaled to `maxSize`
+ * pixels (so thumbnails don't bloat the file) and re-encoded, which also handles WebP/HEIC-derived
+ * images; elsewhere only PNG and JPEG are accepted as-is. Returns null when the image can't be used.
+ */
+export async function loadPdfReportImage(
+  url: string,
+  options: { maxSize: number; format: PdfReportImage['format'] }
+): Promise<PdfReportImage | null> {
+  try {
+    const response = await fetch(url)
+    if (!response.ok) return null
+    const blob = await response.blob()
+
+    if (typeof document !== 'undefined' && typeof createImageBitmap === 'function') {
+      return await rasterize(blob, options.maxSize, options.format)
+    }
+
+    const bytes = new Uint8Array(await blob.arrayBuffer())
+    const format = sniffImageFormat(bytes)
+    return format ? { bytes, format } : null
+  } catch (error) {
+    console.warn('Failed to load image for PDF:', url, error)
+    return null
+  }
+}
+
+/**
+ * Loads thumbnails for many URLs a few at a time, keyed by URL. Missing or broken images are left out.
+ */
+export async function loadPdfThumbnails(urls: string[], maxSize = 160): Promise<Map<string, PdfReportImage>> {
+  const unique = [...new Set(urls.filter(Boolean))]
+  const images = new Map<string, PdfReportImage>()
+  const concurrency = 4
+
+  for (let index = 0; index < unique.length; index += concurrency) {
+    const batch = unique.slice(index, index + concurrency)
+    const loaded = await Promise.all(batch.map(url => loadPdfReportImage(url, { maxSize, format: 'jpg' })))
+    loaded.forEach((image, batchIndex) => {
+      if (image) images.set(batch[batchIndex], image)
+    })
+  }
+
+  return images
+}
+
+/**
+ * Logo and item thumbnails for a report, fetched up front so the renderer never touches the network.
+ * Pass `generatedAt` to pin the PDF's metadata dates (e.g. to when an invoice was issued).
+ */
+export async function loadPdfReportBranding(options: {
+  businessName?: string
+  businessLogoUrl?: string | null
+  thumbnailUrls?: Array<string | undefined>
+  generatedAt?: Date
+}): Promise<PdfReportBranding> {
+  const [logo, thumbnails] = await Promise.all([
+    options.businessLogoUrl ? loadPdfReportImage(options.businessLogoUrl, { maxSize: 600, format: 'png' }) : null,
+    loadPdfThumbnails((options.thumbnailUrls ?? []).filter((url): url is string => !!url)),
+  ])
+  return { businessName: options.businessName, logo, thumbnails, generatedAt: options.generatedAt ?? new Date() }
+}
@@ -0,0 +1,342 @@
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib'
+import type { PDFFont, PDFImage, PDFPage } from 'pdf-lib'
+
+/**
+ * Lays out printable reports (invoices, client summaries) as PDF without a browser. The output depends
+ * only on the document passed in: fonts are the standard Helvetica faces, images are embedded from
+ * the bytes provided and metadata dates come from `generatedAt`, so the same input always produces
+ * the same file. Nothing here touches the DOM, so it runs in workers and edge functions too.
+ */
+
+export type PdfReportImage = {
+  bytes: Uint8Array
+  format: 'png' | 'jpg'
+}
+
+export type PdfReportBlock =
+  | { type: 'heading'; text: string }
+  | {
+      type: 'row'
+      title: string
+      amount?: string
+      details?: string[]
+      /** Highlighted detail line, e.g. a missing price. */
+      warning?: string
+      thumbnail?: PdfReportImage | null
+      /** Nested rows (items under a transaction) are indented and set in the regular face. */
+      nested?: boolean
+    }
+  | { type: 'keyValue'; label: string; value: string }
+  | { type: 'total'; label: string; value: string; emphasis?: boolean }
+  | { type: 'note'; text: string }
+
+export type PdfReportDocument = {
+  /** Large heading on the first page and in the running header, e.g. "Invoice". */
+  title: string
+  /** Shown next to the title in the running header of later pages, e.g. the project name. */
+  subject?: string
+  businessName?: string
+  logo?: PdfReportImage | null
+  headerLines: string[]
+  footerText?: string
+  blocks: PdfReportBlock[]
+  generatedAt: Date
+}
+
+const PAGE_WIDTH = 612 // US Letter, in points
+const PAGE_HEIGHT = 792
+const MARGIN = 48
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const CONTENT_BOTTOM = 64 // everything below is footer
+const THUMBNAIL_SIZE = 40
+const NESTED_INDENT = 16
+
+const TEXT_COLOR = rgb(0.07, 0.09, 0.15)
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5)
+const RULE_COLOR = rgb(0.9, 0.91, 0.92)
+const WARNING_COLOR = rgb(0.63, 0.38, 0.03)
+const ACCENT_COLOR = rgb(0x8a / 255, 0x70 / 255, 0x52 / 255) // primary-600
+
+// Characters Helvetica can encode in WinAnsi beyond Latin-1.
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ')
+
+/**
+ * Standard fonts only cover WinAnsi, and pdf-lib throws on anything else. Accented letters are
+ * reduced to their base letter; other characters (emoji, CJK) become "?".
+ */
+export function toPdfSafeText(text: string): string {
+  let result = ''
+  for (const char of text.replace(/[\t\r\n]+/g, ' ')) {
+    const code = char.codePointAt(0) ?? 0
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.has(char)) {
+      result += char
+      continue
+    }
+    const base = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+    result += base && [...base].every(c => (c.codePointAt(0) ?? 0) <= 0xff) ? base : '?'
+  }
+  return result
+}
+
+/**
+ * Greedy word wrap. Words longer than the line are broken by character.
+ */
+export function wrapText(text: string, font: Pick<PDFFont, 'widthOfTextAtSize'>, size: number, maxWidth: number): string[] {
+  const words = toPdfSafeText(text).split(' ').filter(Boolean)
+  const lines: string[] = []
+  let current = ''
+
+  const fits = (value: string) => font.widthOfTextAtSize(value, size) <= maxWidth
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word
+    if (fits(candidate)) {
+      current = candidate
+      continue
+    }
+    if (current) lines.push(current)
+    current = ''
+    let remaining = word
+    while (!fits(remaining)) {
+      let cut = remaining.length - 1
+      while (cut > 1 && !fits(remaining.slice(0, cut))) cut--
+      lines.push(remaining.slice(0, cut))
+      remaining = remaining.slice(cut)
+    }
+    current = remaining
+  }
+  if (current) lines.push(current)
+
+  return lines.length > 0 ? lines : ['']
+}
+
+type Fonts = { regular: PDFFont; bold: PDFFont }
+
+class ReportLayout {
+  private pages: PDFPage[] = []
+  private page!: PDFPage
+  private y = 0
+  private images = new Map<PdfReportImage, PDFImage>()
+
+  constructor(private pdf: PDFDocument, private fonts: Fonts, private doc: PdfReportDocument) {}
+
+  async embedImage(image: PdfReportImage): Promise<PDFImage | null> {
+    const cached = this.images.get(image)
+    if (cached) return cached
+    try {
+      const embedded = image.format === 'png' ? await this.pdf.embedPng(image.bytes) : await this.pdf.embedJpg(image.bytes)
+      this.images.set(image, embedded)
+      return embedded
+    } catch (error) {
+      console.warn('Skipping image that could not be embedded in PDF:', error)
+      return null
+    }
+  }
+
+  private addPage() {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    this.pages.push(this.page)
+    this.y = PAGE_HEIGHT - MARGIN
+    if (this.pages.length > 1) this.drawRunningHeader()
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < CONTENT_BOTTOM) this.addPage()
+  }
+
+  private text(value: string, x: number, y: number, size: number, options: { bold?: boolean; color?: ReturnType<typeof rgb> } = {}) {
+    this.page.drawText(toPdfSafeText(value), {
+      x,
+      y,
+      size,
+      font: options.bold ? this.fonts.bold : this.fonts.regular,
+      color: options.color ?? TEXT_COLOR,
+    })
+  }
+
+  private textRight(value: string, rightX: number, y: number, size: number, options: { bold?: boolean; color?: ReturnType<typeof rgb> } = {}) {
+    const font = options.bold ? this.fonts.bold : this.fonts.regular
+    this.text(value, rightX - font.widthOfTextAtSize(toPdfSafeText(value), size), y, size, options)
+  }
+
+  private rule(y: number, x = MARGIN, width = CONTENT_WIDTH) {
+    this.page.drawLine({ start: { x, y }, end: { x: x + width, y }, thickness: 0.75, color: RULE_COLOR })
+  }
+
+  private drawRunningHeader() {
+    const { title, subject, businessName } = this.doc
+    const baseline = PAGE_HEIGHT - MARGIN + 8
+    this.text(subject ? `${title} - ${subject}` : title, MARGIN, baseline, 9, { color: MUTED_COLOR })
+    if (businessName) this.textRight(businessName, PAGE_WIDTH - MARGIN, baseline, 9, { color: MUTED_COLOR })
+    this.rule(baseline - 8)
+    this.y = baseline - 28
+  }
+
+  async drawLetterhead() {
+    this.addPage()
+    const top = this.y
+    let textX = MARGIN
+    let logoHeight = 0
+
+    if (this.doc.logo) {
+      const logo = await this.embedImage(this.doc.logo)
+      if (logo) {
+        const { width, height } = logo.scaleToFit(140, 64)
+        this.page.drawImage(logo, { x: MARGIN, y: top - height, width, height })
+        textX = MARGIN + width + 16
+        logoHeight = height
+      }
+    }
+
+    let textY = top - 20
+    this.text(this.doc.title, textX, textY, 20, { bold: true })
+    this.doc.headerLines.forEach((line, index) => {
+      textY -= 14
+      this.text(line, textX, textY, 10, { bold: index === 0, color: index === 0 ? TEXT_COLOR : MUTED_COLOR })
+    })
+
+    this.y = Math.min(top - logoHeight, textY - 6) - 10
+    this.rule(this.y)
+    this.y -= 24
+  }
+
+  drawHeading(text: string) {
+    this.ensureSpace(68) // keep a heading with at least its first row
+    this.text(text, MARGIN, this.y - 21, 13, { bold: true })
+    this.y -= 30
+    this.rule(this.y)
+  }
+
+  async drawRow(block: Extract<PdfReportBlock, { type: 'row' }>) {
+    const indent = block.nested ? NESTED_INDENT : 0
+    const thumbnail = block.thumbnail ? await this.embedImage(block.thumbnail) : null
+    const textX = MARGIN + indent + 4 + (thumbnail ? THUMBNAIL_SIZE + 8 : 0)
+    const amountWidth = block.amount ? this.fonts.regular.widthOfTextAtSize(block.amount, 10) + 16 : 0
+    const textWidth = PAGE_WIDTH - MARGIN - 4 - amountWidth - textX
+    const titleSize = block.nested ? 9.5 : 10
+    const titleFont = block.nested ? this.fonts.regular : this.fonts.bold
+
+    const titleLines = wrapText(block.title, titleFont, titleSize, textWidth)
+    const detailLines = (block.details ?? []).flatMap(detail => wrapText(detail, this.fonts.regular, 8.5, textWidth))
+    const warningLines = block.warning ? wrapText(block.warning, this.fonts.regular, 8.5, textWidth) : []
+    const textHeight = titleLines.length * 13 + (detailLines.length + warningLines.length) * 11
+    const height = Math.max(textHeight, thumbnail ? THUMBNAIL_SIZE : 0) + (block.nested ? 4 : 12)
+
+    this.ensureSpace(height)
+    const top = this.y - (block.nested ? 2 : 6)
+
+    if (thumbnail) {
+      const { width, height: imageHeight } = thumbnail.scaleToFit(THUMBNAIL_SIZE, THUMBNAIL_SIZE)
+      this.page.drawImage(thumbnail, {
+        x: MARGIN + indent + 4 + (THUMBNAIL_SIZE - width) / 2,
+        y: top - THUMBNAIL_SIZE + (THUMBNAIL_SIZE - imageHeight) / 2,
+        width,
+        height: imageHeight,
+      })
+    }
+
+    let lineY = top - titleSize
+    titleLines.forEach(line => {
+      this.page.drawText(line, { x: textX, y: lineY, size: titleSize, font: titleFont, color: TEXT_COLOR })
+      lineY -= 13
+    })
+    detailLines.forEach(line => {
+      this.text(line, textX, lineY + 2, 8.5, { color: MUTED_COLOR })
+      lineY -= 11
+    })
+    warningLines.forEach(line => {
+      this.text(line, textX, lineY + 2, 8.5, { color: WARNING_COLOR })
+      lineY -= 11
+    })
+
+    if (block.amount) {
+      this.textRight(block.amount, PAGE_WIDTH - MARGIN - 4, top - titleSize, block.nested ? 9.5 : 10, {
+        color: block.nested ? MUTED_COLOR : TEXT_COLOR,
+      })
+    }
+
+    this.y -= height
+    if (!block.nested) this.rule(this.y + 4)
+  }
+
+  drawKeyValue(label: string, value: string) {
+    this.ensureSpace(20)
+    this.text(label, MARGIN + 4, this.y - 14, 10, { color: MUTED_COLOR })
+    this.textRight(value, PAGE_WIDTH - MARGIN - 4, this.y - 14, 10, { bold: true })
+    this.y -= 20
+  }
+
+  drawTotal(label: string, value: string, emphasis?: boolean) {
+    const size = emphasis ? 14 : 11
+    this.ensureSpace(size + 18)
+    const color = emphasis ? ACCENT_COLOR : TEXT_COLOR
+    this.text(label, MARGIN + 4, this.y - size - 6, size, { bold: true, color })
+    this.textRight(value, PAGE_WIDTH - MARGIN - 4, this.y - size - 6, size, { bold: true, color })
+    this.y -= size + 18
+    if (!emphasis) this.y -= 10
+  }
+
+  drawNote(text: string) {
+    const lines = wrapText(text, this.fonts.regular, 10, CONTENT_WIDTH)
+    this.ensureSpace(lines.length * 14 + 8)
+    lines.forEach(line => {
+      this.text(line, MARGIN, this.y - 12, 10, { color: MUTED_COLOR })
+      this.y -= 14
+    })
+    this.y -= 8
+  }
+
+  drawFooters() {
+    this.pages.forEach((page, index) => {
+      this.page = page
+      this.rule(44)
+      if (this.doc.footerText) this.text(this.doc.footerText, MARGIN, 30, 8, { color: MUTED_COLOR })
+      this.textRight(`Page ${index + 1} of ${this.pages.length}`, PAGE_WIDTH - MARGIN, 30, 8, { color: MUTED_COLOR })
+    })
+  }
+}
+
+/**
+ * Renders a report to PDF bytes. Letter size, a letterhead on the first page, a running header on
+ * later pages and "Page n of N" footers throughout.
+ */
+export async function renderPdfReport(doc: PdfReportDocument): Promise<Uint8Array<ArrayBuffer>> {
+  const pdf = await PDFDocument.create({ updateMetadata: false })
+  pdf.setTitle(toPdfSafeText(doc.subject ? `${doc.title} - ${doc.subject}` : doc.title))
+  if (doc.businessName) pdf.setAuthor(toPdfSafeText(doc.businessName))
+  pdf.setCreator('1584 Design')
+  pdf.setProducer('1584 Design')
+  pdf.setCreationDate(doc.generatedAt)
+  pdf.setModificationDate(doc.generatedAt)
+
+  const fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  }
+  const layout = new ReportLayout(pdf, fonts, doc)
+
+  await layout.drawLetterhead()
+  for (const block of doc.blocks) {
+    switch (block.type) {
+      case 'heading':
+        layout.drawHeading(block.text)
+        break
+      case 'row':
+        await layout.drawRow(block)
+        break
+      case 'keyValue':
+        layout.drawKeyValue(block.label, block.value)
+        break
+      case 'total':
+        layout.drawTotal(block.label, block.value, block.emphasis)
+        break
+      case 'note':
+        layout.drawNote(block.text)
+        break
+    }
+  }
+  layout.drawFooters()
+
+  // Copied so the bytes are backed by a plain ArrayBuffer, which Blob and storage uploads require.
+  return new Uint8Array(await pdf.save())
+}
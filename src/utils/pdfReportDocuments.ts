@@ -0,0 +1,231 @@
+import type { InvoiceSnapshot, InvoiceSnapshotLine, Item } from '@/types'
+import type { ClientBudgetRevisions } from '@/utils/budgetChangeOrders'
+import type { ClientSummaryTotals } from '@/utils/clientSummary'
+import { formatDate } from '@/utils/dateUtils'
+import { formatPhysicalDetails } from '@/utils/itemPhysicalDetails'
+import type { PdfReportBlock, PdfReportDocument, PdfReportImage } from '@/utils/pdfReport'
+
+/**
+ * Builders that turn the invoice and summary pages' data into `PdfReportDocument`s. They mirror
+ * what the pages show on screen so the PDF and the printed page read the same.
+ */
+
+const usd = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+
+const formatMoney = (value: string | number) => {
+  const n = typeof value === 'number' ? value : Number.parseFloat(value)
+  return usd.format(Number.isFinite(n) ? n : 0)
+}
+
+const toNumber = (value: string | number | null | undefined): number => {
+  const n = typeof value === 'number' ? value : Number.parseFloat(value || '0')
+  return Number.isFinite(n) ? n : 0
+}
+
+export const getItemThumbnailUrl = (item: Pick<Item, 'images'>): string | undefined =>
+  item.images?.find(img => img.isPrimary)?.url || item.images?.[0]?.url || undefined
+
+export type PdfReportBranding = {
+  businessName?: string
+  logo?: PdfReportImage | null
+  /** Thumbnails keyed by image URL (see `loadPdfThumbnails`). */
+  thumbnails?: Map<string, PdfReportImage>
+  generatedAt: Date
+}
+
+const thumbnailFor = (branding: PdfReportBranding, url: string | undefined) =>
+  (url && branding.thumbnails?.get(url)) || null
+
+const projectHeaderLines = (projectName: string, clientName: string | undefined, details: string[]) => [
+  projectName,
+  ...(clientName ? [`Client: ${clientName}`] : []),
+  ...details,
+]
+
+function invoiceSectionBlocks(
+  title: string,
+  totalLabel: string,
+  lines: InvoiceSnapshotLine[],
+  total: string,
+  branding: PdfReportBranding
+): PdfReportBlock[] {
+  const blocks: PdfReportBlock[] = [{ type: 'heading', text: title }]
+
+  for (const line of lines) {
+    const date = formatDate(line.transactionDate, '', { year: undefined, month: 'short', day: 'numeric' })
+    blocks.push({
+      type: 'row',
+      title: line.title,
+      amount: formatMoney(line.amount),
+      details: [date, line.notes].filter((detail): detail is string => !!detail),
+    })
+    for (const item of line.items) {
+      blocks.push({
+        type: 'row',
+        nested: true,
+        title: item.description,
+        amount: formatMoney(item.amount),
+        details: item.sku || item.physicalDetails
+          ? [item.sku && `SKU: ${item.sku}`, item.physicalDetails].filter((detail): detail is string => !!detail)
+          : undefined,
+        warning: item.missingPrice ? 'Missing project price' : undefined,
+        thumbnail: thumbnailFor(branding, item.imageUrl),
+      })
+    }
+  }
+
+  blocks.push({ type: 'total', label: totalLabel, value: formatMoney(total) })
+  return blocks
+}
+
+export function buildInvoicePdfDocument(
+  snapshot: InvoiceSnapshot,
+  details: string[],
+  branding: PdfReportBranding
+): PdfReportDocument {
+  const hasAnyLines = snapshot.charges.length > 0 || snapshot.credits.length > 0
+
+  return {
+    title: 'Invoice',
+    subject: snapshot.projectName,
+    businessName: branding.businessName,
+    logo: branding.logo,
+    headerLines: projectHeaderLines(snapshot.projectName, snapshot.clientName, details),
+    footerText: branding.businessName,
+    generatedAt: branding.generatedAt,
+    blocks: hasAnyLines
+      ? [
+          ...invoiceSectionBlocks('Project Charges', 'Charges Total', snapshot.charges, snapshot.chargesTotal, branding),
+          ...invoiceSectionBlocks('Project Credits', 'Credits Total', snapshot.credits, snapshot.creditsTotal, branding),
+          { type: 'total', label: 'Net Amount Due', value: formatMoney(snapshot.totalDue), emphasis: true },
+        ]
+      : [{ type: 'note', text: 'There are no qualifying transactions for this project.' }],
+  }
+}
+
+type SummaryProject = { name?: string; clientName?: string }
+
+export function buildClientSummaryPdfDocument(
+  project: SummaryProject | null | undefined,
+  items: Item[],
+  totals: ClientSummaryTotals,
+  dateLabel: string,
+  branding: PdfReportBranding,
+  budgetRevisions?: ClientBudgetRevisions | null
+): PdfReportDocument {
+  const projectName = project?.name || 'Project'
+  const blocks: PdfReportBlock[] = []
+
+  if (items.length === 0) {
+    blocks.push({ type: 'note', text: 'There are no items associated with this project.' })
+  } else {
+    blocks.push(
+      { type: 'heading', text: 'Project Overview' },
+      { type: 'keyValue', label: 'Total Spent Overall', value: formatMoney(totals.totalSpent) },
+      ...Object.entries(totals.categoryBreakdown)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([category, amount]): PdfReportBlock => ({ type: 'keyValue', label: category, value: formatMoney(amount) })),
+      { type: 'heading', text: 'Furnishing Savings' },
+      { type: 'keyValue', label: 'Market Value', value: formatMoney(totals.totalMarketValue) },
+      { type: 'keyValue', label: 'What You Spent', value: formatMoney(totals.totalSpent) },
+      { type: 'total', label: 'What You Saved', value: formatMoney(totals.totalSaved) },
+      { type: 'heading', text: 'Furnishings' },
+      ...items.map((item): PdfReportBlock => ({
+        type: 'row',
+        title: item.description || 'Item',
+        amount: formatMoney(toNumber(item.projectPrice)),
+        details: [
+          [item.source && `Source: ${item.source}`, item.space && `Space: ${item.space}`].filter(Boolean).join(' · '),
+          formatPhysicalDetails(item),
+        ].filter(Boolean),
+        thumbnail: thumbnailFor(branding, getItemThumbnailUrl(item)),
+      })),
+      { type: 'total', label: 'Furnishings Total', value: formatMoney(totals.totalSpent) }
+    )
+  }
+
+  if (budgetRevisions) {
+    blocks.push(
+      { type: 'heading', text: 'Budget Revisions' },
+      { type: 'keyValue', label: 'Original Budget', value: formatMoney(toNumber(budgetRevisions.originalTotal)) },
+      ...budgetRevisions.revisions.map((revision): PdfReportBlock => {
+        const amount = toNumber(revision.amount)
+        return {
+          type: 'row',
+          title: revision.categoryName,
+          amount: `${amount < 0 ? '-' : '+'}${formatMoney(Math.abs(amount))}`,
+          details: [
+            revision.reason.replace(/\s+/g, ' '),
+            [formatDate(revision.date), revision.approvedBy && `Approved by ${revision.approvedBy}`].filter(Boolean).join(' · '),
+          ].filter(Boolean),
+        }
+      }),
+      { type: 'total', label: 'Current Budget', value: formatMoney(toNumber(budgetRevisions.currentTotal)) }
+    )
+  }
+
+  return {
+    title: 'Client Summary',
+    subject: projectName,
+    businessName: branding.businessName,
+    logo: branding.logo,
+    headerLines: projectHeaderLines(projectName, project?.clientName, [`Date: ${dateLabel}`]),
+    footerText: branding.businessName,
+    generatedAt: branding.generatedAt,
+    blocks,
+  }
+}
+
+export function buildPropertyManagementSummaryPdfDocument(
+  project: SummaryProject | null | undefined,
+  items: Item[],
+  dateLabel: string,
+  branding: PdfReportBranding
+): PdfReportDocument {
+  const projectName = project?.name || 'Project'
+  const totalMarketValue = items.reduce((sum, item) => sum + toNumber(item.marketValue), 0)
+  const blocks: PdfReportBlock[] = []
+
+  if (items.length === 0) {
+    blocks.push({ type: 'note', text: 'There are no items associated with this project.' })
+  } else {
+    blocks.push(
+      { type: 'heading', text: 'Summary' },
+      { type: 'keyValue', label: 'Total Items', value: String(items.length) },
+      { type: 'keyValue', label: 'Total Market Value', value: formatMoney(totalMarketValue) },
+      { type: 'heading', text: 'Items' },
+      ...items.map((item): PdfReportBlock => {
+        const marketValue = toNumber(item.marketValue)
+        return {
+          type: 'row',
+          title: item.description || 'Item',
+          amount: formatMoney(marketValue),
+          details: [
+            [item.source && `Source: ${item.source}`, item.sku && `SKU: ${item.sku}`].filter(Boolean).join(' · '),
+            item.space ? `Space: ${item.space}` : '',
+            formatPhysicalDetails(item),
+          ].filter(Boolean),
+          warning: marketValue === 0 ? 'No market value set' : undefined,
+          thumbnail: thumbnailFor(branding, getItemThumbnailUrl(item)),
+        }
+      })
+    )
+  }
+
+  return {
+    title: 'Property Management Summary',
+    subject: projectName,
+    businessName: branding.businessName,
+    logo: branding.logo,
+    headerLines: projectHeaderLines(projectName, project?.clientName, [`Date: ${dateLabel}`]),
+    footerText: branding.businessName,
+    generatedAt: branding.generatedAt,
+    blocks,
+  }
+}
+
+/**
+ * File name for a downloaded report, e.g. "Invoice - INV-0007 - Smith Residence.pdf".
+ */
+export const toPdfFileName = (...parts: Array<string | undefined>): string =>
+  `${parts.filter(Boolean).join(' - ').replace(/[\\/:*?"<>|]+/g, '').trim() || 'Report'}.pdf`
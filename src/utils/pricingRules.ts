@@ -0,0 +1,118 @@
+import type { PricingRounding, PricingRule } from '@/types'
+import { centsToMoney, toCents } from '@/utils/invoiceTextUtils'
+import { vendorKey } from '@/utils/vendorSpend'
+
+export const PRICING_ROUNDING_LABELS: Record<PricingRounding, string> = {
+  none: 'No rounding',
+  nearest_dollar: 'Nearest dollar',
+  up_dollar: 'Up to the next dollar',
+  up_five: 'Up to the next $5',
+}
+
+export type PricingContext = {
+  vendor?: string | null
+  categoryId?: string | null
+}
+
+export type PricingSuggestion = {
+  ruleId: string
+  projectPrice: string
+}
+
+type PricedFields = {
+  purchasePrice?: string
+  projectPrice?: string
+  pricingRuleId?: string | null
+  projectPriceOverridden?: boolean
+}
+
+const ruleMatches = (rule: PricingRule, context: PricingContext): boolean => {
+  if (rule.vendor && vendorKey(rule.vendor) !== vendorKey(context.vendor || '')) return false
+  if (rule.categoryId && rule.categoryId !== context.categoryId) return false
+  return true
+}
+
+// Vendor + category beats vendor alone, which beats category alone, which beats the catch-all rule.
+const ruleSpecificity = (rule: PricingRule): number => (rule.vendor ? 2 : 0) + (rule.categoryId ? 1 : 0)
+
+/**
+ * Picks the most specific rule matching the vendor and budget category. Ties go to the rule listed first.
+ */
+export function findPricingRule(rules: PricingRule[], context: PricingContext): PricingRule | null {
+  let best: PricingRule | null = null
+  for (const rule of rules) {
+    if (!ruleMatches(rule, context)) continue
+    if (!best || ruleSpecificity(rule) > ruleSpecificity(best)) best = rule
+  }
+  return best
+}
+
+const roundCents = (cents: number, rounding: PricingRounding): number => {
+  switch (rounding) {
+    case 'nearest_dollar':
+      return Math.round(cents / 100) * 100
+    case 'up_dollar':
+      return Math.ceil(cents / 100) * 100
+    case 'up_five':
+      return Math.ceil(cents / 500) * 500
+    default:
+      return Math.round(cents)
+  }
+}
+
+/**
+ * Project price for a purchase price under a rule. The trade discount is backed out first to get the
+ * list price, then the markup is applied to that. Returns null when there is no purchase price.
+ */
+export function computeRulePrice(purchasePrice: string | undefined, rule: PricingRule): string | null {
+  if (!purchasePrice || !purchasePrice.trim()) return null
+  const costCents = toCents(purchasePrice)
+  if (costCents <= 0) return null
+  const discount = Math.min(Math.max(rule.tradeDiscountPercent || 0, 0), 99)
+  const listCents = costCents / (1 - discount / 100)
+  const priceCents = listCents * (1 + (rule.markupPercent || 0) / 100)
+  return centsToMoney(roundCents(priceCents, rule.rounding))
+}
+
+export function suggestProjectPrice(
+  purchasePrice: string | undefined,
+  rules: PricingRule[],
+  context: PricingContext
+): PricingSuggestion | null {
+  const rule = findPricingRule(rules, context)
+  if (!rule) return null
+  const projectPrice = computeRulePrice(purchasePrice, rule)
+  return projectPrice ? { ruleId: rule.id, projectPrice } : null
+}
+
+/** True when a typed project price differs from the rule's suggestion. */
+export function isProjectPriceOverridden(projectPrice: string | undefined, suggestion: PricingSuggestion | null): boolean {
+  if (!suggestion || !projectPrice || !projectPrice.trim()) return false
+  return toCents(projectPrice) !== toCents(suggestion.projectPrice)
+}
+
+/**
+ * Fills in project prices for items that don't have one yet and records the rule used.
+ * Items that already carry a project price are left alone.
+ */
+export function applyPricingRules<T extends PricedFields>(items: T[], rules: PricingRule[], context: PricingContext): T[] {
+  if (rules.length === 0) return items
+  return items.map(item => {
+    if (item.projectPrice && item.projectPrice.trim()) return item
+    const suggestion = suggestProjectPrice(item.purchasePrice, rules, context)
+    if (!suggestion) return item
+    return {
+      ...item,
+      projectPrice: suggestion.projectPrice,
+      pricingRuleId: suggestion.ruleId,
+      projectPriceOverridden: false,
+    }
+  })
+}
+
+export function describePricingRule(rule: PricingRule): string {
+  const parts = [`${rule.markupPercent}% markup`]
+  if (rule.tradeDiscountPercent) parts.push(`${rule.tradeDiscountPercent}% trade discount`)
+  if (rule.rounding !== 'none') parts.push(PRICING_ROUNDING_LABELS[rule.rounding].toLowerCase())
+  return parts.join(', ')
+}
@@ -0,0 +1,264 @@
+import type { Item, Project, Transaction } from '@/types'
+import { dispositionsEqual } from '@/utils/dispositionUtils'
+import { isDesignFeeCategoryName } from '@/utils/financialDashboard'
+import { centsToMoney, toCents } from '@/utils/invoiceTextUtils'
+
+export const INVENTORY_SALE_PREFIX = 'INV_SALE_'
+
+/** Items that aren't (or are no longer) the client's: nothing has been billed for them. */
+const UNBILLED_DISPOSITIONS = ['to purchase', 'to return', 'returned'] as const
+
+export type ProfitabilityFigures = {
+  /** What was paid for the items, before tax. */
+  cost: string
+  /** Project price of the items, before tax. */
+  billed: string
+  /** (billed - cost) / cost, or null when nothing was paid. */
+  markupPercent: number | null
+  taxPaid: string
+  taxBilled: string
+  /** billed - cost */
+  itemMargin: string
+}
+
+export type CategoryProfitability = ProfitabilityFigures & {
+  categoryId: string
+  categoryName: string
+  itemCount: number
+}
+
+export type InventorySaleFigures = {
+  /** What the INV_SALE_ transactions were recorded at. */
+  amount: string
+  /** What was originally paid for the items on them. */
+  cost: string
+  margin: string
+}
+
+export type ProjectProfitability = ProfitabilityFigures & {
+  projectId: string
+  projectName: string
+  clientName?: string
+  categories: CategoryProfitability[]
+  /** Completed Design Fee transactions. */
+  designFee: string
+  inventorySales: InventorySaleFigures
+  /** Item margin + design fee + inventory sale margin. */
+  totalMargin: string
+}
+
+export type ProfitabilityReport = {
+  projects: ProjectProfitability[]
+  totals: ProfitabilityFigures & { designFee: string; inventorySales: InventorySaleFigures; totalMargin: string }
+}
+
+export type ProfitabilitySource = {
+  projects: Project[]
+  transactions: Transaction[]
+  /** Project items plus business inventory, so items sold back to inventory can be costed. */
+  items: Item[]
+  categories: Array<{ id: string; name: string }>
+}
+
+type FigureCents = { cost: number; billed: number; taxPaid: number; taxBilled: number }
+
+const emptyCents = (): FigureCents => ({ cost: 0, billed: 0, taxPaid: 0, taxBilled: 0 })
+
+const addCents = (target: FigureCents, source: FigureCents) => {
+  target.cost += source.cost
+  target.billed += source.billed
+  target.taxPaid += source.taxPaid
+  target.taxBilled += source.taxBilled
+}
+
+export const markupPercent = (costCents: number, billedCents: number): number | null =>
+  costCents === 0 ? null : Math.round(((billedCents - costCents) / costCents) * 1000) / 10
+
+const toFigures = (cents: FigureCents): ProfitabilityFigures => ({
+  cost: centsToMoney(cents.cost),
+  billed: centsToMoney(cents.billed),
+  markupPercent: markupPercent(cents.cost, cents.billed),
+  taxPaid: centsToMoney(cents.taxPaid),
+  taxBilled: centsToMoney(cents.taxBilled),
+  itemMargin: centsToMoney(cents.billed - cents.cost),
+})
+
+const itemCostCents = (item: Item): number => toCents(item.purchasePrice || item.price || '0')
+
+const itemCents = (item: Item): FigureCents => ({
+  cost: itemCostCents(item),
+  billed: toCents(item.projectPrice || '0'),
+  taxPaid: toCents(item.taxAmountPurchasePrice || '0'),
+  taxBilled: toCents(item.taxAmountProjectPrice || '0'),
+})
+
+const isBilledItem = (item: Item): boolean =>
+  !UNBILLED_DISPOSITIONS.some(disposition => dispositionsEqual(item.disposition, disposition))
+
+const isActive = (transaction: Transaction): boolean => (transaction.status || '').toLowerCase() !== 'canceled'
+
+/**
+ * Cost against billed price per project and budget category. An item's category comes from its
+ * transaction, falling back to the furnishings category like the budget forecast does.
+ */
+export function buildProfitabilityReport(source: ProfitabilitySource): ProfitabilityReport {
+  const categoryNames = new Map(source.categories.map(category => [category.id, category.name]))
+  const designFeeCategoryIds = new Set(
+    source.categories.filter(category => isDesignFeeCategoryName(category.name)).map(category => category.id)
+  )
+  const furnishingsCategoryId = source.categories.find(category => category.name.toLowerCase().includes('furnish'))?.id
+  const transactionsById = new Map(source.transactions.map(t => [t.transactionId, t]))
+  const itemsById = new Map(source.items.map(item => [item.itemId, item]))
+
+  const totalCents = emptyCents()
+  let totalDesignFeeCents = 0
+  const totalSaleCents = { amount: 0, cost: 0 }
+
+  const projects = source.projects.map(project => {
+    const projectCents = emptyCents()
+    const byCategory = new Map<string, { cents: FigureCents; itemCount: number }>()
+
+    for (const item of source.items) {
+      if (item.projectId !== project.id || !isBilledItem(item)) continue
+      const transaction = item.transactionId ? transactionsById.get(item.transactionId) : undefined
+      const categoryId = transaction?.categoryId || furnishingsCategoryId || ''
+      const entry = byCategory.get(categoryId) ?? { cents: emptyCents(), itemCount: 0 }
+      const cents = itemCents(item)
+      addCents(entry.cents, cents)
+      entry.itemCount += 1
+      byCategory.set(categoryId, entry)
+      addCents(projectCents, cents)
+    }
+
+    let designFeeCents = 0
+    const saleCents = { amount: 0, cost: 0 }
+    for (const transaction of source.transactions) {
+      if (transaction.projectId !== project.id || !isActive(transaction)) continue
+      if (transaction.categoryId && designFeeCategoryIds.has(transaction.categoryId) && transaction.status !== 'pending') {
+        designFeeCents += toCents(transaction.amount) * (transaction.transactionType === 'Return' ? -1 : 1)
+      }
+      if (transaction.transactionId.startsWith(INVENTORY_SALE_PREFIX)) {
+        saleCents.amount += toCents(transaction.amount)
+        for (const itemId of transaction.itemIds || []) {
+          const item = itemsById.get(itemId)
+          if (item) saleCents.cost += itemCostCents(item)
+        }
+      }
+    }
+
+    addCents(totalCents, projectCents)
+    totalDesignFeeCents += designFeeCents
+    totalSaleCents.amount += saleCents.amount
+    totalSaleCents.cost += saleCents.cost
+
+    const categories: CategoryProfitability[] = Array.from(byCategory, ([categoryId, entry]) => ({
+      categoryId,
+      categoryName: (categoryId && categoryNames.get(categoryId)) || 'Uncategorized',
+      itemCount: entry.itemCount,
+      ...toFigures(entry.cents),
+    })).sort((a, b) => a.categoryName.localeCompare(b.categoryName))
+
+    return {
+      projectId: project.id,
+      projectName: project.name,
+      clientName: project.clientName,
+      ...toFigures(projectCents),
+      categories,
+      designFee: centsToMoney(designFeeCents),
+      inventorySales: {
+        amount: centsToMoney(saleCents.amount),
+        cost: centsToMoney(saleCents.cost),
+        margin: centsToMoney(saleCents.amount - saleCents.cost),
+      },
+      totalMargin: centsToMoney(projectCents.billed - projectCents.cost + designFeeCents + saleCents.amount - saleCents.cost),
+    }
+  })
+
+  return {
+    projects,
+    totals: {
+      ...toFigures(totalCents),
+      designFee: centsToMoney(totalDesignFeeCents),
+      inventorySales: {
+        amount: centsToMoney(totalSaleCents.amount),
+        cost: centsToMoney(totalSaleCents.cost),
+        margin: centsToMoney(totalSaleCents.amount - totalSaleCents.cost),
+      },
+      totalMargin: centsToMoney(
+        totalCents.billed - totalCents.cost + totalDesignFeeCents + totalSaleCents.amount - totalSaleCents.cost
+      ),
+    },
+  }
+}
+
+export function profitabilityReportToCsvRows(report: ProfitabilityReport): string[][] {
+  const header = [
+    'Client',
+    'Project',
+    'Category',
+    'Items',
+    'Cost',
+    'Billed',
+    'Markup %',
+    'Tax Paid',
+    'Tax Billed',
+    'Item Margin',
+    'Design Fee',
+    'Inventory Sales',
+    'Inventory Sale Cost',
+    'Inventory Sale Margin',
+    'Total Margin',
+  ]
+  const figureCells = (figures: ProfitabilityFigures) => [
+    figures.cost,
+    figures.billed,
+    figures.markupPercent === null ? '' : figures.markupPercent.toFixed(1),
+    figures.taxPaid,
+    figures.taxBilled,
+    figures.itemMargin,
+  ]
+  const rows: string[][] = []
+  for (const project of report.projects) {
+    const itemCount = project.categories.reduce((sum, category) => sum + category.itemCount, 0)
+    rows.push([
+      project.clientName || '',
+      project.projectName,
+      'All categories',
+      String(itemCount),
+      ...figureCells(project),
+      project.designFee,
+      project.inventorySales.amount,
+      project.inventorySales.cost,
+      project.inventorySales.margin,
+      project.totalMargin,
+    ])
+    for (const category of project.categories) {
+      rows.push([
+        project.clientName || '',
+        project.projectName,
+        category.categoryName,
+        String(category.itemCount),
+        ...figureCells(category),
+        '',
+        '',
+        '',
+        '',
+        '',
+      ])
+    }
+  }
+  const { totals } = report
+  rows.push([
+    'Total',
+    '',
+    '',
+    '',
+    ...figureCells(totals),
+    totals.designFee,
+    totals.inventorySales.amount,
+    totals.inventorySales.cost,
+    totals.inventorySales.margin,
+    totals.totalMargin,
+  ])
+  return [header, ...rows]
+}
@@ -0,0 +1,106 @@
+import type { Invoice, Payment, Transaction } from '@/types'
+import { CLIENT_OWES_COMPANY, COMPANY_OWES_CLIENT } from '@/constants/company'
+import { formatCurrency } from '@/utils/dateUtils'
+import { centsToMoney, toCents } from '@/utils/invoiceTextUtils'
+
+export type ProjectLedgerEntry = {
+  id: string
+  kind: 'transaction' | 'payment'
+  date: string // YYYY-MM-DD
+  description: string
+  /** Signed change to the balance: positive means the client owes more. */
+  amount: string
+  balance: string
+}
+
+export type ProjectBalance = {
+  owedToCompany: string // Client Owes Company transactions
+  owedToClient: string // Company Owes Client transactions
+  paymentsReceived: string // client -> company payments
+  paymentsIssued: string // company -> client payments
+  /** Positive: the client owes the company. Negative: the company owes the client. */
+  outstandingBalance: string
+  entries: ProjectLedgerEntry[]
+}
+
+type DraftEntry = Omit<ProjectLedgerEntry, 'amount' | 'balance'> & { cents: number }
+
+/**
+ * Nets reimbursable transactions against recorded payments into a running ledger.
+ * Entries on the same date keep transactions ahead of payments so a same-day payment
+ * never shows a temporary credit.
+ *
+ * This is the reimbursement view: it uses transaction amounts (what was spent). Invoices bill
+ * item project prices instead, so their unpaid total comes from `computeInvoiceBalanceDue` and
+ * is shown next to this balance rather than folded into it.
+ */
+export function computeProjectBalance(transactions: Transaction[], payments: Payment[]): ProjectBalance {
+  let owedToCompanyCents = 0
+  let owedToClientCents = 0
+  let receivedCents = 0
+  let issuedCents = 0
+  const drafts: DraftEntry[] = []
+
+  for (const t of transactions) {
+    if (t.status === 'canceled') continue
+    const cents = toCents(t.amount)
+    if (t.reimbursementType === CLIENT_OWES_COMPANY) {
+      owedToCompanyCents += cents
+      drafts.push({ id: t.transactionId, kind: 'transaction', date: t.transactionDate, description: t.source, cents })
+    } else if (t.reimbursementType === COMPANY_OWES_CLIENT) {
+      owedToClientCents += cents
+      drafts.push({ id: t.transactionId, kind: 'transaction', date: t.transactionDate, description: t.source, cents: -cents })
+    }
+  }
+
+  for (const p of payments) {
+    const cents = toCents(p.amount)
+    const label = [p.method, p.reference].filter(Boolean).join(' ')
+    if (p.direction === 'company_to_client') {
+      issuedCents += cents
+      drafts.push({ id: p.id, kind: 'payment', date: p.paymentDate, description: `Payment to client (${label})`, cents })
+    } else {
+      receivedCents += cents
+      drafts.push({ id: p.id, kind: 'payment', date: p.paymentDate, description: `Payment received (${label})`, cents: -cents })
+    }
+  }
+
+  drafts.sort((a, b) => {
+    const byDate = (a.date || '').localeCompare(b.date || '')
+    if (byDate !== 0) return byDate
+    if (a.kind !== b.kind) return a.kind === 'transaction' ? -1 : 1
+    return 0
+  })
+
+  let runningCents = 0
+  const entries = drafts.map(({ cents, ...entry }) => {
+    runningCents += cents
+    return { ...entry, amount: centsToMoney(cents), balance: centsToMoney(runningCents) }
+  })
+
+  return {
+    owedToCompany: centsToMoney(owedToCompanyCents),
+    owedToClient: centsToMoney(owedToClientCents),
+    paymentsReceived: centsToMoney(receivedCents),
+    paymentsIssued: centsToMoney(issuedCents),
+    outstandingBalance: centsToMoney(owedToCompanyCents - owedToClientCents - receivedCents + issuedCents),
+    entries,
+  }
+}
+
+/**
+ * Unpaid total on invoices the client has received (sent, partially paid or paid), i.e. the sum of
+ * `totalDue - amountPaid`. Drafts have not been billed yet and voided invoices are no longer owed.
+ */
+export function computeInvoiceBalanceDue(invoices: Invoice[]): string {
+  const cents = invoices
+    .filter(invoice => invoice.status === 'sent' || invoice.status === 'partially_paid' || invoice.status === 'paid')
+    .reduce((sum, invoice) => sum + toCents(invoice.totalDue) - toCents(invoice.amountPaid), 0)
+  return centsToMoney(cents)
+}
+
+/** Formats a balance as currency; a negative balance is a credit to the client, e.g. "$120.00 credit". */
+export function formatBalance(amount: string): string {
+  const cents = toCents(amount)
+  return cents < 0 ? `${formatCurrency(centsToMoney(-cents))} credit` : formatCurrency(centsToMoney(cents))
+}
@@ -0,0 +1,84 @@
+import type { Item } from '@/types'
+import { qrResolver } from '@/utils/routes'
+
+export type LabelTemplateId = 'avery-5160' | 'avery-5163'
+
+/** Sheet geometry in inches, measured from the top-left corner of a US Letter page. */
+export type LabelTemplate = {
+  id: LabelTemplateId
+  name: string
+  columns: number
+  rows: number
+  labelWidth: number
+  labelHeight: number
+  marginTop: number
+  marginLeft: number
+  columnGap: number
+  rowGap: number
+}
+
+export const LABEL_TEMPLATES: Record<LabelTemplateId, LabelTemplate> = {
+  'avery-5160': {
+    id: 'avery-5160',
+    name: 'Avery 5160 (1" × 2⅝", 30 per sheet)',
+    columns: 3,
+    rows: 10,
+    labelWidth: 2.625,
+    labelHeight: 1,
+    marginTop: 0.5,
+    marginLeft: 0.1875,
+    columnGap: 0.125,
+    rowGap: 0,
+  },
+  'avery-5163': {
+    id: 'avery-5163',
+    name: 'Avery 5163 (2" × 4", 10 per sheet)',
+    columns: 2,
+    rows: 5,
+    labelWidth: 4,
+    labelHeight: 2,
+    marginTop: 0.5,
+    marginLeft: 0.15625,
+    columnGap: 0.1875,
+    rowGap: 0,
+  },
+}
+
+export type QrLabel = {
+  itemId: string
+  qrKey: string
+  /** Absolute URL the QR code encodes; opening it resolves to the item. */
+  url: string
+  title: string
+  subtitle: string
+}
+
+const MAX_TITLE_LENGTH = 60
+
+export function buildQrLabel(item: Item, origin: string): QrLabel {
+  const title = (item.name || item.description || 'Item').trim()
+  return {
+    itemId: item.itemId,
+    qrKey: item.qrKey,
+    url: `${origin.replace(/\/$/, '')}${qrResolver(item.qrKey)}`,
+    title: title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title,
+    subtitle: [item.sku, item.source].filter(Boolean).join(' · '),
+  }
+}
+
+/**
+ * Splits labels into sheets, leaving the first `skip` positions of the first sheet empty so a
+ * partially used sheet can go back through the printer. Empty positions are null.
+ */
+export function paginateLabels<T>(labels: T[], template: LabelTemplate, skip = 0): Array<Array<T | null>> {
+  const perSheet = template.columns * template.rows
+  const offset = Math.min(Math.max(Math.floor(skip), 0), perSheet - 1)
+  const cells: Array<T | null> = [...Array<null>(offset).fill(null), ...labels]
+  const sheets: Array<Array<T | null>> = []
+  for (let start = 0; start < cells.length; start += perSheet) {
+    const sheet = cells.slice(start, start + perSheet)
+    while (sheet.length < perSheet) sheet.push(null)
+    sheets.push(sheet)
+  }
+  return sheets
+}
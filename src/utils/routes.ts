@@ -2,6 +2,23 @@ export type ProjectSection = 'items' | 'transactions' | 'budget'
 
 export const projectsRoot = () => '/projects'
 
+export const financialDashboard = () => '/reports/dashboard'
+
+export const receivablesAging = () => '/reports/ar-aging'
+
+export const accountingExport = () => '/reports/accounting-export'
+
+export const profitabilityReport = () => '/reports/profitability'
+
+export const salesTaxReport = () => '/reports/sales-tax'
+
+export const vendorSpendReport = () => '/reports/vendors'
+
+export const quickbooksCallback = () => '/settings/quickbooks/callback'
+
+export const sharedProject = (token: string) => `/share/${token}`
+export const itemApproval = (token: string) => `/approve/${token}`
+
 export const projectRoot = (projectId: string) => `/project/${projectId}`
 
 export const projectItems = (projectId: string) => `${projectRoot(projectId)}/items`
@@ -27,11 +44,32 @@ export const projectTransactionNew = (projectId: string) => `${projectTransactio
 export const projectTransactionImport = (projectId: string) =>
   `${projectTransactions(projectId)}/import-wayfair`
 
+export const projectTransactionImportInvoice = (projectId: string) =>
+  `${projectTransactions(projectId)}/import-invoice`
+
+export const projectTransactionImportSpreadsheet = (projectId: string) =>
+  `${projectTransactions(projectId)}/import-spreadsheet`
+
 export const projectBudget = (projectId: string) => `${projectRoot(projectId)}/budget`
 
 export const projectInvoice = (projectId: string) => `${projectRoot(projectId)}/invoice`
 
+export const projectInvoiceRecord = (projectId: string, invoiceId: string) =>
+  `${projectRoot(projectId)}/invoices/${invoiceId}`
+
+export const projectPayments = (projectId: string) => `${projectRoot(projectId)}/payments`
+
 export const projectClientSummary = (projectId: string) => `${projectRoot(projectId)}/client-summary`
 
 export const projectPropertyManagementSummary = (projectId: string) =>
   `${projectRoot(projectId)}/property-management-summary`
+
+export const businessInventoryItemDetail = (itemId: string) => `/business-inventory/${itemId}`
+
+export const inventoryCounts = () => '/business-inventory/counts'
+
+export const inventoryCountSession = (sessionId: string) => `${inventoryCounts()}/${sessionId}`
+
+export const qrResolver = (qrKey: string) => `/qr-image/${encodeURIComponent(qrKey)}`
+
+export const qrLabelSheet = (itemIds: string[]) => `/labels?items=${itemIds.map(encodeURIComponent).join(',')}`
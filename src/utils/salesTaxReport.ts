@@ -0,0 +1,139 @@
+import type { TaxPreset } from '@/constants/taxPresets'
+import type { Item, Transaction } from '@/types'
+import { splitTransactionTax } from '@/utils/accountingExport'
+import { centsToMoney, toCents } from '@/utils/invoiceTextUtils'
+
+/**
+ * Sales tax by filing period and jurisdiction (tax preset). Purchases come from transactions, with
+ * the tax backed out the same way the accounting export does; resale comes from the project price
+ * and tax on items, filed under their transaction's preset and date.
+ */
+
+export type TaxPeriodGranularity = 'month' | 'quarter'
+
+export type SalesTaxRow = {
+  period: string
+  /** Preset id, or `rate:<pct>` for transactions with a custom rate. */
+  jurisdictionKey: string
+  jurisdiction: string
+  /** Pre-tax amount of taxed purchases (returns subtract). */
+  purchaseBase: string
+  taxPaid: string
+  /** Project price of taxed items billed to clients. */
+  resaleBase: string
+  taxCharged: string
+}
+
+export type SalesTaxReport = {
+  rows: SalesTaxRow[]
+  totals: Omit<SalesTaxRow, 'period' | 'jurisdictionKey' | 'jurisdiction'>
+}
+
+export type SalesTaxSource = {
+  transactions: Transaction[]
+  /** Items allocated to projects. */
+  items: Item[]
+  presets: TaxPreset[]
+}
+
+type RowCents = { purchaseBase: number; taxPaid: number; resaleBase: number; taxCharged: number }
+
+const CUSTOM_PRESET_ID = 'Other'
+
+/** `2025-Q1` or `2025-01` for a YYYY-MM-DD date. */
+export function getTaxPeriod(date: string, granularity: TaxPeriodGranularity): string {
+  const year = date.slice(0, 4)
+  const month = Number(date.slice(5, 7))
+  return granularity === 'quarter' ? `${year}-Q${Math.ceil(month / 3)}` : `${year}-${date.slice(5, 7)}`
+}
+
+export function buildSalesTaxReport(
+  source: SalesTaxSource,
+  options: { startDate?: string; endDate?: string; granularity: TaxPeriodGranularity }
+): SalesTaxReport {
+  const presetsById = new Map(source.presets.map(preset => [preset.id, preset]))
+  const rows = new Map<string, RowCents & { period: string; jurisdictionKey: string; jurisdiction: string }>()
+
+  const jurisdictionFor = (transaction: Transaction): { key: string; label: string } | null => {
+    const preset = transaction.taxRatePreset && transaction.taxRatePreset !== CUSTOM_PRESET_ID
+      ? presetsById.get(transaction.taxRatePreset)
+      : undefined
+    if (preset) return { key: preset.id, label: preset.name }
+    if (transaction.taxRatePreset && transaction.taxRatePreset !== CUSTOM_PRESET_ID) {
+      return { key: transaction.taxRatePreset, label: transaction.taxRatePreset }
+    }
+    if (transaction.taxRatePct && transaction.taxRatePct > 0) {
+      return { key: `rate:${transaction.taxRatePct}`, label: `Custom ${transaction.taxRatePct}%` }
+    }
+    return null
+  }
+
+  const inRange = (date: string) =>
+    Boolean(date) && !(options.startDate && date < options.startDate) && !(options.endDate && date > options.endDate)
+
+  const rowFor = (transaction: Transaction) => {
+    const date = (transaction.transactionDate || '').slice(0, 10)
+    const jurisdiction = jurisdictionFor(transaction)
+    if (!jurisdiction || !inRange(date)) return null
+    const period = getTaxPeriod(date, options.granularity)
+    const key = `${period}|${jurisdiction.key}`
+    let row = rows.get(key)
+    if (!row) {
+      row = { period, jurisdictionKey: jurisdiction.key, jurisdiction: jurisdiction.label, purchaseBase: 0, taxPaid: 0, resaleBase: 0, taxCharged: 0 }
+      rows.set(key, row)
+    }
+    return row
+  }
+
+  const activeTransactions = new Map<string, Transaction>()
+  for (const transaction of source.transactions) {
+    if (transaction.status === 'canceled') continue
+    activeTransactions.set(transaction.transactionId, transaction)
+    const row = rowFor(transaction)
+    if (!row) continue
+    const split = splitTransactionTax(transaction)
+    const sign = transaction.transactionType === 'Return' ? -1 : 1
+    row.purchaseBase += sign * toCents(split.net)
+    row.taxPaid += sign * toCents(split.tax)
+  }
+
+  for (const item of source.items) {
+    const taxCents = toCents(item.taxAmountProjectPrice || '0')
+    if (!item.projectId || taxCents === 0 || item.disposition === 'returned') continue
+    const transaction = item.transactionId ? activeTransactions.get(item.transactionId) : undefined
+    const row = transaction ? rowFor(transaction) : null
+    if (!row) continue
+    row.resaleBase += toCents(item.projectPrice || '0')
+    row.taxCharged += taxCents
+  }
+
+  const sorted = Array.from(rows.values()).sort(
+    (a, b) => a.period.localeCompare(b.period) || a.jurisdiction.localeCompare(b.jurisdiction)
+  )
+  const totals: RowCents = { purchaseBase: 0, taxPaid: 0, resaleBase: 0, taxCharged: 0 }
+  for (const row of sorted) {
+    totals.purchaseBase += row.purchaseBase
+    totals.taxPaid += row.taxPaid
+    totals.resaleBase += row.resaleBase
+    totals.taxCharged += row.taxCharged
+  }
+
+  const toMoney = (cents: RowCents) => ({
+    purchaseBase: centsToMoney(cents.purchaseBase),
+    taxPaid: centsToMoney(cents.taxPaid),
+    resaleBase: centsToMoney(cents.resaleBase),
+    taxCharged: centsToMoney(cents.taxCharged),
+  })
+
+  return {
+    rows: sorted.map(row => ({ period: row.period, jurisdictionKey: row.jurisdictionKey, jurisdiction: row.jurisdiction, ...toMoney(row) })),
+    totals: toMoney(totals),
+  }
+}
+
+export function salesTaxReportToCsvRows(report: SalesTaxReport): string[][] {
+  const header = ['Period', 'Jurisdiction', 'Purchases (Pre-Tax)', 'Tax Paid', 'Resale (Pre-Tax)', 'Tax Charged']
+  const rows = report.rows.map(row => [row.period, row.jurisdiction, row.purchaseBase, row.taxPaid, row.resaleBase, row.taxCharged])
+  const { totals } = report
+  return [header, ...rows, ['Total', '', totals.purchaseBase, totals.taxPaid, totals.resaleBase, totals.taxCharged]]
+}
@@ -0,0 +1,74 @@
+import type { Item } from '@/types'
+
+export type ScannedCode =
+  | { kind: 'qr'; qrKey: string }
+  | { kind: 'barcode'; gtin: string }
+  | { kind: 'unknown'; raw: string }
+
+const QR_RESOLVER_PATTERN = /\/qr-image\/([^/?#]+)/
+const QR_KEY_PATTERN = /^QR-[\w-]+$/i
+const GTIN_LENGTHS = [8, 12, 13, 14]
+
+/** Pads EAN-8, UPC-A and EAN-13 codes to GTIN-14 so the same product compares equal. */
+export const toGtin14 = (digits: string): string => digits.padStart(14, '0')
+
+/** Validates the GS1 mod-10 check digit shared by EAN-8, UPC-A, EAN-13 and GTIN-14. */
+export function isValidGtin(code: string): boolean {
+  if (!/^\d+$/.test(code) || !GTIN_LENGTHS.includes(code.length)) return false
+  const digits = toGtin14(code).split('').map(Number)
+  const checkDigit = digits.pop() as number
+  const sum = digits.reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0)
+  return (10 - (sum % 10)) % 10 === checkDigit
+}
+
+/**
+ * Classifies a decoded camera or keyboard-wedge value. Item labels encode the resolver URL
+ * (see qrLabels), but bare QR keys are accepted too so older stickers still scan.
+ */
+export function parseScannedCode(raw: string): ScannedCode {
+  const value = raw.trim()
+  const resolverMatch = value.match(QR_RESOLVER_PATTERN)
+  if (resolverMatch) {
+    try {
+      return { kind: 'qr', qrKey: decodeURIComponent(resolverMatch[1]) }
+    } catch {
+      return { kind: 'unknown', raw: value }
+    }
+  }
+  if (QR_KEY_PATTERN.test(value)) {
+    return { kind: 'qr', qrKey: value }
+  }
+  if (isValidGtin(value)) {
+    return { kind: 'barcode', gtin: toGtin14(value) }
+  }
+  return { kind: 'unknown', raw: value }
+}
+
+/**
+ * Items whose SKU is the scanned product barcode. Vendors print UPC-A or EAN-13 on the box
+ * while SKUs are often saved with separators or without the leading zero, so both sides are
+ * reduced to GTIN-14 before comparing.
+ */
+export function findItemsByBarcode(items: Item[], gtin: string): Item[] {
+  return items.filter(item => {
+    const skuDigits = (item.sku || '').replace(/[\s-]/g, '')
+    return isValidGtin(skuDigits) && toGtin14(skuDigits) === gtin
+  })
+}
+
+/**
+ * Cameras decode the same code many times per second while it stays in frame. Returns a
+ * predicate that accepts a value only if it wasn't accepted within the last `windowMs`.
+ */
+export function createScanDebouncer(windowMs = 2500, now: () => number = Date.now): (value: string) => boolean {
+  const lastSeen = new Map<string, number>()
+  return (value: string) => {
+    const timestamp = now()
+    const previous = lastSeen.get(value)
+    if (previous !== undefined && timestamp - previous < windowMs) {
+      return false
+    }
+    lastSeen.set(value, timestamp)
+    return true
+  }
+}
@@ -0,0 +1,414 @@
+import type { BudgetCategory, TransactionItemFormData } from '@/types'
+import { normalizeMoneyToTwoDecimalString } from '@/utils/money'
+import { centsToMoney, parseDateToIso, toCents } from '@/utils/invoiceTextUtils'
+
+// CSV import for transaction/item history exported from spreadsheets (including the original
+// Apps Script system). Pure helpers only; the wizard UI lives in pages/ImportSpreadsheet.tsx.
+
+export type SpreadsheetImportField =
+  | 'transactionId'
+  | 'transactionDate'
+  | 'source'
+  | 'transactionType'
+  | 'paymentMethod'
+  | 'amount'
+  | 'budgetCategory'
+  | 'notes'
+  | 'itemDescription'
+  | 'itemSku'
+  | 'itemPurchasePrice'
+  | 'itemProjectPrice'
+  | 'itemMarketValue'
+  | 'itemSpace'
+  | 'itemNotes'
+
+export type SpreadsheetImportFieldDefinition = {
+  field: SpreadsheetImportField
+  label: string
+  target: 'transaction' | 'item'
+  required?: boolean
+  /** Normalized header names that map to this field automatically. */
+  aliases: string[]
+}
+
+export const SPREADSHEET_IMPORT_FIELDS: SpreadsheetImportFieldDefinition[] = [
+  { field: 'transactionId', label: 'Transaction ID', target: 'transaction', aliases: ['transactionid', 'transaction', 'txnid', 'id'] },
+  { field: 'transactionDate', label: 'Date', target: 'transaction', required: true, aliases: ['date', 'transactiondate', 'purchasedate', 'orderdate'] },
+  { field: 'source', label: 'Source / Vendor', target: 'transaction', required: true, aliases: ['source', 'vendor', 'store', 'retailer'] },
+  { field: 'transactionType', label: 'Type', target: 'transaction', aliases: ['type', 'transactiontype'] },
+  { field: 'paymentMethod', label: 'Payment Method', target: 'transaction', aliases: ['paymentmethod', 'payment', 'paidby', 'card'] },
+  { field: 'amount', label: 'Amount', target: 'transaction', required: true, aliases: ['amount', 'total', 'transactionamount', 'transactiontotal'] },
+  { field: 'budgetCategory', label: 'Budget Category', target: 'transaction', aliases: ['budgetcategory', 'category'] },
+  { field: 'notes', label: 'Transaction Notes', target: 'transaction', aliases: ['notes', 'transactionnotes', 'memo'] },
+  { field: 'itemDescription', label: 'Item Description', target: 'item', aliases: ['description', 'item', 'itemdescription', 'itemname'] },
+  { field: 'itemSku', label: 'Item SKU', target: 'item', aliases: ['sku', 'itemsku', 'model', 'modelnumber'] },
+  { field: 'itemPurchasePrice', label: 'Item Purchase Price', target: 'item', aliases: ['purchaseprice', 'price', 'cost', 'itemprice'] },
+  { field: 'itemProjectPrice', label: 'Item Project Price', target: 'item', aliases: ['projectprice', 'resaleprice', 'clientprice'] },
+  { field: 'itemMarketValue', label: 'Item Market Value', target: 'item', aliases: ['marketvalue', 'retailvalue', 'msrp'] },
+  { field: 'itemSpace', label: 'Item Space', target: 'item', aliases: ['space', 'room', 'location'] },
+  { field: 'itemNotes', label: 'Item Notes', target: 'item', aliases: ['itemnotes'] },
+]
+
+/** Field -> zero-based column index in the CSV. */
+export type SpreadsheetColumnMapping = Partial<Record<SpreadsheetImportField, number>>
+
+export type SpreadsheetImportIssue = {
+  rowNumber: number // 1-based, counting the header row as row 1
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export type SpreadsheetImportItemDraft = {
+  rowNumber: number
+  description: string
+  sku?: string
+  purchasePrice?: string
+  projectPrice?: string
+  marketValue?: string
+  space?: string
+  notes?: string
+  /**
+   * SKU already exists in the project (or earlier in the file). Shown as a warning only: the item is
+   * still imported so the transaction's items add up to its amount.
+   */
+  duplicate: boolean
+}
+
+export type SpreadsheetImportTransactionDraft = {
+  rowNumbers: number[]
+  legacyTransactionId?: string
+  transactionDate?: string // YYYY-MM-DD
+  source?: string
+  transactionType: string
+  paymentMethod?: string
+  amount?: string
+  categoryId?: string
+  notes?: string
+  items: SpreadsheetImportItemDraft[]
+  importStatus: 'ready' | 'duplicate' | 'invalid'
+}
+
+export type SpreadsheetImportPlan = {
+  transactions: SpreadsheetImportTransactionDraft[]
+  issues: SpreadsheetImportIssue[]
+  readyCount: number
+  duplicateCount: number
+  invalidCount: number
+}
+
+export type SpreadsheetImportContext = {
+  /** Legacy IDs of transactions already imported into the project (`Transaction.legacyTransactionId`). */
+  existingLegacyTransactionIds?: Iterable<string>
+  existingSkus?: Iterable<string>
+  categories?: Array<Pick<BudgetCategory, 'id' | 'name' | 'slug'>>
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+const normalizeSku = (value: string) => value.trim().toLowerCase()
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  const counts = [',', '\t', ';'].map(d => ({ d, n: firstLine.split(d).length - 1 }))
+  counts.sort((a, b) => b.n - a.n)
+  return counts[0].n > 0 ? counts[0].d : ','
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and newlines inside quotes.
+ * Spreadsheet "Save as CSV" output (comma, tab or semicolon separated) is what we expect here.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(input)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += ch
+      }
+      continue
+    }
+
+    if (ch === '"') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+export function guessColumnMapping(headers: string[]): SpreadsheetColumnMapping {
+  const mapping: SpreadsheetColumnMapping = {}
+  const used = new Set<number>()
+  const normalized = headers.map(normalizeHeader)
+
+  for (const def of SPREADSHEET_IMPORT_FIELDS) {
+    for (const alias of def.aliases) {
+      const idx = normalized.findIndex((h, i) => h === alias && !used.has(i))
+      if (idx >= 0) {
+        mapping[def.field] = idx
+        used.add(idx)
+        break
+      }
+    }
+  }
+
+  return mapping
+}
+
+function resolveCategoryId(
+  value: string,
+  categories: SpreadsheetImportContext['categories']
+): string | undefined {
+  if (!categories) return undefined
+  const needle = value.trim().toLowerCase()
+  const match = categories.find(c => c.name.toLowerCase() === needle || c.slug.toLowerCase() === needle)
+  return match?.id
+}
+
+function normalizeTransactionType(value: string | undefined): string | undefined {
+  if (!value) return 'Purchase'
+  const lower = value.trim().toLowerCase()
+  if (lower === 'purchase') return 'Purchase'
+  if (lower === 'return') return 'Return'
+  return undefined
+}
+
+/**
+ * Dry run: groups rows into transactions, normalizes money/dates, and flags duplicates.
+ * Nothing is written; the result drives both the preview table and the batch commit.
+ *
+ * Rows sharing a Transaction ID become one transaction. Without that column, a row with a date
+ * or amount starts a new transaction and rows that only carry item columns attach to it.
+ */
+export function planSpreadsheetImport(
+  rows: string[][],
+  mapping: SpreadsheetColumnMapping,
+  context: SpreadsheetImportContext = {}
+): SpreadsheetImportPlan {
+  const issues: SpreadsheetImportIssue[] = []
+  const existingLegacyTransactionIds = new Set(context.existingLegacyTransactionIds ?? [])
+  const seenSkus = new Set(Array.from(context.existingSkus ?? [], normalizeSku))
+
+  const read = (row: string[], field: SpreadsheetImportField): string | undefined => {
+    const idx = mapping[field]
+    if (idx === undefined) return undefined
+    const value = row[idx]?.trim()
+    return value ? value : undefined
+  }
+
+  const readMoney = (row: string[], field: SpreadsheetImportField, rowNumber: number, label: string) => {
+    const raw = read(row, field)
+    if (!raw) return undefined
+    const normalized = normalizeMoneyToTwoDecimalString(raw)
+    if (!normalized) {
+      issues.push({ rowNumber, severity: 'error', message: `${label} "${raw}" is not a valid amount.` })
+    }
+    return normalized
+  }
+
+  type Group = {
+    draft: SpreadsheetImportTransactionDraft
+    invalid: boolean
+    /** Fields whose value was present but unparseable, so "is required" would be redundant. */
+    reported: Set<SpreadsheetImportField>
+  }
+  const groups: Group[] = []
+  const groupsByLegacyId = new Map<string, Group>()
+  let current: Group | undefined
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2
+    const legacyId = read(row, 'transactionId')
+    const startsTransaction = Boolean(legacyId) || Boolean(read(row, 'transactionDate') || read(row, 'amount'))
+
+    const existingGroup = legacyId ? groupsByLegacyId.get(legacyId) : startsTransaction ? undefined : current
+    let group: Group
+    if (existingGroup) {
+      group = existingGroup
+      group.draft.rowNumbers.push(rowNumber)
+    } else {
+      group = {
+        draft: {
+          rowNumbers: [rowNumber],
+          legacyTransactionId: legacyId,
+          transactionType: 'Purchase',
+          items: [],
+          importStatus: 'ready',
+        },
+        invalid: false,
+        reported: new Set(),
+      }
+      groups.push(group)
+      if (legacyId) groupsByLegacyId.set(legacyId, group)
+    }
+    current = group
+
+    const draft = group.draft
+    const issueCountBefore = issues.filter(i => i.severity === 'error').length
+
+    // Transaction fields: the first row that provides a value wins.
+    const rawDate = read(row, 'transactionDate')
+    if (rawDate && !draft.transactionDate) {
+      draft.transactionDate = parseDateToIso(rawDate)
+      if (!draft.transactionDate) {
+        issues.push({ rowNumber, severity: 'error', message: `Date "${rawDate}" could not be parsed.` })
+        group.reported.add('transactionDate')
+      }
+    }
+    draft.source = draft.source || read(row, 'source')
+    draft.paymentMethod = draft.paymentMethod || read(row, 'paymentMethod')
+    draft.notes = draft.notes || read(row, 'notes')
+    if (draft.amount === undefined && !group.reported.has('amount')) {
+      draft.amount = readMoney(row, 'amount', rowNumber, 'Amount')
+      if (draft.amount === undefined && read(row, 'amount')) group.reported.add('amount')
+    }
+
+    const rawType = read(row, 'transactionType')
+    if (rawType) {
+      const type = normalizeTransactionType(rawType)
+      if (type) {
+        draft.transactionType = type
+      } else {
+        issues.push({ rowNumber, severity: 'warning', message: `Unknown type "${rawType}"; importing as Purchase.` })
+      }
+    }
+
+    const rawCategory = read(row, 'budgetCategory')
+    if (rawCategory && !draft.categoryId) {
+      draft.categoryId = resolveCategoryId(rawCategory, context.categories)
+      if (!draft.categoryId) {
+        issues.push({ rowNumber, severity: 'warning', message: `Budget category "${rawCategory}" was not found; it will be left blank.` })
+      }
+    }
+
+    // Item fields
+    const description = read(row, 'itemDescription')
+    const sku = read(row, 'itemSku')
+    const purchasePrice = readMoney(row, 'itemPurchasePrice', rowNumber, 'Purchase price')
+    const projectPrice = readMoney(row, 'itemProjectPrice', rowNumber, 'Project price')
+    const marketValue = readMoney(row, 'itemMarketValue', rowNumber, 'Market value')
+    const space = read(row, 'itemSpace')
+    const itemNotes = read(row, 'itemNotes')
+    const hasItemData = Boolean(description || sku || purchasePrice || projectPrice || marketValue || space || itemNotes)
+
+    if (hasItemData) {
+      if (!description) {
+        issues.push({ rowNumber, severity: 'error', message: 'Item description is required when item columns are filled in.' })
+      }
+      let duplicate = false
+      if (sku) {
+        const key = normalizeSku(sku)
+        if (seenSkus.has(key)) {
+          duplicate = true
+          issues.push({ rowNumber, severity: 'warning', message: `SKU "${sku}" already exists; this item will be imported again.` })
+        }
+        seenSkus.add(key)
+      }
+      draft.items.push({
+        rowNumber,
+        description: description || '',
+        sku,
+        purchasePrice,
+        projectPrice,
+        marketValue,
+        space,
+        notes: itemNotes,
+        duplicate,
+      })
+    }
+
+    if (issues.filter(i => i.severity === 'error').length > issueCountBefore) {
+      group.invalid = true
+    }
+  })
+
+  for (const group of groups) {
+    const { draft } = group
+    const firstRow = draft.rowNumbers[0]
+
+    if (draft.amount === undefined && !group.reported.has('amount') && draft.items.length > 0) {
+      const pricedItems = draft.items.filter(item => item.purchasePrice)
+      if (pricedItems.length > 0) {
+        draft.amount = centsToMoney(pricedItems.reduce((sum, item) => sum + toCents(item.purchasePrice), 0))
+        issues.push({ rowNumber: firstRow, severity: 'warning', message: `No amount given; using the sum of item purchase prices ($${draft.amount}).` })
+      }
+    }
+
+    const missing = SPREADSHEET_IMPORT_FIELDS
+      .filter(def => def.required)
+      .filter(def => {
+        if (def.field === 'transactionDate') return !draft.transactionDate
+        if (def.field === 'source') return !draft.source
+        if (def.field === 'amount') return draft.amount === undefined
+        return false
+      })
+    for (const def of missing) {
+      if (!group.reported.has(def.field)) {
+        issues.push({ rowNumber: firstRow, severity: 'error', message: `${def.label} is required.` })
+      }
+      group.invalid = true
+    }
+
+    if (draft.legacyTransactionId && existingLegacyTransactionIds.has(draft.legacyTransactionId)) {
+      draft.importStatus = 'duplicate'
+      issues.push({ rowNumber: firstRow, severity: 'warning', message: `Transaction ${draft.legacyTransactionId} already exists and will be skipped.` })
+    } else if (group.invalid) {
+      draft.importStatus = 'invalid'
+    }
+  }
+
+  const transactions = groups.map(g => g.draft)
+  issues.sort((a, b) => a.rowNumber - b.rowNumber)
+
+  return {
+    transactions,
+    issues,
+    readyCount: transactions.filter(t => t.importStatus === 'ready').length,
+    duplicateCount: transactions.filter(t => t.importStatus === 'duplicate').length,
+    invalidCount: transactions.filter(t => t.importStatus === 'invalid').length,
+  }
+}
+
+/** Items to pass to `transactionService.createTransaction`, including duplicate SKUs. */
+export function toTransactionItemFormData(draft: SpreadsheetImportTransactionDraft): TransactionItemFormData[] {
+  return draft.items.map(item => ({
+    id: `csv-${item.rowNumber}`,
+    description: item.description,
+    sku: item.sku,
+    price: item.purchasePrice,
+    purchasePrice: item.purchasePrice,
+    projectPrice: item.projectPrice,
+    marketValue: item.marketValue,
+    space: item.space,
+    notes: item.notes,
+  }))
+}
@@ -0,0 +1,281 @@
+import type { TransactionSource } from '@/constants/transactionSources'
+import type { Dimensions } from '@/types'
+import { parseAmazonInvoiceText, type AmazonInvoiceLineItem } from '@/utils/amazonInvoiceParser'
+import {
+  parseHomeImprovementReceiptText,
+  type HomeImprovementReceiptParseResult,
+  type HomeImprovementRetailer,
+} from '@/utils/homeImprovementReceiptParser'
+import { dimensionsFromAttributeLines } from '@/utils/itemPhysicalDetails'
+import type { PdfEmbeddedImageExtractionOptions } from '@/utils/pdfEmbeddedImageExtraction'
+import { parseWayfairInvoiceText, type WayfairInvoiceLineItem } from '@/utils/wayfairInvoiceParser'
+
+/**
+ * Vendor-agnostic line item produced by every invoice parser.
+ * Money fields are two-decimal strings (see `normalizeMoneyToTwoDecimalString`).
+ */
+export type VendorInvoiceLineItem = {
+  description: string
+  sku?: string
+  qty: number
+  unitPrice?: string
+  subtotal?: string
+  shipping?: string
+  /** Discount/promotion applied to the line, stored as a positive amount that reduces the price. */
+  adjustment?: string
+  tax?: string
+  total: string
+  /** Raw attribute lines (e.g. "Color: Taupe") appended into item notes during import. */
+  attributeLines?: string[]
+  /** Vendor-specific context (ship dates, fulfillment status) appended into item notes during import. */
+  noteLines?: string[]
+  /** Dimensions parsed from a measurement-style size attribute, saved on the imported items. */
+  dimensions?: Dimensions
+}
+
+export type VendorInvoiceParseResult = {
+  vendor: TransactionSource
+  invoiceNumber?: string
+  orderDate?: string // YYYY-MM-DD
+  orderTotal?: string
+  subtotal?: string
+  shippingTotal?: string
+  taxTotal?: string
+  adjustmentsTotal?: string
+  calculatedSubtotal?: string // order total - tax total
+  lineItems: VendorInvoiceLineItem[]
+  warnings: string[]
+}
+
+export type VendorInvoiceParser = {
+  vendor: TransactionSource
+  /**
+   * Scores how strongly the extracted PDF text looks like this vendor's invoice.
+   * Return 0 when the text is clearly not from this vendor.
+   */
+  detect: (fullText: string) => number
+  parse: (fullText: string) => VendorInvoiceParseResult
+  /** Embedded thumbnail extraction settings; omit for vendors whose PDFs carry no item images. */
+  thumbnailExtraction?: PdfEmbeddedImageExtractionOptions
+  /** Budget category (matched by name/slug) pre-selected on import when the user hasn't picked one. */
+  defaultBudgetCategoryName?: string
+}
+
+function countMatches(text: string, regex: RegExp): number {
+  return (text.match(regex) || []).length
+}
+
+function toWayfairAttributeLines(li: WayfairInvoiceLineItem): string[] | undefined {
+  if (li.attributeLines && li.attributeLines.length > 0) return li.attributeLines
+  const lines: string[] = []
+  if (li.attributes?.color) lines.push(`Color: ${li.attributes.color}`)
+  if (li.attributes?.size) lines.push(`Size: ${li.attributes.size}`)
+  return lines.length > 0 ? lines : undefined
+}
+
+function toWayfairNoteLines(li: WayfairInvoiceLineItem): string[] | undefined {
+  const noteLines: string[] = []
+  if (li.shippedOn) noteLines.push(`Wayfair shipped on ${li.shippedOn}`)
+  if (li.section === 'to_be_shipped') noteLines.push('Wayfair: items to be shipped')
+  return noteLines.length > 0 ? noteLines : undefined
+}
+
+export const wayfairInvoiceParser: VendorInvoiceParser = {
+  vendor: 'Wayfair',
+  detect: (fullText) => {
+    let score = 0
+    score += Math.min(countMatches(fullText, /\bwayfair\b/gi), 5) * 2
+    score += Math.min(countMatches(fullText, /\bW\d{8,10}\b/g), 5)
+    if (/\bShipped\s+On\b/i.test(fullText)) score += 1
+    if (/\bItems\s+to\s+be\s+Shipped\b/i.test(fullText)) score += 1
+    return score
+  },
+  parse: (fullText) => {
+    const result = parseWayfairInvoiceText(fullText)
+    return {
+      vendor: 'Wayfair',
+      invoiceNumber: result.invoiceNumber,
+      orderDate: result.orderDate,
+      orderTotal: result.orderTotal,
+      subtotal: result.subtotal,
+      shippingTotal: result.shippingDeliveryTotal,
+      taxTotal: result.taxTotal,
+      adjustmentsTotal: result.adjustmentsTotal,
+      calculatedSubtotal: result.calculatedSubtotal,
+      lineItems: result.lineItems.map(li => {
+        const attributeLines = toWayfairAttributeLines(li)
+        return {
+          description: li.description,
+          sku: li.sku,
+          qty: li.qty,
+          unitPrice: li.unitPrice,
+          subtotal: li.subtotal,
+          shipping: li.shipping,
+          adjustment: li.adjustment,
+          tax: li.tax,
+          total: li.total,
+          attributeLines,
+          noteLines: toWayfairNoteLines(li),
+          dimensions: dimensionsFromAttributeLines(attributeLines),
+        }
+      }),
+      warnings: result.warnings,
+    }
+  },
+  // tuned for Wayfair invoice thumbnails (small, left side)
+  thumbnailExtraction: {
+    pdfBoxSizeFilter: { min: 15, max: 180 },
+    xMinMax: 220,
+  },
+}
+
+function toAmazonNoteLines(li: AmazonInvoiceLineItem): string[] | undefined {
+  if (li.shippedOn) return [`Amazon shipped on ${li.shippedOn}`]
+  if (li.section === 'not_yet_shipped') return ['Amazon: not yet shipped']
+  return undefined
+}
+
+export const amazonInvoiceParser: VendorInvoiceParser = {
+  vendor: 'Amazon',
+  detect: (fullText) => {
+    let score = 0
+    score += Math.min(countMatches(fullText, /\bamazon(?:\.com)?\b/gi), 5) * 2
+    if (/\b[A-Z0-9]\d{2}-\d{7}-\d{7}\b/.test(fullText)) score += 3
+    score += Math.min(countMatches(fullText, /^\s*\d{1,3}\s+of:/gim), 5)
+    return score
+  },
+  parse: (fullText) => {
+    const result = parseAmazonInvoiceText(fullText)
+    return {
+      vendor: 'Amazon',
+      invoiceNumber: result.orderNumber,
+      orderDate: result.orderDate,
+      orderTotal: result.orderTotal,
+      subtotal: result.itemsSubtotal,
+      shippingTotal: result.shippingTotal,
+      taxTotal: result.taxTotal,
+      adjustmentsTotal: result.promotionsTotal,
+      calculatedSubtotal: result.calculatedSubtotal,
+      lineItems: result.lineItems.map(li => ({
+        description: li.description,
+        qty: li.qty,
+        unitPrice: li.unitPrice,
+        subtotal: li.subtotal,
+        shipping: li.shipping,
+        adjustment: li.adjustment,
+        tax: li.tax,
+        total: li.total,
+        attributeLines: li.attributeLines,
+        noteLines: toAmazonNoteLines(li),
+      })),
+      warnings: result.warnings,
+    }
+  },
+}
+
+function toHomeImprovementResult(result: HomeImprovementReceiptParseResult): VendorInvoiceParseResult {
+  const storeNote = result.storeNumber ? `${result.retailer} store #${result.storeNumber}` : undefined
+  return {
+    vendor: result.retailer,
+    invoiceNumber: result.receiptNumber,
+    orderDate: result.orderDate,
+    orderTotal: result.orderTotal,
+    subtotal: result.subtotal,
+    taxTotal: result.taxTotal,
+    adjustmentsTotal: result.discountsTotal,
+    calculatedSubtotal: result.calculatedSubtotal,
+    lineItems: result.lineItems.map(li => ({
+      description: li.description,
+      sku: li.sku,
+      qty: li.qty,
+      unitPrice: li.unitPrice,
+      subtotal: li.subtotal,
+      adjustment: li.adjustment,
+      tax: li.tax,
+      total: li.total,
+      attributeLines: li.modelNumber ? [`Model #: ${li.modelNumber}`] : undefined,
+      noteLines: storeNote ? [storeNote] : undefined,
+    })),
+    warnings: result.warnings,
+  }
+}
+
+function createHomeImprovementParser(retailer: HomeImprovementRetailer, namePattern: RegExp): VendorInvoiceParser {
+  return {
+    vendor: retailer,
+    detect: (fullText) => {
+      let score = Math.min(countMatches(fullText, namePattern), 5) * 2
+      if (score > 0 && /\bModel\s*#/i.test(fullText)) score += 1
+      return score
+    },
+    parse: (fullText) => toHomeImprovementResult(parseHomeImprovementReceiptText(fullText, retailer)),
+    // Install crews buy from these retailers; their receipts are almost always install materials.
+    defaultBudgetCategoryName: 'Install',
+  }
+}
+
+export const homeDepotReceiptParser = createHomeImprovementParser('Home Depot', /\bhome\s*depot\b/gi)
+export const lowesReceiptParser = createHomeImprovementParser('Lowes', /\blowe['’]?s\b/gi)
+
+const registry: VendorInvoiceParser[] = [
+  wayfairInvoiceParser,
+  amazonInvoiceParser,
+  homeDepotReceiptParser,
+  lowesReceiptParser,
+]
+
+/**
+ * Adds (or replaces) the parser for a vendor. Parsers are consulted in registration order
+ * when detection scores tie.
+ */
+export function registerVendorInvoiceParser(parser: VendorInvoiceParser): void {
+  const existingIndex = registry.findIndex(p => p.vendor === parser.vendor)
+  if (existingIndex >= 0) {
+    registry[existingIndex] = parser
+  } else {
+    registry.push(parser)
+  }
+}
+
+/**
+ * Removes the parser registered for a vendor, e.g. one a test registered.
+ */
+export function unregisterVendorInvoiceParser(vendor: string): void {
+  const existingIndex = registry.findIndex(p => p.vendor === vendor)
+  if (existingIndex >= 0) {
+    registry.splice(existingIndex, 1)
+  }
+}
+
+export function getVendorInvoiceParsers(): VendorInvoiceParser[] {
+  return [...registry]
+}
+
+export function getVendorInvoiceParser(vendor: string): VendorInvoiceParser | undefined {
+  const key = vendor.trim().toLowerCase()
+  return registry.find(p => p.vendor.toLowerCase() === key)
+}
+
+/**
+ * Picks the parser whose `detect` score is highest for the extracted text.
+ * Returns undefined when no registered vendor recognizes the document.
+ */
+export function detectInvoiceVendor(fullText: string): VendorInvoiceParser | undefined {
+  let best: { parser: VendorInvoiceParser; score: number } | undefined
+  for (const parser of registry) {
+    const score = parser.detect(fullText)
+    if (score > 0 && (!best || score > best.score)) {
+      best = { parser, score }
+    }
+  }
+  return best?.parser
+}
+
+/**
+ * Routes extracted invoice text to a vendor-specific parser.
+ * When `vendor` is provided it wins over detection (used when the user overrides the detected vendor).
+ */
+export function parseVendorInvoiceText(fullText: string, vendor?: string): VendorInvoiceParseResult | undefined {
+  const parser = vendor ? getVendorInvoiceParser(vendor) : detectInvoiceVendor(fullText)
+  return parser?.parse(fullText)
+}
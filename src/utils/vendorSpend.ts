@@ -0,0 +1,183 @@
+import { INTERNAL_INVENTORY_TRANSACTION_PREFIXES } from '@/constants/company'
+import { TRANSACTION_SOURCES } from '@/constants/transactionSources'
+import type { Item, Project, Transaction } from '@/types'
+import { dispositionsEqual } from '@/utils/dispositionUtils'
+import { centsToMoney, toCents } from '@/utils/invoiceTextUtils'
+
+export type VendorProjectSpend = { projectId: string; projectName: string; netSpend: string }
+
+export type VendorSpend = {
+  vendor: string
+  purchaseCount: number
+  purchaseTotal: string
+  returnCount: number
+  returnTotal: string
+  netSpend: string
+  averageOrder: string
+  /** Returned dollars over purchased dollars, or null with no purchases. */
+  returnRate: number | null
+  itemCount: number
+  returnedItemCount: number
+  /** Net spend per YYYY-MM, oldest first. */
+  monthly: Array<{ month: string; netSpend: string }>
+  projects: VendorProjectSpend[]
+}
+
+export type VendorSpendSource = {
+  projects: Project[]
+  transactions: Transaction[]
+  items: Item[]
+  /** Vendor names from the account's vendor defaults. */
+  vendorDefaults: string[]
+}
+
+/** Comparison key for vendor names: case, spacing, punctuation and "&" vs "and" are ignored. */
+export const vendorKey = (name: string): string =>
+  name.toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]/g, '')
+
+/**
+ * Maps a free-typed source onto a known vendor name ("west elm " -> "West Elm"), matching
+ * case-insensitively and ignoring punctuation. Unknown sources are kept as typed.
+ */
+export function createVendorNormalizer(vendorDefaults: string[]): (source: string) => string {
+  const known = new Map<string, string>()
+  // Vendor defaults win over the built-in list so an account's spelling is the one shown.
+  for (const name of [...TRANSACTION_SOURCES, ...vendorDefaults]) {
+    const key = vendorKey(name)
+    if (key) known.set(key, name)
+  }
+  return (source: string) => {
+    const trimmed = (source || '').trim()
+    return known.get(vendorKey(trimmed)) || trimmed || 'Unknown'
+  }
+}
+
+export function buildVendorSpend(
+  source: VendorSpendSource,
+  range: { startDate?: string; endDate?: string } = {}
+): VendorSpend[] {
+  const normalize = createVendorNormalizer(source.vendorDefaults)
+  const projectNames = new Map(source.projects.map(project => [project.id, project.name]))
+  const inRange = (date: string) =>
+    !(range.startDate && date < range.startDate) && !(range.endDate && date > range.endDate)
+
+  type Accumulator = {
+    vendor: string
+    purchaseCount: number
+    purchaseCents: number
+    returnCount: number
+    returnCents: number
+    itemCount: number
+    returnedItemCount: number
+    monthly: Map<string, number>
+    projects: Map<string, number>
+  }
+  const vendors = new Map<string, Accumulator>()
+  const accumulatorFor = (rawSource: string): Accumulator => {
+    const vendor = normalize(rawSource)
+    const key = vendorKey(vendor) || vendor
+    let entry = vendors.get(key)
+    if (!entry) {
+      entry = {
+        vendor,
+        purchaseCount: 0,
+        purchaseCents: 0,
+        returnCount: 0,
+        returnCents: 0,
+        itemCount: 0,
+        returnedItemCount: 0,
+        monthly: new Map(),
+        projects: new Map(),
+      }
+      vendors.set(key, entry)
+    }
+    return entry
+  }
+
+  for (const transaction of source.transactions) {
+    if (transaction.status === 'canceled') continue
+    if (INTERNAL_INVENTORY_TRANSACTION_PREFIXES.some(prefix => transaction.transactionId.startsWith(prefix))) continue
+    const date = (transaction.transactionDate || '').slice(0, 10)
+    if (!inRange(date)) continue
+
+    const entry = accumulatorFor(transaction.source)
+    const cents = toCents(transaction.amount)
+    const isReturn = transaction.transactionType === 'Return'
+    if (isReturn) {
+      entry.returnCount += 1
+      entry.returnCents += cents
+    } else {
+      entry.purchaseCount += 1
+      entry.purchaseCents += cents
+    }
+    const signed = isReturn ? -cents : cents
+    const month = date.slice(0, 7)
+    entry.monthly.set(month, (entry.monthly.get(month) ?? 0) + signed)
+    if (transaction.projectId) {
+      entry.projects.set(transaction.projectId, (entry.projects.get(transaction.projectId) ?? 0) + signed)
+    }
+  }
+
+  for (const item of source.items) {
+    if (!item.source || !inRange((item.dateCreated || '').slice(0, 10))) continue
+    const entry = accumulatorFor(item.source)
+    entry.itemCount += 1
+    if (dispositionsEqual(item.disposition, 'returned')) entry.returnedItemCount += 1
+  }
+
+  return Array.from(vendors.values())
+    .filter(entry => entry.purchaseCount + entry.returnCount > 0)
+    .map(entry => ({
+      vendor: entry.vendor,
+      purchaseCount: entry.purchaseCount,
+      purchaseTotal: centsToMoney(entry.purchaseCents),
+      returnCount: entry.returnCount,
+      returnTotal: centsToMoney(entry.returnCents),
+      netSpend: centsToMoney(entry.purchaseCents - entry.returnCents),
+      averageOrder: centsToMoney(entry.purchaseCount > 0 ? Math.round(entry.purchaseCents / entry.purchaseCount) : 0),
+      returnRate: entry.purchaseCents > 0 ? Math.round((entry.returnCents / entry.purchaseCents) * 1000) / 10 : null,
+      itemCount: entry.itemCount,
+      returnedItemCount: entry.returnedItemCount,
+      monthly: Array.from(entry.monthly, ([month, cents]) => ({ month, netSpend: centsToMoney(cents) })).sort((a, b) =>
+        a.month.localeCompare(b.month)
+      ),
+      projects: Array.from(entry.projects)
+        .sort((a, b) => b[1] - a[1])
+        .map(([projectId, cents]) => ({
+          projectId,
+          projectName: projectNames.get(projectId) || 'Unknown project',
+          netSpend: centsToMoney(cents),
+        })),
+    }))
+    .sort((a, b) => toCents(b.netSpend) - toCents(a.netSpend) || a.vendor.localeCompare(b.vendor))
+}
+
+export function vendorSpendToCsvRows(vendors: VendorSpend[]): string[][] {
+  const header = [
+    'Vendor',
+    'Purchases',
+    'Purchase Total',
+    'Returns',
+    'Return Total',
+    'Net Spend',
+    'Average Order',
+    'Return Rate %',
+    'Items',
+    'Items Returned',
+    'Projects',
+  ]
+  const rows = vendors.map(vendor => [
+    vendor.vendor,
+    String(vendor.purchaseCount),
+    vendor.purchaseTotal,
+    String(vendor.returnCount),
+    vendor.returnTotal,
+    vendor.netSpend,
+    vendor.averageOrder,
+    vendor.returnRate === null ? '' : vendor.returnRate.toFixed(1),
+    String(vendor.itemCount),
+    String(vendor.returnedItemCount),
+    vendor.projects.map(project => project.projectName).join('; '),
+  ])
+  return [header, ...rows]
+}
@@ -0,0 +1,89 @@
+import type { Item, WarehouseLocation, WarehouseLocationKind } from '@/types'
+
+export const WAREHOUSE_LOCATION_KINDS: WarehouseLocationKind[] = ['warehouse', 'zone', 'shelf', 'bin']
+
+export const WAREHOUSE_LOCATION_LABELS: Record<WarehouseLocationKind, string> = {
+  warehouse: 'Warehouse',
+  zone: 'Zone',
+  shelf: 'Shelf',
+  bin: 'Bin',
+}
+
+/** Separator used in `Item.businessInventoryLocation`; the backfill migration splits on it too. */
+export const LOCATION_PATH_SEPARATOR = ' › '
+
+/** The kind that may be created directly under `kind`, or null for bins. */
+export function childKind(kind: WarehouseLocationKind): WarehouseLocationKind | null {
+  return WAREHOUSE_LOCATION_KINDS[WAREHOUSE_LOCATION_KINDS.indexOf(kind) + 1] ?? null
+}
+
+const compareNames = (a: WarehouseLocation, b: WarehouseLocation) =>
+  a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' })
+
+/** Children of `parentId` (warehouses when null), sorted so "Bin 2" comes before "Bin 10". */
+export function getChildLocations(locations: WarehouseLocation[], parentId: string | null): WarehouseLocation[] {
+  return locations.filter(location => location.parentId === parentId).sort(compareNames)
+}
+
+/** Ancestors of a location from its warehouse down to the location itself; empty if it isn't found. */
+export function getLocationPath(locations: WarehouseLocation[], locationId: string | null | undefined): WarehouseLocation[] {
+  const byId = new Map(locations.map(location => [location.id, location]))
+  const path: WarehouseLocation[] = []
+  let current = locationId ? byId.get(locationId) : undefined
+  while (current && path.length < WAREHOUSE_LOCATION_KINDS.length) {
+    path.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+export function formatLocationPath(path: WarehouseLocation[]): string {
+  return path.map(location => location.name).join(LOCATION_PATH_SEPARATOR)
+}
+
+/** The location and everything stored under it, for "show items in Zone B" style filtering. */
+export function getDescendantIds(locations: WarehouseLocation[], locationId: string): Set<string> {
+  const ids = new Set([locationId])
+  let added = true
+  while (added) {
+    added = false
+    for (const location of locations) {
+      if (location.parentId && ids.has(location.parentId) && !ids.has(location.id)) {
+        ids.add(location.id)
+        added = true
+      }
+    }
+  }
+  return ids
+}
+
+export type LocationTreeRow = {
+  location: WarehouseLocation
+  depth: number
+  /** Items stored at this location or anywhere beneath it. */
+  itemCount: number
+}
+
+/** Depth-first rows of the whole hierarchy with rolled-up item counts, for browse lists and filters. */
+export function buildLocationTree(locations: WarehouseLocation[], items: Item[]): LocationTreeRow[] {
+  const directCounts = new Map<string, number>()
+  for (const item of items) {
+    if (item.warehouseLocationId) {
+      directCounts.set(item.warehouseLocationId, (directCounts.get(item.warehouseLocationId) ?? 0) + 1)
+    }
+  }
+
+  const rows: LocationTreeRow[] = []
+  const visit = (parentId: string | null, depth: number): number => {
+    let total = 0
+    for (const location of getChildLocations(locations, parentId)) {
+      const row: LocationTreeRow = { location, depth, itemCount: 0 }
+      rows.push(row)
+      row.itemCount = (directCounts.get(location.id) ?? 0) + visit(location.id, depth + 1)
+      total += row.itemCount
+    }
+    return total
+  }
+  visit(null, 0)
+  return rows
+}
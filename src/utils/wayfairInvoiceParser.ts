@@ -1,4 +1,11 @@
 import { normalizeMoneyToTwoDecimalString, parseMoneyToNumber } from '@/utils/money'
+import {
+  absMoneyString,
+  extractFirstMatch,
+  extractMoneyTokens,
+  normalizeLines,
+  parseDateToIso,
+} from '@/utils/invoiceTextUtils'
 
 export type WayfairInvoiceLineItem = {
   description: string
@@ -72,82 +79,6 @@ const ORDER_LEVEL_ATTRIBUTE_EXACT = new Set([
   'tax exemption certificate',
 ])
 
-function toIsoDate(date: Date): string {
-  const yyyy = date.getFullYear()
-  const mm = String(date.getMonth() + 1).padStart(2, '0')
-  const dd = String(date.getDate()).padStart(2, '0')
-  return `${yyyy}-${mm}-${dd}`
-}
-
-function parseDateToIso(input: string): string | undefined {
-  const s = input.trim()
-  if (!s) return undefined
-
-  // 1) MM/DD/YYYY
-  const mdy = s.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/)
-  if (mdy) {
-    const month = Number(mdy[1])
-    const day = Number(mdy[2])
-    const year = Number(mdy[3])
-    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
-      const d = new Date(Date.UTC(year, month - 1, day))
-      return toIsoDate(new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()))
-    }
-  }
-
-  // 2) Month DD, YYYY (e.g., Dec 1, 2024)
-  const monthName = s.match(/\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\s+(\d{1,2}),\s*(\d{4})\b/i)
-  if (monthName) {
-    const monthKey = monthName[1].toLowerCase().slice(0, 3)
-    const monthIndex: Record<string, number> = {
-      jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
-      jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
-    }
-    const month = monthIndex[monthKey]
-    const day = Number(monthName[2])
-    const year = Number(monthName[3])
-    if (month !== undefined && day >= 1 && day <= 31) {
-      const d = new Date(year, month, day)
-      return toIsoDate(d)
-    }
-  }
-
-  // 3) Fallback to Date.parse
-  const parsed = Date.parse(s)
-  if (Number.isFinite(parsed)) {
-    return toIsoDate(new Date(parsed))
-  }
-
-  return undefined
-}
-
-function extractFirstMatch(text: string, regex: RegExp): string | undefined {
-  const m = text.match(regex)
-  return m?.[1]?.trim() || undefined
-}
-
-function normalizeLines(text: string): string[] {
-  return text
-    .split(/\r?\n/)
-    .map(l => l.replace(/\s+/g, ' ').trim())
-    .filter(Boolean)
-}
-
-function extractMoneyTokens(line: string): string[] {
-  // Capture tokens like "$12.34", "-$12.34", "(12.34)", "($12.34)"
-  // Note: normalizeMoneyToTwoDecimalString will interpret parentheses as negative.
-  return (line.match(/(?:\(\s*\$?\s*[\d,]+\.\d{2}\s*\)|-?\$?\s*[\d,]+\.\d{2})/g) || [])
-    .map(t => normalizeMoneyToTwoDecimalString(t) || '')
-    .filter(Boolean)
-}
-
-function absMoneyString(input: string | undefined): string | undefined {
-  if (!input) return undefined
-  const n = parseMoneyToNumber(input)
-  if (n === undefined) return undefined
-  return Math.abs(n).toFixed(2)
-}
-
 function extractQty(line: string): number | undefined {
   // 1) Explicit qty label
   const qtyMatch = line.match(/\bQty\b\s*[:#]?\s*(\d{1,3})\b/i)
@@ -3,6 +3,9 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  readonly VITE_QBO_CLIENT_ID?: string
+  readonly VITE_QBO_ENVIRONMENT?: 'sandbox' | 'production'
+  readonly VITE_QBO_PROXY_URL?: string
 }
 
 interface ImportMeta {
@@ -0,0 +1,133 @@
+// Forwards QuickBooks Online calls from the browser: Intuit's API does not allow CORS, and the token
+// endpoint needs the app's client secret. Only signed-in users of the app may call it: the
+// Authorization header carries the caller's Supabase JWT (checked by the platform and again here
+// against Supabase Auth), and X-QBO-Authorization carries the QBO access token that is forwarded to
+// Intuit. Browsers are only allowed from the origins listed in ALLOWED_ORIGINS (comma separated).
+//
+//   POST /oauth2/v1/tokens/bearer         -> https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer
+//   GET|POST /v3/company/{realmId}/...    -> https://(sandbox-)quickbooks.api.intuit.com/v3/company/...
+//
+// The X-QBO-Environment header ('sandbox' | 'production') picks the API host.
+
+// The parts of the Deno runtime this function uses, so the file type-checks outside Deno too.
+declare const Deno: {
+  serve: (handler: (req: Request) => Response | Promise<Response>) => void
+  env: { get: (key: string) => string | undefined }
+}
+
+const QBO_CLIENT_ID = requireEnv('QBO_CLIENT_ID')
+const QBO_CLIENT_SECRET = requireEnv('QBO_CLIENT_SECRET')
+const SUPABASE_URL = requireEnv('SUPABASE_URL')
+const SUPABASE_ANON_KEY = requireEnv('SUPABASE_ANON_KEY')
+const ALLOWED_ORIGINS = requireEnv('ALLOWED_ORIGINS')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean)
+const TOKEN_URL = 'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer'
+const API_HOSTS: Record<string, string> = {
+  sandbox: 'https://sandbox-quickbooks.api.intuit.com',
+  production: 'https://quickbooks.api.intuit.com'
+}
+
+Deno.serve(async req => {
+  const corsHeaders = corsHeadersFor(req)
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: corsHeaders['Access-Control-Allow-Origin'] ? 204 : 403, headers: corsHeaders })
+  }
+
+  if (!(await isSignedInUser(req))) {
+    return jsonResponse(corsHeaders, { error: 'Sign in to use QuickBooks' }, 401)
+  }
+
+  const url = new URL(req.url)
+  // Supabase serves the function under /quickbooks-proxy; everything after it mirrors Intuit's paths.
+  const path = url.pathname.replace(/^.*?\/quickbooks-proxy/, '')
+
+  try {
+    if (req.method === 'POST' && path === '/oauth2/v1/tokens/bearer') {
+      const upstream = await fetch(TOKEN_URL, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: `Basic ${btoa(`${QBO_CLIENT_ID}:${QBO_CLIENT_SECRET}`)}`
+        },
+        body: await req.text()
+      })
+      return relay(corsHeaders, upstream)
+    }
+
+    if (/^\/v3\/company\/[^/]+\/(query|customer|invoice|item)$/.test(path) && (req.method === 'GET' || req.method === 'POST')) {
+      const environment = req.headers.get('X-QBO-Environment') === 'sandbox' ? 'sandbox' : 'production'
+      const upstream = await fetch(`${API_HOSTS[environment]}${path}${url.search}`, {
+        method: req.method,
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': req.headers.get('Content-Type') ?? 'application/json',
+          Authorization: req.headers.get('X-QBO-Authorization') ?? ''
+        },
+        body: req.method === 'POST' ? await req.text() : undefined
+      })
+      return relay(corsHeaders, upstream)
+    }
+
+    return jsonResponse(corsHeaders, { error: `Unsupported route: ${req.method} ${path}` }, 404)
+  } catch (error) {
+    console.error('quickbooks-proxy error', error)
+    return jsonResponse(corsHeaders, { error: error instanceof Error ? error.message : 'Proxy request failed' }, 502)
+  }
+})
+
+// Echoes the request's origin only when it is one of the app's; other origins get no CORS grant.
+function corsHeadersFor(req: Request): Record<string, string> {
+  const origin = req.headers.get('Origin')
+  return {
+    ...(origin && ALLOWED_ORIGINS.includes(origin) ? { 'Access-Control-Allow-Origin': origin } : {}),
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept, X-QBO-Authorization, X-QBO-Environment, apikey, x-client-info',
+    Vary: 'Origin'
+  }
+}
+
+// The anon key is also a valid JWT, so ask Supabase Auth whether the token belongs to an actual user.
+async function isSignedInUser(req: Request): Promise<boolean> {
+  const authorization = req.headers.get('Authorization')
+  if (!authorization?.startsWith('Bearer ')) {
+    return false
+  }
+  const response = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
+    headers: { Authorization: authorization, apikey: SUPABASE_ANON_KEY }
+  })
+  return response.ok
+}
+
+async function relay(corsHeaders: Record<string, string>, upstream: Response) {
+  return new Response(await upstream.text(), {
+    status: upstream.status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': upstream.headers.get('Content-Type') ?? 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  })
+}
+
+function requireEnv(key: string): string {
+  const value = Deno.env.get(key)
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${key}`)
+  }
+  return value
+}
+
+function jsonResponse(corsHeaders: Record<string, string>, body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    }
+  })
+}
@@ -0,0 +1,165 @@
+-- Persisted invoices
+-- Each invoice stores a frozen JSON snapshot of the billed transactions/items so we can show exactly
+-- what a client was billed on a given date, even after the underlying records change.
+-- Invoice numbers are sequential per account and assigned by a trigger on insert.
+
+CREATE TABLE IF NOT EXISTS invoice_number_sequences (
+  account_id UUID PRIMARY KEY REFERENCES accounts(id) ON DELETE CASCADE,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  invoice_number INTEGER NOT NULL, -- NOT NULL is checked after BEFORE triggers, which fill it in
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (
+    status IN ('draft', 'sent', 'partially_paid', 'paid', 'void')
+  ),
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE,
+  total_due NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  amount_paid NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  snapshot JSONB NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+  paid_at TIMESTAMPTZ,
+  voided_at TIMESTAMPTZ,
+  UNIQUE (account_id, invoice_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_account_id ON invoices(account_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_project_id ON invoices(project_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(account_id, status);
+
+-- Assign the next per-account invoice number. The counter row is updated inside the inserting
+-- transaction, so a failed insert rolls the counter back and numbers stay gapless.
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.invoice_number IS NULL THEN
+    INSERT INTO invoice_number_sequences (account_id, last_number)
+    VALUES (NEW.account_id, 1)
+    ON CONFLICT (account_id)
+    DO UPDATE SET last_number = invoice_number_sequences.last_number + 1
+    RETURNING last_number INTO NEW.invoice_number;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_assign_invoice_number ON invoices;
+CREATE TRIGGER trg_assign_invoice_number
+  BEFORE INSERT ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_invoice_number();
+
+CREATE OR REPLACE FUNCTION touch_invoices_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_touch_invoices_updated_at ON invoices;
+CREATE TRIGGER trg_touch_invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_invoices_updated_at();
+
+-- Once an invoice leaves draft, what was billed is frozen, and status changes follow
+-- INVOICE_STATUS_TRANSITIONS in invoiceService. Updates made from another trigger (payments keeping
+-- amount_paid in sync) may also move between sent, partially_paid and paid, e.g. when a payment is deleted.
+CREATE OR REPLACE FUNCTION enforce_invoice_immutability()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' AND (
+    NEW.snapshot IS DISTINCT FROM OLD.snapshot
+    OR NEW.total_due IS DISTINCT FROM OLD.total_due
+    OR NEW.invoice_number IS DISTINCT FROM OLD.invoice_number
+    OR NEW.project_id IS DISTINCT FROM OLD.project_id
+  ) THEN
+    RAISE EXCEPTION 'Invoice % is %; its contents can no longer be changed', OLD.invoice_number, OLD.status;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF pg_trigger_depth() > 1
+      AND OLD.status IN ('sent', 'partially_paid', 'paid')
+      AND NEW.status IN ('sent', 'partially_paid', 'paid') THEN
+      RETURN NEW;
+    END IF;
+
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status IN ('sent', 'void'))
+      OR (OLD.status = 'sent' AND NEW.status IN ('partially_paid', 'paid', 'void'))
+      OR (OLD.status = 'partially_paid' AND NEW.status IN ('paid', 'void'))
+    ) THEN
+      RAISE EXCEPTION 'Invoice % cannot change from % to %', OLD.invoice_number, OLD.status, NEW.status;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_invoice_immutability ON invoices;
+CREATE TRIGGER trg_enforce_invoice_immutability
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_invoice_immutability();
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_number_sequences ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'invoices'
+    AND policyname = 'Users can read invoices in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read invoices in their account or owners can read all"
+      ON invoices FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'invoices'
+    AND policyname = 'Users can create invoices in their account or owners can create any'
+  ) THEN
+    CREATE POLICY "Users can create invoices in their account or owners can create any"
+      ON invoices FOR INSERT
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'invoices'
+    AND policyname = 'Users can update invoices in their account or owners can update any'
+  ) THEN
+    CREATE POLICY "Users can update invoices in their account or owners can update any"
+      ON invoices FOR UPDATE
+      USING (can_access_account(account_id) OR is_system_owner())
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+END $$;
+
+-- Invoices are voided, never deleted, so there is intentionally no DELETE policy.
+
+COMMENT ON TABLE invoices IS 'Persisted project invoices with a frozen snapshot of billed transactions and items';
+COMMENT ON COLUMN invoices.invoice_number IS 'Sequential per account; assigned by trg_assign_invoice_number';
+COMMENT ON COLUMN invoices.snapshot IS 'InvoiceSnapshot JSON (charges, credits, totals) captured when the invoice was saved';
+COMMENT ON COLUMN invoices.status IS 'draft -> sent -> partially_paid -> paid, or void';
@@ -0,0 +1,113 @@
+-- Payment records
+-- Money received from a client (optionally applied to an invoice) or returned to a client.
+-- Applying payments keeps invoices.amount_paid and the invoice status in sync.
+
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  direction TEXT NOT NULL DEFAULT 'client_to_company' CHECK (
+    direction IN ('client_to_company', 'company_to_client')
+  ),
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL,
+  reference TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (invoice_id IS NULL OR direction = 'client_to_company')
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_account_id ON payments(account_id);
+CREATE INDEX IF NOT EXISTS idx_payments_project_id ON payments(project_id);
+CREATE INDEX IF NOT EXISTS idx_payments_invoice_id ON payments(invoice_id) WHERE invoice_id IS NOT NULL;
+
+-- Recompute amount_paid for the affected invoice(s) and move sent/partially paid invoices
+-- between sent, partially_paid and paid. Draft and void invoices keep their status.
+CREATE OR REPLACE FUNCTION sync_invoice_amount_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id uuid;
+  v_paid numeric;
+BEGIN
+  FOR v_invoice_id IN
+    SELECT DISTINCT id FROM unnest(ARRAY[
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.invoice_id END,
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.invoice_id END
+    ]) AS id
+    WHERE id IS NOT NULL
+  LOOP
+    SELECT COALESCE(SUM(amount), 0) INTO v_paid
+    FROM payments
+    WHERE invoice_id = v_invoice_id;
+
+    UPDATE invoices
+    SET
+      amount_paid = v_paid,
+      status = CASE
+        WHEN status IN ('draft', 'void') THEN status
+        WHEN v_paid >= total_due THEN 'paid'
+        WHEN v_paid > 0 THEN 'partially_paid'
+        ELSE 'sent'
+      END,
+      paid_at = CASE
+        WHEN status IN ('draft', 'void') THEN paid_at
+        WHEN v_paid >= total_due THEN COALESCE(paid_at, NOW())
+        ELSE NULL
+      END
+    WHERE id = v_invoice_id;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_invoice_amount_paid ON payments;
+CREATE TRIGGER trg_sync_invoice_amount_paid
+  AFTER INSERT OR UPDATE OF invoice_id, amount OR DELETE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_invoice_amount_paid();
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'payments'
+    AND policyname = 'Users can read payments in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read payments in their account or owners can read all"
+      ON payments FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'payments'
+    AND policyname = 'Users can create payments in their account or owners can create any'
+  ) THEN
+    CREATE POLICY "Users can create payments in their account or owners can create any"
+      ON payments FOR INSERT
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'payments'
+    AND policyname = 'Users can delete payments in their account or owners can delete any'
+  ) THEN
+    CREATE POLICY "Users can delete payments in their account or owners can delete any"
+      ON payments FOR DELETE
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+END $$;
+
+COMMENT ON TABLE payments IS 'Client payments and reimbursements recorded against a project, optionally applied to an invoice';
+COMMENT ON COLUMN payments.direction IS 'client_to_company reduces the outstanding balance; company_to_client increases it';
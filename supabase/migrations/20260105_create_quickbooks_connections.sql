@@ -0,0 +1,59 @@
+-- QuickBooks Online connection per account, plus the QBO invoice id for invoices pushed there.
+-- Tokens are readable only by account admins; the quickbooks-proxy function holds the client secret.
+
+CREATE TABLE IF NOT EXISTS quickbooks_connections (
+  account_id UUID PRIMARY KEY REFERENCES accounts(id) ON DELETE CASCADE,
+  realm_id TEXT NOT NULL,
+  environment TEXT NOT NULL DEFAULT 'production' CHECK (environment IN ('sandbox', 'production')),
+  access_token TEXT NOT NULL,
+  refresh_token TEXT NOT NULL,
+  access_token_expires_at TIMESTAMPTZ NOT NULL,
+  refresh_token_expires_at TIMESTAMPTZ,
+  default_item_id TEXT,
+  connected_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION touch_quickbooks_connections_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_touch_quickbooks_connections_updated_at ON quickbooks_connections;
+CREATE TRIGGER trg_touch_quickbooks_connections_updated_at
+  BEFORE UPDATE ON quickbooks_connections
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_quickbooks_connections_updated_at();
+
+ALTER TABLE quickbooks_connections ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'quickbooks_connections'
+    AND policyname = 'Account admins can manage their QuickBooks connection'
+  ) THEN
+    CREATE POLICY "Account admins can manage their QuickBooks connection"
+      ON quickbooks_connections FOR ALL
+      USING (is_account_admin(account_id) OR is_system_owner())
+      WITH CHECK (is_account_admin(account_id) OR is_system_owner());
+  END IF;
+END $$;
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS qbo_invoice_id TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS qbo_synced_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_account_qbo_invoice_id
+  ON invoices(account_id, qbo_invoice_id)
+  WHERE qbo_invoice_id IS NOT NULL;
+
+COMMENT ON TABLE quickbooks_connections IS 'QuickBooks Online OAuth tokens and company (realm) per account';
+COMMENT ON COLUMN quickbooks_connections.default_item_id IS 'QBO Item used as ItemRef on invoice lines; falls back to the first service item';
+COMMENT ON COLUMN invoices.qbo_invoice_id IS 'QBO Invoice Id once the invoice has been created there; guards against duplicate creates';
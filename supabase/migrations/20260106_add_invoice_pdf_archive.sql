@@ -0,0 +1,83 @@
+-- Archived invoice PDFs
+-- Once an invoice leaves draft, the PDF the client received is stored in the private 'invoice-pdfs'
+-- bucket under accounts/<account_id>/invoices/<invoice_id>/ and referenced from the invoice row.
+-- The archive is write-once: the file cannot be replaced and the invoice cannot be re-pointed.
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS pdf_path TEXT;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS pdf_generated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN invoices.pdf_path IS 'Object path of the archived PDF in the invoice-pdfs storage bucket';
+
+CREATE OR REPLACE FUNCTION enforce_invoice_pdf_write_once()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.pdf_path IS NOT NULL AND (
+    NEW.pdf_path IS DISTINCT FROM OLD.pdf_path
+    OR NEW.pdf_generated_at IS DISTINCT FROM OLD.pdf_generated_at
+  ) THEN
+    RAISE EXCEPTION 'Invoice % already has an archived PDF', OLD.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_enforce_invoice_pdf_write_once ON invoices;
+CREATE TRIGGER trg_enforce_invoice_pdf_write_once
+  BEFORE UPDATE OF pdf_path, pdf_generated_at ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_invoice_pdf_write_once();
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invoice-pdfs', 'invoice-pdfs', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- Invoice PDFs Bucket Policies
+-- The second path segment is the account id, so access follows account membership. Uploads are
+-- only accepted for an invoice that has left draft and has no archived PDF yet.
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'storage'
+    AND tablename = 'objects'
+    AND policyname = 'Users can read invoice PDFs in their account'
+  ) THEN
+    CREATE POLICY "Users can read invoice PDFs in their account"
+      ON storage.objects FOR SELECT
+      TO authenticated
+      USING (
+        bucket_id = 'invoice-pdfs'
+        AND (can_access_account(((storage.foldername(name))[2])::uuid) OR is_system_owner())
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'storage'
+    AND tablename = 'objects'
+    AND policyname = 'Users can upload invoice PDFs in their account'
+  ) THEN
+    CREATE POLICY "Users can upload invoice PDFs in their account"
+      ON storage.objects FOR INSERT
+      TO authenticated
+      WITH CHECK (
+        bucket_id = 'invoice-pdfs'
+        AND (can_access_account(((storage.foldername(name))[2])::uuid) OR is_system_owner())
+        AND EXISTS (
+          SELECT 1 FROM invoices i
+          WHERE i.account_id = ((storage.foldername(name))[2])::uuid
+          AND i.id::text = (storage.foldername(name))[4]
+          AND i.status <> 'draft'
+          AND i.pdf_path IS NULL
+        )
+      );
+  END IF;
+END $$;
+
+-- Archived PDFs are never replaced or deleted, so there is no UPDATE or DELETE policy.
@@ -0,0 +1,177 @@
+-- Client portal share links
+-- A share link gives anyone holding its token read-only access to one project's client summary,
+-- issued invoices and item gallery, without signing in. Only the SHA-256 hash of the token is stored,
+-- links expire and can be revoked, and every view is logged.
+--
+-- Anonymous visitors never read these tables (or items/transactions) directly: get_shared_project()
+-- validates the token and returns only client-facing fields for the linked project.
+
+CREATE TABLE IF NOT EXISTS project_share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  label TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_accessed_at TIMESTAMPTZ,
+  access_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_share_links_project ON project_share_links(account_id, project_id);
+
+CREATE TABLE IF NOT EXISTS project_share_link_access_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  link_id UUID NOT NULL REFERENCES project_share_links(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  accessed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_share_link_access_logs_link
+  ON project_share_link_access_logs(link_id, accessed_at DESC);
+
+ALTER TABLE project_share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_share_link_access_logs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'project_share_links'
+    AND policyname = 'Users can read share links in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read share links in their account or owners can read all"
+      ON project_share_links FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'project_share_links'
+    AND policyname = 'Users can create share links in their account or owners can create any'
+  ) THEN
+    CREATE POLICY "Users can create share links in their account or owners can create any"
+      ON project_share_links FOR INSERT
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'project_share_links'
+    AND policyname = 'Users can update share links in their account or owners can update any'
+  ) THEN
+    CREATE POLICY "Users can update share links in their account or owners can update any"
+      ON project_share_links FOR UPDATE
+      USING (can_access_account(account_id) OR is_system_owner())
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  -- Log rows are written only by get_shared_project(), so members get read access and nothing else.
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'project_share_link_access_logs'
+    AND policyname = 'Users can read share link access logs in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read share link access logs in their account or owners can read all"
+      ON project_share_link_access_logs FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+END $$;
+
+-- Links are revoked rather than deleted so the access log survives, hence no DELETE policy.
+
+CREATE OR REPLACE FUNCTION get_shared_project(p_token TEXT, p_user_agent TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_link project_share_links%ROWTYPE;
+BEGIN
+  IF p_token IS NULL OR length(p_token) < 32 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_link
+  FROM project_share_links
+  WHERE token_hash = encode(digest(p_token, 'sha256'), 'hex')
+    AND revoked_at IS NULL
+    AND expires_at > NOW();
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO project_share_link_access_logs (link_id, account_id, user_agent)
+  VALUES (v_link.id, v_link.account_id, left(p_user_agent, 500));
+
+  UPDATE project_share_links
+  SET last_accessed_at = NOW(), access_count = access_count + 1
+  WHERE id = v_link.id;
+
+  RETURN jsonb_build_object(
+    'project', (
+      SELECT jsonb_build_object('name', p.name, 'client_name', p.client_name)
+      FROM projects p
+      WHERE p.id = v_link.project_id AND p.account_id = v_link.account_id
+    ),
+    'business', (
+      SELECT jsonb_build_object('name', a.name, 'logo_url', a.business_logo_url)
+      FROM accounts a
+      WHERE a.id = v_link.account_id
+    ),
+    'expires_at', v_link.expires_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'item_id', i.item_id,
+        'description', i.description,
+        'source', i.source,
+        'sku', i.sku,
+        'space', i.space,
+        'project_price', i.project_price,
+        'market_value', i.market_value,
+        'transaction_id', i.transaction_id,
+        'images', i.images
+      ) ORDER BY i.created_at)
+      FROM items i
+      WHERE i.account_id = v_link.account_id AND i.project_id = v_link.project_id
+    ), '[]'::jsonb),
+    'transactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('transaction_id', t.transaction_id, 'category_id', t.category_id))
+      FROM transactions t
+      WHERE t.account_id = v_link.account_id AND t.project_id = v_link.project_id
+    ), '[]'::jsonb),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', c.id, 'name', c.name))
+      FROM vw_budget_categories c
+      WHERE c.account_id = v_link.account_id
+    ), '[]'::jsonb),
+    'invoices', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'invoice_number', inv.invoice_number,
+        'status', inv.status,
+        'issue_date', inv.issue_date,
+        'due_date', inv.due_date,
+        'total_due', inv.total_due,
+        'amount_paid', inv.amount_paid,
+        'snapshot', inv.snapshot
+      ) ORDER BY inv.invoice_number DESC)
+      FROM invoices inv
+      WHERE inv.account_id = v_link.account_id
+        AND inv.project_id = v_link.project_id
+        AND inv.status IN ('sent', 'partially_paid', 'paid')
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_shared_project(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_shared_project(TEXT, TEXT) TO anon, authenticated;
+
+COMMENT ON TABLE project_share_links IS 'Read-only client portal links to a project; token_hash is the SHA-256 of the token in the URL';
+COMMENT ON TABLE project_share_link_access_logs IS 'One row per client portal view, written by get_shared_project()';
+COMMENT ON FUNCTION get_shared_project(TEXT, TEXT) IS 'Validates a share link token, logs the view and returns the client-facing project data';
@@ -0,0 +1,278 @@
+-- Client approval requests for proposed ("to purchase") items
+-- The designer sends a set of items to the client through a tokenized link. The client approves or
+-- rejects each item (optionally with a comment) without signing in, and each decision is written
+-- straight back to the item: approved items become 'purchased' (the client keeps them), rejected
+-- items stay 'to purchase' (they were never bought, so there is nothing to return), the decision and
+-- comment are appended to the item notes and an audit row is logged.
+--
+-- As with project_share_links, only the SHA-256 hash of the token is stored and anonymous visitors
+-- only go through the SECURITY DEFINER functions below.
+
+CREATE TABLE IF NOT EXISTS item_approval_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  message TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_approval_requests_project ON item_approval_requests(account_id, project_id);
+
+CREATE TABLE IF NOT EXISTS item_approval_request_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES item_approval_requests(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL,
+  decision TEXT NOT NULL DEFAULT 'pending' CHECK (decision IN ('pending', 'approved', 'rejected')),
+  comment TEXT,
+  decided_at TIMESTAMPTZ,
+  UNIQUE (request_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_approval_request_items_item ON item_approval_request_items(account_id, item_id);
+
+ALTER TABLE item_approval_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE item_approval_request_items ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'item_approval_requests'
+    AND policyname = 'Users can read approval requests in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read approval requests in their account or owners can read all"
+      ON item_approval_requests FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'item_approval_requests'
+    AND policyname = 'Users can create approval requests in their account or owners can create any'
+  ) THEN
+    CREATE POLICY "Users can create approval requests in their account or owners can create any"
+      ON item_approval_requests FOR INSERT
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'item_approval_requests'
+    AND policyname = 'Users can update approval requests in their account or owners can update any'
+  ) THEN
+    CREATE POLICY "Users can update approval requests in their account or owners can update any"
+      ON item_approval_requests FOR UPDATE
+      USING (can_access_account(account_id) OR is_system_owner())
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'item_approval_request_items'
+    AND policyname = 'Users can read approval request items in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read approval request items in their account or owners can read all"
+      ON item_approval_request_items FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  -- Decisions are recorded only by respond_to_item_approval(), so members can add items but not decide.
+  -- Items must belong to a request in the same account.
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'item_approval_request_items'
+    AND policyname = 'Users can create approval request items in their account or owners can create any'
+  ) THEN
+    CREATE POLICY "Users can create approval request items in their account or owners can create any"
+      ON item_approval_request_items FOR INSERT
+      WITH CHECK (
+        (can_access_account(account_id) OR is_system_owner())
+        AND decision = 'pending'
+        AND EXISTS (
+          SELECT 1 FROM item_approval_requests r
+          WHERE r.id = request_id
+          AND r.account_id = item_approval_request_items.account_id
+        )
+      );
+  END IF;
+END $$;
+
+-- Client decisions are logged against the item alongside allocation events.
+ALTER TABLE item_audit_logs
+  DROP CONSTRAINT IF EXISTS item_audit_logs_event_type_check,
+  ADD CONSTRAINT item_audit_logs_event_type_check
+    CHECK (event_type IN ('allocation', 'deallocation', 'return', 'client_approval'));
+
+CREATE OR REPLACE FUNCTION find_item_approval_request(p_token TEXT)
+RETURNS item_approval_requests
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT *
+  FROM item_approval_requests
+  WHERE p_token IS NOT NULL
+    AND length(p_token) >= 32
+    AND token_hash = encode(digest(p_token, 'sha256'), 'hex')
+    AND revoked_at IS NULL
+    AND expires_at > NOW();
+$$;
+
+REVOKE ALL ON FUNCTION find_item_approval_request(TEXT) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION get_item_approval_request(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_request item_approval_requests%ROWTYPE;
+BEGIN
+  v_request := find_item_approval_request(p_token);
+  IF v_request.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'project', (
+      SELECT jsonb_build_object('name', p.name, 'client_name', p.client_name)
+      FROM projects p
+      WHERE p.id = v_request.project_id AND p.account_id = v_request.account_id
+    ),
+    'business', (
+      SELECT jsonb_build_object('name', a.name, 'logo_url', a.business_logo_url)
+      FROM accounts a
+      WHERE a.id = v_request.account_id
+    ),
+    'message', v_request.message,
+    'expires_at', v_request.expires_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'item_id', i.item_id,
+        'description', i.description,
+        'source', i.source,
+        'sku', i.sku,
+        'space', i.space,
+        'project_price', i.project_price,
+        'images', i.images,
+        'decision', ri.decision,
+        'comment', ri.comment,
+        'decided_at', ri.decided_at
+      ) ORDER BY i.description)
+      FROM item_approval_request_items ri
+      JOIN items i ON i.account_id = ri.account_id AND i.item_id = ri.item_id
+      WHERE ri.request_id = v_request.id
+        AND i.project_id = v_request.project_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_item_approval_request(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_item_approval_request(TEXT) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION respond_to_item_approval(
+  p_token TEXT,
+  p_item_id TEXT,
+  p_decision TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_request item_approval_requests%ROWTYPE;
+  v_request_item item_approval_request_items%ROWTYPE;
+  v_comment TEXT := NULLIF(btrim(left(p_comment, 2000)), '');
+  v_disposition TEXT;
+  v_previous_disposition TEXT;
+  v_note TEXT;
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid decision: %', p_decision;
+  END IF;
+
+  v_request := find_item_approval_request(p_token);
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'This approval link has expired or is no longer available';
+  END IF;
+
+  SELECT * INTO v_request_item
+  FROM item_approval_request_items
+  WHERE request_id = v_request.id AND item_id = p_item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item is not part of this approval request';
+  END IF;
+
+  IF v_request_item.decision <> 'pending' THEN
+    RAISE EXCEPTION 'A decision has already been recorded for this item';
+  END IF;
+
+  v_disposition := CASE p_decision WHEN 'approved' THEN 'purchased' ELSE 'to purchase' END;
+  v_note := format(
+    'Client %s on %s%s',
+    p_decision,
+    to_char(NOW() AT TIME ZONE 'UTC', 'YYYY-MM-DD'),
+    CASE WHEN v_comment IS NULL THEN '' ELSE ': ' || v_comment END
+  );
+
+  SELECT disposition INTO v_previous_disposition
+  FROM items
+  WHERE account_id = v_request.account_id AND item_id = p_item_id AND project_id = v_request.project_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item is no longer part of this project';
+  END IF;
+
+  -- A stale link must not flip an item the designer has since bought, returned or moved on.
+  IF v_previous_disposition IS DISTINCT FROM 'to purchase' THEN
+    RAISE EXCEPTION 'This item is no longer awaiting approval';
+  END IF;
+
+  UPDATE items
+  SET disposition = v_disposition,
+      notes = CASE WHEN COALESCE(notes, '') = '' THEN v_note ELSE notes || E'\n' || v_note END,
+      last_updated = NOW()
+  WHERE account_id = v_request.account_id AND item_id = p_item_id AND disposition = 'to purchase';
+
+  UPDATE item_approval_request_items
+  SET decision = p_decision, comment = v_comment, decided_at = NOW()
+  WHERE id = v_request_item.id;
+
+  INSERT INTO item_audit_logs (account_id, event_type, item_id, project_id, details)
+  VALUES (
+    v_request.account_id,
+    'client_approval',
+    p_item_id,
+    v_request.project_id,
+    jsonb_build_object(
+      'approval_request_id', v_request.id,
+      'decision', p_decision,
+      'comment', v_comment,
+      'from_status', v_previous_disposition,
+      'to_status', v_disposition
+    )
+  );
+
+  RETURN jsonb_build_object('item_id', p_item_id, 'decision', p_decision, 'comment', v_comment, 'decided_at', NOW());
+END;
+$$;
+
+REVOKE ALL ON FUNCTION respond_to_item_approval(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION respond_to_item_approval(TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+COMMENT ON TABLE item_approval_requests IS 'Items sent to the client for sign-off; token_hash is the SHA-256 of the token in the URL';
+COMMENT ON TABLE item_approval_request_items IS 'Per-item client decision for an approval request, written by respond_to_item_approval()';
+COMMENT ON FUNCTION respond_to_item_approval(TEXT, TEXT, TEXT, TEXT) IS 'Records a client decision and applies it to the item (disposition, notes, audit log)';
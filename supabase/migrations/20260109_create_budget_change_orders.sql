@@ -0,0 +1,353 @@
+-- Budget change orders
+-- Every adjustment to a project's per-category budget is recorded as a change order (category,
+-- signed amount, reason, approver, date) instead of overwriting projects.budget_categories in place.
+--
+-- projects.budget_categories keeps holding the *current* budget so existing reports keep working;
+-- approve_budget_change_order() is the only path that moves it, and does so in the same transaction
+-- that marks the change order approved. The original budget is therefore always
+-- current - SUM(approved change orders), and approved change orders are never edited afterwards.
+-- Once a project has an approved change order, trg_lock_project_budget_categories rejects any other
+-- write to its budget_categories.
+
+CREATE TABLE IF NOT EXISTS budget_change_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  category_id UUID NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount <> 0),
+  reason TEXT NOT NULL CHECK (length(btrim(reason)) > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  approved_by TEXT,
+  approved_on DATE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT budget_change_orders_approval_check CHECK (
+    status <> 'approved' OR (approved_by IS NOT NULL AND approved_on IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_change_orders_project
+  ON budget_change_orders(account_id, project_id, requested_on);
+
+-- Budget categories live in account_presets, so category_id is validated by trigger like transactions.category_id.
+CREATE OR REPLACE FUNCTION check_budget_change_order_category_valid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT validate_budget_category_exists(NEW.category_id, NEW.account_id) THEN
+    RAISE EXCEPTION 'Category ID % does not exist in budget categories for account %', NEW.category_id, NEW.account_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_budget_change_order_category_valid ON budget_change_orders;
+CREATE TRIGGER check_budget_change_order_category_valid
+  BEFORE INSERT OR UPDATE OF category_id ON budget_change_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION check_budget_change_order_category_valid();
+
+-- Decided change orders are part of the budget's history and must not change.
+CREATE OR REPLACE FUNCTION prevent_decided_budget_change_order_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'Change order % has already been %', OLD.id, OLD.status;
+  END IF;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_decided_budget_change_order_update ON budget_change_orders;
+CREATE TRIGGER prevent_decided_budget_change_order_update
+  BEFORE UPDATE ON budget_change_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_decided_budget_change_order_update();
+
+ALTER TABLE budget_change_orders ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'budget_change_orders'
+    AND policyname = 'Users can read budget change orders in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read budget change orders in their account or owners can read all"
+      ON budget_change_orders FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  -- New change orders start pending; approval goes through approve_budget_change_order().
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'budget_change_orders'
+    AND policyname = 'Users can create budget change orders in their account or owners can create any'
+  ) THEN
+    CREATE POLICY "Users can create budget change orders in their account or owners can create any"
+      ON budget_change_orders FOR INSERT
+      WITH CHECK ((can_access_account(account_id) OR is_system_owner()) AND status = 'pending');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'budget_change_orders'
+    AND policyname = 'Users can update budget change orders in their account or owners can update any'
+  ) THEN
+    CREATE POLICY "Users can update budget change orders in their account or owners can update any"
+      ON budget_change_orders FOR UPDATE
+      USING (can_access_account(account_id) OR is_system_owner())
+      WITH CHECK ((can_access_account(account_id) OR is_system_owner()) AND status IN ('pending', 'rejected'));
+  END IF;
+END $$;
+
+-- Change orders are rejected rather than deleted so the revision history stays complete, hence no DELETE policy.
+
+-- Category budgets with approved change orders only move through approve_budget_change_order(), which
+-- marks its own update with a transaction-local setting. Projects without approved change orders keep
+-- editing their budget directly.
+CREATE OR REPLACE FUNCTION lock_project_budget_categories()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.budget_categories IS DISTINCT FROM OLD.budget_categories
+    AND COALESCE(current_setting('app.approving_budget_change_order', true), '') <> 'on'
+    AND EXISTS (
+      SELECT 1 FROM budget_change_orders
+      WHERE project_id = OLD.id AND account_id = OLD.account_id AND status = 'approved'
+    ) THEN
+    RAISE EXCEPTION 'This budget has approved change orders; adjust category budgets with a change order';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_lock_project_budget_categories ON projects;
+CREATE TRIGGER trg_lock_project_budget_categories
+  BEFORE UPDATE OF budget_categories ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION lock_project_budget_categories();
+
+-- SECURITY DEFINER because the UPDATE policy only lets members write pending/rejected rows; account
+-- access is checked explicitly instead.
+CREATE OR REPLACE FUNCTION approve_budget_change_order(
+  p_change_order_id UUID,
+  p_approved_by TEXT,
+  p_approved_on DATE DEFAULT CURRENT_DATE
+)
+RETURNS budget_change_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order budget_change_orders%ROWTYPE;
+  v_current NUMERIC(12, 2);
+BEGIN
+  IF p_approved_by IS NULL OR length(btrim(p_approved_by)) = 0 THEN
+    RAISE EXCEPTION 'Enter who approved the change order';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM budget_change_orders
+  WHERE id = p_change_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT (can_access_account(v_order.account_id) OR is_system_owner()) THEN
+    RAISE EXCEPTION 'Change order not found';
+  END IF;
+
+  IF v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'This change order has already been %', v_order.status;
+  END IF;
+
+  SELECT COALESCE(NULLIF(p.budget_categories->>v_order.category_id::text, '')::numeric, 0)
+  INTO v_current
+  FROM projects p
+  WHERE p.id = v_order.project_id AND p.account_id = v_order.account_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF v_current + v_order.amount < 0 THEN
+    RAISE EXCEPTION 'This change would make the category budget negative';
+  END IF;
+
+  PERFORM set_config('app.approving_budget_change_order', 'on', true);
+
+  UPDATE projects
+  SET budget_categories = jsonb_set(
+        COALESCE(budget_categories, '{}'::jsonb),
+        ARRAY[v_order.category_id::text],
+        to_jsonb(v_current + v_order.amount)
+      ),
+      updated_at = NOW()
+  WHERE id = v_order.project_id AND account_id = v_order.account_id;
+
+  PERFORM set_config('app.approving_budget_change_order', '', true);
+
+  UPDATE budget_change_orders
+  SET status = 'approved',
+      approved_by = btrim(p_approved_by),
+      approved_on = COALESCE(p_approved_on, CURRENT_DATE)
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION approve_budget_change_order(UUID, TEXT, DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION approve_budget_change_order(UUID, TEXT, DATE) TO authenticated;
+
+-- Records a change order that was already approved (e.g. signed off in a meeting) in one transaction,
+-- so a failed approval never leaves a pending row behind. Runs as the caller, so the insert goes through
+-- the INSERT policy like any other new change order.
+CREATE OR REPLACE FUNCTION create_approved_budget_change_order(
+  p_account_id UUID,
+  p_project_id UUID,
+  p_category_id UUID,
+  p_amount NUMERIC,
+  p_reason TEXT,
+  p_approved_by TEXT,
+  p_requested_on DATE DEFAULT CURRENT_DATE
+)
+RETURNS budget_change_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order budget_change_orders%ROWTYPE;
+BEGIN
+  INSERT INTO budget_change_orders (account_id, project_id, category_id, amount, reason, requested_on, created_by)
+  VALUES (p_account_id, p_project_id, p_category_id, p_amount, btrim(p_reason), COALESCE(p_requested_on, CURRENT_DATE), auth.uid())
+  RETURNING * INTO v_order;
+
+  RETURN approve_budget_change_order(v_order.id, p_approved_by, v_order.requested_on);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_approved_budget_change_order(UUID, UUID, UUID, NUMERIC, TEXT, TEXT, DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_approved_budget_change_order(UUID, UUID, UUID, NUMERIC, TEXT, TEXT, DATE) TO authenticated;
+
+-- The client portal shows the revision history next to the budget summary, so the shared project
+-- now also returns the current category budgets and approved change orders.
+CREATE OR REPLACE FUNCTION get_shared_project(p_token TEXT, p_user_agent TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_link project_share_links%ROWTYPE;
+BEGIN
+  IF p_token IS NULL OR length(p_token) < 32 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_link
+  FROM project_share_links
+  WHERE token_hash = encode(digest(p_token, 'sha256'), 'hex')
+    AND revoked_at IS NULL
+    AND expires_at > NOW();
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO project_share_link_access_logs (link_id, account_id, user_agent)
+  VALUES (v_link.id, v_link.account_id, left(p_user_agent, 500));
+
+  UPDATE project_share_links
+  SET last_accessed_at = NOW(), access_count = access_count + 1
+  WHERE id = v_link.id;
+
+  RETURN jsonb_build_object(
+    'project', (
+      SELECT jsonb_build_object(
+        'name', p.name,
+        'client_name', p.client_name,
+        'budget_categories', COALESCE(p.budget_categories, '{}'::jsonb)
+      )
+      FROM projects p
+      WHERE p.id = v_link.project_id AND p.account_id = v_link.account_id
+    ),
+    'business', (
+      SELECT jsonb_build_object('name', a.name, 'logo_url', a.business_logo_url)
+      FROM accounts a
+      WHERE a.id = v_link.account_id
+    ),
+    'expires_at', v_link.expires_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'item_id', i.item_id,
+        'description', i.description,
+        'source', i.source,
+        'sku', i.sku,
+        'space', i.space,
+        'project_price', i.project_price,
+        'market_value', i.market_value,
+        'transaction_id', i.transaction_id,
+        'images', i.images
+      ) ORDER BY i.created_at)
+      FROM items i
+      WHERE i.account_id = v_link.account_id AND i.project_id = v_link.project_id
+    ), '[]'::jsonb),
+    'transactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('transaction_id', t.transaction_id, 'category_id', t.category_id))
+      FROM transactions t
+      WHERE t.account_id = v_link.account_id AND t.project_id = v_link.project_id
+    ), '[]'::jsonb),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', c.id, 'name', c.name))
+      FROM vw_budget_categories c
+      WHERE c.account_id = v_link.account_id
+    ), '[]'::jsonb),
+    'budget_change_orders', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', co.id,
+        'category_id', co.category_id,
+        'amount', co.amount,
+        'reason', co.reason,
+        'status', co.status,
+        'requested_on', co.requested_on,
+        'approved_by', co.approved_by,
+        'approved_on', co.approved_on,
+        'created_at', co.created_at
+      ) ORDER BY co.approved_on, co.created_at)
+      FROM budget_change_orders co
+      WHERE co.account_id = v_link.account_id
+        AND co.project_id = v_link.project_id
+        AND co.status = 'approved'
+    ), '[]'::jsonb),
+    'invoices', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'invoice_number', inv.invoice_number,
+        'status', inv.status,
+        'issue_date', inv.issue_date,
+        'due_date', inv.due_date,
+        'total_due', inv.total_due,
+        'amount_paid', inv.amount_paid,
+        'snapshot', inv.snapshot
+      ) ORDER BY inv.invoice_number DESC)
+      FROM invoices inv
+      WHERE inv.account_id = v_link.account_id
+        AND inv.project_id = v_link.project_id
+        AND inv.status IN ('sent', 'partially_paid', 'paid')
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+COMMENT ON TABLE budget_change_orders IS 'Signed per-category budget adjustments; approved rows have been applied to projects.budget_categories';
+COMMENT ON FUNCTION approve_budget_change_order(UUID, TEXT, DATE) IS 'Approves a pending change order and applies its amount to the project category budget';
+COMMENT ON FUNCTION create_approved_budget_change_order(UUID, UUID, UUID, NUMERIC, TEXT, TEXT, DATE) IS 'Inserts and approves a change order in one transaction';
@@ -0,0 +1,176 @@
+-- Budget threshold alerts and in-app notifications
+-- budget_alert_rules holds per-project spend thresholds (a percentage of a category budget). A rule
+-- without a category applies to every category; a project with no rules uses the app defaults.
+--
+-- notifications is the account's in-app notification feed. dedupe_key is unique per account so an
+-- event (e.g. "category X of project Y reached 80%") is only ever recorded once, no matter how many
+-- clients evaluate it. Read state is per user (notification_reads), so one member reading an alert
+-- does not clear it for the rest of the account.
+
+CREATE TABLE IF NOT EXISTS budget_alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  category_id UUID,
+  threshold_percent NUMERIC(6, 2) NOT NULL CHECK (threshold_percent > 0 AND threshold_percent <= 1000),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budget_alert_rules_unique
+  ON budget_alert_rules(project_id, COALESCE(category_id, '00000000-0000-0000-0000-000000000000'::uuid), threshold_percent);
+
+CREATE INDEX IF NOT EXISTS idx_budget_alert_rules_project ON budget_alert_rules(account_id, project_id);
+
+-- Same validation as budget_change_orders.category_id; NULL means "all categories".
+CREATE OR REPLACE FUNCTION check_budget_alert_rule_category_valid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.category_id IS NOT NULL AND NOT validate_budget_category_exists(NEW.category_id, NEW.account_id) THEN
+    RAISE EXCEPTION 'Category ID % does not exist in budget categories for account %', NEW.category_id, NEW.account_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_budget_alert_rule_category_valid ON budget_alert_rules;
+CREATE TRIGGER check_budget_alert_rule_category_valid
+  BEFORE INSERT OR UPDATE OF category_id ON budget_alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION check_budget_alert_rule_category_valid();
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('budget_threshold')),
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  dedupe_key TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT notifications_dedupe_key_unique UNIQUE (account_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_account_created ON notifications(account_id, created_at DESC);
+
+-- A row means the user has read the notification; no row means unread.
+CREATE TABLE IF NOT EXISTS notification_reads (
+  notification_id UUID NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES users(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (notification_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_reads_user ON notification_reads(user_id);
+
+ALTER TABLE budget_alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_reads ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'budget_alert_rules'
+    AND policyname = 'Users can read budget alert rules in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read budget alert rules in their account or owners can read all"
+      ON budget_alert_rules FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'budget_alert_rules'
+    AND policyname = 'Users can create budget alert rules in their account or owners can create any'
+  ) THEN
+    CREATE POLICY "Users can create budget alert rules in their account or owners can create any"
+      ON budget_alert_rules FOR INSERT
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'budget_alert_rules'
+    AND policyname = 'Users can delete budget alert rules in their account or owners can delete any'
+  ) THEN
+    CREATE POLICY "Users can delete budget alert rules in their account or owners can delete any"
+      ON budget_alert_rules FOR DELETE
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'notifications'
+    AND policyname = 'Users can read notifications in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read notifications in their account or owners can read all"
+      ON notifications FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'notifications'
+    AND policyname = 'Users can create notifications in their account or owners can create any'
+  ) THEN
+    CREATE POLICY "Users can create notifications in their account or owners can create any"
+      ON notifications FOR INSERT
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  -- Each user only sees and writes their own read markers, for notifications they can see.
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'notification_reads'
+    AND policyname = 'Users can read their own notification reads'
+  ) THEN
+    CREATE POLICY "Users can read their own notification reads"
+      ON notification_reads FOR SELECT
+      USING (user_id = auth.uid());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'notification_reads'
+    AND policyname = 'Users can mark notifications in their account as read'
+  ) THEN
+    CREATE POLICY "Users can mark notifications in their account as read"
+      ON notification_reads FOR INSERT
+      WITH CHECK (
+        user_id = auth.uid()
+        AND EXISTS (
+          SELECT 1 FROM notifications n
+          WHERE n.id = notification_id
+            AND (can_access_account(n.account_id) OR is_system_owner())
+        )
+      );
+  END IF;
+END $$;
+
+-- Notifications are never updated or deleted, so a dedupe_key can never fire twice; reads are recorded
+-- in notification_reads instead.
+
+-- Marks every notification in the account read for the calling user. Runs as the caller, so the
+-- notification_reads INSERT policy still applies.
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_account_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  INSERT INTO notification_reads (notification_id, user_id)
+  SELECT n.id, auth.uid()
+  FROM notifications n
+  WHERE n.account_id = p_account_id
+  ON CONFLICT (notification_id, user_id) DO NOTHING;
+$$;
+
+REVOKE ALL ON FUNCTION mark_notifications_read(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mark_notifications_read(UUID) TO authenticated;
+
+COMMENT ON TABLE budget_alert_rules IS 'Per-project budget thresholds (percent of a category budget); NULL category_id applies to all categories';
+COMMENT ON TABLE notifications IS 'Account-wide in-app notifications; (account_id, dedupe_key) is unique so each event is recorded once';
+COMMENT ON TABLE notification_reads IS 'Per-user read markers for notifications; a missing row means unread';
@@ -0,0 +1,9 @@
+-- Pricing rule bookkeeping on items
+-- Pricing rules live in account_presets.presets.pricing_rules; items remember which rule suggested
+-- their project price and whether someone changed it afterwards.
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS pricing_rule_id TEXT;
+ALTER TABLE items ADD COLUMN IF NOT EXISTS project_price_overridden BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN items.pricing_rule_id IS 'Id of the account pricing rule that suggested project_price';
+COMMENT ON COLUMN items.project_price_overridden IS 'True when project_price was edited away from the pricing rule price';
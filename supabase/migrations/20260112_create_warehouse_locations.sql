@@ -0,0 +1,171 @@
+-- Warehouse locations
+-- Business inventory is stored in a per-account hierarchy: warehouse → zone → shelf → bin. Items point
+-- at a node through items.warehouse_location_id (usually a bin, but any level is allowed).
+--
+-- items.business_inventory_location stays as the human-readable path so older clients, search and
+-- exports keep working; the app rewrites it whenever a structured location is picked.
+
+CREATE TABLE IF NOT EXISTS warehouse_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES warehouse_locations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('warehouse', 'zone', 'shelf', 'bin')),
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT warehouse_locations_root_check CHECK ((kind = 'warehouse') = (parent_id IS NULL))
+);
+
+-- Sibling names are unique regardless of case; warehouses are siblings of each other.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouse_locations_sibling_name
+  ON warehouse_locations(account_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+
+CREATE INDEX IF NOT EXISTS idx_warehouse_locations_parent
+  ON warehouse_locations(parent_id);
+
+-- Each level may only sit directly under the level above it, in the same account.
+CREATE OR REPLACE FUNCTION check_warehouse_location_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_parent warehouse_locations%ROWTYPE;
+BEGIN
+  NEW.name := btrim(NEW.name);
+  NEW.updated_at := NOW();
+
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM warehouse_locations WHERE id = NEW.parent_id;
+
+  IF NOT FOUND OR v_parent.account_id <> NEW.account_id THEN
+    RAISE EXCEPTION 'Parent location % does not exist in account %', NEW.parent_id, NEW.account_id;
+  END IF;
+
+  IF (v_parent.kind, NEW.kind) NOT IN (('warehouse', 'zone'), ('zone', 'shelf'), ('shelf', 'bin')) THEN
+    RAISE EXCEPTION 'A % cannot be placed inside a %', NEW.kind, v_parent.kind;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_warehouse_location_parent ON warehouse_locations;
+CREATE TRIGGER check_warehouse_location_parent
+  BEFORE INSERT OR UPDATE ON warehouse_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION check_warehouse_location_parent();
+
+ALTER TABLE warehouse_locations ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'warehouse_locations'
+    AND policyname = 'Users can read warehouse locations in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read warehouse locations in their account or owners can read all"
+      ON warehouse_locations FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'warehouse_locations'
+    AND policyname = 'Users can create warehouse locations in their account or owners can create any'
+  ) THEN
+    CREATE POLICY "Users can create warehouse locations in their account or owners can create any"
+      ON warehouse_locations FOR INSERT
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'warehouse_locations'
+    AND policyname = 'Users can update warehouse locations in their account or owners can update any'
+  ) THEN
+    CREATE POLICY "Users can update warehouse locations in their account or owners can update any"
+      ON warehouse_locations FOR UPDATE
+      USING (can_access_account(account_id) OR is_system_owner())
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'warehouse_locations'
+    AND policyname = 'Users can delete warehouse locations in their account or owners can delete any'
+  ) THEN
+    CREATE POLICY "Users can delete warehouse locations in their account or owners can delete any"
+      ON warehouse_locations FOR DELETE
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+END $$;
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS warehouse_location_id UUID REFERENCES warehouse_locations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_items_warehouse_location
+  ON items(account_id, warehouse_location_id)
+  WHERE warehouse_location_id IS NOT NULL;
+
+-- Best-effort backfill from the free-text location. Text such as "Main Warehouse > Zone B > Shelf 3 > Bin 12"
+-- or the old form placeholder style "Warehouse A - Section 3 - Shelf 5" is split on > › / | , ; and " - ",
+-- and the parts become warehouse, zone, shelf and bin in that order (extra parts are folded into the bin name).
+-- Shorter paths stop at a higher level, so "Garage" becomes a warehouse. Hyphens without surrounding
+-- spaces ("A-3") are left alone. Items whose text yields nothing keep a NULL location.
+DO $$
+DECLARE
+  v_row RECORD;
+  v_parts TEXT[];
+  v_kinds TEXT[] := ARRAY['warehouse', 'zone', 'shelf', 'bin'];
+  v_count INT;
+  v_name TEXT;
+  v_parent UUID;
+  v_id UUID;
+BEGIN
+  FOR v_row IN
+    SELECT DISTINCT account_id, btrim(business_inventory_location) AS location
+    FROM items
+    WHERE warehouse_location_id IS NULL
+      AND btrim(COALESCE(business_inventory_location, '')) <> ''
+  LOOP
+    v_parts := ARRAY(
+      SELECT btrim(part)
+      FROM regexp_split_to_table(v_row.location, '\s*(?:>|›|/|\||,|;|\s-\s)\s*') WITH ORDINALITY AS t(part, position)
+      WHERE btrim(part) <> ''
+      ORDER BY position
+    );
+    v_count := COALESCE(array_length(v_parts, 1), 0);
+    CONTINUE WHEN v_count = 0;
+
+    v_parent := NULL;
+    FOR i IN 1..LEAST(v_count, 4) LOOP
+      v_name := CASE WHEN i = 4 THEN array_to_string(v_parts[4:v_count], ' / ') ELSE v_parts[i] END;
+
+      SELECT id INTO v_id
+      FROM warehouse_locations
+      WHERE account_id = v_row.account_id
+        AND parent_id IS NOT DISTINCT FROM v_parent
+        AND lower(name) = lower(v_name);
+
+      IF NOT FOUND THEN
+        INSERT INTO warehouse_locations (account_id, parent_id, kind, name)
+        VALUES (v_row.account_id, v_parent, v_kinds[i], v_name)
+        RETURNING id INTO v_id;
+      END IF;
+
+      v_parent := v_id;
+    END LOOP;
+
+    UPDATE items
+    SET warehouse_location_id = v_parent
+    WHERE account_id = v_row.account_id
+      AND warehouse_location_id IS NULL
+      AND btrim(business_inventory_location) = v_row.location;
+  END LOOP;
+END $$;
+
+COMMENT ON TABLE warehouse_locations IS 'Per-account business inventory storage hierarchy: warehouse > zone > shelf > bin';
+COMMENT ON COLUMN items.warehouse_location_id IS 'Structured warehouse location; business_inventory_location holds its display path';
@@ -0,0 +1,335 @@
+-- Physical inventory counts (cycle counts)
+-- A count session covers one warehouse location and everything under it, or the whole account when
+-- location_id is NULL. While it is open, staff record every item they find (and where they found it)
+-- as entries. The app compares the entries with what business inventory says should be there.
+--
+-- close_inventory_count_session() is the only way to close a session. It stores one adjustment per
+-- discrepancy the user reviewed, applies the chosen location fixes to items, and logs those fixes in
+-- item_audit_logs, all in one transaction. Closed sessions and their adjustments are never edited.
+
+CREATE TABLE IF NOT EXISTS inventory_count_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  location_id UUID REFERENCES warehouse_locations(id) ON DELETE SET NULL,
+  -- Display path of location_id when the session started, kept in case the location is later deleted
+  location_path TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  started_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  closed_at TIMESTAMPTZ,
+  CONSTRAINT inventory_count_sessions_closed_check CHECK ((status = 'closed') = (closed_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_count_sessions_account
+  ON inventory_count_sessions(account_id, started_at DESC);
+
+-- One row per item found; counting an item again replaces where it was found.
+CREATE TABLE IF NOT EXISTS inventory_count_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES inventory_count_sessions(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL,
+  counted_location_id UUID REFERENCES warehouse_locations(id) ON DELETE SET NULL,
+  counted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  counted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT inventory_count_entries_item_unique UNIQUE (session_id, item_id)
+);
+
+CREATE TABLE IF NOT EXISTS inventory_count_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES inventory_count_sessions(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL,
+  item_description TEXT,
+  discrepancy TEXT NOT NULL CHECK (discrepancy IN ('missing', 'unexpected', 'mislocated')),
+  resolution TEXT NOT NULL CHECK (resolution IN ('none', 'relocate', 'clear_location')),
+  expected_location_id UUID,
+  expected_location_path TEXT,
+  counted_location_id UUID,
+  counted_location_path TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_count_adjustments_session
+  ON inventory_count_adjustments(session_id);
+
+-- Entries can only change while their session is open. (A missing session is left to the foreign key,
+-- so deleting an open session can still cascade to its entries.)
+CREATE OR REPLACE FUNCTION check_inventory_count_session_open()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_session_id := OLD.session_id;
+  ELSE
+    v_session_id := NEW.session_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM inventory_count_sessions WHERE id = v_session_id AND status <> 'open') THEN
+    RAISE EXCEPTION 'This count session is closed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_inventory_count_session_open ON inventory_count_entries;
+CREATE TRIGGER check_inventory_count_session_open
+  BEFORE INSERT OR UPDATE OR DELETE ON inventory_count_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION check_inventory_count_session_open();
+
+ALTER TABLE inventory_count_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_count_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_count_adjustments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'inventory_count_sessions'
+    AND policyname = 'Users can read count sessions in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read count sessions in their account or owners can read all"
+      ON inventory_count_sessions FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  -- Sessions start open; closing goes through close_inventory_count_session().
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'inventory_count_sessions'
+    AND policyname = 'Users can create count sessions in their account or owners can create any'
+  ) THEN
+    CREATE POLICY "Users can create count sessions in their account or owners can create any"
+      ON inventory_count_sessions FOR INSERT
+      WITH CHECK ((can_access_account(account_id) OR is_system_owner()) AND status = 'open');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'inventory_count_sessions'
+    AND policyname = 'Users can update open count sessions in their account or owners can update any'
+  ) THEN
+    CREATE POLICY "Users can update open count sessions in their account or owners can update any"
+      ON inventory_count_sessions FOR UPDATE
+      USING ((can_access_account(account_id) OR is_system_owner()) AND status = 'open')
+      WITH CHECK ((can_access_account(account_id) OR is_system_owner()) AND status = 'open');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'inventory_count_sessions'
+    AND policyname = 'Users can delete open count sessions in their account or owners can delete any'
+  ) THEN
+    CREATE POLICY "Users can delete open count sessions in their account or owners can delete any"
+      ON inventory_count_sessions FOR DELETE
+      USING ((can_access_account(account_id) OR is_system_owner()) AND status = 'open');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'inventory_count_entries'
+    AND policyname = 'Users can read count entries in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read count entries in their account or owners can read all"
+      ON inventory_count_entries FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'inventory_count_entries'
+    AND policyname = 'Users can create count entries in their account or owners can create any'
+  ) THEN
+    CREATE POLICY "Users can create count entries in their account or owners can create any"
+      ON inventory_count_entries FOR INSERT
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'inventory_count_entries'
+    AND policyname = 'Users can update count entries in their account or owners can update any'
+  ) THEN
+    CREATE POLICY "Users can update count entries in their account or owners can update any"
+      ON inventory_count_entries FOR UPDATE
+      USING (can_access_account(account_id) OR is_system_owner())
+      WITH CHECK (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'inventory_count_entries'
+    AND policyname = 'Users can delete count entries in their account or owners can delete any'
+  ) THEN
+    CREATE POLICY "Users can delete count entries in their account or owners can delete any"
+      ON inventory_count_entries FOR DELETE
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+
+  -- Adjustments are written only by close_inventory_count_session(), hence no write policies.
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'inventory_count_adjustments'
+    AND policyname = 'Users can read count adjustments in their account or owners can read all'
+  ) THEN
+    CREATE POLICY "Users can read count adjustments in their account or owners can read all"
+      ON inventory_count_adjustments FOR SELECT
+      USING (can_access_account(account_id) OR is_system_owner());
+  END IF;
+END $$;
+
+-- Location fixes from a count are logged against the item alongside allocation events.
+ALTER TABLE item_audit_logs
+  DROP CONSTRAINT IF EXISTS item_audit_logs_event_type_check,
+  ADD CONSTRAINT item_audit_logs_event_type_check
+    CHECK (event_type IN ('allocation', 'deallocation', 'return', 'client_approval', 'inventory_count'));
+
+-- Same format as the app's formatLocationPath(): names from the warehouse down, joined with " › ".
+CREATE OR REPLACE FUNCTION warehouse_location_path(p_location_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT id, parent_id, name, 0 AS depth
+    FROM warehouse_locations
+    WHERE id = p_location_id
+    UNION ALL
+    SELECT parent.id, parent.parent_id, parent.name, ancestors.depth + 1
+    FROM warehouse_locations parent
+    JOIN ancestors ON parent.id = ancestors.parent_id
+    WHERE ancestors.depth < 4
+  )
+  SELECT string_agg(name, ' › ' ORDER BY depth DESC) FROM ancestors;
+$$;
+
+-- Security definer so adjustments can be inserted without a table policy; access is checked explicitly,
+-- and the closing user is always the caller. Counted locations must belong to the session's account.
+-- p_adjustments is a JSON array of
+--   { item_id, item_description, discrepancy, resolution, expected_location_id, counted_location_id }.
+CREATE OR REPLACE FUNCTION close_inventory_count_session(
+  p_session_id UUID,
+  p_adjustments JSONB DEFAULT '[]'::jsonb
+)
+RETURNS inventory_count_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session inventory_count_sessions%ROWTYPE;
+  v_adjustment RECORD;
+  v_target_path TEXT;
+BEGIN
+  SELECT * INTO v_session
+  FROM inventory_count_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT (can_access_account(v_session.account_id) OR is_system_owner()) THEN
+    RAISE EXCEPTION 'Count session not found';
+  END IF;
+
+  IF v_session.status <> 'open' THEN
+    RAISE EXCEPTION 'This count session is already closed';
+  END IF;
+
+  FOR v_adjustment IN
+    SELECT *
+    FROM jsonb_to_recordset(COALESCE(p_adjustments, '[]'::jsonb)) AS a(
+      item_id TEXT,
+      item_description TEXT,
+      discrepancy TEXT,
+      resolution TEXT,
+      expected_location_id UUID,
+      counted_location_id UUID
+    )
+  LOOP
+    IF v_adjustment.resolution = 'relocate' AND v_adjustment.counted_location_id IS NULL THEN
+      RAISE EXCEPTION 'Item % has no counted location to move it to', v_adjustment.item_id;
+    END IF;
+
+    IF v_adjustment.counted_location_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM warehouse_locations
+      WHERE id = v_adjustment.counted_location_id AND account_id = v_session.account_id
+    ) THEN
+      RAISE EXCEPTION 'Counted location for item % not found', v_adjustment.item_id;
+    END IF;
+
+    IF v_adjustment.resolution IN ('relocate', 'clear_location') THEN
+      v_target_path := CASE
+        WHEN v_adjustment.resolution = 'relocate' THEN warehouse_location_path(v_adjustment.counted_location_id)
+        ELSE NULL
+      END;
+
+      UPDATE items
+      SET warehouse_location_id = CASE WHEN v_adjustment.resolution = 'relocate' THEN v_adjustment.counted_location_id END,
+          business_inventory_location = v_target_path,
+          last_updated = NOW(),
+          version = version + 1
+      WHERE account_id = v_session.account_id AND item_id = v_adjustment.item_id;
+
+      INSERT INTO item_audit_logs (account_id, event_type, item_id, details)
+      VALUES (
+        v_session.account_id,
+        'inventory_count',
+        v_adjustment.item_id,
+        jsonb_build_object(
+          'count_session_id', v_session.id,
+          'discrepancy', v_adjustment.discrepancy,
+          'resolution', v_adjustment.resolution,
+          'from_location_id', v_adjustment.expected_location_id,
+          'to_location_id', v_adjustment.counted_location_id,
+          'to_location', v_target_path
+        )
+      );
+    END IF;
+
+    INSERT INTO inventory_count_adjustments (
+      session_id, account_id, item_id, item_description, discrepancy, resolution,
+      expected_location_id, expected_location_path, counted_location_id, counted_location_path, created_by
+    )
+    VALUES (
+      v_session.id,
+      v_session.account_id,
+      v_adjustment.item_id,
+      v_adjustment.item_description,
+      v_adjustment.discrepancy,
+      v_adjustment.resolution,
+      v_adjustment.expected_location_id,
+      warehouse_location_path(v_adjustment.expected_location_id),
+      v_adjustment.counted_location_id,
+      warehouse_location_path(v_adjustment.counted_location_id),
+      auth.uid()
+    );
+  END LOOP;
+
+  UPDATE inventory_count_sessions
+  SET status = 'closed',
+      closed_by = auth.uid(),
+      closed_at = NOW()
+  WHERE id = v_session.id
+  RETURNING * INTO v_session;
+
+  RETURN v_session;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION close_inventory_count_session(UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION close_inventory_count_session(UUID, JSONB) TO authenticated;
+
+COMMENT ON TABLE inventory_count_sessions IS 'Physical inventory counts scoped to a warehouse location or the whole account';
+COMMENT ON TABLE inventory_count_entries IS 'Items found during a count session and where they were found';
+COMMENT ON TABLE inventory_count_adjustments IS 'Discrepancies reviewed when a count session was closed and how each was resolved';
+COMMENT ON FUNCTION close_inventory_count_session(UUID, JSONB) IS 'Closes an open count session, applying and recording its adjustments';
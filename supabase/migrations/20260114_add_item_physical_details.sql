@@ -0,0 +1,34 @@
+-- Dimensions, weight and condition on items
+-- dimensions: {"width": 60, "height": 30, "depth": 36, "unit": "inches" | "cm" | "mm"}
+-- weight: {"value": 45, "unit": "lb" | "kg"}
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS dimensions JSONB;
+ALTER TABLE items ADD COLUMN IF NOT EXISTS weight JSONB;
+ALTER TABLE items ADD COLUMN IF NOT EXISTS condition TEXT;
+
+ALTER TABLE items DROP CONSTRAINT IF EXISTS items_dimensions_check;
+ALTER TABLE items ADD CONSTRAINT items_dimensions_check CHECK (
+  dimensions IS NULL OR (
+    jsonb_typeof(dimensions->'width') = 'number'
+    AND jsonb_typeof(dimensions->'height') = 'number'
+    AND (dimensions->'depth' IS NULL OR jsonb_typeof(dimensions->'depth') = 'number')
+    AND dimensions->>'unit' IN ('inches', 'cm', 'mm')
+  )
+);
+
+ALTER TABLE items DROP CONSTRAINT IF EXISTS items_weight_check;
+ALTER TABLE items ADD CONSTRAINT items_weight_check CHECK (
+  weight IS NULL OR (
+    jsonb_typeof(weight->'value') = 'number'
+    AND weight->>'unit' IN ('lb', 'kg')
+  )
+);
+
+ALTER TABLE items DROP CONSTRAINT IF EXISTS items_condition_check;
+ALTER TABLE items ADD CONSTRAINT items_condition_check CHECK (
+  condition IS NULL OR condition IN ('new', 'like_new', 'good', 'fair', 'poor', 'damaged')
+);
+
+COMMENT ON COLUMN items.dimensions IS 'Width, height, optional depth and unit; parsed from vendor size attributes on invoice import';
+COMMENT ON COLUMN items.weight IS 'Shipping/handling weight with unit';
+COMMENT ON COLUMN items.condition IS 'Physical condition: new, like_new, good, fair, poor or damaged';
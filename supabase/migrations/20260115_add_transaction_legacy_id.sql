@@ -0,0 +1,10 @@
+-- Original transaction ID for rows brought in by the spreadsheet import
+-- Re-importing the same CSV matches on this column, since imported transactions get new transaction_ids.
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS legacy_transaction_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_legacy_transaction_id
+  ON transactions(account_id, project_id, legacy_transaction_id)
+  WHERE legacy_transaction_id IS NOT NULL;
+
+COMMENT ON COLUMN transactions.legacy_transaction_id IS 'Transaction ID from the spreadsheet the transaction was imported from';